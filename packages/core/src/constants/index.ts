@@ -4,6 +4,8 @@
  * Centralized configuration values and magic numbers extracted for maintainability.
  */
 
+import type { AlertConfig } from '../types';
+
 // ==================== API ENDPOINTS ====================
 // Environment detection for API URL switching
 // - Development (localhost): Use Vite proxy to avoid CORS issues
@@ -59,9 +61,20 @@ export const API_ENDPOINTS = {
 
 // ==================== CACHE CONFIGURATION ====================
 export const CACHE_CONFIG = {
-  /** Maximum cache size in bytes (50 MB) */
+  /** Default cache quota in bytes (50 MB), shared by weather data and map tiles */
   MAX_SIZE_BYTES: 50 * 1024 * 1024,
 
+  /** Quotas the user can choose from (bytes) */
+  QUOTA_OPTIONS: [50, 100, 250, 500, 1000].map((mb) => mb * 1024 * 1024),
+
+  /** Map tile cache */
+  TILES: {
+    /** Cached tiles are shown, then refreshed in the background once older than this */
+    REVALIDATE_AFTER_MS: 7 * 24 * 60 * 60 * 1000, // 1 week
+    /** Last use of a tile is recorded at most this often */
+    TOUCH_INTERVAL_MS: 60 * 60 * 1000,            // 1 hour
+  },
+
   /** Time-to-live for different data types (in milliseconds) */
   TTL: {
     MARINE: 30 * 60 * 1000,       // 30 minutes
@@ -69,7 +82,9 @@ export const CACHE_CONFIG = {
     CURRENT: 15 * 60 * 1000,      // 15 minutes
     MULTIMODEL: 60 * 60 * 1000,   // 1 hour
     GRIB: 24 * 60 * 60 * 1000,    // 24 hours
+    VERIFICATION: 30 * 24 * 60 * 60 * 1000, // 30 days
     GEOCODING: 7 * 24 * 60 * 60 * 1000, // 1 week
+    DEPTH_GRID: 365 * 24 * 60 * 60 * 1000, // 1 year
   },
 
   /** Workbox runtime caching configuration */
@@ -85,6 +100,112 @@ export const CACHE_CONFIG = {
   },
 } as const;
 
+// ==================== OFFLINE PACKS ====================
+export const OFFLINE_PACK_CONFIG = {
+  /** Packs are flagged for update after this long (in milliseconds) */
+  TTL_MS: 30 * 24 * 60 * 60 * 1000,   // 30 days
+
+  /** Largest pack that can be downloaded, in map tiles */
+  MAX_TILES: 20000,
+
+  /** Deepest zoom level tiles are downloaded for */
+  MAX_ZOOM: 14,
+
+  /** Parallel downloads */
+  CONCURRENCY: 4,
+
+  /** Progress is saved every this many items, so an interrupted download resumes close to where it stopped */
+  SAVE_EVERY: 20,
+
+  /** Forecast grid spacing (degrees) and points per axis */
+  GRID_SPACING_DEG: 0.25,
+  GRID_MIN_POINTS: 3,
+  GRID_MAX_POINTS: 8,
+
+  /** Default and longest forecast in a pack (days) */
+  FORECAST_DAYS: 5,
+  MAX_FORECAST_DAYS: 7,
+
+  /** Marinas are searched around the pack centre up to this radius (NM) */
+  MAX_MARINA_RADIUS_NM: 60,
+
+  /** Size estimates (bytes) */
+  ESTIMATE: {
+    TILE: 20 * 1024,
+    GEOJSON: 4 * 1024 * 1024,
+    FORECAST_POINT_HOUR: 250,
+    HAZARDS: 200 * 1024,
+    AIDS: 100 * 1024,
+    MARINAS: 50 * 1024,
+  },
+} as const;
+
+// ==================== SEAMARKS ====================
+export const SEAMARK_CONFIG = {
+  /** Fetched aids to navigation are reused for this long (in milliseconds) */
+  CACHE_TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+
+  /** Queried areas are widened to this grid (degrees) so nearby views share a cache entry */
+  SNAP_DEG: 0.1,
+
+  /** Aids are shown from this zoom level (too many to draw below) */
+  MIN_ZOOM: 11,
+} as const;
+
+// ==================== SEA ROUTES ====================
+export const SEA_ROUTE_CONFIG = {
+  /** Cells along the longer side of the search grid; finer grids find narrower passages but take longer */
+  GRID_CELLS: 160,
+
+  /** Smallest grid cell (degrees, about 200 m), so short trips don't use needlessly fine grids */
+  MIN_CELL_DEG: 0.002,
+
+  /** Margin around the start and destination searched for a way round (fraction of the trip's span) */
+  PADDING_RATIO: 0.5,
+
+  /** Minimum margin around the start and destination (degrees) */
+  MIN_PADDING_DEG: 0.1,
+
+  /** Times a leg that clips land is searched again on a finer grid of its own */
+  MAX_REFINEMENTS: 2,
+
+  /** Default distance planned routes keep off land (meters) */
+  SHORE_CLEARANCE_M: 200,
+
+  /** How long a land layer found missing is not requested again */
+  MISSING_LAYER_RETRY_MS: 10 * 60 * 1000,
+} as const;
+
+// ==================== DEPTH ====================
+export const DEPTH_CONFIG = {
+  /** Default water wanted under the keel (meters) */
+  UNDER_KEEL_CLEARANCE_M: 1.0,
+
+  /** Most depth samples taken along a route */
+  MAX_SAMPLES: 200,
+
+  /** Closest spacing of depth samples (nautical miles) */
+  MIN_SPACING_NM: 0.05,
+
+  /** How long a failed or empty bathymetry contour load is remembered */
+  CONTOUR_RETRY_MS: 10 * 60 * 1000,
+} as const;
+
+// ==================== HAZARD AVOIDANCE ====================
+export const AVOIDANCE_CONFIG = {
+  /** Times a route is rerouted and analyzed again before giving up */
+  MAX_ITERATIONS: 4,
+} as const;
+
+// ==================== TRAFFIC SEPARATION SCHEMES ====================
+export const TSS_CONFIG = {
+  /** A course within this of a lane's direction of traffic flow follows the lane (degrees) */
+  MAX_LANE_DEVIATION_DEG: 30,
+
+  /** Lanes should be crossed at right angles (COLREGS Rule 10c); allowed deviation (degrees) */
+  MAX_CROSSING_DEVIATION_DEG: 20,
+} as const;
+
 // ==================== API REQUEST CONFIGURATION ====================
 export const REQUEST_CONFIG = {
   /** Default timeout for fetch requests (in milliseconds) */
@@ -116,6 +237,9 @@ export const WEATHER_CONSTANTS = {
   /** Hourly data points per day */
   HOURS_PER_DAY: 24,
 
+  /** Horizon of the hourly map grid forecast (regional models reach ~3 days) */
+  GRID_FORECAST_HOURS: 72,
+
   /**
    * Timezone for API requests
    * Best Practice: Use 'auto' to automatically detect local timezone
@@ -164,6 +288,40 @@ export const WEATHER_CONSTANTS = {
 
   /** Wave height threshold for ocean detection (meters) */
   WAVE_HEIGHT_LAND_THRESHOLD: 0.05,
+
+  /** Horizon of the multi-model comparison (regional models reach 2-3 days) */
+  COMPARISON_FORECAST_HOURS: 72,
+
+  /** Model spread above which an hour is flagged as uncertain */
+  MODEL_DISAGREEMENT: {
+    WIND_SPEED_KMH: 10,
+    WIND_GUSTS_KMH: 15,
+    WIND_DIRECTION_DEG: 45,
+    /** Wind direction is only compared above this mean speed */
+    WIND_DIRECTION_MIN_SPEED_KMH: 10,
+    PRESSURE_HPA: 4,
+    WAVE_HEIGHT_M: 0.5,
+    WAVE_PERIOD_S: 2,
+    SWELL_HEIGHT_M: 0.5,
+  },
+
+  /** Forecast verification against observed conditions */
+  VERIFICATION: {
+    /** Observations within this distance verify a location's forecasts (NM) */
+    MATCH_RADIUS_NM: 5,
+    /** Minimum time between stored snapshots of the same model */
+    SNAPSHOT_INTERVAL_MS: 3 * 60 * 60 * 1000,
+    /** Hours of each forecast snapshot kept */
+    SNAPSHOT_HOURS: 72,
+    /** Minimum time between automatic (instrument or API) observations */
+    OBSERVATION_INTERVAL_MS: 20 * 60 * 1000,
+    MAX_SNAPSHOTS: 120,
+    MAX_OBSERVATIONS: 1000,
+    /** Lead time buckets (hours), each running up to the next */
+    LEAD_BUCKETS_HOURS: [0, 6, 12, 24, 48],
+    /** Paired samples a model needs before it can be preferred */
+    MIN_SAMPLES: 12,
+  },
 } as const;
 
 // ==================== NAVIGATION & GEOGRAPHY ====================
@@ -174,6 +332,60 @@ export const NAVIGATION_CONSTANTS = {
   /** Knot to m/s conversion */
   KNOT_TO_MS: 0.514444,
 
+  /** km/h to knot conversion (Open-Meteo default speed unit) */
+  KMH_TO_KNOTS: 1 / 1.852,
+
+  /** Vessel performance defaults */
+  VESSEL_PERFORMANCE: {
+    /** Speed under engine (knots) */
+    MOTORING_SPEED: 6,
+    /** True wind speed below which the vessel motors (knots) */
+    MOTORING_THRESHOLD: 5,
+  },
+
+  /** AIS collision warning and target aging defaults */
+  AIS: {
+    CPA_THRESHOLD_NM: 0.5,
+    TCPA_THRESHOLD_MINUTES: 20,
+    /** Class A at anchor reports every 3 minutes; allow two missed reports */
+    LOST_AFTER_MS: 6 * 60 * 1000,
+    REMOVE_AFTER_MS: 20 * 60 * 1000,
+    /** How often silent targets are aged while a feed is attached */
+    AGE_INTERVAL_MS: 30 * 1000,
+  },
+
+  /** Anchor watch defaults */
+  ANCHOR_WATCH: {
+    /** Fixes less accurate than this are not used for alarms (meters) */
+    MAX_ACCURACY_M: 50,
+    /** Approximate horizontal error per unit of HDOP (meters) */
+    HDOP_TO_METERS: 5,
+    /** Consecutive fixes outside the circle before the alarm sounds */
+    CONFIRM_FIXES: 3,
+    /** Fraction of the swing radius that triggers a caution */
+    CAUTION_RATIO: 0.9,
+    /** Repeat interval for an unacknowledged alarm */
+    ALARM_REPEAT_MS: 30 * 1000,
+    /** Minimum time between recorded track points */
+    TRACK_INTERVAL_MS: 5 * 1000,
+    MAX_TRACK_POINTS: 2000,
+    /** Bow roller height above the water (meters) */
+    FREEBOARD_M: 1,
+  },
+
+  /** Man overboard drift and search pattern defaults */
+  MOB: {
+    /** Leeway of a person in the water as a fraction of wind speed */
+    LEEWAY_FACTOR: 0.03,
+    /** Spacing between expanding square legs (NM) */
+    TRACK_SPACING_NM: 0.1,
+    EXPANDING_SQUARE_LEGS: 12,
+    /** Sector search radius (NM) */
+    SECTOR_RADIUS_NM: 0.5,
+    /** How often the datum and navigation target are refreshed */
+    UPDATE_INTERVAL_MS: 5 * 1000,
+  },
+
   /** Default map grid configuration */
   MAP_GRID: {
     ROWS: 4,
@@ -205,6 +417,13 @@ export const UI_CONSTANTS = {
   /** Service worker update check interval (in milliseconds) */
   SW_UPDATE_CHECK_INTERVAL_MS: 60 * 60 * 1000, // 1 hour
 
+  /** Periodic Background Sync refreshing saved forecasts from the service worker */
+  BACKGROUND_REFRESH: {
+    TAG: 'forecast-refresh',
+    /** Browsers may run it less often depending on site engagement */
+    MIN_INTERVAL_MS: 60 * 60 * 1000, // 1 hour
+  },
+
   /** Chart and visualization */
   CHART: {
     MAX_VISIBLE_HOURS: 24,
@@ -219,6 +438,18 @@ export const UI_CONSTANTS = {
   },
 } as const;
 
+// ==================== USER ALERT LIMITS ====================
+/**
+ * Default user limits for conditions alerts and departure planning
+ * Wind is in km/h, matching the forecast data
+ */
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  waveHeightThreshold: 2.0,
+  windSpeedThreshold: 40,
+  swellHeightThreshold: 2.5,
+  simulateTsunami: false,
+};
+
 // ==================== VALIDATION THRESHOLDS ====================
 export const VALIDATION_THRESHOLDS = {
   /** Weather alert thresholds */
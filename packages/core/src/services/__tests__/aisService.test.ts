@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AisTracker, calculateCPA } from '../aisService';
+import { InstrumentFeed } from '../instrumentService';
+import { formatNmeaSentence, nmeaChecksum } from '../../utils/nmea';
+import type { NavigationAlert } from '../../types/navigation';
+
+/**
+ * Type 1 position report sentence for a target
+ */
+const positionReport = (mmsi: number, lat: number, lon: number, sog: number, cog: number): string => {
+  const fields: Array<[number, number]> = [
+    [1, 6], [0, 2], [mmsi, 30], [0, 4], [-128, 8], [Math.round(sog * 10), 10], [0, 1],
+    [Math.round(lon * 600000), 28], [Math.round(lat * 600000), 27], [Math.round(cog * 10), 12], [511, 9], [0, 6],
+    [0, 25],
+  ];
+  let bits = fields.map(([v, n]) => (v < 0 ? 2 ** n + v : v).toString(2).padStart(n, '0')).join('');
+  bits = bits.padEnd(168, '0');
+  let payload = '';
+  for (let i = 0; i < bits.length; i += 6) {
+    let value = parseInt(bits.slice(i, i + 6), 2) + 48;
+    if (value > 87) value += 8;
+    payload += String.fromCharCode(value);
+  }
+  const body = `AIVDM,1,1,,A,${payload},0`;
+  return `!${body}*${nmeaChecksum(body)}`;
+};
+
+const own = { currentPosition: { lat: 43, lon: 6 }, heading: 0, speed: 6 };
+
+describe('calculateCPA', () => {
+  it('should find a head-on collision course', () => {
+    // Target 2 NM north heading south at 6 kts, we head north at 6 kts
+    const { cpa, tcpa } = calculateCPA(
+      { lat: 43, lon: 6, course: 0, speed: 6 },
+      { lat: 43 + 2 / 60, lon: 6, course: 180, speed: 6 }
+    );
+    expect(cpa).toBeCloseTo(0, 6);
+    expect(tcpa).toBeCloseTo(10, 6);
+  });
+
+  it('should report a negative TCPA for a target already passed', () => {
+    const { tcpa } = calculateCPA(
+      { lat: 43, lon: 6, course: 0, speed: 6 },
+      { lat: 43 - 1 / 60, lon: 6, course: 180, speed: 6 }
+    );
+    expect(tcpa).toBeLessThan(0);
+  });
+
+  it('should keep the current range for matching velocities', () => {
+    const { cpa, tcpa } = calculateCPA(
+      { lat: 43, lon: 6, course: 90, speed: 5 },
+      { lat: 43 + 1 / 60, lon: 6, course: 90, speed: 5 }
+    );
+    expect(cpa).toBeCloseTo(1, 6);
+    expect(tcpa).toBe(0);
+  });
+});
+
+describe('AisTracker', () => {
+  it('should raise one alert when a target becomes dangerous', () => {
+    const tracker = new AisTracker();
+    const alerts: NavigationAlert[] = [];
+    tracker.on('alert', (alert: NavigationAlert) => alerts.push(alert));
+
+    tracker.updateOwnVessel(own);
+    tracker.ingest(positionReport(227000001, 43 + 2 / 60, 6, 6, 180));
+    tracker.ingest(positionReport(227000001, 43 + 1.9 / 60, 6, 6, 180));
+
+    const target = tracker.getTarget(227000001);
+    expect(target?.dangerous).toBe(true);
+    expect(target?.tcpa).toBeCloseTo(9.5, 0);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ type: 'collision-risk', severity: 'error' });
+  });
+
+  it('should not warn about distant or diverging targets', () => {
+    const tracker = new AisTracker();
+    tracker.updateOwnVessel(own);
+    tracker.ingest(positionReport(227000002, 43, 6 + 3 / 60, 5, 90));
+    tracker.ingest(positionReport(227000003, 43 - 1 / 60, 6, 6, 180));
+
+    expect(tracker.getTargets().every((t) => !t.dangerous)).toBe(true);
+  });
+
+  it('should age out silent targets', () => {
+    const tracker = new AisTracker({ lostAfterMs: 60_000, removeAfterMs: 120_000 });
+    const start = new Date('2026-06-01T12:00:00Z');
+    tracker.ingest(positionReport(227000004, 43.1, 6.1, 3, 45), start);
+
+    tracker.age(new Date(start.getTime() + 90_000));
+    expect(tracker.getTarget(227000004)?.status).toBe('lost');
+
+    tracker.age(new Date(start.getTime() + 130_000));
+    expect(tracker.getTargets()).toHaveLength(0);
+  });
+
+  it('should read AIS and own position from an instrument feed', () => {
+    const feed = new InstrumentFeed();
+    const tracker = new AisTracker();
+    tracker.attach(feed);
+
+    feed.ingest(formatNmeaSentence('GPRMC,120000,A,4300.000,N,00600.000,E,6.0,000.0,010626,,'));
+    feed.ingest(positionReport(227000005, 43 + 2 / 60, 6, 6, 180));
+
+    expect(tracker.getTarget(227000005)?.dangerous).toBe(true);
+    tracker.detach();
+  });
+
+  it('should age targets while a feed is attached', () => {
+    vi.useFakeTimers();
+    const feed = new InstrumentFeed();
+    const tracker = new AisTracker({ lostAfterMs: 60_000, removeAfterMs: 120_000 });
+    tracker.attach(feed);
+    feed.ingest(positionReport(227000006, 43.1, 6.1, 3, 45));
+
+    vi.advanceTimersByTime(90_000);
+    expect(tracker.getTarget(227000006)?.status).toBe('lost');
+
+    tracker.detach();
+    expect(vi.getTimerCount()).toBe(0);
+    vi.useRealTimers();
+  });
+});
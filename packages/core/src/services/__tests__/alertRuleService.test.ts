@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AlertEngine,
+  conditionHolds,
+  createStarterRule,
+  findMatchWindows,
+  isQuietTime,
+} from '../alertRuleService';
+import type { AlertRule } from '../alertRuleService';
+import type { MarineWeatherData } from '../../types';
+
+vi.mock('../weatherService', () => ({
+  fetchMarineWeather: vi.fn(),
+}));
+
+// Local forecast times, one per hour from midnight
+const times = (hours: number) =>
+  Array.from({ length: hours }, (_, i) => `2026-06-01T${String(i).padStart(2, '0')}:00`);
+
+const forecast = (series: Partial<Record<keyof MarineWeatherData['hourly'], number[]>>): MarineWeatherData => {
+  const length = Object.values(series)[0]?.length ?? 0;
+  const filled = (values?: number[]) => values ?? new Array(length).fill(0);
+  return {
+    latitude: 43.7,
+    longitude: 7.27,
+    hourly: {
+      time: times(length),
+      wave_height: filled(series.wave_height),
+      wave_direction: filled(series.wave_direction),
+      wave_period: filled(series.wave_period),
+      wind_speed_10m: filled(series.wind_speed_10m),
+      wind_direction_10m: filled(series.wind_direction_10m),
+      wind_gusts_10m: filled(series.wind_gusts_10m),
+      swell_wave_height: filled(series.swell_wave_height),
+      swell_wave_direction: filled(series.swell_wave_direction),
+      swell_wave_period: filled(series.swell_wave_period),
+    },
+    daily: {
+      time: ['2026-06-01'],
+      wave_height_max: [0],
+      wind_speed_10m_max: [0],
+      wind_direction_10m_dominant: [0],
+      swell_wave_height_max: [0],
+      swell_wave_direction_dominant: [0],
+      wave_period_max: [0],
+      sunrise: ['2026-06-01T06:10'],
+      sunset: ['2026-06-01T21:30'],
+    },
+    hourly_units: { wave_height: 'm', wind_speed_10m: 'km/h', swell_wave_height: 'm' },
+  };
+};
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'r1',
+  name: 'Sea breeze',
+  enabled: true,
+  location: { name: 'Nice', lat: 43.7, lng: 7.27 },
+  conditions: [{ metric: 'windSpeed', min: 20, max: 40 }],
+  minDurationHours: 1,
+  createdAt: '2026-05-01T00:00:00Z',
+  ...overrides,
+});
+
+const midnight = new Date('2026-06-01T00:00');
+
+describe('conditionHolds', () => {
+  it('matches direction sectors that wrap through north', () => {
+    const data = forecast({ wind_direction_10m: [350, 10, 40, 100] });
+    const condition = { metric: 'windDirection' as const, min: 330, max: 30 };
+
+    expect([0, 1, 2, 3].map((i) => conditionHolds(condition, data, i))).toEqual([true, true, false, false]);
+    // 40° is within the 10° margin once a window is open
+    expect(conditionHolds(condition, data, 2, true)).toBe(true);
+  });
+
+  it('uses the day sunrise and sunset for daylight', () => {
+    const data = forecast({ wind_speed_10m: new Array(24).fill(0) });
+    const condition = { metric: 'daylight' as const };
+
+    expect(conditionHolds(condition, data, 6)).toBe(false);
+    expect(conditionHolds(condition, data, 7)).toBe(true);
+    expect(conditionHolds(condition, data, 21)).toBe(true);
+    expect(conditionHolds(condition, data, 22)).toBe(false);
+  });
+});
+
+describe('findMatchWindows', () => {
+  it('keeps a window open while values stay within the hysteresis margin', () => {
+    // 19 km/h misses the 20 km/h limit by less than the 3 km/h margin
+    const data = forecast({ wind_speed_10m: [10, 22, 19, 25, 12, 24, 10] });
+
+    expect(findMatchWindows(rule(), data, midnight)).toEqual([
+      { start: '2026-06-01T01:00', end: '2026-06-01T03:00', hours: 3 },
+      { start: '2026-06-01T05:00', end: '2026-06-01T05:00', hours: 1 },
+    ]);
+  });
+
+  it('does not open a window on a value inside the margin only', () => {
+    const data = forecast({ wind_speed_10m: [19, 19, 19] });
+    expect(findMatchWindows(rule(), data, midnight)).toEqual([]);
+  });
+
+  it('drops windows shorter than the minimum duration and past hours', () => {
+    const data = forecast({ wind_speed_10m: [25, 25, 10, 25, 10, 25, 25, 25] });
+    const windows = findMatchWindows(rule({ minDurationHours: 2 }), data, new Date('2026-06-01T03:00'));
+
+    expect(windows).toEqual([{ start: '2026-06-01T05:00', end: '2026-06-01T07:00', hours: 3 }]);
+  });
+
+  it('requires every condition', () => {
+    const data = forecast({ wind_speed_10m: [25, 25, 25], wave_height: [0.5, 1.4, 0.8] });
+    const windows = findMatchWindows(
+      rule({ conditions: [{ metric: 'windSpeed', min: 20 }, { metric: 'waveHeight', max: 1 }] }),
+      data,
+      midnight
+    );
+
+    expect(windows.map((w) => w.hours)).toEqual([1, 1]);
+  });
+
+  it('reads forecast times in the location time zone', () => {
+    // Forecast local to UTC+2: 00:00 there is 22:00 UTC the day before
+    const data = { ...forecast({ wind_speed_10m: [25, 25, 25, 25] }), utc_offset_seconds: 7200 };
+    const windows = findMatchWindows(rule(), data, new Date('2026-05-31T23:30Z'));
+
+    expect(windows).toEqual([{ start: '2026-06-01T01:00', end: '2026-06-01T03:00', hours: 3 }]);
+  });
+});
+
+describe('isQuietTime', () => {
+  it('handles quiet hours spanning midnight', () => {
+    const quiet = { enabled: true, start: 22, end: 7 };
+    expect(isQuietTime(quiet, new Date('2026-06-01T23:30'))).toBe(true);
+    expect(isQuietTime(quiet, new Date('2026-06-01T06:59'))).toBe(true);
+    expect(isQuietTime(quiet, new Date('2026-06-01T07:00'))).toBe(false);
+    expect(isQuietTime({ ...quiet, enabled: false }, new Date('2026-06-01T23:30'))).toBe(false);
+  });
+});
+
+describe('createStarterRule', () => {
+  it('caps activity conditions with the onboarding limits and requires daylight', () => {
+    const starter = createStarterRule('sailing', { name: 'Nice', lat: 43.7, lng: 7.27 }, { waveHeight: 1, windSpeed: 30 });
+
+    expect(starter.conditions).toEqual([
+      { metric: 'windSpeed', min: 15, max: 30 },
+      { metric: 'waveHeight', max: 1 },
+      { metric: 'daylight' },
+    ]);
+    expect(starter.enabled).toBe(true);
+  });
+});
+
+describe('AlertEngine', () => {
+  let storage: Record<string, string>;
+  let engine: AlertEngine;
+
+  beforeEach(async () => {
+    storage = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage[key] ?? null,
+      setItem: (key: string, value: string) => {
+        storage[key] = value;
+      },
+    });
+    engine = new AlertEngine();
+    await engine.updateSettings({ quietHours: { enabled: true, start: 22, end: 7 } });
+  });
+
+  it('notifies a window once even when the forecast shifts', async () => {
+    const listener = vi.fn();
+    engine.on('notification', listener);
+
+    const first = await engine.evaluate([rule()], forecast({ wind_speed_10m: [10, 25, 25, 10] }), new Date('2026-06-01T00:30'));
+    const shifted = await engine.evaluate([rule()], forecast({ wind_speed_10m: [10, 10, 25, 25] }), new Date('2026-06-01T00:45'));
+
+    expect(first).toHaveLength(1);
+    expect(shifted).toHaveLength(0);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect((await engine.getNotifications())[0]).toMatchObject({ ruleId: 'r1', locationName: 'Nice', hours: 2, read: false });
+  });
+
+  it('flags notifications raised during quiet hours', async () => {
+    const data = forecast({ wind_speed_10m: [25, 25] });
+    const [notification] = await engine.evaluate([rule()], data, new Date('2026-06-01T00:30'));
+    expect(notification.quiet).toBe(true);
+  });
+
+  it('releases unread notifications held during quiet hours once they end', async () => {
+    const listener = vi.fn();
+    engine.on('notification', listener);
+    const data = forecast({ wind_speed_10m: new Array(12).fill(25) });
+
+    const [held] = await engine.evaluate([rule()], data, new Date('2026-06-01T06:30'));
+    const released = await engine.evaluate([rule()], data, new Date('2026-06-01T07:15'));
+    const later = await engine.evaluate([rule()], data, new Date('2026-06-01T07:45'));
+
+    expect(held.quiet).toBe(true);
+    expect(released).toEqual([{ ...held, quiet: false }]);
+    expect(later).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(await engine.getNotifications()).toEqual([{ ...held, quiet: false }]);
+  });
+
+  it('does not release held notifications the user already read', async () => {
+    const data = forecast({ wind_speed_10m: new Array(12).fill(25) });
+
+    await engine.evaluate([rule()], data, new Date('2026-06-01T06:30'));
+    await engine.markAllRead();
+
+    expect(await engine.evaluate([rule()], data, new Date('2026-06-01T07:15'))).toEqual([]);
+  });
+
+  it('skips disabled rules', async () => {
+    const data = forecast({ wind_speed_10m: [25, 25] });
+    expect(await engine.evaluate([rule({ enabled: false })], data, midnight)).toEqual([]);
+  });
+
+  it('fetches each rule location once and evaluates its rules', async () => {
+    await engine.saveRule(rule());
+    await engine.saveRule(rule({ id: 'r2', conditions: [{ metric: 'windSpeed', max: 15 }] }));
+    const fetchForecast = vi.fn(async () => forecast({ wind_speed_10m: [10, 25, 25] }));
+
+    const raised = await engine.checkAll(fetchForecast, midnight);
+
+    expect(fetchForecast).toHaveBeenCalledTimes(1);
+    expect(raised.map((n) => n.ruleId).sort()).toEqual(['r1', 'r2']);
+  });
+
+  it('rejects rules without conditions', async () => {
+    await expect(engine.saveRule(rule({ conditions: [] }))).rejects.toThrow('at least one condition');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnchorWatch, assessAnchorFix, calculateSwingRadius } from '../anchorWatchService';
+import type { NavigationAlert } from '../../types/navigation';
+
+const anchor = { lat: 43, lon: 6 };
+
+/**
+ * Fix the given distance (meters) north of the anchor
+ */
+const fixNorth = (meters: number, seconds: number, accuracy = 5) => ({
+  lat: anchor.lat + meters / 1852 / 60,
+  lon: anchor.lon,
+  accuracy,
+  timestamp: new Date(Date.UTC(2026, 5, 1, 2, 0, seconds)),
+});
+
+describe('calculateSwingRadius', () => {
+  it('should combine the rode reach and boat length', () => {
+    // 5 m depth + 1 m freeboard, 30 m rode: sqrt(900 - 36) ≈ 29.4 m
+    expect(calculateSwingRadius(30, 5, 10)).toBeCloseTo(39.39, 1);
+  });
+
+  it('should not reach beyond a slack rode', () => {
+    expect(calculateSwingRadius(4, 5)).toBe(0);
+  });
+});
+
+describe('assessAnchorFix', () => {
+  it('should allow for fix accuracy at the edge of the circle', () => {
+    expect(assessAnchorFix(anchor, 50, fixNorth(20, 0)).position).toBe('inside');
+    expect(assessAnchorFix(anchor, 50, fixNorth(48, 0)).position).toBe('edge');
+    expect(assessAnchorFix(anchor, 50, fixNorth(60, 0, 20)).position).toBe('edge');
+    expect(assessAnchorFix(anchor, 50, fixNorth(60, 0, 5)).position).toBe('outside');
+  });
+});
+
+describe('AnchorWatch', () => {
+  let store: Record<string, string>;
+  let watch: AnchorWatch;
+  let alerts: NavigationAlert[];
+
+  beforeEach(() => {
+    store = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value;
+      },
+      removeItem: (key: string) => {
+        delete store[key];
+      },
+    });
+    watch = new AnchorWatch();
+    alerts = [];
+    watch.on('alert', (alert: NavigationAlert) => alerts.push(alert));
+    watch.dropAnchor(anchor, { rodeLength: 30, radius: 40 });
+  });
+
+  afterEach(() => {
+    watch.raiseAnchor();
+    vi.unstubAllGlobals();
+  });
+
+  it('should only sound the alarm after consecutive fixes outside the circle', () => {
+    watch.processFix(fixNorth(60, 0));
+    watch.processFix(fixNorth(62, 10));
+    expect(watch.getState()?.level).toBe('caution');
+    expect(alerts.map((a) => a.severity)).toEqual(['warning']);
+
+    watch.processFix(fixNorth(64, 20));
+    expect(watch.getState()?.level).toBe('alarm');
+    expect(alerts[1]).toMatchObject({ type: 'anchor-drag', severity: 'error' });
+    expect(watch.getState()?.track).toHaveLength(3);
+  });
+
+  it('should repeat the alarm until acknowledged', () => {
+    [0, 10, 20].forEach((s) => watch.processFix(fixNorth(70, s)));
+    watch.processFix(fixNorth(72, 60));
+    expect(alerts.filter((a) => a.severity === 'error')).toHaveLength(2);
+
+    watch.acknowledge();
+    watch.processFix(fixNorth(74, 100));
+    expect(alerts.filter((a) => a.severity === 'error')).toHaveLength(2);
+
+    watch.processFix(fixNorth(10, 110));
+    expect(watch.getState()).toMatchObject({ level: 'ok', acknowledged: false });
+    expect(alerts[alerts.length - 1].severity).toBe('success');
+  });
+
+  it('should ignore inaccurate fixes', () => {
+    watch.processFix(fixNorth(200, 0, 120));
+    expect(watch.getState()).toMatchObject({ level: 'ok', track: [] });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].type).toBe('gps-error');
+  });
+
+  it('should restore a persisted watch', () => {
+    watch.processFix(fixNorth(20, 0));
+
+    const restored = new AnchorWatch();
+    expect(restored.resume()).toBe(true);
+    expect(restored.getState()).toMatchObject({ anchor, radius: 40, rodeLength: 30 });
+    expect(restored.getState()?.track[0].timestamp).toBeInstanceOf(Date);
+
+    watch.raiseAnchor();
+    expect(new AnchorWatch().resume()).toBe(false);
+  });
+});
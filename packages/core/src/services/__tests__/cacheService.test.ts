@@ -1,9 +1,22 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { cacheService } from '../cacheService';
+import { CACHE_CONFIG } from '../../constants';
 
 // Mock IndexedDB
 const createMockIndexedDB = () => {
-  const store: Record<string, any> = {};
+  const stores: Record<string, Record<string, any>> = {};
+  const storeFor = (name = 'weatherData') => (stores[name] ??= {});
+  const store = storeFor();
+
+  // Requests still to answer; a transaction completes once there are none
+  let pending = 0;
+  const later = (callback: () => void) => {
+    pending++;
+    setTimeout(() => {
+      pending--;
+      callback();
+    }, 0);
+  };
 
   const createRequest = (result?: any, error?: any) => {
     return {
@@ -15,77 +28,86 @@ const createMockIndexedDB = () => {
   };
 
   const mockTransaction = {
-    objectStore: () => ({
-      get: (key: string) => {
-        const request = createRequest(store[key]);
-        setTimeout(() => request.onsuccess?.({ target: request }), 0);
-        return request;
-      },
-      put: (value: any) => {
-        store[value.key] = value;
-        const request = createRequest(value);
-        setTimeout(() => request.onsuccess?.({ target: request }), 0);
-        return request;
-      },
-      delete: (key: string) => {
-        delete store[key];
-        const request = createRequest(undefined);
-        setTimeout(() => request.onsuccess?.({ target: request }), 0);
-        return request;
-      },
-      clear: () => {
-        Object.keys(store).forEach(key => delete store[key]);
-        const request = createRequest(undefined);
-        setTimeout(() => request.onsuccess?.({ target: request }), 0);
-        return request;
-      },
-      getAll: () => {
-        const request = createRequest(Object.values(store));
-        setTimeout(() => request.onsuccess?.({ target: request }), 0);
-        return request;
-      },
-      openCursor: () => {
-        const keys = Object.keys(store);
-        let index = 0;
-        const request = {
-          result: null as any,
-          onsuccess: null as ((event: any) => void) | null,
-          onerror: null as ((event: any) => void) | null,
-        };
-
-        const nextCursor = () => {
-          if (index < keys.length) {
-            const key = keys[index];
-            request.result = {
-              value: store[key],
-              delete: () => {
-                delete store[key];
-                return createRequest(undefined);
-              },
-              continue: () => {
-                index++;
-                setTimeout(() => nextCursor(), 0);
-              },
-            };
-          } else {
-            request.result = null;
-          }
-          setTimeout(() => request.onsuccess?.({ target: request }), 0);
-        };
-
-        setTimeout(() => nextCursor(), 0);
-        return request;
-      },
-      createIndex: () => ({}),
-      index: (name: string) => ({
-        openCursor: (range?: any) => mockTransaction.objectStore().openCursor(),
-      }),
-    }),
+    objectStore: (name?: string) => {
+      const store = storeFor(name);
+      return {
+        get: (key: string) => {
+          const request = createRequest(store[key]);
+          later(() => request.onsuccess?.({ target: request }));
+          return request;
+        },
+        put: (value: any) => {
+          store[value.key] = value;
+          const request = createRequest(value);
+          later(() => request.onsuccess?.({ target: request }));
+          return request;
+        },
+        delete: (key: string) => {
+          delete store[key];
+          const request = createRequest(undefined);
+          later(() => request.onsuccess?.({ target: request }));
+          return request;
+        },
+        clear: () => {
+          Object.keys(store).forEach(key => delete store[key]);
+          const request = createRequest(undefined);
+          later(() => request.onsuccess?.({ target: request }));
+          return request;
+        },
+        getAll: () => {
+          const request = createRequest(Object.values(store));
+          later(() => request.onsuccess?.({ target: request }));
+          return request;
+        },
+        openCursor: (orderBy?: string) => {
+          const keys = Object.keys(store);
+          if (orderBy) keys.sort((a, b) => store[a][orderBy] - store[b][orderBy]);
+          let index = 0;
+          const request = {
+            result: null as any,
+            onsuccess: null as ((event: any) => void) | null,
+            onerror: null as ((event: any) => void) | null,
+          };
+
+          const nextCursor = () => {
+            if (index < keys.length) {
+              const key = keys[index];
+              request.result = {
+                value: store[key],
+                delete: () => {
+                  delete store[key];
+                  return createRequest(undefined);
+                },
+                continue: () => {
+                  index++;
+                  later(() => nextCursor());
+                },
+              };
+            } else {
+              request.result = null;
+            }
+            later(() => request.onsuccess?.({ target: request }));
+          };
+
+          later(() => nextCursor());
+          return request;
+        },
+        createIndex: () => ({}),
+        index: (indexName: string) => ({
+          openCursor: (range?: any) => mockTransaction.objectStore(name).openCursor(indexName),
+        }),
+      };
+    },
   };
 
   const mockDB = {
-    transaction: () => mockTransaction,
-    createObjectStore: () => mockTransaction.objectStore(),
+    transaction: () => {
+      const tx = { ...mockTransaction, oncomplete: null as ((event: any) => void) | null };
+      const settle = () => (pending > 0 ? setTimeout(settle, 0) : tx.oncomplete?.({ target: tx }));
+      setTimeout(settle, 0);
+      return tx;
+    },
+    createObjectStore: (name: string) => mockTransaction.objectStore(name),
     objectStoreNames: {
       contains: () => false,
     },
@@ -335,4 +357,69 @@ describe('cacheService', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('map tiles', () => {
+    beforeEach(async () => {
+      await cacheService.clearAll();
+      await cacheService.setQuota(CACHE_CONFIG.MAX_SIZE_BYTES);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should store tiles and count them in the statistics', async () => {
+      const key = cacheService.getTileKey('base', 5, 17, 11);
+      expect(key).toBe('base/5/17/11');
+
+      await cacheService.setTile(key, new Blob([new Uint8Array(100)]));
+
+      const tile = await cacheService.getTile(key);
+      expect(tile?.blob.size).toBe(100);
+      expect(await cacheService.getTile('seamark/5/17/11')).toBeNull();
+
+      const stats = await cacheService.getStats();
+      expect(stats.tileCount).toBe(1);
+      expect(stats.tileSize).toBe(100);
+      expect(stats.totalSize).toBeGreaterThanOrEqual(100);
+      expect(stats.quota).toBe(CACHE_CONFIG.MAX_SIZE_BYTES);
+    });
+
+    it('should evict least recently used weather data and tiles over the quota', async () => {
+      const now = vi.spyOn(Date, 'now');
+      await cacheService.setQuota(1000);
+
+      now.mockReturnValue(1000);
+      await cacheService.set('marine:old', { data: 1 }, 60000);
+      now.mockReturnValue(2000);
+      await cacheService.setTile('base/1/0/0', new Blob([new Uint8Array(600)]));
+      now.mockReturnValue(3000);
+      await cacheService.setTile('base/1/0/1', new Blob([new Uint8Array(600)]));
+
+      expect(await cacheService.get('marine:old')).toBeNull();
+      expect(await cacheService.getTile('base/1/0/0')).toBeNull();
+      expect(await cacheService.getTile('base/1/0/1')).not.toBeNull();
+      expect((await cacheService.getStats()).tileSize).toBe(600);
+    });
+
+    it('should make room for concurrent writes one at a time', async () => {
+      const now = vi.spyOn(Date, 'now');
+      await cacheService.setQuota(1000);
+
+      await Promise.all(
+        [0, 1, 2].map((y) => {
+          now.mockReturnValue(1000 + y);
+          return cacheService.setTile(`base/1/0/${y}`, new Blob([new Uint8Array(400)]));
+        })
+      );
+
+      expect(await cacheService.getTile('base/1/0/0')).toBeNull();
+      expect(await cacheService.getTile('base/1/0/2')).not.toBeNull();
+      expect(await cacheService.getStats()).toMatchObject({ tileSize: 800, tileCount: 2 });
+    });
+
+    it('should reject a non-positive quota', async () => {
+      await expect(cacheService.setQuota(0)).rejects.toThrow();
+    });
+  });
 });
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRouteForecastSampler,
+  getRouteSamplePoints,
+  planDepartureWindows,
+  rankDepartureWindows,
+  simulatePassage,
+} from '../departurePlannerService';
+import type { RouteForecast } from '../departurePlannerService';
+import { generateRoute } from '../routePlanningService';
+import type { MarineGridPoint } from '../marineGridService';
+import type { AlertConfig } from '../../types';
+
+const limits: AlertConfig = {
+  waveHeightThreshold: 2.0,
+  windSpeedThreshold: 40,
+  swellHeightThreshold: 2.5,
+  simulateTsunami: false,
+};
+
+const start = Date.UTC(2024, 5, 1, 0);
+const route = generateRoute({ lat: 36, lon: 20, name: 'A' }, { lat: 36, lon: 20.5, name: 'B' }, 6);
+
+/**
+ * Route forecast with per-hour conditions shared by every sample point
+ */
+const createForecast = (hours: number, conditionsAt: (hour: number) => Partial<MarineGridPoint>): RouteForecast => {
+  const samples = getRouteSamplePoints(route);
+  return {
+    samples,
+    times: Array.from({ length: hours }, (_, h) => new Date(start + h * 3600000).toISOString()),
+    frames: Array.from({ length: hours }, (_, h) =>
+      samples.map((s) => ({
+        lat: s.lat,
+        lng: s.lon,
+        windSpeed: 20,
+        windDirection: 0,
+        waveHeight: 0.8,
+        swellHeight: 0.5,
+        currentSpeed: 0,
+        currentDirection: 0,
+        ...conditionsAt(h),
+      }))
+    ),
+  };
+};
+
+describe('getRouteSamplePoints', () => {
+  it('should include the waypoints and intermediate points', () => {
+    const points = getRouteSamplePoints(route, 5);
+    expect(points[0]).toEqual({ lat: 36, lon: 20 });
+    expect(points[points.length - 1]).toEqual({ lat: 36, lon: 20.5 });
+    expect(points.length).toBeGreaterThan(2);
+  });
+
+  it('should keep the destination when a route has more points than the sample limit', () => {
+    // 80 waypoints, each leg just under the sample spacing
+    const zigzag = {
+      ...route,
+      waypoints: Array.from({ length: 80 }, (_, i) => ({
+        id: `wp-${i}`,
+        name: `WP${i}`,
+        lat: 36 + (i % 2) * 0.1,
+        lon: 20 + i * 0.01,
+        type: 'waypoint' as const,
+      })),
+    };
+    const points = getRouteSamplePoints(zigzag);
+
+    expect(points).toHaveLength(50);
+    expect(points[0]).toEqual({ lat: 36, lon: 20 });
+    expect(points[points.length - 1]).toEqual({ lat: 36.1, lon: 20.79 });
+  });
+});
+
+describe('simulatePassage', () => {
+  it('should use the route average speed without a performance model', () => {
+    const sampler = createRouteForecastSampler(createForecast(48, () => ({})));
+    const passage = simulatePassage(route, new Date(start), sampler);
+
+    expect(passage.complete).toBe(true);
+    expect(passage.durationHours).toBeCloseTo(route.totalDistance / 6, 5);
+    expect(passage.maxWindSpeed).toBe(20);
+  });
+
+  it('should speed up with a following current', () => {
+    // 1.852 km/h = 1 knot setting east, along the course
+    const sampler = createRouteForecastSampler(
+      createForecast(48, () => ({ currentSpeed: 1.852, currentDirection: 90 }))
+    );
+    const passage = simulatePassage(route, new Date(start), sampler);
+    expect(passage.durationHours).toBeCloseTo(route.totalDistance / 7, 5);
+  });
+
+  it('should count time sailing into the wind as upwind', () => {
+    const sampler = createRouteForecastSampler(createForecast(48, () => ({ windDirection: 90 })));
+    expect(simulatePassage(route, new Date(start), sampler).upwindPercent).toBeCloseTo(100, 5);
+  });
+
+  it('should motor below the performance threshold', () => {
+    const sampler = createRouteForecastSampler(createForecast(48, () => ({ windSpeed: 5 })));
+    const passage = simulatePassage(route, new Date(start), sampler, {
+      motoringSpeed: 5,
+      motoringThreshold: 5,
+    });
+    expect(passage.motoringPercent).toBeCloseTo(100, 5);
+    expect(passage.durationHours).toBeCloseTo(route.totalDistance / 5, 5);
+  });
+
+  it('should flag passages beyond the forecast', () => {
+    const sampler = createRouteForecastSampler(createForecast(2, () => ({})));
+    expect(simulatePassage(route, new Date(start + 10 * 3600000), sampler).complete).toBe(false);
+  });
+});
+
+describe('planDepartureWindows', () => {
+  // Gale between hours 6 and 12
+  const forecast = createForecast(72, (h) => (h >= 6 && h < 12 ? { windSpeed: 60, waveHeight: 3 } : {}));
+  const windows = planDepartureWindows(route, createRouteForecastSampler(forecast), {
+    from: new Date(start),
+    hours: 24,
+    limits,
+  });
+
+  it('should produce one window per departure hour', () => {
+    expect(windows).toHaveLength(24);
+    expect(windows[0].departure.getTime()).toBe(start);
+    expect(windows[23].departure.getTime()).toBe(start + 23 * 3600000);
+  });
+
+  it('should rate windows through the gale as bad', () => {
+    const gale = windows[8];
+    expect(gale.rating).toBe('bad');
+    expect(gale.exceeded).toEqual(['wind', 'wave']);
+    expect(windows[0].rating).toBe('good');
+  });
+
+  it('should rank good windows first', () => {
+    const ranked = rankDepartureWindows(windows);
+    expect(ranked[0].rating).toBe('good');
+    expect(ranked[ranked.length - 1].rating).toBe('bad');
+    expect(ranked[0].score).toBeGreaterThan(ranked[ranked.length - 1].score);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DepthGridImportService,
+  estimateDepth,
+  getRouteDepthProfile,
+  loadDepthContours,
+  parseAsciiGrid,
+  sampleDepthGrid,
+  depthGrids,
+} from '../depthService';
+import { fetchBathymetryLayer } from '../geojsonService';
+import type { GeoJSONFeature } from '../geojsonService';
+import { predictTideHeight } from '../../utils/tidePrediction';
+import { TIDE_STATIONS } from '../../utils/tideStations';
+
+const store = new Map<string, unknown>();
+
+vi.mock('../cacheService', () => ({
+  cacheService: {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, data: unknown) => {
+      store.set(key, data);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  },
+}));
+
+vi.mock('../geojsonService', () => ({
+  fetchBathymetryLayer: vi.fn(async () => ({ type: 'FeatureCollection', features: [] })),
+  getAvailableBathymetryDepths: vi.fn(() => [200, 1000]),
+}));
+
+// Elevations, so negative below sea level
+const asc = (header: string, rows: string[]) => `${header}\nNODATA_value -9999\n${rows.join('\n')}\n`;
+
+const square = (west: number, south: number, east: number, north: number): GeoJSONFeature => ({
+  type: 'Feature',
+  geometry: { type: 'Polygon', coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]] },
+  properties: {},
+});
+
+describe('parseAsciiGrid', () => {
+  it('reads elevations below sea level as depths', () => {
+    const grid = parseAsciiGrid(asc('ncols 2\nnrows 2\nxllcorner 0\nyllcorner 0\ncellsize 1', ['-10 -20', '-30 -9999']), 'a.asc');
+
+    expect(grid).toMatchObject({ name: 'a.asc', rows: 2, cols: 2, cellSize: 1 });
+    expect(grid.bounds).toEqual({ north: 2, south: 0, east: 2, west: 0 });
+    expect(grid.values).toEqual([10, 20, 30, null]);
+  });
+
+  it('accepts cell-centre corners', () => {
+    const grid = parseAsciiGrid(asc('ncols 2\nnrows 2\nxllcenter 0.5\nyllcenter 0.5\ncellsize 1', ['-10 -20', '-30 -40']), 'b.asc');
+    expect(grid.bounds).toEqual({ north: 2, south: 0, east: 2, west: 0 });
+  });
+
+  it('rejects files that are not grids', () => {
+    expect(() => parseAsciiGrid('hello world', 'c.txt')).toThrow('Not an ASCII grid');
+    expect(() => parseAsciiGrid(asc('ncols 2\nnrows 2\nxllcorner 0\nyllcorner 0\ncellsize 1', ['-10 -20']), 'd.asc')).toThrow(
+      'has 2 values, expected 4'
+    );
+  });
+});
+
+describe('sampleDepthGrid', () => {
+  const grid = parseAsciiGrid(asc('ncols 2\nnrows 2\nxllcorner 0\nyllcorner 0\ncellsize 1', ['-10 -20', '-30 -9999']), 'a.asc');
+  const full = parseAsciiGrid(asc('ncols 2\nnrows 2\nxllcorner 0\nyllcorner 0\ncellsize 1', ['-10 -20', '-30 -40']), 'b.asc');
+
+  it('interpolates between cell centres', () => {
+    expect(sampleDepthGrid(full, 1.5, 0.5)).toBeCloseTo(10);
+    expect(sampleDepthGrid(full, 1, 1)).toBeCloseTo(25);
+    expect(sampleDepthGrid(full, 3, 1)).toBeNull();
+  });
+
+  it('falls back to the nearest cell next to missing data', () => {
+    expect(sampleDepthGrid(grid, 1.4, 0.6)).toBe(10);
+    expect(sampleDepthGrid(grid, 0.5, 1.5)).toBeNull();
+  });
+});
+
+describe('estimateDepth', () => {
+  const contours = [
+    { depth: 1000, features: [square(0, 0, 1, 1)] },
+    { depth: 200, features: [square(0, 0, 2, 2)] },
+  ];
+
+  it('gives the range between the contours around a point', () => {
+    expect(estimateDepth(0.5, 0.5, [], contours)).toEqual({ depth: null, minDepth: 1000, maxDepth: undefined, source: 'contour' });
+    expect(estimateDepth(1.5, 1.5, [], contours)).toEqual({ depth: null, minDepth: 200, maxDepth: 1000, source: 'contour' });
+    expect(estimateDepth(3, 3, [], contours)).toEqual({ depth: null, maxDepth: 200, source: 'contour' });
+    expect(estimateDepth(3, 3, [], [])).toEqual({ depth: null, source: 'none' });
+  });
+});
+
+describe('DepthGridImportService', () => {
+  beforeEach(() => store.clear());
+
+  it('stores imported grids and removes them', async () => {
+    const service = new DepthGridImportService();
+    const coarse = await service.importFile(asc('ncols 1\nnrows 1\nxllcorner 0\nyllcorner 0\ncellsize 1', ['-5']), 'coarse.asc');
+    const fine = await service.importFile(asc('ncols 1\nnrows 1\nxllcorner 0\nyllcorner 0\ncellsize 0.5', ['-7']), 'fine.asc');
+
+    expect((await service.list()).map((grid) => grid.name)).toEqual(['coarse.asc', 'fine.asc']);
+    expect(await service.list()).not.toHaveProperty('0.values');
+
+    // A new session loads them from the cache, finest first
+    const grids = await new DepthGridImportService().loadAll();
+    expect(grids.map((grid) => grid.id)).toEqual([fine.id, coarse.id]);
+
+    await service.remove(fine.id);
+    expect((await service.list()).map((grid) => grid.id)).toEqual([coarse.id]);
+    expect(store.has(`depth-grid:${fine.id}`)).toBe(false);
+  });
+});
+
+describe('getRouteDepthProfile', () => {
+  beforeEach(() => store.clear());
+
+  // Off Haifa: 50 m deep except one 2 m shoal in the north-east cell
+  const shoal = asc('ncols 4\nnrows 2\nxllcorner 34.8\nyllcorner 32.8\ncellsize 0.05', ['-50 -50 -50 -2', '-50 -50 -50 -50']);
+  const route = [
+    { lat: 32.82, lon: 34.81 },
+    { lat: 32.82, lon: 34.9 },
+    { lat: 32.88, lon: 34.98 },
+  ];
+
+  it('flags the legs without enough water under the keel, tide included', async () => {
+    await depthGrids.importFile(shoal, 'haifa.asc');
+    const departureTime = new Date('2026-06-01T00:00:00Z');
+    const profile = await getRouteDepthProfile(route, { draft: 2, underKeelClearance: 1, departureTime, averageSpeed: 5 });
+
+    expect(profile.points[0]).toMatchObject({ leg: 0, distance: 0, depth: 50, source: 'grid' });
+    expect(profile.points[profile.points.length - 1]).toMatchObject({ leg: 1, lat: 32.88, lon: 34.98 });
+    expect(profile.shallowLegs).toEqual([1]);
+    expect(profile.warnings).toHaveLength(1);
+    expect(profile.warnings[0]).toContain('Leg 2');
+    expect(profile.tideStation).toMatchObject({ id: 'haifa' });
+
+    // Tide above mean sea level when each point is passed
+    const haifa = TIDE_STATIONS.find((station) => station.id === 'haifa')!;
+    const point = profile.points[10];
+    expect(point.tide).toBeCloseTo(predictTideHeight(haifa, new Date(point.time)) - haifa.datumOffset);
+    expect(new Date(point.time).getTime()).toBeCloseTo(departureTime.getTime() + (point.distance / 5) * 3600000, -1);
+    expect(point.clearance).toBeCloseTo(point.depth! + point.tide - 2);
+
+    const lowestTide = Math.min(0, ...profile.points.map((p) => p.tide));
+    expect(profile.requiredDepth).toBeCloseTo(3 - lowestTide);
+    expect(profile.minClearance!).toBeLessThan(1);
+  });
+
+  it('leaves depths unknown without grids or contours', async () => {
+    const profile = await getRouteDepthProfile(route, { draft: 2 });
+
+    expect(profile.points.every((point) => point.source === 'none' && point.clearance === null)).toBe(true);
+    expect(profile.minDepth).toBeNull();
+    expect(profile.shallowLegs).toEqual([]);
+    expect(profile.warnings).toEqual([]);
+  });
+});
+
+describe('loadDepthContours', () => {
+  it('loads the contours once, and retries a miss only after a while', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // Past anything loaded by earlier tests
+    vi.setSystemTime(Date.now() + 24 * 3600000);
+    const fetchLayer = vi.mocked(fetchBathymetryLayer);
+    fetchLayer.mockClear();
+
+    expect(await loadDepthContours()).toEqual([]);
+    expect(await loadDepthContours()).toEqual([]);
+    // 10m then 50m for each depth, the first time only
+    expect(fetchLayer).toHaveBeenCalledTimes(4);
+
+    fetchLayer.mockImplementation(async (depth) => ({ type: 'FeatureCollection', features: depth === 200 ? [square(0, 0, 2, 2)] : [] }));
+    vi.setSystemTime(Date.now() + 15 * 60000);
+    expect((await loadDepthContours()).map((contour) => contour.depth)).toEqual([200]);
+
+    vi.setSystemTime(Date.now() + 24 * 3600000);
+    await loadDepthContours();
+    expect(fetchLayer).toHaveBeenCalledTimes(7);
+
+    fetchLayer.mockImplementation(async () => ({ type: 'FeatureCollection', features: [] }));
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { refreshForecasts, setSavedLocations } from '../forecastRefreshService';
+import { alertEngine } from '../alertRuleService';
+import type { MarineWeatherData } from '../../types';
+
+const cache = new Map<string, unknown>();
+
+vi.mock('../cacheService', () => ({
+  cacheService: {
+    get: vi.fn(async (key: string) => cache.get(key) ?? null),
+    set: vi.fn(async (key: string, data: unknown) => {
+      cache.set(key, data);
+    }),
+    getMarineKey: (lat: number, lon: number) => `marine:${lat.toFixed(4)}:${lon.toFixed(4)}:current`,
+    getCurrentKey: (lat: number, lon: number) => `current:${lat.toFixed(4)}:${lon.toFixed(4)}`,
+    getTTL: () => 1800000,
+  },
+}));
+
+vi.mock('../weatherService', () => ({
+  fetchMarineWeather: vi.fn(),
+}));
+
+const forecast = (windSpeed: number): MarineWeatherData =>
+  ({
+    latitude: 0,
+    longitude: 0,
+    hourly: { time: ['2026-06-01T10:00', '2026-06-01T11:00'], wind_speed_10m: [windSpeed, windSpeed] },
+    daily: { time: [], sunrise: [], sunset: [] },
+    current: { windSpeed, windGusts: windSpeed, windDirection: 0 },
+  }) as unknown as MarineWeatherData;
+
+const now = new Date('2026-06-01T10:00');
+
+describe('refreshForecasts', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(async () => {
+    cache.clear();
+    storage = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage[key] ?? null,
+      setItem: (key: string, value: string) => {
+        storage[key] = value;
+      },
+    });
+    await alertEngine.updateSettings({ quietHours: { enabled: false, start: 22, end: 7 } });
+  });
+
+  it('caches saved and rule locations once each and evaluates the rules', async () => {
+    await setSavedLocations([
+      { id: 1, name: 'Nice', lat: 43.7, lng: 7.27 },
+      { id: 2, name: 'Antibes', lat: 43.58, lng: 7.12 },
+    ]);
+    await alertEngine.addRule({
+      name: 'Breeze',
+      enabled: true,
+      location: { name: 'Nice', lat: 43.7, lng: 7.27 },
+      conditions: [{ metric: 'windSpeed', min: 20 }],
+      minDurationHours: 1,
+    });
+    const fetchForecast = vi.fn(async () => forecast(25));
+
+    const result = await refreshForecasts({ fetchForecast, now });
+
+    expect(fetchForecast).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ refreshed: 2, cached: 0, failed: [] });
+    expect(cache.get('marine:43.7000:7.2700:current')).toEqual(forecast(25));
+    expect(cache.get('current:43.5800:7.1200')).toMatchObject({ windSpeed: 25, timestamp: now.getTime() });
+    expect(result.notifications.map((n) => n.ruleName)).toEqual(['Breeze']);
+  });
+
+  it('reuses fresh cache entries unless forced', async () => {
+    await setSavedLocations([{ id: 1, name: 'Nice', lat: 43.7, lng: 7.27 }]);
+    cache.set('marine:43.7000:7.2700:current', forecast(10));
+    const fetchForecast = vi.fn(async () => forecast(25));
+
+    expect(await refreshForecasts({ fetchForecast, now })).toMatchObject({ refreshed: 0, cached: 1 });
+    expect(await refreshForecasts({ fetchForecast, now, force: true })).toMatchObject({ refreshed: 1, cached: 0 });
+  });
+
+  it('reports locations that fail without stopping the others', async () => {
+    await setSavedLocations([
+      { id: 1, name: 'Nice', lat: 43.7, lng: 7.27 },
+      { id: 2, name: 'Antibes', lat: 43.58, lng: 7.12 },
+    ]);
+    const fetchForecast = vi.fn(async (lat: number) => {
+      if (lat === 43.7) throw new Error('offline');
+      return forecast(10);
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await refreshForecasts({ fetchForecast, now });
+
+    expect(result).toMatchObject({ refreshed: 1, failed: ['Nice'] });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { GribImportService, buildGribDataset, gribDatasetToForecast } from '../gribService';
+import { convertToVelocityFormat, generateWaveGridCells } from '../marineGridService';
+import { decodeGrib2 } from '../../utils/grib2';
+
+const store = new Map<string, unknown>();
+
+vi.mock('../cacheService', () => ({
+  cacheService: {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, data: unknown) => {
+      store.set(key, data);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  },
+}));
+
+const fixture = (name: string) => readFileSync(new URL(`../../utils/__tests__/fixtures/${name}`, import.meta.url));
+
+describe('gribDatasetToForecast', () => {
+  it('should convert wind and pressure to the marine grid conventions', () => {
+    const forecast = gribDatasetToForecast(buildGribDataset(decodeGrib2(fixture('wind.grb2')), 'wind.grb2'));
+
+    expect(forecast.times).toEqual(['2026-06-01T00:00:00.000Z', '2026-06-01T03:00:00.000Z']);
+    expect(forecast.bounds).toEqual({ north: 44, south: 43, west: 6, east: 8 });
+    expect(forecast.frames[0]).toHaveLength(6);
+
+    // U 5 m/s, V -2 m/s -> km/h components, blowing from the north-west
+    const point = forecast.frames[0][0];
+    expect(point).toMatchObject({ lat: 44, lng: 6 });
+    expect(point.windU).toBeCloseTo(18, 6);
+    expect(point.windV).toBeCloseTo(-7.2, 6);
+    expect(point.windDirection).toBeCloseTo(291.8, 1);
+    expect(point.pressure).toBeCloseTo(1013, 6);
+
+    const wind = convertToVelocityFormat(forecast, 'wind', new Date('2026-06-01T03:00:00Z')).wind!;
+    expect(wind[0].header).toMatchObject({ nx: 3, ny: 2, la1: 44, lo1: 6, forecastTime: 3 });
+    expect(wind[0].data[0]).toBeCloseTo(36, 6);
+  });
+
+  it('should feed waves into the heatmap with land left empty', () => {
+    const forecast = gribDatasetToForecast(buildGribDataset(decodeGrib2(fixture('waves.grb2')), 'waves.grb2'));
+    const cells = generateWaveGridCells(forecast, 'wave', new Date(forecast.times[0])).cells;
+
+    expect(cells[0]).toMatchObject({ lat: 44, lng: -6, value: 0 });
+    expect(cells[1].value).toBeCloseTo(1.05, 6);
+    expect(forecast.frames[0][11]).toMatchObject({ wavePeriod: expect.closeTo(8.3, 6), waveDirection: 262 });
+  });
+
+  it('should reject files without marine parameters', () => {
+    expect(() => buildGribDataset([], 'empty.grb2')).toThrow('no supported marine parameters');
+  });
+});
+
+describe('GribImportService', () => {
+  beforeEach(() => {
+    store.clear();
+  });
+
+  it('should keep imported files in the cache for later sessions', async () => {
+    const summary = await new GribImportService().importFile(fixture('waves.grb2'), 'waves.grb2');
+    expect(summary).toMatchObject({ name: 'waves.grb2', parameters: ['HTSGW', 'PERPW', 'DIRPW'] });
+
+    const later = new GribImportService();
+    expect((await later.list()).map((entry) => entry.id)).toEqual([summary.id]);
+    expect((await later.load(summary.id))?.frames).toHaveLength(1);
+
+    await later.remove(summary.id);
+    expect(await later.list()).toEqual([]);
+    expect(await later.load(summary.id)).toBeNull();
+  });
+});
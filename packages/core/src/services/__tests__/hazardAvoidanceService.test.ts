@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { solveHazardAvoidance } from '../hazardAvoidanceService';
+import { fetchBathymetryLayer } from '../geojsonService';
+import type { Waypoint } from '../../types/navigation';
+
+vi.mock('../offlinePackStore', () => ({
+  getOfflineHazards: vi.fn(async () => null),
+}));
+
+vi.mock('../cacheService', () => ({
+  cacheService: {
+    get: vi.fn(async () => null),
+    set: vi.fn(async () => {}),
+    delete: vi.fn(async () => {}),
+  },
+}));
+
+// Open sea: no land, no bathymetry
+vi.mock('../geojsonService', () => ({
+  fetchGeoJSON: vi.fn(async () => ({ type: 'FeatureCollection', features: [] })),
+  fetchBathymetryLayer: vi.fn(async () => ({ type: 'FeatureCollection', features: [] })),
+  getAvailableBathymetryDepths: vi.fn(() => []),
+}));
+
+const outline = (west: number, south: number, east: number, north: number) => [
+  { lat: south, lon: west },
+  { lat: south, lon: east },
+  { lat: north, lon: east },
+  { lat: north, lon: west },
+  { lat: south, lon: west },
+];
+
+const elements = [
+  {
+    type: 'way',
+    id: 1,
+    tags: { 'seamark:type': 'military_area', 'seamark:name': 'Firing range' },
+    geometry: outline(0.4, -0.1, 0.6, 0.1),
+  },
+  { type: 'node', id: 2, lat: 0.3, lon: 0.8, tags: { 'seamark:type': 'rock', 'seamark:name': 'Black rock' } },
+];
+
+const waypoint = (id: string, lat: number, lon: number, type: Waypoint['type'] = 'waypoint'): Waypoint => ({
+  id,
+  lat,
+  lon,
+  name: id,
+  type,
+});
+
+describe('solveHazardAvoidance', () => {
+  beforeEach(() => {
+    const storage: Record<string, string> = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage[key] ?? null,
+      setItem: (key: string, value: string) => {
+        storage[key] = value;
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ elements }))));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('reroutes round an area until the analysis is clean', async () => {
+    const original = [waypoint('Start', 0, 0, 'start'), waypoint('End', 0, 1, 'destination')];
+    const result = await solveHazardAvoidance(original);
+
+    expect(result.resolved).toBe(true);
+    expect(result.unresolved).toEqual([]);
+    expect(result.iterations).toBe(1);
+    expect(result.original).toBe(original);
+    expect(result.waypoints[0]).toBe(original[0]);
+    expect(result.waypoints[result.waypoints.length - 1]).toBe(original[1]);
+    expect(result.waypoints.length).toBeGreaterThan(2);
+    expect(result.waypoints[1]).toMatchObject({ name: 'WP1', type: 'waypoint' });
+
+    expect(result.analysis.hazards.filter((h) => h.hazard.severity === 'critical')).toEqual([]);
+    expect(result.analysis.isSafe).toBe(true);
+    // Round the 12 NM wide range, not far out of the way
+    expect(result.addedDistance).toBeGreaterThan(0);
+    expect(result.addedDistance).toBeLessThan(10);
+  });
+
+  it('keeps detours deeper than the chosen depth contour', async () => {
+    const original = [waypoint('Start', 0, 0, 'start'), waypoint('End', 0, 1, 'destination')];
+    await solveHazardAvoidance(original, { depthContour: 200 });
+
+    expect(fetchBathymetryLayer).toHaveBeenCalledWith(200, '10m');
+  });
+
+  it('leaves a route that needs no change alone', async () => {
+    const original = [waypoint('A', -0.5, 0), waypoint('B', -0.5, 1)];
+    const result = await solveHazardAvoidance(original);
+
+    expect(result).toMatchObject({ resolved: true, iterations: 0, addedDistance: 0 });
+    expect(result.waypoints).toEqual(original);
+  });
+
+  it('explains why a waypoint inside an area cannot be cleared', async () => {
+    const original = [waypoint('Inside', 0, 0.5), waypoint('Outside', 0, 1)];
+    const result = await solveHazardAvoidance(original);
+
+    expect(result.resolved).toBe(false);
+    expect(result.unresolved).toContain('Inside lies inside Firing range; move it clear first');
+    expect(result.unresolved.some((reason) => reason.startsWith('Leg 1 passes 0m from Firing range'))).toBe(true);
+  });
+});
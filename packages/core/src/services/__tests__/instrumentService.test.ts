@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InstrumentFeed, createReplaySource } from '../instrumentService';
+import { formatNmeaSentence } from '../../utils/nmea';
+import type { InstrumentData } from '../../types/navigation';
+
+const LOG = [
+  formatNmeaSentence('GPRMC,120000,A,3249.200,N,03459.400,E,5.0,090.0,010626,,'),
+  formatNmeaSentence('IIHDT,090.0,T'),
+  formatNmeaSentence('IIVHW,,T,,M,5.0,N,,K'),
+  formatNmeaSentence('IIMWV,000.0,R,15.0,N,A'),
+  formatNmeaSentence('SDDPT,12.0,0.5'),
+  formatNmeaSentence('GPRMC,120002,A,3249.200,N,03459.500,E,5.2,090.0,010626,,'),
+  formatNmeaSentence('YXMTW,19.5,C'),
+  formatNmeaSentence('GPRMC,120004,A,3249.200,N,03459.600,E,5.1,090.0,010626,,'),
+].join('\n');
+
+describe('InstrumentFeed', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should combine sentences into instrument data', () => {
+    const feed = new InstrumentFeed();
+    LOG.split('\n').forEach((line) => feed.ingest(line));
+
+    const data = feed.getData();
+    expect(data.position?.lat).toBeCloseTo(32.82, 4);
+    expect(data.heading).toBe(90);
+    expect(data.speedThroughWater).toBe(5);
+    expect(data.apparentWind).toEqual({ angle: 0, speed: 15 });
+    expect(data.trueWind?.speed).toBeCloseTo(10, 6);
+    expect(data.trueWind?.direction).toBeCloseTo(90, 6);
+    expect(data.depth).toBe(12.5);
+    expect(data.waterTemperature).toBe(19.5);
+    expect(feed.getStatus().sentences).toBe(8);
+  });
+
+  it('should prefer true wind sent by the instruments', () => {
+    const feed = new InstrumentFeed();
+    feed.ingest(formatNmeaSentence('IIHDT,000.0,T'));
+    feed.ingest(formatNmeaSentence('IIVHW,,T,,M,6.0,N,,K'));
+    feed.ingest(formatNmeaSentence('WIMWD,225.0,T,,M,18.0,N,,M'));
+    feed.ingest(formatNmeaSentence('IIMWV,030.0,R,22.0,N,A'));
+
+    expect(feed.getData().trueWind).toEqual({ angle: 225, speed: 18, direction: 225 });
+  });
+
+  it('should report depth below keel for a negative transducer offset', () => {
+    const feed = new InstrumentFeed();
+    feed.ingest(formatNmeaSentence('SDDPT,4.0,-1.5'));
+    expect(feed.getData()).toMatchObject({ depth: 4, depthBelowKeel: 2.5 });
+  });
+
+  it('should count bad sentences without throwing', () => {
+    const feed = new InstrumentFeed();
+    const errors: Error[] = [];
+    feed.on('error', (error: Error) => errors.push(error));
+
+    expect(feed.ingest('$GPRMC,120000,A*00')).toBeNull();
+    expect(errors[0].message).toMatch(/checksum mismatch/);
+    expect(feed.getStatus().errors).toBe(1);
+  });
+
+  it('should replay a log with its recorded timing', () => {
+    vi.useFakeTimers();
+    const feed = new InstrumentFeed();
+    const positions: InstrumentData[] = [];
+    const statuses: string[] = [];
+    feed.on('position', (data: InstrumentData) => positions.push(data));
+    feed.on('status', (status: string) => statuses.push(status));
+
+    feed.connect(createReplaySource(LOG, { rate: 2 }));
+    expect(positions).toHaveLength(1);
+    expect(feed.getData().depth).toBe(12.5);
+
+    // 2 s of log at double speed
+    vi.advanceTimersByTime(999);
+    expect(positions).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(positions).toHaveLength(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(positions).toHaveLength(3);
+    expect(positions[2].position?.lon).toBeCloseTo(34.99333, 4);
+    expect(statuses).toEqual(['connected', 'ended']);
+  });
+
+  it('should stop replay on disconnect', () => {
+    vi.useFakeTimers();
+    const feed = new InstrumentFeed();
+    feed.connect(createReplaySource(LOG, { loop: true }));
+    feed.disconnect();
+    vi.advanceTimersByTime(10000);
+
+    expect(feed.getStatus()).toMatchObject({ source: null, status: 'disconnected', sentences: 5 });
+  });
+});
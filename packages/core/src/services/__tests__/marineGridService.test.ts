@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  convertToVelocityFormat,
+  fetchMarineGridForecast,
+  generateWaveGridCells,
+  getMarineGridFrame,
+} from '../marineGridService';
+import type { MarineGridForecast } from '../marineGridService';
+import { deduplicatedFetch } from '../../utils/requestDeduplication';
+
+vi.mock('../../utils/requestDeduplication', () => ({
+  deduplicatedFetch: vi.fn(),
+}));
+
+const bounds = { north: 44, south: 43, east: 7, west: 6 };
+const resolution = { latPoints: 2, lngPoints: 2 };
+const times = ['2026-06-01T12:00', '2026-06-01T13:00', '2026-06-01T14:00'];
+
+describe('fetchMarineGridForecast', () => {
+  beforeEach(() => {
+    vi.mocked(deduplicatedFetch).mockReset();
+  });
+
+  it('should build one grid frame per forecast hour', async () => {
+    vi.mocked(deduplicatedFetch).mockImplementation(async (url: string) => {
+      const marine = url.includes('marine');
+      return Array.from({ length: 4 }, (_, point) => ({
+        hourly: marine
+          ? { time: times, wave_height: times.map((_, h) => point + h * 0.5) }
+          : { time: times, wind_speed_10m: [10, 20, 30], wind_direction_10m: [270, 270, 270] },
+      }));
+    });
+
+    const forecast = await fetchMarineGridForecast(bounds, resolution, 3);
+
+    const [url] = vi.mocked(deduplicatedFetch).mock.calls[0];
+    expect(url).toContain('hourly=');
+    expect(url).toContain('forecast_hours=3');
+    expect(url).toContain('timezone=GMT');
+
+    expect(forecast.times).toEqual([
+      '2026-06-01T12:00:00.000Z',
+      '2026-06-01T13:00:00.000Z',
+      '2026-06-01T14:00:00.000Z',
+    ]);
+    expect(forecast.frames).toHaveLength(3);
+    expect(forecast.frames[2][3]).toMatchObject({ lat: 43, lng: 7, waveHeight: 4, windSpeed: 30 });
+    // Westerly wind blows towards the east
+    expect(forecast.frames[0][0].windU).toBeCloseTo(10, 6);
+  });
+});
+
+describe('time-indexed grid frames', () => {
+  const point = (waveHeight: number, windSpeed: number) => ({
+    lat: 43,
+    lng: 6,
+    waveHeight,
+    windSpeed,
+    windDirection: 0,
+    windU: 0,
+    windV: -windSpeed,
+  });
+
+  const forecast: MarineGridForecast = {
+    bounds: { north: 43, south: 43, east: 6, west: 6 },
+    resolution: { latPoints: 1, lngPoints: 1 },
+    times: ['2026-06-01T12:00:00.000Z', '2026-06-01T13:00:00.000Z'],
+    frames: [[point(1, 10)], [point(2, 20)]],
+  };
+
+  it('should interpolate between forecast hours', () => {
+    const frame = getMarineGridFrame(forecast, new Date('2026-06-01T12:30:00Z'));
+    expect(frame.points[0].waveHeight).toBeCloseTo(1.5, 6);
+    expect(frame.points[0].windSpeed).toBeCloseTo(15, 6);
+    expect(frame.timestamp).toBe('2026-06-01T12:30:00.000Z');
+  });
+
+  it('should clamp to the forecast range', () => {
+    expect(getMarineGridFrame(forecast, new Date('2026-06-02T00:00:00Z')).points[0].waveHeight).toBe(2);
+    expect(getMarineGridFrame(forecast, new Date('2026-05-31T00:00:00Z')).timestamp).toBe(forecast.times[0]);
+  });
+
+  it('should render velocity and wave layers for any hour', () => {
+    const time = new Date('2026-06-01T13:00:00Z');
+    const wind = convertToVelocityFormat(forecast, 'wind', time).wind!;
+    expect(wind[1].data[0]).toBe(-20);
+    expect(wind[0].header).toMatchObject({ refTime: forecast.times[0], forecastTime: 1 });
+
+    expect(generateWaveGridCells(forecast, 'wave', time).cells[0].value).toBe(2);
+  });
+});
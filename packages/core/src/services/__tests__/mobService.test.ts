@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ManOverboard,
+  driftPosition,
+  estimateDrift,
+  expandingSquarePattern,
+  sectorSearchPattern,
+} from '../mobService';
+import { calculateDistance } from '../routePlanningService';
+import { fetchPointForecast } from '../weatherService';
+
+vi.mock('../weatherService', () => ({
+  fetchPointForecast: vi.fn(),
+}));
+
+const datum = { lat: 43, lon: 6 };
+
+describe('estimateDrift', () => {
+  it('should combine downwind leeway with the current', () => {
+    // 37.04 km/h = 20 kts from the north: 0.6 kts leeway to the south
+    const leewayOnly = estimateDrift({ windSpeed: 37.04, windDirection: 0, currentSpeed: 0, currentDirection: 0 });
+    expect(leewayOnly.speed).toBeCloseTo(0.6, 3);
+    expect(leewayOnly.direction).toBeCloseTo(180, 6);
+
+    // 1.5 kts current setting east swings the drift towards the south-east
+    const combined = estimateDrift({ windSpeed: 37.04, windDirection: 0, currentSpeed: 2.778, currentDirection: 90 });
+    expect(combined.current).toBeCloseTo(1.5, 3);
+    expect(combined.direction).toBeCloseTo(111.8, 0);
+  });
+});
+
+describe('driftPosition', () => {
+  it('should move the datum along the drift', () => {
+    const moved = driftPosition(datum, { speed: 1, direction: 0 }, 30);
+    expect(calculateDistance(datum.lat, datum.lon, moved.lat, moved.lon)).toBeCloseTo(0.5, 3);
+    expect(moved.lat).toBeGreaterThan(datum.lat);
+  });
+});
+
+describe('search patterns', () => {
+  it('should grow expanding square legs every second turn', () => {
+    const points = expandingSquarePattern(datum, 0.1, 4);
+    const legs = points.slice(1).map((p, i) => calculateDistance(points[i].lat, points[i].lon, p.lat, p.lon));
+    legs.forEach((leg, i) => expect(leg).toBeCloseTo([0.1, 0.1, 0.2, 0.2][i], 2));
+  });
+
+  it('should bring each sector search triangle back to the datum', () => {
+    const points = sectorSearchPattern(datum, 0.5);
+    expect(points).toHaveLength(10);
+    [3, 6, 9].forEach((i) => {
+      expect(calculateDistance(datum.lat, datum.lon, points[i].lat, points[i].lon)).toBeLessThan(0.001);
+    });
+  });
+});
+
+describe('ManOverboard', () => {
+  let store: Record<string, string>;
+  let mob: ManOverboard;
+
+  beforeEach(() => {
+    store = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value;
+      },
+      removeItem: (key: string) => {
+        delete store[key];
+      },
+    });
+    mob = new ManOverboard();
+  });
+
+  afterEach(async () => {
+    await mob.clear();
+    vi.unstubAllGlobals();
+    vi.mocked(fetchPointForecast).mockReset();
+  });
+
+  it('should estimate drift offline from the cached forecast', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    store.mobForecast = JSON.stringify({
+      forecast: { windSpeed: 37.04, windDirection: 0, currentSpeed: 0, currentDirection: 0 },
+      fetchedAt: '2026-06-01T10:00:00Z',
+    });
+
+    const alerts: unknown[] = [];
+    mob.on('alert', (alert: unknown) => alerts.push(alert));
+    const event = await mob.activate(datum);
+
+    expect(fetchPointForecast).not.toHaveBeenCalled();
+    expect(alerts).toMatchObject([{ type: 'man-overboard', severity: 'error' }]);
+    expect(event.drift).toMatchObject({ forecastSource: 'cached' });
+    expect(event.drift?.speed).toBeCloseTo(0.6, 3);
+
+    const status = mob.getStatus(new Date(event.timestamp.getTime() + 60 * 60000));
+    expect(status.elapsedMinutes).toBeCloseTo(60, 6);
+    expect(calculateDistance(datum.lat, datum.lon, status.datum.lat, status.datum.lon)).toBeCloseTo(0.6, 2);
+    expect(status.datum.lat).toBeLessThan(datum.lat);
+  });
+
+  it('should report bearing and distance from own position and restore after reload', async () => {
+    vi.mocked(fetchPointForecast).mockResolvedValue({
+      lat: 43, lng: 6, waveHeight: 0, windSpeed: 0, windDirection: 0, swellHeight: 0, swellDirection: 0,
+      temp: 0, weatherCode: 0, weatherDesc: 'Clear sky', currentSpeed: 0, currentDirection: 0,
+    });
+
+    await mob.activate(datum, 'sector');
+    expect(mob.getStatus().event.drift?.forecastSource).toBe('live');
+
+    mob.updateOwnPosition({ lat: datum.lat, lon: datum.lon - 0.5 / (60 * Math.cos((43 * Math.PI) / 180)) });
+    const status = mob.getStatus();
+    expect(status.distance).toBeCloseTo(0.5, 2);
+    expect(status.bearing).toBeCloseTo(90, 0);
+    expect(status.searchPattern).toHaveLength(10);
+
+    const restored = new ManOverboard();
+    const onUpdate = vi.fn();
+    restored.on('update', onUpdate);
+    expect(restored.resume()).toBe(true);
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ datum: expect.anything() }));
+    expect(restored.getStatus().event).toMatchObject({ position: datum, searchPattern: 'sector' });
+    await restored.clear();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { computeDirectionSpread, fetchModelComparison } from '../modelComparisonService';
+import { deduplicatedFetch } from '../../utils/requestDeduplication';
+
+vi.mock('../../utils/requestDeduplication', () => ({
+  deduplicatedFetch: vi.fn(),
+}));
+
+vi.mock('../cacheService', () => ({
+  cacheService: {
+    get: vi.fn(async () => null),
+    set: vi.fn(async () => undefined),
+    getTTL: vi.fn(() => 60 * 60 * 1000),
+  },
+}));
+
+describe('fetchModelComparison', () => {
+  beforeEach(() => {
+    vi.mocked(deduplicatedFetch).mockReset();
+  });
+
+  it('should align models by time and flag hours where they disagree', async () => {
+    vi.mocked(deduplicatedFetch).mockImplementation(async (url: string) => {
+      if (url.includes('marine')) {
+        // Wave model starting an hour later than the weather models
+        return {
+          hourly: {
+            time: ['2026-06-01T13:00', '2026-06-01T14:00'],
+            wave_height_dwd_ewam: [1.0, 1.2],
+            wave_height_ecmwf_wam: [1.1, 2.0],
+            wave_height_mfwam: [null, null],
+          },
+        };
+      }
+      return {
+        hourly: {
+          time: ['2026-06-01T12:00', '2026-06-01T13:00', '2026-06-01T14:00'],
+          wind_speed_10m_icon_seamless: [10, 20, 30],
+          wind_speed_10m_ecmwf_ifs: [12, 22, 45],
+          wind_direction_10m_icon_seamless: [350, 90, 180],
+          wind_direction_10m_ecmwf_ifs: [20, 180, 200],
+        },
+      };
+    });
+
+    // Mediterranean: ICON, AROME and HARMONIE plus the global models, DWD EWAM for waves
+    const comparison = await fetchModelComparison(43.5, 7);
+
+    const weatherUrl = vi.mocked(deduplicatedFetch).mock.calls.map(([url]) => url).find((url) => !url.includes('marine'))!;
+    expect(decodeURIComponent(weatherUrl)).toContain('models=arome_france,icon_seamless,harmonie_knmi,icon_global,ecmwf_ifs,gfs');
+
+    expect(comparison.times).toEqual([
+      '2026-06-01T12:00:00.000Z',
+      '2026-06-01T13:00:00.000Z',
+      '2026-06-01T14:00:00.000Z',
+    ]);
+    // Models without data are dropped
+    expect(comparison.models.map((m) => m.id)).toEqual(['icon_seamless', 'ecmwf_ifs', 'dwd_ewam', 'ecmwf_wam']);
+
+    const waves = comparison.variables.waveHeight!;
+    expect(waves.values.dwd_ewam).toEqual([null, 1.0, 1.2]);
+    expect(waves.stats[0]).toBeNull();
+    expect(waves.stats[2]).toMatchObject({ mean: 1.6, min: 1.2, max: 2.0, count: 2, disagreement: true });
+    expect(waves.stats[2]!.spread).toBeCloseTo(0.8, 6);
+
+    const wind = comparison.variables.windSpeed!;
+    expect(wind.stats.map((s) => s!.disagreement)).toEqual([false, false, true]);
+
+    // 30° apart in light air is ignored, 90° at 21 km/h is flagged
+    const direction = comparison.variables.windDirection!;
+    expect(direction.stats[0]).toMatchObject({ spread: 30, disagreement: false });
+    expect(direction.stats[1]).toMatchObject({ spread: 90, disagreement: true });
+
+    expect(comparison.disagreementTimes).toEqual(['2026-06-01T13:00:00.000Z', '2026-06-01T14:00:00.000Z']);
+  });
+
+  it('should still compare wind when the marine API fails', async () => {
+    vi.mocked(deduplicatedFetch).mockImplementation(async (url: string) => {
+      if (url.includes('marine')) throw new Error('HTTP 400');
+      return { hourly: { time: ['2026-06-01T12:00'], wind_speed_10m_gfs: [10], wind_speed_10m_ecmwf_ifs: [14] } };
+    });
+
+    const comparison = await fetchModelComparison(0, -30);
+    expect(comparison.models.map((m) => m.source)).toEqual(['weather', 'weather']);
+    expect(comparison.variables.waveHeight).toBeUndefined();
+  });
+});
+
+describe('computeDirectionSpread', () => {
+  it('should average directions across north', () => {
+    const stats = computeDirectionSpread([340, 10, 40], 45)!;
+    expect(stats.mean).toBeCloseTo(10, 6);
+    expect(stats.spread).toBe(60);
+    expect(stats.min).toBeCloseTo(340, 6);
+    expect(stats.max).toBeCloseTo(40, 6);
+    expect(stats.disagreement).toBe(true);
+  });
+});
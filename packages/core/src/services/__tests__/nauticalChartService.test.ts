@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { analyzeRouteHazards } from '../nauticalChartService';
+
+vi.mock('../offlinePackStore', () => ({
+  getOfflineHazards: vi.fn(async () => null),
+}));
+
+vi.mock('../depthService', () => ({
+  getRouteDepthProfile: vi.fn(async () => {
+    throw new Error('no depth data');
+  }),
+}));
+
+const outline = (west: number, south: number, east: number, north: number) => [
+  { lat: south, lon: west },
+  { lat: south, lon: east },
+  { lat: north, lon: east },
+  { lat: north, lon: west },
+  { lat: south, lon: west },
+];
+
+const elements = [
+  {
+    type: 'way',
+    id: 1,
+    tags: { 'seamark:type': 'military_area', 'seamark:name': 'Firing range' },
+    geometry: outline(0.4, -0.1, 0.6, 0.1),
+  },
+  {
+    type: 'way',
+    id: 2,
+    tags: { 'seamark:type': 'separation_lane', 'seamark:separation_lane:orientation': '270' },
+    geometry: outline(0.7, -0.05, 0.9, 0.05),
+  },
+  {
+    type: 'way',
+    id: 3,
+    tags: { 'seamark:type': 'cable_submarine' },
+    geometry: [
+      { lat: -0.5, lon: 0.3 },
+      { lat: 0.5, lon: 0.3 },
+    ],
+  },
+];
+
+describe('analyzeRouteHazards', () => {
+  beforeEach(() => {
+    const storage: Record<string, string> = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage[key] ?? null,
+      setItem: (key: string, value: string) => {
+        storage[key] = value;
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ elements }))));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('measures where a route enters and leaves an area', async () => {
+    const analysis = await analyzeRouteHazards([{ lat: 0, lon: 0 }, { lat: 0, lon: 1 }], 2);
+
+    const [military] = analysis.areaCrossings.filter((crossing) => crossing.hazard.type === 'military_zone');
+    expect(military.entry!.lon).toBeCloseTo(0.4);
+    expect(military.exit!.lon).toBeCloseTo(0.6);
+    expect(military.lengthInside).toBeCloseTo(12, 0);
+    expect(analysis.warnings).toContain(
+      'CRITICAL: Route enters Firing range for 12.0 NM between waypoint 1 and 2. REROUTE REQUIRED!'
+    );
+
+    // The cable is a line, crossed rather than entered
+    const cable = analysis.hazards.find((entry) => entry.hazard.type === 'cable_area')!;
+    expect(cable.distanceFromRoute).toBe(0);
+    expect(analysis.areaCrossings.some((crossing) => crossing.hazard.type === 'cable_area')).toBe(false);
+    expect(analysis.isSafe).toBe(false);
+  });
+
+  it('leaves the entry open when a segment starts inside', async () => {
+    const analysis = await analyzeRouteHazards([{ lat: 0, lon: 0.5 }, { lat: 0, lon: 0.65 }], 2);
+
+    expect(analysis.areaCrossings).toHaveLength(1);
+    expect(analysis.areaCrossings[0].entry).toBeNull();
+    expect(analysis.areaCrossings[0].exit!.lon).toBeCloseTo(0.6);
+  });
+
+  it('flags going the wrong way up a traffic lane', async () => {
+    const analysis = await analyzeRouteHazards([{ lat: 0, lon: 0.65 }, { lat: 0, lon: 0.95 }], 2);
+
+    expect(analysis.trafficSeparation).toHaveLength(1);
+    expect(analysis.trafficSeparation[0]).toMatchObject({ issue: 'wrong_direction', laneDirection: 270 });
+    expect(analysis.trafficSeparation[0].course).toBeCloseTo(90);
+    expect(analysis.isSafe).toBe(false);
+  });
+
+  it('checks lanes are crossed at right angles', async () => {
+    const square = await analyzeRouteHazards([{ lat: -0.1, lon: 0.8 }, { lat: 0.1, lon: 0.8 }], 2);
+    expect(square.trafficSeparation).toEqual([]);
+    expect(square.areaCrossings).toHaveLength(1);
+
+    const oblique = await analyzeRouteHazards([{ lat: -0.1, lon: 0.75 }, { lat: 0.1, lon: 0.85 }], 2);
+    expect(oblique.trafficSeparation).toHaveLength(1);
+    expect(oblique.trafficSeparation[0].issue).toBe('crossing_angle');
+    expect(oblique.trafficSeparation[0].crossingAngle).toBeCloseTo(63.4, 0);
+    expect(oblique.isSafe).toBe(true);
+  });
+});
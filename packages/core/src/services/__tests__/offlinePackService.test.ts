@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OfflinePackManager, PACK_ITEMS_VERSION, estimateOfflinePack, packItems } from '../offlinePackService';
+import {
+  getOfflineAids,
+  getOfflineForecast,
+  getOfflineGeoJSON,
+  getOfflineHazards,
+  getOfflineMarinas,
+  getOfflineTile,
+  packContents,
+  packItemKey,
+  resetOfflinePacks,
+  saveOfflinePack,
+} from '../offlinePackStore';
+import type { OfflinePack, OfflinePackOptions } from '../offlinePackStore';
+import { buildLayerUrl } from '../geojsonService';
+import { fetchMarineGridForecast } from '../marineGridService';
+
+vi.mock('../nauticalChartService', () => ({
+  fetchNauticalHazards: vi.fn(async () => [
+    { id: 'rock', type: 'rock', lat: 43.55, lon: 7.05, severity: 'danger', source: 'osm' },
+  ]),
+}));
+
+vi.mock('../seamarkService', () => ({
+  fetchSeamarkAids: vi.fn(async () => [
+    { id: 'osm-1', lat: 43.56, lon: 7.12, structure: 'buoy', category: 'lateral', colours: ['red'], region: 'A', lights: [] },
+  ]),
+}));
+
+vi.mock('../coastsMarinasService', () => ({
+  searchNearbyCoasts: vi.fn(async () => [
+    { id: 'm1', name: 'Port Vauban', lat: 43.58, lon: 7.13, distance: 3, bearing: 10, amenities: [], facilities: {} },
+  ]),
+}));
+
+vi.mock('../marineGridService', () => ({
+  fetchMarineGridForecast: vi.fn(async (bounds: unknown) => ({
+    bounds,
+    resolution: { latPoints: 3, lngPoints: 3 },
+    times: ['2026-06-01T00:00:00.000Z', '2026-06-05T23:00:00.000Z'],
+    frames: [[], []],
+  })),
+}));
+
+const options: OfflinePackOptions = {
+  name: 'Antibes',
+  bounds: { north: 43.6, south: 43.5, east: 7.2, west: 7.0 },
+  minZoom: 8,
+  maxZoom: 10,
+  tileUrl: 'https://{s}.tiles.test/{z}/{x}/{y}{r}.png',
+  forecastDays: 5,
+};
+
+const coastline = {
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', geometry: { type: 'LineString', coordinates: [[7.05, 43.55], [7.1, 43.56]] }, properties: { id: 'in' } },
+    { type: 'Feature', geometry: { type: 'LineString', coordinates: [[-5, 36], [-5.1, 36.1]] }, properties: { id: 'out' } },
+  ],
+};
+
+/** Resolves once a pack download stops */
+const finished = (manager: OfflinePackManager, id: string) =>
+  new Promise<OfflinePack>((resolve) => {
+    const onProgress = (pack: OfflinePack) => {
+      if (pack.id === id && pack.status !== 'downloading') {
+        manager.off('progress', onProgress);
+        resolve(pack);
+      }
+    };
+    manager.on('progress', onProgress);
+  });
+
+describe('offline packs', () => {
+  let storage: Record<string, string>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    storage = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage[key] ?? null,
+      setItem: (key: string, value: string) => {
+        storage[key] = value;
+      },
+      removeItem: (key: string) => {
+        delete storage[key];
+      },
+      key: (index: number) => Object.keys(storage)[index] ?? null,
+      get length() {
+        return Object.keys(storage).length;
+      },
+    });
+    fetchMock = vi.fn(async (url: string) =>
+      url.endsWith('.png') ? new Response(new Uint8Array(100)) : new Response(JSON.stringify(coastline))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    resetOfflinePacks();
+  });
+
+  it('estimates the tiles and size of a pack', () => {
+    const estimate = estimateOfflinePack(options);
+    const tiles = packItems(options).filter((item) => item.startsWith('tile:'));
+
+    expect(estimate.tiles).toBe(tiles.length);
+    expect(estimate.tiles).toBeGreaterThan(3);
+    expect(estimate.bytes).toBeGreaterThan(estimate.tiles * 1024);
+    expect(estimate.tooLarge).toBe(false);
+    expect(estimateOfflinePack({ ...options, bounds: { north: 45, south: 40, east: 10, west: 3 }, maxZoom: 14 }).tooLarge).toBe(true);
+  });
+
+  it('downloads a pack and serves it offline', async () => {
+    const manager = new OfflinePackManager();
+    const pack = await manager.create(options);
+    const done = await finished(manager, pack.id);
+
+    expect(done.status).toBe('complete');
+    expect(done.cursor).toBe(packItems(options).length);
+    expect(done.forecastUntil).toBe('2026-06-05T23:00:00.000Z');
+    expect(fetchMarineGridForecast).toHaveBeenCalledWith(options.bounds, expect.any(Object), 120);
+
+    expect(await getOfflineTile(options.tileUrl, 9, 265, 187)).not.toBeNull();
+    expect(await getOfflineTile('https://other.test/{z}/{x}/{y}.png', 9, 265, 187)).toBeNull();
+
+    const layer = await getOfflineGeoJSON(buildLayerUrl('coastline', '10m'));
+    expect(layer?.features.map((f) => f.properties.id)).toEqual(['in']);
+
+    expect(await getOfflineHazards({ north: 44, south: 43, east: 8, west: 6 })).toHaveLength(1);
+    expect(await getOfflineHazards({ north: 40, south: 39, east: 8, west: 6 })).toBeNull();
+    expect(await getOfflineAids(options.bounds)).toHaveLength(1);
+
+    const [marina] = (await getOfflineMarinas(43.58, 7.1, 10))!;
+    expect(marina.name).toBe('Port Vauban');
+    expect(marina.distance).toBeLessThan(2);
+
+    expect(await getOfflineForecast(options.bounds, new Date('2026-06-02T00:00:00Z'))).not.toBeNull();
+    expect(await getOfflineForecast(options.bounds, new Date('2026-06-07T00:00:00Z'))).toBeNull();
+  });
+
+  it('retries failed items on resume', async () => {
+    const manager = new OfflinePackManager();
+    fetchMock.mockImplementation(async (url: string) =>
+      url.includes('/10/') ? new Response(null, { status: 503 }) : new Response(JSON.stringify(coastline))
+    );
+
+    const pack = await manager.create(options);
+    const failed = await finished(manager, pack.id);
+    expect(failed.status).toBe('failed');
+    expect(failed.failed.length).toBeGreaterThan(0);
+    expect(failed.failed.every((item) => item.startsWith('tile:10/'))).toBe(true);
+
+    fetchMock.mockImplementation(async () => new Response(new Uint8Array(100)));
+    await manager.resume(pack.id);
+
+    const [resumed] = await manager.list();
+    expect(resumed.status).toBe('complete');
+    expect(resumed.failed).toEqual([]);
+  });
+
+  it('resumes an interrupted download from where it stopped', async () => {
+    const items = packItems(options);
+    const interrupted: OfflinePack = {
+      ...options,
+      id: 'p1',
+      createdAt: 0,
+      updatedAt: 0,
+      status: 'downloading',
+      totalItems: items.length,
+      cursor: items.length - 2,
+      itemsVersion: PACK_ITEMS_VERSION,
+      failed: [],
+      bytes: 0,
+      expiresAt: 0,
+      forecastUntil: null,
+    };
+    await saveOfflinePack(interrupted, true);
+
+    const manager = new OfflinePackManager();
+    expect((await manager.list())[0].status).toBe('paused');
+
+    await manager.resume('p1');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect((await manager.list())[0].status).toBe('complete');
+  });
+
+  it('resumes from the first item not fetched when the connection drops', async () => {
+    const connection = { onLine: true };
+    vi.stubGlobal('navigator', connection);
+    const download = fetchMock.getMockImplementation()!;
+    // Drop the connection once, as the first tiles are fetched
+    let dropped = false;
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('.png') && !dropped) {
+        dropped = true;
+        connection.onLine = false;
+      }
+      return download(url);
+    });
+
+    const manager = new OfflinePackManager();
+    const pack = await manager.create(options);
+    const paused = await finished(manager, pack.id);
+    expect(paused.status).toBe('paused');
+    expect(paused.cursor).toBeLessThan(packItems(options).length);
+
+    connection.onLine = true;
+    await manager.resume(pack.id);
+    const [resumed] = await manager.list();
+    expect(resumed.status).toBe('complete');
+
+    const tiles = packItems(options).filter((item) => item.startsWith('tile:'));
+    for (const tile of tiles) {
+      const [z, x, y] = tile.slice('tile:'.length).split('/').map(Number);
+      expect(await getOfflineTile(options.tileUrl, z, x, y)).not.toBeNull();
+    }
+    vi.unstubAllGlobals();
+  });
+
+  it('resumes a pack saved before aids to navigation at the same item', async () => {
+    const items = packItems(options);
+    // Hazards and marinas done in the list without aids; the forecast is next
+    await saveOfflinePack(
+      {
+        ...options,
+        id: 'p1',
+        createdAt: 0,
+        updatedAt: 0,
+        status: 'downloading',
+        totalItems: items.length - 1,
+        cursor: 2,
+        failed: [],
+        bytes: 0,
+        expiresAt: 0,
+        forecastUntil: null,
+      },
+      true
+    );
+
+    const manager = new OfflinePackManager();
+    expect((await manager.list())[0]).toMatchObject({ cursor: 3, failed: ['aids'], totalItems: items.length });
+
+    await manager.resume('p1');
+    const [resumed] = await manager.list();
+    expect(resumed).toMatchObject({ status: 'complete', failed: [], itemsVersion: PACK_ITEMS_VERSION });
+    expect(await getOfflineAids(options.bounds)).toHaveLength(1);
+  });
+
+  it('marks a complete pack saved before aids to navigation as due for an update', async () => {
+    const items = packItems(options);
+    const expiresAt = Date.now() + 86400000;
+    await saveOfflinePack(
+      {
+        ...options,
+        id: 'p1',
+        createdAt: 0,
+        updatedAt: 0,
+        status: 'complete',
+        totalItems: items.length - 1,
+        cursor: items.length - 1,
+        failed: [],
+        bytes: 0,
+        expiresAt,
+        forecastUntil: null,
+      },
+      true
+    );
+
+    const manager = new OfflinePackManager();
+    const [pack] = await manager.list();
+    expect(pack).toMatchObject({ cursor: items.length, failed: ['aids'] });
+    expect(manager.isExpired(pack)).toBe(true);
+
+    await manager.refreshForecast('p1');
+    const [refreshed] = await manager.list();
+    expect(refreshed.failed).toEqual([]);
+    expect(manager.isExpired(refreshed)).toBe(false);
+  });
+
+  it('merges GeoJSON from overlapping packs once per file', async () => {
+    const manager = new OfflinePackManager();
+    const first = await manager.create(options);
+    await finished(manager, first.id);
+    const second = await manager.create({ ...options, name: 'Antibes again' });
+    await finished(manager, second.id);
+
+    const read = vi.spyOn(packContents, 'get');
+    const url = buildLayerUrl('coastline', '10m');
+    const layer = await getOfflineGeoJSON(url);
+    expect(layer?.features.map((f) => f.properties.id)).toEqual(['in']);
+    expect(read).toHaveBeenCalledTimes(2);
+
+    expect(await getOfflineGeoJSON(url)).toBe(layer);
+    expect(read).toHaveBeenCalledTimes(2);
+    read.mockRestore();
+  });
+
+  it('deletes the contents with the pack', async () => {
+    const manager = new OfflinePackManager();
+    const pack = await manager.create(options);
+    await finished(manager, pack.id);
+
+    await manager.remove(pack.id);
+    expect(await manager.list()).toEqual([]);
+    expect(await packContents.get(packItemKey(pack.id, 'hazards'))).toBeNull();
+    expect(await getOfflineTile(options.tileUrl, 9, 265, 187)).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyDepthLimit,
+  applyShoreClearance,
+  buildWaterGrid,
+  findLandCrossings,
+  findWaterPath,
+  getSeaRouteBounds,
+  isLegOnWater,
+  isWater,
+  legCrossesLand,
+  planSeaRoute,
+  routeAroundLand,
+} from '../seaRouteService';
+import { fetchGeoJSON } from '../geojsonService';
+import type { GeoJSONFeature } from '../geojsonService';
+
+const square = (west: number, south: number, east: number, north: number): number[][] => [
+  [west, south],
+  [east, south],
+  [east, north],
+  [west, north],
+  [west, south],
+];
+
+// An island across the direct line from (0, 0) to (0, 1), with a lagoon in it
+const island: GeoJSONFeature = {
+  type: 'Feature',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [square(0.4, -0.2, 0.6, 0.2), square(0.45, -0.05, 0.55, 0.05)],
+  },
+  properties: {},
+};
+
+// A minor island north of the line
+const islet: GeoJSONFeature = {
+  type: 'Feature',
+  geometry: { type: 'Polygon', coordinates: [square(0.2, 0.3, 0.25, 0.35)] },
+  properties: {},
+};
+
+vi.mock('../geojsonService', () => ({
+  fetchGeoJSON: vi.fn(async (layer: string, resolution: string) => ({
+    type: 'FeatureCollection',
+    features: layer === 'minor_islands' ? [islet] : resolution === '50m' ? [island] : [],
+  })),
+  fetchBathymetryLayer: vi.fn(async () => ({ type: 'FeatureCollection', features: [] })),
+}));
+
+describe('seaRouteService', () => {
+  const from = { lat: 0, lon: 0 };
+  const to = { lat: 0, lon: 1 };
+  const grid = buildWaterGrid([island], getSeaRouteBounds(from, to));
+
+  it('lays land polygons onto the grid, keeping holes as water', () => {
+    expect(isWater(grid, { lat: 0.15, lon: 0.5 })).toBe(false);
+    expect(isWater(grid, { lat: 0, lon: 0.5 })).toBe(true);
+    expect(isWater(grid, { lat: 0.3, lon: 0.5 })).toBe(true);
+    expect(isLegOnWater(grid, from, to)).toBe(false);
+  });
+
+  it('finds a path round the island', () => {
+    const path = findWaterPath(grid, from, to);
+
+    expect(path[0]).toEqual(from);
+    expect(path[path.length - 1]).toEqual(to);
+    expect(path.length).toBeGreaterThan(2);
+    for (let i = 0; i < path.length - 1; i++) {
+      expect(isLegOnWater(grid, path[i], path[i + 1])).toBe(true);
+    }
+  });
+
+  it('joins an end on land to the nearest water', () => {
+    const marina = { lat: 0.19, lon: 0.5 };
+    const path = findWaterPath(grid, from, marina);
+
+    expect(path[path.length - 1]).toEqual(marina);
+    expect(isWater(grid, path[path.length - 2])).toBe(true);
+    expect(path[path.length - 2].lat).toBeGreaterThan(0.19);
+  });
+
+  it('keeps the shore clearance and depth limit closed', () => {
+    const clear = applyShoreClearance(grid, 2000);
+    expect(clear.blocked[0]).toBe(0);
+    expect(isWater(clear, { lat: 0.21, lon: 0.5 })).toBe(true);
+
+    // Within 2 km of the island's north shore
+    const near = { lat: 0.21, lon: 0.5 };
+    const nearCell = Math.floor((near.lat - grid.bounds.south) / grid.cellSize) * grid.cols +
+      Math.floor((near.lon - grid.bounds.west) / grid.cellSize);
+    expect(clear.blocked[nearCell]).toBe(1);
+    expect(grid.blocked[nearCell]).toBe(0);
+
+    // Deep water only north of the equator
+    const deep: GeoJSONFeature = {
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [square(-1, 0.25, 2, 1)] },
+      properties: {},
+    };
+    const path = findWaterPath(applyDepthLimit(grid, [deep]), from, to);
+    expect(path.slice(1, -1).every((point) => point.lat > 0.25)).toBe(true);
+  });
+
+  it('flags legs that cross land, but not land at their ends', () => {
+    expect(legCrossesLand(grid, from, to)).toBe(true);
+    expect(legCrossesLand(grid, from, { lat: 0, lon: 0.3 })).toBe(false);
+    expect(legCrossesLand(grid, from, { lat: 0.1, lon: 0.5 })).toBe(false);
+  });
+
+  it('plans a route on the coarser land data when 10m is not available', async () => {
+    const route = await planSeaRoute({ ...from, name: 'Here' }, { ...to, name: 'Port' }, { averageSpeed: 6 });
+
+    expect(fetchGeoJSON).toHaveBeenCalledWith('land', '10m');
+    expect(fetchGeoJSON).toHaveBeenCalledWith('land', '50m');
+    expect(route.name).toBe('Here to Port');
+    expect(route.waypoints[0]).toMatchObject({ type: 'start', name: 'Here' });
+    expect(route.waypoints[route.waypoints.length - 1]).toMatchObject({ type: 'destination', name: 'Port' });
+    expect(route.waypoints.slice(1, -1).every((wp) => wp.type === 'waypoint')).toBe(true);
+    // Longer than the 60 NM straight line through the island
+    expect(route.totalDistance).toBeGreaterThan(60);
+    expect(route.estimatedTime).toBeCloseTo(route.totalDistance / 6);
+  });
+
+  it('routes the legs that cross land around it', async () => {
+    const waypoints = [
+      { id: 'a', ...from, name: 'A', type: 'start' as const },
+      { id: 'b', lat: 0, lon: 0.3, name: 'B', type: 'waypoint' as const },
+      { id: 'c', ...to, name: 'C', type: 'destination' as const },
+    ];
+
+    expect(await findLandCrossings(waypoints)).toEqual([1]);
+    // Minor islands count as land
+    expect(await findLandCrossings([{ lat: 0.25, lon: 0.225 }, { lat: 0.4, lon: 0.225 }])).toEqual([0]);
+
+    const rerouted = await routeAroundLand(waypoints);
+    expect(rerouted.slice(0, 2)).toEqual(waypoints.slice(0, 2));
+    expect(rerouted[rerouted.length - 1]).toEqual(waypoints[2]);
+    expect(rerouted.length).toBeGreaterThan(3);
+    expect(rerouted[2]).toMatchObject({ name: 'WP2', type: 'waypoint' });
+    expect(await findLandCrossings(rerouted)).toEqual([]);
+  });
+
+  it('does not request missing land again for every leg', async () => {
+    // Long after earlier tests last found it missing
+    const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 24 * 3600000);
+    vi.mocked(fetchGeoJSON).mockClear();
+    await findLandCrossings([from, { lat: 0, lon: 0.3 }, to, { lat: 0.5, lon: 1 }]);
+
+    const requests = vi.mocked(fetchGeoJSON).mock.calls.filter(([layer, resolution]) => layer === 'land' && resolution === '10m');
+    expect(requests).toHaveLength(1);
+    now.mockRestore();
+  });
+});
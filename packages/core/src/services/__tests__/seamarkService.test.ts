@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  aidAppearance,
+  describeAid,
+  describeLight,
+  fetchSeamarkAids,
+  formatLightCharacteristic,
+  formatLightLabel,
+  ialaRegion,
+  parseSeamarkAid,
+  parseSeamarkLights,
+} from '../seamarkService';
+
+vi.mock('../offlinePackStore', () => ({
+  getOfflineAids: vi.fn(async () => null),
+}));
+
+const portBuoy = {
+  id: 42,
+  lat: 43.55,
+  lon: 7.02,
+  tags: {
+    'seamark:type': 'buoy_lateral',
+    'seamark:name': 'Fourmigue',
+    'seamark:buoy_lateral:category': 'port',
+    'seamark:buoy_lateral:colour': 'red',
+    'seamark:buoy_lateral:shape': 'can',
+    'seamark:light:character': 'Fl',
+    'seamark:light:group': '(2)',
+    'seamark:light:colour': 'red',
+    'seamark:light:period': '6',
+    'seamark:light:range': '3',
+  },
+};
+
+describe('seamarkService', () => {
+  describe('parsing', () => {
+    it('parses a lateral buoy with its light', () => {
+      const aid = parseSeamarkAid(portBuoy)!;
+
+      expect(aid).toMatchObject({
+        id: 'osm-42',
+        structure: 'buoy',
+        category: 'lateral',
+        lateral: 'port',
+        name: 'Fourmigue',
+        shape: 'can',
+        colours: ['red'],
+        region: 'A',
+      });
+      expect(aid.lights).toEqual([
+        { character: 'Fl', group: '2', colours: ['red'], period: 6, height: undefined, range: 3, sectorStart: undefined, sectorEnd: undefined },
+      ]);
+    });
+
+    it('parses the sectors of a sectored light', () => {
+      const lights = parseSeamarkLights({
+        'seamark:light:character': 'Oc',
+        'seamark:light:period': '4',
+        'seamark:light:1:colour': 'green',
+        'seamark:light:1:sector_start': '0',
+        'seamark:light:1:sector_end': '90',
+        'seamark:light:2:colour': 'white',
+        'seamark:light:2:sector_start': '90',
+        'seamark:light:2:sector_end': '120',
+        'seamark:light:2:range': '12',
+      });
+
+      expect(lights).toHaveLength(2);
+      expect(lights[0]).toMatchObject({ character: 'Oc', period: 4, colours: ['green'], sectorStart: 0, sectorEnd: 90 });
+      expect(lights[1]).toMatchObject({ character: 'Oc', colours: ['white'], range: 12 });
+      expect(formatLightLabel(lights)).toBe('Oc GW 4s 12M');
+    });
+
+    it('ignores nodes that are neither marks nor lights', () => {
+      expect(parseSeamarkAid({ id: 1, lat: 0, lon: 0, tags: { 'seamark:type': 'rock' } })).toBeNull();
+      expect(parseSeamarkAid({ id: 2, lat: 0, lon: 0, tags: { 'seamark:type': 'landmark', 'seamark:light:character': 'Fl' } }))
+        .toMatchObject({ structure: 'light', category: 'light' });
+    });
+  });
+
+  describe('decoding', () => {
+    it('formats and describes light characteristics', () => {
+      const light = { character: 'Fl', group: '2', colours: ['red'], period: 10, height: 12, range: 5 };
+
+      expect(formatLightCharacteristic(light)).toBe('Fl(2) R 10s 12m 5M');
+      expect(describeLight(light)).toBe('Flashing in groups of 2, red, every 10 s, 12 m high, visible 5 NM');
+      expect(describeLight({ character: 'Mo', group: 'A', colours: ['white'], period: 8 })).toBe(
+        'Morse code (letter A), white, every 8 s'
+      );
+    });
+
+    it('applies the IALA region to lateral marks', () => {
+      expect(ialaRegion(43.5, 7)).toBe('A');
+      expect(ialaRegion(41, -71)).toBe('B');
+      expect(ialaRegion(35, 139.7)).toBe('B');
+      expect(ialaRegion(64, -40)).toBe('A');
+
+      const untagged = parseSeamarkAid({
+        id: 7,
+        lat: 41,
+        lon: -71,
+        tags: { 'seamark:type': 'buoy_lateral', 'seamark:buoy_lateral:category': 'port' },
+      })!;
+      expect(untagged.region).toBe('B');
+      expect(aidAppearance(untagged)).toMatchObject({ shape: 'can', colours: ['green'], topmark: { shape: 'cylinder' } });
+      expect(describeAid(untagged).meaning).toContain('IALA B: green');
+    });
+
+    it('shapes and colours preferred channel marks by their side and region', () => {
+      const mark = (category: string, lat: number, lon: number) =>
+        parseSeamarkAid({
+          id: 9,
+          lat,
+          lon,
+          tags: { 'seamark:type': 'buoy_lateral', 'seamark:buoy_lateral:category': category },
+        })!;
+
+      // Preferred channel to starboard: modified port-hand mark
+      const starboardA = mark('preferred_channel_starboard', 43.5, 7);
+      expect(describeAid(starboardA).title).toBe('Preferred channel to starboard buoy');
+      expect(aidAppearance(starboardA)).toMatchObject({
+        shape: 'can',
+        colours: ['red', 'green', 'red'],
+        topmark: { shape: 'cylinder', colours: ['red'] },
+      });
+      expect(aidAppearance(mark('preferred_channel_starboard', 41, -71))).toMatchObject({
+        shape: 'can',
+        colours: ['green', 'red', 'green'],
+        topmark: { shape: 'cylinder', colours: ['green'] },
+      });
+
+      // Preferred channel to port: modified starboard-hand mark
+      const portA = mark('preferred_channel_port', 43.5, 7);
+      expect(describeAid(portA).title).toBe('Preferred channel to port buoy');
+      expect(aidAppearance(portA)).toMatchObject({
+        shape: 'conical',
+        colours: ['green', 'red', 'green'],
+        topmark: { shape: 'cone, point up', colours: ['green'] },
+      });
+      expect(aidAppearance(mark('preferred_channel_port', 41, -71))).toMatchObject({
+        shape: 'conical',
+        colours: ['red', 'green', 'red'],
+        topmark: { shape: 'cone, point up', colours: ['red'] },
+      });
+    });
+
+    it('describes cardinal marks', () => {
+      const aid = parseSeamarkAid({
+        id: 8,
+        lat: 43.5,
+        lon: 7,
+        tags: { 'seamark:type': 'buoy_cardinal', 'seamark:buoy_cardinal:category': 'west' },
+      })!;
+
+      expect(describeAid(aid).title).toBe('West cardinal buoy');
+      expect(aidAppearance(aid)).toMatchObject({
+        colours: ['yellow', 'black', 'yellow'],
+        topmark: { shape: '2 cones point together' },
+      });
+    });
+  });
+
+  describe('fetching', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+      storage = {};
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage[key] ?? null,
+        setItem: (key: string, value: string) => {
+          storage[key] = value;
+        },
+      });
+    });
+
+    it('caches fetched aids and serves them when offline', async () => {
+      const bounds = { north: 43.58, south: 43.52, east: 7.08, west: 7.01 };
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ elements: [portBuoy] })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await fetchSeamarkAids(bounds)).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      // A nearby view in the same snapped area comes from the cache
+      expect(await fetchSeamarkAids({ ...bounds, north: 43.57 })).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      // Expired, and the network is down: the stale entry still serves
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      fetchMock.mockRejectedValue(new Error('offline'));
+      expect(await fetchSeamarkAids(bounds)).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      vi.restoreAllMocks();
+    });
+  });
+});
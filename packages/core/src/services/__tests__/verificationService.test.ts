@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ForecastVerificationService,
+  computeVerificationScores,
+  selectPreferredModel,
+  snapshotFromHourly,
+} from '../verificationService';
+import type { ForecastSnapshot, Observation, VerificationScore } from '../verificationService';
+
+const cache = new Map<string, unknown>();
+
+vi.mock('../cacheService', () => ({
+  cacheService: {
+    get: vi.fn(async (key: string) => cache.get(key) ?? null),
+    set: vi.fn(async (key: string, data: unknown) => {
+      cache.set(key, data);
+    }),
+    delete: vi.fn(async (key: string) => {
+      cache.delete(key);
+    }),
+  },
+}));
+
+const hourlyTimes = (from: string, hours: number) =>
+  Array.from({ length: hours }, (_, i) => new Date(Date.parse(from) + i * 3600000).toISOString());
+
+describe('computeVerificationScores', () => {
+  const icon: ForecastSnapshot = {
+    model: 'icon_seamless',
+    source: 'weather',
+    issuedAt: '2026-06-01T00:00:00.000Z',
+    times: hourlyTimes('2026-06-01T00:00:00Z', 13),
+    values: {
+      windSpeed: Array.from({ length: 13 }, (_, i) => 10 + i),
+      windDirection: Array.from({ length: 13 }, () => 350),
+    },
+  };
+  const ecmwf: ForecastSnapshot = {
+    model: 'ecmwf_ifs',
+    source: 'weather',
+    issuedAt: '2026-06-01T06:00:00.000Z',
+    times: hourlyTimes('2026-06-01T06:00:00Z', 7),
+    values: { windSpeed: Array.from({ length: 7 }, () => 24) },
+  };
+
+  it('should score forecasts per model, variable and lead time', () => {
+    const observations: Observation[] = [
+      { time: '2026-06-01T03:30:00.000Z', source: 'instrument', values: { windSpeed: 12, windDirection: 10 } },
+      { time: '2026-06-01T08:00:00.000Z', source: 'manual', values: { windSpeed: 25, waveHeight: 1 } },
+      // The API's analysis verifies every model, not just its own
+      { time: '2026-06-01T08:00:00.000Z', source: 'api', model: 'gfs', values: { windSpeed: 39 } },
+    ];
+
+    const scores = computeVerificationScores([icon, ecmwf], observations);
+    const score = (model: string, variable: string, leadFrom: number) =>
+      scores.find((s) => s.model === model && s.variable === variable && s.leadFrom === leadFrom);
+
+    expect(scores).toHaveLength(4);
+    // Interpolated to 13.5 km/h at 03:30
+    expect(score('icon_seamless', 'windSpeed', 0)).toMatchObject({ leadTo: 6, count: 1, bias: 1.5, rmse: 1.5 });
+    expect(score('icon_seamless', 'windSpeed', 6)).toMatchObject({ leadTo: 12, count: 2, bias: -14, rmse: Math.sqrt(245) });
+    // 350° forecast against 10° observed is 20° backed, not 340°
+    expect(score('icon_seamless', 'windDirection', 0)).toMatchObject({ bias: -20, rmse: 20 });
+    // Issued after the first observation, so only the second is a forecast
+    expect(score('ecmwf_ifs', 'windSpeed', 0)).toMatchObject({ count: 2, bias: -8 });
+  });
+});
+
+describe('selectPreferredModel', () => {
+  const score = (model: string, count: number, rmse: number): VerificationScore => ({
+    model, variable: 'windSpeed', leadFrom: 0, leadTo: 6, count, bias: 0, rmse,
+  });
+
+  it('should prefer the lowest error among models with enough samples', () => {
+    const scores = [
+      score('icon_seamless', 8, 2),
+      { ...score('icon_seamless', 6, 3), leadFrom: 6, leadTo: 12 },
+      score('ecmwf_ifs', 20, 2.6),
+      score('gfs', 5, 0.5),
+    ];
+
+    expect(selectPreferredModel(scores, 'weather')).toBe('icon_seamless');
+    expect(selectPreferredModel(scores, 'marine')).toBeNull();
+  });
+
+  it('should only compare models with comparable sample counts', () => {
+    // Alone, a model has nothing to beat
+    expect(selectPreferredModel([score('icon_seamless', 30, 2)], 'weather')).toBeNull();
+    // A dozen pairs against a hundred is not a fair comparison
+    expect(selectPreferredModel([score('icon_seamless', 100, 2), score('gfs', 12, 0.5)], 'weather')).toBeNull();
+    expect(selectPreferredModel([score('icon_seamless', 100, 2), score('gfs', 50, 0.5)], 'weather')).toBe('gfs');
+  });
+});
+
+describe('ForecastVerificationService', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    cache.clear();
+    storage = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage[key] ?? null,
+      setItem: (key: string, value: string) => {
+        storage[key] = value;
+      },
+    });
+  });
+
+  const snapshot = (model = 'icon_seamless', windSpeed = [5, 10, 20, 30, 40]) =>
+    snapshotFromHourly(
+      model,
+      'weather',
+      {
+        // Local times at UTC+2
+        time: ['2026-06-01T00:00', '2026-06-01T02:00', '2026-06-01T03:00', '2026-06-01T04:00', '2026-06-01T05:00'],
+        wind_speed_10m: windSpeed,
+        wave_height: [1, 1, 1, 1, 1],
+      } as { time: string[] },
+      7200,
+      new Date('2026-06-01T00:30:00Z')
+    );
+
+  it('should convert local response times and keep only the forecast ahead', () => {
+    expect(snapshot()).toMatchObject({
+      times: ['2026-06-01T00:00:00.000Z', '2026-06-01T01:00:00.000Z', '2026-06-01T02:00:00.000Z', '2026-06-01T03:00:00.000Z'],
+      values: { windSpeed: [10, 20, 30, 40] },
+    });
+    expect(snapshot().values.waveHeight).toBeUndefined();
+  });
+
+  it('should verify stored forecasts against nearby observations', async () => {
+    const service = new ForecastVerificationService();
+    await service.recordForecast(43.5, 7, [snapshot(), snapshot('gfs', [5, 15, 15, 15, 15])], 'Nice');
+
+    const observe = (time: string, windSpeed: number, source: Observation['source'] = 'instrument') =>
+      service.recordObservation(43.51, 7.01, { time, source, values: { windSpeed } });
+
+    expect(await observe('2026-06-01T02:00:00.000Z', 33)).toBe(true);
+    // Throttled, and too far from any forecast location
+    expect(await observe('2026-06-01T02:10:00.000Z', 33)).toBe(false);
+    expect(await service.recordObservation(45, 7, { time: '2026-06-01T02:00:00.000Z', source: 'manual', values: { windSpeed: 1 } })).toBe(false);
+
+    const summary = (await new ForecastVerificationService().getSummary(43.5, 7))!;
+    expect(summary).toMatchObject({ location: { name: 'Nice' }, snapshotCount: 2, observationCount: 1, preferred: {} });
+    expect(summary.scores).toEqual([
+      { model: 'icon_seamless', variable: 'windSpeed', leadFrom: 0, leadTo: 6, count: 1, bias: -3, rmse: 3 },
+      { model: 'gfs', variable: 'windSpeed', leadFrom: 0, leadTo: 6, count: 1, bias: -18, rmse: 18 },
+    ]);
+    expect(service.getPreferredModel(43.5, 7, 'weather')).toBeNull();
+
+    for (let i = 0; i < 11; i++) {
+      await observe('2026-06-01T01:00:00.000Z', 21, 'manual');
+    }
+    expect(service.getPreferredModel(43.52, 7, 'weather')).toBe('icon_seamless');
+    expect(service.getPreferredModel(43.52, 7, 'marine')).toBeNull();
+    expect(service.getPreferredModel(45, 7, 'weather')).toBeNull();
+  });
+
+  it('should ignore unreadable saved preferences', () => {
+    storage.forecastModelPreferences = '{"43.50:7.00":';
+    expect(new ForecastVerificationService().getPreferredModel(43.5, 7, 'weather')).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { computeWeatherRoute } from '../weatherRoutingService';
+import { sampleMarineGridForecast } from '../marineGridService';
+import type { MarineGridForecast, MarineGridPoint } from '../marineGridService';
+import { createLandMask } from '../../utils/geometry';
+import { getPolarBoatSpeed } from '../../utils/polar';
+import type { GeoJSONCollection } from '../geojsonService';
+import type { VesselPolar } from '../../types/navigation';
+
+const KNOTS_TO_KMH = 1.852;
+
+const polar: VesselPolar = {
+  name: 'Test 35',
+  twa: [40, 60, 90, 120, 150, 180],
+  tws: [6, 10, 16, 25],
+  boatSpeed: [
+    [3.8, 5.2, 6.0, 6.2],
+    [4.6, 6.2, 7.0, 7.2],
+    [5.0, 6.8, 7.6, 8.0],
+    [4.8, 6.6, 7.8, 8.4],
+    [4.0, 5.8, 7.2, 8.2],
+    [3.2, 4.8, 6.4, 7.6],
+  ],
+};
+
+/**
+ * Uniform-wind forecast over a box, with frames every hour
+ */
+const createForecast = (
+  windSpeedKnots: number,
+  windDirection: number,
+  hours = 48,
+  extra: Partial<MarineGridPoint> = {}
+): MarineGridForecast => {
+  const bounds = { north: 38, south: 34, east: 24, west: 18 };
+  const resolution = { latPoints: 5, lngPoints: 7 };
+  const windSpeed = windSpeedKnots * KNOTS_TO_KMH;
+  const radians = ((270 - windDirection) * Math.PI) / 180;
+
+  const frame: MarineGridPoint[] = [];
+  for (let i = 0; i < resolution.latPoints; i++) {
+    for (let j = 0; j < resolution.lngPoints; j++) {
+      frame.push({
+        lat: bounds.north - i,
+        lng: bounds.west + j,
+        windSpeed,
+        windDirection,
+        windU: windSpeed * Math.cos(radians),
+        windV: windSpeed * Math.sin(radians),
+        waveHeight: 1.2,
+        ...extra,
+      });
+    }
+  }
+
+  const start = Date.UTC(2024, 5, 1, 0);
+  return {
+    bounds,
+    resolution,
+    times: Array.from({ length: hours }, (_, h) => new Date(start + h * 3600000).toISOString()),
+    frames: Array.from({ length: hours }, () => frame),
+  };
+};
+
+const departureTime = new Date(Date.UTC(2024, 5, 1, 0));
+
+describe('sampleMarineGridForecast', () => {
+  it('should interpolate linearly between forecast hours', () => {
+    const forecast = createForecast(10, 0, 2);
+    forecast.frames[1] = forecast.frames[1].map((p) => ({ ...p, waveHeight: 3.2 }));
+
+    const sample = sampleMarineGridForecast(forecast, 36.5, 20.5, new Date(Date.UTC(2024, 5, 1, 0, 30)));
+    expect(sample?.waveHeight).toBeCloseTo(2.2, 5);
+    expect(sample?.windSpeed).toBeCloseTo(10 * KNOTS_TO_KMH, 5);
+    expect(sample?.windDirection).toBeCloseTo(0, 5);
+  });
+
+  it('should return null outside the grid', () => {
+    const forecast = createForecast(10, 0);
+    expect(sampleMarineGridForecast(forecast, 40, 20, departureTime)).toBeNull();
+  });
+});
+
+describe('computeWeatherRoute', () => {
+  it('should sail a beam reach straight to the destination', () => {
+    const forecast = createForecast(16, 0);
+    const { route, arrivalTime } = computeWeatherRoute({
+      start: { lat: 36, lon: 19, name: 'A' },
+      destination: { lat: 36, lon: 19.62, name: 'B' },
+      departureTime,
+      polar,
+      forecast,
+    });
+
+    const expectedHours = route.totalDistance / getPolarBoatSpeed(polar, 90, 16);
+    expect(route.estimatedTime).toBeCloseTo(expectedHours, 0);
+    expect(arrivalTime.getTime()).toBeGreaterThan(departureTime.getTime());
+    expect(route.waypoints[0].type).toBe('start');
+    expect(route.waypoints[route.waypoints.length - 1].type).toBe('destination');
+    expect(route.legs?.length).toBe(route.waypoints.length - 1);
+    route.legs?.forEach((leg) => {
+      expect(leg.trueWindSpeed).toBeCloseTo(16, 5);
+      expect(leg.waveHeight).toBeCloseTo(1.2, 5);
+    });
+  });
+
+  it('should tack towards an upwind destination', () => {
+    const forecast = createForecast(16, 0);
+    const { route } = computeWeatherRoute({
+      start: { lat: 35, lon: 21, name: 'A' },
+      destination: { lat: 35.4, lon: 21, name: 'B' },
+      departureTime,
+      polar,
+      forecast,
+    });
+
+    // No leg sails inside the no-go zone
+    route.legs?.forEach((leg) => {
+      expect(leg.trueWindAngle).toBeGreaterThanOrEqual(polar.twa[0]);
+    });
+
+    // Beating sails further than the rhumb line
+    expect(route.totalDistance).toBeGreaterThan(24);
+    expect(route.waypoints.some((wp) => Math.abs(wp.lon - 21) > 0.05)).toBe(true);
+    expect(route.waypoints[route.waypoints.length - 1].timestamp!.getTime()).toBeGreaterThan(
+      departureTime.getTime() + 4 * 3600000
+    );
+  });
+
+  it('should route around land', () => {
+    const island: GeoJSONCollection = {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: {
+            type: 'Polygon',
+            coordinates: [[[20.3, 35.8], [20.7, 35.8], [20.7, 36.2], [20.3, 36.2], [20.3, 35.8]]],
+          },
+        },
+      ],
+    };
+    const landMask = createLandMask(island);
+    expect(landMask.isLand(36, 20.5)).toBe(true);
+    expect(landMask.isLand(36, 21)).toBe(false);
+
+    const { route } = computeWeatherRoute({
+      start: { lat: 36, lon: 20, name: 'A' },
+      destination: { lat: 36, lon: 21, name: 'B' },
+      departureTime,
+      polar,
+      forecast: createForecast(16, 0),
+      landMask,
+    });
+
+    for (let i = 1; i < route.waypoints.length; i++) {
+      expect(landMask.segmentCrossesLand(route.waypoints[i - 1], route.waypoints[i])).toBe(false);
+    }
+  });
+
+  it('should add a favourable current to speed over ground', () => {
+    const still = computeWeatherRoute({
+      start: { lat: 36, lon: 19, name: 'A' },
+      destination: { lat: 36, lon: 20, name: 'B' },
+      departureTime,
+      polar,
+      forecast: createForecast(16, 0),
+    });
+    const withCurrent = computeWeatherRoute({
+      start: { lat: 36, lon: 19, name: 'A' },
+      destination: { lat: 36, lon: 20, name: 'B' },
+      departureTime,
+      polar,
+      forecast: createForecast(16, 0, 48, { currentSpeed: 2 * KNOTS_TO_KMH, currentDirection: 90 }),
+    });
+
+    expect(withCurrent.route.estimatedTime).toBeLessThan(still.route.estimatedTime);
+  });
+
+  it('should throw when the destination cannot be reached in time', () => {
+    expect(() =>
+      computeWeatherRoute({
+        start: { lat: 35, lon: 19, name: 'A' },
+        destination: { lat: 37, lon: 23, name: 'B' },
+        departureTime,
+        polar,
+        forecast: createForecast(16, 0),
+        maxDurationHours: 3,
+      })
+    ).toThrow('No weather route found');
+  });
+});
@@ -216,6 +216,16 @@ describe('weatherService', () => {
       expect(data.general.moonIllumination).toBeLessThanOrEqual(100);
     });
 
+    it('should give moon and twilight times in the location wall-clock time', async () => {
+      const data = await fetchMarineWeather(32.0853, 34.7818);
+      const wallClock = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+      for (const time of [data.general.moonrise, data.general.moonset, data.general.twilight?.nauticalDawn]) {
+        if (time) expect(time).toMatch(wallClock);
+      }
+      expect(data.general.twilight?.civilDusk).toMatch(wallClock);
+    });
+
     it('should handle API errors gracefully', async () => {
       global.fetch = vi.fn(() => Promise.reject(new Error('Network error'))) as any;
 
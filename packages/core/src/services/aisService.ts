@@ -0,0 +1,312 @@
+/**
+ * AIS TARGET TRACKING
+ * Maintains a live table of nearby vessels from AIVDM reports, ages out silent
+ * targets and warns when a target's closest point of approach (CPA) falls
+ * inside the configured limits.
+ */
+
+import type { AisConfig, AisTarget, InstrumentData, NavigationAlert, NavigationState } from '../types/navigation';
+import { AisFragmentAssembler, isAisPositionReport } from '../utils/ais';
+import type { AisMessage } from '../utils/ais';
+import { NAVIGATION_CONSTANTS } from '../constants';
+import type { InstrumentFeed } from './instrumentService';
+
+export interface VesselMotion {
+  lat: number;
+  lon: number;
+  course: number; // degrees true
+  speed: number; // knots
+}
+
+/**
+ * Closest point of approach between two vessels on steady courses
+ *
+ * Uses a local flat-earth projection, accurate for the few-mile ranges AIS
+ * collision warnings work at.
+ *
+ * @returns CPA distance (nautical miles) and time to CPA (minutes, negative if already passed)
+ */
+export const calculateCPA = (own: VesselMotion, target: VesselMotion): { cpa: number; tcpa: number } => {
+  const midLat = ((own.lat + target.lat) / 2) * (Math.PI / 180);
+
+  // Relative position (NM) and velocity (knots), x east / y north
+  const dx = (target.lon - own.lon) * 60 * Math.cos(midLat);
+  const dy = (target.lat - own.lat) * 60;
+
+  const toRad = Math.PI / 180;
+  const dvx = target.speed * Math.sin(target.course * toRad) - own.speed * Math.sin(own.course * toRad);
+  const dvy = target.speed * Math.cos(target.course * toRad) - own.speed * Math.cos(own.course * toRad);
+
+  const relativeSpeedSq = dvx * dvx + dvy * dvy;
+  if (relativeSpeedSq < 1e-9) {
+    // Same velocity: the range never changes
+    return { cpa: Math.sqrt(dx * dx + dy * dy), tcpa: 0 };
+  }
+
+  const tcpaHours = -(dx * dvx + dy * dvy) / relativeSpeedSq;
+  const cx = dx + dvx * tcpaHours;
+  const cy = dy + dvy * tcpaHours;
+
+  return { cpa: Math.sqrt(cx * cx + cy * cy), tcpa: tcpaHours * 60 };
+};
+
+class AisTracker {
+  private targets: Map<number, AisTarget> = new Map();
+  private assembler = new AisFragmentAssembler();
+  private ownVessel: VesselMotion | null = null;
+  private ownMmsi: number | null = null;
+  private config: AisConfig;
+  private listeners: Map<string, Set<Function>> = new Map();
+  private feed: InstrumentFeed | null = null;
+  private ageTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config?: Partial<AisConfig>) {
+    this.config = {
+      cpaThresholdNM: NAVIGATION_CONSTANTS.AIS.CPA_THRESHOLD_NM,
+      tcpaThresholdMinutes: NAVIGATION_CONSTANTS.AIS.TCPA_THRESHOLD_MINUTES,
+      lostAfterMs: NAVIGATION_CONSTANTS.AIS.LOST_AFTER_MS,
+      removeAfterMs: NAVIGATION_CONSTANTS.AIS.REMOVE_AFTER_MS,
+      ...config,
+    };
+  }
+
+  /**
+   * Read AIS sentences and own position from an instrument feed, aging
+   * silent targets while it is attached
+   */
+  attach(feed: InstrumentFeed): void {
+    this.detach();
+    this.feed = feed;
+    feed.on('line', this.handleLine);
+    feed.on('position', this.handleOwnPosition);
+    this.ageTimer = setInterval(() => this.age(), NAVIGATION_CONSTANTS.AIS.AGE_INTERVAL_MS);
+  }
+
+  detach(): void {
+    if (this.feed) {
+      this.feed.off('line', this.handleLine);
+      this.feed.off('position', this.handleOwnPosition);
+      this.feed = null;
+    }
+    if (this.ageTimer) {
+      clearInterval(this.ageTimer);
+      this.ageTimer = null;
+    }
+  }
+
+  updateConfig(config: Partial<AisConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.evaluateAll();
+  }
+
+  getConfig(): AisConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Feed one !AIVDM/!AIVDO sentence; other lines are ignored
+   *
+   * @returns the updated target, if the sentence completed a message about another vessel
+   */
+  ingest(line: string, now: Date = new Date()): AisTarget | null {
+    if (!/^\s*!..VD[MO],/.test(line)) return null;
+
+    let decoded;
+    try {
+      decoded = this.assembler.add(line, now.getTime());
+    } catch (error) {
+      this.emit('error', error);
+      return null;
+    }
+    if (!decoded) return null;
+
+    if (decoded.own) {
+      this.ownMmsi = decoded.message.mmsi;
+      return null;
+    }
+    if (decoded.message.mmsi === this.ownMmsi) return null;
+
+    const target = this.applyMessage(decoded.message, now);
+    this.evaluate(target);
+    this.emit('targetUpdate', { ...target });
+    return { ...target };
+  }
+
+  /**
+   * Update own position and motion from navigation, then re-check every target
+   */
+  updateOwnVessel(state: Pick<NavigationState, 'currentPosition' | 'heading' | 'speed'>): void {
+    this.ownVessel = {
+      lat: state.currentPosition.lat,
+      lon: state.currentPosition.lon,
+      course: state.heading,
+      speed: state.speed,
+    };
+    this.evaluateAll();
+  }
+
+  /**
+   * Mark silent targets lost and drop long-silent ones
+   */
+  age(now: Date = new Date()): void {
+    let changed = false;
+
+    for (const [mmsi, target] of this.targets) {
+      const silentMs = now.getTime() - target.lastSeen.getTime();
+      if (silentMs > this.config.removeAfterMs) {
+        this.targets.delete(mmsi);
+        changed = true;
+      } else if (silentMs > this.config.lostAfterMs && target.status === 'active') {
+        target.status = 'lost';
+        target.dangerous = false;
+        changed = true;
+      }
+    }
+
+    if (changed) this.emit('targetsChanged', this.getTargets());
+  }
+
+  /**
+   * Current targets, most urgent first
+   */
+  getTargets(): AisTarget[] {
+    return [...this.targets.values()]
+      .map((target) => ({ ...target }))
+      .sort((a, b) => {
+        if (a.dangerous !== b.dangerous) return a.dangerous ? -1 : 1;
+        return (a.cpa ?? Infinity) - (b.cpa ?? Infinity);
+      });
+  }
+
+  getTarget(mmsi: number): AisTarget | undefined {
+    const target = this.targets.get(mmsi);
+    return target ? { ...target } : undefined;
+  }
+
+  clear(): void {
+    this.targets.clear();
+    this.emit('targetsChanged', []);
+  }
+
+  private handleLine = (line: string): void => {
+    this.ingest(line);
+  };
+
+  private handleOwnPosition = (data: InstrumentData): void => {
+    if (!data.position) return;
+    this.updateOwnVessel({
+      currentPosition: data.position,
+      heading: data.courseOverGround ?? data.heading ?? 0,
+      speed: data.speedOverGround ?? 0,
+    });
+  };
+
+  private applyMessage(message: AisMessage, now: Date): AisTarget {
+    const target: AisTarget = this.targets.get(message.mmsi) ?? {
+      mmsi: message.mmsi,
+      class: message.class,
+      lastSeen: now,
+      status: 'active',
+      dangerous: false,
+    };
+
+    target.lastSeen = now;
+    target.status = 'active';
+    target.class = message.class;
+
+    if (isAisPositionReport(message)) {
+      const report = message;
+      if (report.lat !== undefined && report.lon !== undefined) {
+        target.lat = report.lat;
+        target.lon = report.lon;
+        target.lastPosition = now;
+      }
+      target.speedOverGround = report.speedOverGround;
+      target.courseOverGround = report.courseOverGround;
+      target.heading = report.heading;
+      if (report.navStatus !== undefined) target.navStatus = report.navStatus;
+    }
+
+    if ('name' in message && message.name) target.name = message.name;
+    if ('shipType' in message && message.shipType) target.shipType = message.shipType;
+    if ('callsign' in message && message.callsign) target.callsign = message.callsign;
+    if ('imo' in message && message.imo) target.imo = message.imo;
+    if ('destination' in message && message.destination) target.destination = message.destination;
+    if ('draught' in message && message.draught) target.draught = message.draught;
+    if (message.dimensions) {
+      target.length = message.dimensions.toBow + message.dimensions.toStern;
+      target.beam = message.dimensions.toPort + message.dimensions.toStarboard;
+    }
+
+    this.targets.set(message.mmsi, target);
+    return target;
+  }
+
+  private evaluateAll(): void {
+    this.targets.forEach((target) => this.evaluate(target));
+    this.emit('targetsChanged', this.getTargets());
+  }
+
+  /**
+   * Recompute CPA/TCPA for one target; alert when it first becomes dangerous
+   */
+  private evaluate(target: AisTarget): void {
+    if (!this.ownVessel || target.lat === undefined || target.lon === undefined || target.status === 'lost') {
+      target.cpa = undefined;
+      target.tcpa = undefined;
+      target.dangerous = false;
+      return;
+    }
+
+    const { cpa, tcpa } = calculateCPA(this.ownVessel, {
+      lat: target.lat,
+      lon: target.lon,
+      course: target.courseOverGround ?? target.heading ?? 0,
+      speed: target.speedOverGround ?? 0,
+    });
+
+    const wasDangerous = target.dangerous;
+    target.cpa = cpa;
+    target.tcpa = tcpa;
+    target.dangerous =
+      cpa <= this.config.cpaThresholdNM && tcpa >= 0 && tcpa <= this.config.tcpaThresholdMinutes;
+
+    if (target.dangerous && !wasDangerous) {
+      const alert: NavigationAlert = {
+        type: 'collision-risk',
+        message: `Collision risk: ${target.name || `MMSI ${target.mmsi}`} - CPA ${cpa.toFixed(2)} NM in ${Math.round(tcpa)} min`,
+        severity: 'error',
+        timestamp: new Date(),
+      };
+      this.emit('alert', alert);
+    }
+  }
+
+  /**
+   * Event listener management (several listeners per event)
+   */
+  on(event: string, callback: Function): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback?: Function): void {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  private emit(event: string, data: any): void {
+    this.listeners.get(event)?.forEach((callback) => callback(data));
+  }
+}
+
+// Export singleton instance
+export const aisTracker = new AisTracker();
+
+// Export class for custom instances
+export { AisTracker };
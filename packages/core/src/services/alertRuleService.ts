@@ -0,0 +1,540 @@
+/**
+ * ALERT RULE SERVICE
+ * User-defined alert rules evaluated against the hourly forecast
+ *
+ * A rule combines conditions on one saved location ("wind 12-20 kt from
+ * 200-250° AND waves under 1 m AND daylight"). Every forecast hour is checked
+ * and consecutive matching hours form a window; a notification is raised once
+ * per window. Windows open when all conditions hold and only close once a
+ * condition misses by more than its hysteresis margin, so a forecast hovering
+ * around a limit does not split into many short windows. During quiet hours
+ * notifications are still recorded but flagged so no system notification is
+ * shown; the first evaluation after quiet hours releases the ones still unread
+ * and upcoming.
+ *
+ * Rules and notification state live in the state store so the service worker
+ * evaluates the same rules in the background without notifying a window twice.
+ * Evaluations hold a Web Lock, so the page and the service worker never update
+ * that state at the same time.
+ */
+
+import type { MarineWeatherData } from '../types';
+import { fetchMarineWeather } from './weatherService';
+import { stateStore } from './stateStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AlertMetric =
+  | 'windSpeed'
+  | 'windGusts'
+  | 'windDirection'
+  | 'waveHeight'
+  | 'wavePeriod'
+  | 'swellHeight'
+  | 'swellPeriod'
+  | 'swellDirection'
+  | 'pressure'
+  | 'seaTemperature'
+  | 'daylight';
+
+/**
+ * One condition of a rule, in canonical units (km/h, m, s, hPa, °C)
+ *
+ * For directions min/max describe a clockwise sector (from min to max) and may
+ * wrap through north, e.g. 330-30. Daylight takes no bounds.
+ */
+export interface AlertCondition {
+  metric: AlertMetric;
+  min?: number;
+  max?: number;
+}
+
+export interface AlertLocation {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  location: AlertLocation;
+  /** All conditions must hold */
+  conditions: AlertCondition[];
+  /** Shortest window worth a notification */
+  minDurationHours: number;
+  createdAt: string;
+}
+
+/**
+ * Run of consecutive forecast hours matching a rule
+ */
+export interface AlertMatchWindow {
+  /** Forecast times (as delivered by the API) of the first and last matching hour */
+  start: string;
+  end: string;
+  hours: number;
+}
+
+/** Notifications are held back between start and end (local hours, may wrap midnight) */
+export interface QuietHours {
+  enabled: boolean;
+  start: number;
+  end: number;
+}
+
+export interface AlertSettings {
+  quietHours: QuietHours;
+}
+
+export interface AlertNotification extends AlertMatchWindow {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  locationName: string;
+  /** Location of the rule, for deep links */
+  location: AlertLocation;
+  createdAt: string;
+  read: boolean;
+  /** Raised during quiet hours: listed in the app, no system notification */
+  quiet: boolean;
+}
+
+export type StarterActivity = 'sailing' | 'surfing' | 'kite' | 'beach';
+
+/**
+ * Window already notified for a rule
+ */
+interface NotifiedWindow extends AlertMatchWindow {
+  /** Id of the notification held back during quiet hours */
+  held?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const RULES_KEY = 'alertRules';
+const SETTINGS_KEY = 'alertSettings';
+const NOTIFICATIONS_KEY = 'alertNotifications';
+const NOTIFIED_KEY = 'alertNotifiedWindows';
+const MAX_NOTIFICATIONS = 50;
+const LOCK_NAME = 'seame-alert-engine';
+
+/** How far a value may drift past a limit before an open window closes */
+export const ALERT_HYSTERESIS: Record<Exclude<AlertMetric, 'daylight'>, number> = {
+  windSpeed: 3, // km/h
+  windGusts: 3, // km/h
+  windDirection: 10, // degrees
+  waveHeight: 0.1, // m
+  wavePeriod: 1, // s
+  swellHeight: 0.1, // m
+  swellPeriod: 1, // s
+  swellDirection: 10, // degrees
+  pressure: 1, // hPa
+  seaTemperature: 0.5, // °C
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  quietHours: { enabled: true, start: 22, end: 7 },
+};
+
+const HOURLY_FIELDS: Record<Exclude<AlertMetric, 'daylight'>, keyof MarineWeatherData['hourly']> = {
+  windSpeed: 'wind_speed_10m',
+  windGusts: 'wind_gusts_10m',
+  windDirection: 'wind_direction_10m',
+  waveHeight: 'wave_height',
+  wavePeriod: 'wave_period',
+  swellHeight: 'swell_wave_height',
+  swellPeriod: 'swell_wave_period',
+  swellDirection: 'swell_wave_direction',
+  pressure: 'pressure_msl',
+  seaTemperature: 'sea_surface_temperature',
+};
+
+// ============================================
+// EVALUATION
+// ============================================
+
+const isDirection = (metric: AlertMetric): boolean => metric === 'windDirection' || metric === 'swellDirection';
+
+/**
+ * Instant of a forecast time in ms
+ * Forecast times are local to the location and carry no offset; the API
+ * reports the offset alongside. Forecasts without it are read in the device's
+ * time zone.
+ */
+export function forecastTimestamp(data: MarineWeatherData, time: string): number {
+  if (data.utc_offset_seconds === undefined) return new Date(time).getTime();
+  return Date.parse(`${time}Z`) - data.utc_offset_seconds * 1000;
+}
+
+/**
+ * Whether a forecast hour falls between sunrise and sunset of its day
+ * Forecast times and sun times share the location's time zone, so the local
+ * timestamps compare directly.
+ */
+export function isDaylightHour(data: MarineWeatherData, hourIndex: number): boolean {
+  const time = data.hourly.time[hourIndex];
+  const day = data.daily?.time?.indexOf(time.slice(0, 10)) ?? -1;
+  if (day < 0) return false;
+  const sunrise = data.daily.sunrise[day];
+  const sunset = data.daily.sunset[day];
+  return Boolean(sunrise && sunset) && time >= sunrise && time < sunset;
+}
+
+const inSector = (direction: number, from: number, to: number, margin: number): boolean => {
+  const width = (((to - from) % 360) + 360) % 360;
+  const offset = (((direction - from + margin) % 360) + 360) % 360;
+  return offset <= width + 2 * margin;
+};
+
+/**
+ * Check one condition for a forecast hour
+ *
+ * @param relaxed - Widen the bounds by the hysteresis margin
+ */
+export function conditionHolds(
+  condition: AlertCondition,
+  data: MarineWeatherData,
+  hourIndex: number,
+  relaxed = false
+): boolean {
+  if (condition.metric === 'daylight') return isDaylightHour(data, hourIndex);
+
+  const series = data.hourly[HOURLY_FIELDS[condition.metric]] as number[] | undefined;
+  const value = series?.[hourIndex];
+  if (value === null || value === undefined || !isFinite(value)) return false;
+
+  const margin = relaxed ? ALERT_HYSTERESIS[condition.metric] : 0;
+  if (isDirection(condition.metric)) {
+    if (condition.min === undefined || condition.max === undefined) return true;
+    return inSector(value, condition.min, condition.max, margin);
+  }
+  if (condition.min !== undefined && value < condition.min - margin) return false;
+  if (condition.max !== undefined && value > condition.max + margin) return false;
+  return true;
+}
+
+/**
+ * Find the upcoming windows where a rule matches
+ *
+ * @param now - Hours before this time are ignored
+ */
+export function findMatchWindows(rule: AlertRule, data: MarineWeatherData, now: Date = new Date()): AlertMatchWindow[] {
+  const times = data.hourly?.time ?? [];
+  const windows: AlertMatchWindow[] = [];
+  if (rule.conditions.length === 0) return windows;
+
+  const holds = (i: number, relaxed: boolean) =>
+    rule.conditions.every((condition) => conditionHolds(condition, data, i, relaxed));
+
+  // Start of the hour, so the current hour still counts
+  const from = now.getTime() - 3600000;
+  let open: AlertMatchWindow | null = null;
+  times.forEach((time, i) => {
+    if (forecastTimestamp(data, time) <= from) return;
+    if (open ? holds(i, true) : holds(i, false)) {
+      if (open) {
+        open.end = time;
+        open.hours++;
+      } else {
+        open = { start: time, end: time, hours: 1 };
+        windows.push(open);
+      }
+    } else {
+      open = null;
+    }
+  });
+
+  return windows.filter((window) => window.hours >= Math.max(1, rule.minDurationHours));
+}
+
+/**
+ * Whether a time falls within the quiet hours
+ */
+export function isQuietTime(quietHours: QuietHours, date: Date = new Date()): boolean {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+  const hour = date.getHours();
+  return quietHours.start < quietHours.end
+    ? hour >= quietHours.start && hour < quietHours.end
+    : hour >= quietHours.start || hour < quietHours.end;
+}
+
+// ============================================
+// STARTER RULES
+// ============================================
+
+/**
+ * Rule matching good conditions for an activity, capped by the user's limits
+ *
+ * @param limits - Upper limits chosen during onboarding (waves m, wind km/h)
+ */
+export function createStarterRule(
+  activity: StarterActivity,
+  location: AlertLocation,
+  limits: { waveHeight: number; windSpeed: number }
+): AlertRule {
+  const conditions: Record<StarterActivity, AlertCondition[]> = {
+    sailing: [
+      { metric: 'windSpeed', min: 15, max: Math.min(35, limits.windSpeed) },
+      { metric: 'waveHeight', max: Math.min(1.5, limits.waveHeight) },
+    ],
+    surfing: [
+      { metric: 'swellHeight', min: 0.8, max: limits.waveHeight },
+      { metric: 'swellPeriod', min: 8 },
+      { metric: 'windSpeed', max: Math.min(20, limits.windSpeed) },
+    ],
+    kite: [
+      { metric: 'windSpeed', min: 22, max: Math.min(45, limits.windSpeed) },
+      { metric: 'windGusts', max: limits.windSpeed },
+    ],
+    beach: [
+      { metric: 'waveHeight', max: Math.min(0.5, limits.waveHeight) },
+      { metric: 'windSpeed', max: Math.min(20, limits.windSpeed) },
+    ],
+  };
+  const names: Record<StarterActivity, string> = {
+    sailing: 'Good sailing',
+    surfing: 'Surf is up',
+    kite: 'Kite wind',
+    beach: 'Calm beach day',
+  };
+
+  return {
+    id: generateId(),
+    name: `${names[activity]} at ${location.name}`,
+    enabled: true,
+    location,
+    conditions: [...conditions[activity], { metric: 'daylight' }],
+    minDurationHours: 2,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const generateId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// ============================================
+// ALERT ENGINE
+// ============================================
+
+type ForecastFetcher = (lat: number, lng: number) => Promise<MarineWeatherData>;
+
+/**
+ * Key grouping rules of the same location (about 100 m apart)
+ */
+export const alertLocationKey = (location: { lat: number; lng: number }): string =>
+  `${location.lat.toFixed(3)},${location.lng.toFixed(3)}`;
+
+const overlaps = (a: { start: string; end: string }, b: { start: string; end: string }): boolean =>
+  a.start <= b.end && b.start <= a.end;
+
+class AlertEngine {
+  private listeners: Map<string, Set<Function>> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  async getRules(): Promise<AlertRule[]> {
+    return (await stateStore.get<AlertRule[]>(RULES_KEY)) ?? [];
+  }
+
+  /**
+   * Add a rule or replace the one with the same id
+   */
+  async saveRule(rule: AlertRule): Promise<void> {
+    if (rule.conditions.length === 0) {
+      throw new Error('An alert rule needs at least one condition');
+    }
+    const rules = (await this.getRules()).filter((r) => r.id !== rule.id);
+    await this.setRules([...rules, rule]);
+  }
+
+  /**
+   * Build and save a rule with a fresh id
+   */
+  async addRule(rule: Omit<AlertRule, 'id' | 'createdAt'>): Promise<AlertRule> {
+    const created: AlertRule = { ...rule, id: generateId(), createdAt: new Date().toISOString() };
+    await this.saveRule(created);
+    return created;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await this.setRules((await this.getRules()).filter((rule) => rule.id !== id));
+    await this.exclusive(async () => {
+      const notified = (await stateStore.get<Record<string, NotifiedWindow[]>>(NOTIFIED_KEY)) ?? {};
+      delete notified[id];
+      await stateStore.set(NOTIFIED_KEY, notified);
+    });
+  }
+
+  async setRuleEnabled(id: string, enabled: boolean): Promise<void> {
+    const rule = (await this.getRules()).find((r) => r.id === id);
+    if (rule) await this.saveRule({ ...rule, enabled });
+  }
+
+  async getSettings(): Promise<AlertSettings> {
+    return { ...DEFAULT_ALERT_SETTINGS, ...(await stateStore.get<Partial<AlertSettings>>(SETTINGS_KEY)) };
+  }
+
+  async updateSettings(settings: Partial<AlertSettings>): Promise<void> {
+    await stateStore.set(SETTINGS_KEY, { ...(await this.getSettings()), ...settings });
+  }
+
+  /**
+   * Notifications, newest first
+   */
+  async getNotifications(): Promise<AlertNotification[]> {
+    return (await stateStore.get<AlertNotification[]>(NOTIFICATIONS_KEY)) ?? [];
+  }
+
+  async markAllRead(): Promise<void> {
+    const notifications = await this.exclusive(async () => {
+      const read = (await this.getNotifications()).map((n) => ({ ...n, read: true }));
+      await stateStore.set(NOTIFICATIONS_KEY, read);
+      return read;
+    });
+    this.emit('notifications', notifications);
+  }
+
+  async clearNotifications(): Promise<void> {
+    await this.exclusive(() => stateStore.set(NOTIFICATIONS_KEY, []));
+    this.emit('notifications', []);
+  }
+
+  /**
+   * Evaluate rules against a forecast and raise notifications for new windows
+   * A window that overlaps one already notified for the same rule is not
+   * notified again, so shifting forecasts do not repeat alerts. Outside quiet
+   * hours, unread notifications held back during them are released for
+   * windows that have not passed yet.
+   *
+   * @returns Notifications raised or released by this evaluation
+   */
+  async evaluate(rules: AlertRule[], data: MarineWeatherData, now: Date = new Date()): Promise<AlertNotification[]> {
+    const { raised, released, notifications } = await this.exclusive(async () => {
+      const notified = (await stateStore.get<Record<string, NotifiedWindow[]>>(NOTIFIED_KEY)) ?? {};
+      const quiet = isQuietTime((await this.getSettings()).quietHours, now);
+      const notifications = await this.getNotifications();
+      const raised: AlertNotification[] = [];
+      const released: AlertNotification[] = [];
+
+      for (const rule of rules) {
+        if (!rule.enabled) continue;
+        // Forget windows that have passed
+        const previous = (notified[rule.id] ?? []).filter(
+          (w) => forecastTimestamp(data, w.end) >= now.getTime() - 3600000
+        );
+        if (!quiet) {
+          for (const window of previous.filter((w) => w.held)) {
+            const held = notifications.find((n) => n.id === window.held);
+            if (held && !held.read) {
+              held.quiet = false;
+              released.push(held);
+            }
+            delete window.held;
+          }
+        }
+        for (const window of findMatchWindows(rule, data, now)) {
+          if (previous.some((w) => overlaps(w, window))) continue;
+          const notification: AlertNotification = {
+            ...window,
+            id: generateId(),
+            ruleId: rule.id,
+            ruleName: rule.name,
+            locationName: rule.location.name,
+            location: rule.location,
+            createdAt: now.toISOString(),
+            read: false,
+            quiet,
+          };
+          previous.push(quiet ? { ...window, held: notification.id } : window);
+          raised.push(notification);
+        }
+        notified[rule.id] = previous;
+      }
+
+      await stateStore.set(NOTIFIED_KEY, notified);
+      if (raised.length === 0 && released.length === 0) return { raised, released, notifications };
+      const updated = [...raised, ...notifications].slice(0, MAX_NOTIFICATIONS);
+      await stateStore.set(NOTIFICATIONS_KEY, updated);
+      return { raised, released, notifications: updated };
+    });
+
+    if (raised.length > 0 || released.length > 0) {
+      [...raised, ...released].forEach((notification) => this.emit('notification', notification));
+      this.emit('notifications', notifications);
+    }
+    return [...raised, ...released];
+  }
+
+  /**
+   * Fetch the forecast of every location with enabled rules and evaluate them
+   * Locations whose forecast fails are skipped until the next check.
+   */
+  async checkAll(fetchForecast: ForecastFetcher = fetchMarineWeather, now: Date = new Date()): Promise<AlertNotification[]> {
+    const byLocation = new Map<string, AlertRule[]>();
+    for (const rule of (await this.getRules()).filter((r) => r.enabled)) {
+      const key = alertLocationKey(rule.location);
+      byLocation.set(key, [...(byLocation.get(key) ?? []), rule]);
+    }
+
+    const raised: AlertNotification[] = [];
+    for (const rules of byLocation.values()) {
+      try {
+        const data = await fetchForecast(rules[0].location.lat, rules[0].location.lng);
+        raised.push(...(await this.evaluate(rules, data, now)));
+      } catch (error) {
+        console.error(`[AlertEngine] Failed to check ${rules[0].location.name}:`, error);
+      }
+    }
+    return raised;
+  }
+
+  /**
+   * Run a read-modify-write of the notification state on its own
+   * Queued within this context, and held under a Web Lock (where available)
+   * against the service worker or other tabs.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const run = () => (locks ? locks.request(LOCK_NAME, task) : task());
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async setRules(rules: AlertRule[]): Promise<void> {
+    await stateStore.set(RULES_KEY, rules);
+    this.emit('rules', rules);
+  }
+
+  /**
+   * Event listener management (several listeners per event)
+   */
+  on(event: string, callback: Function): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback?: Function): void {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  private emit(event: string, data: any): void {
+    this.listeners.get(event)?.forEach((callback) => callback(data));
+  }
+}
+
+// Export singleton instance
+export const alertEngine = new AlertEngine();
+
+// Export class for custom instances
+export { AlertEngine };
@@ -0,0 +1,435 @@
+/**
+ * ANCHOR WATCH
+ * Watches the boat's position against the anchor's swing circle and raises
+ * escalating alarms when it drags. State is persisted so the watch survives
+ * page reloads.
+ */
+
+import type {
+  AnchorAlarmLevel,
+  AnchorTrackPoint,
+  AnchorWatchState,
+  InstrumentData,
+  NavigationAlert,
+} from '../types/navigation';
+import { NAVIGATION_CONSTANTS } from '../constants';
+import { calculateDistance } from './routePlanningService';
+import type { InstrumentFeed } from './instrumentService';
+
+const STORAGE_KEY = 'anchorWatch';
+const ANCHOR = NAVIGATION_CONSTANTS.ANCHOR_WATCH;
+
+export interface AnchorFix {
+  lat: number;
+  lon: number;
+  timestamp: Date;
+  accuracy?: number; // meters (horizontal, 1 sigma)
+}
+
+/**
+ * Swing radius for a given scope of rode
+ *
+ * The horizontal reach of the rode (Pythagoras on rode, depth and freeboard)
+ * plus the boat's length.
+ */
+export const calculateSwingRadius = (
+  rodeLength: number,
+  depth: number,
+  boatLength: number = 0,
+  freeboard: number = ANCHOR.FREEBOARD_M
+): number => {
+  const height = depth + freeboard;
+  const reach = rodeLength > height ? Math.sqrt(rodeLength ** 2 - height ** 2) : 0;
+  return reach + boatLength;
+};
+
+/**
+ * Where a fix lies relative to the swing circle, given its accuracy
+ *
+ * A fix only counts as outside when even the near edge of its error circle is
+ * outside; a fix that could be outside (or is close to the edge) is a caution.
+ */
+export const assessAnchorFix = (
+  anchor: { lat: number; lon: number },
+  radius: number,
+  fix: Pick<AnchorFix, 'lat' | 'lon' | 'accuracy'>
+): { distance: number; position: 'inside' | 'edge' | 'outside' } => {
+  const distance = calculateDistance(anchor.lat, anchor.lon, fix.lat, fix.lon) * NAVIGATION_CONSTANTS.NAUTICAL_MILE_METERS;
+  const accuracy = fix.accuracy ?? 0;
+
+  if (distance - accuracy > radius) return { distance, position: 'outside' };
+  if (distance + accuracy > radius || distance > radius * ANCHOR.CAUTION_RATIO) return { distance, position: 'edge' };
+  return { distance, position: 'inside' };
+};
+
+class AnchorWatch {
+  private state: AnchorWatchState | null = null;
+  private watchId: number | null = null;
+  private instrumentFeed: InstrumentFeed | null = null;
+  private listeners: Map<string, Set<Function>> = new Map();
+  private outsideCount: number = 0;
+  private lastAlarmAt: number = 0;
+  private alarmRepeats: number = 0;
+  private lowAccuracyWarned: boolean = false;
+  private lastFix: AnchorFix | null = null;
+
+  /**
+   * Drop anchor at a position (current fix or a point picked on the chart)
+   */
+  dropAnchor(position: { lat: number; lon: number }, options: { rodeLength: number; radius: number }): void {
+    if (!(options.radius > 0)) {
+      throw new Error('Swing radius must be greater than 0');
+    }
+
+    this.state = {
+      anchor: { lat: position.lat, lon: position.lon },
+      droppedAt: new Date(),
+      rodeLength: options.rodeLength,
+      radius: options.radius,
+      track: [],
+      level: 'ok',
+      maxDistance: 0,
+      acknowledged: false,
+    };
+    this.resetAlarm();
+    this.persist();
+    this.startTracking();
+    this.emit('update', this.getState());
+  }
+
+  /**
+   * Drop anchor at the current position
+   *
+   * @throws Error if no position is available
+   */
+  async dropAnchorHere(options: { rodeLength: number; radius: number }): Promise<void> {
+    const fix = this.lastFix ?? (await this.getCurrentFix());
+    this.dropAnchor(fix, options);
+  }
+
+  /**
+   * Change rode length or swing radius without re-dropping
+   */
+  updateSettings(settings: Partial<Pick<AnchorWatchState, 'rodeLength' | 'radius'>>): void {
+    if (!this.state) return;
+    this.state = { ...this.state, ...settings };
+    this.persist();
+    this.emit('update', this.getState());
+  }
+
+  /**
+   * Weigh anchor: stop the watch and forget it
+   */
+  raiseAnchor(): void {
+    this.stopTracking();
+    this.state = null;
+    this.resetAlarm();
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    this.emit('update', null);
+  }
+
+  /**
+   * Silence a sounding alarm (it re-arms once the boat is back inside)
+   */
+  acknowledge(): void {
+    if (!this.state) return;
+    this.state.acknowledged = true;
+    this.persist();
+    this.emit('update', this.getState());
+  }
+
+  /**
+   * Restore a persisted watch after a reload and resume tracking
+   *
+   * @returns true if a watch was restored
+   */
+  resume(): boolean {
+    if (this.state || typeof localStorage === 'undefined') return this.state !== null;
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return false;
+
+    try {
+      const parsed = JSON.parse(saved);
+      this.state = {
+        ...parsed,
+        droppedAt: new Date(parsed.droppedAt),
+        track: (parsed.track || []).map((p: AnchorTrackPoint) => ({ ...p, timestamp: new Date(p.timestamp) })),
+      };
+    } catch (error) {
+      console.warn('Failed to restore anchor watch:', error);
+      localStorage.removeItem(STORAGE_KEY);
+      return false;
+    }
+
+    this.startTracking();
+    this.emit('update', this.getState());
+    return true;
+  }
+
+  /**
+   * Take position from onboard instruments instead of the device GPS
+   */
+  setInstrumentFeed(feed: InstrumentFeed | null): void {
+    const watching = this.state !== null;
+    this.stopTracking();
+    this.instrumentFeed = feed;
+    if (watching) this.startTracking();
+  }
+
+  getState(): AnchorWatchState | null {
+    return this.state ? { ...this.state, track: [...this.state.track] } : null;
+  }
+
+  isActive(): boolean {
+    return this.state !== null;
+  }
+
+  /**
+   * Evaluate a new position fix
+   */
+  processFix(fix: AnchorFix): void {
+    this.lastFix = fix;
+    const state = this.state;
+    if (!state) return;
+
+    if (fix.accuracy !== undefined && fix.accuracy > ANCHOR.MAX_ACCURACY_M) {
+      if (!this.lowAccuracyWarned) {
+        this.lowAccuracyWarned = true;
+        this.emitAlert({
+          type: 'gps-error',
+          message: `Anchor watch: GPS accuracy too low (±${Math.round(fix.accuracy)} m)`,
+          severity: 'warning',
+          timestamp: fix.timestamp,
+        });
+      }
+      return;
+    }
+    this.lowAccuracyWarned = false;
+
+    const { distance, position } = assessAnchorFix(state.anchor, state.radius, fix);
+    state.distance = distance;
+    state.maxDistance = Math.max(state.maxDistance, distance);
+    this.recordTrack(state, { lat: fix.lat, lon: fix.lon, timestamp: fix.timestamp, accuracy: fix.accuracy, distance });
+
+    this.outsideCount = position === 'outside' ? this.outsideCount + 1 : 0;
+
+    const level: AnchorAlarmLevel =
+      this.outsideCount >= ANCHOR.CONFIRM_FIXES ? 'alarm' : position === 'inside' ? 'ok' : 'caution';
+
+    this.updateLevel(state, level, distance, fix.timestamp);
+    this.persist();
+    this.emit('update', this.getState());
+  }
+
+  private updateLevel(state: AnchorWatchState, level: AnchorAlarmLevel, distance: number, time: Date): void {
+    const previous = state.level;
+    state.level = level;
+    const summary = `${Math.round(distance)} m from anchor (limit ${Math.round(state.radius)} m)`;
+
+    if (level === 'alarm') {
+      const now = time.getTime();
+      const due = previous !== 'alarm' || (!state.acknowledged && now - this.lastAlarmAt >= ANCHOR.ALARM_REPEAT_MS);
+      if (!due) return;
+
+      this.alarmRepeats = previous === 'alarm' ? this.alarmRepeats + 1 : 0;
+      this.lastAlarmAt = now;
+      this.emitAlert({
+        type: 'anchor-drag',
+        message: `${this.alarmRepeats > 0 ? 'Anchor still dragging' : 'ANCHOR DRAG'}: ${summary}`,
+        severity: 'error',
+        timestamp: time,
+      });
+      this.soundAlarm(this.alarmRepeats);
+      return;
+    }
+
+    if (previous === 'alarm') {
+      // Back inside: re-arm the alarm
+      state.acknowledged = false;
+      this.resetAlarm();
+    }
+
+    if (level === 'caution' && previous === 'ok') {
+      this.emitAlert({
+        type: 'anchor-drag',
+        message: `Anchor watch: near the edge of the swing circle - ${summary}`,
+        severity: 'warning',
+        timestamp: time,
+        autoClose: true,
+      });
+    } else if (level === 'ok' && previous === 'alarm') {
+      this.emitAlert({
+        type: 'anchor-drag',
+        message: `Anchor watch: back inside the swing circle - ${summary}`,
+        severity: 'success',
+        timestamp: time,
+        autoClose: true,
+      });
+    }
+  }
+
+  private recordTrack(state: AnchorWatchState, point: AnchorTrackPoint): void {
+    const last = state.track[state.track.length - 1];
+    if (last && point.timestamp.getTime() - last.timestamp.getTime() < ANCHOR.TRACK_INTERVAL_MS) return;
+
+    state.track.push(point);
+    if (state.track.length > ANCHOR.MAX_TRACK_POINTS) {
+      state.track.shift();
+    }
+  }
+
+  private resetAlarm(): void {
+    this.outsideCount = 0;
+    this.lastAlarmAt = 0;
+    this.alarmRepeats = 0;
+  }
+
+  /**
+   * Vibration, beeps and voice - longer and louder with each repeat
+   */
+  private soundAlarm(repeat: number): void {
+    if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+      navigator.vibrate(new Array(3 + Math.min(repeat, 5) * 2).fill(400));
+    }
+
+    if (typeof window === 'undefined') return;
+
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (AudioContextClass) {
+      try {
+        const context = new AudioContextClass();
+        const beeps = 3 + Math.min(repeat, 5);
+        for (let i = 0; i < beeps; i++) {
+          const oscillator = context.createOscillator();
+          const gain = context.createGain();
+          oscillator.frequency.value = 880;
+          gain.gain.value = Math.min(0.3 + repeat * 0.15, 1);
+          oscillator.connect(gain).connect(context.destination);
+          oscillator.start(context.currentTime + i * 0.5);
+          oscillator.stop(context.currentTime + i * 0.5 + 0.3);
+        }
+      } catch (err) {
+        console.warn('Anchor alarm sound failed:', err);
+      }
+    }
+
+    if ('speechSynthesis' in window) {
+      speechSynthesis.speak(new SpeechSynthesisUtterance('Anchor alarm. The boat is dragging.'));
+    }
+  }
+
+  /**
+   * Start receiving positions from the instrument feed or device GPS
+   */
+  private startTracking(): void {
+    if (this.instrumentFeed) {
+      this.instrumentFeed.on('position', this.handleInstrumentPosition);
+      return;
+    }
+
+    if (this.watchId !== null || typeof navigator === 'undefined' || !('geolocation' in navigator)) return;
+
+    this.watchId = navigator.geolocation.watchPosition(
+      (position) =>
+        this.processFix({
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          timestamp: new Date(position.timestamp),
+        }),
+      (error) =>
+        this.emitAlert({
+          type: 'gps-error',
+          message: `Anchor watch: GPS unavailable (${error.message})`,
+          severity: 'warning',
+          timestamp: new Date(),
+        }),
+      { enableHighAccuracy: true, timeout: 30000, maximumAge: 0 }
+    );
+  }
+
+  private stopTracking(): void {
+    this.instrumentFeed?.off('position', this.handleInstrumentPosition);
+
+    if (this.watchId !== null) {
+      navigator.geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+  }
+
+  private handleInstrumentPosition = (data: InstrumentData): void => {
+    if (!data.position) return;
+    this.processFix({
+      lat: data.position.lat,
+      lon: data.position.lon,
+      accuracy: data.hdop !== undefined ? data.hdop * ANCHOR.HDOP_TO_METERS : undefined,
+      timestamp: new Date(),
+    });
+  };
+
+  private getCurrentFix(): Promise<AnchorFix> {
+    const feedPosition = this.instrumentFeed?.getData().position;
+    if (feedPosition) {
+      return Promise.resolve({ ...feedPosition, timestamp: new Date() });
+    }
+
+    return new Promise((resolve, reject) => {
+      if (typeof navigator === 'undefined' || !('geolocation' in navigator)) {
+        reject(new Error('Geolocation not supported'));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (position) =>
+          resolve({
+            lat: position.coords.latitude,
+            lon: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            timestamp: new Date(position.timestamp),
+          }),
+        (error) => reject(new Error(`Failed to get position: ${error.message}`)),
+        { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+      );
+    });
+  }
+
+  private persist(): void {
+    if (this.state && typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    }
+  }
+
+  /**
+   * Event listener management (several listeners per event)
+   */
+  on(event: string, callback: Function): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback?: Function): void {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  private emit(event: string, data: any): void {
+    this.listeners.get(event)?.forEach((callback) => callback(data));
+  }
+
+  private emitAlert(alert: NavigationAlert): void {
+    this.emit('alert', alert);
+  }
+}
+
+// Export singleton instance
+export const anchorWatch = new AnchorWatch();
+
+// Export class for custom instances
+export { AnchorWatch };
@@ -6,10 +6,13 @@
  * - Stale-while-revalidate pattern
  * - Configurable TTL per data type
  * - Automatic cleanup of expired data
- * - 50MB storage limit with LRU eviction
+ * - Map tile storage (see the web CachedTileLayer)
+ * - User-set storage quota (50MB default) with LRU eviction across weather
+ *   data and tiles
  */
 
 import { CACHE_CONFIG } from '../constants';
+import { stateStore } from './stateStore';
 
 interface CacheConfig {
   key: string;
@@ -24,19 +27,39 @@ interface CachedData<T> {
   size: number; // bytes
 }
 
+interface CachedTile {
+  key: string;
+  blob: Blob;
+  /** When the tile was downloaded */
+  fetchedAt: number;
+  /** Last use, for LRU eviction */
+  timestamp: number;
+  size: number; // bytes
+}
+
 interface CacheStats {
-  totalSize: number;
+  totalSize: number; // weather data and tiles
   itemCount: number;
   hitRate: number;
   oldestItem: number;
+  tileSize: number;
+  tileCount: number;
+  quota: number;
 }
 
+const QUOTA_KEY = 'cacheQuota';
+
 class WeatherCacheService {
   private dbName = 'SeaMeCache';
   private storeName = 'weatherData';
-  private version = 1;
+  private tileStoreName = 'tiles';
+  private version = 2;
   private db: IDBDatabase | null = null;
-  private maxSize = CACHE_CONFIG.MAX_SIZE_BYTES;
+  private quota: Promise<number> | null = null;
+  /** Size of the tile store, scanned once and then kept up to date */
+  private tileUsage: Promise<{ size: number; count: number }> | null = null;
+  /** Serialises making room and writing, so concurrent writes don't evict on stale sizes */
+  private spaceQueue: Promise<unknown> = Promise.resolve();
 
   // Cache TTL configurations
   private readonly TTL = {
@@ -45,6 +68,7 @@ class WeatherCacheService {
     current: CACHE_CONFIG.TTL.CURRENT,
     multiModel: CACHE_CONFIG.TTL.MULTIMODEL,
     grib: CACHE_CONFIG.TTL.GRIB,
+    verification: CACHE_CONFIG.TTL.VERIFICATION,
   };
   
   // Cache hit/miss tracking
@@ -77,6 +101,11 @@ class WeatherCacheService {
           store.createIndex('timestamp', 'timestamp', { unique: false });
           store.createIndex('expiresAt', 'expiresAt', { unique: false });
         }
+
+        if (!db.objectStoreNames.contains(this.tileStoreName)) {
+          const tiles = db.createObjectStore(this.tileStoreName, { keyPath: 'key' });
+          tiles.createIndex('timestamp', 'timestamp', { unique: false });
+        }
       };
     });
   }
@@ -136,9 +165,6 @@ class WeatherCacheService {
       // Calculate data size (rough estimate)
       const size = new Blob([JSON.stringify(data)]).size;
       
-      // Ensure we have space
-      await this.ensureSpace(size);
-      
       const cached: CachedData<T> = {
         data,
         timestamp: now,
@@ -146,13 +172,18 @@ class WeatherCacheService {
         size,
       };
       
-      const tx = db.transaction(this.storeName, 'readwrite');
-      const store = tx.objectStore(this.storeName);
-      
-      return new Promise((resolve, reject) => {
-        const request = store.put({ key, ...cached });
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
+      await this.withSpace(async () => {
+        // Ensure we have space
+        await this.ensureSpace(size);
+
+        const tx = db.transaction(this.storeName, 'readwrite');
+        const store = tx.objectStore(this.storeName);
+
+        await new Promise<void>((resolve, reject) => {
+          const request = store.put({ key, ...cached });
+          request.onsuccess = () => resolve();
+          request.onerror = () => reject(request.error);
+        });
       });
     } catch (error) {
       console.error('Cache set error:', error);
@@ -217,13 +248,15 @@ class WeatherCacheService {
   async clearAll(): Promise<void> {
     try {
       const db = await this.openDB();
-      const tx = db.transaction(this.storeName, 'readwrite');
+      const tx = db.transaction([this.storeName, this.tileStoreName], 'readwrite');
+      tx.objectStore(this.tileStoreName).clear();
       const store = tx.objectStore(this.storeName);
       
       return new Promise((resolve, reject) => {
         const request = store.clear();
         request.onsuccess = () => {
           this.stats = { hits: 0, misses: 0 };
+          this.tileUsage = null;
           resolve();
         };
         request.onerror = () => reject(request.error);
@@ -270,39 +303,101 @@ class WeatherCacheService {
   }
 
   /**
-   * Ensure we have enough space by deleting oldest entries
+   * Run a task that makes room and writes once every earlier one is done
+   */
+  private withSpace<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.spaceQueue.then(task, task);
+    this.spaceQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Ensure we have enough space by deleting the least recently used weather
+   * data and tiles. Only call it inside withSpace.
    */
   private async ensureSpace(needed: number): Promise<void> {
     const stats = await this.getStats();
+    const excess = stats.totalSize + needed - stats.quota;
     
-    if (stats.totalSize + needed <= this.maxSize) {
+    if (excess <= 0) {
       return; // We have enough space
     }
     
-    // Need to free up space - delete oldest entries (LRU)
+    // Need to free up space - delete oldest entries (LRU) of both stores
     const db = await this.openDB();
-    const tx = db.transaction(this.storeName, 'readwrite');
-    const store = tx.objectStore(this.storeName);
-    const index = store.index('timestamp');
-    
+    const usage = await this.getTileUsage();
+    const tx = db.transaction([this.storeName, this.tileStoreName], 'readwrite');
+    const heads = new Map<string, IDBCursorWithValue | null>();
     let freedSpace = 0;
-    
+    const freedTiles = { size: 0, count: 0 };
+
+    await new Promise<void>((resolve, reject) => {
+      // Walk both timestamp indexes together, oldest entry first, until enough is freed
+      const next = () => {
+        if (heads.size < 2 || freedSpace >= excess) return;
+
+        let oldest: [string, IDBCursorWithValue] | null = null;
+        for (const [store, cursor] of heads) {
+          if (cursor && (!oldest || cursor.value.timestamp < oldest[1].value.timestamp)) {
+            oldest = [store, cursor];
+          }
+        }
+        if (!oldest) return;
+
+        const [store, cursor] = oldest;
+        const { size } = cursor.value as { size: number };
+        cursor.delete();
+        freedSpace += size;
+        if (store === this.tileStoreName) {
+          freedTiles.size += size;
+          freedTiles.count++;
+        }
+        heads.delete(store);
+        cursor.continue();
+      };
+
+      for (const store of [this.storeName, this.tileStoreName]) {
+        const request = tx.objectStore(store).index('timestamp').openCursor();
+        request.onsuccess = () => {
+          heads.set(store, request.result);
+          next();
+        };
+        request.onerror = () => reject(request.error);
+      }
+
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(tx.error);
+    });
+
+    usage.size -= freedTiles.size;
+    usage.count -= freedTiles.count;
+  }
+
+  /**
+   * Key, last use and size of every entry of a store
+   */
+  private listEntries(
+    db: IDBDatabase,
+    storeName: string
+  ): Promise<Array<{ store: string; key: string; timestamp: number; size: number }>> {
+    const entries: Array<{ store: string; key: string; timestamp: number; size: number }> = [];
+    const tx = db.transaction(storeName, 'readonly');
+
     return new Promise((resolve, reject) => {
-      const request = index.openCursor();
-      
+      const request = tx.objectStore(storeName).openCursor();
+
       request.onsuccess = (event) => {
         const cursor = (event.target as IDBRequest).result;
-        
-        if (cursor && freedSpace < needed) {
-          const entry = cursor.value as CachedData<unknown>;
-          freedSpace += entry.size;
-          cursor.delete();
+
+        if (cursor) {
+          const { key, timestamp, size } = cursor.value as { key: string; timestamp: number; size: number };
+          entries.push({ store: storeName, key, timestamp, size });
           cursor.continue();
         } else {
-          resolve();
+          resolve(entries);
         }
       };
-      
+
       request.onerror = () => reject(request.error);
     });
   }
@@ -313,6 +408,7 @@ class WeatherCacheService {
   async getStats(): Promise<CacheStats> {
     try {
       const db = await this.openDB();
+      const [tiles, quota] = await Promise.all([this.getTileUsage(), this.getQuota()]);
       const tx = db.transaction(this.storeName, 'readonly');
       const store = tx.objectStore(this.storeName);
       
@@ -334,10 +430,13 @@ class WeatherCacheService {
             : 0;
           
           resolve({
-            totalSize,
+            totalSize: totalSize + tiles.size,
             itemCount,
             hitRate,
             oldestItem,
+            tileSize: tiles.size,
+            tileCount: tiles.count,
+            quota,
           });
         };
         
@@ -350,10 +449,137 @@ class WeatherCacheService {
         itemCount: 0,
         hitRate: 0,
         oldestItem: 0,
+        tileSize: 0,
+        tileCount: 0,
+        quota: CACHE_CONFIG.MAX_SIZE_BYTES,
       };
     }
   }
 
+  // ============================================
+  // QUOTA
+  // ============================================
+
+  /**
+   * Storage quota shared by weather data and tiles (bytes)
+   */
+  getQuota(): Promise<number> {
+    this.quota ??= stateStore
+      .get<number>(QUOTA_KEY)
+      .then((saved) => saved ?? CACHE_CONFIG.MAX_SIZE_BYTES)
+      .catch(() => CACHE_CONFIG.MAX_SIZE_BYTES);
+    return this.quota;
+  }
+
+  /**
+   * Change the quota, evicting least recently used entries when over it
+   */
+  async setQuota(bytes: number): Promise<void> {
+    if (!(bytes > 0)) {
+      throw new Error('Cache quota must be positive');
+    }
+    this.quota = Promise.resolve(bytes);
+    await stateStore.set(QUOTA_KEY, bytes);
+    try {
+      await this.withSpace(() => this.ensureSpace(0));
+    } catch (error) {
+      console.error('Cache eviction error:', error);
+    }
+  }
+
+  // ============================================
+  // MAP TILES
+  // ============================================
+
+  /**
+   * Get a cached map tile, or null when it was never stored. Tiles don't
+   * expire: callers refresh them once fetchedAt is old.
+   */
+  async getTile(key: string): Promise<{ blob: Blob; fetchedAt: number } | null> {
+    try {
+      const db = await this.openDB();
+      const tx = db.transaction(this.tileStoreName, 'readonly');
+      const store = tx.objectStore(this.tileStoreName);
+
+      const tile = await new Promise<CachedTile | undefined>((resolve, reject) => {
+        const request = store.get(key);
+        request.onsuccess = () => resolve(request.result as CachedTile | undefined);
+        request.onerror = () => reject(request.error);
+      });
+      if (!tile) return null;
+
+      // Record the use for LRU eviction, at most once per interval to keep reads cheap
+      const now = Date.now();
+      if (now - tile.timestamp > CACHE_CONFIG.TILES.TOUCH_INTERVAL_MS) {
+        db.transaction(this.tileStoreName, 'readwrite')
+          .objectStore(this.tileStoreName)
+          .put({ ...tile, timestamp: now });
+      }
+
+      return { blob: tile.blob, fetchedAt: tile.fetchedAt };
+    } catch (error) {
+      console.error('Tile cache get error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store (or replace) a map tile
+   */
+  async setTile(key: string, blob: Blob): Promise<void> {
+    try {
+      const db = await this.openDB();
+      const now = Date.now();
+      const tile: CachedTile = { key, blob, fetchedAt: now, timestamp: now, size: blob.size };
+
+      await this.withSpace(async () => {
+        const usage = await this.getTileUsage();
+        const previous = await new Promise<CachedTile | undefined>((resolve, reject) => {
+          const request = db.transaction(this.tileStoreName, 'readonly').objectStore(this.tileStoreName).get(key);
+          request.onsuccess = () => resolve(request.result as CachedTile | undefined);
+          request.onerror = () => reject(request.error);
+        });
+        const previousSize = previous?.size ?? 0;
+
+        await this.ensureSpace(blob.size - previousSize);
+
+        const tx = db.transaction(this.tileStoreName, 'readwrite');
+        const store = tx.objectStore(this.tileStoreName);
+
+        await new Promise<void>((resolve, reject) => {
+          const request = store.put(tile);
+          request.onsuccess = () => resolve();
+          request.onerror = () => reject(request.error);
+        });
+
+        usage.size += blob.size - previousSize;
+        if (!previous) usage.count++;
+      });
+    } catch (error) {
+      console.error('Tile cache set error:', error);
+    }
+  }
+
+  /**
+   * Size and count of the stored tiles
+   */
+  private getTileUsage(): Promise<{ size: number; count: number }> {
+    if (!this.tileUsage) {
+      const scan = this.openDB()
+        .then((db) => this.listEntries(db, this.tileStoreName))
+        .then((entries) => ({
+          size: entries.reduce((sum, entry) => sum + entry.size, 0),
+          count: entries.length,
+        }));
+      // Don't keep a failed scan around
+      scan.catch(() => {
+        if (this.tileUsage === scan) this.tileUsage = null;
+      });
+      this.tileUsage = scan;
+    }
+    return this.tileUsage;
+  }
+
   /**
    * Generate cache key for marine data
    */
@@ -370,6 +596,13 @@ class WeatherCacheService {
     return `forecast:${lat.toFixed(4)}:${lon.toFixed(4)}:${model}:${dateStr}`;
   }
 
+  /**
+   * Generate cache key for a map tile of a tile style (base map, seamarks...)
+   */
+  getTileKey(style: string, z: number, x: number, y: number): string {
+    return `${style}/${z}/${x}/${y}`;
+  }
+
   /**
    * Generate cache key for current conditions
    */
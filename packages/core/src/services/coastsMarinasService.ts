@@ -7,9 +7,11 @@
  * - Nominatim API (with rate limit handling)
  */
 
-import type { Marina, CoastSearchOptions, MarinaType } from '../types/navigation';
+import type { Marina, CoastSearchOptions, MarinaType, VesselPerformance } from '../types/navigation';
 import type { OverpassApiResponse, OverpassElement, NominatimApiResponse } from '../types/apiResponses';
 import { calculateDistance, formatDistance } from './routePlanningService';
+import { getVesselSpeed } from '../utils/polar';
+import { getOfflineMarinas } from './offlinePackStore';
 import { fetchWithRetry, fetchWithRetrySafe, isTimeoutError, isRateLimitError } from '../utils/fetchWithRetry';
 import { API_ENDPOINTS, NAVIGATION_CONSTANTS, REQUEST_CONFIG, CACHE_CONFIG, ERROR_MESSAGES } from '../constants';
 
@@ -99,8 +101,8 @@ export const searchNearbyCoasts = async (
       }
     }
 
-    // Return cached data if available
-    return getCachedCoastalData(lat, lon) || [];
+    // Return cached data if available, else what offline packs hold
+    return getCachedCoastalData(lat, lon) || (await getOfflineMarinas(lat, lon, options.radius)) || [];
   }
 };
 
@@ -312,13 +314,25 @@ const getCachedCoastalData = (
 
 /**
  * Calculate estimated time to marina
+ * With a performance model and the true wind, speed comes from the vessel's
+ * polar (or engine) on the bearing to the marina
  */
 export const calculateETAToMarina = (
   marina: Marina,
-  currentSpeed: number
+  currentSpeed: number,
+  performance?: VesselPerformance,
+  wind?: { speed: number; direction: number }
 ): number => {
-  if (currentSpeed === 0) return 0;
-  return (marina.distance / currentSpeed) * 60; // minutes
+  const speed =
+    performance && wind
+      ? getVesselSpeed(performance, {
+          course: marina.bearing,
+          windSpeed: wind.speed,
+          windDirection: wind.direction,
+        }).speed
+      : currentSpeed;
+  if (speed === 0) return 0;
+  return (marina.distance / speed) * 60; // minutes
 };
 
 /**
@@ -0,0 +1,501 @@
+/**
+ * DEPARTURE PLANNER SERVICE
+ * Answers "when should I leave?" for a planned route
+ *
+ * Sweeps departure times across the forecast horizon, simulates the passage
+ * leg by leg with the forecast wind, waves, swell and current expected at each
+ * point when the vessel gets there, then rates every window against the
+ * user's alert limits.
+ */
+
+import type { AlertConfig, MarineApiResponse, ForecastApiResponse } from '../types';
+import type { Route, VesselPerformance } from '../types/navigation';
+import type { MarineGridPoint } from './marineGridService';
+import { sampleMarineGridForecast } from './marineGridService';
+import { getOfflineForecast } from './offlinePackStore';
+import { calculateBearing, calculateDistance } from './routePlanningService';
+import { getVesselSpeed } from '../utils/polar';
+import { deduplicatedFetch } from '../utils/requestDeduplication';
+import { API_ENDPOINTS, NAVIGATION_CONSTANTS, WEATHER_CONSTANTS } from '../constants';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Conditions at a location and time, or null when no forecast covers it
+ */
+export type ConditionsSampler = (lat: number, lon: number, time: Date) => MarineGridPoint | null;
+
+/**
+ * Hourly forecast at sample points along a route
+ */
+export interface RouteForecast {
+  samples: { lat: number; lon: number }[];
+  /** Valid time of each frame (ISO 8601 UTC, ascending) */
+  times: string[];
+  /** Conditions for each time step, one entry per sample point */
+  frames: MarineGridPoint[][];
+}
+
+export interface PassageSimulation {
+  departure: Date;
+  arrival: Date;
+  durationHours: number;
+  maxWindSpeed: number; // km/h (same unit as AlertConfig.windSpeedThreshold)
+  maxWaveHeight: number; // meters
+  maxSwellHeight: number; // meters
+  upwindPercent: number; // share of passage time closer than UPWIND_ANGLE_DEG to the wind
+  motoringPercent: number; // share of passage time under engine
+  /** False when part of the passage falls outside the forecast */
+  complete: boolean;
+}
+
+export type DepartureRating = 'good' | 'marginal' | 'bad' | 'unavailable';
+
+export interface DepartureWindow extends PassageSimulation {
+  rating: DepartureRating;
+  /** 0-100, higher is better */
+  score: number;
+  /** Limits exceeded during the passage */
+  exceeded: ('wind' | 'wave' | 'swell')[];
+}
+
+export interface DeparturePlanOptions {
+  /** First departure time to consider */
+  from: Date;
+  /** Hours to sweep (default 168 = 7 days) */
+  hours?: number;
+  /** Spacing between candidate departures in hours (default 1) */
+  stepHours?: number;
+  /** User limits for wind, waves and swell */
+  limits: AlertConfig;
+  /** Vessel performance model; without it the route's average speed is used */
+  performance?: VesselPerformance;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Course within this angle of the true wind counts as upwind (degrees) */
+const UPWIND_ANGLE_DEG = 60;
+
+/** Conditions above this fraction of a limit make a window marginal */
+const MARGINAL_LIMIT_RATIO = 0.8;
+
+/** More upwind sailing than this makes a window marginal (percent) */
+const MARGINAL_UPWIND_PERCENT = 50;
+
+/** Simulation step along each leg (nautical miles) */
+const SIMULATION_STEP_NM = 5;
+
+/** Floor for speed over ground so adverse current can't stall the simulation (knots) */
+const MIN_SPEED_OVER_GROUND = 0.5;
+
+/** Spacing of forecast sample points along the route (nautical miles) */
+const ROUTE_SAMPLE_SPACING_NM = 10;
+const MAX_ROUTE_SAMPLES = 50;
+
+const MS_PER_HOUR = 3600000;
+
+const RATING_ORDER: Record<DepartureRating, number> = {
+  good: 0,
+  marginal: 1,
+  bad: 2,
+  unavailable: 3,
+};
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Smallest angle between two directions (0-180)
+ */
+const angleBetween = (a: number, b: number): number => {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// ============================================
+// ROUTE FORECAST
+// ============================================
+
+/**
+ * Sample points along a route: every waypoint plus evenly spaced points on each leg
+ * Routes with many waypoints are thinned evenly, keeping the departure and destination.
+ */
+export const getRouteSamplePoints = (
+  route: Route,
+  spacingNM: number = ROUTE_SAMPLE_SPACING_NM
+): { lat: number; lon: number }[] => {
+  const spacing = Math.max(spacingNM, route.totalDistance / MAX_ROUTE_SAMPLES);
+  const points: { lat: number; lon: number }[] = [];
+
+  route.waypoints.forEach((waypoint, index) => {
+    points.push({ lat: waypoint.lat, lon: waypoint.lon });
+
+    const next = route.waypoints[index + 1];
+    if (!next) return;
+
+    const distance = calculateDistance(waypoint.lat, waypoint.lon, next.lat, next.lon);
+    const steps = Math.floor(distance / spacing);
+    for (let i = 1; i < steps; i++) {
+      const fraction = i / steps;
+      points.push({
+        lat: waypoint.lat + (next.lat - waypoint.lat) * fraction,
+        lon: waypoint.lon + (next.lon - waypoint.lon) * fraction,
+      });
+    }
+  });
+
+  if (points.length <= MAX_ROUTE_SAMPLES) return points;
+  return Array.from(
+    { length: MAX_ROUTE_SAMPLES },
+    (_, i) => points[Math.round((i * (points.length - 1)) / (MAX_ROUTE_SAMPLES - 1))]
+  );
+};
+
+/**
+ * Fetch an hourly forecast along a route
+ *
+ * Uses the seamless best-match models because high-resolution regional models
+ * only reach 2-3 days ahead. Times are requested in GMT.
+ *
+ * @param route - Route to sample
+ * @param forecastDays - Forecast horizon in days (default 8: a 7-day sweep plus passage time)
+ */
+export const fetchRouteForecast = async (
+  route: Route,
+  forecastDays: number = 8
+): Promise<RouteForecast> => {
+  try {
+    const samples = getRouteSamplePoints(route);
+    const lats = samples.map((p) => p.lat.toFixed(4)).join(',');
+    const lngs = samples.map((p) => p.lon.toFixed(4)).join(',');
+
+    const marineParams = new URLSearchParams({
+      latitude: lats,
+      longitude: lngs,
+      hourly: 'wave_height,swell_wave_height,ocean_current_velocity,ocean_current_direction',
+      timezone: 'GMT',
+      forecast_days: forecastDays.toString(),
+      models: WEATHER_CONSTANTS.MODEL,
+      cell_selection: WEATHER_CONSTANTS.MARINE_CELL_SELECTION,
+    });
+
+    const forecastParams = new URLSearchParams({
+      latitude: lats,
+      longitude: lngs,
+      hourly: 'wind_speed_10m,wind_direction_10m,wind_gusts_10m',
+      timezone: 'GMT',
+      forecast_days: forecastDays.toString(),
+      models: WEATHER_CONSTANTS.MODEL,
+      cell_selection: WEATHER_CONSTANTS.LAND_CELL_SELECTION,
+    });
+
+    const [marineResponses, forecastResponses] = await Promise.all([
+      deduplicatedFetch<MarineApiResponse | MarineApiResponse[]>(
+        `${API_ENDPOINTS.MARINE}?${marineParams.toString()}`,
+        undefined,
+        { ttl: 3000 }
+      ),
+      deduplicatedFetch<ForecastApiResponse | ForecastApiResponse[]>(
+        `${API_ENDPOINTS.FORECAST}?${forecastParams.toString()}`,
+        undefined,
+        { ttl: 3000 }
+      ),
+    ]);
+
+    // Open-Meteo returns an array for multiple coordinates, or single object for one coordinate
+    const marineArray = Array.isArray(marineResponses) ? marineResponses : [marineResponses];
+    const forecastArray = Array.isArray(forecastResponses) ? forecastResponses : [forecastResponses];
+
+    const hourlyTimes = forecastArray[0]?.hourly?.time || [];
+    const times = hourlyTimes.map((t) => new Date(`${t}Z`).toISOString());
+
+    const frames: MarineGridPoint[][] = times.map((_, t) =>
+      samples.map((sample, i) => {
+        const wind = forecastArray[i]?.hourly;
+        const marine = marineArray[i]?.hourly;
+
+        return {
+          lat: sample.lat,
+          lng: sample.lon,
+          windSpeed: wind?.wind_speed_10m?.[t] ?? 0,
+          windDirection: wind?.wind_direction_10m?.[t] ?? 0,
+          windGusts: wind?.wind_gusts_10m?.[t] ?? 0,
+          waveHeight: marine?.wave_height?.[t] ?? 0,
+          swellHeight: marine?.swell_wave_height?.[t] ?? 0,
+          currentSpeed: marine?.ocean_current_velocity?.[t] ?? 0,
+          currentDirection: marine?.ocean_current_direction?.[t] ?? 0,
+        };
+      })
+    );
+
+    return { samples, times, frames };
+  } catch (error) {
+    // Offline: use the forecast of a downloaded pack covering the route
+    const offline = await getOfflineRouteForecast(route);
+    if (offline) return offline;
+
+    console.error('Failed to fetch route forecast:', error);
+    throw error;
+  }
+};
+
+/**
+ * Route forecast sampled from a downloaded offline pack
+ * @returns null unless one pack's forecast covers every sample point
+ */
+const getOfflineRouteForecast = async (route: Route): Promise<RouteForecast | null> => {
+  const samples = getRouteSamplePoints(route);
+  if (samples.length === 0) return null;
+
+  const lats = samples.map((p) => p.lat);
+  const lons = samples.map((p) => p.lon);
+  const forecast = await getOfflineForecast({
+    north: Math.max(...lats),
+    south: Math.min(...lats),
+    east: Math.max(...lons),
+    west: Math.min(...lons),
+  });
+  if (!forecast) return null;
+
+  const frames = forecast.times.map((time) =>
+    samples.map((p) => sampleMarineGridForecast(forecast, p.lat, p.lon, new Date(time)))
+  );
+  if (frames.some((frame) => frame.some((point) => point === null))) return null;
+
+  return { samples, times: forecast.times, frames: frames as MarineGridPoint[][] };
+};
+
+/**
+ * Sampler over a route forecast: nearest sample point, linear in time
+ * Returns null more than an hour outside the forecast period
+ */
+export const createRouteForecastSampler = (forecast: RouteForecast): ConditionsSampler => {
+  const timestamps = forecast.times.map((t) => new Date(t).getTime());
+
+  return (lat, lon, time) => {
+    if (timestamps.length === 0 || forecast.samples.length === 0) return null;
+
+    const target = time.getTime();
+    if (target < timestamps[0] - MS_PER_HOUR || target > timestamps[timestamps.length - 1] + MS_PER_HOUR) {
+      return null;
+    }
+
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    forecast.samples.forEach((sample, i) => {
+      const distance = calculateDistance(lat, lon, sample.lat, sample.lon);
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+
+    let index = 0;
+    while (index < timestamps.length - 1 && timestamps[index + 1] <= target) {
+      index++;
+    }
+
+    const before = forecast.frames[index][nearest];
+    const after = forecast.frames[Math.min(index + 1, timestamps.length - 1)][nearest];
+    const span = timestamps[Math.min(index + 1, timestamps.length - 1)] - timestamps[index];
+    const fraction = span > 0 ? Math.min(Math.max((target - timestamps[index]) / span, 0), 1) : 0;
+
+    const lerp = (a?: number, b?: number) =>
+      a === undefined ? b : b === undefined ? a : a + (b - a) * fraction;
+    // Directions don't interpolate linearly - use the closer frame
+    const closer = fraction < 0.5 ? before : after;
+
+    return {
+      lat,
+      lng: lon,
+      windSpeed: lerp(before.windSpeed, after.windSpeed),
+      windDirection: closer.windDirection,
+      windGusts: lerp(before.windGusts, after.windGusts),
+      waveHeight: lerp(before.waveHeight, after.waveHeight),
+      swellHeight: lerp(before.swellHeight, after.swellHeight),
+      currentSpeed: lerp(before.currentSpeed, after.currentSpeed),
+      currentDirection: closer.currentDirection,
+    };
+  };
+};
+
+// ============================================
+// PASSAGE SIMULATION
+// ============================================
+
+/**
+ * Simulate a passage along a route from a departure time
+ *
+ * Each leg is sailed in short steps; conditions are sampled where and when the
+ * vessel starts each step. Boat speed comes from the performance model when
+ * given (otherwise the route's average speed), plus the current along the course.
+ *
+ * @param route - Route to sail
+ * @param departure - Departure time
+ * @param sample - Forecast sampler
+ * @param performance - Optional vessel performance model
+ */
+export const simulatePassage = (
+  route: Route,
+  departure: Date,
+  sample: ConditionsSampler,
+  performance?: VesselPerformance
+): PassageSimulation => {
+  let time = departure.getTime();
+  let maxWindSpeed = 0;
+  let maxWaveHeight = 0;
+  let maxSwellHeight = 0;
+  let upwindHours = 0;
+  let motoringHours = 0;
+  let complete = true;
+
+  for (let i = 0; i < route.waypoints.length - 1; i++) {
+    const from = route.waypoints[i];
+    const to = route.waypoints[i + 1];
+    const legDistance = calculateDistance(from.lat, from.lon, to.lat, to.lon);
+    const course = calculateBearing(from.lat, from.lon, to.lat, to.lon);
+    const steps = Math.max(1, Math.ceil(legDistance / SIMULATION_STEP_NM));
+    const stepDistance = legDistance / steps;
+
+    for (let s = 0; s < steps; s++) {
+      const fraction = s / steps;
+      const lat = from.lat + (to.lat - from.lat) * fraction;
+      const lon = from.lon + (to.lon - from.lon) * fraction;
+      const conditions = sample(lat, lon, new Date(time));
+
+      let speed = route.averageSpeed;
+      let hours: number;
+
+      if (!conditions) {
+        complete = false;
+        hours = stepDistance / Math.max(speed, MIN_SPEED_OVER_GROUND);
+      } else {
+        const windSpeed = conditions.windSpeed ?? 0;
+        const windDirection = conditions.windDirection ?? 0;
+
+        if (performance) {
+          const vessel = getVesselSpeed(performance, {
+            course,
+            windSpeed: windSpeed * NAVIGATION_CONSTANTS.KMH_TO_KNOTS,
+            windDirection,
+          });
+          speed = vessel.speed;
+          if (vessel.motoring) motoringHours += stepDistance / Math.max(speed, MIN_SPEED_OVER_GROUND);
+        }
+
+        // Open-Meteo current direction is the direction the current flows towards
+        const currentSpeed = (conditions.currentSpeed ?? 0) * NAVIGATION_CONSTANTS.KMH_TO_KNOTS;
+        const currentAlongCourse =
+          currentSpeed * Math.cos(toRadians((conditions.currentDirection ?? 0) - course));
+
+        hours = stepDistance / Math.max(speed + currentAlongCourse, MIN_SPEED_OVER_GROUND);
+
+        maxWindSpeed = Math.max(maxWindSpeed, windSpeed);
+        maxWaveHeight = Math.max(maxWaveHeight, conditions.waveHeight ?? 0);
+        maxSwellHeight = Math.max(maxSwellHeight, conditions.swellHeight ?? 0);
+
+        if (windSpeed > 0 && angleBetween(course, windDirection) < UPWIND_ANGLE_DEG) {
+          upwindHours += hours;
+        }
+      }
+
+      time += hours * MS_PER_HOUR;
+    }
+  }
+
+  const durationHours = (time - departure.getTime()) / MS_PER_HOUR;
+
+  return {
+    departure,
+    arrival: new Date(time),
+    durationHours,
+    maxWindSpeed,
+    maxWaveHeight,
+    maxSwellHeight,
+    upwindPercent: durationHours > 0 ? (upwindHours / durationHours) * 100 : 0,
+    motoringPercent: durationHours > 0 ? Math.min((motoringHours / durationHours) * 100, 100) : 0,
+    complete,
+  };
+};
+
+// ============================================
+// DEPARTURE WINDOWS
+// ============================================
+
+/**
+ * Rate a simulated passage against the user's limits
+ */
+const ratePassage = (
+  passage: PassageSimulation,
+  limits: AlertConfig,
+  fastestHours: number
+): DepartureWindow => {
+  if (!passage.complete) {
+    return { ...passage, rating: 'unavailable', score: 0, exceeded: [] };
+  }
+
+  const ratios = {
+    wind: passage.maxWindSpeed / limits.windSpeedThreshold,
+    wave: passage.maxWaveHeight / limits.waveHeightThreshold,
+    swell: passage.maxSwellHeight / limits.swellHeightThreshold,
+  };
+  const exceeded = (Object.keys(ratios) as (keyof typeof ratios)[]).filter((key) => ratios[key] > 1);
+  const worst = Math.max(ratios.wind, ratios.wave, ratios.swell);
+
+  let rating: DepartureRating = 'good';
+  if (exceeded.length > 0) {
+    rating = 'bad';
+  } else if (worst > MARGINAL_LIMIT_RATIO || passage.upwindPercent > MARGINAL_UPWIND_PERCENT) {
+    rating = 'marginal';
+  }
+
+  const durationScore = fastestHours > 0 ? fastestHours / passage.durationHours : 1;
+  const conditionsScore = 1 - Math.min(worst, 1);
+  const upwindScore = 1 - passage.upwindPercent / 100;
+  const score = Math.round(100 * (0.4 * durationScore + 0.4 * conditionsScore + 0.2 * upwindScore));
+
+  return { ...passage, rating, score, exceeded };
+};
+
+/**
+ * Simulate and rate every departure time in the sweep
+ *
+ * @returns Departure windows in chronological order
+ */
+export const planDepartureWindows = (
+  route: Route,
+  sample: ConditionsSampler,
+  options: DeparturePlanOptions
+): DepartureWindow[] => {
+  const { from, hours = 168, stepHours = 1, limits, performance } = options;
+
+  const passages: PassageSimulation[] = [];
+  for (let offset = 0; offset < hours; offset += stepHours) {
+    const departure = new Date(from.getTime() + offset * MS_PER_HOUR);
+    passages.push(simulatePassage(route, departure, sample, performance));
+  }
+
+  const fastestHours = Math.min(
+    ...passages.filter((p) => p.complete).map((p) => p.durationHours),
+    Infinity
+  );
+
+  return passages.map((passage) =>
+    ratePassage(passage, limits, isFinite(fastestHours) ? fastestHours : 0)
+  );
+};
+
+/**
+ * Order departure windows best first: by rating, then score, then earliest departure
+ */
+export const rankDepartureWindows = (windows: DepartureWindow[]): DepartureWindow[] =>
+  [...windows].sort(
+    (a, b) =>
+      RATING_ORDER[a.rating] - RATING_ORDER[b.rating] ||
+      b.score - a.score ||
+      a.departure.getTime() - b.departure.getTime()
+  );
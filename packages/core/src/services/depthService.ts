@@ -0,0 +1,449 @@
+/**
+ * DEPTH SERVICE
+ * Water depth along routes. Depths come from imported depth grids (GEBCO,
+ * EMODnet or survey exports as Esri ASCII grids) where they cover a point,
+ * otherwise only a range is known from the bathymetry contours. The tide at
+ * the time each point is passed is added from the nearest tide station.
+ *
+ * ⚠️ Depths here are relative to mean sea level and much coarser than a
+ * chart. They do NOT replace official charts.
+ */
+
+import type { TideStation } from '../types';
+import { CACHE_CONFIG, DEPTH_CONFIG } from '../constants';
+import { findNearestTideStation, predictTideHeight } from '../utils/tidePrediction';
+import { cacheService } from './cacheService';
+import { fetchBathymetryLayer, getAvailableBathymetryDepths } from './geojsonService';
+import type { GeoJSONFeature } from './geojsonService';
+import type { BoundingBox } from './marineGridService';
+import { calculateDistance } from './routePlanningService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DepthGridSummary {
+  id: string;
+  /** Original file name */
+  name: string;
+  importedAt: string;
+  bounds: BoundingBox;
+  rows: number;
+  cols: number;
+  cellSize: number; // degrees
+}
+
+/**
+ * A depth grid as stored in the cache
+ */
+export interface DepthGrid extends DepthGridSummary {
+  /** Depth below mean sea level per cell (meters, negative on drying ground), north-to-south, west-to-east */
+  values: Array<number | null>;
+}
+
+/**
+ * What is known about the depth at a point: a value from a depth grid, or
+ * the range between the bathymetry contours around it
+ */
+export interface DepthEstimate {
+  depth: number | null; // meters below mean sea level
+  minDepth?: number; // deeper than this contour
+  maxDepth?: number; // shallower than this contour
+  source: 'grid' | 'contour' | 'none';
+}
+
+export interface DepthProfilePoint extends DepthEstimate {
+  lat: number;
+  lon: number;
+  distance: number; // nautical miles from the start
+  leg: number; // leg i runs from waypoint i to waypoint i + 1
+  time: string; // when the point is passed (ISO)
+  tide: number; // height of tide above mean sea level (meters)
+  clearance: number | null; // water under the keel (meters)
+}
+
+export interface DepthProfile {
+  points: DepthProfilePoint[];
+  /** Shallowest known depth along the route, tide included (meters) */
+  minDepth: number | null;
+  /** Least water under the keel along the route (meters) */
+  minClearance: number | null;
+  /** Legs where the water under the keel drops below the wanted clearance */
+  shallowLegs: number[];
+  /** Depth below mean sea level needed at the lowest tide of the passage (for rerouting) */
+  requiredDepth: number;
+  tideStation?: { id: string; name: string; distance: number };
+  warnings: string[];
+}
+
+export interface DepthProfileOptions {
+  draft: number; // meters
+  underKeelClearance?: number; // meters (defaults to DEPTH_CONFIG.UNDER_KEEL_CLEARANCE_M)
+  departureTime?: Date;
+  averageSpeed?: number; // knots
+}
+
+const INDEX_KEY = 'depth-grid:index';
+const gridKey = (id: string) => `depth-grid:${id}`;
+
+// ============================================
+// DEPTH GRIDS
+// ============================================
+
+/**
+ * Parse an Esri ASCII grid of elevations (negative below sea level), as
+ * exported by GEBCO and EMODnet, into depths
+ *
+ * @throws If the header or the values don't describe a grid
+ */
+export function parseAsciiGrid(text: string, name: string): DepthGrid {
+  const tokens = text.trim().split(/\s+/);
+  const header: Record<string, number> = {};
+
+  let index = 0;
+  while (index + 1 < tokens.length && /^[a-z_]+$/i.test(tokens[index])) {
+    header[tokens[index].toLowerCase()] = parseFloat(tokens[index + 1]);
+    index += 2;
+  }
+
+  const { ncols: cols, nrows: rows, cellsize: cellSize } = header;
+  if (!cols || !rows || !cellSize) {
+    throw new Error('Not an ASCII grid: ncols, nrows and cellsize are required');
+  }
+
+  // Corners may be given for the outer edge or for the centre of the corner cell
+  const west = header.xllcorner ?? header.xllcenter - cellSize / 2;
+  const south = header.yllcorner ?? header.yllcenter - cellSize / 2;
+  if (!Number.isFinite(west) || !Number.isFinite(south)) {
+    throw new Error('Not an ASCII grid: the lower-left corner is missing');
+  }
+
+  const values = tokens.slice(index).map(Number);
+  if (values.length !== rows * cols) {
+    throw new Error(`ASCII grid has ${values.length} values, expected ${rows * cols}`);
+  }
+
+  const noData = header.nodata_value;
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    importedAt: new Date().toISOString(),
+    bounds: { north: south + rows * cellSize, south, east: west + cols * cellSize, west },
+    rows,
+    cols,
+    cellSize,
+    values: values.map((value) => (Number.isNaN(value) || value === noData ? null : -value)),
+  };
+}
+
+/**
+ * Depth at a point from a grid, interpolated between the surrounding cell
+ * centres (nearest cell where a neighbour has no data)
+ *
+ * @returns null outside the grid or on a cell without data
+ */
+export function sampleDepthGrid(grid: DepthGrid, lat: number, lon: number): number | null {
+  const { bounds, rows, cols, cellSize, values } = grid;
+  if (lat < bounds.south || lat > bounds.north || lon < bounds.west || lon > bounds.east) {
+    return null;
+  }
+
+  const at = (row: number, col: number) =>
+    values[Math.min(Math.max(row, 0), rows - 1) * cols + Math.min(Math.max(col, 0), cols - 1)];
+
+  // Position in cell-centre units, rows counted from the north
+  const y = (bounds.north - lat) / cellSize - 0.5;
+  const x = (lon - bounds.west) / cellSize - 0.5;
+  const row = Math.floor(y);
+  const col = Math.floor(x);
+  const corners = [at(row, col), at(row, col + 1), at(row + 1, col), at(row + 1, col + 1)];
+
+  if (corners.some((value) => value === null)) {
+    return at(Math.round(y), Math.round(x));
+  }
+
+  const [nw, ne, sw, se] = corners as number[];
+  const fx = x - col;
+  const fy = y - row;
+  return (nw * (1 - fx) + ne * fx) * (1 - fy) + (sw * (1 - fx) + se * fx) * fy;
+}
+
+const toSummary = ({ values: _values, ...summary }: DepthGrid): DepthGridSummary => summary;
+
+/**
+ * Imported depth grids, persisted in the IndexedDB cache
+ */
+class DepthGridImportService {
+  /** Grids used this session, so a failed cache write doesn't lose an import */
+  private grids = new Map<string, DepthGrid>();
+
+  /**
+   * Parse an ASCII grid file and store it for offline use
+   */
+  async importFile(text: string, name: string): Promise<DepthGridSummary> {
+    const grid = parseAsciiGrid(text, name);
+
+    this.grids.set(grid.id, grid);
+    await cacheService.set(gridKey(grid.id), grid, CACHE_CONFIG.TTL.DEPTH_GRID);
+    await cacheService.set(INDEX_KEY, [...(await this.list()), toSummary(grid)], CACHE_CONFIG.TTL.DEPTH_GRID);
+
+    return toSummary(grid);
+  }
+
+  /**
+   * Imported grids, oldest first
+   */
+  async list(): Promise<DepthGridSummary[]> {
+    return (await cacheService.get<DepthGridSummary[]>(INDEX_KEY)) ?? [];
+  }
+
+  /**
+   * All imported grids, finest first
+   */
+  async loadAll(): Promise<DepthGrid[]> {
+    const grids: DepthGrid[] = [];
+    for (const { id } of await this.list()) {
+      const grid = this.grids.get(id) ?? (await cacheService.get<DepthGrid>(gridKey(id)));
+      if (grid) {
+        this.grids.set(id, grid);
+        grids.push(grid);
+      }
+    }
+    return grids.sort((a, b) => a.cellSize - b.cellSize);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.grids.delete(id);
+    await cacheService.delete(gridKey(id));
+    await cacheService.set(
+      INDEX_KEY,
+      (await this.list()).filter((entry) => entry.id !== id),
+      CACHE_CONFIG.TTL.DEPTH_GRID
+    );
+  }
+}
+
+// Export singleton instance
+export const depthGrids = new DepthGridImportService();
+
+export { DepthGridImportService };
+
+// ============================================
+// ESTIMATES
+// ============================================
+
+/**
+ * Bathymetry contours: the areas deeper than each depth, deepest first
+ */
+export interface DepthContour {
+  depth: number;
+  features: GeoJSONFeature[];
+}
+
+/** The last contour load; finding none is remembered for DEPTH_CONFIG.CONTOUR_RETRY_MS */
+let contourCache: { contours: Promise<DepthContour[]>; loadedAt: number } | null = null;
+
+/**
+ * Load the bathymetry contours, from the finest resolution available
+ * Loaded once and shared; when none are found the load is retried after a while.
+ */
+export const loadDepthContours = async (): Promise<DepthContour[]> => {
+  if (contourCache && Date.now() - contourCache.loadedAt < DEPTH_CONFIG.CONTOUR_RETRY_MS) {
+    return contourCache.contours;
+  }
+  const cache = { contours: fetchDepthContours(), loadedAt: Date.now() };
+  contourCache = cache;
+
+  const contours = await cache.contours.catch((error) => {
+    if (contourCache === cache) contourCache = null;
+    throw error;
+  });
+  // Found contours do not change, so keep them for the rest of the session
+  if (contours.length > 0) cache.loadedAt = Infinity;
+  return contours;
+};
+
+const fetchDepthContours = async (): Promise<DepthContour[]> => {
+  const contours = await Promise.all(
+    getAvailableBathymetryDepths().map(async (depth) => {
+      let layer = await fetchBathymetryLayer(depth, '10m');
+      if (layer.features.length === 0) {
+        layer = await fetchBathymetryLayer(depth, '50m');
+      }
+      return { depth, features: layer.features };
+    })
+  );
+
+  return contours.filter((contour) => contour.features.length > 0).sort((a, b) => b.depth - a.depth);
+};
+
+const featurePolygons = (feature: GeoJSONFeature): number[][][][] => {
+  const { type, coordinates } = feature.geometry;
+  return type === 'Polygon' ? [coordinates] : type === 'MultiPolygon' ? coordinates : [];
+};
+
+/** Outer ring extent of each feature, worked out on first use */
+const featureBounds = new WeakMap<GeoJSONFeature, BoundingBox>();
+
+const boundsOf = (feature: GeoJSONFeature): BoundingBox => {
+  let bounds = featureBounds.get(feature);
+  if (!bounds) {
+    bounds = { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity };
+    for (const [outer = []] of featurePolygons(feature)) {
+      for (const [lon, lat] of outer) {
+        bounds.north = Math.max(bounds.north, lat);
+        bounds.south = Math.min(bounds.south, lat);
+        bounds.east = Math.max(bounds.east, lon);
+        bounds.west = Math.min(bounds.west, lon);
+      }
+    }
+    featureBounds.set(feature, bounds);
+  }
+  return bounds;
+};
+
+/** Even-odd ray cast over every ring of a Polygon or MultiPolygon */
+const isInsideFeature = (feature: GeoJSONFeature, lat: number, lon: number): boolean => {
+  const bounds = boundsOf(feature);
+  if (lat < bounds.south || lat > bounds.north || lon < bounds.west || lon > bounds.east) return false;
+
+  return featurePolygons(feature).some((rings) => {
+    let inside = false;
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+    }
+    return inside;
+  });
+};
+
+/**
+ * Best known depth at a point: the finest depth grid covering it, else the
+ * contours either side of it
+ *
+ * @param grids - Imported depth grids, finest first
+ * @param contours - Bathymetry contours, deepest first
+ */
+export const estimateDepth = (
+  lat: number,
+  lon: number,
+  grids: DepthGrid[],
+  contours: DepthContour[]
+): DepthEstimate => {
+  for (const grid of grids) {
+    const depth = sampleDepthGrid(grid, lat, lon);
+    if (depth !== null) return { depth, source: 'grid' };
+  }
+
+  if (contours.length === 0) return { depth: null, source: 'none' };
+
+  let maxDepth: number | undefined;
+  for (const contour of contours) {
+    if (contour.features.some((feature) => isInsideFeature(feature, lat, lon))) {
+      return { depth: null, minDepth: contour.depth, maxDepth, source: 'contour' };
+    }
+    maxDepth = contour.depth;
+  }
+  return { depth: null, maxDepth, source: 'contour' };
+};
+
+// ============================================
+// ROUTE PROFILE
+// ============================================
+
+/** Height of tide above mean sea level */
+const tideAboveMeanSeaLevel = (station: TideStation | undefined, time: Date): number =>
+  station ? predictTideHeight(station, time) - station.datumOffset : 0;
+
+/**
+ * Depth and water under the keel along a route, sampled evenly along every
+ * leg, with the tide at the time each point is passed
+ */
+export const getRouteDepthProfile = async (
+  waypoints: Array<{ lat: number; lon: number }>,
+  options: DepthProfileOptions
+): Promise<DepthProfile> => {
+  const {
+    draft,
+    underKeelClearance = DEPTH_CONFIG.UNDER_KEEL_CLEARANCE_M,
+    departureTime = new Date(),
+    averageSpeed = 5,
+  } = options;
+
+  const legLengths = waypoints.slice(1).map((end, i) =>
+    calculateDistance(waypoints[i].lat, waypoints[i].lon, end.lat, end.lon)
+  );
+  const totalDistance = legLengths.reduce((sum, length) => sum + length, 0);
+  const spacing = Math.max(totalDistance / DEPTH_CONFIG.MAX_SAMPLES, DEPTH_CONFIG.MIN_SPACING_NM);
+
+  const [grids, contours] = await Promise.all([depthGrids.loadAll(), loadDepthContours()]);
+
+  const middle = waypoints[Math.floor(waypoints.length / 2)];
+  const nearest = middle ? findNearestTideStation(middle.lat, middle.lon) : null;
+
+  const points: DepthProfilePoint[] = [];
+  let travelled = 0;
+  legLengths.forEach((length, leg) => {
+    const start = waypoints[leg];
+    const end = waypoints[leg + 1];
+    const steps = Math.max(1, Math.ceil(length / spacing));
+
+    // Each leg's last point is the next leg's first, so it is only added for the final leg
+    const last = leg === legLengths.length - 1 ? steps : steps - 1;
+    for (let step = 0; step <= last; step++) {
+      const t = step / steps;
+      const lat = start.lat + (end.lat - start.lat) * t;
+      const lon = start.lon + (end.lon - start.lon) * t;
+      const distance = travelled + length * t;
+      const time = new Date(departureTime.getTime() + (distance / averageSpeed) * 3600000);
+      const tide = tideAboveMeanSeaLevel(nearest?.station, time);
+      const estimate = estimateDepth(lat, lon, grids, contours);
+
+      points.push({
+        ...estimate,
+        lat,
+        lon,
+        distance,
+        leg,
+        time: time.toISOString(),
+        tide,
+        clearance: estimate.depth === null ? null : estimate.depth + tide - draft,
+      });
+    }
+    travelled += length;
+  });
+
+  const known = points.filter((point) => point.depth !== null && point.clearance !== null);
+  const shallow = known.filter((point) => point.clearance! < underKeelClearance);
+  const shallowLegs = [...new Set(shallow.map((point) => point.leg))];
+  const lowestTide = Math.min(0, ...points.map((point) => point.tide));
+
+  const warnings = shallowLegs.map((leg) => {
+    const worst = shallow
+      .filter((point) => point.leg === leg)
+      .reduce((a, b) => (b.clearance! < a.clearance! ? b : a));
+    const time = new Date(worst.time).toISOString().slice(11, 16);
+    return worst.clearance! < 0
+      ? `GROUNDING: Leg ${leg + 1} has ${(worst.depth! + worst.tide).toFixed(1)}m of water at ${time} UTC ` +
+          `for a ${draft.toFixed(1)}m draft. REROUTE REQUIRED!`
+      : `SHALLOW WATER: Leg ${leg + 1} leaves ${worst.clearance!.toFixed(1)}m under the keel at ${time} UTC ` +
+          `(${underKeelClearance.toFixed(1)}m wanted)`;
+  });
+
+  return {
+    points,
+    minDepth: known.length > 0 ? Math.min(...known.map((point) => point.depth! + point.tide)) : null,
+    minClearance: known.length > 0 ? Math.min(...known.map((point) => point.clearance!)) : null,
+    shallowLegs,
+    requiredDepth: draft + underKeelClearance - lowestTide,
+    tideStation: nearest
+      ? { id: nearest.station.id, name: nearest.station.name, distance: parseFloat(nearest.distance.toFixed(1)) }
+      : undefined,
+    warnings,
+  };
+};
@@ -0,0 +1,117 @@
+/**
+ * FORECAST REFRESH SERVICE
+ * Keeps the forecasts of saved locations warm in the cache
+ *
+ * Runs from the service worker's periodic background sync (and from the page
+ * while it is open): refreshes the marine forecast of every saved location and
+ * every alert rule location into the IndexedDB cache, then evaluates the alert
+ * rules against the fresh data. Keeping the cache warm means the latest
+ * forecast is available once the signal drops at sea.
+ */
+
+import type { Location, MarineWeatherData } from '../types';
+import { fetchMarineWeather } from './weatherService';
+import { cacheService } from './cacheService';
+import { stateStore } from './stateStore';
+import { alertEngine, alertLocationKey } from './alertRuleService';
+import type { AlertNotification } from './alertRuleService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ForecastRefreshResult {
+  /** Locations whose forecast was fetched */
+  refreshed: number;
+  /** Locations served from a still fresh cache entry */
+  cached: number;
+  /** Names of locations whose forecast could not be fetched */
+  failed: string[];
+  /** Alert notifications raised by the fresh forecasts */
+  notifications: AlertNotification[];
+}
+
+export interface ForecastRefreshOptions {
+  /** Refetch even when the cached forecast has not expired */
+  force?: boolean;
+  fetchForecast?: (lat: number, lng: number) => Promise<MarineWeatherData>;
+  now?: Date;
+}
+
+// ============================================
+// SAVED LOCATIONS
+// ============================================
+
+const SAVED_LOCATIONS_KEY = 'savedLocations';
+
+/**
+ * Locations the user keeps in the location picker
+ */
+export async function getSavedLocations(): Promise<Location[]> {
+  return (await stateStore.get<Location[]>(SAVED_LOCATIONS_KEY)) ?? [];
+}
+
+export async function setSavedLocations(locations: Location[]): Promise<void> {
+  await stateStore.set(SAVED_LOCATIONS_KEY, locations);
+}
+
+// ============================================
+// REFRESH
+// ============================================
+
+/**
+ * Refresh the forecast of every saved and alert rule location, then check the alert rules
+ */
+export async function refreshForecasts(options: ForecastRefreshOptions = {}): Promise<ForecastRefreshResult> {
+  const { force = false, fetchForecast = fetchMarineWeather, now = new Date() } = options;
+
+  const locations = new Map<string, { name: string; lat: number; lng: number }>();
+  for (const location of await getSavedLocations()) {
+    locations.set(alertLocationKey(location), location);
+  }
+  for (const rule of (await alertEngine.getRules()).filter((r) => r.enabled)) {
+    if (!locations.has(alertLocationKey(rule.location))) {
+      locations.set(alertLocationKey(rule.location), rule.location);
+    }
+  }
+
+  const result: ForecastRefreshResult = { refreshed: 0, cached: 0, failed: [], notifications: [] };
+  const forecasts = new Map<string, MarineWeatherData>();
+
+  for (const [key, location] of locations) {
+    const marineKey = cacheService.getMarineKey(location.lat, location.lng);
+    try {
+      const cached = force ? null : await cacheService.get<MarineWeatherData>(marineKey);
+      if (cached) {
+        forecasts.set(key, cached);
+        result.cached++;
+        continue;
+      }
+
+      const data = await fetchForecast(location.lat, location.lng);
+      // Same entries the dashboard reads on start
+      await Promise.all([
+        cacheService.set(marineKey, data, cacheService.getTTL('marine')),
+        cacheService.set(
+          cacheService.getCurrentKey(location.lat, location.lng),
+          { ...data.current, timestamp: now.getTime() },
+          cacheService.getTTL('current')
+        ),
+      ]);
+      forecasts.set(key, data);
+      result.refreshed++;
+    } catch (error) {
+      console.error(`[ForecastRefresh] Failed to refresh ${location.name}:`, error);
+      result.failed.push(location.name);
+    }
+  }
+
+  // Every rule location was fetched above; failed ones are skipped by the engine
+  result.notifications = await alertEngine.checkAll(async (lat, lng) => {
+    const data = forecasts.get(alertLocationKey({ lat, lng }));
+    if (!data) throw new Error('No forecast available');
+    return data;
+  }, now);
+
+  return result;
+}
@@ -11,6 +11,8 @@
  * for optimal performance across different map zoom levels.
  */
 
+import { getOfflineGeoJSON } from './offlinePackStore';
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -121,6 +123,31 @@ const AVAILABLE_LAYERS: LayerType[] = [
  */
 const BATHYMETRY_DEPTHS = [200, 1000, 2000, 3000] as const;
 
+/**
+ * Natural Earth repository the 10m files come from, for layers not bundled
+ * with the app
+ */
+const NATURAL_EARTH_BASE_URL = 'https://raw.githubusercontent.com/nvkelso/natural-earth-vector/master/geojson';
+
+const NATURAL_EARTH_10M_FILES: Record<LayerType, string> = {
+  coastline: 'ne_10m_coastline',
+  ocean: 'ne_10m_ocean',
+  land: 'ne_10m_land',
+  lakes: 'ne_10m_lakes',
+  rivers: 'ne_10m_rivers_lake_centerlines',
+  marine_areas: 'ne_10m_geography_marine_polys',
+  ports: 'ne_10m_ports',
+  reefs: 'ne_10m_reefs',
+  minor_islands: 'ne_10m_minor_islands',
+};
+
+const NATURAL_EARTH_BATHYMETRY_FILES: Record<typeof BATHYMETRY_DEPTHS[number], string> = {
+  200: 'ne_10m_bathymetry_K_200',
+  1000: 'ne_10m_bathymetry_J_1000',
+  2000: 'ne_10m_bathymetry_I_2000',
+  3000: 'ne_10m_bathymetry_H_3000',
+};
+
 /**
  * Cache configuration
  */
@@ -289,14 +316,14 @@ export const getResolutionForZoom = (zoom: number): Resolution => {
 /**
  * Build the URL for a GeoJSON layer file
  */
-const buildLayerUrl = (layer: string, resolution: Resolution): string => {
+export const buildLayerUrl = (layer: string, resolution: Resolution): string => {
   return `${GEOJSON_BASE_PATH}/${resolution}/${layer}.json`;
 };
 
 /**
  * Build the URL for a bathymetry layer file
  */
-const buildBathymetryUrl = (depth: number, resolution: Resolution): string => {
+export const buildBathymetryUrl = (depth: number, resolution: Resolution): string => {
   return `${GEOJSON_BASE_PATH}/${resolution}/bathymetry/depth_${depth}m.json`;
 };
 
@@ -308,13 +335,40 @@ const createEmptyCollection = (): GeoJSONCollection => ({
   features: [],
 });
 
+/**
+ * A layer from the offline packs, which hold the 10m files: the requested
+ * file if a pack has it, else its 10m version
+ */
+const getOfflineLayer = async (url: string, highResolutionUrl: string): Promise<GeoJSONCollection | null> =>
+  (await getOfflineGeoJSON(url)) ?? (await getOfflineGeoJSON(highResolutionUrl));
+
+/**
+ * The remote copy of a 10m file that is not bundled with the app, as offline
+ * packs download it
+ */
+const fetchRemoteLayer = async (url: string): Promise<GeoJSONCollection | null> => {
+  const source = getHighResolutionSources().find((candidate) => candidate.url === url);
+  if (!source) return null;
+
+  try {
+    const response = await fetch(source.fallbackUrl);
+    if (!response.ok) return null;
+
+    const data: GeoJSONCollection = await response.json();
+    return data.type === 'FeatureCollection' && Array.isArray(data.features) ? data : null;
+  } catch (error) {
+    console.warn(`GeoJSON fetch error for ${source.fallbackUrl}:`, error);
+    return null;
+  }
+};
+
 /**
  * Fetch a single GeoJSON layer from the server
  *
  * Features:
  * - In-memory caching to avoid duplicate fetches
  * - Request deduplication for concurrent requests
- * - Graceful error handling with empty collection fallback
+ * - Falls back to downloaded offline packs, then an empty collection
  *
  * @param layer - Layer name to fetch (e.g., 'coastline', 'ocean')
  * @param resolution - Resolution level ('10m', '50m', '110m')
@@ -349,7 +403,7 @@ export const fetchGeoJSON = async (
         console.warn(
           `GeoJSON fetch failed for ${layer} at ${resolution}: ${response.status} ${response.statusText}`
         );
-        return createEmptyCollection();
+        return (await getOfflineLayer(url, buildLayerUrl(layer, '10m'))) ?? createEmptyCollection();
       }
 
       const data: GeoJSONCollection = await response.json();
@@ -366,7 +420,7 @@ export const fetchGeoJSON = async (
       return data;
     } catch (error) {
       console.warn(`GeoJSON fetch error for ${layer} at ${resolution}:`, error);
-      return createEmptyCollection();
+      return (await getOfflineLayer(url, buildLayerUrl(layer, '10m'))) ?? createEmptyCollection();
     } finally {
       // Remove from pending requests
       pendingRequests.delete(cacheKey);
@@ -408,6 +462,17 @@ export const fetchBathymetryLayer = async (
   const requestPromise = (async (): Promise<GeoJSONCollection> => {
     const url = buildBathymetryUrl(depth, resolution);
 
+    // Offline packs first, then the remote copy of the 10m contours
+    const fallback = async (): Promise<GeoJSONCollection> => {
+      const offline = await getOfflineLayer(url, buildBathymetryUrl(depth, '10m'));
+      if (offline) return offline;
+
+      const remote = resolution === '10m' ? await fetchRemoteLayer(url) : null;
+      if (!remote) return createEmptyCollection();
+      setInCache(cacheKey, remote);
+      return remote;
+    };
+
     try {
       const response = await fetch(url);
 
@@ -415,7 +480,7 @@ export const fetchBathymetryLayer = async (
         console.warn(
           `Bathymetry fetch failed for ${depth}m at ${resolution}: ${response.status} ${response.statusText}`
         );
-        return createEmptyCollection();
+        return await fallback();
       }
 
       const data: GeoJSONCollection = await response.json();
@@ -432,7 +497,7 @@ export const fetchBathymetryLayer = async (
       return data;
     } catch (error) {
       console.warn(`Bathymetry fetch error for ${depth}m at ${resolution}:`, error);
-      return createEmptyCollection();
+      return await fallback();
     } finally {
       // Remove from pending requests
       pendingRequests.delete(cacheKey);
@@ -618,3 +683,30 @@ export const getAvailableBathymetryDepths = (): readonly number[] => {
 export const getGeoJSONBasePath = (): string => {
   return GEOJSON_BASE_PATH;
 };
+
+// ============================================================================
+// Offline Sources
+// ============================================================================
+
+/**
+ * A GeoJSON file as the app requests it, with the remote file to use when
+ * it is not bundled
+ */
+export interface GeoJSONSource {
+  url: string;
+  fallbackUrl: string;
+}
+
+/**
+ * The 10m layers and bathymetry contours, as downloaded into offline packs
+ */
+export const getHighResolutionSources = (): GeoJSONSource[] => [
+  ...AVAILABLE_LAYERS.map((layer) => ({
+    url: buildLayerUrl(layer, '10m'),
+    fallbackUrl: `${NATURAL_EARTH_BASE_URL}/${NATURAL_EARTH_10M_FILES[layer]}.geojson`,
+  })),
+  ...BATHYMETRY_DEPTHS.map((depth) => ({
+    url: buildBathymetryUrl(depth, '10m'),
+    fallbackUrl: `${NATURAL_EARTH_BASE_URL}/${NATURAL_EARTH_BATHYMETRY_FILES[depth]}.geojson`,
+  })),
+];
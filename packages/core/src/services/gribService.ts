@@ -0,0 +1,291 @@
+/**
+ * GRIB Import Service
+ *
+ * Turns GRIB2 files downloaded offshore (e.g. over satellite) into the marine
+ * grid forecasts the map layers consume, and keeps them in the IndexedDB
+ * cache so they remain available without a connection.
+ *
+ * Supported parameters: wind (UGRD/VGRD or WIND/WDIR, GUST), PRMSL, waves
+ * (HTSGW, DIRPW, PERPW), wind waves (WVHGT/WVDIR/WVPER), swell
+ * (SWELL/SWDIR/SWPER), currents (UOGRD/VOGRD or SPC/DIRC) and WTMP.
+ */
+
+import { CACHE_CONFIG } from '../constants';
+import { decodeGrib2 } from '../utils/grib2';
+import type { Grib2Grid, Grib2Message } from '../utils/grib2';
+import { cacheService } from './cacheService';
+import { buildGridPoint } from './marineGridService';
+import type { BoundingBox, GridPointValues, GridResolution, MarineGridForecast } from './marineGridService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GribFileSummary {
+  id: string;
+  /** Original file name */
+  name: string;
+  importedAt: string;
+  /** Model run time (ISO) */
+  referenceTime: string;
+  /** Valid times of the forecast steps (ISO), ascending */
+  times: string[];
+  /** GRIB short names found in the file, e.g. ["UGRD", "VGRD", "HTSGW"] */
+  parameters: string[];
+  bounds: BoundingBox;
+  /** When the cached copy expires (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Decoded GRIB fields as stored in the cache
+ * Kept as plain value arrays, which is far more compact than grid point objects.
+ */
+export interface GribDataset extends GribFileSummary {
+  resolution: GridResolution;
+  /** Values per parameter and forecast step (north-to-south, west-to-east); null when a step lacks the parameter */
+  fields: Record<string, Array<number[] | null>>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SUPPORTED_PARAMETERS = [
+  'UGRD', 'VGRD', 'WIND', 'WDIR', 'GUST', 'PRMSL',
+  'HTSGW', 'DIRPW', 'PERPW', 'WVHGT', 'WVDIR', 'WVPER', 'SWELL', 'SWDIR', 'SWPER',
+  'UOGRD', 'VOGRD', 'SPC', 'DIRC', 'WTMP'
+];
+
+/** Open-Meteo marine variables fed straight from a GRIB parameter */
+const MARINE_VARIABLES: Record<string, string> = {
+  HTSGW: 'wave_height',
+  DIRPW: 'wave_direction',
+  PERPW: 'wave_period',
+  WVHGT: 'wind_wave_height',
+  WVDIR: 'wind_wave_direction',
+  WVPER: 'wind_wave_period',
+  SWELL: 'swell_wave_height',
+  SWDIR: 'swell_wave_direction',
+  SWPER: 'swell_wave_period',
+};
+
+const MS_TO_KMH = 3.6;
+const KELVIN = 273.15;
+
+const INDEX_KEY = 'grib:index';
+const datasetKey = (id: string) => `grib:${id}`;
+
+// ============================================
+// CONVERSION
+// ============================================
+
+const sameGrid = (a: Grib2Grid, b: Grib2Grid): boolean =>
+  a.nx === b.nx && a.ny === b.ny &&
+  Math.abs(a.la1 - b.la1) < 1e-6 && Math.abs(a.lo1 - b.lo1) < 1e-6 &&
+  Math.abs(a.dx - b.dx) < 1e-6 && Math.abs(a.dy - b.dy) < 1e-6;
+
+/** Wind is wanted at 10 m above ground when a file carries several levels */
+const isPreferredLevel = (message: Grib2Message): boolean =>
+  message.surface.type === 103 && message.surface.value === 10;
+
+/**
+ * Collect the supported fields of a decoded GRIB file into a dataset
+ *
+ * All fields must share the grid of the first supported field; fields on
+ * other grids are skipped.
+ *
+ * @param messages - Output of decodeGrib2
+ * @param name - File name shown to the user
+ */
+export function buildGribDataset(messages: Grib2Message[], name: string): GribDataset {
+  const usable = messages.filter((m) => m.parameter && SUPPORTED_PARAMETERS.includes(m.parameter));
+  if (usable.length === 0) {
+    throw new Error('GRIB file contains no supported marine parameters');
+  }
+
+  const grid = usable[0].grid;
+  const onGrid = usable.filter((m) => sameGrid(m.grid, grid));
+  if (onGrid.length < usable.length) {
+    console.warn(`[GribService] Skipping ${usable.length - onGrid.length} field(s) on a different grid`);
+  }
+
+  const times = [...new Set(onGrid.map((m) => m.validTime.toISOString()))].sort();
+
+  const chosen = new Map<string, Grib2Message>();
+  for (const message of onGrid) {
+    const key = `${message.parameter}@${message.validTime.toISOString()}`;
+    const existing = chosen.get(key);
+    if (!existing || (!isPreferredLevel(existing) && isPreferredLevel(message))) {
+      chosen.set(key, message);
+    }
+  }
+
+  const fields: GribDataset['fields'] = {};
+  for (const message of chosen.values()) {
+    const parameter = message.parameter!;
+    fields[parameter] ??= times.map(() => null);
+    fields[parameter][times.indexOf(message.validTime.toISOString())] = message.values;
+  }
+
+  const referenceTime = onGrid.reduce((earliest, m) => (m.referenceTime < earliest ? m.referenceTime : earliest), onGrid[0].referenceTime);
+
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    importedAt: new Date().toISOString(),
+    referenceTime: referenceTime.toISOString(),
+    times,
+    parameters: Object.keys(fields),
+    bounds: { north: grid.la1, south: grid.la2, west: grid.lo1, east: grid.lo2 },
+    resolution: { latPoints: grid.ny, lngPoints: grid.nx },
+    expiresAt: 0,
+    fields,
+  };
+}
+
+/**
+ * Convert a GRIB dataset to the time-indexed marine grid forecast
+ *
+ * Values are converted to the Open-Meteo conventions the rest of the app
+ * uses (km/h, hPa, Celsius, current direction "towards").
+ */
+export function gribDatasetToForecast(dataset: GribDataset): MarineGridForecast {
+  const { bounds, resolution, times, fields } = dataset;
+  const dx = resolution.lngPoints > 1 ? (bounds.east - bounds.west) / (resolution.lngPoints - 1) : 0;
+  const dy = resolution.latPoints > 1 ? (bounds.north - bounds.south) / (resolution.latPoints - 1) : 0;
+
+  const frames = times.map((_, t) => {
+    const at = (parameter: string, index: number): number | null => {
+      const value = fields[parameter]?.[t]?.[index];
+      return value === undefined || value === null || isNaN(value) ? null : value;
+    };
+
+    return Array.from({ length: resolution.latPoints * resolution.lngPoints }, (_, index) => {
+      const row = Math.floor(index / resolution.lngPoints);
+      const column = index % resolution.lngPoints;
+      const marine: GridPointValues = {};
+      const wind: GridPointValues = {};
+
+      // Wind: U/V are "towards" components, Open-Meteo direction is "from"
+      const u = at('UGRD', index);
+      const v = at('VGRD', index);
+      if (u !== null && v !== null) {
+        wind.wind_speed_10m = Math.hypot(u, v) * MS_TO_KMH;
+        wind.wind_direction_10m = ((270 - (Math.atan2(v, u) * 180) / Math.PI) % 360 + 360) % 360;
+      } else {
+        const speed = at('WIND', index);
+        wind.wind_speed_10m = speed === null ? null : speed * MS_TO_KMH;
+        wind.wind_direction_10m = at('WDIR', index);
+      }
+      const gust = at('GUST', index);
+      wind.wind_gusts_10m = gust === null ? null : gust * MS_TO_KMH;
+      const pressure = at('PRMSL', index);
+      wind.pressure_msl = pressure === null ? null : pressure / 100;
+
+      for (const [parameter, variable] of Object.entries(MARINE_VARIABLES)) {
+        marine[variable] = at(parameter, index);
+      }
+
+      // Currents: direction is "towards", as Open-Meteo reports it
+      const cu = at('UOGRD', index);
+      const cv = at('VOGRD', index);
+      if (cu !== null && cv !== null) {
+        marine.ocean_current_velocity = Math.hypot(cu, cv) * MS_TO_KMH;
+        marine.ocean_current_direction = ((Math.atan2(cu, cv) * 180) / Math.PI + 360) % 360;
+      } else {
+        const speed = at('SPC', index);
+        marine.ocean_current_velocity = speed === null ? null : speed * MS_TO_KMH;
+        marine.ocean_current_direction = at('DIRC', index);
+      }
+
+      const temperature = at('WTMP', index);
+      marine.sea_surface_temperature = temperature === null ? null : temperature - KELVIN;
+
+      return buildGridPoint({ lat: bounds.north - row * dy, lng: bounds.west + column * dx }, marine, wind);
+    });
+  });
+
+  return { bounds, resolution, times, frames };
+}
+
+const toSummary = (dataset: GribDataset): GribFileSummary => ({
+  id: dataset.id,
+  name: dataset.name,
+  importedAt: dataset.importedAt,
+  referenceTime: dataset.referenceTime,
+  times: dataset.times,
+  parameters: dataset.parameters,
+  bounds: dataset.bounds,
+  expiresAt: dataset.expiresAt,
+});
+
+// ============================================
+// IMPORT SERVICE
+// ============================================
+
+/**
+ * Imported GRIB files, persisted in the IndexedDB cache
+ */
+class GribImportService {
+  /** Datasets used this session, so a failed cache write doesn't lose an import */
+  private datasets = new Map<string, GribDataset>();
+
+  /**
+   * Decode a GRIB2 file and store it for offline use
+   * Kept at least CACHE_CONFIG.TTL.GRIB, or until its last forecast step.
+   */
+  async importFile(data: ArrayBuffer | Uint8Array, name: string): Promise<GribFileSummary> {
+    const dataset = buildGribDataset(decodeGrib2(data), name);
+
+    const lastValid = new Date(dataset.times[dataset.times.length - 1]).getTime();
+    const ttl = Math.max(CACHE_CONFIG.TTL.GRIB, lastValid - Date.now());
+    dataset.expiresAt = Date.now() + ttl;
+
+    this.datasets.set(dataset.id, dataset);
+    await cacheService.set(datasetKey(dataset.id), dataset, ttl);
+
+    const index = (await this.list()).filter((entry) => entry.id !== dataset.id);
+    await this.saveIndex([...index, toSummary(dataset)]);
+
+    return toSummary(dataset);
+  }
+
+  /**
+   * Imported files that have not expired, oldest first
+   */
+  async list(): Promise<GribFileSummary[]> {
+    const index = (await cacheService.get<GribFileSummary[]>(INDEX_KEY)) ?? [];
+    const now = Date.now();
+    return index.filter((entry) => entry.expiresAt > now);
+  }
+
+  /**
+   * Load an imported file as a marine grid forecast
+   * @returns null if the file was removed or has expired
+   */
+  async load(id: string): Promise<MarineGridForecast | null> {
+    const dataset = this.datasets.get(id) ?? (await cacheService.get<GribDataset>(datasetKey(id)));
+    if (!dataset || dataset.expiresAt <= Date.now()) {
+      return null;
+    }
+    this.datasets.set(id, dataset);
+    return gribDatasetToForecast(dataset);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.datasets.delete(id);
+    await cacheService.delete(datasetKey(id));
+    await this.saveIndex((await this.list()).filter((entry) => entry.id !== id));
+  }
+
+  private async saveIndex(index: GribFileSummary[]): Promise<void> {
+    const latest = Math.max(0, ...index.map((entry) => entry.expiresAt));
+    await cacheService.set(INDEX_KEY, index, Math.max(CACHE_CONFIG.TTL.GRIB, latest - Date.now()));
+  }
+}
+
+// Export singleton instance
+export const gribImports = new GribImportService();
+
+export { GribImportService };
@@ -0,0 +1,223 @@
+/**
+ * HAZARD AVOIDANCE SERVICE
+ * Reroutes a route until hazard analysis finds it clean: every leg with a
+ * conflict (a critical or dangerous hazard within its buffer, an area
+ * entered, a traffic lane sailed the wrong way, land or shallow water) is
+ * planned again between the user's own waypoints, keeping clear of every
+ * hazard found so far, and the result is analyzed again.
+ *
+ * ⚠️ A clean result only means no conflict is known from the available data.
+ * Always verify with official nautical charts.
+ */
+
+import type { Waypoint } from '../types/navigation';
+import { AVOIDANCE_CONFIG } from '../constants';
+import { analyzeRouteHazards } from './nauticalChartService';
+import type { NauticalHazard, RouteAnalysis, RouteAnalysisOptions } from './nauticalChartService';
+import { calculateRouteDistance } from './routePlanningService';
+import { findLandCrossings, findSeaRouteWaypoints } from './seaRouteService';
+import type { AvoidArea } from './seaRouteService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface HazardAvoidanceOptions extends RouteAnalysisOptions {
+  draft?: number; // meters (default: 2m)
+  safetyMargin?: number; // meters clearance from hazards (default: 500m)
+  shoreClearance?: number; // meters
+  depthContour?: number; // meters, stay deeper than this bathymetry contour
+  maxIterations?: number; // (default: AVOIDANCE_CONFIG.MAX_ITERATIONS)
+}
+
+export interface HazardAvoidanceResult {
+  /** True when the final route has no known conflicts */
+  resolved: boolean;
+  original: Waypoint[];
+  waypoints: Waypoint[];
+  /** Analysis of the final route */
+  analysis: RouteAnalysis;
+  landCrossings: number[];
+  addedDistance: number; // nautical miles
+  iterations: number;
+  /** Why the route could not be made clean */
+  unresolved: string[];
+}
+
+/**
+ * The conflicts found on each leg of a route, by leg index
+ */
+interface LegConflicts {
+  legs: Set<number>;
+  hazards: NauticalHazard[];
+  reasons: string[];
+}
+
+// ============================================
+// CONFLICTS
+// ============================================
+
+const needsAvoiding = (hazard: NauticalHazard) => hazard.severity === 'critical' || hazard.severity === 'danger';
+
+const findConflicts = (analysis: RouteAnalysis, landCrossings: number[]): LegConflicts => {
+  const legs = new Set<number>(landCrossings);
+  const hazards: NauticalHazard[] = [];
+  const reasons = landCrossings.map((leg) => `Leg ${leg + 1} crosses land`);
+
+  for (const { hazard, waypointSegment, distanceFromRoute } of analysis.hazards) {
+    if (!needsAvoiding(hazard)) continue;
+    legs.add(waypointSegment);
+    hazards.push(hazard);
+    reasons.push(
+      `Leg ${waypointSegment + 1} passes ${Math.round(distanceFromRoute)}m from ${hazard.description || hazard.type}`
+    );
+  }
+
+  for (const issue of analysis.trafficSeparation) {
+    if (issue.issue !== 'wrong_direction') continue;
+    legs.add(issue.waypointSegment);
+    hazards.push(issue.hazard);
+    reasons.push(`Leg ${issue.waypointSegment + 1} runs against the traffic flow in ${issue.hazard.description || 'a traffic lane'}`);
+  }
+
+  for (const leg of analysis.depthProfile?.shallowLegs ?? []) {
+    legs.add(leg);
+    reasons.push(`Leg ${leg + 1} has too little water under the keel`);
+  }
+
+  return { legs, hazards, reasons };
+};
+
+const sameTrack = (a: Waypoint[], b: Waypoint[]) =>
+  a.length === b.length && a.every((point, i) => point.lat === b[i].lat && point.lon === b[i].lon);
+
+/** Keep-clear area for a hazard, matching the distance analyzeRouteHazards flags */
+const toAvoidArea = (hazard: NauticalHazard, safetyMargin: number): AvoidArea => ({
+  lat: hazard.lat,
+  lon: hazard.lon,
+  // Traffic lanes only need keeping out of, not a margin around
+  clearance: hazard.type === 'traffic_lane' ? 0 : safetyMargin + (hazard.radius || 100),
+  polygon: hazard.polygon,
+});
+
+// ============================================
+// SOLVER
+// ============================================
+
+/**
+ * Reroute a route around hazards, land and shallow water until analysis
+ * finds it clean, or until it can't be improved. Only the legs with
+ * conflicts are changed; each is replaced by the shortest water route
+ * between the route's own waypoints that keeps clear of every hazard found,
+ * so the added distance is as small as the search grid allows.
+ */
+export const solveHazardAvoidance = async (
+  waypoints: Waypoint[],
+  options: HazardAvoidanceOptions = {}
+): Promise<HazardAvoidanceResult> => {
+  const {
+    draft = 2.0,
+    safetyMargin = 500,
+    shoreClearance,
+    depthContour,
+    maxIterations = AVOIDANCE_CONFIG.MAX_ITERATIONS,
+    ...analysisOptions
+  } = options;
+
+  // Turning points added between each pair of the route's own waypoints
+  const sections: Waypoint[][] = waypoints.slice(1).map(() => []);
+  const failedSections = new Set<number>();
+  const avoid = new Map<string, AvoidArea>();
+  // Once a leg was too shallow, every leg keeps to water deep enough
+  let minDepth: number | undefined;
+  const unresolved: string[] = [];
+
+  const flatten = () => {
+    const route: Waypoint[] = [waypoints[0]];
+    const sectionOfLeg: number[] = [];
+    sections.forEach((turns, section) => {
+      for (const turn of [...turns, waypoints[section + 1]]) {
+        sectionOfLeg.push(section);
+        route.push(turns.includes(turn) ? { ...turn, name: `WP${route.length}` } : turn);
+      }
+    });
+    return { route, sectionOfLeg };
+  };
+
+  const analyze = async (route: Waypoint[]) => {
+    const [analysis, landCrossings] = await Promise.all([
+      analyzeRouteHazards(route, draft, safetyMargin, analysisOptions),
+      findLandCrossings(route),
+    ]);
+    return { analysis, landCrossings };
+  };
+
+  let { route, sectionOfLeg } = flatten();
+  let { analysis, landCrossings } = await analyze(route);
+  let conflicts = findConflicts(analysis, landCrossings);
+  let iterations = 0;
+
+  while (conflicts.legs.size > 0 && iterations < maxIterations) {
+    iterations++;
+
+    for (const hazard of conflicts.hazards) {
+      if (!avoid.has(hazard.id)) avoid.set(hazard.id, toAvoidArea(hazard, safetyMargin));
+    }
+    if (analysis.depthProfile?.shallowLegs.length) {
+      minDepth = Math.max(minDepth ?? 0, analysis.depthProfile.requiredDepth);
+    }
+
+    const toReroute = new Set([...conflicts.legs].map((leg) => sectionOfLeg[leg]));
+    failedSections.forEach((section) => toReroute.delete(section));
+    if (toReroute.size === 0) break;
+
+    for (const section of toReroute) {
+      const from = waypoints[section];
+      const to = waypoints[section + 1];
+      try {
+        const detour = await findSeaRouteWaypoints(from, to, {
+          shoreClearance,
+          depthContour,
+          minDepth,
+          avoid: [...avoid.values()],
+        });
+        sections[section] = detour.slice(1, -1);
+      } catch (error) {
+        failedSections.add(section);
+        unresolved.push(`No clear route from ${from.name} to ${to.name}: ${(error as Error).message}`);
+      }
+    }
+
+    const previous = route;
+    ({ route, sectionOfLeg } = flatten());
+    if (sameTrack(previous, route)) break;
+
+    ({ analysis, landCrossings } = await analyze(route));
+    conflicts = findConflicts(analysis, landCrossings);
+  }
+
+  // Conflicts at the route's own waypoints can't be routed around
+  for (const crossing of analysis.areaCrossings) {
+    if (!needsAvoiding(crossing.hazard)) continue;
+    const start = route[crossing.waypointSegment];
+    const end = route[crossing.waypointSegment + 1];
+    const inside = [crossing.entry === null && start, crossing.exit === null && end].filter(
+      (point): point is Waypoint => !!point && waypoints.includes(point)
+    );
+    for (const point of inside) {
+      unresolved.push(`${point.name} lies inside ${crossing.hazard.description || crossing.hazard.type}; move it clear first`);
+    }
+  }
+  unresolved.push(...conflicts.reasons);
+
+  return {
+    resolved: conflicts.legs.size === 0,
+    original: waypoints,
+    waypoints: route,
+    analysis,
+    landCrossings,
+    addedDistance: calculateRouteDistance(route) - calculateRouteDistance(waypoints),
+    iterations,
+    unresolved: conflicts.legs.size === 0 ? [] : [...new Set(unresolved)],
+  };
+};
@@ -1,8 +1,26 @@
 export * from './weatherService';
 export * from './coastsMarinasService';
 export * from './nauticalChartService';
+export * from './seamarkService';
 export * from './offlineNavigationService';
 export * from './routePlanningService';
+export * from './seaRouteService';
+export * from './depthService';
+export * from './hazardAvoidanceService';
 export * from './cacheService';
 export * from './marineGridService';
 export * from './geojsonService';
+export * from './weatherRoutingService';
+export * from './departurePlannerService';
+export * from './instrumentService';
+export * from './aisService';
+export * from './anchorWatchService';
+export * from './mobService';
+export * from './gribService';
+export * from './modelComparisonService';
+export * from './verificationService';
+export * from './stateStore';
+export * from './alertRuleService';
+export * from './forecastRefreshService';
+export * from './offlinePackStore';
+export * from './offlinePackService';
@@ -0,0 +1,467 @@
+/**
+ * INSTRUMENT FEED
+ * Collects NMEA 0183 sentences from onboard instruments into a single
+ * snapshot of position, heading, wind, depth and water data.
+ *
+ * Sentences arrive through a pluggable InstrumentSource:
+ * - WebSocket (browser) - a NMEA-over-WebSocket bridge in front of the
+ *   boat's TCP/UDP multiplexer (kplex, Signal K, ...)
+ * - Replay - a recorded sentence log played back with its original timing
+ */
+
+import type { InstrumentData } from '../types/navigation';
+import { calculateTrueWind, parseNmeaSentence } from '../utils/nmea';
+import type { NmeaSentence, NmeaSentenceType } from '../utils/nmea';
+
+// ============================================
+// SOURCES
+// ============================================
+
+export type InstrumentSourceStatus = 'connecting' | 'connected' | 'disconnected' | 'ended';
+
+export interface InstrumentSourceHandlers {
+  onLine: (line: string) => void;
+  onError?: (error: Error) => void;
+  onStatus?: (status: InstrumentSourceStatus) => void;
+}
+
+export interface InstrumentSource {
+  readonly name: string;
+  start(handlers: InstrumentSourceHandlers): void;
+  stop(): void;
+}
+
+/**
+ * Split a stream of text chunks into complete lines
+ */
+const createLineBuffer = (onLine: (line: string) => void) => {
+  let pending = '';
+  return (chunk: string) => {
+    const lines = (pending + chunk).split(/\r?\n/);
+    pending = lines.pop() ?? '';
+    lines.forEach((line) => line.trim() && onLine(line));
+  };
+};
+
+/**
+ * Live NMEA stream from a WebSocket (or TCP bridge exposed as a WebSocket)
+ * Reconnects automatically until stopped.
+ */
+export const createWebSocketSource = (
+  url: string,
+  options: { reconnectDelayMs?: number } = {}
+): InstrumentSource => {
+  const reconnectDelayMs = options.reconnectDelayMs ?? 5000;
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = true;
+
+  const connect = (handlers: InstrumentSourceHandlers) => {
+    const push = createLineBuffer(handlers.onLine);
+    handlers.onStatus?.('connecting');
+
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      handlers.onError?.(error as Error);
+      handlers.onStatus?.('disconnected');
+      return;
+    }
+
+    socket.onopen = () => handlers.onStatus?.('connected');
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === 'string') {
+        push(event.data.endsWith('\n') ? event.data : `${event.data}\n`);
+      } else if (event.data instanceof ArrayBuffer) {
+        push(new TextDecoder().decode(event.data));
+      }
+    };
+    socket.onerror = () => handlers.onError?.(new Error(`Instrument connection error: ${url}`));
+    socket.onclose = () => {
+      socket = null;
+      handlers.onStatus?.('disconnected');
+      if (!stopped) {
+        reconnectTimer = setTimeout(() => connect(handlers), reconnectDelayMs);
+      }
+    };
+  };
+
+  return {
+    name: url,
+    start(handlers) {
+      stopped = false;
+      connect(handlers);
+    },
+    stop() {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      socket?.close();
+      socket = null;
+    },
+  };
+};
+
+/**
+ * Seconds since midnight UTC of the fix in a timed sentence, if any
+ */
+const sentenceTimeOfDay = (line: string): number | undefined => {
+  let sentence: NmeaSentence | null;
+  try {
+    sentence = parseNmeaSentence(line);
+  } catch {
+    return undefined;
+  }
+  const time = sentence?.type === 'RMC' || sentence?.type === 'GGA' ? sentence.time : undefined;
+  if (!time || time.length < 6) return undefined;
+
+  return (
+    parseInt(time.slice(0, 2), 10) * 3600 + parseInt(time.slice(2, 4), 10) * 60 + parseFloat(time.slice(4))
+  );
+};
+
+/**
+ * Replay a recorded NMEA log
+ *
+ * Timing follows the RMC/GGA fix times in the log, scaled by `rate`
+ * (2 = twice real time). Logs without fix times are played at one line
+ * every `intervalMs`.
+ */
+export const createReplaySource = (
+  log: string,
+  options: { name?: string; rate?: number; loop?: boolean; intervalMs?: number } = {}
+): InstrumentSource => {
+  const rate = options.rate ?? 1;
+  const intervalMs = options.intervalMs ?? 100;
+  const lines = log.split(/\r?\n/).filter((line) => line.trim());
+
+  // Offset of each line from the start of the log (ms)
+  const times = lines.map(sentenceTimeOfDay);
+  const hasTiming = times.some((t) => t !== undefined);
+  const offsets: number[] = [];
+  let elapsed = 0;
+  let lastTime: number | undefined;
+  lines.forEach((_, i) => {
+    const time = times[i];
+    if (!hasTiming) {
+      elapsed = i * intervalMs;
+    } else if (time !== undefined) {
+      if (lastTime !== undefined) {
+        const delta = time - lastTime;
+        elapsed += (delta < 0 ? delta + 86400 : delta) * 1000; // midnight rollover
+      }
+      lastTime = time;
+    }
+    offsets.push(elapsed);
+  });
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const stop = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    name: options.name ?? 'NMEA replay',
+    start(handlers) {
+      stop();
+      handlers.onStatus?.('connected');
+
+      const playFrom = (index: number) => {
+        // Emit every line due at the same instant, then wait for the next one
+        let i = index;
+        do {
+          handlers.onLine(lines[i]);
+          i++;
+        } while (i < lines.length && offsets[i] === offsets[i - 1]);
+
+        if (i < lines.length) {
+          timer = setTimeout(() => playFrom(i), (offsets[i] - offsets[i - 1]) / rate);
+        } else if (options.loop) {
+          timer = setTimeout(() => playFrom(0), intervalMs / rate);
+        } else {
+          timer = null;
+          handlers.onStatus?.('ended');
+        }
+      };
+
+      if (lines.length > 0) {
+        playFrom(0);
+      } else {
+        handlers.onStatus?.('ended');
+      }
+    },
+    stop,
+  };
+};
+
+// ============================================
+// FEED
+// ============================================
+
+/** Readings older than this no longer take precedence over derived values */
+const PRECEDENCE_WINDOW_MS = 5000;
+
+/** lastSeen key for MWV sentences carrying true (rather than apparent) wind */
+const TRUE_MWV = 'MWV-true';
+
+class InstrumentFeed {
+  private source: InstrumentSource | null = null;
+  private data: InstrumentData = { timestamp: new Date(0) };
+  private lastSeen: Partial<Record<NmeaSentenceType | typeof TRUE_MWV, number>> = {};
+  private transducerOffset: number | undefined;
+  private listeners: Map<string, Set<Function>> = new Map();
+  private stats = { sentences: 0, errors: 0 };
+  private status: InstrumentSourceStatus = 'disconnected';
+
+  /**
+   * Start reading from a source, replacing any current one
+   */
+  connect(source: InstrumentSource): void {
+    this.disconnect();
+    this.source = source;
+    source.start({
+      onLine: (line) => this.ingest(line),
+      onError: (error) => this.emit('error', error),
+      onStatus: (status) => {
+        this.status = status;
+        this.emit('status', status);
+      },
+    });
+  }
+
+  /**
+   * Stop the current source (readings are kept)
+   */
+  disconnect(): void {
+    if (this.source) {
+      this.source.stop();
+      this.source = null;
+      this.status = 'disconnected';
+      this.emit('status', this.status);
+    }
+  }
+
+  /**
+   * Feed one raw NMEA line into the feed
+   */
+  ingest(line: string): NmeaSentence | null {
+    // Raw lines go out first so other decoders (AIS) can share the stream
+    if (line.trim()) this.emit('line', line);
+
+    let sentence: NmeaSentence | null;
+    try {
+      sentence = parseNmeaSentence(line);
+    } catch (error) {
+      this.stats.errors++;
+      this.emit('error', error);
+      return null;
+    }
+    if (!sentence) return null;
+
+    this.stats.sentences++;
+    this.apply(sentence);
+    this.lastSeen[sentence.type] = Date.now();
+    this.emit('sentence', sentence);
+    this.emit('data', this.getData());
+    return sentence;
+  }
+
+  /**
+   * Latest readings
+   */
+  getData(): InstrumentData {
+    return { ...this.data };
+  }
+
+  getStatus(): {
+    source: string | null;
+    status: InstrumentSourceStatus;
+    sentences: number;
+    errors: number;
+  } {
+    return {
+      source: this.source?.name ?? null,
+      status: this.status,
+      ...this.stats,
+    };
+  }
+
+  isConnected(): boolean {
+    return this.source !== null;
+  }
+
+  /**
+   * Clear readings and counters
+   */
+  reset(): void {
+    this.data = { timestamp: new Date(0) };
+    this.lastSeen = {};
+    this.transducerOffset = undefined;
+    this.stats = { sentences: 0, errors: 0 };
+  }
+
+  private seenRecently(type: NmeaSentenceType | typeof TRUE_MWV): boolean {
+    const seen = this.lastSeen[type];
+    return seen !== undefined && Date.now() - seen < PRECEDENCE_WINDOW_MS;
+  }
+
+  private apply(sentence: NmeaSentence): void {
+    const data = this.data;
+    data.timestamp = new Date();
+
+    switch (sentence.type) {
+      case 'RMC':
+        if (sentence.variation !== undefined) data.variation = sentence.variation;
+        if (!sentence.valid || sentence.lat === undefined || sentence.lon === undefined) break;
+        data.position = { lat: sentence.lat, lon: sentence.lon };
+        data.fixTime = sentence.timestamp;
+        if (sentence.speedOverGround !== undefined) data.speedOverGround = sentence.speedOverGround;
+        if (sentence.courseOverGround !== undefined) data.courseOverGround = sentence.courseOverGround;
+        this.emit('position', this.getData());
+        break;
+
+      case 'GGA':
+        data.fixQuality = sentence.fixQuality;
+        data.satellites = sentence.satellites;
+        data.hdop = sentence.hdop;
+        if (sentence.fixQuality === 0 || sentence.lat === undefined || sentence.lon === undefined) break;
+        data.position = { lat: sentence.lat, lon: sentence.lon };
+        // RMC carries speed and course too, so only GGA-only receivers drive position updates
+        if (!this.seenRecently('RMC')) this.emit('position', this.getData());
+        break;
+
+      case 'VTG':
+        if (sentence.speedOverGround !== undefined) data.speedOverGround = sentence.speedOverGround;
+        if (sentence.courseOverGround !== undefined) data.courseOverGround = sentence.courseOverGround;
+        break;
+
+      case 'HDT':
+        if (sentence.heading !== undefined) data.heading = sentence.heading;
+        break;
+
+      case 'HDG':
+        if (sentence.magneticHeading === undefined) break;
+        if (sentence.variation !== undefined) data.variation = sentence.variation;
+        data.magneticHeading = sentence.magneticHeading;
+        if (!this.seenRecently('HDT')) {
+          data.heading =
+            (sentence.magneticHeading + (sentence.deviation ?? 0) + (data.variation ?? 0) + 360) % 360;
+        }
+        break;
+
+      case 'VHW':
+        if (sentence.speedThroughWater !== undefined) data.speedThroughWater = sentence.speedThroughWater;
+        break;
+
+      case 'MWV':
+        if (!sentence.valid || sentence.angle === undefined || sentence.speed === undefined) break;
+        if (sentence.reference === 'apparent') {
+          data.apparentWind = { angle: sentence.angle, speed: sentence.speed };
+          this.deriveTrueWind();
+        } else {
+          data.trueWind = {
+            angle: sentence.angle,
+            speed: sentence.speed,
+            direction: (this.currentHeading() + sentence.angle) % 360,
+          };
+          this.lastSeen[TRUE_MWV] = Date.now();
+        }
+        break;
+
+      case 'MWD':
+        if (sentence.direction === undefined || sentence.speed === undefined) break;
+        data.trueWind = {
+          angle: (sentence.direction - this.currentHeading() + 360) % 360,
+          speed: sentence.speed,
+          direction: sentence.direction,
+        };
+        break;
+
+      case 'DPT':
+        if (sentence.depth === undefined) break;
+        this.transducerOffset = sentence.offset;
+        this.applyDepth(sentence.depth);
+        break;
+
+      case 'DBT':
+        if (sentence.depth === undefined || this.seenRecently('DPT')) break;
+        this.applyDepth(sentence.depth);
+        break;
+
+      case 'MTW':
+        if (sentence.temperature !== undefined) data.waterTemperature = sentence.temperature;
+        break;
+
+      case 'XDR':
+        for (const m of sentence.measurements) {
+          if (m.value === undefined) continue;
+          if (m.transducerType === 'P') {
+            data.pressure = m.unit === 'B' ? m.value * 1000 : m.unit === 'P' ? m.value / 100 : m.value;
+          } else if (m.transducerType === 'C' && !/water|sea/i.test(m.name)) {
+            data.airTemperature = m.value;
+          }
+        }
+        break;
+    }
+  }
+
+  private currentHeading(): number {
+    return this.data.heading ?? this.data.courseOverGround ?? 0;
+  }
+
+  /**
+   * True wind from apparent wind, unless the instruments already send it
+   */
+  private deriveTrueWind(): void {
+    const { apparentWind, speedThroughWater, speedOverGround } = this.data;
+    if (!apparentWind || this.seenRecently('MWD') || this.seenRecently(TRUE_MWV)) return;
+
+    const boatSpeed = speedThroughWater ?? speedOverGround;
+    if (boatSpeed === undefined) return;
+
+    this.data.trueWind = calculateTrueWind(apparentWind.angle, apparentWind.speed, boatSpeed, this.currentHeading());
+  }
+
+  private applyDepth(belowTransducer: number): void {
+    const offset = this.transducerOffset;
+    if (offset !== undefined && offset > 0) {
+      this.data.depth = belowTransducer + offset;
+      this.data.depthBelowKeel = undefined;
+    } else if (offset !== undefined && offset < 0) {
+      this.data.depth = belowTransducer;
+      this.data.depthBelowKeel = belowTransducer + offset;
+    } else {
+      this.data.depth = belowTransducer;
+    }
+  }
+
+  /**
+   * Event listener management (several listeners per event)
+   */
+  on(event: string, callback: Function): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback?: Function): void {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  private emit(event: string, data: any): void {
+    this.listeners.get(event)?.forEach((callback) => callback(data));
+  }
+}
+
+// Export singleton instance
+export const instrumentFeed = new InstrumentFeed();
+
+// Export class for custom instances
+export { InstrumentFeed };
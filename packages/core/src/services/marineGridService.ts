@@ -12,6 +12,7 @@
 
 import { API_ENDPOINTS, WEATHER_CONSTANTS } from '../constants';
 import { deduplicatedFetch } from '../utils/requestDeduplication';
+import { getOfflineForecast } from './offlinePackStore';
 import {
   getPrimaryWeatherModel,
   getPrimaryMarineModel,
@@ -133,6 +134,9 @@ export interface MarineGridPoint {
   // Sea level and temperature
   seaLevelHeight?: number;    // meters - sea level height MSL (tidal)
   seaTemperature?: number;    // Celsius
+
+  // Atmosphere
+  pressure?: number;          // hPa - mean sea level pressure
 }
 
 /**
@@ -321,6 +325,203 @@ function getWaveHeightColor(height: number): string {
   return '#e879f9'; // Fuchsia-400
 }
 
+/** Open-Meteo Marine API variables requested for every grid point */
+const MARINE_GRID_VARIABLES = [
+  // Significant wave data (combined wind waves + swell)
+  'wave_height', 'wave_direction', 'wave_period', 'wave_peak_period',
+  // Swell data (long-period waves from distant storms)
+  'swell_wave_height', 'swell_wave_direction', 'swell_wave_period',
+  // Wind wave data (locally generated waves)
+  'wind_wave_height', 'wind_wave_direction', 'wind_wave_period',
+  // Ocean currents
+  'ocean_current_velocity', 'ocean_current_direction',
+  // Sea temperature and level
+  'sea_surface_temperature', 'sea_level_height_msl'
+];
+
+/** Open-Meteo Forecast API (atmospheric) variables requested for every grid point */
+const WIND_GRID_VARIABLES = ['wind_speed_10m', 'wind_direction_10m', 'wind_gusts_10m'];
+
+/** Open-Meteo variables for one point and time, keyed by API name (km/h, degrees, meters) */
+export type GridPointValues = Record<string, number | null | undefined>;
+
+/**
+ * Fetch marine and wind responses for every point of a grid
+ *
+ * Handles model selection, the per-model coordinate limit and the fallback to
+ * best_match when a regional model rejects the request.
+ *
+ * @param block - 'current' for conditions now, 'hourly' for a forecast time series
+ * @param extraParams - Additional query parameters (e.g. forecast_hours)
+ */
+async function fetchGridResponses(
+  bounds: BoundingBox,
+  resolution: GridResolution,
+  block: 'current' | 'hourly',
+  extraParams: Record<string, string> = {}
+): Promise<{ coordinates: { lat: number; lng: number }[]; marineArray: any[]; forecastArray: any[] }> {
+  // Generate grid coordinates
+  const coordinates = generateGridCoordinates(bounds, resolution);
+  const coordinateCount = coordinates.length;
+
+  // Open-Meteo supports comma-separated lists for bulk queries
+  const lats = coordinates.map(c => c.lat.toFixed(4)).join(',');
+  const lngs = coordinates.map(c => c.lng.toFixed(4)).join(',');
+
+  // Calculate center of bounding box for model selection
+  const centerLat = (bounds.north + bounds.south) / 2;
+  const centerLng = (bounds.east + bounds.west) / 2;
+
+  // Get optimal models for this region based on geolocation
+  let marineModel = getModelForLocation(centerLat, centerLng, true);
+  const weatherModel = getModelForLocation(centerLat, centerLng, false);
+
+  // Check if coordinate count exceeds model limit - auto-fallback to best_match
+  const maxCoords = MAX_COORDINATES_BY_MODEL[marineModel] || MAX_COORDINATES_BY_MODEL['default'];
+  if (coordinateCount > maxCoords) {
+    console.warn(`[MarineGridService] ${coordinateCount} coordinates exceeds ${marineModel} limit (${maxCoords}), falling back to best_match`);
+    marineModel = 'best_match';
+  }
+
+  // Log model selection for debugging
+  if (WEATHER_CONSTANTS.PREFER_HIGH_RESOLUTION) {
+    const selection = getOptimalModels(centerLat, centerLng);
+    console.log(`[MarineGridService] Region: ${selection.region} | Marine: ${marineModel} | Weather: ${weatherModel} | Resolution: ~${selection.recommendedResolutionKm}km | Coords: ${coordinateCount}`);
+  }
+
+  // Helper function to fetch marine data with fallback
+  const fetchMarineWithFallback = async (model: string): Promise<any> => {
+    const marineParams = new URLSearchParams({
+      latitude: lats,
+      longitude: lngs,
+      [block]: MARINE_GRID_VARIABLES.join(','),
+      timezone: WEATHER_CONSTANTS.TIMEZONE,
+      models: model,
+      cell_selection: WEATHER_CONSTANTS.MARINE_CELL_SELECTION,
+      ...extraParams
+    });
+
+    try {
+      return await deduplicatedFetch<any>(
+        `${API_ENDPOINTS.MARINE}?${marineParams.toString()}`,
+        undefined,
+        { ttl: 3000 }
+      );
+    } catch (error: any) {
+      // If this model failed with 400 and we have a fallback, try it
+      if (error?.message?.includes('400') || error?.status === 400) {
+        const fallback = getFallbackModel(model);
+        if (fallback) {
+          console.warn(`[MarineGridService] ${model} failed with 400, trying fallback: ${fallback}`);
+          marineParams.set('models', fallback);
+          return await deduplicatedFetch<any>(
+            `${API_ENDPOINTS.MARINE}?${marineParams.toString()}`,
+            undefined,
+            { ttl: 3000 }
+          );
+        }
+      }
+      throw error;
+    }
+  };
+
+  // Fetch atmospheric data (wind) from forecast API
+  // Best Practice: Use cell_selection: 'land' for wind data accuracy
+  const forecastParams = new URLSearchParams({
+    latitude: lats,
+    longitude: lngs,
+    [block]: WIND_GRID_VARIABLES.join(','),
+    timezone: WEATHER_CONSTANTS.TIMEZONE,
+    models: weatherModel,
+    cell_selection: WEATHER_CONSTANTS.LAND_CELL_SELECTION,
+    ...extraParams
+  });
+
+  // Use deduplicatedFetch to prevent duplicate API calls
+  const [marineResponses, forecastResponses] = await Promise.all([
+    fetchMarineWithFallback(marineModel),
+    deduplicatedFetch<any>(`${API_ENDPOINTS.FORECAST}?${forecastParams.toString()}`, undefined, { ttl: 3000 })
+  ]);
+
+  // Open-Meteo returns an array for multiple coordinates, or single object for one coordinate
+  const marineArray = Array.isArray(marineResponses) ? marineResponses : [marineResponses];
+  const forecastArray = Array.isArray(forecastResponses) ? forecastResponses : [forecastResponses];
+
+  return { coordinates, marineArray, forecastArray };
+}
+
+/**
+ * Build a grid point from one set of marine and wind API values
+ * Other forecast sources (e.g. imported GRIB files) convert to the same
+ * variables so every layer sees identical units and conventions.
+ */
+export function buildGridPoint(coord: { lat: number; lng: number }, marine: GridPointValues, wind: GridPointValues): MarineGridPoint {
+  // Wind data from forecast API (atmospheric)
+  const windSpeed = wind.wind_speed_10m || 0;
+  const windDirection = wind.wind_direction_10m || 0;
+  const windGusts = wind.wind_gusts_10m || 0;
+  const windUV = directionSpeedToUV(windSpeed, windDirection);
+
+  // Ocean current data from marine API
+  const currentSpeed = marine.ocean_current_velocity || 0;
+  const currentDirection = marine.ocean_current_direction || 0;
+  const currentUV = directionSpeedToUV(currentSpeed, currentDirection);
+
+  return {
+    lat: coord.lat,
+    lng: coord.lng,
+
+    // Wind (from Forecast API with cell_selection: 'land')
+    windSpeed,
+    windDirection,
+    windGusts,
+    windU: windUV.u,
+    windV: windUV.v,
+
+    // Ocean Currents (from Marine API with cell_selection: 'sea')
+    currentSpeed,
+    currentDirection,
+    currentU: currentUV.u,
+    currentV: currentUV.v,
+
+    // Significant Wave (combined wind waves + swell)
+    waveHeight: marine.wave_height || 0,
+    waveDirection: marine.wave_direction || 0,
+    wavePeriod: marine.wave_period || 0,
+    wavePeakPeriod: marine.wave_peak_period || 0,
+
+    // Swell (long-period waves from distant storms)
+    swellHeight: marine.swell_wave_height || 0,
+    swellDirection: marine.swell_wave_direction || 0,
+    swellPeriod: marine.swell_wave_period || 0,
+
+    // Wind Waves (locally generated)
+    windWaveHeight: marine.wind_wave_height || 0,
+    windWaveDirection: marine.wind_wave_direction || 0,
+    windWavePeriod: marine.wind_wave_period || 0,
+
+    // Sea Level & Temperature
+    seaLevelHeight: marine.sea_level_height_msl || 0,
+    seaTemperature: marine.sea_surface_temperature || 0,
+
+    // Pressure (only provided by some sources)
+    ...(wind.pressure_msl ? { pressure: wind.pressure_msl } : {})
+  };
+}
+
+/**
+ * Values of an hourly API block at one time step
+ */
+function hourlyValuesAt(hourly: Record<string, unknown[]> | undefined, index: number): GridPointValues {
+  const values: GridPointValues = {};
+  if (!hourly) return values;
+
+  for (const [key, series] of Object.entries(hourly)) {
+    if (key !== 'time') values[key] = series?.[index] as number | null | undefined;
+  }
+  return values;
+}
+
 // ============================================
 // MAIN API FUNCTIONS
 // ============================================
@@ -337,156 +538,12 @@ export async function fetchMarineGridData(
   resolution: GridResolution = { latPoints: 5, lngPoints: 5 }
 ): Promise<MarineGridData> {
   try {
-    // Generate grid coordinates
-    const coordinates = generateGridCoordinates(bounds, resolution);
-    const coordinateCount = coordinates.length;
-
-    // Open-Meteo supports comma-separated lists for bulk queries
-    const lats = coordinates.map(c => c.lat.toFixed(4)).join(',');
-    const lngs = coordinates.map(c => c.lng.toFixed(4)).join(',');
-
-    // Calculate center of bounding box for model selection
-    const centerLat = (bounds.north + bounds.south) / 2;
-    const centerLng = (bounds.east + bounds.west) / 2;
-
-    // Get optimal models for this region based on geolocation
-    let marineModel = getModelForLocation(centerLat, centerLng, true);
-    const weatherModel = getModelForLocation(centerLat, centerLng, false);
-
-    // Check if coordinate count exceeds model limit - auto-fallback to best_match
-    const maxCoords = MAX_COORDINATES_BY_MODEL[marineModel] || MAX_COORDINATES_BY_MODEL['default'];
-    if (coordinateCount > maxCoords) {
-      console.warn(`[MarineGridService] ${coordinateCount} coordinates exceeds ${marineModel} limit (${maxCoords}), falling back to best_match`);
-      marineModel = 'best_match';
-    }
-
-    // Log model selection for debugging
-    if (WEATHER_CONSTANTS.PREFER_HIGH_RESOLUTION) {
-      const selection = getOptimalModels(centerLat, centerLng);
-      console.log(`[MarineGridService] Region: ${selection.region} | Marine: ${marineModel} | Weather: ${weatherModel} | Resolution: ~${selection.recommendedResolutionKm}km | Coords: ${coordinateCount}`);
-    }
-
-    // Helper function to fetch marine data with fallback
-    const fetchMarineWithFallback = async (model: string): Promise<any> => {
-      const marineParams = new URLSearchParams({
-        latitude: lats,
-        longitude: lngs,
-        current: [
-          // Significant wave data (combined wind waves + swell)
-          'wave_height', 'wave_direction', 'wave_period', 'wave_peak_period',
-          // Swell data (long-period waves from distant storms)
-          'swell_wave_height', 'swell_wave_direction', 'swell_wave_period',
-          // Wind wave data (locally generated waves)
-          'wind_wave_height', 'wind_wave_direction', 'wind_wave_period',
-          // Ocean currents
-          'ocean_current_velocity', 'ocean_current_direction',
-          // Sea temperature and level
-          'sea_surface_temperature', 'sea_level_height_msl'
-        ].join(','),
-        timezone: WEATHER_CONSTANTS.TIMEZONE,
-        models: model,
-        cell_selection: WEATHER_CONSTANTS.MARINE_CELL_SELECTION
-      });
-
-      try {
-        return await deduplicatedFetch<any>(
-          `${API_ENDPOINTS.MARINE}?${marineParams.toString()}`,
-          undefined,
-          { ttl: 3000 }
-        );
-      } catch (error: any) {
-        // If this model failed with 400 and we have a fallback, try it
-        if (error?.message?.includes('400') || error?.status === 400) {
-          const fallback = getFallbackModel(model);
-          if (fallback) {
-            console.warn(`[MarineGridService] ${model} failed with 400, trying fallback: ${fallback}`);
-            marineParams.set('models', fallback);
-            return await deduplicatedFetch<any>(
-              `${API_ENDPOINTS.MARINE}?${marineParams.toString()}`,
-              undefined,
-              { ttl: 3000 }
-            );
-          }
-        }
-        throw error;
-      }
-    };
-
-    // Fetch atmospheric data (wind) from forecast API
-    // Best Practice: Use cell_selection: 'land' for wind data accuracy
-    const forecastParams = new URLSearchParams({
-      latitude: lats,
-      longitude: lngs,
-      current: 'wind_speed_10m,wind_direction_10m,wind_gusts_10m',
-      timezone: WEATHER_CONSTANTS.TIMEZONE,
-      models: weatherModel,
-      cell_selection: WEATHER_CONSTANTS.LAND_CELL_SELECTION
-    });
-
-    // Use deduplicatedFetch to prevent duplicate API calls
-    const [marineResponses, forecastResponses] = await Promise.all([
-      fetchMarineWithFallback(marineModel),
-      deduplicatedFetch<any>(`${API_ENDPOINTS.FORECAST}?${forecastParams.toString()}`, undefined, { ttl: 3000 })
-    ]);
-
-    // Open-Meteo returns an array for multiple coordinates, or single object for one coordinate
-    const marineArray = Array.isArray(marineResponses) ? marineResponses : [marineResponses];
-    const forecastArray = Array.isArray(forecastResponses) ? forecastResponses : [forecastResponses];
+    const { coordinates, marineArray, forecastArray } = await fetchGridResponses(bounds, resolution, 'current');
 
     // Process each grid point
-    const points: MarineGridPoint[] = marineArray.map((marine, index) => {
-      const forecast = forecastArray[index] || {};
-      const coord = coordinates[index];
-
-      // Wind data from forecast API (atmospheric)
-      const windSpeed = forecast.current?.wind_speed_10m || 0;
-      const windDirection = forecast.current?.wind_direction_10m || 0;
-      const windGusts = forecast.current?.wind_gusts_10m || 0;
-      const windUV = directionSpeedToUV(windSpeed, windDirection);
-
-      // Ocean current data from marine API
-      const currentSpeed = marine.current?.ocean_current_velocity || 0;
-      const currentDirection = marine.current?.ocean_current_direction || 0;
-      const currentUV = directionSpeedToUV(currentSpeed, currentDirection);
-
-      return {
-        lat: coord.lat,
-        lng: coord.lng,
-
-        // Wind (from Forecast API with cell_selection: 'land')
-        windSpeed,
-        windDirection,
-        windGusts,
-        windU: windUV.u,
-        windV: windUV.v,
-
-        // Ocean Currents (from Marine API with cell_selection: 'sea')
-        currentSpeed,
-        currentDirection,
-        currentU: currentUV.u,
-        currentV: currentUV.v,
-
-        // Significant Wave (combined wind waves + swell)
-        waveHeight: marine.current?.wave_height || 0,
-        waveDirection: marine.current?.wave_direction || 0,
-        wavePeriod: marine.current?.wave_period || 0,
-        wavePeakPeriod: marine.current?.wave_peak_period || 0,
-
-        // Swell (long-period waves from distant storms)
-        swellHeight: marine.current?.swell_wave_height || 0,
-        swellDirection: marine.current?.swell_wave_direction || 0,
-        swellPeriod: marine.current?.swell_wave_period || 0,
-
-        // Wind Waves (locally generated)
-        windWaveHeight: marine.current?.wind_wave_height || 0,
-        windWaveDirection: marine.current?.wind_wave_direction || 0,
-        windWavePeriod: marine.current?.wind_wave_period || 0,
-
-        // Sea Level & Temperature
-        seaLevelHeight: marine.current?.sea_level_height_msl || 0,
-        seaTemperature: marine.current?.sea_surface_temperature || 0
-      };
-    });
+    const points: MarineGridPoint[] = marineArray.map((marine, index) =>
+      buildGridPoint(coordinates[index], marine.current || {}, forecastArray[index]?.current || {})
+    );
 
     return {
       bounds,
@@ -501,18 +558,86 @@ export async function fetchMarineGridData(
   }
 }
 
+/**
+ * Fetch an hourly marine grid forecast for a bounding box in one request
+ *
+ * Returns one frame of grid points per forecast hour, starting at the current
+ * hour. Times are requested in GMT so frames line up across regions. When the
+ * request fails, a downloaded offline pack covering the area is used instead.
+ *
+ * @param bounds - Bounding box coordinates
+ * @param resolution - Grid resolution (number of points)
+ * @param forecastHours - Forecast horizon in hours
+ * @returns Time-indexed stack of grid frames
+ */
+export async function fetchMarineGridForecast(
+  bounds: BoundingBox,
+  resolution: GridResolution = { latPoints: 5, lngPoints: 5 },
+  forecastHours: number = WEATHER_CONSTANTS.GRID_FORECAST_HOURS
+): Promise<MarineGridForecast> {
+  try {
+    const { coordinates, marineArray, forecastArray } = await fetchGridResponses(bounds, resolution, 'hourly', {
+      timezone: 'GMT',
+      forecast_hours: forecastHours.toString()
+    });
+
+    const hourlyTimes: string[] = forecastArray[0]?.hourly?.time || marineArray[0]?.hourly?.time || [];
+    const times = hourlyTimes.map(t => new Date(`${t}Z`).toISOString());
+
+    const frames: MarineGridPoint[][] = times.map((_, t) =>
+      coordinates.map((coord, index) =>
+        buildGridPoint(
+          coord,
+          hourlyValuesAt(marineArray[index]?.hourly, t),
+          hourlyValuesAt(forecastArray[index]?.hourly, t)
+        )
+      )
+    );
+
+    return { bounds, resolution, times, frames };
+  } catch (error) {
+    // Offline: use the forecast of a downloaded pack covering the area
+    const offline = await getOfflineForecast(bounds);
+    if (offline) return offline;
+
+    console.error('Failed to fetch marine grid forecast:', error);
+    throw error;
+  }
+}
+
+/**
+ * Grid snapshot to render, with its forecast reference time and offset
+ * A forecast is sampled at `time` (default now); a snapshot is used as is.
+ */
+function resolveGridFrame(
+  gridData: MarineGridData | MarineGridForecast,
+  time: Date = new Date()
+): { frame: MarineGridData; refTime: string; forecastTime: number } {
+  if (!('frames' in gridData)) {
+    return { frame: gridData, refTime: new Date().toISOString(), forecastTime: 0 };
+  }
+
+  const frame = getMarineGridFrame(gridData, time);
+  const refTime = gridData.times[0];
+  const forecastTime = Math.max(0, (new Date(frame.timestamp).getTime() - new Date(refTime).getTime()) / 3600000);
+  return { frame, refTime, forecastTime };
+}
+
 /**
  * Convert marine grid data to leaflet-velocity format
  *
- * @param gridData - Marine grid data
+ * @param gridData - Marine grid snapshot, or an hourly grid forecast
  * @param type - Type of velocity data ('wind' or 'current')
+ * @param time - Valid time to render when given a forecast (default now)
  * @returns Velocity field with U and V components
  */
 export function convertToVelocityFormat(
-  gridData: MarineGridData,
-  type: 'wind' | 'current' = 'wind'
+  gridData: MarineGridData | MarineGridForecast,
+  type: 'wind' | 'current' = 'wind',
+  time?: Date
 ): VelocityField {
-  const { bounds, resolution, points } = gridData;
+  const { frame, refTime, forecastTime } = resolveGridFrame(gridData, time);
+  const { bounds, resolution, points } = frame;
   const { latPoints, lngPoints } = resolution;
 
   // Calculate grid spacing
@@ -551,8 +676,8 @@ export function convertToVelocityFormat(
     dx,
     dy,
     parameterNumberName: componentName,
-    refTime: new Date().toISOString(), // Reference time for leaflet-velocity
-    forecastTime: 0, // Forecast offset in hours
+    refTime, // Reference time for leaflet-velocity
+    forecastTime, // Forecast offset in hours
     // Best practice fields for leaflet-velocity compatibility:
     gridDefinitionTemplate: 0, // 0 = latitude-longitude grid (only supported type)
     scanMode: 0, // 0 = scan west→east (bit 7=0), north→south (bit 6=0)
@@ -584,15 +709,17 @@ export function convertToVelocityFormat(
 /**
  * Generate grid cells for wave height heatmap
  *
- * @param gridData - Marine grid data
+ * @param gridData - Marine grid snapshot, or an hourly grid forecast
  * @param waveType - Type of wave data ('wave' or 'swell')
+ * @param time - Valid time to render when given a forecast (default now)
  * @returns Wave grid with cells and statistics
  */
 export function generateWaveGridCells(
-  gridData: MarineGridData,
-  waveType: 'wave' | 'swell' = 'wave'
+  gridData: MarineGridData | MarineGridForecast,
+  waveType: 'wave' | 'swell' = 'wave',
+  time?: Date
 ): WaveGrid {
-  const { points, bounds, resolution } = gridData;
+  const { points, bounds, resolution } = resolveGridFrame(gridData, time).frame;
 
   // Extract wave heights
   const values = points.map(p =>
@@ -664,3 +791,229 @@ export async function fetchWaveHeatmap(
   const gridData = await fetchMarineGridData(bounds, resolution);
   return generateWaveGridCells(gridData, waveType);
 }
+
+// ============================================
+// TIME-INDEXED FORECAST SAMPLING
+// ============================================
+
+/**
+ * Marine grid forecast: one grid frame per forecast hour
+ *
+ * Every frame shares the same bounds, resolution and point ordering
+ * (north to south, then west to east) as MarineGridData.
+ */
+export interface MarineGridForecast {
+  bounds: BoundingBox;
+  resolution: GridResolution;
+  /** Valid time of each frame (ISO 8601, ascending) */
+  times: string[];
+  /** Grid points for each time step */
+  frames: MarineGridPoint[][];
+}
+
+/** Fields that are interpolated linearly; directions are rebuilt from U/V or taken from the nearest point */
+const SCALAR_FIELDS = [
+  'windGusts', 'windU', 'windV', 'currentU', 'currentV',
+  'waveHeight', 'wavePeriod', 'wavePeakPeriod',
+  'swellHeight', 'swellPeriod', 'windWaveHeight', 'windWavePeriod',
+  'seaLevelHeight', 'seaTemperature', 'pressure'
+] as const;
+
+const DIRECTION_FIELDS = ['waveDirection', 'swellDirection', 'windWaveDirection'] as const;
+
+/**
+ * Convert U/V ("to" components) back to meteorological speed and direction (FROM)
+ */
+function uvToDirectionSpeed(u: number, v: number): { speed: number; direction: number } {
+  const speed = Math.sqrt(u * u + v * v);
+  const direction = ((270 - (Math.atan2(v, u) * 180) / Math.PI) % 360 + 360) % 360;
+  return { speed, direction };
+}
+
+/**
+ * Blend weighted grid points into a single point at (lat, lng)
+ */
+function blendPoints(
+  lat: number,
+  lng: number,
+  weighted: { point: MarineGridPoint; weight: number }[]
+): MarineGridPoint {
+  const result: MarineGridPoint = { lat, lng };
+
+  for (const field of SCALAR_FIELDS) {
+    let sum = 0;
+    let weightSum = 0;
+    for (const { point, weight } of weighted) {
+      const value = point[field];
+      if (value === undefined || value === null || isNaN(value)) continue;
+      sum += value * weight;
+      weightSum += weight;
+    }
+    if (weightSum > 0) result[field] = sum / weightSum;
+  }
+
+  // Directions don't average linearly - use the dominant contributor
+  const dominant = weighted.reduce((best, item) => (item.weight > best.weight ? item : best)).point;
+  for (const field of DIRECTION_FIELDS) {
+    if (dominant[field] !== undefined) result[field] = dominant[field];
+  }
+
+  if (result.windU !== undefined && result.windV !== undefined) {
+    const wind = uvToDirectionSpeed(result.windU, result.windV);
+    result.windSpeed = wind.speed;
+    result.windDirection = wind.direction;
+  } else {
+    result.windSpeed = dominant.windSpeed;
+    result.windDirection = dominant.windDirection;
+  }
+
+  if (result.currentU !== undefined && result.currentV !== undefined) {
+    // Same convention as the source field, since U/V were built with directionSpeedToUV
+    const current = uvToDirectionSpeed(result.currentU, result.currentV);
+    result.currentSpeed = current.speed;
+    result.currentDirection = current.direction;
+  } else {
+    result.currentSpeed = dominant.currentSpeed;
+    result.currentDirection = dominant.currentDirection;
+  }
+
+  return result;
+}
+
+/**
+ * Bilinear interpolation of a single grid frame
+ * Returns null when the location lies outside the grid bounds
+ */
+function sampleFrame(
+  frame: MarineGridPoint[],
+  bounds: BoundingBox,
+  resolution: GridResolution,
+  lat: number,
+  lng: number
+): MarineGridPoint | null {
+  const { north, south, east, west } = bounds;
+  const { latPoints, lngPoints } = resolution;
+
+  if (lat > north || lat < south || lng < west || lng > east) return null;
+
+  // Fractional row (from north) and column (from west)
+  const row = latPoints > 1 ? ((north - lat) / (north - south)) * (latPoints - 1) : 0;
+  const col = lngPoints > 1 ? ((lng - west) / (east - west)) * (lngPoints - 1) : 0;
+
+  const r0 = Math.min(Math.floor(row), latPoints - 1);
+  const c0 = Math.min(Math.floor(col), lngPoints - 1);
+  const r1 = Math.min(r0 + 1, latPoints - 1);
+  const c1 = Math.min(c0 + 1, lngPoints - 1);
+  const fr = row - r0;
+  const fc = col - c0;
+
+  const at = (r: number, c: number) => frame[r * lngPoints + c];
+
+  return blendPoints(lat, lng, [
+    { point: at(r0, c0), weight: (1 - fr) * (1 - fc) },
+    { point: at(r0, c1), weight: (1 - fr) * fc },
+    { point: at(r1, c0), weight: fr * (1 - fc) },
+    { point: at(r1, c1), weight: fr * fc }
+  ]);
+}
+
+/**
+ * Frame at or before a time, and the fraction of the way to the next frame
+ * Times outside the forecast are clamped (fraction 0).
+ */
+function findFrameIndex(forecast: MarineGridForecast, time: Date): { index: number; fraction: number } {
+  const target = time.getTime();
+  const timestamps = forecast.times.map(t => new Date(t).getTime());
+
+  let index = 0;
+  while (index < timestamps.length - 1 && timestamps[index + 1] <= target) {
+    index++;
+  }
+
+  if (index >= forecast.frames.length - 1 || target <= timestamps[index]) {
+    return { index, fraction: 0 };
+  }
+  return { index, fraction: (target - timestamps[index]) / (timestamps[index + 1] - timestamps[index]) };
+}
+
+/**
+ * Sample a marine grid forecast at any location and time
+ *
+ * Interpolates bilinearly in space and linearly between the two bracketing
+ * forecast hours. Times before the first or after the last frame are clamped.
+ *
+ * @param forecast - Time-indexed grid forecast
+ * @param lat - Latitude
+ * @param lng - Longitude
+ * @param time - Time to sample
+ * @returns Interpolated grid point, or null outside the forecast bounds
+ */
+export function sampleMarineGridForecast(
+  forecast: MarineGridForecast,
+  lat: number,
+  lng: number,
+  time: Date
+): MarineGridPoint | null {
+  const { bounds, resolution, frames } = forecast;
+  if (frames.length === 0) return null;
+
+  const { index, fraction } = findFrameIndex(forecast, time);
+
+  const before = sampleFrame(frames[index], bounds, resolution, lat, lng);
+  if (!before || fraction === 0) {
+    return before;
+  }
+
+  const after = sampleFrame(frames[index + 1], bounds, resolution, lat, lng);
+  if (!after) return before;
+
+  return blendPoints(lat, lng, [
+    { point: before, weight: 1 - fraction },
+    { point: after, weight: fraction }
+  ]);
+}
+
+/**
+ * Wrap a single grid snapshot as a one-frame forecast
+ * Useful when only current conditions are available
+ */
+export function gridDataToForecast(gridData: MarineGridData): MarineGridForecast {
+  return {
+    bounds: gridData.bounds,
+    resolution: gridData.resolution,
+    times: [gridData.timestamp],
+    frames: [gridData.points]
+  };
+}
+
+/**
+ * Grid snapshot of a forecast at any time
+ *
+ * Blends the two bracketing hourly frames point by point, so the result can be
+ * passed to convertToVelocityFormat / generateWaveGridCells for animation.
+ *
+ * @param forecast - Time-indexed grid forecast
+ * @param time - Valid time of the snapshot (clamped to the forecast range)
+ */
+export function getMarineGridFrame(forecast: MarineGridForecast, time: Date): MarineGridData {
+  const { bounds, resolution, frames } = forecast;
+  if (frames.length === 0) {
+    throw new Error('Marine grid forecast has no frames');
+  }
+
+  const { index, fraction } = findFrameIndex(forecast, time);
+  const before = frames[index];
+  const points = fraction === 0
+    ? before
+    : before.map((point, i) => blendPoints(point.lat, point.lng, [
+        { point, weight: 1 - fraction },
+        { point: frames[index + 1][i], weight: fraction }
+      ]));
+
+  return {
+    bounds,
+    resolution,
+    timestamp: fraction === 0 ? forecast.times[index] : time.toISOString(),
+    points
+  };
+}
@@ -0,0 +1,413 @@
+/**
+ * MAN OVERBOARD
+ * One-tap MOB: records where and when, switches navigation back to the person,
+ * tracks their estimated drift and lays out a search pattern around the datum.
+ * Works offline from the last forecast cached on the device.
+ */
+
+import type {
+  MobDrift,
+  MobEvent,
+  MobStatus,
+  NavigationAlert,
+  SearchPatternType,
+} from '../types/navigation';
+import type { PointForecast } from '../types';
+import { NAVIGATION_CONSTANTS } from '../constants';
+import { fetchPointForecast } from './weatherService';
+import { calculateBearing, calculateDistance } from './routePlanningService';
+import { offlineNavigation } from './offlineNavigationService';
+import type { OfflineNavigationSystem } from './offlineNavigationService';
+
+const EVENT_KEY = 'mobEvent';
+const FORECAST_KEY = 'mobForecast';
+const MOB = NAVIGATION_CONSTANTS.MOB;
+
+type LatLon = { lat: number; lon: number };
+type DriftConditions = Pick<PointForecast, 'windSpeed' | 'windDirection' | 'currentSpeed' | 'currentDirection'>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Position a distance along a bearing (equirectangular, fine for search areas)
+ */
+const offsetPosition = (from: LatLon, bearing: number, distanceNM: number): LatLon => ({
+  lat: from.lat + (distanceNM * Math.cos(toRadians(bearing))) / 60,
+  lon: from.lon + (distanceNM * Math.sin(toRadians(bearing))) / (60 * Math.cos(toRadians(from.lat))),
+});
+
+/**
+ * Drift of a person in the water: leeway downwind plus the surface current
+ *
+ * @param conditions - Forecast wind (km/h, from) and current (km/h, towards)
+ */
+export const estimateDrift = (
+  conditions: DriftConditions,
+  leewayFactor: number = MOB.LEEWAY_FACTOR
+): Pick<MobDrift, 'speed' | 'direction' | 'leeway' | 'current'> => {
+  const leeway = conditions.windSpeed * NAVIGATION_CONSTANTS.KMH_TO_KNOTS * leewayFactor;
+  const leewayDirection = conditions.windDirection + 180;
+  // Open-Meteo current direction is the direction the current flows towards
+  const current = (conditions.currentSpeed ?? 0) * NAVIGATION_CONSTANTS.KMH_TO_KNOTS;
+  const currentDirection = conditions.currentDirection ?? 0;
+
+  const north = leeway * Math.cos(toRadians(leewayDirection)) + current * Math.cos(toRadians(currentDirection));
+  const east = leeway * Math.sin(toRadians(leewayDirection)) + current * Math.sin(toRadians(currentDirection));
+
+  return {
+    speed: Math.sqrt(north ** 2 + east ** 2),
+    direction: (toDegrees(Math.atan2(east, north)) + 360) % 360,
+    leeway,
+    current,
+  };
+};
+
+/**
+ * Most probable position after drifting for a number of minutes
+ */
+export const driftPosition = (
+  position: LatLon,
+  drift: Pick<MobDrift, 'speed' | 'direction'> | undefined,
+  elapsedMinutes: number
+): LatLon => {
+  if (!drift || drift.speed === 0) return { ...position };
+  return offsetPosition(position, drift.direction, (drift.speed * elapsedMinutes) / 60);
+};
+
+/**
+ * Expanding square search: legs of S, S, 2S, 2S, 3S... with 90° right turns
+ */
+export const expandingSquarePattern = (
+  datum: LatLon,
+  trackSpacingNM: number = MOB.TRACK_SPACING_NM,
+  legs: number = MOB.EXPANDING_SQUARE_LEGS,
+  initialCourse: number = 0
+): LatLon[] => {
+  const points: LatLon[] = [{ ...datum }];
+  let position = datum;
+
+  for (let leg = 0; leg < legs; leg++) {
+    const length = Math.floor(leg / 2 + 1) * trackSpacingNM;
+    position = offsetPosition(position, (initialCourse + leg * 90) % 360, length);
+    points.push(position);
+  }
+
+  return points;
+};
+
+/**
+ * Sector search: three equilateral triangles through the datum, 120° right turns
+ */
+export const sectorSearchPattern = (
+  datum: LatLon,
+  radiusNM: number = MOB.SECTOR_RADIUS_NM,
+  initialCourse: number = 0
+): LatLon[] => {
+  const points: LatLon[] = [{ ...datum }];
+  let position = datum;
+  let course = initialCourse;
+
+  for (let triangle = 0; triangle < 3; triangle++) {
+    for (let leg = 0; leg < 3; leg++) {
+      position = offsetPosition(position, course, radiusNM);
+      points.push(position);
+      if (leg < 2) course = (course + 120) % 360;
+    }
+    // Back at the datum: carry straight on into the next triangle
+  }
+
+  return points;
+};
+
+// ============================================
+// MAN OVERBOARD SERVICE
+// ============================================
+
+class ManOverboard {
+  private event: MobEvent | null = null;
+  private navigation: OfflineNavigationSystem | null;
+  private listeners: Map<string, Set<Function>> = new Map();
+  private updateTimer: ReturnType<typeof setInterval> | null = null;
+  private ownPosition: LatLon | null = null;
+
+  constructor(navigation: OfflineNavigationSystem | null = null) {
+    this.navigation = navigation;
+  }
+
+  /**
+   * Raise a man overboard at a position (defaults to the current position)
+   *
+   * Navigation switches to the MOB point before the drift forecast is loaded.
+   *
+   * @throws Error if no position is given and none can be obtained
+   */
+  async activate(position?: LatLon, searchPattern: SearchPatternType = 'expanding-square'): Promise<MobEvent> {
+    const mobPosition = position ?? (await this.getCurrentPosition());
+
+    this.event = {
+      position: { lat: mobPosition.lat, lon: mobPosition.lon },
+      timestamp: new Date(),
+      searchPattern,
+    };
+    this.persist();
+
+    this.emit('alert', {
+      type: 'man-overboard',
+      message: `MAN OVERBOARD at ${mobPosition.lat.toFixed(4)}, ${mobPosition.lon.toFixed(4)}`,
+      severity: 'error',
+      timestamp: this.event.timestamp,
+    } as NavigationAlert);
+
+    if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+      navigator.vibrate([500, 200, 500, 200, 500]);
+    }
+
+    this.navigation?.startMobNavigation(this.event.position).catch((error) => this.emit('error', error));
+    this.startUpdates();
+
+    await this.refreshDrift();
+    return this.event;
+  }
+
+  /**
+   * Restore an active MOB after a reload and tell listeners about it
+   *
+   * @returns true if a MOB was restored
+   */
+  resume(): boolean {
+    if (this.event) return true;
+    if (typeof localStorage === 'undefined') return false;
+
+    const saved = localStorage.getItem(EVENT_KEY);
+    if (!saved) return false;
+
+    try {
+      const parsed = JSON.parse(saved);
+      this.event = {
+        ...parsed,
+        timestamp: new Date(parsed.timestamp),
+        drift: parsed.drift && {
+          ...parsed.drift,
+          forecastTime: parsed.drift.forecastTime ? new Date(parsed.drift.forecastTime) : undefined,
+        },
+      };
+    } catch (error) {
+      console.warn('Failed to restore MOB:', error);
+      localStorage.removeItem(EVENT_KEY);
+      return false;
+    }
+
+    this.navigation
+      ?.startMobNavigation(this.getStatus().datum)
+      .catch((error) => this.emit('error', error));
+    this.startUpdates();
+    this.update();
+    return true;
+  }
+
+  /**
+   * Person recovered (or false alarm): leave MOB mode
+   */
+  async clear(): Promise<void> {
+    this.stopUpdates();
+    this.event = null;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(EVENT_KEY);
+    }
+    this.emit('update', null);
+    await this.navigation?.endMobNavigation();
+  }
+
+  isActive(): boolean {
+    return this.event !== null;
+  }
+
+  setSearchPattern(searchPattern: SearchPatternType): void {
+    if (!this.event) return;
+    this.event.searchPattern = searchPattern;
+    this.persist();
+    this.update();
+  }
+
+  /**
+   * Own position used for bearing and distance to the datum
+   */
+  updateOwnPosition(position: LatLon): void {
+    this.ownPosition = { lat: position.lat, lon: position.lon };
+  }
+
+  /**
+   * Fetch and cache a forecast for the sailing area so drift can be
+   * estimated offline later
+   */
+  async primeForecast(lat: number, lon: number): Promise<boolean> {
+    const forecast = await fetchPointForecast(lat, lon);
+    if (forecast.weatherDesc === 'Unavailable') return false;
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(FORECAST_KEY, JSON.stringify({ forecast, fetchedAt: new Date() }));
+    }
+    return true;
+  }
+
+  /**
+   * Estimate drift from a live forecast, falling back to the cached one
+   */
+  async refreshDrift(): Promise<MobDrift | undefined> {
+    if (!this.event) return undefined;
+    const { lat, lon } = this.event.position;
+
+    const online = typeof navigator === 'undefined' || navigator.onLine !== false;
+    let fresh = false;
+    if (online) {
+      try {
+        fresh = await this.primeForecast(lat, lon);
+      } catch (error) {
+        console.warn('MOB forecast fetch failed, using cached forecast:', error);
+      }
+    }
+
+    const cached = this.loadCachedForecast();
+    // The MOB may have been cleared while the forecast loaded
+    if (!this.event) return undefined;
+
+    this.event.drift = cached
+      ? {
+          ...estimateDrift(cached.forecast),
+          forecastSource: fresh ? 'live' : 'cached',
+          forecastTime: cached.fetchedAt,
+        }
+      : { speed: 0, direction: 0, leeway: 0, current: 0, forecastSource: 'none' };
+
+    this.persist();
+    this.update();
+    return this.event.drift;
+  }
+
+  /**
+   * Elapsed time, drift-corrected datum, bearing/distance and search pattern
+   *
+   * @throws Error if no MOB is active
+   */
+  getStatus(now: Date = new Date()): MobStatus {
+    const event = this.event;
+    if (!event) {
+      throw new Error('No man overboard is active');
+    }
+
+    const elapsedMinutes = Math.max(0, (now.getTime() - event.timestamp.getTime()) / 60000);
+    const datum = driftPosition(event.position, event.drift, elapsedMinutes);
+    const course = event.drift?.speed ? event.drift.direction : 0;
+    const searchPattern =
+      event.searchPattern === 'sector'
+        ? sectorSearchPattern(datum, MOB.SECTOR_RADIUS_NM, course)
+        : expandingSquarePattern(datum, MOB.TRACK_SPACING_NM, MOB.EXPANDING_SQUARE_LEGS, course);
+
+    const status: MobStatus = { event, elapsedMinutes, datum, searchPattern };
+    if (this.ownPosition) {
+      status.distance = calculateDistance(this.ownPosition.lat, this.ownPosition.lon, datum.lat, datum.lon);
+      status.bearing = calculateBearing(this.ownPosition.lat, this.ownPosition.lon, datum.lat, datum.lon);
+    }
+    return status;
+  }
+
+  /**
+   * Move the navigation target to the current datum and notify listeners
+   */
+  update(now: Date = new Date()): MobStatus | null {
+    if (!this.event) return null;
+
+    const status = this.getStatus(now);
+    this.navigation?.setMobTarget(status.datum);
+    this.emit('update', status);
+    return status;
+  }
+
+  private startUpdates(): void {
+    this.stopUpdates();
+    this.updateTimer = setInterval(() => this.update(), MOB.UPDATE_INTERVAL_MS);
+  }
+
+  private stopUpdates(): void {
+    if (this.updateTimer) {
+      clearInterval(this.updateTimer);
+      this.updateTimer = null;
+    }
+  }
+
+  private loadCachedForecast(): { forecast: PointForecast; fetchedAt: Date } | null {
+    if (typeof localStorage === 'undefined') return null;
+
+    const saved = localStorage.getItem(FORECAST_KEY);
+    if (!saved) return null;
+
+    try {
+      const parsed = JSON.parse(saved);
+      return { forecast: parsed.forecast, fetchedAt: new Date(parsed.fetchedAt) };
+    } catch {
+      return null;
+    }
+  }
+
+  private getCurrentPosition(): Promise<LatLon> {
+    const history = this.navigation?.getNavigationHistory() ?? [];
+    const lastFix = history[history.length - 1];
+    if (lastFix) {
+      return Promise.resolve({ lat: lastFix.lat, lon: lastFix.lon });
+    }
+    if (this.ownPosition) {
+      return Promise.resolve(this.ownPosition);
+    }
+
+    return new Promise((resolve, reject) => {
+      if (typeof navigator === 'undefined' || !('geolocation' in navigator)) {
+        reject(new Error('Geolocation not supported'));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (position) => resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+        (error) => reject(new Error(`Failed to get position: ${error.message}`)),
+        { enableHighAccuracy: true, timeout: 5000, maximumAge: 10000 }
+      );
+    });
+  }
+
+  private persist(): void {
+    if (this.event && typeof localStorage !== 'undefined') {
+      localStorage.setItem(EVENT_KEY, JSON.stringify(this.event));
+    }
+  }
+
+  /**
+   * Event listener management (several listeners per event)
+   */
+  on(event: string, callback: Function): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback?: Function): void {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  private emit(event: string, data: any): void {
+    this.listeners.get(event)?.forEach((callback) => callback(data));
+  }
+}
+
+// Export singleton instance
+export const manOverboard = new ManOverboard(offlineNavigation);
+
+// Export class for custom instances
+export { ManOverboard };
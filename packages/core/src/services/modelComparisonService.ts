@@ -0,0 +1,321 @@
+/**
+ * Model Comparison Service
+ *
+ * Fetches the same location from every applicable weather and wave model,
+ * aligns the forecasts by time and summarises how far they agree. A large
+ * spread between independent models means low forecast confidence.
+ */
+
+import { API_ENDPOINTS, WEATHER_CONSTANTS } from '../constants';
+import { deduplicatedFetch } from '../utils/requestDeduplication';
+import { MARINE_MODELS, WEATHER_MODELS, getComparisonModels } from '../utils/openMeteoConfig';
+import { cacheService } from './cacheService';
+import { VERIFICATION_VARIABLES, forecastVerification } from './verificationService';
+import type { ForecastSnapshot, VerificationVariable } from './verificationService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ComparisonVariable =
+  | 'windSpeed'
+  | 'windGusts'
+  | 'windDirection'
+  | 'pressure'
+  | 'waveHeight'
+  | 'wavePeriod'
+  | 'swellHeight';
+
+export interface ComparisonModel {
+  id: string;
+  name: string;
+  source: 'weather' | 'marine';
+}
+
+export interface ComparisonStats {
+  mean: number;
+  min: number;
+  max: number;
+  /** max - min; for wind direction the widest angle between two models */
+  spread: number;
+  /** Number of models with a value this hour */
+  count: number;
+  /** Spread exceeds the disagreement threshold */
+  disagreement: boolean;
+}
+
+export interface VariableComparison {
+  unit: string;
+  /** Values per model id, aligned with ModelComparison.times */
+  values: Record<string, Array<number | null>>;
+  /** Statistics per hour; null when fewer than two models have a value */
+  stats: Array<ComparisonStats | null>;
+}
+
+export interface ModelComparison {
+  latitude: number;
+  longitude: number;
+  /** Hourly valid times (ISO, UTC), ascending */
+  times: string[];
+  /** Models that returned data */
+  models: ComparisonModel[];
+  variables: Partial<Record<ComparisonVariable, VariableComparison>>;
+  /** Times at which at least one variable is flagged */
+  disagreementTimes: string[];
+  fetchedAt: string;
+}
+
+type HourlyResponse = { hourly?: Record<string, Array<number | string | null>> };
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const THRESHOLDS = WEATHER_CONSTANTS.MODEL_DISAGREEMENT;
+
+const VARIABLES: Record<ComparisonVariable, { api: string; source: ComparisonModel['source']; unit: string; threshold: number }> = {
+  windSpeed: { api: 'wind_speed_10m', source: 'weather', unit: 'km/h', threshold: THRESHOLDS.WIND_SPEED_KMH },
+  windGusts: { api: 'wind_gusts_10m', source: 'weather', unit: 'km/h', threshold: THRESHOLDS.WIND_GUSTS_KMH },
+  windDirection: { api: 'wind_direction_10m', source: 'weather', unit: '°', threshold: THRESHOLDS.WIND_DIRECTION_DEG },
+  pressure: { api: 'pressure_msl', source: 'weather', unit: 'hPa', threshold: THRESHOLDS.PRESSURE_HPA },
+  waveHeight: { api: 'wave_height', source: 'marine', unit: 'm', threshold: THRESHOLDS.WAVE_HEIGHT_M },
+  wavePeriod: { api: 'wave_period', source: 'marine', unit: 's', threshold: THRESHOLDS.WAVE_PERIOD_S },
+  swellHeight: { api: 'swell_wave_height', source: 'marine', unit: 'm', threshold: THRESHOLDS.SWELL_HEIGHT_M },
+};
+
+const comparisonKey = (lat: number, lng: number) => `multiModel:${lat.toFixed(2)}:${lng.toFixed(2)}`;
+
+// ============================================
+// STATISTICS
+// ============================================
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const angleBetween = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+/**
+ * Mean, range and spread of the model values for one hour
+ * @returns null when fewer than two models have a value
+ */
+export function computeSpread(values: Array<number | null>, threshold: number): ComparisonStats | null {
+  const present = values.filter((v): v is number => v !== null && isFinite(v));
+  if (present.length < 2) return null;
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const mean = present.reduce((sum, v) => sum + v, 0) / present.length;
+
+  return { mean, min, max, spread: max - min, count: present.length, disagreement: max - min > threshold };
+}
+
+/**
+ * Circular statistics for directions (degrees)
+ * min/max are the mean minus/plus the largest deviation from it.
+ */
+export function computeDirectionSpread(values: Array<number | null>, threshold: number): ComparisonStats | null {
+  const present = values.filter((v): v is number => v !== null && isFinite(v));
+  if (present.length < 2) return null;
+
+  const x = present.reduce((sum, v) => sum + Math.sin(toRadians(v)), 0);
+  const y = present.reduce((sum, v) => sum + Math.cos(toRadians(v)), 0);
+  const mean = ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360;
+
+  let spread = 0;
+  for (let i = 0; i < present.length; i++) {
+    for (let j = i + 1; j < present.length; j++) {
+      spread = Math.max(spread, angleBetween(present[i], present[j]));
+    }
+  }
+  const deviation = Math.max(...present.map((v) => angleBetween(v, mean)));
+
+  return {
+    mean,
+    min: (mean - deviation + 360) % 360,
+    max: (mean + deviation) % 360,
+    spread,
+    count: present.length,
+    disagreement: spread > threshold,
+  };
+}
+
+// ============================================
+// ALIGNMENT
+// ============================================
+
+/**
+ * Read one model's series from a multi-model response
+ * Open-Meteo suffixes variables with the model id when several are requested.
+ */
+function modelSeries(hourly: HourlyResponse['hourly'], variable: string, model: string, single: boolean): Array<number | null> | null {
+  const series = hourly?.[`${variable}_${model}`] ?? (single ? hourly?.[variable] : undefined);
+  if (!series || series.every((v) => v === null)) return null;
+  return series.map((v) => (typeof v === 'number' ? v : null));
+}
+
+/**
+ * Align multi-model responses on a common hourly time axis and compute the spread
+ *
+ * @param responses - Weather and marine API responses with the models requested from each
+ */
+export function buildModelComparison(
+  lat: number,
+  lng: number,
+  responses: Array<{ source: ComparisonModel['source']; models: string[]; data: HourlyResponse }>
+): ModelComparison {
+  const timeOf = (t: string | number | null) => new Date(`${t}Z`).toISOString();
+  const times = [...new Set(responses.flatMap(({ data }) => (data.hourly?.time ?? []).map(timeOf)))].sort();
+  const timeIndex = new Map(times.map((t, i) => [t, i]));
+
+  const models = new Map<string, ComparisonModel>();
+  const variables: ModelComparison['variables'] = {};
+
+  for (const [variable, config] of Object.entries(VARIABLES) as Array<[ComparisonVariable, typeof VARIABLES[ComparisonVariable]]>) {
+    const values: Record<string, Array<number | null>> = {};
+
+    for (const { source, models: requested, data } of responses) {
+      if (source !== config.source) continue;
+      const responseTimes = (data.hourly?.time ?? []).map(timeOf);
+
+      for (const model of requested) {
+        const series = modelSeries(data.hourly, config.api, model, requested.length === 1);
+        if (!series) continue;
+
+        const aligned: Array<number | null> = times.map(() => null);
+        responseTimes.forEach((t, i) => {
+          aligned[timeIndex.get(t)!] = series[i] ?? null;
+        });
+        values[model] = aligned;
+
+        const name = source === 'weather' ? WEATHER_MODELS[model]?.name : MARINE_MODELS[model]?.name;
+        models.set(`${source}:${model}`, { id: model, name: name ?? model, source });
+      }
+    }
+
+    if (Object.keys(values).length === 0) continue;
+
+    const series = Object.values(values);
+    const stats = times.map((_, t) => {
+      const hour = series.map((s) => s[t]);
+      return variable === 'windDirection'
+        ? computeDirectionSpread(hour, config.threshold)
+        : computeSpread(hour, config.threshold);
+    });
+
+    variables[variable] = { unit: config.unit, values, stats };
+  }
+
+  // Direction is meaningless in light airs; only flag it when the wind is up
+  const direction = variables.windDirection;
+  if (direction) {
+    direction.stats.forEach((stats, t) => {
+      const speed = variables.windSpeed?.stats[t];
+      if (stats && (!speed || speed.mean < THRESHOLDS.WIND_DIRECTION_MIN_SPEED_KMH)) {
+        stats.disagreement = false;
+      }
+    });
+  }
+
+  const disagreementTimes = times.filter((_, t) =>
+    Object.values(variables).some((comparison) => comparison?.stats[t]?.disagreement)
+  );
+
+  return {
+    latitude: lat,
+    longitude: lng,
+    times,
+    models: [...models.values()],
+    variables,
+    disagreementTimes,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================
+// FETCHING
+// ============================================
+
+/**
+ * One verification snapshot per compared model
+ */
+const toSnapshots = (comparison: ModelComparison): ForecastSnapshot[] =>
+  comparison.models.map(({ id, source }) => {
+    const values: ForecastSnapshot['values'] = {};
+    for (const [variable, comparisonValues] of Object.entries(comparison.variables)) {
+      const series = comparisonValues?.values[id];
+      if (series && VERIFICATION_VARIABLES[variable as VerificationVariable].source === source) {
+        values[variable as VerificationVariable] = series;
+      }
+    }
+    return { model: id, source, issuedAt: comparison.fetchedAt, times: comparison.times, values };
+  });
+
+const variablesFor = (source: ComparisonModel['source']) =>
+  Object.values(VARIABLES).filter((v) => v.source === source).map((v) => v.api).join(',');
+
+/**
+ * Fetch a location from all applicable models and compare them
+ *
+ * One request per API lists every model; results are cached for
+ * CACHE_CONFIG.TTL.MULTIMODEL and stored for forecast verification. A
+ * failing API is skipped as long as the other one returns data.
+ */
+export async function fetchModelComparison(
+  lat: number,
+  lng: number,
+  forecastHours: number = WEATHER_CONSTANTS.COMPARISON_FORECAST_HOURS
+): Promise<ModelComparison> {
+  const key = comparisonKey(lat, lng);
+  const cached = await cacheService.get<ModelComparison>(key);
+  if (cached) return cached;
+
+  const { weatherModels, marineModels } = getComparisonModels(lat, lng);
+  const common = {
+    latitude: lat.toString(),
+    longitude: lng.toString(),
+    timezone: 'GMT',
+    forecast_hours: forecastHours.toString(),
+  };
+
+  const weatherParams = new URLSearchParams({
+    ...common,
+    hourly: variablesFor('weather'),
+    models: weatherModels.join(','),
+    cell_selection: WEATHER_CONSTANTS.LAND_CELL_SELECTION,
+  });
+  const marineParams = new URLSearchParams({
+    ...common,
+    hourly: variablesFor('marine'),
+    models: marineModels.join(','),
+    cell_selection: WEATHER_CONSTANTS.MARINE_CELL_SELECTION,
+  });
+
+  const [weather, marine] = await Promise.allSettled([
+    deduplicatedFetch<HourlyResponse>(`${API_ENDPOINTS.FORECAST}?${weatherParams.toString()}`, undefined, { ttl: 3000 }),
+    deduplicatedFetch<HourlyResponse>(`${API_ENDPOINTS.MARINE}?${marineParams.toString()}`, undefined, { ttl: 3000 }),
+  ]);
+
+  if (weather.status === 'rejected' && marine.status === 'rejected') {
+    console.error('Failed to fetch model comparison:', weather.reason);
+    throw weather.reason;
+  }
+
+  const responses: Parameters<typeof buildModelComparison>[2] = [];
+  if (weather.status === 'fulfilled') responses.push({ source: 'weather', models: weatherModels, data: weather.value });
+  if (marine.status === 'fulfilled') responses.push({ source: 'marine', models: marineModels, data: marine.value });
+
+  const comparison = buildModelComparison(lat, lng, responses);
+  if (comparison.models.length === 0) {
+    throw new Error('No forecast model returned data for this location');
+  }
+
+  await cacheService.set(key, comparison, cacheService.getTTL('multiModel'));
+
+  // Every compared model becomes a candidate for forecast verification
+  forecastVerification
+    .recordForecast(lat, lng, toSnapshots(comparison))
+    .catch((error) => console.error('[ModelComparison] Failed to record forecasts for verification:', error));
+
+  return comparison;
+}
@@ -6,6 +6,14 @@
  * Always verify routes with official nautical charts before navigation.
  */
 
+import { DEPTH_CONFIG, TSS_CONFIG } from '../constants';
+import { clipSegmentToPolygon, segmentIntersection } from '../utils/geometry';
+import type { Ring } from '../utils/geometry';
+import { depthGrids, estimateDepth, getRouteDepthProfile, loadDepthContours } from './depthService';
+import type { DepthProfile } from './depthService';
+import { getOfflineHazards } from './offlinePackStore';
+import { calculateBearing, calculateDistance } from './routePlanningService';
+
 export interface NauticalHazard {
   id: string;
   type:
@@ -19,12 +27,14 @@ export interface NauticalHazard {
     | "fishing_prohibited"
     | "speed_limit"
     | "traffic_separation"
+    | "traffic_lane"
     | "cable_area"
     | "pipeline";
   lat: number;
   lon: number;
   radius?: number; // meters
-  polygon?: Array<{ lat: number; lon: number }>; // for area hazards
+  polygon?: Array<{ lat: number; lon: number }>; // for area hazards (closed) and cables/pipelines (open)
+  orientation?: number; // degrees true, direction of traffic flow in a TSS lane
   depth?: number; // meters (for shallow water)
   description?: string;
   severity: "info" | "warning" | "danger" | "critical";
@@ -46,10 +56,42 @@ export interface RouteAnalysis {
     waypointSegment: number; // which segment of route
   }>;
   minDepth: number | null; // meters along route
+  depthProfile?: DepthProfile; // sampled depths and tide along the route
+  areaCrossings: AreaCrossing[];
+  trafficSeparation: TrafficSeparationIssue[];
   warnings: string[];
   recommendations: string[];
 }
 
+/**
+ * A stretch of a route segment inside an area hazard
+ */
+export interface AreaCrossing {
+  hazard: NauticalHazard;
+  waypointSegment: number;
+  entry: { lat: number; lon: number } | null; // null when the segment starts inside
+  exit: { lat: number; lon: number } | null; // null when the segment ends inside
+  lengthInside: number; // nautical miles
+}
+
+/**
+ * A segment breaking the rules of a traffic separation scheme (COLREGS Rule 10)
+ */
+export interface TrafficSeparationIssue {
+  hazard: NauticalHazard;
+  waypointSegment: number;
+  issue: "wrong_direction" | "crossing_angle" | "separation_zone";
+  course: number; // degrees true
+  laneDirection?: number; // degrees true
+  crossingAngle?: number; // degrees between course and traffic flow
+}
+
+export interface RouteAnalysisOptions {
+  underKeelClearance?: number; // meters (default: DEPTH_CONFIG.UNDER_KEEL_CLEARANCE_M)
+  departureTime?: Date; // for the tide along the route (default: now)
+  averageSpeed?: number; // knots
+}
+
 /**
  * Get nautical hazards from OpenStreetMap
  * OSM has "seamark:*" tags for nautical features
@@ -82,8 +124,8 @@ export const fetchNauticalHazards = async (boundingBox: {
   } catch (error) {
     console.error("Error fetching nautical hazards:", error);
 
-    // Return cached data if available
-    return getCachedNauticalData(boundingBox) || [];
+    // Return cached data if available, else what offline packs hold
+    return getCachedNauticalData(boundingBox) || (await getOfflineHazards(boundingBox)) || [];
   }
 };
 
@@ -125,15 +167,14 @@ const buildSeamarkQuery = (bbox: {
       
       // Traffic separation schemes
       way["seamark:type"="separation_zone"](${bbox.south},${bbox.west},${bbox.north},${bbox.east});
+      way["seamark:type"="separation_lane"](${bbox.south},${bbox.west},${bbox.north},${bbox.east});
       way["seamark:type"="traffic_separation_scheme"](${bbox.south},${bbox.west},${bbox.north},${bbox.east});
       
       // Cables and pipelines
       way["seamark:type"="cable_submarine"](${bbox.south},${bbox.west},${bbox.north},${bbox.east});
       way["seamark:type"="pipeline_submarine"](${bbox.south},${bbox.west},${bbox.north},${bbox.east});
     );
-    out body;
-    >;
-    out skel qt;
+    out geom;
   `;
 };
 
@@ -188,6 +229,7 @@ const parseSeamarkData = (data: any): NauticalHazard[] => {
         lat: centerLat,
         lon: centerLon,
         polygon,
+        orientation: parseOrientation(tags),
         depth: parseDepth(tags),
         description:
           tags["seamark:name"] || tags.name || hazardInfo.description,
@@ -259,6 +301,12 @@ const classifySeamark = (
       radius: 200,
       description: "Traffic separation zone - Follow designated lanes",
     },
+    separation_lane: {
+      type: "traffic_lane",
+      severity: "warning",
+      radius: 200,
+      description: "Traffic lane - Follow the direction of traffic flow",
+    },
     cable_submarine: {
       type: "cable_area",
       severity: "warning",
@@ -283,6 +331,16 @@ const classifySeamark = (
   );
 };
 
+/**
+ * Parse the direction of traffic flow of a TSS lane
+ */
+const parseOrientation = (tags: any): number | undefined => {
+  const orientation = parseFloat(
+    tags["seamark:separation_lane:orientation"] ?? tags["seamark:orientation"]
+  );
+  return Number.isNaN(orientation) ? undefined : orientation;
+};
+
 /**
  * Parse depth information from tags
  */
@@ -305,8 +363,12 @@ const parseDepth = (tags: any): number | undefined => {
 export const analyzeRouteHazards = async (
   waypoints: Array<{ lat: number; lon: number }>,
   vesselDraft: number = 2.0, // meters (default: 2m draft)
-  safetyMargin: number = 500 // meters clearance from hazards
+  safetyMargin: number = 500, // meters clearance from hazards
+  options: RouteAnalysisOptions = {}
 ): Promise<RouteAnalysis> => {
+  const underKeelClearance =
+    options.underKeelClearance ?? DEPTH_CONFIG.UNDER_KEEL_CLEARANCE_M;
+
   // Calculate bounding box for the route
   const lats = waypoints.map((w) => w.lat);
   const lons = waypoints.map((w) => w.lon);
@@ -323,6 +385,8 @@ export const analyzeRouteHazards = async (
 
   // Check each route segment for hazards
   const routeHazards: RouteAnalysis["hazards"] = [];
+  const areaCrossings: AreaCrossing[] = [];
+  const trafficSeparation: TrafficSeparationIssue[] = [];
   const warnings: string[] = [];
   const recommendations: string[] = [];
   let minDepth: number | null = null;
@@ -333,15 +397,58 @@ export const analyzeRouteHazards = async (
 
     // Check each hazard
     for (const hazard of hazards) {
-      const distance = distanceFromLineSegment(
-        { lat: hazard.lat, lon: hazard.lon },
-        start,
-        end
-      );
+      const distance =
+        hazard.polygon && hazard.polygon.length > 1
+          ? distanceFromShape(hazard.polygon, start, end)
+          : distanceFromLineSegment(
+              { lat: hazard.lat, lon: hazard.lon },
+              start,
+              end
+            );
 
       const hazardBuffer = hazard.radius || 100;
-
-      if (distance < safetyMargin + hazardBuffer) {
+      const crossings = findAreaCrossings(hazard, start, end, i);
+
+      if (crossings.length > 0) {
+        areaCrossings.push(...crossings);
+
+        if (
+          hazard.type === "traffic_separation" ||
+          hazard.type === "traffic_lane"
+        ) {
+          // Being in a scheme is fine; breaking its rules is not
+          const issue = checkTrafficSeparation(hazard, start, end, i);
+          if (issue) {
+            trafficSeparation.push(issue);
+            routeHazards.push({ hazard, distanceFromRoute: 0, waypointSegment: i });
+            warnings.push(describeTrafficSeparationIssue(issue));
+          }
+        } else {
+          routeHazards.push({ hazard, distanceFromRoute: 0, waypointSegment: i });
+          const lengthInside = crossings.reduce(
+            (sum, crossing) => sum + crossing.lengthInside,
+            0
+          );
+          const name = hazard.description || hazard.type;
+
+          if (hazard.severity === "critical") {
+            warnings.push(
+              `CRITICAL: Route enters ${name} for ${lengthInside.toFixed(1)} NM ` +
+                `between waypoint ${i + 1} and ${i + 2}. REROUTE REQUIRED!`
+            );
+          } else if (hazard.severity === "danger") {
+            warnings.push(
+              `DANGER: Route passes through ${name} for ${lengthInside.toFixed(1)} NM ` +
+                `between waypoint ${i + 1} and ${i + 2}. Exercise extreme caution!`
+            );
+          } else if (hazard.severity === "warning") {
+            warnings.push(
+              `Warning: Route crosses ${name} for ${lengthInside.toFixed(1)} NM ` +
+                `(segment ${i + 1}-${i + 2})`
+            );
+          }
+        }
+      } else if (distance < safetyMargin + hazardBuffer) {
         routeHazards.push({
           hazard,
           distanceFromRoute: distance,
@@ -383,13 +490,33 @@ export const analyzeRouteHazards = async (
     }
   }
 
+  // Sample the depth along every leg, with the tide when each point is passed
+  let depthProfile: DepthProfile | undefined;
+  try {
+    depthProfile = await getRouteDepthProfile(waypoints, {
+      draft: vesselDraft,
+      underKeelClearance,
+      departureTime: options.departureTime,
+      averageSpeed: options.averageSpeed,
+    });
+    warnings.push(...depthProfile.warnings);
+    if (
+      depthProfile.minDepth !== null &&
+      (minDepth === null || depthProfile.minDepth < minDepth)
+    ) {
+      minDepth = depthProfile.minDepth;
+    }
+  } catch (error) {
+    console.warn("Depth profile unavailable:", error);
+  }
+
   // Check if minimum depth is safe for vessel
-  if (minDepth !== null && minDepth < vesselDraft + 1.0) {
+  if (minDepth !== null && minDepth < vesselDraft + underKeelClearance) {
     warnings.push(
       `SHALLOW WATER: Minimum depth ${minDepth.toFixed(1)}m detected. ` +
         `Vessel draft ${vesselDraft.toFixed(
           1
-        )}m + 1m safety margin required. UNSAFE!`
+        )}m + ${underKeelClearance.toFixed(1)}m under-keel clearance required. UNSAFE!`
     );
   }
 
@@ -419,17 +546,147 @@ export const analyzeRouteHazards = async (
   // Determine if route is safe
   const isSafe =
     routeHazards.filter((h) => h.hazard.severity === "critical").length === 0 &&
-    (minDepth === null || minDepth >= vesselDraft + 1.0);
+    (minDepth === null || minDepth >= vesselDraft + underKeelClearance) &&
+    (depthProfile === undefined || depthProfile.shallowLegs.length === 0) &&
+    !trafficSeparation.some((issue) => issue.issue === "wrong_direction");
 
   return {
     isSafe,
     hazards: routeHazards,
     minDepth,
+    depthProfile,
+    areaCrossings,
+    trafficSeparation,
     warnings,
     recommendations,
   };
 };
 
+/**
+ * Whether a hazard outline is a closed area rather than a line (cable, pipeline)
+ */
+const isArea = (
+  polygon: NauticalHazard["polygon"]
+): polygon is Array<{ lat: number; lon: number }> =>
+  !!polygon &&
+  polygon.length >= 4 &&
+  polygon[0].lat === polygon[polygon.length - 1].lat &&
+  polygon[0].lon === polygon[polygon.length - 1].lon;
+
+/**
+ * Stretches of a route segment inside an area hazard, with where the route
+ * enters and leaves it
+ */
+const findAreaCrossings = (
+  hazard: NauticalHazard,
+  start: { lat: number; lon: number },
+  end: { lat: number; lon: number },
+  segment: number
+): AreaCrossing[] => {
+  if (!isArea(hazard.polygon)) return [];
+
+  const rings: Ring[] = [hazard.polygon.map((point) => [point.lon, point.lat])];
+  const length = calculateDistance(start.lat, start.lon, end.lat, end.lon);
+  const pointAt = (t: number) => ({
+    lat: start.lat + (end.lat - start.lat) * t,
+    lon: start.lon + (end.lon - start.lon) * t,
+  });
+
+  return clipSegmentToPolygon(start, end, rings).map(({ from, to }) => ({
+    hazard,
+    waypointSegment: segment,
+    entry: from > 0 ? pointAt(from) : null,
+    exit: to < 1 ? pointAt(to) : null,
+    lengthInside: length * (to - from),
+  }));
+};
+
+/**
+ * Check a segment inside a traffic separation scheme against COLREGS Rule 10:
+ * follow lanes in the direction of traffic flow, cross them at right angles,
+ * and keep out of separation zones
+ */
+const checkTrafficSeparation = (
+  hazard: NauticalHazard,
+  start: { lat: number; lon: number },
+  end: { lat: number; lon: number },
+  segment: number
+): TrafficSeparationIssue | null => {
+  const course = calculateBearing(start.lat, start.lon, end.lat, end.lon);
+
+  if (hazard.type === "traffic_separation") {
+    return { hazard, waypointSegment: segment, issue: "separation_zone", course };
+  }
+
+  // Lanes without a mapped direction of traffic flow can't be checked
+  if (hazard.orientation === undefined) return null;
+
+  // 0 = with the traffic flow, 180 = against it
+  const deviation = Math.abs(((course - hazard.orientation + 540) % 360) - 180);
+  if (deviation <= TSS_CONFIG.MAX_LANE_DEVIATION_DEG) return null;
+
+  const issue = { hazard, waypointSegment: segment, course, laneDirection: hazard.orientation };
+  if (deviation >= 180 - TSS_CONFIG.MAX_LANE_DEVIATION_DEG) {
+    return { ...issue, issue: "wrong_direction" };
+  }
+
+  const crossingAngle = Math.min(deviation, 180 - deviation);
+  if (90 - crossingAngle > TSS_CONFIG.MAX_CROSSING_DEVIATION_DEG) {
+    return { ...issue, issue: "crossing_angle", crossingAngle };
+  }
+  return null;
+};
+
+const describeTrafficSeparationIssue = (issue: TrafficSeparationIssue): string => {
+  const name = issue.hazard.description || "traffic separation scheme";
+  const segment = `between waypoint ${issue.waypointSegment + 1} and ${issue.waypointSegment + 2}`;
+
+  switch (issue.issue) {
+    case "wrong_direction":
+      return (
+        `CRITICAL: Route runs against the traffic flow in ${name} ${segment} ` +
+        `(course ${Math.round(issue.course)}°, lane ${Math.round(issue.laneDirection!)}°). REROUTE REQUIRED!`
+      );
+    case "crossing_angle":
+      return (
+        `Warning: Route crosses ${name} at ${Math.round(issue.crossingAngle!)}° to the traffic flow ${segment}. ` +
+        `Cross lanes as nearly as practicable at right angles (COLREGS Rule 10)`
+      );
+    case "separation_zone":
+      return (
+        `Warning: Route enters ${name} ${segment}. ` +
+        `Keep out of separation zones except when crossing the scheme (COLREGS Rule 10)`
+      );
+  }
+};
+
+/**
+ * Closest distance from a route segment to a hazard outline (0 where they cross)
+ */
+const distanceFromShape = (
+  shape: Array<{ lat: number; lon: number }>,
+  start: { lat: number; lon: number },
+  end: { lat: number; lon: number }
+): number => {
+  let closest = Infinity;
+
+  for (let i = 0; i < shape.length - 1; i++) {
+    const a = shape[i];
+    const b = shape[i + 1];
+    if (segmentIntersection(start, end, a, b)) return 0;
+
+    closest = Math.min(
+      closest,
+      distanceFromLineSegment(a, start, end),
+      distanceFromLineSegment(b, start, end),
+      distanceFromLineSegment(start, a, b),
+      distanceFromLineSegment(end, a, b)
+    );
+  }
+
+  return closest;
+};
+
 /**
  * Calculate perpendicular distance from point to line segment
  */
@@ -475,22 +732,21 @@ const distanceFromLineSegment = (
 };
 
 /**
- * Get depth data from NOAA or other sources
- * NOTE: This requires API keys or downloading bathymetric data
+ * Get depth below mean sea level from imported depth grids
+ * (GEBCO, EMODnet or survey exports), or the shallowest depth the
+ * bathymetry contours guarantee
  */
 export const getDepthAtLocation = async (
   lat: number,
   lon: number
 ): Promise<number | null> => {
-  // This would integrate with:
-  // - NOAA Electronic Navigational Charts (ENC)
-  // - GEBCO (General Bathymetric Chart of the Oceans)
-  // - Local hydrographic services
-
-  // For now, return null (depth unknown)
-  // Implementation would require specific API integration
-  console.warn("Depth data not available - requires bathymetric data source");
-  return null;
+  const [grids, contours] = await Promise.all([
+    depthGrids.loadAll(),
+    loadDepthContours(),
+  ]);
+  const estimate = estimateDepth(lat, lon, grids, contours);
+
+  return estimate.depth ?? estimate.minDepth ?? null;
 };
 
 /**
@@ -538,46 +794,6 @@ const getCachedNauticalData = (bbox: {
   return null;
 };
 
-/**
- * Add waypoint to avoid hazard
- * Suggests intermediate waypoint to route around detected hazard
- */
-export const suggestHazardAvoidance = (
-  hazard: NauticalHazard,
-  start: { lat: number; lon: number },
-  end: { lat: number; lon: number },
-  safetyMargin: number = 500 // meters
-): { lat: number; lon: number; name: string } | null => {
-  // Calculate perpendicular offset point at safe distance
-  const hazardBuffer = (hazard.radius || 100) + safetyMargin;
-
-  // This is a simplified avoidance - real implementation would use
-  // path planning algorithms like A* with nautical chart data
-
-  const midLat = (start.lat + end.lat) / 2;
-  const midLon = (start.lon + end.lon) / 2;
-
-  // Calculate perpendicular direction
-  const dx = end.lon - start.lon;
-  const dy = end.lat - start.lat;
-  const length = Math.sqrt(dx * dx + dy * dy);
-
-  if (length === 0) return null;
-
-  // Perpendicular unit vector
-  const perpX = -dy / length;
-  const perpY = dx / length;
-
-  // Offset in degrees (approximate)
-  const offsetDegrees = (hazardBuffer / 111320) * 1.5; // 1.5x safety factor
-
-  return {
-    lat: midLat + perpY * offsetDegrees,
-    lon: midLon + perpX * offsetDegrees,
-    name: `Avoid ${hazard.type}`,
-  };
-};
-
 /**
  * Check if route needs rerouting
  */
@@ -3,11 +3,22 @@
  * Provides navigation without internet using GPS, compass, and dead reckoning
  */
 
-import type { Waypoint, Route, NavigationState, NavigationAlert, OfflineNavigationConfig } from '../types/navigation';
+import type {
+  Waypoint,
+  Route,
+  NavigationState,
+  NavigationAlert,
+  OfflineNavigationConfig,
+  TrackPoint,
+  InstrumentData,
+} from '../types/navigation';
+import type { InstrumentFeed } from './instrumentService';
+import type { AisTracker } from './aisService';
 import {
   calculateDistance,
   calculateBearing,
   calculateNavigationState,
+  generateRoute,
   isNearWaypoint,
 } from './routePlanningService';
 
@@ -18,15 +29,14 @@ class OfflineNavigationSystem {
   private isNavigating: boolean = false;
   private config: OfflineNavigationConfig;
   private listeners: Map<string, Function> = new Map();
-  private navigationHistory: Array<{
-    lat: number;
-    lon: number;
-    timestamp: Date;
-    speed: number;
-  }> = [];
+  private navigationHistory: Array<Required<TrackPoint>> = [];
   private currentHeading: number = 0;
   private currentSpeed: number = 0;
   private smoothedSpeeds: number[] = [];
+  private instrumentFeed: InstrumentFeed | null = null;
+  private aisTracker: AisTracker | null = null;
+  private mobActive: boolean = false;
+  private routeBeforeMob: Route | null = null;
 
   constructor(config?: Partial<OfflineNavigationConfig>) {
     this.config = {
@@ -39,15 +49,38 @@ class OfflineNavigationSystem {
     };
   }
 
+  /**
+   * Use onboard instruments (NMEA) for position, heading, wind and depth
+   * instead of the device GPS and compass. Pass null to go back to the device.
+   */
+  setInstrumentFeed(feed: InstrumentFeed | null): void {
+    const wasNavigating = this.isNavigating;
+    this.stopTracking();
+    this.instrumentFeed = feed;
+    if (wasNavigating) {
+      this.startTracking();
+    }
+  }
+
+  /**
+   * Check AIS targets against own position and raise collision alerts
+   */
+  setAisTracker(tracker: AisTracker | null): void {
+    this.aisTracker?.off('alert', this.handleAisAlert);
+    this.aisTracker = tracker;
+    tracker?.on('alert', this.handleAisAlert);
+  }
+
   /**
    * Start navigation on a route
    */
-  async startNavigation(route: Route): Promise<void> {
+  async startNavigation(route: Route, options: { mob?: boolean } = {}): Promise<void> {
     if (this.isNavigating) {
       this.stopNavigation();
     }
 
     this.route = route;
+    this.mobActive = options.mob === true;
     this.currentWaypointIndex = 0;
     this.isNavigating = true;
     this.navigationHistory = [];
@@ -55,11 +88,8 @@ class OfflineNavigationSystem {
     // Request permissions
     await this.requestPermissions();
 
-    // Start GPS tracking
-    this.startGPSTracking();
-
-    // Start compass tracking
-    this.startCompassTracking();
+    // Start position and heading tracking
+    this.startTracking();
 
     // Emit navigation started event
     this.emit('navigationStarted', { route });
@@ -74,23 +104,63 @@ class OfflineNavigationSystem {
    * Stop navigation
    */
   stopNavigation(): void {
-    if (this.watchId !== null) {
-      navigator.geolocation.clearWatch(this.watchId);
-      this.watchId = null;
-    }
-
-    if ('DeviceOrientationEvent' in window) {
-      window.removeEventListener('deviceorientation', this.handleOrientation);
-    }
+    this.stopTracking();
 
     this.isNavigating = false;
     this.route = null;
     this.currentWaypointIndex = 0;
+    this.mobActive = false;
 
     this.emit('navigationStopped', {});
     console.log('🛑 Navigation Stopped');
   }
 
+  /**
+   * Man overboard: drop the current route and steer back to the MOB position.
+   * Arrival and off-course alerts are suppressed until the MOB is cleared.
+   */
+  async startMobNavigation(target: { lat: number; lon: number }): Promise<void> {
+    if (!this.mobActive) {
+      this.routeBeforeMob = this.route;
+    }
+
+    const lastFix = this.navigationHistory[this.navigationHistory.length - 1];
+    const route = generateRoute(
+      { lat: lastFix?.lat ?? target.lat, lon: lastFix?.lon ?? target.lon, name: 'Own position' },
+      { lat: target.lat, lon: target.lon, name: 'MOB' },
+      Math.max(this.currentSpeed, 1)
+    );
+    route.name = 'Man Overboard';
+
+    await this.startNavigation(route, { mob: true });
+  }
+
+  /**
+   * Move the MOB waypoint (e.g. to the drift-corrected datum)
+   */
+  setMobTarget(target: { lat: number; lon: number }): void {
+    if (!this.mobActive || !this.route) return;
+
+    const destination = this.route.waypoints[this.route.waypoints.length - 1];
+    destination.lat = target.lat;
+    destination.lon = target.lon;
+  }
+
+  /**
+   * Leave MOB mode and go back to the route that was being navigated, if any
+   */
+  async endMobNavigation(): Promise<void> {
+    if (!this.mobActive) return;
+
+    const previous = this.routeBeforeMob;
+    this.routeBeforeMob = null;
+    this.stopNavigation();
+
+    if (previous) {
+      await this.startNavigation(previous);
+    }
+  }
+
   /**
    * Pause navigation (keeps tracking but doesn't navigate)
    */
@@ -128,6 +198,9 @@ class OfflineNavigationSystem {
    * Request necessary permissions
    */
   private async requestPermissions(): Promise<void> {
+    // Instruments replace the device sensors
+    if (this.instrumentFeed) return;
+
     // Request geolocation permission
     if (!('geolocation' in navigator)) {
       throw new Error('Geolocation not supported');
@@ -151,6 +224,39 @@ class OfflineNavigationSystem {
     }
   }
 
+  /**
+   * Start tracking from the instrument feed, or the device GPS and compass
+   */
+  private startTracking(): void {
+    if (this.instrumentFeed) {
+      this.instrumentFeed.on('position', this.handleInstrumentPosition);
+      this.instrumentFeed.on('data', this.handleInstrumentData);
+      return;
+    }
+
+    this.startGPSTracking();
+    this.startCompassTracking();
+  }
+
+  /**
+   * Stop all position and heading tracking
+   */
+  private stopTracking(): void {
+    if (this.instrumentFeed) {
+      this.instrumentFeed.off('position', this.handleInstrumentPosition);
+      this.instrumentFeed.off('data', this.handleInstrumentData);
+    }
+
+    if (this.watchId !== null) {
+      navigator.geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+
+    if (typeof window !== 'undefined' && 'DeviceOrientationEvent' in window) {
+      window.removeEventListener('deviceorientation', this.handleOrientation);
+    }
+  }
+
   /**
    * Start GPS tracking
    */
@@ -193,17 +299,57 @@ class OfflineNavigationSystem {
    * Handle GPS position update
    */
   private handlePositionUpdate(position: GeolocationPosition): void {
-    if (!this.route || !this.isNavigating) return;
-
     const { latitude, longitude, speed, heading } = position.coords;
 
+    this.updatePosition(
+      latitude,
+      longitude,
+      speed ? speed * 1.94384 : 0, // m/s to knots
+      heading
+    );
+  }
+
+  /**
+   * Handle a position fix from the instrument feed
+   */
+  private handleInstrumentPosition = (data: InstrumentData): void => {
+    if (!data.position) return;
+
+    this.updatePosition(
+      data.position.lat,
+      data.position.lon,
+      data.speedOverGround ?? 0,
+      data.heading ?? data.courseOverGround ?? null
+    );
+  };
+
+  /**
+   * Follow instrument heading between position fixes
+   */
+  private handleInstrumentData = (data: InstrumentData): void => {
+    if (data.heading !== undefined && data.heading !== this.currentHeading) {
+      this.currentHeading = data.heading;
+      this.emit('headingUpdate', { heading: this.currentHeading });
+    }
+  };
+
+  /**
+   * Update navigation from a new position (speed in knots, heading in degrees true)
+   */
+  private updatePosition(
+    latitude: number,
+    longitude: number,
+    speedKnots: number,
+    heading: number | null
+  ): void {
+    if (!this.route || !this.isNavigating) return;
+
     // Update heading (use GPS heading if available, otherwise use compass)
     if (heading !== null) {
       this.currentHeading = heading;
     }
 
     // Update speed with smoothing
-    const speedKnots = speed ? speed * 1.94384 : 0; // m/s to knots
     this.currentSpeed = this.smoothSpeed(speedKnots);
 
     // Add to navigation history
@@ -231,14 +377,24 @@ class OfflineNavigationSystem {
       this.currentWaypointIndex
     );
 
+    if (this.instrumentFeed) {
+      navState.instruments = this.instrumentFeed.getData();
+    }
+
+    // Update CPA/TCPA of AIS targets
+    this.aisTracker?.updateOwnVessel(navState);
+
     // Emit navigation update
     this.emit('navigationUpdate', navState);
 
-    // Check if waypoint reached
-    this.checkWaypointProximity(latitude, longitude, navState);
+    // Arrival and cross-track alerts are meaningless while searching for a MOB
+    if (!this.mobActive) {
+      // Check if waypoint reached
+      this.checkWaypointProximity(latitude, longitude, navState);
 
-    // Check for course deviations
-    this.checkCourseDeviation(navState);
+      // Check for course deviations
+      this.checkCourseDeviation(navState);
+    }
 
     // Save position to offline cache
     this.cachePosition({
@@ -526,17 +682,23 @@ class OfflineNavigationSystem {
     this.emit('alert', alert);
   }
 
+  private handleAisAlert = (alert: NavigationAlert): void => {
+    this.emitAlert(alert);
+  };
+
   /**
    * Get current navigation status
    */
   getStatus(): {
     isNavigating: boolean;
+    isMob: boolean;
     route: Route | null;
     currentWaypointIndex: number;
     historyLength: number;
   } {
     return {
       isNavigating: this.isNavigating,
+      isMob: this.mobActive,
       route: this.route,
       currentWaypointIndex: this.currentWaypointIndex,
       historyLength: this.navigationHistory.length,
@@ -546,12 +708,7 @@ class OfflineNavigationSystem {
   /**
    * Get navigation history (for track display)
    */
-  getNavigationHistory(): Array<{
-    lat: number;
-    lon: number;
-    timestamp: Date;
-    speed: number;
-  }> {
+  getNavigationHistory(): Array<Required<TrackPoint>> {
     return [...this.navigationHistory];
   }
 }
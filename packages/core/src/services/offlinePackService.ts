@@ -0,0 +1,480 @@
+/**
+ * Offline Region Packs
+ *
+ * Downloads everything needed to sail an area without a connection: base map
+ * tiles for a zoom range, the 10m GeoJSON layers and bathymetry (clipped to the
+ * area), seamark hazards and aids to navigation, marinas and a multi-day
+ * forecast grid. Items are downloaded in a fixed order with progress saved as
+ * they go, so a download cut short by a closed tab or a lost connection
+ * resumes where it stopped.
+ *
+ * Reading packs back is up to offlinePackStore, which the services fall back
+ * to when offline.
+ */
+
+import { OFFLINE_PACK_CONFIG } from '../constants';
+import type { BoundingBox, GridResolution } from './marineGridService';
+import { fetchMarineGridForecast } from './marineGridService';
+import type { GeoJSONCollection, GeoJSONFeature } from './geojsonService';
+import { getHighResolutionSources } from './geojsonService';
+import { fetchNauticalHazards } from './nauticalChartService';
+import { fetchSeamarkAids } from './seamarkService';
+import { searchNearbyCoasts } from './coastsMarinasService';
+import { calculateDistance } from './routePlanningService';
+import {
+  deleteOfflinePack,
+  expandTileUrl,
+  geojsonItem,
+  loadOfflinePacks,
+  packContents,
+  packItemKey,
+  saveOfflinePack,
+  tileItem,
+  tileRange,
+} from './offlinePackStore';
+import type { OfflinePack, OfflinePackOptions } from './offlinePackStore';
+
+// ============================================
+// PACK CONTENTS
+// ============================================
+
+export interface OfflinePackEstimate {
+  tiles: number;
+  /** Items to download (tiles, GeoJSON files and data) */
+  items: number;
+  bytes: number;
+  /** More tiles than a pack may hold */
+  tooLarge: boolean;
+}
+
+/** Data items, downloaded before the tiles */
+const DATA_ITEMS = ['hazards', 'aids', 'marinas', 'forecast'];
+
+/**
+ * Data items added since the first packs, by the item list version that added them
+ * Bump PACK_ITEMS_VERSION and record the items here whenever DATA_ITEMS grows.
+ */
+const ADDED_DATA_ITEMS: Record<number, string[]> = { 2: ['aids'] };
+export const PACK_ITEMS_VERSION = 2;
+
+const countTiles = (bounds: BoundingBox, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = tileRange(bounds, z);
+    count += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+  }
+  return count;
+};
+
+/**
+ * Forecast grid for the area: one point every GRID_SPACING_DEG, within limits
+ */
+export function packGridResolution(bounds: BoundingBox): GridResolution {
+  const { GRID_SPACING_DEG, GRID_MIN_POINTS, GRID_MAX_POINTS } = OFFLINE_PACK_CONFIG;
+  const points = (span: number) =>
+    Math.max(GRID_MIN_POINTS, Math.min(GRID_MAX_POINTS, Math.round(span / GRID_SPACING_DEG) + 1));
+  return { latPoints: points(bounds.north - bounds.south), lngPoints: points(bounds.east - bounds.west) };
+}
+
+/**
+ * Everything a pack downloads, in download order
+ */
+export function packItems(options: OfflinePackOptions): string[] {
+  const items = [...DATA_ITEMS, ...getHighResolutionSources().map((source) => geojsonItem(source.url))];
+
+  for (let z = options.minZoom; z <= options.maxZoom; z++) {
+    const range = tileRange(options.bounds, z);
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        items.push(tileItem(z, x, y));
+      }
+    }
+  }
+  return items;
+}
+
+/**
+ * Bring a pack saved with an older item list up to date
+ * Its cursor moves to the same item in the current list; added data items it
+ * had already passed are queued with the failed ones, and a complete pack
+ * missing them is due for an update.
+ */
+export function migratePackItems(pack: OfflinePack, now: number = Date.now()): OfflinePack {
+  const version = pack.itemsVersion ?? 1;
+  if (version >= PACK_ITEMS_VERSION) return pack;
+
+  const added = Object.entries(ADDED_DATA_ITEMS)
+    .filter(([since]) => Number(since) > version)
+    .flatMap(([, items]) => items);
+  const items = packItems(pack);
+  const next = items.filter((item) => !added.includes(item))[pack.cursor];
+  const cursor = next === undefined ? items.length : items.indexOf(next);
+  const missed = added.filter((item) => items.indexOf(item) < cursor && !pack.failed.includes(item));
+
+  return {
+    ...pack,
+    itemsVersion: PACK_ITEMS_VERSION,
+    totalItems: items.length,
+    cursor,
+    failed: [...pack.failed, ...missed],
+    expiresAt: pack.status === 'complete' && missed.length > 0 ? Math.min(pack.expiresAt, now) : pack.expiresAt,
+  };
+}
+
+/**
+ * Approximate download size of a pack, for the user to decide before starting
+ */
+export function estimateOfflinePack(options: OfflinePackOptions): OfflinePackEstimate {
+  const { ESTIMATE, MAX_TILES } = OFFLINE_PACK_CONFIG;
+  const tiles = countTiles(options.bounds, options.minZoom, options.maxZoom);
+  const grid = packGridResolution(options.bounds);
+  const forecastBytes = grid.latPoints * grid.lngPoints * options.forecastDays * 24 * ESTIMATE.FORECAST_POINT_HOUR;
+
+  return {
+    tiles,
+    items: DATA_ITEMS.length + getHighResolutionSources().length + tiles,
+    bytes: tiles * ESTIMATE.TILE + ESTIMATE.GEOJSON + forecastBytes + ESTIMATE.HAZARDS + ESTIMATE.AIDS + ESTIMATE.MARINAS,
+    tooLarge: tiles > MAX_TILES,
+  };
+}
+
+/** A GeoJSON position, or any nesting of arrays of them */
+type Coordinates = number[] | unknown[];
+
+const isPosition = (coordinates: Coordinates): coordinates is number[] => typeof coordinates[0] === 'number';
+
+/** Bounding box of any GeoJSON coordinate nesting */
+const coordinateBounds = (coordinates: Coordinates, box: BoundingBox): BoundingBox => {
+  if (isPosition(coordinates)) {
+    const [lng, lat] = coordinates;
+    box.west = Math.min(box.west, lng);
+    box.east = Math.max(box.east, lng);
+    box.south = Math.min(box.south, lat);
+    box.north = Math.max(box.north, lat);
+  } else {
+    for (const nested of coordinates) {
+      if (Array.isArray(nested)) coordinateBounds(nested, box);
+    }
+  }
+  return box;
+};
+
+/**
+ * Keep the features that reach into the bounds (whole, not cut)
+ */
+export function clipCollection(collection: GeoJSONCollection, bounds: BoundingBox): GeoJSONCollection {
+  const features = collection.features.filter((feature: GeoJSONFeature) => {
+    if (!feature.geometry?.coordinates) return false;
+    const box = coordinateBounds(feature.geometry.coordinates, {
+      north: -Infinity,
+      south: Infinity,
+      east: -Infinity,
+      west: Infinity,
+    });
+    return box.west <= bounds.east && box.east >= bounds.west && box.south <= bounds.north && box.north >= bounds.south;
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const generateId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// ============================================
+// PACK MANAGER
+// ============================================
+
+/**
+ * Creates, downloads, resumes, updates and deletes offline packs
+ *
+ * Events: 'progress' (pack) while downloading, 'packs' (list) on any change.
+ */
+class OfflinePackManager {
+  private listeners: Map<string, Set<Function>> = new Map();
+  /** Downloads running in this session, with their pause flag */
+  private running: Map<string, { paused: boolean }> = new Map();
+
+  /**
+   * All packs; downloads that are not running here (the app was closed
+   * mid-download) show as paused
+   */
+  async list(): Promise<OfflinePack[]> {
+    return (await loadOfflinePacks()).map((saved): OfflinePack => {
+      const pack = migratePackItems(saved);
+      return pack.status === 'downloading' && !this.running.has(pack.id) ? { ...pack, status: 'paused' } : pack;
+    });
+  }
+
+  isDownloading(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  isExpired(pack: OfflinePack, now: number = Date.now()): boolean {
+    return pack.status === 'complete' && pack.expiresAt <= now;
+  }
+
+  /**
+   * Save a new pack and start downloading it
+   */
+  async create(options: OfflinePackOptions): Promise<OfflinePack> {
+    const { bounds, minZoom, maxZoom } = options;
+    if (!(bounds.north > bounds.south && bounds.east > bounds.west)) {
+      throw new Error('Draw the area to download');
+    }
+    if (minZoom < 0 || maxZoom < minZoom || maxZoom > OFFLINE_PACK_CONFIG.MAX_ZOOM) {
+      throw new Error(`Zoom levels must be between 0 and ${OFFLINE_PACK_CONFIG.MAX_ZOOM}`);
+    }
+    const estimate = estimateOfflinePack(options);
+    if (estimate.tooLarge) {
+      throw new Error(`Too many map tiles (${estimate.tiles}): make the area smaller or lower the maximum zoom`);
+    }
+
+    const now = Date.now();
+    const pack: OfflinePack = {
+      ...options,
+      forecastDays: Math.min(options.forecastDays, OFFLINE_PACK_CONFIG.MAX_FORECAST_DAYS),
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+      status: 'paused',
+      totalItems: estimate.items,
+      cursor: 0,
+      itemsVersion: PACK_ITEMS_VERSION,
+      failed: [],
+      bytes: 0,
+      expiresAt: now + OFFLINE_PACK_CONFIG.TTL_MS,
+      forecastUntil: null,
+    };
+    await saveOfflinePack(pack, true);
+    this.emit('packs', await this.list());
+
+    this.resume(pack.id).catch((error) => console.error('Offline pack download failed:', error));
+    return pack;
+  }
+
+  /**
+   * Download what is left of a pack: failed items first, then from where
+   * it stopped. Resolves when the download ends, is paused or fails.
+   */
+  async resume(id: string): Promise<void> {
+    if (this.running.has(id)) return;
+    const found = (await loadOfflinePacks()).find((p) => p.id === id);
+    if (!found) throw new Error('Offline pack not found');
+
+    const control = { paused: false };
+    this.running.set(id, control);
+    const saved = migratePackItems(found);
+    const items = packItems(saved);
+    const pack: OfflinePack = { ...saved, status: 'downloading', totalItems: items.length, error: undefined };
+
+    try {
+      await this.save(pack);
+      // Items still failing stay in the list; those not reached yet too
+      await this.downloadItems(pack, [...pack.failed], control);
+      while (pack.cursor < items.length && !control.paused) {
+        const batch = items.slice(pack.cursor, pack.cursor + OFFLINE_PACK_CONFIG.CONCURRENCY);
+        pack.cursor += await this.downloadItems(pack, batch, control);
+        if (pack.cursor % OFFLINE_PACK_CONFIG.SAVE_EVERY < batch.length) {
+          await this.save(pack);
+        }
+      }
+
+      if (control.paused) {
+        pack.status = 'paused';
+      } else if (pack.failed.length > 0) {
+        pack.status = 'failed';
+        pack.error = `${pack.failed.length} items could not be downloaded`;
+      } else {
+        pack.status = 'complete';
+        pack.expiresAt = Date.now() + OFFLINE_PACK_CONFIG.TTL_MS;
+      }
+    } catch (error) {
+      pack.status = 'failed';
+      pack.error = (error as Error).message;
+    } finally {
+      this.running.delete(id);
+      await this.save(pack);
+    }
+  }
+
+  /**
+   * Stop a download after the items in flight; resume() picks it up again
+   */
+  pause(id: string): void {
+    const control = this.running.get(id);
+    if (control) control.paused = true;
+  }
+
+  /**
+   * Download a pack again from scratch (new tiles, data and forecast)
+   */
+  async update(id: string): Promise<void> {
+    const saved = (await loadOfflinePacks()).find((p) => p.id === id);
+    if (!saved || this.running.has(id)) return;
+    await this.save({ ...saved, cursor: 0, itemsVersion: PACK_ITEMS_VERSION, failed: [], bytes: 0 });
+    await this.resume(id);
+  }
+
+  /**
+   * Fetch a fresh forecast (and hazards, aids and marinas) for a pack, keeping its tiles
+   */
+  async refreshForecast(id: string): Promise<void> {
+    const saved = (await loadOfflinePacks()).find((p) => p.id === id);
+    if (!saved || this.running.has(id)) return;
+
+    const pack: OfflinePack = { ...migratePackItems(saved), error: undefined };
+    const control = { paused: false };
+    this.running.set(id, control);
+    try {
+      const attempted = await this.downloadItems(pack, DATA_ITEMS, control);
+      if (attempted < DATA_ITEMS.length || pack.failed.length > 0) {
+        pack.error = 'The forecast could not be updated';
+      } else if (pack.status === 'complete') {
+        pack.expiresAt = Date.now() + OFFLINE_PACK_CONFIG.TTL_MS;
+      }
+    } finally {
+      this.running.delete(id);
+      await this.save(pack);
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.pause(id);
+    await deleteOfflinePack(id);
+    this.emit('packs', await this.list());
+  }
+
+  /**
+   * Download a batch of items in parallel, recording the failures on the pack
+   * @returns How many of the items were attempted (fewer when paused or the connection dropped)
+   */
+  private async downloadItems(pack: OfflinePack, items: string[], control: { paused: boolean }): Promise<number> {
+    let attempted = 0;
+    for (let i = 0; i < items.length && !control.paused; i += OFFLINE_PACK_CONFIG.CONCURRENCY) {
+      if (isOffline()) {
+        control.paused = true;
+        pack.error = 'Connection lost: the download resumes from here';
+        break;
+      }
+
+      const batch = items.slice(i, i + OFFLINE_PACK_CONFIG.CONCURRENCY);
+      const results = await Promise.all(
+        batch.map((item) =>
+          this.downloadItem(pack, item).catch((error) => {
+            console.warn(`Offline pack item ${item} failed:`, error);
+            return null;
+          })
+        )
+      );
+      results.forEach((bytes, index) => {
+        if (bytes === null) {
+          if (!pack.failed.includes(batch[index])) pack.failed.push(batch[index]);
+        } else {
+          pack.bytes += bytes;
+          pack.failed = pack.failed.filter((item) => item !== batch[index]);
+        }
+      });
+      attempted += batch.length;
+      this.emit('progress', { ...pack });
+    }
+    return attempted;
+  }
+
+  /**
+   * Download and store one item
+   * @returns Bytes stored
+   */
+  private async downloadItem(pack: OfflinePack, item: string): Promise<number> {
+    const key = packItemKey(pack.id, item);
+    const store = async (value: unknown, size: number): Promise<number> => {
+      await packContents.set(key, value);
+      return size;
+    };
+    const storeJSON = async (value: unknown): Promise<number> => {
+      // Data items are replaced on forecast refresh: count the difference
+      const previous = DATA_ITEMS.includes(item) ? await packContents.get(key) : null;
+      return store(value, JSON.stringify(value).length - (previous ? JSON.stringify(previous).length : 0));
+    };
+
+    if (item.startsWith('tile:')) {
+      const [z, x, y] = item.slice('tile:'.length).split('/').map(Number);
+      const response = await fetch(expandTileUrl(pack.tileUrl, z, x, y));
+      if (!response.ok) throw new Error(`Tile ${z}/${x}/${y}: ${response.status}`);
+      const blob = await response.blob();
+      return store(blob, blob.size);
+    }
+
+    if (item.startsWith('geojson:')) {
+      const url = item.slice('geojson:'.length);
+      const source = getHighResolutionSources().find((s) => s.url === url);
+      let response = await fetch(url).catch(() => null);
+      if (!response?.ok && source) {
+        response = await fetch(source.fallbackUrl);
+      }
+      if (!response?.ok) throw new Error(`GeoJSON ${url}: ${response?.status}`);
+      return storeJSON(clipCollection(await response.json(), pack.bounds));
+    }
+
+    const { bounds } = pack;
+    switch (item) {
+      case 'hazards':
+        return storeJSON(await fetchNauticalHazards(bounds));
+
+      case 'aids':
+        return storeJSON(await fetchSeamarkAids(bounds));
+
+      case 'marinas': {
+        const lat = (bounds.north + bounds.south) / 2;
+        const lon = (bounds.east + bounds.west) / 2;
+        const radius = Math.min(
+          OFFLINE_PACK_CONFIG.MAX_MARINA_RADIUS_NM,
+          Math.ceil(calculateDistance(lat, lon, bounds.north, bounds.east))
+        );
+        return storeJSON(await searchNearbyCoasts(lat, lon, { radius }));
+      }
+
+      case 'forecast': {
+        const forecast = await fetchMarineGridForecast(bounds, packGridResolution(bounds), pack.forecastDays * 24);
+        pack.forecastUntil = forecast.times[forecast.times.length - 1] ?? null;
+        return storeJSON(forecast);
+      }
+
+      default:
+        throw new Error(`Unknown offline pack item: ${item}`);
+    }
+  }
+
+  private async save(pack: OfflinePack): Promise<void> {
+    pack.updatedAt = Date.now();
+    await saveOfflinePack({ ...pack });
+    this.emit('progress', { ...pack });
+    this.emit('packs', await this.list());
+  }
+
+  /**
+   * Event listener management (several listeners per event)
+   */
+  on(event: string, callback: Function): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback?: Function): void {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  private emit(event: string, data: any): void {
+    this.listeners.get(event)?.forEach((callback) => callback(data));
+  }
+}
+
+// Export singleton instance
+export const offlinePacks = new OfflinePackManager();
+
+export { OfflinePackManager };
@@ -0,0 +1,312 @@
+/**
+ * Offline Pack Store
+ *
+ * Storage and lookups for offline region packs (see offlinePackService).
+ * Pack metadata lives in the app state store, pack contents in a database of
+ * their own so the weather cache's eviction never touches them. Services fall
+ * back to these lookups when the network fails, which is how the map and the
+ * route planner read from downloaded packs without knowing about them.
+ */
+
+import type { BoundingBox, MarineGridForecast } from './marineGridService';
+import type { GeoJSONCollection, GeoJSONFeature } from './geojsonService';
+import type { NauticalHazard } from './nauticalChartService';
+import type { AidToNavigation } from './seamarkService';
+import type { Marina } from '../types/navigation';
+import { StateStore, stateStore } from './stateStore';
+import { calculateBearing, calculateDistance } from './routePlanningService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type OfflinePackStatus = 'downloading' | 'paused' | 'complete' | 'failed';
+
+/**
+ * What to download for an area
+ */
+export interface OfflinePackOptions {
+  name: string;
+  bounds: BoundingBox;
+  /** Zoom range of the base map tiles */
+  minZoom: number;
+  maxZoom: number;
+  /** Base map tile URL template ({s}, {z}, {x}, {y}, {r}) */
+  tileUrl: string;
+  /** Days of forecast grid */
+  forecastDays: number;
+}
+
+export interface OfflinePack extends OfflinePackOptions {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: OfflinePackStatus;
+  /** Items in the pack, and how many of them have been processed (in order) */
+  totalItems: number;
+  cursor: number;
+  /** Version of the item list the cursor counts in; missing on packs saved before aids to navigation */
+  itemsVersion?: number;
+  /** Items that failed to download, retried on resume */
+  failed: string[];
+  /** Bytes stored */
+  bytes: number;
+  /** When the pack is due for an update */
+  expiresAt: number;
+  /** Valid time of the last forecast step, null until downloaded */
+  forecastUntil: string | null;
+  error?: string;
+}
+
+// ============================================
+// KEYS & TILE MATH
+// ============================================
+
+const PACKS_KEY = 'offlinePacks';
+
+/** Pack contents (tiles as Blobs, JSON data as is), keyed by packItemKey */
+export const packContents = new StateStore('SeaMeOfflinePacks', 'contents');
+
+export const packItemKey = (packId: string, item: string): string => `${packId}|${item}`;
+export const tileItem = (z: number, x: number, y: number): string => `tile:${z}/${x}/${y}`;
+export const geojsonItem = (url: string): string => `geojson:${url}`;
+
+const MAX_LATITUDE = 85.0511;
+
+const lngToTileX = (lng: number, zoom: number): number => Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const latToTileY = (lat: number, zoom: number): number => {
+  const rad = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+/**
+ * Web Mercator tiles covering the bounds at a zoom level
+ */
+export function tileRange(
+  bounds: BoundingBox,
+  zoom: number
+): { minX: number; maxX: number; minY: number; maxY: number } {
+  const max = 2 ** zoom - 1;
+  const clamp = (value: number) => Math.max(0, Math.min(max, value));
+  return {
+    minX: clamp(lngToTileX(bounds.west, zoom)),
+    maxX: clamp(lngToTileX(bounds.east, zoom)),
+    minY: clamp(latToTileY(bounds.north, zoom)),
+    maxY: clamp(latToTileY(bounds.south, zoom)),
+  };
+}
+
+/**
+ * Fill a tile URL template the way Leaflet does
+ */
+export function expandTileUrl(template: string, z: number, x: number, y: number): string {
+  return template
+    .replace('{s}', 'abc'[(x + y) % 3])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+}
+
+const boundsIntersect = (a: BoundingBox, b: BoundingBox): boolean =>
+  a.west <= b.east && a.east >= b.west && a.south <= b.north && a.north >= b.south;
+
+const overlapArea = (a: BoundingBox, b: BoundingBox): number =>
+  Math.max(0, Math.min(a.east, b.east) - Math.max(a.west, b.west)) *
+  Math.max(0, Math.min(a.north, b.north) - Math.max(a.south, b.south));
+
+// ============================================
+// PACK METADATA
+// ============================================
+
+/** Loaded once; all writes go through it so concurrent downloads don't overwrite each other */
+let packs: Promise<OfflinePack[]> | null = null;
+
+/** GeoJSON merged from every pack, per URL; dropped whenever the packs change */
+const mergedGeoJSON = new Map<string, Promise<GeoJSONCollection | null>>();
+
+export function loadOfflinePacks(): Promise<OfflinePack[]> {
+  packs ??= stateStore.get<OfflinePack[]>(PACKS_KEY).then((saved) => saved ?? []);
+  return packs;
+}
+
+/**
+ * Insert or replace a pack
+ * @param insert - Add the pack when missing; otherwise a removed pack stays removed
+ */
+export async function saveOfflinePack(pack: OfflinePack, insert = false): Promise<void> {
+  mergedGeoJSON.clear();
+  const list = await loadOfflinePacks();
+  const index = list.findIndex((p) => p.id === pack.id);
+  if (index >= 0) {
+    list[index] = pack;
+  } else if (insert) {
+    list.push(pack);
+  } else {
+    return;
+  }
+  await stateStore.set(PACKS_KEY, list);
+}
+
+export async function deleteOfflinePack(id: string): Promise<void> {
+  mergedGeoJSON.clear();
+  const list = await loadOfflinePacks();
+  const index = list.findIndex((p) => p.id === id);
+  if (index >= 0) list.splice(index, 1);
+  await stateStore.set(PACKS_KEY, list);
+  await packContents.deletePrefix(packItemKey(id, ''));
+}
+
+/** Forget the loaded list (tests) */
+export function resetOfflinePacks(): void {
+  packs = null;
+  mergedGeoJSON.clear();
+}
+
+// ============================================
+// OFFLINE LOOKUPS
+// ============================================
+
+/**
+ * A downloaded base map tile, or null when no pack has it
+ */
+export async function getOfflineTile(tileUrl: string, z: number, x: number, y: number): Promise<Blob | null> {
+  for (const pack of await loadOfflinePacks()) {
+    if (pack.tileUrl !== tileUrl || z < pack.minZoom || z > pack.maxZoom) continue;
+    const range = tileRange(pack.bounds, z);
+    if (x < range.minX || x > range.maxX || y < range.minY || y > range.maxY) continue;
+
+    const tile = await packContents.get<Blob>(packItemKey(pack.id, tileItem(z, x, y)));
+    if (tile) return tile;
+  }
+  return null;
+}
+
+/**
+ * Geometry type with the first and last position of a feature's first line
+ * or ring: cheap to build, and only shared by copies of the same feature
+ */
+const featureKey = ({ geometry }: GeoJSONFeature): string => {
+  let part: unknown[] = geometry.coordinates;
+  while (Array.isArray(part[0]) && Array.isArray(part[0][0])) part = part[0];
+  const first = part[0];
+  const last = part[part.length - 1];
+  return Array.isArray(first) ? `${geometry.type}:${first}:${last}:${part.length}` : `${geometry.type}:${part}`;
+};
+
+/**
+ * The features of a GeoJSON file downloaded by any pack (clipped to the
+ * pack areas), or null when no pack has it
+ */
+export function getOfflineGeoJSON(url: string): Promise<GeoJSONCollection | null> {
+  let merged = mergedGeoJSON.get(url);
+  if (!merged) {
+    merged = mergeOfflineGeoJSON(url);
+    mergedGeoJSON.set(url, merged);
+    merged.catch(() => mergedGeoJSON.delete(url));
+  }
+  return merged;
+}
+
+async function mergeOfflineGeoJSON(url: string): Promise<GeoJSONCollection | null> {
+  const features: GeoJSONFeature[] = [];
+  const seen = new Set<string>();
+  let found = false;
+
+  for (const pack of await loadOfflinePacks()) {
+    const collection = await packContents.get<GeoJSONCollection>(packItemKey(pack.id, geojsonItem(url)));
+    if (!collection) continue;
+    found = true;
+    for (const feature of collection.features) {
+      // Packs may overlap: keep each feature once
+      const key = featureKey(feature);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      features.push(feature);
+    }
+  }
+
+  return found ? { type: 'FeatureCollection', features } : null;
+}
+
+/**
+ * Seamark hazards within the bounds from the packs covering them
+ */
+export async function getOfflineHazards(bounds: BoundingBox): Promise<NauticalHazard[] | null> {
+  const hazards = new Map<string, NauticalHazard>();
+  let found = false;
+
+  for (const pack of await loadOfflinePacks()) {
+    if (!boundsIntersect(pack.bounds, bounds)) continue;
+    const stored = await packContents.get<NauticalHazard[]>(packItemKey(pack.id, 'hazards'));
+    if (!stored) continue;
+    found = true;
+    stored
+      .filter((h) => h.lat >= bounds.south && h.lat <= bounds.north && h.lon >= bounds.west && h.lon <= bounds.east)
+      .forEach((h) => hazards.set(h.id, h));
+  }
+
+  return found ? Array.from(hazards.values()) : null;
+}
+
+/**
+ * Buoys, beacons and lights within the bounds from the packs covering them
+ */
+export async function getOfflineAids(bounds: BoundingBox): Promise<AidToNavigation[] | null> {
+  const aids = new Map<string, AidToNavigation>();
+  let found = false;
+
+  for (const pack of await loadOfflinePacks()) {
+    if (!boundsIntersect(pack.bounds, bounds)) continue;
+    const stored = await packContents.get<AidToNavigation[]>(packItemKey(pack.id, 'aids'));
+    if (!stored) continue;
+    found = true;
+    stored
+      .filter((a) => a.lat >= bounds.south && a.lat <= bounds.north && a.lon >= bounds.west && a.lon <= bounds.east)
+      .forEach((a) => aids.set(a.id, a));
+  }
+
+  return found ? Array.from(aids.values()) : null;
+}
+
+/**
+ * Marinas within a radius (NM) from the packs, with distance and bearing
+ * from the search position, nearest first
+ */
+export async function getOfflineMarinas(lat: number, lon: number, radius: number): Promise<Marina[] | null> {
+  const marinas = new Map<string, Marina>();
+  let found = false;
+
+  for (const pack of await loadOfflinePacks()) {
+    const stored = await packContents.get<Marina[]>(packItemKey(pack.id, 'marinas'));
+    if (!stored) continue;
+    found = true;
+    for (const marina of stored) {
+      const distance = calculateDistance(lat, lon, marina.lat, marina.lon);
+      if (distance > radius) continue;
+      marinas.set(marina.id, { ...marina, distance, bearing: calculateBearing(lat, lon, marina.lat, marina.lon) });
+    }
+  }
+
+  return found ? Array.from(marinas.values()).sort((a, b) => a.distance - b.distance) : null;
+}
+
+/**
+ * The downloaded forecast grid overlapping the bounds most that still has
+ * forecast steps ahead, or null
+ */
+export async function getOfflineForecast(
+  bounds: BoundingBox,
+  now: Date = new Date()
+): Promise<MarineGridForecast | null> {
+  const candidates = (await loadOfflinePacks())
+    .filter((p) => p.forecastUntil && new Date(p.forecastUntil) > now && boundsIntersect(p.bounds, bounds))
+    .sort((a, b) => overlapArea(b.bounds, bounds) - overlapArea(a.bounds, bounds));
+
+  for (const pack of candidates) {
+    const forecast = await packContents.get<MarineGridForecast>(packItemKey(pack.id, 'forecast'));
+    if (forecast) return forecast;
+  }
+  return null;
+}
@@ -3,7 +3,16 @@
  * Handles marine route planning with waypoints, distance calculation, and ETA
  */
 
-import type { Waypoint, Route, NavigationState } from '../types/navigation';
+import type {
+  Waypoint,
+  Route,
+  NavigationState,
+  SailingConditions,
+  VesselPerformance,
+} from '../types/navigation';
+import { getVesselSpeed } from '../utils/polar';
+import { formatDistanceIn } from '../utils/units';
+import type { DistanceUnit } from '../utils/units';
 
 /**
  * Calculate distance between two coordinates using Haversine formula
@@ -69,13 +78,19 @@ export const calculateRouteDistance = (waypoints: Waypoint[]): number => {
 
 /**
  * Calculate ETA based on average speed
+ * When a performance model and wind are given, the vessel's expected speed
+ * along the course replaces the fixed speed
  */
 export const calculateETA = (
   distanceNM: number,
-  speedKnots: number
+  speedKnots: number,
+  performance?: VesselPerformance,
+  conditions?: SailingConditions
 ): number => {
-  if (speedKnots === 0) return 0;
-  return (distanceNM / speedKnots) * 60; // returns minutes
+  const speed =
+    performance && conditions ? getVesselSpeed(performance, conditions).speed : speedKnots;
+  if (speed === 0) return 0;
+  return (distanceNM / speed) * 60; // returns minutes
 };
 
 /**
@@ -128,7 +143,7 @@ export const calculateNavigationState = (
       route.waypoints[i + 1].lon
     );
   }
-  const progress = (completedDistance / totalDistance) * 100;
+  const progress = totalDistance > 0 ? (completedDistance / totalDistance) * 100 : 0;
 
   return {
     currentPosition,
@@ -270,13 +285,10 @@ const generateId = (): string =>
 
 /**
  * Format distance for display
+ * @param unit - Display unit (defaults to nautical miles)
  */
-export const formatDistance = (nauticalMiles: number): string => {
-  if (nauticalMiles < 0.1) {
-    return `${Math.round(nauticalMiles * 1852)} m`;
-  }
-  return `${nauticalMiles.toFixed(2)} NM`;
-};
+export const formatDistance = (nauticalMiles: number, unit: DistanceUnit = 'nm'): string =>
+  formatDistanceIn(nauticalMiles, unit);
 
 /**
  * Format time for display
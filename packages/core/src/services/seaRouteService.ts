@@ -0,0 +1,764 @@
+/**
+ * SEA ROUTE SERVICE
+ * Finds water-only routes between two positions. Land polygons (mainland and
+ * minor islands) are laid onto a grid of cells, cells too close to shore, too
+ * shallow or too near a hazard are closed, the shortest path through the open
+ * cells is searched with A*, and the path is then straightened into a few
+ * waypoints.
+ */
+
+import type { Route, Waypoint } from '../types/navigation';
+import { SEA_ROUTE_CONFIG } from '../constants';
+import { fetchBathymetryLayer, fetchGeoJSON } from './geojsonService';
+import type { GeoJSONFeature, Resolution } from './geojsonService';
+import { depthGrids, sampleDepthGrid } from './depthService';
+import type { DepthGrid } from './depthService';
+import { calculateDistance, calculateRouteDistance, generateRoute } from './routePlanningService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SeaRouteBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * Land laid onto a regular lat/lon grid. Cells are stored row by row from
+ * the south-west corner.
+ */
+export interface WaterGrid {
+  bounds: SeaRouteBounds;
+  rows: number;
+  cols: number;
+  cellSize: number; // degrees
+  land: Uint8Array; // 1 where the cell centre is on land
+  blocked: Uint8Array; // 1 where routes may not pass: land, the shore clearance, too shallow, or near a hazard
+}
+
+export interface SeaRouteOptions {
+  /** Land data to route around (defaults to 10m, or 50m when 10m isn't available) */
+  resolution?: Resolution;
+  averageSpeed?: number; // knots
+  /** Distance to keep off land, in meters (defaults to SEA_ROUTE_CONFIG.SHORE_CLEARANCE_M) */
+  shoreClearance?: number;
+  /** Stay in water deeper than this bathymetry contour (200, 1000, 2000 or 3000 m) */
+  depthContour?: number;
+  /** Avoid water shallower than this where an imported depth grid covers it (meters below mean sea level) */
+  minDepth?: number;
+  /** Hazards to keep clear of */
+  avoid?: AvoidArea[];
+}
+
+/**
+ * A hazard routes must keep clear of: a point, or an area outline
+ */
+export interface AvoidArea {
+  lat: number;
+  lon: number;
+  /** Distance to keep from the point, or from the outline (meters) */
+  clearance: number;
+  polygon?: Position[];
+}
+
+type Position = { lat: number; lon: number };
+
+const METERS_PER_DEGREE = 111320; // of latitude
+
+// ============================================================================
+// Grid
+// ============================================================================
+
+/**
+ * The area searched for a route: both ends plus a margin to go round land
+ */
+export const getSeaRouteBounds = (from: Position, to: Position): SeaRouteBounds => {
+  const span = Math.max(Math.abs(from.lat - to.lat), Math.abs(from.lon - to.lon));
+  const padding = Math.max(span * SEA_ROUTE_CONFIG.PADDING_RATIO, SEA_ROUTE_CONFIG.MIN_PADDING_DEG);
+
+  return {
+    north: Math.min(Math.max(from.lat, to.lat) + padding, 85),
+    south: Math.max(Math.min(from.lat, to.lat) - padding, -85),
+    east: Math.max(from.lon, to.lon) + padding,
+    west: Math.min(from.lon, to.lon) - padding,
+  };
+};
+
+/** The outer ring and holes of each polygon in a feature, as [lon, lat] pairs */
+const getPolygons = (feature: GeoJSONFeature): number[][][][] => {
+  const { type, coordinates } = feature.geometry;
+  if (type === 'Polygon') return [coordinates];
+  if (type === 'MultiPolygon') return coordinates;
+  return [];
+};
+
+/**
+ * Mark the grid cells whose centre lies inside any of the land polygons.
+ * Each polygon is filled row by row between the points where its edges
+ * cross the row (even-odd, so holes such as lakes stay water).
+ */
+export const buildWaterGrid = (
+  landFeatures: GeoJSONFeature[],
+  bounds: SeaRouteBounds,
+  cellSize?: number
+): WaterGrid => {
+  const latSpan = bounds.north - bounds.south;
+  const lonSpan = bounds.east - bounds.west;
+  const size =
+    cellSize ??
+    Math.max(Math.max(latSpan, lonSpan) / SEA_ROUTE_CONFIG.GRID_CELLS, SEA_ROUTE_CONFIG.MIN_CELL_DEG);
+  const rows = Math.max(1, Math.ceil(latSpan / size));
+  const cols = Math.max(1, Math.ceil(lonSpan / size));
+  const land = new Uint8Array(rows * cols);
+
+  for (const feature of landFeatures) {
+    for (const polygon of getPolygons(feature)) {
+      const crossings: number[][] = [];
+
+      for (const ring of polygon) {
+        for (let i = 0; i < ring.length - 1; i++) {
+          const [x1, y1] = ring[i];
+          const [x2, y2] = ring[i + 1];
+          if (y1 === y2) continue;
+
+          // Rows whose centre latitude the edge crosses (lower end inclusive)
+          const low = Math.min(y1, y2);
+          const high = Math.max(y1, y2);
+          const first = Math.max(0, Math.ceil((low - bounds.south) / size - 0.5));
+          const last = Math.min(rows - 1, Math.ceil((high - bounds.south) / size - 0.5) - 1);
+
+          for (let row = first; row <= last; row++) {
+            const lat = bounds.south + (row + 0.5) * size;
+            (crossings[row] ??= []).push(x1 + ((lat - y1) * (x2 - x1)) / (y2 - y1));
+          }
+        }
+      }
+
+      crossings.forEach((xs, row) => {
+        xs.sort((a, b) => a - b);
+        for (let i = 0; i + 1 < xs.length; i += 2) {
+          const first = Math.max(0, Math.ceil((xs[i] - bounds.west) / size - 0.5));
+          const last = Math.min(cols - 1, Math.ceil((xs[i + 1] - bounds.west) / size - 0.5) - 1);
+          for (let col = first; col <= last; col++) {
+            land[row * cols + col] = 1;
+          }
+        }
+      });
+    }
+  }
+
+  return { bounds, rows, cols, cellSize: size, land, blocked: land.slice() };
+};
+
+/**
+ * Close the water cells within a distance of land
+ *
+ * @param meters - Clearance to keep from the shore
+ */
+export const applyShoreClearance = (grid: WaterGrid, meters: number): WaterGrid => {
+  const midLat = (grid.bounds.north + grid.bounds.south) / 2;
+  const rowRadius = meters / METERS_PER_DEGREE / grid.cellSize;
+  const colRadius = rowRadius / Math.max(Math.cos((midLat * Math.PI) / 180), 0.1);
+  const maxRow = Math.round(rowRadius);
+  const maxCol = Math.round(colRadius);
+  if (maxRow === 0 && maxCol === 0) return grid;
+
+  const blocked = grid.blocked.slice();
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      if (!grid.land[row * grid.cols + col]) continue;
+
+      for (let dr = -maxRow; dr <= maxRow; dr++) {
+        for (let dc = -maxCol; dc <= maxCol; dc++) {
+          const r = row + dr;
+          const c = col + dc;
+          if (r < 0 || r >= grid.rows || c < 0 || c >= grid.cols) continue;
+          // Elliptical in cells, so the clearance is about the same distance in every direction
+          if ((dr / (rowRadius || 1)) ** 2 + (dc / (colRadius || 1)) ** 2 > 1) continue;
+          blocked[r * grid.cols + c] = 1;
+        }
+      }
+    }
+  }
+
+  return { ...grid, blocked };
+};
+
+/**
+ * Close the cells outside the deep water areas
+ *
+ * @param deepWater - Bathymetry polygons covering the water deeper than the limit
+ */
+export const applyDepthLimit = (grid: WaterGrid, deepWater: GeoJSONFeature[]): WaterGrid => {
+  const deep = buildWaterGrid(deepWater, grid.bounds, grid.cellSize).land;
+  const blocked = grid.blocked.slice();
+  for (let cell = 0; cell < blocked.length; cell++) {
+    if (!deep[cell]) blocked[cell] = 1;
+  }
+  return { ...grid, blocked };
+};
+
+/**
+ * Close the cells an imported depth grid shows as shallower than a depth
+ *
+ * @param depthGrids - Imported depth grids, finest first
+ */
+export const applyMinDepth = (grid: WaterGrid, depthGrids: DepthGrid[], minDepth: number): WaterGrid => {
+  const blocked = grid.blocked.slice();
+  for (let cell = 0; cell < blocked.length; cell++) {
+    if (blocked[cell]) continue;
+    const { lat, lon } = cellCentre(grid, cell);
+    for (const depthGrid of depthGrids) {
+      const depth = sampleDepthGrid(depthGrid, lat, lon);
+      if (depth !== null) {
+        if (depth < minDepth) blocked[cell] = 1;
+        break;
+      }
+    }
+  }
+  return { ...grid, blocked };
+};
+
+/** Close the cells whose centre is within a distance of a point */
+const blockAround = (grid: WaterGrid, blocked: Uint8Array, { lat, lon }: Position, meters: number) => {
+  const latRadius = meters / METERS_PER_DEGREE;
+  const lonRadius = latRadius / Math.max(Math.cos((lat * Math.PI) / 180), 0.1);
+  const firstRow = Math.max(0, Math.floor((lat - latRadius - grid.bounds.south) / grid.cellSize));
+  const lastRow = Math.min(grid.rows - 1, Math.floor((lat + latRadius - grid.bounds.south) / grid.cellSize));
+  const firstCol = Math.max(0, Math.floor((lon - lonRadius - grid.bounds.west) / grid.cellSize));
+  const lastCol = Math.min(grid.cols - 1, Math.floor((lon + lonRadius - grid.bounds.west) / grid.cellSize));
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = firstCol; col <= lastCol; col++) {
+      const centre = cellCentre(grid, row * grid.cols + col);
+      if (((centre.lat - lat) / latRadius) ** 2 + ((centre.lon - lon) / lonRadius) ** 2 <= 1) {
+        blocked[row * grid.cols + col] = 1;
+      }
+    }
+  }
+};
+
+/**
+ * Close the cells within each hazard's clearance. The clearance is widened
+ * by half a cell diagonal, so a route through open cell centres keeps it.
+ */
+export const applyAvoidAreas = (grid: WaterGrid, areas: AvoidArea[]): WaterGrid => {
+  const padding = grid.cellSize * METERS_PER_DEGREE * Math.SQRT1_2;
+  const blocked = grid.blocked.slice();
+
+  for (const area of areas) {
+    const clearance = area.clearance + padding;
+    if (area.polygon && area.polygon.length >= 3) {
+      const outline: GeoJSONFeature = {
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates: [area.polygon.map((point) => [point.lon, point.lat])] },
+        properties: {},
+      };
+      const inside = applyShoreClearance(buildWaterGrid([outline], grid.bounds, grid.cellSize), clearance).blocked;
+      for (let cell = 0; cell < blocked.length; cell++) {
+        if (inside[cell]) blocked[cell] = 1;
+      }
+      // Areas smaller than a cell fill none; their corners still count
+      area.polygon.forEach((corner) => blockAround(grid, blocked, corner, clearance));
+    } else {
+      blockAround(grid, blocked, area, clearance);
+    }
+  }
+
+  return { ...grid, blocked };
+};
+
+const cellOf = (grid: WaterGrid, { lat, lon }: Position): number | null => {
+  const row = Math.floor((lat - grid.bounds.south) / grid.cellSize);
+  const col = Math.floor((lon - grid.bounds.west) / grid.cellSize);
+  if (row < 0 || row >= grid.rows || col < 0 || col >= grid.cols) return null;
+  return row * grid.cols + col;
+};
+
+const cellCentre = (grid: WaterGrid, cell: number): Position => ({
+  lat: grid.bounds.south + (Math.floor(cell / grid.cols) + 0.5) * grid.cellSize,
+  lon: grid.bounds.west + ((cell % grid.cols) + 0.5) * grid.cellSize,
+});
+
+/**
+ * Whether a position is on water (anything outside the grid counts as water)
+ */
+export const isWater = (grid: WaterGrid, position: Position): boolean => {
+  const cell = cellOf(grid, position);
+  return cell === null || grid.land[cell] === 0;
+};
+
+/**
+ * For points a quarter cell apart along a leg, whether each is in a marked cell
+ */
+const sampleLeg = (grid: WaterGrid, cells: Uint8Array, from: Position, to: Position): boolean[] => {
+  const step = grid.cellSize / 4;
+  const steps = Math.ceil(Math.max(Math.abs(to.lat - from.lat), Math.abs(to.lon - from.lon)) / step);
+  const samples: boolean[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 0 : i / steps;
+    const cell = cellOf(grid, { lat: from.lat + (to.lat - from.lat) * t, lon: from.lon + (to.lon - from.lon) * t });
+    samples.push(cell !== null && cells[cell] === 1);
+  }
+  return samples;
+};
+
+/**
+ * Whether the straight leg between two positions stays on water
+ */
+export const isLegOnWater = (grid: WaterGrid, from: Position, to: Position): boolean =>
+  !sampleLeg(grid, grid.land, from, to).includes(true);
+
+/**
+ * Whether a leg crosses land on its way. Land at either end of the leg
+ * (a harbour inside a coarse coastline) doesn't count, only land between
+ * stretches of water.
+ */
+export const legCrossesLand = (grid: WaterGrid, from: Position, to: Position): boolean => {
+  const onLand = sampleLeg(grid, grid.land, from, to);
+  const firstWater = onLand.indexOf(false);
+  const lastWater = onLand.lastIndexOf(false);
+  return firstWater !== -1 && onLand.slice(firstWater, lastWater + 1).includes(true);
+};
+
+const isLegOpen = (grid: WaterGrid, from: Position, to: Position): boolean =>
+  !sampleLeg(grid, grid.blocked, from, to).includes(true);
+
+/**
+ * The closest open cell to a closed one, searching outwards ring by ring
+ */
+const nearestOpenCell = (grid: WaterGrid, cell: number): number | null => {
+  const row = Math.floor(cell / grid.cols);
+  const col = cell % grid.cols;
+  const maxRadius = Math.max(grid.rows, grid.cols);
+
+  for (let radius = 1; radius < maxRadius; radius++) {
+    let best: number | null = null;
+    let bestDistance = Infinity;
+
+    for (let r = row - radius; r <= row + radius; r++) {
+      for (let c = col - radius; c <= col + radius; c++) {
+        if (Math.max(Math.abs(r - row), Math.abs(c - col)) !== radius) continue;
+        if (r < 0 || r >= grid.rows || c < 0 || c >= grid.cols) continue;
+
+        const candidate = r * grid.cols + c;
+        const distance = (r - row) ** 2 + (c - col) ** 2;
+        if (grid.blocked[candidate] === 0 && distance < bestDistance) {
+          best = candidate;
+          bestDistance = distance;
+        }
+      }
+    }
+
+    if (best !== null) return best;
+  }
+
+  return null;
+};
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Binary min-heap of cells ordered by their estimated route length
+ * Each entry keeps the score it was pushed with, so a cell pushed again with a
+ * better estimate never reorders the entries already in the heap.
+ */
+class CellQueue {
+  private cells: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, score: number): void {
+    const { cells, scores } = this;
+    cells.push(cell);
+    scores.push(score);
+    let i = cells.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (scores[parent] <= scores[i]) break;
+      this.swap(parent, i);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const { cells, scores } = this;
+    const top = cells[0];
+    const lastCell = cells.pop()!;
+    const lastScore = scores.pop()!;
+    if (cells.length > 0) {
+      cells[0] = lastCell;
+      scores[0] = lastScore;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < cells.length && scores[left] < scores[smallest]) smallest = left;
+        if (right < cells.length && scores[right] < scores[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(smallest, i);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    const { cells, scores } = this;
+    [cells[a], cells[b]] = [cells[b], cells[a]];
+    [scores[a], scores[b]] = [scores[b], scores[a]];
+  }
+}
+
+/**
+ * Shortest chain of open cells between two cells (A* over the 8 neighbours
+ * of each cell, never cutting a closed corner diagonally)
+ */
+const searchCells = (grid: WaterGrid, start: number, goal: number): number[] | null => {
+  const total = grid.rows * grid.cols;
+  const travelled = new Float64Array(total).fill(Infinity);
+  const cameFrom = new Int32Array(total).fill(-1);
+  const closed = new Uint8Array(total);
+  const queue = new CellQueue();
+  const goalCentre = cellCentre(grid, goal);
+
+  const distanceBetween = (a: Position, b: Position) => calculateDistance(a.lat, a.lon, b.lat, b.lon);
+
+  travelled[start] = 0;
+  queue.push(start, distanceBetween(cellCentre(grid, start), goalCentre));
+
+  while (queue.size > 0) {
+    const cell = queue.pop();
+    if (cell === goal) {
+      const path = [cell];
+      while (cameFrom[path[0]] !== -1) path.unshift(cameFrom[path[0]]);
+      return path;
+    }
+    if (closed[cell]) continue;
+    closed[cell] = 1;
+
+    const row = Math.floor(cell / grid.cols);
+    const col = cell % grid.cols;
+    const centre = cellCentre(grid, cell);
+
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        if (dr === 0 && dc === 0) continue;
+        const r = row + dr;
+        const c = col + dc;
+        if (r < 0 || r >= grid.rows || c < 0 || c >= grid.cols) continue;
+
+        const next = r * grid.cols + c;
+        if (grid.blocked[next] || closed[next]) continue;
+        if (dr !== 0 && dc !== 0 && (grid.blocked[row * grid.cols + c] || grid.blocked[r * grid.cols + col])) continue;
+
+        const nextCentre = cellCentre(grid, next);
+        const distance = travelled[cell] + distanceBetween(centre, nextCentre);
+        if (distance < travelled[next]) {
+          travelled[next] = distance;
+          cameFrom[next] = cell;
+          queue.push(next, distance + distanceBetween(nextCentre, goalCentre));
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Drop every point that the previous kept point can reach in a straight
+ * line through open cells
+ */
+const straighten = (grid: WaterGrid, points: Position[]): Position[] => {
+  const kept = [points[0]];
+  let anchor = 0;
+
+  while (anchor < points.length - 1) {
+    let next = points.length - 1;
+    while (next > anchor + 1 && !isLegOpen(grid, points[anchor], points[next])) next--;
+    kept.push(points[next]);
+    anchor = next;
+  }
+
+  return kept;
+};
+
+/**
+ * Shortest water path between two positions, as the turning points of the
+ * path including both ends. Ends in closed cells (a marina inside a coarse
+ * coastline, or within the shore clearance) are joined to the nearest open
+ * water.
+ *
+ * @throws If either end is outside the grid or no water path connects them
+ */
+export const findWaterPath = (grid: WaterGrid, from: Position, to: Position): Position[] => {
+  const startCell = cellOf(grid, from);
+  const goalCell = cellOf(grid, to);
+  if (startCell === null || goalCell === null) {
+    throw new Error('Route ends lie outside the search area');
+  }
+
+  const startClosed = grid.blocked[startCell] === 1;
+  const goalClosed = grid.blocked[goalCell] === 1;
+  const start = startClosed ? nearestOpenCell(grid, startCell) : startCell;
+  const goal = goalClosed ? nearestOpenCell(grid, goalCell) : goalCell;
+  if (start === null || goal === null) {
+    throw new Error('No open water found near the route ends');
+  }
+
+  const cells = searchCells(grid, start, goal);
+  if (!cells) {
+    throw new Error('No water route found between these positions');
+  }
+
+  const points = cells.map((cell) => cellCentre(grid, cell));
+  if (!startClosed) points[0] = from;
+  if (!goalClosed) {
+    if (points.length === 1 && !startClosed) points.push(to);
+    else points[points.length - 1] = to;
+  }
+
+  const path = straighten(grid, points);
+  if (startClosed) path.unshift(from);
+  if (goalClosed) path.push(to);
+  return path;
+};
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+const overlaps = (feature: GeoJSONFeature, bounds: SeaRouteBounds): boolean =>
+  getPolygons(feature).some(([outer = []]) => {
+    // Loops, not Math.min(...): outer rings can have more points than fit in an argument list
+    let west = Infinity;
+    let east = -Infinity;
+    let south = Infinity;
+    let north = -Infinity;
+    for (const [lon, lat] of outer) {
+      if (lon < west) west = lon;
+      if (lon > east) east = lon;
+      if (lat < south) south = lat;
+      if (lat > north) north = lat;
+    }
+    return west <= bounds.east && east >= bounds.west && south <= bounds.north && north >= bounds.south;
+  });
+
+/**
+ * Land and minor island polygons overlapping an area, from the finest
+ * resolution available
+ */
+const loadLand = async (bounds: SeaRouteBounds, resolution: Resolution): Promise<GeoJSONFeature[]> => {
+  let land = await fetchLandLayer('land', resolution);
+  if (land.length === 0 && resolution === '10m') {
+    // 10m land is only available once downloaded in an offline pack
+    land = await fetchLandLayer('land', '50m');
+  }
+  // Minor islands only exist at 10m
+  const islands = await fetchLandLayer('minor_islands', '10m');
+
+  return [...land, ...islands].filter((feature) => overlaps(feature, bounds));
+};
+
+/** When each layer was last found missing, so a route's legs don't request it again one by one */
+const missingLayers = new Map<string, number>();
+
+const fetchLandLayer = async (layer: 'land' | 'minor_islands', resolution: Resolution): Promise<GeoJSONFeature[]> => {
+  const key = `${layer}:${resolution}`;
+  const missedAt = missingLayers.get(key);
+  if (missedAt !== undefined && Date.now() - missedAt < SEA_ROUTE_CONFIG.MISSING_LAYER_RETRY_MS) return [];
+
+  const { features } = await fetchGeoJSON(layer, resolution);
+  if (features.length === 0) missingLayers.set(key, Date.now());
+  else missingLayers.delete(key);
+  return features;
+};
+
+/**
+ * The search grid between two positions, closed wherever routes may not go
+ */
+const buildSeaRouteGrid = async (from: Position, to: Position, options: SeaRouteOptions): Promise<WaterGrid> => {
+  const { resolution = '10m', shoreClearance = SEA_ROUTE_CONFIG.SHORE_CLEARANCE_M, depthContour, minDepth, avoid } = options;
+  const bounds = getSeaRouteBounds(from, to);
+  let grid = buildWaterGrid(await loadLand(bounds, resolution), bounds);
+
+  if (shoreClearance > 0) {
+    grid = applyShoreClearance(grid, shoreClearance);
+  }
+
+  if (depthContour) {
+    let contour = await fetchBathymetryLayer(depthContour, resolution);
+    if (contour.features.length === 0 && resolution === '10m') {
+      contour = await fetchBathymetryLayer(depthContour, '50m');
+    }
+
+    if (contour.features.length > 0) {
+      grid = applyDepthLimit(grid, contour.features.filter((feature) => overlaps(feature, bounds)));
+    } else {
+      console.warn(`No ${depthContour}m bathymetry available, routing without a depth limit`);
+    }
+  }
+
+  if (minDepth) {
+    grid = applyMinDepth(grid, await depthGrids.loadAll(), minDepth);
+  }
+
+  if (avoid && avoid.length > 0) {
+    grid = applyAvoidAreas(grid, avoid);
+  }
+
+  return grid;
+};
+
+/**
+ * A coarse grid can let a straightened leg clip land smaller than its
+ * cells, so each leg is checked on a grid of its own and, where it crosses
+ * land, searched again on that finer grid
+ */
+const refineWaterPath = async (
+  path: Position[],
+  options: SeaRouteOptions,
+  depth: number = SEA_ROUTE_CONFIG.MAX_REFINEMENTS
+): Promise<Position[]> => {
+  if (depth === 0) return path;
+  const { resolution = '10m' } = options;
+  const refined = [path[0]];
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const from = path[i];
+    const to = path[i + 1];
+    const bounds = getSeaRouteBounds(from, to);
+
+    if (legCrossesLand(buildWaterGrid(await loadLand(bounds, resolution), bounds), from, to)) {
+      try {
+        const grid = await buildSeaRouteGrid(from, to, options);
+        const detour = await refineWaterPath(findWaterPath(grid, from, to), options, depth - 1);
+        refined.push(...detour.slice(1, -1));
+      } catch (error) {
+        // Keep the leg; it still shows up in findLandCrossings
+        console.warn('Could not refine a leg around land:', error);
+      }
+    }
+    refined.push(to);
+  }
+
+  return refined;
+};
+
+/**
+ * Shortest water route between two positions, as waypoints from the start
+ * to the destination with a turning point wherever land is in the way
+ *
+ * @throws If no water route connects the positions
+ */
+export const findSeaRouteWaypoints = async (
+  start: Position & { name?: string },
+  destination: Position & { name?: string },
+  options: SeaRouteOptions = {}
+): Promise<Waypoint[]> => {
+  const grid = await buildSeaRouteGrid(start, destination, options);
+  const path = await refineWaterPath(findWaterPath(grid, start, destination), options);
+
+  return path.map((point, i): Waypoint => {
+    if (i === 0) {
+      return { id: 'start', lat: start.lat, lon: start.lon, name: start.name ?? 'Start', type: 'start', timestamp: new Date() };
+    }
+    if (i === path.length - 1) {
+      return { id: 'destination', lat: destination.lat, lon: destination.lon, name: destination.name ?? 'Destination', type: 'destination' };
+    }
+    return { id: generateId(), lat: point.lat, lon: point.lon, name: `WP${i}`, type: 'waypoint' };
+  });
+};
+
+/**
+ * Plan a route that stays on water from one position to another, with a
+ * waypoint at each turn needed to go round land
+ */
+export const planSeaRoute = async (
+  start: Position & { name: string },
+  destination: Position & { name: string },
+  options: SeaRouteOptions = {}
+): Promise<Route> => {
+  const { averageSpeed = 5 } = options;
+  const route = generateRoute(start, destination, averageSpeed);
+  const waypoints = await findSeaRouteWaypoints(start, destination, options);
+
+  const totalDistance = calculateRouteDistance(waypoints);
+  return {
+    ...route,
+    waypoints,
+    totalDistance,
+    estimatedTime: totalDistance / averageSpeed,
+  };
+};
+
+/**
+ * The legs of a route that cross land, by index (leg i runs from waypoint i
+ * to waypoint i + 1)
+ */
+export const findLandCrossings = async (
+  waypoints: Position[],
+  options: Pick<SeaRouteOptions, 'resolution'> = {}
+): Promise<number[]> => {
+  const { resolution = '10m' } = options;
+  const crossings: number[] = [];
+
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const bounds = getSeaRouteBounds(waypoints[i], waypoints[i + 1]);
+    const grid = buildWaterGrid(await loadLand(bounds, resolution), bounds);
+    if (legCrossesLand(grid, waypoints[i], waypoints[i + 1])) {
+      crossings.push(i);
+    }
+  }
+
+  return crossings;
+};
+
+/**
+ * Replace the given legs with the water route between their ends. The
+ * route's own waypoints are kept; the added turning points are numbered by
+ * their place in the route.
+ *
+ * @param legs - Leg indices (leg i runs from waypoint i to waypoint i + 1)
+ */
+export const rerouteLegs = async (
+  waypoints: Waypoint[],
+  legs: number[],
+  options: SeaRouteOptions = {}
+): Promise<Waypoint[]> => {
+  if (legs.length === 0) return waypoints;
+
+  const result: Waypoint[] = [waypoints[0]];
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    if (legs.includes(i)) {
+      const detour = await findSeaRouteWaypoints(waypoints[i], waypoints[i + 1], options);
+      for (const turn of detour.slice(1, -1)) {
+        result.push({ ...turn, name: `WP${result.length}` });
+      }
+    }
+    result.push(waypoints[i + 1]);
+  }
+
+  return result;
+};
+
+/**
+ * Replace every leg that crosses land with the water route between its ends
+ */
+export const routeAroundLand = async (waypoints: Waypoint[], options: SeaRouteOptions = {}): Promise<Waypoint[]> =>
+  rerouteLegs(waypoints, await findLandCrossings(waypoints, options), options);
+
+// Helper functions
+const generateId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
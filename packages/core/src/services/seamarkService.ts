@@ -0,0 +1,585 @@
+/**
+ * Seamark Aids to Navigation
+ *
+ * Buoys, beacons and lights from the OpenStreetMap seamark tags behind
+ * OpenSeaMap: fetching, parsing, and decoding light characteristics and IALA
+ * buoyage into plain language. Hazards (rocks, wrecks, restricted areas) are
+ * nauticalChartService's.
+ */
+
+import { API_ENDPOINTS, SEAMARK_CONFIG } from '../constants';
+import type { BoundingBox } from './marineGridService';
+import { getOfflineAids } from './offlinePackStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AidStructure = 'buoy' | 'beacon' | 'light' | 'light_vessel' | 'light_float';
+
+export type AidCategory = 'lateral' | 'cardinal' | 'isolated_danger' | 'safe_water' | 'special_purpose' | 'light';
+
+export type LateralSide = 'port' | 'starboard' | 'preferred_channel_port' | 'preferred_channel_starboard';
+
+export type CardinalQuadrant = 'north' | 'east' | 'south' | 'west';
+
+/** IALA buoyage region: A (red to port) or B (green to port: the Americas, Japan, Korea, the Philippines) */
+export type IalaRegion = 'A' | 'B';
+
+/**
+ * A light, or one sector of a sectored light
+ */
+export interface SeamarkLight {
+  /** Character as charted: F, Fl, LFl, Q, VQ, Iso, Oc, Mo, Al.Fl... */
+  character: string;
+  /** Flash group ('2', '2+1'), or the letter of a Morse light */
+  group?: string;
+  colours: string[];
+  /** Seconds */
+  period?: number;
+  /** Metres above sea level */
+  height?: number;
+  /** Nominal range (NM) */
+  range?: number;
+  /** Sector limits as charted: true bearings from seaward towards the light */
+  sectorStart?: number;
+  sectorEnd?: number;
+}
+
+export interface Topmark {
+  /** OpenSeaMap shape name ('cylinder', 'cone, point up', '2 cones up', 'sphere', 'x-shape'...) */
+  shape: string;
+  colours: string[];
+}
+
+export interface AidToNavigation {
+  id: string;
+  lat: number;
+  lon: number;
+  structure: AidStructure;
+  category: AidCategory;
+  name?: string;
+  /** Buoy or beacon shape (can, conical, pillar, spar, spherical, stake, tower...) */
+  shape?: string;
+  colours: string[];
+  /** How several colours are arranged (horizontal bands, vertical stripes...) */
+  colourPattern?: string;
+  topmark?: Topmark;
+  lateral?: LateralSide;
+  cardinal?: CardinalQuadrant;
+  region: IalaRegion;
+  lights: SeamarkLight[];
+}
+
+/**
+ * How a mark looks: its tagged shape and colours, completed with what IALA
+ * prescribes for its kind
+ */
+export interface AidAppearance {
+  shape?: string;
+  colours: string[];
+  colourPattern?: string;
+  topmark?: Topmark;
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+const AID_TYPES: Record<string, { structure: AidStructure; category: AidCategory }> = {
+  buoy_lateral: { structure: 'buoy', category: 'lateral' },
+  beacon_lateral: { structure: 'beacon', category: 'lateral' },
+  buoy_cardinal: { structure: 'buoy', category: 'cardinal' },
+  beacon_cardinal: { structure: 'beacon', category: 'cardinal' },
+  buoy_isolated_danger: { structure: 'buoy', category: 'isolated_danger' },
+  beacon_isolated_danger: { structure: 'beacon', category: 'isolated_danger' },
+  buoy_safe_water: { structure: 'buoy', category: 'safe_water' },
+  beacon_safe_water: { structure: 'beacon', category: 'safe_water' },
+  buoy_special_purpose: { structure: 'buoy', category: 'special_purpose' },
+  beacon_special_purpose: { structure: 'beacon', category: 'special_purpose' },
+  light_major: { structure: 'light', category: 'light' },
+  light_minor: { structure: 'light', category: 'light' },
+  light_vessel: { structure: 'light_vessel', category: 'light' },
+  light_float: { structure: 'light_float', category: 'light' },
+};
+
+const LATERAL_SIDES: LateralSide[] = ['port', 'starboard', 'preferred_channel_port', 'preferred_channel_starboard'];
+const CARDINAL_QUADRANTS: CardinalQuadrant[] = ['north', 'east', 'south', 'west'];
+
+/** Where IALA region B applies (approximate; a mark's own system tag wins) */
+const REGION_B_AREAS: BoundingBox[] = [
+  { north: 84, south: -60, west: -170, east: -30 }, // The Americas
+  { north: 46, south: 24, west: 122, east: 146 }, // Japan
+  { north: 39, south: 33, west: 124, east: 131 }, // Korea
+  { north: 21, south: 4.5, west: 116, east: 127 }, // The Philippines
+];
+
+/** Greenland is region A although inside the Americas box */
+const GREENLAND: BoundingBox = { north: 84, south: 59, west: -55, east: -10 };
+
+const inBounds = (lat: number, lon: number, b: BoundingBox): boolean =>
+  lat >= b.south && lat <= b.north && lon >= b.west && lon <= b.east;
+
+/**
+ * IALA buoyage region at a position
+ */
+export function ialaRegion(lat: number, lon: number): IalaRegion {
+  if (inBounds(lat, lon, GREENLAND)) return 'A';
+  return REGION_B_AREAS.some((area) => inBounds(lat, lon, area)) ? 'B' : 'A';
+}
+
+const list = (value?: string): string[] =>
+  value
+    ? value
+        .split(';')
+        .map((v) => v.trim())
+        .filter(Boolean)
+    : [];
+
+const num = (value?: string): number | undefined => {
+  const n = parseFloat(value ?? '');
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Lights of a node: seamark:light:* for a single light, seamark:light:N:*
+ * for the sectors of a sectored light (unnumbered tags apply to all sectors)
+ */
+export function parseSeamarkLights(tags: Record<string, string>): SeamarkLight[] {
+  const common: Record<string, string> = {};
+  const sectors = new Map<number, Record<string, string>>();
+
+  for (const [key, value] of Object.entries(tags)) {
+    const match = key.match(/^seamark:light:(?:(\d+):)?([a-z_]+)$/);
+    if (!match) continue;
+    if (match[1]) {
+      const n = Number(match[1]);
+      sectors.set(n, { ...sectors.get(n), [match[2]]: value });
+    } else {
+      common[match[2]] = value;
+    }
+  }
+
+  const lights =
+    sectors.size > 0
+      ? Array.from(sectors.entries())
+          .sort((a, b) => a[0] - b[0])
+          .map(([, sector]) => ({ ...common, ...sector }))
+      : [common];
+
+  return lights
+    .filter((light) => light.character || light.colour)
+    .map((light) => ({
+      character: light.character ?? 'F',
+      group: light.group?.replace(/[()]/g, '') || undefined,
+      colours: list(light.colour),
+      period: num(light.period),
+      height: num(light.height),
+      range: num(light.range),
+      sectorStart: num(light.sector_start),
+      sectorEnd: num(light.sector_end),
+    }));
+}
+
+/**
+ * Parse an Overpass node into an aid to navigation, or null when it isn't one
+ */
+export function parseSeamarkAid(element: {
+  id: number | string;
+  lat?: number;
+  lon?: number;
+  tags?: Record<string, string>;
+}): AidToNavigation | null {
+  const tags = element.tags ?? {};
+  const { lat, lon } = element;
+  if (lat === undefined || lon === undefined) return null;
+
+  const type = tags['seamark:type'];
+  const lights = parseSeamarkLights(tags);
+  // Lights also sit on landmarks, harbour walls...: show those as lights
+  const kind = AID_TYPES[type] ?? (lights.length > 0 ? { structure: 'light', category: 'light' } : null);
+  if (!kind) return null;
+
+  const attribute = (name: string): string | undefined => tags[`seamark:${type}:${name}`];
+  const category = attribute('category');
+  const system = attribute('system');
+  const topmarkShape = tags['seamark:topmark:shape'];
+
+  return {
+    id: `osm-${element.id}`,
+    lat,
+    lon,
+    structure: kind.structure,
+    category: kind.category,
+    name: tags['seamark:name'] || tags.name || undefined,
+    shape: AID_TYPES[type] ? attribute('shape') : undefined,
+    colours: AID_TYPES[type] ? list(attribute('colour')) : [],
+    colourPattern: attribute('colour_pattern'),
+    topmark: topmarkShape ? { shape: topmarkShape, colours: list(tags['seamark:topmark:colour']) } : undefined,
+    lateral:
+      kind.category === 'lateral' && LATERAL_SIDES.includes(category as LateralSide)
+        ? (category as LateralSide)
+        : undefined,
+    cardinal:
+      kind.category === 'cardinal' && CARDINAL_QUADRANTS.includes(category as CardinalQuadrant)
+        ? (category as CardinalQuadrant)
+        : undefined,
+    region: system === 'iala-b' ? 'B' : system === 'iala-a' ? 'A' : ialaRegion(lat, lon),
+    lights,
+  };
+}
+
+/**
+ * Parse an Overpass response
+ */
+export const parseSeamarkAids = (data: any): AidToNavigation[] =>
+  (data?.elements ?? [])
+    .map((element: any) => parseSeamarkAid(element))
+    .filter((aid: AidToNavigation | null): aid is AidToNavigation => aid !== null);
+
+// ============================================
+// DECODING
+// ============================================
+
+const COLOUR_ABBREVIATIONS: Record<string, string> = {
+  white: 'W',
+  red: 'R',
+  green: 'G',
+  yellow: 'Y',
+  blue: 'Bu',
+  amber: 'Am',
+  orange: 'Or',
+  violet: 'Vi',
+};
+
+const CHARACTER_NAMES: Record<string, string> = {
+  F: 'Fixed',
+  Fl: 'Flashing',
+  LFl: 'Long-flashing',
+  Q: 'Quick flashing',
+  VQ: 'Very quick flashing',
+  UQ: 'Ultra quick flashing',
+  IQ: 'Interrupted quick flashing',
+  IVQ: 'Interrupted very quick flashing',
+  IUQ: 'Interrupted ultra quick flashing',
+  Iso: 'Isophase',
+  Oc: 'Occulting',
+  Mo: 'Morse code',
+  FFl: 'Fixed and flashing',
+  'Al.F': 'Alternating fixed',
+  'Al.Fl': 'Alternating flashing',
+  'Al.LFl': 'Alternating long-flashing',
+  'Al.Oc': 'Alternating occulting',
+  'Al.Iso': 'Alternating isophase',
+  'Q+LFl': 'Quick flashing followed by a long flash',
+  'VQ+LFl': 'Very quick flashing followed by a long flash',
+};
+
+/**
+ * A light as charted, e.g. "Fl(2) R 10s 12m 5M"
+ */
+export function formatLightCharacteristic(light: SeamarkLight): string {
+  const parts = [`${light.character}${light.group ? `(${light.group})` : ''}`];
+  const colours = light.colours.map((c) => COLOUR_ABBREVIATIONS[c] ?? c).join('');
+  if (colours) parts.push(colours);
+  if (light.period) parts.push(`${light.period}s`);
+  if (light.height) parts.push(`${light.height}m`);
+  if (light.range) parts.push(`${light.range}M`);
+  return parts.join(' ');
+}
+
+/**
+ * All the lights of a mark as charted: sectors flashing the same rhythm are
+ * merged ("Fl(3) WRG 10s 15M")
+ */
+export function formatLightLabel(lights: SeamarkLight[]): string {
+  const merged = new Map<string, SeamarkLight>();
+  for (const light of lights) {
+    const key = [light.character, light.group, light.period, light.height].join('|');
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...light, colours: [...light.colours] });
+      continue;
+    }
+    light.colours.forEach((c) => existing.colours.includes(c) || existing.colours.push(c));
+    existing.range = Math.max(existing.range ?? 0, light.range ?? 0) || undefined;
+  }
+  return Array.from(merged.values()).map(formatLightCharacteristic).join(' / ');
+}
+
+/**
+ * A light in plain language, e.g. "Flashing in groups of 2, red, every 10 s,
+ * 12 m high, visible 5 NM"
+ */
+export function describeLight(light: SeamarkLight): string {
+  let rhythm = CHARACTER_NAMES[light.character] ?? light.character;
+  if (light.group) {
+    rhythm += light.character === 'Mo' ? ` (letter ${light.group})` : ` in groups of ${light.group}`;
+  }
+
+  const parts = [rhythm];
+  if (light.colours.length > 0) parts.push(light.colours.join(' and '));
+  if (light.period) parts.push(`every ${light.period} s`);
+  if (light.height) parts.push(`${light.height} m high`);
+  if (light.range) parts.push(`visible ${light.range} NM`);
+  if (light.sectorStart !== undefined && light.sectorEnd !== undefined) {
+    parts.push(`sector ${light.sectorStart}°–${light.sectorEnd}° from seaward`);
+  }
+  return parts.join(', ');
+}
+
+const STRUCTURE_NAMES: Record<AidStructure, string> = {
+  buoy: 'buoy',
+  beacon: 'beacon',
+  light: 'light',
+  light_vessel: 'light vessel',
+  light_float: 'light float',
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * What a mark is and what it tells the navigator
+ */
+export function describeAid(aid: AidToNavigation): { title: string; meaning: string } {
+  const structure = STRUCTURE_NAMES[aid.structure];
+  const [portColour, starboardColour] = aid.region === 'A' ? ['red', 'green'] : ['green', 'red'];
+
+  switch (aid.category) {
+    case 'lateral':
+      switch (aid.lateral) {
+        case 'port':
+          return {
+            title: `Port-hand lateral ${structure}`,
+            meaning: `Leave it to port when heading in the direction of buoyage (entering harbour). IALA ${aid.region}: ${portColour}, can-shaped.`,
+          };
+        case 'starboard':
+          return {
+            title: `Starboard-hand lateral ${structure}`,
+            meaning: `Leave it to starboard when heading in the direction of buoyage (entering harbour). IALA ${aid.region}: ${starboardColour}, conical.`,
+          };
+        case 'preferred_channel_starboard':
+          return {
+            title: `Preferred channel to starboard ${structure}`,
+            meaning: `Channel junction: the preferred channel continues to starboard. Follow it by leaving the mark to port.`,
+          };
+        case 'preferred_channel_port':
+          return {
+            title: `Preferred channel to port ${structure}`,
+            meaning: `Channel junction: the preferred channel continues to port. Follow it by leaving the mark to starboard.`,
+          };
+        default:
+          return { title: `Lateral ${structure}`, meaning: 'Marks the side of a channel (see the chart).' };
+      }
+
+    case 'cardinal':
+      return aid.cardinal
+        ? {
+            title: `${capitalize(aid.cardinal)} cardinal ${structure}`,
+            meaning: `The safe water lies to the ${aid.cardinal} of it: pass on its ${aid.cardinal} side.`,
+          }
+        : { title: `Cardinal ${structure}`, meaning: 'Marks the safe side of a danger (see the chart).' };
+
+    case 'isolated_danger':
+      return {
+        title: `Isolated danger ${structure}`,
+        meaning: 'A danger of limited extent with navigable water all around: keep well clear.',
+      };
+
+    case 'safe_water':
+      return {
+        title: `Safe water ${structure}`,
+        meaning: 'Navigable water all around: a mid-channel or landfall mark.',
+      };
+
+    case 'special_purpose':
+      return {
+        title: `Special ${structure}`,
+        meaning: 'Marks a special area or feature (see the chart); not a guide to navigation.',
+      };
+
+    default:
+      return { title: capitalize(structure), meaning: '' };
+  }
+}
+
+/**
+ * What IALA prescribes for a mark of this kind in its region
+ */
+function expectedAppearance(aid: AidToNavigation): AidAppearance {
+  const [port, starboard] = aid.region === 'A' ? ['red', 'green'] : ['green', 'red'];
+
+  switch (aid.category) {
+    case 'lateral':
+      switch (aid.lateral) {
+        case 'port':
+          return { shape: 'can', colours: [port], topmark: { shape: 'cylinder', colours: [port] } };
+        case 'starboard':
+          return { shape: 'conical', colours: [starboard], topmark: { shape: 'cone, point up', colours: [starboard] } };
+        case 'preferred_channel_starboard':
+          return {
+            shape: 'can',
+            colours: [port, starboard, port],
+            colourPattern: 'horizontal',
+            topmark: { shape: 'cylinder', colours: [port] },
+          };
+        case 'preferred_channel_port':
+          return {
+            shape: 'conical',
+            colours: [starboard, port, starboard],
+            colourPattern: 'horizontal',
+            topmark: { shape: 'cone, point up', colours: [starboard] },
+          };
+        default:
+          return { colours: [] };
+      }
+
+    case 'cardinal': {
+      const cardinal = {
+        north: { colours: ['black', 'yellow'], topmark: '2 cones up' },
+        east: { colours: ['black', 'yellow', 'black'], topmark: '2 cones base together' },
+        south: { colours: ['yellow', 'black'], topmark: '2 cones down' },
+        west: { colours: ['yellow', 'black', 'yellow'], topmark: '2 cones point together' },
+      }[aid.cardinal ?? 'north'];
+      return aid.cardinal
+        ? {
+            shape: 'pillar',
+            colours: cardinal.colours,
+            colourPattern: 'horizontal',
+            topmark: { shape: cardinal.topmark, colours: ['black'] },
+          }
+        : { colours: [] };
+    }
+
+    case 'isolated_danger':
+      return {
+        shape: 'pillar',
+        colours: ['black', 'red', 'black'],
+        colourPattern: 'horizontal',
+        topmark: { shape: '2 spheres', colours: ['black'] },
+      };
+
+    case 'safe_water':
+      return {
+        shape: 'spherical',
+        colours: ['red', 'white'],
+        colourPattern: 'vertical',
+        topmark: { shape: 'sphere', colours: ['red'] },
+      };
+
+    case 'special_purpose':
+      return { shape: 'pillar', colours: ['yellow'], topmark: { shape: 'x-shape', colours: ['yellow'] } };
+
+    default:
+      return { colours: [] };
+  }
+}
+
+/**
+ * The shape, colours and topmark to draw a mark with: as tagged, completed
+ * with the IALA defaults for its kind and region
+ */
+export function aidAppearance(aid: AidToNavigation): AidAppearance {
+  const expected = expectedAppearance(aid);
+  const tagged = aid.colours.length > 0;
+  return {
+    shape: aid.shape ?? expected.shape,
+    colours: tagged ? aid.colours : expected.colours,
+    colourPattern: tagged ? aid.colourPattern : expected.colourPattern,
+    topmark: aid.topmark ?? expected.topmark,
+  };
+}
+
+// ============================================
+// FETCHING & CACHE
+// ============================================
+
+const CACHE_PREFIX = 'seamark-aids';
+
+/**
+ * Widen bounds to the snapping grid, so nearby views query (and cache) the same area
+ */
+export function snapSeamarkBounds(bounds: BoundingBox): BoundingBox {
+  const step = SEAMARK_CONFIG.SNAP_DEG;
+  const snap = (value: number, round: (x: number) => number) => Number((round(value / step) * step).toFixed(4));
+  return {
+    north: snap(bounds.north, Math.ceil),
+    south: snap(bounds.south, Math.floor),
+    east: snap(bounds.east, Math.ceil),
+    west: snap(bounds.west, Math.floor),
+  };
+}
+
+const buildAidsQuery = (b: BoundingBox): string => {
+  const bbox = `${b.south},${b.west},${b.north},${b.east}`;
+  return `
+    [out:json][timeout:25];
+    (
+      node["seamark:type"~"^(buoy|beacon)_(lateral|cardinal|isolated_danger|safe_water|special_purpose)$"](${bbox});
+      node["seamark:type"~"^light_(major|minor|vessel|float)$"](${bbox});
+      node["seamark:light:character"](${bbox});
+      node["seamark:light:1:character"](${bbox});
+    );
+    out body;
+  `;
+};
+
+const cacheKey = (b: BoundingBox): string => `${CACHE_PREFIX}-${b.south}-${b.west}-${b.north}-${b.east}`;
+
+/**
+ * Cached aids for an area
+ * @param allowStale - Also return an expired entry (when offline)
+ */
+const getCachedAids = (area: BoundingBox, allowStale = false): AidToNavigation[] | null => {
+  if (typeof localStorage === 'undefined') return null;
+  const cached = localStorage.getItem(cacheKey(area));
+  if (!cached) return null;
+
+  try {
+    const { timestamp, aids } = JSON.parse(cached);
+    if (allowStale || Date.now() - timestamp < SEAMARK_CONFIG.CACHE_TTL_MS) {
+      return aids;
+    }
+  } catch (error) {
+    console.error('Error parsing cached seamark aids:', error);
+  }
+  return null;
+};
+
+const cacheAids = (area: BoundingBox, aids: AidToNavigation[]): void => {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(cacheKey(area), JSON.stringify({ timestamp: Date.now(), aids }));
+  } catch (error) {
+    // Storage full: the aids still show, they just aren't kept
+    console.warn('Could not cache seamark aids:', error);
+  }
+};
+
+/**
+ * Buoys, beacons and lights in an area (widened to the snapping grid).
+ * Served from the local cache while fresh; when the network fails, from a
+ * stale cache entry or the offline packs.
+ */
+export async function fetchSeamarkAids(bounds: BoundingBox): Promise<AidToNavigation[]> {
+  const area = snapSeamarkBounds(bounds);
+  const cached = getCachedAids(area);
+  if (cached) return cached;
+
+  try {
+    const response = await fetch(API_ENDPOINTS.OVERPASS, {
+      method: 'POST',
+      body: buildAidsQuery(area),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch seamarks: ${response.status}`);
+    }
+
+    const aids = parseSeamarkAids(await response.json());
+    cacheAids(area, aids);
+    return aids;
+  } catch (error) {
+    console.error('Error fetching seamark aids:', error);
+    return getCachedAids(area, true) ?? (await getOfflineAids(area)) ?? [];
+  }
+}
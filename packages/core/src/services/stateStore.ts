@@ -0,0 +1,121 @@
+/**
+ * App State Store
+ *
+ * Small key-value store for user state that must survive cache eviction and
+ * be readable from the service worker (alert rules, saved locations), which
+ * has no access to localStorage. Backed by IndexedDB; falls back to
+ * localStorage where IndexedDB is unavailable. Custom instances keep other
+ * non-evictable data in their own database (offline packs).
+ */
+
+class StateStore {
+  private version = 1;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName = 'SeaMeState',
+    private storeName = 'state'
+  ) {}
+
+  /**
+   * Open the IndexedDB database, or null to use localStorage
+   */
+  private openDB(): Promise<IDBDatabase> | null {
+    if (typeof indexedDB === 'undefined') return null;
+    if (this.db) return this.db;
+
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+    });
+    return this.db;
+  }
+
+  /**
+   * Read a value, or null when it was never stored
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const open = this.openDB();
+    if (!open) {
+      if (typeof localStorage === 'undefined') return null;
+      const saved = localStorage.getItem(key);
+      return saved ? (JSON.parse(saved) as T) : null;
+    }
+
+    const db = await open;
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(key);
+      request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const open = this.openDB();
+    if (!open) {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(key, JSON.stringify(value));
+      }
+      return;
+    }
+
+    const db = await open;
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).put(value, key);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    const open = this.openDB();
+    if (!open) {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.removeItem(key);
+      }
+      return;
+    }
+
+    const db = await open;
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).delete(key);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Delete every key starting with a prefix
+   */
+  async deletePrefix(prefix: string): Promise<void> {
+    const open = this.openDB();
+    if (!open) {
+      if (typeof localStorage !== 'undefined') {
+        const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i));
+        keys.filter((key) => key?.startsWith(prefix)).forEach((key) => localStorage.removeItem(key!));
+      }
+      return;
+    }
+
+    const db = await open;
+    return new Promise((resolve, reject) => {
+      const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+      const request = db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).delete(range);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Export singleton instance
+export const stateStore = new StateStore();
+
+// Export class for custom instances
+export { StateStore };
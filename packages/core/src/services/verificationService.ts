@@ -0,0 +1,508 @@
+/**
+ * Forecast Verification Service
+ *
+ * Keeps snapshots of the forecasts fetched for each location and scores them
+ * against what was later observed - onboard instruments, manual log entries
+ * or the API's own "current" analysis. Errors are summarised per model,
+ * variable and lead time (bias and RMSE), and the model with the lowest
+ * error at a location is remembered so forecasts there can prefer it.
+ */
+
+import { CACHE_CONFIG, WEATHER_CONSTANTS } from '../constants';
+import type { InstrumentData } from '../types/navigation';
+import { cacheService } from './cacheService';
+import { calculateDistance } from './routePlanningService';
+import type { InstrumentFeed } from './instrumentService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type VerificationVariable =
+  | 'windSpeed'
+  | 'windGusts'
+  | 'windDirection'
+  | 'pressure'
+  | 'waveHeight'
+  | 'wavePeriod'
+  | 'swellHeight'
+  | 'seaTemperature';
+
+export type ForecastSource = 'weather' | 'marine';
+
+export type ObservationSource = 'instrument' | 'manual' | 'api';
+
+export interface ForecastSnapshot {
+  model: string;
+  source: ForecastSource;
+  /** When the forecast was fetched (ISO) */
+  issuedAt: string;
+  /** Hourly valid times (ISO, UTC), ascending */
+  times: string[];
+  values: Partial<Record<VerificationVariable, Array<number | null>>>;
+}
+
+export interface Observation {
+  /** ISO time of the observation */
+  time: string;
+  source: ObservationSource;
+  /** Model whose analysis an 'api' observation reports; like any observation it verifies every model */
+  model?: string;
+  /** Same units as the forecasts: km/h, degrees (from), hPa, m, s, °C */
+  values: Partial<Record<VerificationVariable, number>>;
+}
+
+export interface VerificationLocation {
+  key: string;
+  lat: number;
+  lng: number;
+  name?: string;
+}
+
+export interface VerificationScore {
+  model: string;
+  variable: VerificationVariable;
+  /** Lead time bucket (hours); leadTo is null for the last, open-ended bucket */
+  leadFrom: number;
+  leadTo: number | null;
+  count: number;
+  /** Mean of forecast minus observed */
+  bias: number;
+  rmse: number;
+}
+
+export interface VerificationSummary {
+  location: VerificationLocation;
+  scores: VerificationScore[];
+  /** Best-performing model per source, once enough samples exist */
+  preferred: Partial<Record<ForecastSource, string>>;
+  snapshotCount: number;
+  observationCount: number;
+}
+
+interface VerificationRecord {
+  location: VerificationLocation;
+  snapshots: ForecastSnapshot[];
+  observations: Observation[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const VERIFICATION = WEATHER_CONSTANTS.VERIFICATION;
+
+/** Open-Meteo hourly variable for each verified variable */
+export const VERIFICATION_VARIABLES: Record<VerificationVariable, { api: string; source: ForecastSource }> = {
+  windSpeed: { api: 'wind_speed_10m', source: 'weather' },
+  windGusts: { api: 'wind_gusts_10m', source: 'weather' },
+  windDirection: { api: 'wind_direction_10m', source: 'weather' },
+  pressure: { api: 'pressure_msl', source: 'weather' },
+  waveHeight: { api: 'wave_height', source: 'marine' },
+  wavePeriod: { api: 'wave_period', source: 'marine' },
+  swellHeight: { api: 'swell_wave_height', source: 'marine' },
+  seaTemperature: { api: 'sea_surface_temperature', source: 'marine' },
+};
+
+/** Variable that decides the preferred model of each source */
+const DECIDING_VARIABLE: Record<ForecastSource, VerificationVariable> = {
+  weather: 'windSpeed',
+  marine: 'waveHeight',
+};
+
+const INDEX_KEY = 'verification:index';
+const PREFERENCES_KEY = 'forecastModelPreferences';
+const recordKey = (key: string) => `verification:${key}`;
+const locationKey = (lat: number, lng: number) => `${lat.toFixed(2)}:${lng.toFixed(2)}`;
+
+const KNOTS_TO_KMH = 1.852;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+/**
+ * Build a snapshot from an Open-Meteo hourly response
+ *
+ * @param hourly - The response's `hourly` object
+ * @param utcOffsetSeconds - Offset of the response's local times (timezone=auto)
+ */
+export function snapshotFromHourly(
+  model: string,
+  source: ForecastSource,
+  hourly: { time?: string[] } | undefined,
+  utcOffsetSeconds: number = 0,
+  issuedAt: Date = new Date()
+): ForecastSnapshot {
+  // Local times carry no zone designator; anything else is taken as given
+  const times = (hourly?.time ?? []).map((t) =>
+    /(Z|[+-]\d\d:?\d\d)$/i.test(t) ? Date.parse(t) : Date.parse(`${t}Z`) - utcOffsetSeconds * 1000
+  );
+
+  // Keep from the hour in progress up to the snapshot horizon
+  const from = issuedAt.getTime() - HOUR_MS;
+  const to = issuedAt.getTime() + VERIFICATION.SNAPSHOT_HOURS * HOUR_MS;
+  const kept = times
+    .map((t, i) => [t, i] as const)
+    .filter(([t]) => t >= from && t <= to)
+    .map(([t, i]) => [new Date(t).toISOString(), i] as const);
+
+  const values: ForecastSnapshot['values'] = {};
+  for (const [variable, config] of Object.entries(VERIFICATION_VARIABLES) as Array<[VerificationVariable, typeof VERIFICATION_VARIABLES[VerificationVariable]]>) {
+    const series = (hourly as Record<string, unknown> | undefined)?.[config.api] as Array<number | null> | undefined;
+    if (config.source !== source || !series) continue;
+    values[variable] = kept.map(([, i]) => (typeof series[i] === 'number' ? series[i] : null));
+  }
+
+  return { model, source, issuedAt: issuedAt.toISOString(), times: kept.map(([t]) => t), values };
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+const angleDifference = (a: number, b: number) => ((a - b + 540) % 360) - 180;
+
+/**
+ * Forecast value at a time, interpolated between the hourly steps
+ * Directions take the nearest step rather than interpolating through north.
+ */
+function forecastAt(snapshot: ForecastSnapshot, variable: VerificationVariable, time: number): number | null {
+  const series = snapshot.values[variable];
+  const times = snapshot.times.map((t) => Date.parse(t));
+  if (!series || times.length === 0 || time < times[0] || time > times[times.length - 1]) return null;
+
+  const next = times.findIndex((t) => t >= time);
+  if (times[next] === time) return series[next];
+
+  const a = series[next - 1];
+  const b = series[next];
+  const fraction = (time - times[next - 1]) / (times[next] - times[next - 1]);
+  if (variable === 'windDirection') return fraction < 0.5 ? a : b;
+  return a === null || b === null ? null : a + (b - a) * fraction;
+}
+
+const leadBucket = (leadHours: number): number => {
+  const buckets = VERIFICATION.LEAD_BUCKETS_HOURS;
+  let index = 0;
+  while (index + 1 < buckets.length && leadHours >= buckets[index + 1]) index++;
+  return index;
+};
+
+/**
+ * Pair observations with the forecasts made before them and score the errors
+ *
+ * @returns Scores per model, variable and lead time bucket
+ */
+export function computeVerificationScores(snapshots: ForecastSnapshot[], observations: Observation[]): VerificationScore[] {
+  const buckets = VERIFICATION.LEAD_BUCKETS_HOURS;
+  const sums = new Map<string, { model: string; variable: VerificationVariable; bucket: number; count: number; sum: number; sumSquares: number }>();
+
+  for (const observation of observations) {
+    const time = Date.parse(observation.time);
+
+    for (const snapshot of snapshots) {
+      const issued = Date.parse(snapshot.issuedAt);
+      if (issued > time) continue;
+
+      for (const [variable, observed] of Object.entries(observation.values) as Array<[VerificationVariable, number]>) {
+        if (VERIFICATION_VARIABLES[variable]?.source !== snapshot.source || !isFinite(observed)) continue;
+
+        const forecast = forecastAt(snapshot, variable, time);
+        if (forecast === null) continue;
+
+        const error = variable === 'windDirection' ? angleDifference(forecast, observed) : forecast - observed;
+        const bucket = leadBucket((time - issued) / HOUR_MS);
+        const key = `${snapshot.model}|${variable}|${bucket}`;
+        const entry = sums.get(key) ?? { model: snapshot.model, variable, bucket, count: 0, sum: 0, sumSquares: 0 };
+        entry.count++;
+        entry.sum += error;
+        entry.sumSquares += error * error;
+        sums.set(key, entry);
+      }
+    }
+  }
+
+  return [...sums.values()].map(({ model, variable, bucket, count, sum, sumSquares }) => ({
+    model,
+    variable,
+    leadFrom: buckets[bucket],
+    leadTo: buckets[bucket + 1] ?? null,
+    count,
+    bias: sum / count,
+    rmse: Math.sqrt(sumSquares / count),
+  }));
+}
+
+/**
+ * Model with the lowest overall RMSE for the source's deciding variable
+ * Only models with VERIFICATION.MIN_SAMPLES pairs and at least half as many as
+ * the best-covered model are compared, so a few lucky pairs cannot win.
+ * @returns null until at least two models can be compared
+ */
+export function selectPreferredModel(scores: VerificationScore[], source: ForecastSource): string | null {
+  const variable = DECIDING_VARIABLE[source];
+  const totals = new Map<string, { count: number; sumSquares: number }>();
+
+  for (const score of scores) {
+    if (score.variable !== variable) continue;
+    const total = totals.get(score.model) ?? { count: 0, sumSquares: 0 };
+    total.count += score.count;
+    total.sumSquares += score.rmse * score.rmse * score.count;
+    totals.set(score.model, total);
+  }
+
+  const mostSamples = Math.max(0, ...[...totals.values()].map(({ count }) => count));
+  const compared = [...totals].filter(
+    ([, { count }]) => count >= VERIFICATION.MIN_SAMPLES && count * 2 >= mostSamples
+  );
+  if (compared.length < 2) return null;
+
+  let best: { model: string; rmse: number } | null = null;
+  for (const [model, { count, sumSquares }] of compared) {
+    const rmse = Math.sqrt(sumSquares / count);
+    if (!best || rmse < best.rmse) best = { model, rmse };
+  }
+  return best?.model ?? null;
+}
+
+// ============================================
+// VERIFICATION SERVICE
+// ============================================
+
+/**
+ * Forecast snapshots and observations per location, persisted in the IndexedDB cache
+ */
+class ForecastVerificationService {
+  private locations: VerificationLocation[] | null = null;
+  private records = new Map<string, VerificationRecord>();
+  /** Serialises read-modify-write cycles on the cache */
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastAutomatic = new Map<string, number>();
+  private feed: InstrumentFeed | null = null;
+
+  /**
+   * Store forecast snapshots for a location
+   * A model's snapshot is skipped if one was stored less than
+   * VERIFICATION.SNAPSHOT_INTERVAL_MS earlier.
+   */
+  recordForecast(lat: number, lng: number, snapshots: ForecastSnapshot[], name?: string): Promise<void> {
+    return this.update(async () => {
+      const location = (await this.findLocation(lat, lng)) ?? (await this.addLocation(lat, lng, name));
+      const record = await this.loadRecord(location);
+
+      for (const snapshot of snapshots) {
+        if (snapshot.times.length === 0) continue;
+        const previous = record.snapshots.filter((s) => s.model === snapshot.model && s.source === snapshot.source);
+        const latest = Math.max(0, ...previous.map((s) => Date.parse(s.issuedAt)));
+        if (Date.parse(snapshot.issuedAt) - latest < VERIFICATION.SNAPSHOT_INTERVAL_MS) continue;
+        record.snapshots.push(snapshot);
+      }
+      record.snapshots = record.snapshots.slice(-VERIFICATION.MAX_SNAPSHOTS);
+
+      await this.saveRecord(record);
+    });
+  }
+
+  /**
+   * Store an observation at a position
+   * Ignored when no verified location lies within VERIFICATION.MATCH_RADIUS_NM.
+   * Instrument and API observations are throttled to one per
+   * VERIFICATION.OBSERVATION_INTERVAL_MS; manual ones are always kept.
+   */
+  recordObservation(lat: number, lng: number, observation: Observation): Promise<boolean> {
+    return this.update(async () => {
+      if (Object.keys(observation.values).length === 0) return false;
+
+      const location = await this.findLocation(lat, lng);
+      if (!location) return false;
+
+      if (observation.source !== 'manual') {
+        const throttleKey = `${location.key}|${observation.source}|${observation.model ?? ''}`;
+        const time = Date.parse(observation.time);
+        if (time - (this.lastAutomatic.get(throttleKey) ?? 0) < VERIFICATION.OBSERVATION_INTERVAL_MS) return false;
+        this.lastAutomatic.set(throttleKey, time);
+      }
+
+      const record = await this.loadRecord(location);
+      record.observations = [...record.observations, observation].slice(-VERIFICATION.MAX_OBSERVATIONS);
+      await this.saveRecord(record);
+      return true;
+    });
+  }
+
+  /**
+   * Locations with stored forecasts
+   */
+  async listLocations(): Promise<VerificationLocation[]> {
+    await this.queue;
+    return [...(await this.loadLocations())];
+  }
+
+  /**
+   * Verification results for the location nearest to a position
+   * @returns null if no forecasts were stored near the position
+   */
+  async getSummary(lat: number, lng: number): Promise<VerificationSummary | null> {
+    await this.queue;
+    const location = await this.findLocation(lat, lng);
+    if (!location) return null;
+
+    const record = await this.loadRecord(location);
+    const scores = computeVerificationScores(record.snapshots, record.observations);
+    const preferred: VerificationSummary['preferred'] = {};
+    for (const source of ['weather', 'marine'] as ForecastSource[]) {
+      const model = selectPreferredModel(scores, source);
+      if (model) preferred[source] = model;
+    }
+
+    return {
+      location,
+      scores,
+      preferred,
+      snapshotCount: record.snapshots.length,
+      observationCount: record.observations.length,
+    };
+  }
+
+  /**
+   * Historically best model near a position, for forecast requests
+   * Synchronous so model selection can use it; backed by localStorage.
+   */
+  getPreferredModel(lat: number, lng: number, source: ForecastSource): string | null {
+    const preferences = this.loadPreferences();
+    const nearest = Object.values(preferences)
+      .map((entry) => ({ entry, distance: calculateDistance(lat, lng, entry.lat, entry.lng) }))
+      .filter(({ distance }) => distance <= VERIFICATION.MATCH_RADIUS_NM)
+      .sort((a, b) => a.distance - b.distance)[0];
+    return nearest?.entry[source] ?? null;
+  }
+
+  /**
+   * Forget all snapshots and observations for a location
+   */
+  removeLocation(key: string): Promise<void> {
+    return this.update(async () => {
+      const locations = (await this.loadLocations()).filter((location) => location.key !== key);
+      this.locations = locations;
+      this.records.delete(key);
+      await cacheService.delete(recordKey(key));
+      await cacheService.set(INDEX_KEY, locations, CACHE_CONFIG.TTL.VERIFICATION);
+
+      const preferences = this.loadPreferences();
+      delete preferences[key];
+      this.savePreferences(preferences);
+    });
+  }
+
+  /**
+   * Record wind, pressure and water temperature from onboard instruments
+   */
+  attach(feed: InstrumentFeed): void {
+    this.detach();
+    this.feed = feed;
+    feed.on('data', this.handleInstrumentData);
+  }
+
+  detach(): void {
+    if (this.feed) {
+      this.feed.off('data', this.handleInstrumentData);
+      this.feed = null;
+    }
+  }
+
+  private handleInstrumentData = (data: InstrumentData): void => {
+    if (!data.position) return;
+
+    const values: Observation['values'] = {};
+    if (data.trueWind) {
+      values.windSpeed = data.trueWind.speed * KNOTS_TO_KMH;
+      values.windDirection = data.trueWind.direction;
+    }
+    if (data.pressure !== undefined) values.pressure = data.pressure;
+    if (data.waterTemperature !== undefined) values.seaTemperature = data.waterTemperature;
+
+    this.recordObservation(data.position.lat, data.position.lon, {
+      time: new Date().toISOString(),
+      source: 'instrument',
+      values,
+    }).catch((error) => console.error('[Verification] Failed to record observation:', error));
+  };
+
+  private update<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async loadLocations(): Promise<VerificationLocation[]> {
+    this.locations ??= (await cacheService.get<VerificationLocation[]>(INDEX_KEY)) ?? [];
+    return this.locations;
+  }
+
+  private async findLocation(lat: number, lng: number): Promise<VerificationLocation | null> {
+    const nearest = (await this.loadLocations())
+      .map((location) => ({ location, distance: calculateDistance(lat, lng, location.lat, location.lng) }))
+      .filter(({ distance }) => distance <= VERIFICATION.MATCH_RADIUS_NM)
+      .sort((a, b) => a.distance - b.distance)[0];
+    return nearest?.location ?? null;
+  }
+
+  private async addLocation(lat: number, lng: number, name?: string): Promise<VerificationLocation> {
+    const location: VerificationLocation = { key: locationKey(lat, lng), lat, lng, ...(name ? { name } : {}) };
+    const locations = [...(await this.loadLocations()), location];
+    this.locations = locations;
+    await cacheService.set(INDEX_KEY, locations, CACHE_CONFIG.TTL.VERIFICATION);
+    return location;
+  }
+
+  private async loadRecord(location: VerificationLocation): Promise<VerificationRecord> {
+    const record =
+      this.records.get(location.key) ??
+      (await cacheService.get<VerificationRecord>(recordKey(location.key))) ??
+      { location, snapshots: [], observations: [] };
+    this.records.set(location.key, record);
+    return record;
+  }
+
+  private async saveRecord(record: VerificationRecord): Promise<void> {
+    await cacheService.set(recordKey(record.location.key), record, CACHE_CONFIG.TTL.VERIFICATION);
+
+    // Keep the synchronous preference lookup in step with the scores
+    const scores = computeVerificationScores(record.snapshots, record.observations);
+    const preferences = this.loadPreferences();
+    const { lat, lng, key } = record.location;
+    const entry: (typeof preferences)[string] = { lat, lng };
+    for (const source of ['weather', 'marine'] as ForecastSource[]) {
+      const model = selectPreferredModel(scores, source);
+      if (model) entry[source] = model;
+    }
+    preferences[key] = entry;
+    this.savePreferences(preferences);
+  }
+
+  private loadPreferences(): Record<string, { lat: number; lng: number } & Partial<Record<ForecastSource, string>>> {
+    if (typeof localStorage === 'undefined') return {};
+    const saved = localStorage.getItem(PREFERENCES_KEY);
+    if (!saved) return {};
+
+    try {
+      const parsed = JSON.parse(saved);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private savePreferences(preferences: ReturnType<ForecastVerificationService['loadPreferences']>): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+    }
+  }
+}
+
+// Export singleton instance
+export const forecastVerification = new ForecastVerificationService();
+
+export { ForecastVerificationService };
@@ -0,0 +1,350 @@
+/**
+ * WEATHER ROUTING SERVICE
+ * Time-optimal sailing routes using the isochrone method
+ *
+ * From the start point, every reachable position after each time step is
+ * computed by sailing a fan of headings at polar speed through the forecast
+ * wind (plus ocean current). The outer envelope of those positions is the
+ * isochrone; it is propagated until the destination is reached. Walking the
+ * winning branch back gives the route, with expected conditions per leg.
+ */
+
+import { NAVIGATION_CONSTANTS } from '../constants';
+import type { Route, RouteLeg, Waypoint, VesselPolar } from '../types/navigation';
+import type { MarineGridForecast, MarineGridPoint } from './marineGridService';
+import { sampleMarineGridForecast } from './marineGridService';
+import { calculateBearing, calculateDistance } from './routePlanningService';
+import { fetchGeoJSON } from './geojsonService';
+import type { Resolution } from './geojsonService';
+import { getPolarBoatSpeed, normalizeTrueWindAngle } from '../utils/polar';
+import { createLandMask } from '../utils/geometry';
+import type { LandMask } from '../utils/geometry';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WeatherRoutingOptions {
+  start: { lat: number; lon: number; name: string };
+  destination: { lat: number; lon: number; name: string };
+  departureTime: Date;
+  polar: VesselPolar;
+  forecast: MarineGridForecast;
+  /** Land mask used to reject legs that touch land */
+  landMask?: LandMask;
+  /** Isochrone time step in hours (default 1) */
+  timeStepHours?: number;
+  /** Angular spacing of the heading fan in degrees (default 10) */
+  headingStepDeg?: number;
+  /** Width of the pruning sectors around the start, in degrees (default 2) */
+  sectorDeg?: number;
+  /** Give up after this many hours under way (default 168) */
+  maxDurationHours?: number;
+  /** Include ocean currents in speed over ground (default true) */
+  useCurrents?: boolean;
+}
+
+export interface Isochrone {
+  time: Date;
+  points: { lat: number; lon: number }[];
+}
+
+export interface WeatherRoutingResult {
+  route: Route;
+  isochrones: Isochrone[];
+  arrivalTime: Date;
+}
+
+interface IsochroneNode {
+  lat: number;
+  lon: number;
+  time: number; // epoch ms
+  parent: IsochroneNode | null;
+  leg: Omit<RouteLeg, 'fromIndex' | 'toIndex' | 'startTime' | 'endTime' | 'distance'> | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Open-Meteo reports wind and current speeds in km/h unless a unit is requested,
+ * and marine grid data is fetched with the defaults
+ */
+const FORECAST_SPEED_TO_KNOTS = NAVIGATION_CONSTANTS.KMH_TO_KNOTS;
+
+const DEFAULT_TIME_STEP_HOURS = 1;
+const DEFAULT_HEADING_STEP_DEG = 10;
+const DEFAULT_SECTOR_DEG = 2;
+const DEFAULT_MAX_DURATION_HOURS = 168;
+
+const MS_PER_HOUR = 3600000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Dead-reckon a position (equirectangular, fine for hourly legs)
+ */
+const advance = (
+  lat: number,
+  lon: number,
+  velocityNorth: number,
+  velocityEast: number,
+  hours: number
+): { lat: number; lon: number } => ({
+  lat: lat + (velocityNorth * hours) / 60,
+  lon: lon + (velocityEast * hours) / (60 * Math.cos(toRadians(lat))),
+});
+
+/**
+ * Boat and current velocity for a heading in the sampled conditions
+ */
+const resolveVelocity = (
+  polar: VesselPolar,
+  conditions: MarineGridPoint,
+  heading: number,
+  useCurrents: boolean
+) => {
+  const trueWindSpeed = (conditions.windSpeed ?? 0) * FORECAST_SPEED_TO_KNOTS;
+  const trueWindDirection = conditions.windDirection ?? 0;
+  const trueWindAngle = normalizeTrueWindAngle(heading - trueWindDirection);
+  const boatSpeed = getPolarBoatSpeed(polar, trueWindAngle, trueWindSpeed);
+
+  // Open-Meteo current direction is the direction the current flows towards
+  const currentSpeed = useCurrents ? (conditions.currentSpeed ?? 0) * FORECAST_SPEED_TO_KNOTS : 0;
+  const currentDirection = conditions.currentDirection ?? 0;
+
+  const velocityNorth =
+    boatSpeed * Math.cos(toRadians(heading)) + currentSpeed * Math.cos(toRadians(currentDirection));
+  const velocityEast =
+    boatSpeed * Math.sin(toRadians(heading)) + currentSpeed * Math.sin(toRadians(currentDirection));
+
+  return {
+    velocityNorth,
+    velocityEast,
+    leg: {
+      heading,
+      boatSpeed,
+      speedOverGround: Math.sqrt(velocityNorth ** 2 + velocityEast ** 2),
+      trueWindSpeed,
+      trueWindDirection,
+      trueWindAngle,
+      waveHeight: conditions.waveHeight,
+      currentSpeed: useCurrents ? currentSpeed : undefined,
+      currentDirection: useCurrents ? currentDirection : undefined,
+    },
+  };
+};
+
+/**
+ * Keep the furthest point from the start in each bearing sector
+ */
+const pruneIsochrone = (
+  candidates: IsochroneNode[],
+  start: { lat: number; lon: number },
+  sectorDeg: number
+): IsochroneNode[] => {
+  const sectors = new Map<number, { node: IsochroneNode; distance: number }>();
+
+  for (const node of candidates) {
+    const bearing = calculateBearing(start.lat, start.lon, node.lat, node.lon);
+    const distance = calculateDistance(start.lat, start.lon, node.lat, node.lon);
+    const sector = Math.floor(bearing / sectorDeg);
+    const best = sectors.get(sector);
+
+    if (!best || distance > best.distance) {
+      sectors.set(sector, { node, distance });
+    }
+  }
+
+  return Array.from(sectors.values()).map((entry) => entry.node);
+};
+
+/**
+ * Convert the winning branch of the isochrone tree into a Route
+ */
+const buildRoute = (
+  arrival: IsochroneNode,
+  options: WeatherRoutingOptions
+): Route => {
+  const nodes: IsochroneNode[] = [];
+  for (let node: IsochroneNode | null = arrival; node; node = node.parent) {
+    nodes.unshift(node);
+  }
+
+  const waypoints: Waypoint[] = nodes.map((node, index) => {
+    const isStart = index === 0;
+    const isDestination = index === nodes.length - 1;
+
+    return {
+      id: isStart ? 'start' : isDestination ? 'destination' : `wr-${index}`,
+      lat: node.lat,
+      lon: node.lon,
+      name: isStart
+        ? options.start.name
+        : isDestination
+          ? options.destination.name
+          : `WP ${index}`,
+      type: isStart ? 'start' : isDestination ? 'destination' : 'waypoint',
+      timestamp: new Date(node.time),
+    };
+  });
+
+  const legs: RouteLeg[] = [];
+  for (let i = 1; i < nodes.length; i++) {
+    const from = nodes[i - 1];
+    const to = nodes[i];
+    if (!to.leg) continue;
+
+    legs.push({
+      ...to.leg,
+      fromIndex: i - 1,
+      toIndex: i,
+      startTime: new Date(from.time),
+      endTime: new Date(to.time),
+      distance: calculateDistance(from.lat, from.lon, to.lat, to.lon),
+    });
+  }
+
+  const totalDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const estimatedTime = (arrival.time - options.departureTime.getTime()) / MS_PER_HOUR;
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+    name: `${options.start.name} to ${options.destination.name}`,
+    waypoints,
+    totalDistance,
+    estimatedTime,
+    createdAt: new Date(),
+    averageSpeed: estimatedTime > 0 ? totalDistance / estimatedTime : 0,
+    legs,
+  };
+};
+
+// ============================================
+// ISOCHRONE ROUTING
+// ============================================
+
+/**
+ * Compute a time-optimal route through a forecast grid
+ *
+ * Runs entirely on the supplied forecast and land mask, so it works offline
+ * against cached grid data.
+ *
+ * @throws Error if the destination cannot be reached within maxDurationHours
+ */
+export const computeWeatherRoute = (options: WeatherRoutingOptions): WeatherRoutingResult => {
+  const {
+    start,
+    destination,
+    departureTime,
+    polar,
+    forecast,
+    landMask,
+    timeStepHours = DEFAULT_TIME_STEP_HOURS,
+    headingStepDeg = DEFAULT_HEADING_STEP_DEG,
+    sectorDeg = DEFAULT_SECTOR_DEG,
+    maxDurationHours = DEFAULT_MAX_DURATION_HOURS,
+    useCurrents = true,
+  } = options;
+
+  const root: IsochroneNode = {
+    lat: start.lat,
+    lon: start.lon,
+    time: departureTime.getTime(),
+    parent: null,
+    leg: null,
+  };
+
+  const isochrones: Isochrone[] = [];
+  const maxSteps = Math.ceil(maxDurationHours / timeStepHours);
+  let front: IsochroneNode[] = [root];
+
+  for (let step = 0; step < maxSteps && front.length > 0; step++) {
+    const candidates: IsochroneNode[] = [];
+    let arrival: IsochroneNode | null = null;
+
+    for (const node of front) {
+      const conditions = sampleMarineGridForecast(forecast, node.lat, node.lon, new Date(node.time));
+      if (!conditions) continue;
+
+      // Can the destination be reached directly within this step?
+      const distanceToGo = calculateDistance(node.lat, node.lon, destination.lat, destination.lon);
+      const bearingToGo = calculateBearing(node.lat, node.lon, destination.lat, destination.lon);
+      const direct = resolveVelocity(polar, conditions, bearingToGo, useCurrents);
+      const speedMadeGood =
+        direct.velocityNorth * Math.cos(toRadians(bearingToGo)) +
+        direct.velocityEast * Math.sin(toRadians(bearingToGo));
+
+      if (
+        speedMadeGood > 0 &&
+        distanceToGo <= speedMadeGood * timeStepHours &&
+        !landMask?.segmentCrossesLand(node, destination)
+      ) {
+        const arrivalTime = node.time + (distanceToGo / speedMadeGood) * MS_PER_HOUR;
+        if (!arrival || arrivalTime < arrival.time) {
+          arrival = {
+            lat: destination.lat,
+            lon: destination.lon,
+            time: arrivalTime,
+            parent: node,
+            leg: { ...direct.leg, speedOverGround: speedMadeGood },
+          };
+        }
+      }
+
+      for (let heading = 0; heading < 360; heading += headingStepDeg) {
+        const { velocityNorth, velocityEast, leg } = resolveVelocity(polar, conditions, heading, useCurrents);
+        if (leg.speedOverGround <= 0) continue;
+
+        const next = advance(node.lat, node.lon, velocityNorth, velocityEast, timeStepHours);
+        if (landMask?.segmentCrossesLand(node, next)) continue;
+
+        candidates.push({
+          ...next,
+          time: node.time + timeStepHours * MS_PER_HOUR,
+          parent: node,
+          leg,
+        });
+      }
+    }
+
+    if (arrival) {
+      return {
+        route: buildRoute(arrival, options),
+        isochrones,
+        arrivalTime: new Date(arrival.time),
+      };
+    }
+
+    front = pruneIsochrone(candidates, start, sectorDeg);
+    if (front.length > 0) {
+      isochrones.push({
+        time: new Date(front[0].time),
+        points: front.map(({ lat, lon }) => ({ lat, lon })),
+      });
+    }
+  }
+
+  throw new Error(
+    `No weather route found from ${start.name} to ${destination.name} within ${maxDurationHours} hours`
+  );
+};
+
+/**
+ * Compute a weather route, loading the land polygons for land avoidance
+ *
+ * @param options - Routing options (landMask is built from the land layer)
+ * @param landResolution - Natural Earth resolution of the land layer
+ */
+export const planWeatherRoute = async (
+  options: Omit<WeatherRoutingOptions, 'landMask'>,
+  landResolution: Resolution = '50m'
+): Promise<WeatherRoutingResult> => {
+  const land = await fetchGeoJSON('land', landResolution);
+  return computeWeatherRoute({ ...options, landMask: createLandMask(land) });
+};
@@ -10,8 +10,9 @@ import {
   GeocodingApiResponse,
   ReverseGeocodingApiResponse
 } from '../types';
-import { addHours, format, startOfHour, addDays, parseISO, addMinutes } from 'date-fns';
+import { addHours, format, startOfHour } from 'date-fns';
 import { generateTideData, getMoonData } from '../utils/calculations';
+import { getMoonTimes, getNextMoonPhases, getSunTimes } from '../utils/ephemeris';
 import { getWeatherDescription } from '../utils/formatting';
 import { API_ENDPOINTS, WEATHER_CONSTANTS } from '../constants';
 import { deduplicatedFetch } from '../utils/requestDeduplication';
@@ -20,6 +21,8 @@ import {
   getPrimaryMarineModel,
   getOptimalModels
 } from '../utils/openMeteoConfig';
+import { forecastVerification, snapshotFromHourly } from './verificationService';
+import type { Observation } from './verificationService';
 
 // Local definitions removed - imported from utils
 
@@ -29,6 +32,10 @@ import {
  */
 function getModelForLocation(lat: number, lng: number, isMarine: boolean = false): string {
   if (WEATHER_CONSTANTS.PREFER_HIGH_RESOLUTION) {
+    // A model that verified best against observations here wins over resolution
+    const verified = forecastVerification.getPreferredModel(lat, lng, isMarine ? 'marine' : 'weather');
+    if (verified) return verified;
+
     return isMarine
       ? getPrimaryMarineModel(lat, lng, true)
       : getPrimaryWeatherModel(lat, lng, true);
@@ -36,6 +43,46 @@ function getModelForLocation(lat: number, lng: number, isMarine: boolean = false
   return WEATHER_CONSTANTS.MODEL;
 }
 
+/**
+ * Keep the fetched forecasts, and the API's current analysis, for verification
+ */
+const recordForVerification = (
+  lat: number,
+  lng: number,
+  models: { marine: string; weather: string },
+  marineData: MarineApiResponse,
+  forecastData: ForecastApiResponse
+): void => {
+  const issuedAt = new Date();
+  const time = issuedAt.toISOString();
+  const defined = (values: Observation['values']): Observation['values'] =>
+    Object.fromEntries(Object.entries(values).filter(([, v]) => typeof v === 'number'));
+
+  const snapshots = [
+    snapshotFromHourly(models.weather, 'weather', forecastData.hourly, forecastData.utc_offset_seconds, issuedAt),
+    snapshotFromHourly(models.marine, 'marine', marineData.hourly, marineData.utc_offset_seconds, issuedAt),
+  ];
+  const weatherNow = defined({
+    windSpeed: forecastData.current?.wind_speed_10m,
+    windGusts: forecastData.current?.wind_gusts_10m,
+    windDirection: forecastData.current?.wind_direction_10m,
+  });
+  const marineNow = defined({
+    waveHeight: marineData.current?.wave_height,
+    wavePeriod: marineData.current?.wave_period,
+    swellHeight: marineData.current?.swell_wave_height,
+    seaTemperature: marineData.current?.sea_surface_temperature,
+  });
+
+  forecastVerification
+    .recordForecast(lat, lng, snapshots)
+    .then(() => Promise.all([
+      forecastVerification.recordObservation(lat, lng, { time, source: 'api', model: models.weather, values: weatherNow }),
+      forecastVerification.recordObservation(lat, lng, { time, source: 'api', model: models.marine, values: marineNow }),
+    ]))
+    .catch((error) => console.error('[WeatherService] Failed to record forecast for verification:', error));
+};
+
 export const fetchMarineWeather = async (lat: number, lng: number): Promise<MarineWeatherData> => {
   try {
     // Get optimal models for this location based on geolocation
@@ -110,22 +157,21 @@ export const fetchMarineWeather = async (lat: number, lng: number): Promise<Mari
       throw new Error('Invalid API response: missing required data');
     }
 
-    const moonData = getMoonData(new Date());
+    recordForVerification(lat, lng, { marine: marineModel, weather: weatherModel }, marineData, generalDataRaw);
 
-    // Calculate Next Full Moon Date
-    let daysToFull = 0;
-    if (moonData.phaseValue < 0.5) {
-      daysToFull = (0.5 - moonData.phaseValue) * 29.53;
-    } else {
-      daysToFull = (1.5 - moonData.phaseValue) * 29.53;
-    }
-    const nextFullMoon = addDays(new Date(), Math.round(daysToFull));
+    const moonData = getMoonData(new Date());
+    const { fullMoon: nextFullMoon } = getNextMoonPhases(new Date());
 
-    // Estimate Moonrise/Moonset based on phase and sunrise
-    const sunriseTime = parseISO(daily.sunrise?.[0] || new Date().toISOString());
-    const phaseOffsetHours = moonData.phaseValue * 24;
-    const estimatedMoonRise = addMinutes(sunriseTime, phaseOffsetHours * 60);
-    const estimatedMoonSet = addMinutes(estimatedMoonRise, 12 * 60 + 25);
+    // Rise/set/twilight for the location's local day (API returns its UTC offset)
+    const utcOffsetMs = (generalDataRaw.utc_offset_seconds || 0) * 1000;
+    const localMidnight = new Date(
+      Math.floor((Date.now() + utcOffsetMs) / 86400000) * 86400000 - utcOffsetMs
+    );
+    const moonTimes = getMoonTimes(localMidnight, lat, lng);
+    const sunTimes = getSunTimes(localMidnight, lat, lng);
+    // Location wall-clock time, without zone, like the API's sunrise and sunset
+    const toLocalTime = (date: Date | null) =>
+      date ? new Date(date.getTime() + utcOffsetMs).toISOString().slice(0, 16) : '';
 
     // Find current hour index in hourly data for 24-hour forecast starting from now
     // When timezone='auto', API returns times in local timezone (e.g., "2026-01-21T18:00")
@@ -174,8 +220,17 @@ export const fetchMarineWeather = async (lat: number, lng: number): Promise<Mari
       isDay: current.is_day === 1,
       sunrise: daily.sunrise?.[0] || '',
       sunset: daily.sunset?.[0] || '',
-      moonrise: estimatedMoonRise.toISOString(),
-      moonset: estimatedMoonSet.toISOString(),
+      moonrise: toLocalTime(moonTimes.rise),
+      moonset: toLocalTime(moonTimes.set),
+      moonTransit: toLocalTime(moonTimes.transit),
+      twilight: {
+        civilDawn: toLocalTime(sunTimes.civilDawn),
+        civilDusk: toLocalTime(sunTimes.civilDusk),
+        nauticalDawn: toLocalTime(sunTimes.nauticalDawn),
+        nauticalDusk: toLocalTime(sunTimes.nauticalDusk),
+        astronomicalDawn: toLocalTime(sunTimes.astronomicalDawn),
+        astronomicalDusk: toLocalTime(sunTimes.astronomicalDusk)
+      },
       moonPhase: moonData.phase,
       moonIllumination: moonData.illumination,
       nextFullMoon: nextFullMoon.toISOString(),
@@ -217,6 +272,7 @@ export const fetchMarineWeather = async (lat: number, lng: number): Promise<Mari
     return {
       latitude: marineData.latitude,
       longitude: marineData.longitude,
+      utc_offset_seconds: marineData.utc_offset_seconds ?? generalDataRaw.utc_offset_seconds,
       hourly_units: marineData.hourly_units || {
         wave_height: 'm',
         wind_speed_10m: 'm/s',
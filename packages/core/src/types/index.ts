@@ -7,13 +7,15 @@ export enum ViewState {
   MAP = 'MAP',
   ATMOSPHERE = 'ATMOSPHERE',
   ROUTE_PLANNING = 'ROUTE_PLANNING',
-  COASTS_MARINAS = 'COASTS_MARINAS'
+  COASTS_MARINAS = 'COASTS_MARINAS',
+  OFFLINE_PACKS = 'OFFLINE_PACKS'
 }
 
+/** Thresholds are stored in canonical units whatever the display units */
 export interface AlertConfig {
-  waveHeightThreshold: number;
-  windSpeedThreshold: number;
-  swellHeightThreshold: number;
+  waveHeightThreshold: number; // meters
+  windSpeedThreshold: number; // km/h
+  swellHeightThreshold: number; // meters
   simulateTsunami: boolean;
 }
 
@@ -74,6 +76,30 @@ export interface TideData {
   nextHigh: TideEvent;
   nextLow: TideEvent;
   hourly: { time: string; height: number }[];
+  station?: {
+    id: string;
+    name: string;
+    distance: number; // nautical miles from the requested location
+  };
+}
+
+export type TideConstituentName =
+  | 'M2' | 'S2' | 'N2' | 'K2'
+  | 'K1' | 'O1' | 'P1' | 'Q1'
+  | 'M4' | 'MS4' | 'M6';
+
+export interface TideConstituent {
+  amplitude: number; // meters
+  phase: number; // Greenwich phase lag (degrees, UTC)
+}
+
+export interface TideStation {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  datumOffset: number; // mean sea level above chart datum (meters)
+  constituents: Partial<Record<TideConstituentName, TideConstituent>>;
 }
 
 export interface HourlyForecastItem {
@@ -114,6 +140,15 @@ export interface GeneralWeather {
   nextFullMoon: string; // Calculated date of next full moon
   moonrise: string;
   moonset: string;
+  moonTransit?: string;
+  twilight?: {
+    civilDawn: string;
+    civilDusk: string;
+    nauticalDawn: string;
+    nauticalDusk: string;
+    astronomicalDawn: string;
+    astronomicalDusk: string;
+  };
   pressure: number;
   visibility: number;
   dailyForecast: DailyForecastItem[];
@@ -123,6 +158,8 @@ export interface GeneralWeather {
 export interface MarineWeatherData {
   latitude: number;
   longitude: number;
+  /** Offset of the location's time zone; hourly and daily times are local to it */
+  utc_offset_seconds?: number;
   hourly: MarineWeatherHourly;
   daily: MarineWeatherDaily;
   hourly_units: {
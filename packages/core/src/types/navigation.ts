@@ -24,6 +24,78 @@ export interface Route {
   estimatedTime: number; // hours
   createdAt: Date;
   averageSpeed: number; // knots
+  legs?: RouteLeg[]; // per-leg conditions (weather-routed routes)
+}
+
+/**
+ * Expected conditions along one leg of a route (waypoint i to i+1)
+ */
+export interface RouteLeg {
+  fromIndex: number;
+  toIndex: number;
+  startTime: Date;
+  endTime: Date;
+  distance: number; // nautical miles
+  heading: number; // degrees true
+  boatSpeed: number; // knots through the water
+  speedOverGround: number; // knots
+  trueWindSpeed: number; // knots
+  trueWindDirection: number; // degrees (from)
+  trueWindAngle: number; // degrees off the bow (0-180)
+  waveHeight?: number; // meters
+  currentSpeed?: number; // knots
+  currentDirection?: number; // degrees (towards)
+}
+
+/**
+ * Recorded position along a sailed track
+ */
+export interface TrackPoint {
+  lat: number;
+  lon: number;
+  timestamp: Date;
+  speed?: number; // knots
+}
+
+// ============================================
+// VESSEL PERFORMANCE TYPES
+// ============================================
+
+/**
+ * Polar performance table: boat speed for each true wind angle and speed
+ */
+export interface VesselPolar {
+  name: string;
+  twa: number[]; // true wind angles (degrees, ascending, 0-180)
+  tws: number[]; // true wind speeds (knots, ascending)
+  boatSpeed: number[][]; // knots, [twaIndex][twsIndex]
+}
+
+/**
+ * Vessel performance model: sailing polar plus engine fallback
+ */
+export interface VesselPerformance {
+  polar?: VesselPolar; // without a polar the vessel always motors
+  motoringSpeed: number; // knots under engine
+  motoringThreshold: number; // motor when true wind is below this (knots)
+}
+
+/**
+ * Wind relative to an intended course, used to derive boat speed
+ */
+export interface SailingConditions {
+  course: number; // degrees true
+  windSpeed: number; // true wind speed (knots)
+  windDirection: number; // degrees (from)
+}
+
+/**
+ * Best VMG target for a wind speed
+ */
+export interface VMGTarget {
+  twa: number; // degrees
+  boatSpeed: number; // knots
+  vmg: number; // knots towards (upwind) or away from (downwind) the wind
 }
 
 // ============================================
@@ -39,6 +111,7 @@ export interface NavigationState {
   bearingToNext: number; // degrees (0-360)
   etaToNext: number; // minutes
   progress: number; // percentage 0-100
+  instruments?: InstrumentData; // onboard sensor readings, when an instrument feed is connected
 }
 
 export interface NavigationAlert {
@@ -50,7 +123,10 @@ export interface NavigationAlert {
     | 'low-speed'
     | 'course-correction'
     | 'gps-error'
-    | 'permission-denied';
+    | 'permission-denied'
+    | 'collision-risk'
+    | 'anchor-drag'
+    | 'man-overboard';
   message: string;
   severity: 'info' | 'warning' | 'success' | 'error';
   timestamp: Date;
@@ -65,6 +141,145 @@ export interface OfflineNavigationConfig {
   speedSmoothingFactor: number;
 }
 
+// ============================================
+// INSTRUMENT DATA TYPES
+// ============================================
+
+export interface WindReading {
+  angle: number; // degrees relative to the bow (0-360)
+  speed: number; // knots
+}
+
+/**
+ * Latest readings from onboard instruments (NMEA 0183)
+ * Each field is present once a sentence carrying it has been received.
+ */
+export interface InstrumentData {
+  timestamp: Date; // time of the last update
+  position?: { lat: number; lon: number };
+  fixTime?: Date; // UTC time of the last position fix
+  fixQuality?: number; // GGA fix quality (0 = no fix)
+  satellites?: number;
+  hdop?: number;
+  courseOverGround?: number; // degrees true
+  speedOverGround?: number; // knots
+  heading?: number; // degrees true
+  magneticHeading?: number; // degrees magnetic
+  variation?: number; // degrees, east positive
+  speedThroughWater?: number; // knots
+  depth?: number; // meters below the waterline (below transducer when the offset is unknown)
+  depthBelowKeel?: number; // meters
+  apparentWind?: WindReading;
+  trueWind?: WindReading & { direction: number }; // direction: degrees true (from)
+  waterTemperature?: number; // °C
+  airTemperature?: number; // °C
+  pressure?: number; // hPa
+}
+
+// ============================================
+// ANCHOR WATCH TYPES
+// ============================================
+
+/**
+ * ok: inside the swing circle
+ * caution: near the edge, or possibly outside given GPS accuracy
+ * alarm: confirmed outside the swing circle
+ */
+export type AnchorAlarmLevel = 'ok' | 'caution' | 'alarm';
+
+export interface AnchorTrackPoint {
+  lat: number;
+  lon: number;
+  timestamp: Date;
+  accuracy?: number; // meters
+  distance: number; // meters from the anchor
+}
+
+export interface AnchorWatchState {
+  anchor: { lat: number; lon: number };
+  droppedAt: Date;
+  rodeLength: number; // meters
+  radius: number; // swing radius (meters)
+  track: AnchorTrackPoint[];
+  level: AnchorAlarmLevel;
+  distance?: number; // latest distance from the anchor (meters)
+  maxDistance: number; // meters
+  acknowledged: boolean; // alarm silenced by the crew
+}
+
+// ============================================
+// MAN OVERBOARD TYPES
+// ============================================
+
+export type SearchPatternType = 'expanding-square' | 'sector';
+
+/**
+ * Estimated drift of a person in the water
+ */
+export interface MobDrift {
+  speed: number; // knots
+  direction: number; // degrees true (towards)
+  leeway: number; // wind-driven part (knots)
+  current: number; // current-driven part (knots)
+  forecastSource: 'live' | 'cached' | 'none';
+  forecastTime?: Date; // when the forecast used was fetched
+}
+
+export interface MobEvent {
+  position: { lat: number; lon: number }; // where the person went in
+  timestamp: Date;
+  drift?: MobDrift;
+  searchPattern: SearchPatternType;
+}
+
+export interface MobStatus {
+  event: MobEvent;
+  elapsedMinutes: number;
+  datum: { lat: number; lon: number }; // drift-corrected most probable position
+  distance?: number; // NM from own position to the datum
+  bearing?: number; // degrees true from own position to the datum
+  searchPattern: Array<{ lat: number; lon: number }>;
+}
+
+// ============================================
+// AIS TYPES
+// ============================================
+
+/**
+ * Another vessel tracked from AIS reports
+ */
+export interface AisTarget {
+  mmsi: number;
+  class: 'A' | 'B';
+  name?: string;
+  callsign?: string;
+  imo?: number;
+  shipType?: number;
+  destination?: string;
+  draught?: number; // meters
+  length?: number; // meters
+  beam?: number; // meters
+  lat?: number;
+  lon?: number;
+  speedOverGround?: number; // knots
+  courseOverGround?: number; // degrees true
+  heading?: number; // degrees true
+  navStatus?: number; // AIS navigational status (class A)
+  lastSeen: Date;
+  lastPosition?: Date;
+  status: 'active' | 'lost';
+  cpa?: number; // closest point of approach (nautical miles)
+  tcpa?: number; // time to CPA (minutes, negative once passed)
+  dangerous: boolean;
+}
+
+export interface AisConfig {
+  cpaThresholdNM: number;
+  tcpaThresholdMinutes: number;
+  lostAfterMs: number; // mark a silent target as lost
+  removeAfterMs: number; // drop it from the table
+}
+
 // ============================================
 // COASTS & MARINAS TYPES
 // ============================================
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { AisFragmentAssembler, decodeAisPayload, getAisShipTypeName } from '../ais';
+import { nmeaChecksum } from '../nmea';
+
+/**
+ * Build a 6-bit armoured payload from [value, bits] fields (strings are 6-bit text)
+ */
+const encodePayload = (fields: Array<[number | string, number]>): { payload: string; fill: number } => {
+  let bits = '';
+  for (const [value, length] of fields) {
+    if (typeof value === 'string') {
+      for (let i = 0; i < length / 6; i++) {
+        const code = i < value.length ? value.charCodeAt(i) : 64;
+        bits += (code >= 64 ? code - 64 : code).toString(2).padStart(6, '0');
+      }
+    } else {
+      const unsigned = value < 0 ? 2 ** length + value : value;
+      bits += unsigned.toString(2).padStart(length, '0');
+    }
+  }
+  const fill = (6 - (bits.length % 6)) % 6;
+  bits += '0'.repeat(fill);
+
+  let payload = '';
+  for (let i = 0; i < bits.length; i += 6) {
+    let value = parseInt(bits.slice(i, i + 6), 2) + 48;
+    if (value > 87) value += 8;
+    payload += String.fromCharCode(value);
+  }
+  return { payload, fill };
+};
+
+const sentence = (payload: string, fill: number, address = 'AIVDM') => {
+  const body = `${address},1,1,,A,${payload},${fill}`;
+  return `!${body}*${nmeaChecksum(body)}`;
+};
+
+describe('AisFragmentAssembler', () => {
+  it('should decode a class A position report (type 1)', () => {
+    const decoded = new AisFragmentAssembler().add('!AIVDM,1,1,,B,177KQJ5000G?tO`K>RA1wUbN0TKH,0*5C');
+    expect(decoded?.own).toBe(false);
+    expect(decoded?.message).toMatchObject({
+      type: 1,
+      mmsi: 477553000,
+      class: 'A',
+      navStatus: 5,
+      speedOverGround: 0,
+      courseOverGround: 51,
+      heading: 181,
+    });
+    expect(decoded?.message.type === 1 && decoded.message.lat).toBeCloseTo(47.58283, 4);
+    expect(decoded?.message.type === 1 && decoded.message.lon).toBeCloseTo(-122.34583, 4);
+  });
+
+  it('should join a two-part static and voyage report (type 5)', () => {
+    const assembler = new AisFragmentAssembler();
+    expect(
+      assembler.add('!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C')
+    ).toBeNull();
+    const decoded = assembler.add('!AIVDM,2,2,1,A,88888888880,2*25');
+    expect(decoded?.message).toEqual({
+      type: 5,
+      mmsi: 351759000,
+      class: 'A',
+      imo: 9134270,
+      callsign: '3FOF8',
+      name: 'EVER DIADEM',
+      shipType: 70,
+      dimensions: { toBow: 225, toStern: 70, toPort: 1, toStarboard: 31 },
+      draught: 12.2,
+      destination: 'NEW YORK',
+    });
+  });
+
+  it('should drop a second fragment without its first', () => {
+    expect(new AisFragmentAssembler().add('!AIVDM,2,2,1,A,88888888880,2*25')).toBeNull();
+  });
+
+  it('should decode a class B position report (type 18)', () => {
+    const decoded = new AisFragmentAssembler().add('!AIVDM,1,1,,A,B5NJ;PP005l4ot5Isbl03wsUkP06,0*76');
+    expect(decoded?.message).toMatchObject({ type: 18, mmsi: 367430530, class: 'B', speedOverGround: 0 });
+    expect(decoded?.message.type === 18 && decoded.message.heading).toBeUndefined();
+  });
+
+  it('should flag own-vessel (AIVDO) reports', () => {
+    const { payload, fill } = encodePayload([
+      [1, 6], [0, 2], [211234560, 30], [0, 4], [0, 8], [55, 10], [0, 1],
+      [Math.round(5.5 * 600000), 28], [Math.round(43.2 * 600000), 27], [900, 12], [90, 9], [0, 6],
+    ]);
+    const decoded = new AisFragmentAssembler().add(sentence(payload, fill, 'AIVDO'));
+    expect(decoded?.own).toBe(true);
+    expect(decoded?.message).toMatchObject({ mmsi: 211234560, speedOverGround: 5.5, courseOverGround: 90 });
+  });
+
+  it('should reject bad checksums', () => {
+    expect(() => new AisFragmentAssembler().add('!AIVDM,1,1,,B,177KQJ5000G?tO`K>RA1wUbN0TKH,0*00')).toThrow(
+      'AIS checksum mismatch: expected 5C, got 00'
+    );
+  });
+});
+
+describe('decodeAisPayload', () => {
+  it('should decode an extended class B report (type 19)', () => {
+    const { payload, fill } = encodePayload([
+      [19, 6], [0, 2], [244123456, 30], [0, 8], [62, 10], [0, 1],
+      [Math.round(4.9 * 600000), 28], [Math.round(52.4 * 600000), 27], [2705, 12], [270, 9], [0, 6], [0, 4],
+      ['SEA BREEZE', 120], [36, 8], [8, 9], [4, 9], [2, 6], [2, 6], [1, 4], [0, 1], [0, 1], [1, 1], [0, 4],
+    ]);
+    expect(decodeAisPayload(payload, fill)).toMatchObject({
+      type: 19,
+      mmsi: 244123456,
+      class: 'B',
+      speedOverGround: 6.2,
+      courseOverGround: 270.5,
+      heading: 270,
+      name: 'SEA BREEZE',
+      shipType: 36,
+      dimensions: { toBow: 8, toStern: 4, toPort: 2, toStarboard: 2 },
+    });
+  });
+
+  it('should decode both parts of a static data report (type 24)', () => {
+    const partA = encodePayload([[24, 6], [0, 2], [244123456, 30], [0, 2], ['SEA BREEZE', 120]]);
+    expect(decodeAisPayload(partA.payload, partA.fill)).toEqual({
+      type: 24,
+      mmsi: 244123456,
+      class: 'B',
+      name: 'SEA BREEZE',
+    });
+
+    const partB = encodePayload([
+      [24, 6], [0, 2], [244123456, 30], [1, 2], [37, 8], ['ABC', 42], ['PD1234', 42],
+      [7, 9], [5, 9], [2, 6], [2, 6], [0, 6],
+    ]);
+    expect(decodeAisPayload(partB.payload, partB.fill)).toEqual({
+      type: 24,
+      mmsi: 244123456,
+      class: 'B',
+      shipType: 37,
+      callsign: 'PD1234',
+      dimensions: { toBow: 7, toStern: 5, toPort: 2, toStarboard: 2 },
+    });
+  });
+
+  it('should ignore unsupported message types', () => {
+    const { payload, fill } = encodePayload([[4, 6], [0, 2], [2123456, 30]]);
+    expect(decodeAisPayload(payload, fill)).toBeNull();
+  });
+});
+
+describe('getAisShipTypeName', () => {
+  it('should name ship type ranges', () => {
+    expect(getAisShipTypeName(36)).toBe('Sailing');
+    expect(getAisShipTypeName(74)).toBe('Cargo');
+    expect(getAisShipTypeName(undefined)).toBe('Unknown');
+  });
+});
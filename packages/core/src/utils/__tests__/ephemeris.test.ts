@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMoonIllumination,
+  getMoonPosition,
+  getMoonTimes,
+  getNextMoonPhases,
+  getSunPosition,
+  getSunTimes,
+} from '../ephemeris';
+
+const GREENWICH = { lat: 51.4769, lng: 0 };
+const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / 60000;
+
+describe('getSunTimes', () => {
+  // Reference: HM Nautical Almanac Office, Greenwich 2024-06-21
+  const times = getSunTimes(new Date('2024-06-21T00:00:00Z'), GREENWICH.lat, GREENWICH.lng);
+
+  it('should match reference sunrise, sunset and solar noon', () => {
+    expect(minutesBetween(times.sunrise!, new Date('2024-06-21T03:43:00Z'))).toBeLessThan(3);
+    expect(minutesBetween(times.sunset!, new Date('2024-06-21T20:21:00Z'))).toBeLessThan(3);
+    expect(minutesBetween(times.solarNoon!, new Date('2024-06-21T12:02:00Z'))).toBeLessThan(2);
+  });
+
+  it('should order twilight around sunrise and sunset', () => {
+    expect(times.nauticalDawn!.getTime()).toBeLessThan(times.civilDawn!.getTime());
+    expect(times.civilDawn!.getTime()).toBeLessThan(times.sunrise!.getTime());
+    expect(times.sunset!.getTime()).toBeLessThan(times.civilDusk!.getTime());
+    expect(times.civilDusk!.getTime()).toBeLessThan(times.nauticalDusk!.getTime());
+  });
+
+  it('should report no astronomical darkness at midsummer in London', () => {
+    expect(times.astronomicalDawn).toBeNull();
+    expect(times.astronomicalDusk).toBeNull();
+  });
+
+  it('should return no sunrise during polar night', () => {
+    const polar = getSunTimes(new Date('2024-12-21T00:00:00Z'), 78.22, 15.65);
+    expect(polar.sunrise).toBeNull();
+    expect(polar.sunset).toBeNull();
+  });
+});
+
+describe('getSunPosition', () => {
+  it('should place the sun high and due south at solar noon', () => {
+    const position = getSunPosition(new Date('2024-06-21T12:02:00Z'), GREENWICH.lat, GREENWICH.lng);
+    expect(position.altitude).toBeCloseTo(90 - GREENWICH.lat + 23.44, 0);
+    expect(position.azimuth).toBeCloseTo(180, -1);
+  });
+});
+
+describe('getNextMoonPhases', () => {
+  // Reference: USNO phases of the Moon, January 2024
+  const phases = getNextMoonPhases(new Date('2024-01-05T00:00:00Z'));
+
+  it('should match reference phase times', () => {
+    expect(minutesBetween(phases.newMoon, new Date('2024-01-11T11:57:00Z'))).toBeLessThan(10);
+    expect(minutesBetween(phases.firstQuarter, new Date('2024-01-18T03:53:00Z'))).toBeLessThan(10);
+    expect(minutesBetween(phases.fullMoon, new Date('2024-01-25T17:54:00Z'))).toBeLessThan(10);
+    expect(minutesBetween(phases.lastQuarter, new Date('2024-02-02T23:18:00Z'))).toBeLessThan(10);
+  });
+});
+
+describe('getMoonIllumination', () => {
+  it('should be fully lit at full moon and dark at new moon', () => {
+    expect(getMoonIllumination(new Date('2024-01-25T17:54:00Z')).fraction).toBeGreaterThan(0.99);
+    expect(getMoonIllumination(new Date('2024-01-11T11:57:00Z')).fraction).toBeLessThan(0.01);
+  });
+
+  it('should be half lit at first quarter and waxing', () => {
+    const illumination = getMoonIllumination(new Date('2024-01-18T03:53:00Z'));
+    expect(illumination.fraction).toBeCloseTo(0.5, 1);
+    expect(illumination.phaseName).toBe('First Quarter');
+    expect(illumination.waxing).toBe(true);
+  });
+});
+
+describe('getMoonTimes', () => {
+  it('should find rise, set and transit within the day', () => {
+    const times = getMoonTimes(new Date('2024-01-20T00:00:00Z'), GREENWICH.lat, GREENWICH.lng);
+    expect(times.rise).not.toBeNull();
+    expect(times.set).not.toBeNull();
+    expect(times.transit).not.toBeNull();
+    expect(times.alwaysUp).toBe(false);
+    expect(times.alwaysDown).toBe(false);
+  });
+
+  it('should rise near sunset on the day of full moon', () => {
+    const start = new Date('2024-01-25T00:00:00Z');
+    const times = getMoonTimes(start, GREENWICH.lat, GREENWICH.lng);
+    const sun = getSunTimes(start, GREENWICH.lat, GREENWICH.lng);
+    expect(minutesBetween(times.rise!, sun.sunset!)).toBeLessThan(90);
+  });
+
+  it('should sit on the horizon at moonrise', () => {
+    const times = getMoonTimes(new Date('2024-01-20T00:00:00Z'), GREENWICH.lat, GREENWICH.lng);
+    const position = getMoonPosition(times.rise!, GREENWICH.lat, GREENWICH.lng);
+    expect(Math.abs(position.altitude)).toBeLessThan(1);
+  });
+
+  it('should be south of the observer at transit', () => {
+    const times = getMoonTimes(new Date('2024-01-20T00:00:00Z'), GREENWICH.lat, GREENWICH.lng);
+    const position = getMoonPosition(times.transit!, GREENWICH.lat, GREENWICH.lng);
+    expect(position.azimuth).toBeCloseTo(180, 0);
+  });
+});
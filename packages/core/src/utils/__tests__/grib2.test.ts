@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { decodeGrib2 } from '../grib2';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+const expectValues = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (isNaN(value)) expect(actual[i]).toBeNaN();
+    else expect(actual[i]).toBeCloseTo(value, 6);
+  });
+};
+
+describe('decodeGrib2', () => {
+  it('should decode simple packing across messages and repeated fields', () => {
+    // Two messages (T+0, T+3), each carrying UGRD, VGRD at 10 m and PRMSL
+    const messages = decodeGrib2(fixture('wind.grb2'));
+
+    expect(messages.map((m) => `${m.parameter}+${m.forecastHours}`)).toEqual([
+      'UGRD+0', 'VGRD+0', 'PRMSL+0', 'UGRD+3', 'VGRD+3', 'PRMSL+3',
+    ]);
+
+    const [u] = messages;
+    expect(u).toMatchObject({
+      discipline: 0,
+      category: 2,
+      parameterNumber: 2,
+      unit: 'm/s',
+      surface: { type: 103, value: 10 },
+      grid: { nx: 3, ny: 2, la1: 44, lo1: 6, la2: 43, lo2: 8, dx: 1, dy: 1 },
+    });
+    expect(u.referenceTime.toISOString()).toBe('2026-06-01T00:00:00.000Z');
+    expect(messages[3].validTime.toISOString()).toBe('2026-06-01T03:00:00.000Z');
+
+    expectValues(u.values, [5, 5.5, 6, 6.5, 7, 7.5]);
+    expectValues(messages[1].values, [-2, -2.3, -2.6, -2.9, -3.2, -3.5]);
+    expectValues(messages[5].values, [101000, 101010, 101020, 101030, 101040, 101050]);
+  });
+
+  it('should decode complex packing, spatial differencing and bitmaps', () => {
+    // South-to-north scanning, 0-360 longitudes, land point in the north-west corner
+    const [height, period, direction] = decodeGrib2(fixture('waves.grb2'));
+
+    expect(height.parameter).toBe('HTSGW');
+    expect(height.grid).toMatchObject({ nx: 4, ny: 3, la1: 44, lo1: -6, la2: 42, lo2: -3 });
+    expect(height.validTime.toISOString()).toBe('2026-06-01T12:00:00.000Z');
+
+    // Complex packing with 2nd order spatial differencing + bitmap
+    expectValues(height.values, [
+      NaN, 1.05, 1.21, 1.33,
+      1.10, 1.25, 1.40, 1.62,
+      1.20, 1.35, 1.55, 1.80,
+    ]);
+
+    // Complex packing with missing value management
+    expect(period.parameter).toBe('PERPW');
+    expectValues(period.values, [
+      NaN, 6.9, 7.1, 7.3,
+      7.2, 7.4, 7.7, 8.0,
+      7.5, 7.8, 8.1, 8.3,
+    ]);
+
+    // Simple packing reusing the previously defined bitmap
+    expect(direction.parameter).toBe('DIRPW');
+    expectValues(direction.values, [
+      NaN, 245, 250, 255,
+      248, 251, 258, 261,
+      250, 255, 260, 262,
+    ]);
+  });
+
+  it('should reject files that are not GRIB2', () => {
+    expect(() => decodeGrib2(new TextEncoder().encode('not a forecast'))).toThrow('Not a GRIB file');
+  });
+});
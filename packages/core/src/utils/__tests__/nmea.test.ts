@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTrueWind, formatNmeaSentence, nmeaChecksum, parseNmeaLog, parseNmeaSentence } from '../nmea';
+
+const RMC = '$GPRMC,123519,A,4807.038,N,01131.000,E,022.4,084.4,230394,003.1,W*6A';
+const GGA = '$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47';
+
+describe('nmeaChecksum', () => {
+  it('should XOR the sentence body', () => {
+    expect(nmeaChecksum('GPRMC,123519,A,4807.038,N,01131.000,E,022.4,084.4,230394,003.1,W')).toBe('6A');
+    expect(formatNmeaSentence('IIHDT,274.1,T')).toMatch(/^\$IIHDT,274\.1,T\*[0-9A-F]{2}$/);
+  });
+});
+
+describe('parseNmeaSentence', () => {
+  it('should parse RMC', () => {
+    const rmc = parseNmeaSentence(RMC);
+    expect(rmc?.type).toBe('RMC');
+    if (rmc?.type !== 'RMC') return;
+    expect(rmc.talker).toBe('GP');
+    expect(rmc.valid).toBe(true);
+    expect(rmc.lat).toBeCloseTo(48.1173, 4);
+    expect(rmc.lon).toBeCloseTo(11.5167, 4);
+    expect(rmc.speedOverGround).toBe(22.4);
+    expect(rmc.courseOverGround).toBe(84.4);
+    expect(rmc.variation).toBe(-3.1);
+    expect(rmc.timestamp?.toISOString()).toBe('1994-03-23T12:35:19.000Z');
+  });
+
+  it('should parse GGA', () => {
+    const gga = parseNmeaSentence(GGA);
+    expect(gga).toMatchObject({ type: 'GGA', fixQuality: 1, satellites: 8, hdop: 0.9, altitude: 545.4 });
+  });
+
+  it('should convert wind speed units and references', () => {
+    expect(parseNmeaSentence(formatNmeaSentence('WIMWV,045.0,R,10.0,M,A'))).toMatchObject({
+      type: 'MWV',
+      reference: 'apparent',
+      angle: 45,
+      valid: true,
+    });
+    const kmh = parseNmeaSentence(formatNmeaSentence('WIMWV,120,T,18.52,K,A'));
+    expect(kmh?.type === 'MWV' && kmh.reference).toBe('true');
+    expect(kmh?.type === 'MWV' && kmh.speed).toBeCloseTo(10, 6);
+    expect(parseNmeaSentence(formatNmeaSentence('WIMWD,270.0,T,265.0,M,12.5,N,6.4,M'))).toMatchObject({
+      type: 'MWD',
+      direction: 270,
+      speed: 12.5,
+    });
+  });
+
+  it('should parse depth, water and heading sentences', () => {
+    expect(parseNmeaSentence(formatNmeaSentence('SDDBT,32.8,f,10.0,M,5.5,F'))).toMatchObject({ depth: 10 });
+    expect(parseNmeaSentence(formatNmeaSentence('SDDBT,32.8084,f,,M,,F'))).toMatchObject({ depth: expect.closeTo(10, 3) });
+    expect(parseNmeaSentence(formatNmeaSentence('SDDPT,8.5,-1.8'))).toMatchObject({ depth: 8.5, offset: -1.8 });
+    expect(parseNmeaSentence(formatNmeaSentence('VWVHW,,T,,M,6.2,N,11.5,K'))).toMatchObject({ speedThroughWater: 6.2 });
+    expect(parseNmeaSentence(formatNmeaSentence('YXMTW,18.4,C'))).toMatchObject({ temperature: 18.4 });
+    expect(parseNmeaSentence(formatNmeaSentence('HCHDG,101.1,,,7.1,W'))).toMatchObject({
+      magneticHeading: 101.1,
+      variation: -7.1,
+    });
+    expect(parseNmeaSentence(formatNmeaSentence('GPVTG,054.7,T,034.4,M,005.5,N,010.2,K'))).toMatchObject({
+      courseOverGround: 54.7,
+      speedOverGround: 5.5,
+    });
+  });
+
+  it('should parse XDR measurement groups', () => {
+    const xdr = parseNmeaSentence(formatNmeaSentence('IIXDR,P,1.0132,B,Barometer,C,21.5,C,AirTemp'));
+    expect(xdr?.type === 'XDR' && xdr.measurements).toEqual([
+      { transducerType: 'P', value: 1.0132, unit: 'B', name: 'Barometer' },
+      { transducerType: 'C', value: 21.5, unit: 'C', name: 'AirTemp' },
+    ]);
+  });
+
+  it('should reject bad checksums and malformed sentences', () => {
+    expect(() => parseNmeaSentence(RMC.replace('*6A', '*00'))).toThrow('NMEA checksum mismatch: expected 6A, got 00');
+    expect(() => parseNmeaSentence('GPRMC,123519')).toThrow(/missing '\$'/);
+    expect(() => parseNmeaSentence('$GPHDT,274.1,T', { requireChecksum: true })).toThrow(/no checksum/);
+  });
+
+  it('should skip blank, unsupported and proprietary sentences', () => {
+    expect(parseNmeaSentence('')).toBeNull();
+    expect(parseNmeaSentence(formatNmeaSentence('GPGSV,3,1,11'))).toBeNull();
+    expect(parseNmeaSentence(formatNmeaSentence('PGRME,15.0,M,45.0,M,25.0,M'))).toBeNull();
+  });
+});
+
+describe('parseNmeaLog', () => {
+  it('should collect valid sentences and report bad lines', () => {
+    const errors: string[] = [];
+    const sentences = parseNmeaLog(`${RMC}\r\n$GPRMC,garbage*00\n${GGA}\n`, (_, line) => errors.push(line));
+    expect(sentences.map((s) => s.type)).toEqual(['RMC', 'GGA']);
+    expect(errors).toEqual(['$GPRMC,garbage*00']);
+  });
+});
+
+describe('calculateTrueWind', () => {
+  it('should remove boat speed from a head wind', () => {
+    const wind = calculateTrueWind(0, 15, 5, 90);
+    expect(wind.speed).toBeCloseTo(10, 6);
+    expect(wind.angle).toBeCloseTo(0, 6);
+    expect(wind.direction).toBeCloseTo(90, 6);
+  });
+
+  it('should shift the angle aft when beam reaching', () => {
+    const wind = calculateTrueWind(90, 10, 5, 0);
+    expect(wind.speed).toBeCloseTo(Math.hypot(10, 5), 6);
+    expect(wind.angle).toBeGreaterThan(90);
+    expect(wind.angle).toBeCloseTo(116.57, 1);
+  });
+});
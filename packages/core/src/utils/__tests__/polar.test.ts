@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCourseSpeed,
+  getPolarBoatSpeed,
+  getVesselSpeed,
+  getVMGTarget,
+  normalizeTrueWindAngle,
+  parsePolar,
+} from '../polar';
+import type { VesselPerformance, VesselPolar } from '../../types/navigation';
+
+const polar: VesselPolar = {
+  name: 'Test 35',
+  twa: [45, 90, 135, 180],
+  tws: [6, 12, 20],
+  boatSpeed: [
+    [4.0, 5.6, 6.2],
+    [5.0, 7.0, 7.8],
+    [4.4, 6.6, 7.6],
+    [3.4, 5.4, 6.8],
+  ],
+};
+
+describe('normalizeTrueWindAngle', () => {
+  it('should fold angles into 0-180', () => {
+    expect(normalizeTrueWindAngle(90)).toBe(90);
+    expect(normalizeTrueWindAngle(-90)).toBe(90);
+    expect(normalizeTrueWindAngle(270)).toBe(90);
+    expect(normalizeTrueWindAngle(540)).toBe(180);
+  });
+});
+
+describe('getPolarBoatSpeed', () => {
+  it('should return table values at grid points', () => {
+    expect(getPolarBoatSpeed(polar, 90, 12)).toBeCloseTo(7.0, 5);
+    expect(getPolarBoatSpeed(polar, -135, 20)).toBeCloseTo(7.6, 5);
+  });
+
+  it('should interpolate bilinearly between grid points', () => {
+    // Midway between 90/135 and 12/20 → mean of the four corners
+    expect(getPolarBoatSpeed(polar, 112.5, 16)).toBeCloseTo((7.0 + 7.8 + 6.6 + 7.6) / 4, 5);
+  });
+
+  it('should return zero inside the no-go zone', () => {
+    expect(getPolarBoatSpeed(polar, 30, 12)).toBe(0);
+    expect(getPolarBoatSpeed(polar, 0, 12)).toBe(0);
+  });
+
+  it('should scale light air below the table towards zero', () => {
+    expect(getPolarBoatSpeed(polar, 90, 3)).toBeCloseTo(2.5, 5);
+    expect(getPolarBoatSpeed(polar, 90, 0)).toBe(0);
+  });
+
+  it('should clamp wind speeds above the table', () => {
+    expect(getPolarBoatSpeed(polar, 90, 35)).toBeCloseTo(7.8, 5);
+  });
+});
+
+describe('parsePolar', () => {
+  it('should parse semicolon separated tables', () => {
+    const parsed = parsePolar('TWA\\TWS;6;12;20\n45;4.0;5.6;6.2\n90;5.0;7.0;7.8\n', 'Test');
+    expect(parsed.tws).toEqual([6, 12, 20]);
+    expect(parsed.twa).toEqual([45, 90]);
+    expect(parsed.boatSpeed[1]).toEqual([5.0, 7.0, 7.8]);
+  });
+
+  it('should parse whitespace separated tables and sort angles', () => {
+    const parsed = parsePolar('twa/tws 6 12\n# comment\n150 4.4 6.6\n52 4.1 5.9', 'Test');
+    expect(parsed.twa).toEqual([52, 150]);
+    expect(parsed.boatSpeed[0]).toEqual([4.1, 5.9]);
+  });
+
+  it('should read empty cells as zero', () => {
+    const parsed = parsePolar('TWA,6,12\n0,,\n90,5,7', 'Test');
+    expect(parsed.boatSpeed[0]).toEqual([0, 0]);
+  });
+
+  it('should reject tables without wind speeds', () => {
+    expect(() => parsePolar('TWA;a;b\n45;1;2', 'Bad')).toThrow();
+    expect(() => parsePolar('TWA;6;12', 'Bad')).toThrow();
+  });
+});
+
+describe('getVMGTarget', () => {
+  it('should find an upwind angle near the first polar row', () => {
+    const target = getVMGTarget(polar, 12, 'upwind');
+    expect(target.twa).toBeGreaterThanOrEqual(45);
+    expect(target.twa).toBeLessThan(90);
+    expect(target.vmg).toBeCloseTo(target.boatSpeed * Math.cos((target.twa * Math.PI) / 180), 5);
+  });
+
+  it('should find a downwind angle between beam and dead run', () => {
+    const target = getVMGTarget(polar, 12, 'downwind');
+    expect(target.twa).toBeGreaterThan(90);
+    expect(target.vmg).toBeGreaterThan(0);
+  });
+});
+
+describe('getCourseSpeed', () => {
+  it('should use the polar directly on a reach', () => {
+    expect(getCourseSpeed(polar, 90, 12)).toBeCloseTo(7.0, 5);
+  });
+
+  it('should give the upwind VMG when the course is dead upwind', () => {
+    const target = getVMGTarget(polar, 12, 'upwind');
+    expect(getCourseSpeed(polar, 0, 12)).toBeCloseTo(target.vmg, 5);
+  });
+
+  it('should never be slower than the VMG inside the tacking angle', () => {
+    const target = getVMGTarget(polar, 12, 'upwind');
+    expect(getCourseSpeed(polar, 20, 12)).toBeGreaterThan(target.vmg);
+  });
+});
+
+describe('getVesselSpeed', () => {
+  const performance: VesselPerformance = { polar, motoringSpeed: 6, motoringThreshold: 5 };
+
+  it('should motor below the wind threshold', () => {
+    expect(getVesselSpeed(performance, { course: 90, windSpeed: 3, windDirection: 0 })).toEqual({
+      speed: 6,
+      motoring: true,
+    });
+  });
+
+  it('should sail when there is enough wind', () => {
+    const result = getVesselSpeed(performance, { course: 90, windSpeed: 12, windDirection: 0 });
+    expect(result.motoring).toBe(false);
+    expect(result.speed).toBeCloseTo(7.0, 5);
+  });
+
+  it('should always motor without a polar', () => {
+    const result = getVesselSpeed(
+      { motoringSpeed: 8, motoringThreshold: 5 },
+      { course: 90, windSpeed: 15, windDirection: 0 }
+    );
+    expect(result).toEqual({ speed: 8, motoring: true });
+  });
+});
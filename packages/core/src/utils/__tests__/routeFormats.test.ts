@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectRouteFileFormat,
+  parseRouteFile,
+  serializeRoute,
+  trackToRoute,
+} from '../routeFormats';
+import type { RouteFileFormat } from '../routeFormats';
+import { parseXml } from '../xml';
+import type { Route, TrackPoint } from '../../types/navigation';
+
+const route: Route = {
+  id: 'r1',
+  name: 'Haifa & Akko',
+  waypoints: [
+    { id: 'start', lat: 32.82, lon: 34.99, name: 'Haifa <Marina>', type: 'start' },
+    { id: 'wp-1', lat: 32.88, lon: 35.02, name: 'WP 1', type: 'waypoint' },
+    { id: 'destination', lat: 32.92, lon: 35.07, name: 'Akko', type: 'destination' },
+  ],
+  totalDistance: 7,
+  estimatedTime: 1.4,
+  createdAt: new Date('2026-06-01T08:00:00Z'),
+  averageSpeed: 5,
+};
+
+const track: TrackPoint[] = [
+  { lat: 32.82, lon: 34.99, timestamp: new Date('2026-06-01T08:00:00Z'), speed: 5.2 },
+  { lat: 32.85, lon: 35.0, timestamp: new Date('2026-06-01T08:20:00Z'), speed: 5.6 },
+  { lat: 32.88, lon: 35.02, timestamp: new Date('2026-06-01T08:40:00Z'), speed: 5.1 },
+];
+
+describe('parseXml', () => {
+  it('should parse elements, attributes, entities and CDATA', () => {
+    const root = parseXml('<?xml version="1.0"?><a x="1 &amp; 2"><b>t&lt;x</b><c><![CDATA[<raw>]]></c></a>');
+    expect(root.name).toBe('a');
+    expect(root.attributes.x).toBe('1 & 2');
+    expect(root.children[0].text).toBe('t<x');
+    expect(root.children[1].text).toBe('<raw>');
+  });
+
+  it('should reject mismatched tags', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(/Malformed XML/);
+    expect(() => parseXml('<a><b>')).toThrow(/unclosed tag <b>/);
+  });
+});
+
+describe('route file round trips', () => {
+  const formats: RouteFileFormat[] = ['gpx', 'kml', 'geojson'];
+
+  for (const format of formats) {
+    it(`should round-trip a route and track through ${format}`, () => {
+      const content = serializeRoute(route, format, track);
+      const parsed = parseRouteFile(content);
+
+      expect(parsed.route).not.toBeNull();
+      expect(parsed.route!.waypoints).toHaveLength(3);
+      expect(parsed.route!.waypoints.map((wp) => wp.name)).toEqual(['Haifa <Marina>', 'WP 1', 'Akko']);
+      expect(parsed.route!.waypoints[0].type).toBe('start');
+      expect(parsed.route!.waypoints[2].type).toBe('destination');
+      expect(parsed.route!.waypoints[1].lat).toBeCloseTo(32.88, 6);
+      expect(parsed.route!.waypoints[1].lon).toBeCloseTo(35.02, 6);
+      expect(parsed.route!.totalDistance).toBeGreaterThan(0);
+
+      expect(parsed.track).toHaveLength(3);
+      expect(parsed.track[2].timestamp.toISOString()).toBe('2026-06-01T08:40:00.000Z');
+    });
+  }
+
+  it('should keep track speeds in GeoJSON', () => {
+    const parsed = parseRouteFile(serializeRoute(route, 'geojson', track));
+    expect(parsed.track.map((p) => p.speed)).toEqual([5.2, 5.6, 5.1]);
+  });
+});
+
+describe('parseRouteFile', () => {
+  it('should detect formats from file name or content', () => {
+    expect(detectRouteFileFormat('', 'passage.GPX')).toBe('gpx');
+    expect(detectRouteFileFormat('{"type":"FeatureCollection"}')).toBe('geojson');
+    expect(detectRouteFileFormat('<?xml version="1.0"?>\n<kml>')).toBe('kml');
+    expect(() => detectRouteFileFormat('hello')).toThrow(/Unrecognised file format/);
+  });
+
+  it('should read a GPX track without a route', () => {
+    const gpx = `<gpx version="1.1"><trk><trkseg>
+      <trkpt lat="43.1" lon="5.9"><time>2026-06-01T08:00:00Z</time></trkpt>
+      <trkpt lat="43.2" lon="6.0"><time>2026-06-01T09:00:00Z</time></trkpt>
+    </trkseg></trk></gpx>`;
+    const parsed = parseRouteFile(gpx, 'track.gpx');
+    expect(parsed.route).toBeNull();
+    expect(parsed.track).toHaveLength(2);
+  });
+
+  it('should read a GPX track without times as a route', () => {
+    const gpx = `<gpx version="1.1"><trk><trkseg>
+      <trkpt lat="43.1" lon="5.9"/>
+      <trkpt lat="43.15" lon="5.95"/>
+      <trkpt lat="43.2" lon="6.0"/>
+    </trkseg></trk></gpx>`;
+    const parsed = parseRouteFile(gpx, 'track.gpx');
+    expect(parsed.track).toEqual([]);
+    expect(parsed.route?.waypoints.map((w) => [w.lat, w.lon])).toEqual([
+      [43.1, 5.9],
+      [43.15, 5.95],
+      [43.2, 6.0],
+    ]);
+  });
+
+  it('should reject invalid coordinates', () => {
+    const gpx = `<gpx><rte><rtept lat="95" lon="5"/><rtept lat="43" lon="6"/></rte></gpx>`;
+    expect(() => parseRouteFile(gpx)).toThrow(/Invalid coordinates in route point 1/);
+  });
+
+  it('should reject files without a route or track', () => {
+    expect(() => parseRouteFile('<gpx version="1.1"></gpx>')).toThrow('No route or track found in file');
+    expect(() => parseRouteFile('{"type":"FeatureCollection","features":[]}')).toThrow(/Not a GeoJSON/);
+  });
+
+  it('should report malformed content', () => {
+    expect(() => parseRouteFile('<gpx><rte></gpx>')).toThrow(/Malformed XML/);
+    expect(() => parseRouteFile('{"type":', 'route.geojson')).toThrow(/Malformed GeoJSON/);
+    expect(() => parseRouteFile('<kml></kml>', 'route.gpx')).toThrow(/Not a GPX file/);
+  });
+});
+
+describe('trackToRoute', () => {
+  it('should thin a track while keeping both ends', () => {
+    const long: TrackPoint[] = Array.from({ length: 101 }, (_, i) => ({
+      lat: 43 + i * 0.01,
+      lon: 6,
+      timestamp: new Date(Date.UTC(2026, 5, 1, 8, i)),
+    }));
+    const result = trackToRoute(long, 'Logged', 11);
+    expect(result.waypoints).toHaveLength(11);
+    expect(result.waypoints[0].lat).toBe(43);
+    expect(result.waypoints[10].lat).toBeCloseTo(44, 6);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findNearestTideStation,
+  findTideExtrema,
+  getConstituentSpeed,
+  getNodalCorrection,
+  predictTideHeight,
+  predictTideSeries,
+} from '../tidePrediction';
+import { generateTideData } from '../calculations';
+import type { TideStation } from '../../types';
+
+const m2Only: TideStation = {
+  id: 'test',
+  name: 'Test Harbor',
+  lat: 0,
+  lng: 0,
+  datumOffset: 2,
+  constituents: { M2: { amplitude: 1, phase: 0 } },
+};
+
+describe('getConstituentSpeed', () => {
+  it('should match published constituent speeds', () => {
+    expect(getConstituentSpeed('M2')).toBeCloseTo(28.9841042, 5);
+    expect(getConstituentSpeed('S2')).toBeCloseTo(30.0, 5);
+    expect(getConstituentSpeed('N2')).toBeCloseTo(28.4397295, 5);
+    expect(getConstituentSpeed('K1')).toBeCloseTo(15.0410686, 5);
+    expect(getConstituentSpeed('O1')).toBeCloseTo(13.9430356, 5);
+  });
+});
+
+describe('getNodalCorrection', () => {
+  it('should keep factors within their 18.6-year range', () => {
+    for (let year = 2020; year < 2040; year++) {
+      const date = new Date(Date.UTC(year, 0, 1));
+      const m2 = getNodalCorrection('M2', date);
+      const k1 = getNodalCorrection('K1', date);
+      expect(m2.f).toBeGreaterThan(0.96);
+      expect(m2.f).toBeLessThan(1.04);
+      expect(k1.f).toBeGreaterThan(0.88);
+      expect(k1.f).toBeLessThan(1.12);
+      expect(Math.abs(m2.u)).toBeLessThan(2.5);
+    }
+  });
+
+  it('should not modulate solar constituents', () => {
+    expect(getNodalCorrection('S2', new Date())).toEqual({ f: 1, u: 0 });
+  });
+});
+
+describe('predictTideHeight', () => {
+  it('should stay within datum offset plus or minus the constituent amplitude', () => {
+    const series = predictTideSeries(m2Only, new Date('2024-06-01T00:00:00Z'), 48);
+    series.forEach((point) => {
+      expect(point.height).toBeGreaterThanOrEqual(0.95);
+      expect(point.height).toBeLessThanOrEqual(3.05);
+    });
+  });
+
+  it('should agree with the series at the series start', () => {
+    const start = new Date('2024-06-01T00:00:00Z');
+    const series = predictTideSeries(m2Only, start, 2);
+    expect(predictTideHeight(m2Only, start)).toBeCloseTo(series[0].height, 2);
+  });
+});
+
+describe('findTideExtrema', () => {
+  const start = new Date('2024-06-01T00:00:00Z');
+  const end = new Date('2024-06-03T00:00:00Z');
+
+  it('should alternate high and low waters half an M2 period apart', () => {
+    const events = findTideExtrema(m2Only, start, end);
+    expect(events.length).toBeGreaterThanOrEqual(6);
+
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].type).not.toBe(events[i - 1].type);
+      const gapHours = (new Date(events[i].time).getTime() - new Date(events[i - 1].time).getTime()) / 3600000;
+      expect(gapHours).toBeCloseTo(180 / 28.9841042, 1);
+    }
+  });
+
+  it('should find interpolated extremum heights', () => {
+    const { f } = getNodalCorrection('M2', start);
+    const events = findTideExtrema(m2Only, start, end);
+    events.forEach((event) => {
+      expect(event.height).toBeCloseTo(event.type === 'HIGH' ? 2 + f : 2 - f, 2);
+    });
+  });
+
+  it('should drop minor stands in mixed tides', () => {
+    const mixed: TideStation = {
+      ...m2Only,
+      constituents: {
+        M2: { amplitude: 0.1, phase: 0 },
+        K1: { amplitude: 0.12, phase: 40 },
+      },
+    };
+    const events = findTideExtrema(mixed, start, end);
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].type).not.toBe(events[i - 1].type);
+      expect(Math.abs(events[i].height - events[i - 1].height)).toBeGreaterThanOrEqual(0.01);
+    }
+  });
+});
+
+describe('findNearestTideStation', () => {
+  it('should pick the closest station within range', () => {
+    const nearest = findNearestTideStation(32.0853, 34.7818);
+    expect(nearest?.station.id).toBe('ashdod');
+    expect(nearest!.distance).toBeLessThan(20);
+  });
+
+  it('should return null when no station is in range', () => {
+    expect(findNearestTideStation(0, -140)).toBeNull();
+  });
+});
+
+describe('generateTideData with stations', () => {
+  it('should report the station used', () => {
+    const tideData = generateTideData(48.4, -4.49, new Date('2024-03-10T00:00:00Z'));
+    expect(tideData.station?.id).toBe('brest');
+  });
+
+  it('should produce a macro-tidal range at Brest', () => {
+    const tideData = generateTideData(48.4, -4.49, new Date('2024-03-10T00:00:00Z'));
+    const heights = tideData.hourly.map((t) => t.height);
+    expect(Math.max(...heights) - Math.min(...heights)).toBeGreaterThan(4);
+    expect(tideData.nextHigh.height).toBeGreaterThan(tideData.nextLow.height);
+  });
+
+  it('should fall back to the approximation far from any station', () => {
+    const tideData = generateTideData(0, -140);
+    expect(tideData.station).toBeUndefined();
+    expect(tideData.hourly).toHaveLength(48);
+  });
+});
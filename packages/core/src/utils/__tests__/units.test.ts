@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatDistanceIn,
+  formatUnitValue,
+  fromDisplayUnit,
+  kmhToBeaufort,
+  toDisplayDifference,
+  toDisplayUnit,
+} from '../units';
+
+describe('toDisplayUnit / fromDisplayUnit', () => {
+  it('should convert canonical values to display units', () => {
+    expect(toDisplayUnit('wind', 37.04, 'kt')).toBeCloseTo(20);
+    expect(toDisplayUnit('wind', 36, 'ms')).toBeCloseTo(10);
+    expect(toDisplayUnit('height', 3, 'ft')).toBeCloseTo(9.84, 2);
+    expect(toDisplayUnit('distance', 10, 'km')).toBeCloseTo(18.52);
+    expect(toDisplayUnit('temperature', 20, 'f')).toBeCloseTo(68);
+    expect(toDisplayUnit('pressure', 1013.25, 'inhg')).toBeCloseTo(29.92, 2);
+    expect(toDisplayUnit('depth', 18.288, 'fathom')).toBeCloseTo(10);
+    expect(toDisplayUnit('wind', 30, 'kmh')).toBe(30);
+  });
+
+  it('should round-trip every unit except Beaufort', () => {
+    const cases: Array<[Parameters<typeof toDisplayUnit>[0], string]> = [
+      ['wind', 'kt'], ['wind', 'mph'], ['height', 'ft'], ['distance', 'mi'],
+      ['temperature', 'f'], ['pressure', 'inhg'], ['depth', 'ft'], ['depth', 'fathom'],
+    ];
+    for (const [quantity, unit] of cases) {
+      expect(fromDisplayUnit(quantity, toDisplayUnit(quantity, 42, unit), unit)).toBeCloseTo(42);
+    }
+  });
+
+  it('should make a threshold entered in knots compare correctly with km/h data', () => {
+    const threshold = fromDisplayUnit('wind', 20, 'kt');
+    expect(36 > threshold).toBe(false);
+    expect(38 > threshold).toBe(true);
+  });
+});
+
+describe('Beaufort', () => {
+  it('should map wind speeds to Beaufort forces', () => {
+    expect(kmhToBeaufort(0)).toBe(0);
+    expect(kmhToBeaufort(20)).toBe(3); // 10.8 kts
+    expect(kmhToBeaufort(21 * 1.852)).toBe(5);
+    expect(kmhToBeaufort(22 * 1.852)).toBe(6);
+    expect(kmhToBeaufort(200)).toBe(12);
+  });
+
+  it('should convert a force back to its lower wind speed', () => {
+    expect(fromDisplayUnit('wind', 6, 'bft')).toBeCloseTo(22 * 1.852);
+    expect(kmhToBeaufort(fromDisplayUnit('wind', 6, 'bft'))).toBe(6);
+  });
+});
+
+describe('formatUnitValue', () => {
+  it('should format with the unit label and precision', () => {
+    expect(formatUnitValue('wind', 37.04, 'kt')).toBe('20 kts');
+    expect(formatUnitValue('wind', 45, 'bft')).toBe('Bft 6');
+    expect(formatUnitValue('height', 1.5, 'm', 2)).toBe('1.50 m');
+    expect(formatUnitValue('temperature', 20, 'f')).toBe('68 °F');
+    expect(formatUnitValue('pressure', null, 'hpa')).toBe('--');
+  });
+
+  it('should format distances with a short-range fallback', () => {
+    expect(formatDistanceIn(10)).toBe('10.00 NM');
+    expect(formatDistanceIn(10, 'km')).toBe('18.52 km');
+    expect(formatDistanceIn(0.05)).toBe('93 m');
+    expect(formatDistanceIn(0.05, 'mi')).toBe('304 ft');
+  });
+});
+
+describe('toDisplayDifference', () => {
+  it('should scale differences without the unit offset', () => {
+    expect(toDisplayDifference('temperature', 5, 'f')).toBeCloseTo(9);
+    expect(toDisplayDifference('wind', 18.52, 'kt')).toBeCloseTo(10);
+    // Beaufort differences fall back to knots
+    expect(toDisplayDifference('wind', 18.52, 'bft')).toBeCloseTo(10);
+  });
+});
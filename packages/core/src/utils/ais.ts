@@ -0,0 +1,330 @@
+/**
+ * AIS Message Decoder
+ *
+ * Decodes AIVDM (other vessels) and AIVDO (own vessel) sentences:
+ * - Types 1-3: Class A position report
+ * - Type 5: Class A static and voyage data
+ * - Type 18: Class B position report
+ * - Type 19: Class B extended position report
+ * - Type 24: Class B static data (parts A and B)
+ *
+ * Multi-fragment messages are joined with an AisFragmentAssembler.
+ */
+
+import { nmeaChecksum } from './nmea';
+
+// ============================================
+// MESSAGE TYPES
+// ============================================
+
+export interface AisPositionReport {
+  type: 1 | 2 | 3 | 18 | 19;
+  mmsi: number;
+  class: 'A' | 'B';
+  navStatus?: number; // class A only
+  rateOfTurn?: number; // degrees/min, class A only
+  speedOverGround?: number; // knots
+  lat?: number;
+  lon?: number;
+  courseOverGround?: number; // degrees true
+  heading?: number; // degrees true
+  /** Extended class B reports (type 19) carry static data too */
+  name?: string;
+  shipType?: number;
+  dimensions?: AisDimensions;
+}
+
+export interface AisDimensions {
+  toBow: number; // meters from the reference point
+  toStern: number;
+  toPort: number;
+  toStarboard: number;
+}
+
+export interface AisStaticReport {
+  type: 5 | 24;
+  mmsi: number;
+  class: 'A' | 'B';
+  name?: string;
+  callsign?: string;
+  imo?: number;
+  shipType?: number;
+  dimensions?: AisDimensions;
+  draught?: number; // meters
+  destination?: string;
+}
+
+export type AisMessage = AisPositionReport | AisStaticReport;
+
+export const isAisPositionReport = (message: AisMessage): message is AisPositionReport =>
+  message.type !== 5 && message.type !== 24;
+
+export interface DecodedAisSentence {
+  /** true for AIVDO (own vessel) */
+  own: boolean;
+  channel: string;
+  message: AisMessage;
+}
+
+// ============================================
+// BIT READING
+// ============================================
+
+const SHIP_TYPE_NAMES: Array<[number, number, string]> = [
+  [20, 29, 'Wing in ground'],
+  [30, 30, 'Fishing'],
+  [31, 32, 'Towing'],
+  [33, 33, 'Dredging'],
+  [34, 34, 'Diving ops'],
+  [35, 35, 'Military ops'],
+  [36, 36, 'Sailing'],
+  [37, 37, 'Pleasure craft'],
+  [40, 49, 'High speed craft'],
+  [50, 50, 'Pilot vessel'],
+  [51, 51, 'Search and rescue'],
+  [52, 52, 'Tug'],
+  [53, 53, 'Port tender'],
+  [55, 55, 'Law enforcement'],
+  [58, 58, 'Medical transport'],
+  [60, 69, 'Passenger'],
+  [70, 79, 'Cargo'],
+  [80, 89, 'Tanker'],
+];
+
+/**
+ * Human readable AIS ship type
+ */
+export const getAisShipTypeName = (shipType: number | undefined): string => {
+  if (shipType === undefined || shipType === 0) return 'Unknown';
+  const match = SHIP_TYPE_NAMES.find(([min, max]) => shipType >= min && shipType <= max);
+  return match ? match[2] : 'Other';
+};
+
+/**
+ * Unpack a 6-bit armoured AIS payload into a bit string
+ */
+const payloadToBits = (payload: string, fillBits: number): string => {
+  let bits = '';
+  for (let i = 0; i < payload.length; i++) {
+    let value = payload.charCodeAt(i) - 48;
+    if (value > 40) value -= 8;
+    if (value < 0 || value > 63) {
+      throw new Error(`Invalid AIS payload character: ${payload[i]}`);
+    }
+    bits += value.toString(2).padStart(6, '0');
+  }
+  return fillBits > 0 ? bits.slice(0, bits.length - fillBits) : bits;
+};
+
+const createReader = (bits: string) => {
+  const uint = (start: number, length: number): number => {
+    const slice = bits.slice(start, start + length);
+    return slice.length === 0 ? 0 : parseInt(slice.padEnd(length, '0'), 2);
+  };
+
+  const int = (start: number, length: number): number => {
+    const value = uint(start, length);
+    return bits[start] === '1' ? value - 2 ** length : value;
+  };
+
+  const text = (start: number, length: number): string => {
+    let result = '';
+    for (let i = start; i + 6 <= start + length && i + 6 <= bits.length; i += 6) {
+      const value = uint(i, 6);
+      result += String.fromCharCode(value < 32 ? value + 64 : value);
+    }
+    return result.replace(/@.*$/, '').trim();
+  };
+
+  return { uint, int, text, length: bits.length };
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+// Unavailable values defined by ITU-R M.1371
+const speed = (raw: number): number | undefined => (raw === 1023 ? undefined : raw / 10);
+const course = (raw: number): number | undefined => (raw >= 3600 ? undefined : raw / 10);
+const heading = (raw: number): number | undefined => (raw === 511 ? undefined : raw);
+const longitude = (raw: number): number | undefined => (raw === 181 * 600000 ? undefined : raw / 600000);
+const latitude = (raw: number): number | undefined => (raw === 91 * 600000 ? undefined : raw / 600000);
+const optionalText = (value: string): string | undefined => value || undefined;
+
+const rateOfTurn = (raw: number): number | undefined => {
+  if (raw === -128) return undefined;
+  // ROT_AIS = 4.733 * sqrt(ROT_sensor); ±127 means turning faster than 5°/30s without a sensor
+  const value = (raw / 4.733) ** 2;
+  return raw < 0 ? -value : value;
+};
+
+const dimensions = (r: Reader, start: number): AisDimensions | undefined => {
+  const result = {
+    toBow: r.uint(start, 9),
+    toStern: r.uint(start + 9, 9),
+    toPort: r.uint(start + 18, 6),
+    toStarboard: r.uint(start + 24, 6),
+  };
+  return result.toBow + result.toStern + result.toPort + result.toStarboard > 0 ? result : undefined;
+};
+
+const decodeClassAPosition = (r: Reader, type: 1 | 2 | 3): AisPositionReport => ({
+  type,
+  mmsi: r.uint(8, 30),
+  class: 'A',
+  navStatus: r.uint(38, 4),
+  rateOfTurn: rateOfTurn(r.int(42, 8)),
+  speedOverGround: speed(r.uint(50, 10)),
+  lon: longitude(r.int(61, 28)),
+  lat: latitude(r.int(89, 27)),
+  courseOverGround: course(r.uint(116, 12)),
+  heading: heading(r.uint(128, 9)),
+});
+
+const decodeClassBPosition = (r: Reader, type: 18 | 19): AisPositionReport => {
+  const report: AisPositionReport = {
+    type,
+    mmsi: r.uint(8, 30),
+    class: 'B',
+    speedOverGround: speed(r.uint(46, 10)),
+    lon: longitude(r.int(57, 28)),
+    lat: latitude(r.int(85, 27)),
+    courseOverGround: course(r.uint(112, 12)),
+    heading: heading(r.uint(124, 9)),
+  };
+
+  if (type === 19) {
+    report.name = optionalText(r.text(143, 120));
+    report.shipType = r.uint(263, 8);
+    report.dimensions = dimensions(r, 271);
+  }
+  return report;
+};
+
+const decodeStaticVoyage = (r: Reader): AisStaticReport => ({
+  type: 5,
+  mmsi: r.uint(8, 30),
+  class: 'A',
+  imo: r.uint(40, 30) || undefined,
+  callsign: optionalText(r.text(70, 42)),
+  name: optionalText(r.text(112, 120)),
+  shipType: r.uint(232, 8),
+  dimensions: dimensions(r, 240),
+  draught: r.uint(294, 8) / 10 || undefined,
+  destination: optionalText(r.text(302, 120)),
+});
+
+const decodeStaticDataReport = (r: Reader): AisStaticReport => {
+  const mmsi = r.uint(8, 30);
+  const part = r.uint(38, 2);
+
+  if (part === 0) {
+    return { type: 24, mmsi, class: 'B', name: optionalText(r.text(40, 120)) };
+  }
+  return {
+    type: 24,
+    mmsi,
+    class: 'B',
+    shipType: r.uint(40, 8),
+    callsign: optionalText(r.text(90, 42)),
+    dimensions: dimensions(r, 132),
+  };
+};
+
+/**
+ * Decode a complete (already reassembled) AIS payload
+ *
+ * Returns null for message types this decoder doesn't handle.
+ */
+export const decodeAisPayload = (payload: string, fillBits: number = 0): AisMessage | null => {
+  const reader = createReader(payloadToBits(payload, fillBits));
+  const type = reader.uint(0, 6);
+
+  switch (type) {
+    case 1:
+    case 2:
+    case 3:
+      return decodeClassAPosition(reader, type);
+    case 5:
+      return decodeStaticVoyage(reader);
+    case 18:
+    case 19:
+      return decodeClassBPosition(reader, type);
+    case 24:
+      return decodeStaticDataReport(reader);
+    default:
+      return null;
+  }
+};
+
+// ============================================
+// SENTENCE ASSEMBLY
+// ============================================
+
+/** Fragments older than this are dropped (ms) */
+const FRAGMENT_TIMEOUT_MS = 5000;
+
+/**
+ * Joins multi-sentence AIVDM/AIVDO messages and decodes them
+ */
+export class AisFragmentAssembler {
+  private pending: Map<string, { parts: string[]; received: number; startedAt: number }> = new Map();
+
+  /**
+   * Add one !AIVDM/!AIVDO sentence
+   *
+   * Returns the decoded message once all fragments have arrived, otherwise null.
+   * @throws Error on checksum mismatch or malformed sentence
+   */
+  add(line: string, now: number = Date.now()): DecodedAisSentence | null {
+    const sentence = line.trim().slice(line.trim().indexOf('!'));
+    const star = sentence.indexOf('*');
+    if (!sentence.startsWith('!') || star < 0) {
+      throw new Error(`Invalid AIS sentence: ${line.trim()}`);
+    }
+
+    const body = sentence.slice(1, star);
+    const expected = nmeaChecksum(body);
+    const actual = sentence.slice(star + 1, star + 3).toUpperCase();
+    if (actual !== expected) {
+      throw new Error(`AIS checksum mismatch: expected ${expected}, got ${actual}`);
+    }
+
+    const [address, countField, numberField, sequenceId, channel, payload, fillField] = body.split(',');
+    if (!/^..VD[MO]$/.test(address)) {
+      throw new Error(`Not an AIS sentence: ${address}`);
+    }
+
+    const count = parseInt(countField, 10);
+    const number = parseInt(numberField, 10);
+    if (!(count >= 1) || !(number >= 1) || number > count || payload === undefined) {
+      throw new Error(`Malformed AIS sentence: ${sentence}`);
+    }
+
+    const own = address.endsWith('VDO');
+    const fillBits = parseInt(fillField, 10) || 0;
+
+    if (count === 1) {
+      const message = decodeAisPayload(payload, fillBits);
+      return message ? { own, channel, message } : null;
+    }
+
+    // Drop stale fragments before adding this one
+    for (const [key, entry] of this.pending) {
+      if (now - entry.startedAt > FRAGMENT_TIMEOUT_MS) this.pending.delete(key);
+    }
+
+    const key = `${address}-${sequenceId}-${channel}`;
+    if (number === 1) {
+      this.pending.set(key, { parts: new Array(count).fill(''), received: 0, startedAt: now });
+    }
+    const entry = this.pending.get(key);
+    if (!entry || entry.parts.length !== count) return null;
+
+    if (!entry.parts[number - 1]) entry.received++;
+    entry.parts[number - 1] = payload;
+    if (entry.received < count) return null;
+
+    this.pending.delete(key);
+    const message = decodeAisPayload(entry.parts.join(''), fillBits);
+    return message ? { own, channel, message } : null;
+  }
+}
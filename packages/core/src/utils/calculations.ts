@@ -1,41 +1,60 @@
 import { startOfHour, addHours } from 'date-fns';
 import { TideData, TideEvent } from '../types';
+import { getMoonIllumination } from './ephemeris';
+import { findNearestTideStation, findTideExtrema, predictTideSeries } from './tidePrediction';
 
-// Calculate Moon Phase & Illumination
+/**
+ * Moon phase & illumination for a given instant (from the ephemeris)
+ */
 export const getMoonData = (date: Date) => {
-  let year = date.getFullYear();
-  let month = date.getMonth() + 1;
-  let day = date.getDate();
+  const { phase, phaseName, fraction } = getMoonIllumination(date);
 
-  if (month < 3) {
-    year--;
-    month += 12;
+  return {
+    phase: phaseName,
+    illumination: Math.round(fraction * 100),
+    phaseValue: phase // Raw phase value for calculations (0=New, 0.5=Full)
+  };
+};
+
+/**
+ * Generate 48 hours of tide data for a location
+ *
+ * Uses harmonic prediction from the nearest bundled tide station. Falls back
+ * to a single-constituent approximation when no station is within range.
+ */
+export const generateTideData = (lat: number, lng: number, now: Date = new Date()): TideData => {
+  const nearest = findNearestTideStation(lat, lng);
+  if (!nearest) {
+    return generateApproximateTideData(lng, now);
   }
 
-  const c = 365.25 * year;
-  const e = 30.6 * month;
-  const jd = c + e + day - 694039.09; // jd is total days elapsed
-  let b = jd / 29.5305882; // divide by the moon cycle
-  b -= Math.floor(b); // get the decimal part (phase 0..1)
-  
-  // b is 0..1 (0=New, 0.5=Full, 1=New)
-  const illumination = Math.round((0.5 - Math.cos(b * 2 * Math.PI) / 2) * 100);
-  
-  const phaseIndex = Math.round(b * 8) % 8;
-  const phases = [
-    'New Moon', 'Waxing Crescent', 'First Quarter', 'Waxing Gibbous',
-    'Full Moon', 'Waning Gibbous', 'Last Quarter', 'Waning Crescent'
-  ];
+  const { station, distance } = nearest;
+  const hourlyTides = predictTideSeries(station, startOfHour(now), 48);
+  const events = findTideExtrema(station, now, addHours(now, 48));
+
+  const nextHigh = events.find((e) => e.type === 'HIGH')
+    || { time: addHours(now, 6).toISOString(), height: Math.max(...hourlyTides.map((t) => t.height)), type: 'HIGH' as const };
+  const nextLow = events.find((e) => e.type === 'LOW')
+    || { time: addHours(now, 12).toISOString(), height: Math.min(...hourlyTides.map((t) => t.height)), type: 'LOW' as const };
 
   return {
-    phase: phases[phaseIndex],
-    illumination,
-    phaseValue: b // Raw phase value for calculations
+    currentHeight: hourlyTides[0].height,
+    rising: hourlyTides[1].height > hourlyTides[0].height,
+    nextHigh,
+    nextLow,
+    hourly: hourlyTides,
+    station: {
+      id: station.id,
+      name: station.name,
+      distance: parseFloat(distance.toFixed(1)),
+    },
   };
 };
 
-export const generateTideData = (lat: number, lng: number): TideData => {
-  const now = new Date();
+/**
+ * Single M2 cosine phased by longitude - used only where no tide station is available
+ */
+const generateApproximateTideData = (lng: number, now: Date): TideData => {
   const hourlyTides: { time: string; height: number }[] = [];
   const startHour = startOfHour(now);
 
@@ -0,0 +1,469 @@
+/**
+ * Sun & Moon Ephemeris
+ *
+ * Low-precision astronomical algorithms (after Meeus, "Astronomical Algorithms")
+ * for marine use:
+ * - Sun and Moon positions (azimuth/altitude) for any location and time
+ * - Rise, set and transit times found by sampling altitude and bisecting
+ * - Civil, nautical and astronomical twilight
+ * - Moon illumination, phase and the dates of the next principal phases
+ *
+ * Positions are good to about 0.1° for the Sun and 0.3° for the Moon, which
+ * puts rise/set times within a couple of minutes at mid latitudes.
+ * All calculations are offline and deterministic.
+ */
+
+const DEG = Math.PI / 180;
+const J2000 = 2451545.0;
+const MS_PER_DAY = 86400000;
+const OBLIQUITY = 23.4397 * DEG;
+const AU_KM = 149597870.7;
+const EARTH_RADIUS_KM = 6378.14;
+
+/** Altitude of the Sun's center at sunrise/sunset (refraction + semidiameter) */
+const SUN_RISE_ALTITUDE = -0.833;
+
+/** Sun altitudes that bound the twilight periods */
+export const TWILIGHT_ALTITUDES = {
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+} as const;
+
+export type TwilightType = keyof typeof TWILIGHT_ALTITUDES;
+
+export type MoonPhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent';
+
+export interface CelestialPosition {
+  azimuth: number; // degrees clockwise from north
+  altitude: number; // degrees above the horizon
+  rightAscension: number; // degrees
+  declination: number; // degrees
+  distance: number; // km
+}
+
+export interface MoonIllumination {
+  fraction: number; // illuminated fraction 0..1
+  phase: number; // 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter
+  phaseName: MoonPhaseName;
+  waxing: boolean;
+}
+
+export interface RiseSetTimes {
+  rise: Date | null;
+  set: Date | null;
+  transit: Date | null;
+  alwaysUp: boolean;
+  alwaysDown: boolean;
+}
+
+export interface SunTimes {
+  sunrise: Date | null;
+  sunset: Date | null;
+  solarNoon: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+  astronomicalDawn: Date | null;
+  astronomicalDusk: Date | null;
+}
+
+export interface MoonPhaseDates {
+  newMoon: Date;
+  firstQuarter: Date;
+  fullMoon: Date;
+  lastQuarter: Date;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toDays = (date: Date): number => date.getTime() / MS_PER_DAY + 2440587.5 - J2000;
+
+const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/** Normalize to [-180, 180) */
+const normalizeSigned = (degrees: number): number => normalizeDegrees(degrees + 180) - 180;
+
+const sinD = (degrees: number): number => Math.sin(degrees * DEG);
+const cosD = (degrees: number): number => Math.cos(degrees * DEG);
+
+/**
+ * Convert ecliptic coordinates to equatorial right ascension/declination (degrees)
+ */
+const eclipticToEquatorial = (lambda: number, beta: number) => {
+  const l = lambda * DEG;
+  const b = beta * DEG;
+  const rightAscension = Math.atan2(
+    Math.sin(l) * Math.cos(OBLIQUITY) - Math.tan(b) * Math.sin(OBLIQUITY),
+    Math.cos(l)
+  );
+  const declination = Math.asin(
+    Math.sin(b) * Math.cos(OBLIQUITY) + Math.cos(b) * Math.sin(OBLIQUITY) * Math.sin(l)
+  );
+  return {
+    rightAscension: normalizeDegrees(rightAscension / DEG),
+    declination: declination / DEG,
+  };
+};
+
+/**
+ * Local hour angle (degrees, -180..180) of a body with the given right ascension
+ */
+const hourAngle = (d: number, lng: number, rightAscension: number): number => {
+  const siderealTime = 280.46061837 + 360.98564736629 * d + lng; // GMST + longitude
+  return normalizeSigned(siderealTime - rightAscension);
+};
+
+const horizontalCoordinates = (hourAngleDeg: number, declination: number, lat: number) => {
+  const H = hourAngleDeg * DEG;
+  const phi = lat * DEG;
+  const dec = declination * DEG;
+
+  const altitude = Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(H));
+  const azimuth = Math.atan2(Math.sin(H), Math.cos(H) * Math.sin(phi) - Math.tan(dec) * Math.cos(phi));
+
+  return {
+    altitude: altitude / DEG,
+    azimuth: normalizeDegrees(azimuth / DEG + 180),
+  };
+};
+
+// ============================================
+// SUN & MOON COORDINATES
+// ============================================
+
+/**
+ * Sun and Moon longitudes are both referred to the mean equinox of date
+ */
+const sunEcliptic = (d: number) => {
+  const L0 = 280.46646 + 0.98564736 * d; // Mean longitude
+  const M = 357.5291 + 0.98560028 * d; // Mean anomaly
+  const C = 1.9148 * sinD(M) + 0.02 * sinD(2 * M) + 0.0003 * sinD(3 * M);
+  const longitude = normalizeDegrees(L0 + C);
+  const distanceAU = 1.00014 - 0.01671 * cosD(M) - 0.00014 * cosD(2 * M);
+  return { longitude, latitude: 0, distance: distanceAU * AU_KM };
+};
+
+const moonEcliptic = (d: number) => {
+  const L = 218.316 + 13.176396 * d; // Mean longitude
+  const M = 134.963 + 13.064993 * d; // Mean anomaly
+  const F = 93.272 + 13.22935 * d; // Argument of latitude
+  const D = 297.85 + 12.190749 * d; // Mean elongation
+  const Ms = 357.529 + 0.98560028 * d; // Sun mean anomaly
+
+  // Principal periodic terms (Meeus table 47.A/B)
+  const longitude =
+    L +
+    6.289 * sinD(M) +
+    1.274 * sinD(2 * D - M) +
+    0.658 * sinD(2 * D) +
+    0.214 * sinD(2 * M) -
+    0.186 * sinD(Ms) -
+    0.114 * sinD(2 * F) +
+    0.059 * sinD(2 * D - 2 * M) +
+    0.057 * sinD(2 * D - Ms - M) +
+    0.053 * sinD(2 * D + M) +
+    0.046 * sinD(2 * D - Ms) -
+    0.041 * sinD(Ms - M) -
+    0.035 * sinD(D) -
+    0.03 * sinD(Ms + M) +
+    0.015 * sinD(2 * D - 2 * F) -
+    0.013 * sinD(M + 2 * F) +
+    0.011 * sinD(M - 2 * D);
+
+  const latitude =
+    5.128 * sinD(F) +
+    0.281 * sinD(M + F) +
+    0.278 * sinD(M - F) +
+    0.173 * sinD(2 * D - F) +
+    0.055 * sinD(2 * D - M + F) +
+    0.046 * sinD(2 * D - M - F) +
+    0.033 * sinD(2 * D + F);
+
+  const distance =
+    385001 - 20905 * cosD(M) - 3699 * cosD(2 * D - M) - 2956 * cosD(2 * D) - 570 * cosD(2 * M);
+
+  return { longitude: normalizeDegrees(longitude), latitude, distance };
+};
+
+/**
+ * Get the Sun's position for an observer
+ */
+export const getSunPosition = (date: Date, lat: number, lng: number): CelestialPosition => {
+  const d = toDays(date);
+  const { longitude, latitude, distance } = sunEcliptic(d);
+  const { rightAscension, declination } = eclipticToEquatorial(longitude, latitude);
+  const { altitude, azimuth } = horizontalCoordinates(hourAngle(d, lng, rightAscension), declination, lat);
+
+  return { azimuth, altitude, rightAscension, declination, distance };
+};
+
+/**
+ * Geocentric Moon position (no parallax) - used for event searches
+ */
+const moonGeocentric = (date: Date, lat: number, lng: number) => {
+  const d = toDays(date);
+  const { longitude, latitude, distance } = moonEcliptic(d);
+  const { rightAscension, declination } = eclipticToEquatorial(longitude, latitude);
+  const H = hourAngle(d, lng, rightAscension);
+  const { altitude, azimuth } = horizontalCoordinates(H, declination, lat);
+  const parallax = Math.asin(EARTH_RADIUS_KM / distance) / DEG;
+
+  return { altitude, azimuth, rightAscension, declination, distance, parallax, hourAngle: H };
+};
+
+/**
+ * Get the Moon's topocentric position for an observer
+ */
+export const getMoonPosition = (date: Date, lat: number, lng: number): CelestialPosition => {
+  const moon = moonGeocentric(date, lat, lng);
+
+  return {
+    azimuth: moon.azimuth,
+    altitude: moon.altitude - moon.parallax * cosD(moon.altitude),
+    rightAscension: moon.rightAscension,
+    declination: moon.declination,
+    distance: moon.distance,
+  };
+};
+
+// ============================================
+// MOON PHASE
+// ============================================
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  'New Moon',
+  'Waxing Crescent',
+  'First Quarter',
+  'Waxing Gibbous',
+  'Full Moon',
+  'Waning Gibbous',
+  'Last Quarter',
+  'Waning Crescent',
+];
+
+/**
+ * Moon longitude minus Sun longitude (degrees, 0..360)
+ */
+const moonElongation = (date: Date): number => {
+  const d = toDays(date);
+  return normalizeDegrees(moonEcliptic(d).longitude - sunEcliptic(d).longitude);
+};
+
+/**
+ * Get the Moon's illuminated fraction and phase
+ */
+export const getMoonIllumination = (date: Date): MoonIllumination => {
+  const d = toDays(date);
+  const sun = sunEcliptic(d);
+  const moon = moonEcliptic(d);
+  const s = eclipticToEquatorial(sun.longitude, sun.latitude);
+  const m = eclipticToEquatorial(moon.longitude, moon.latitude);
+
+  // Geocentric elongation and phase angle
+  const psi = Math.acos(
+    sinD(s.declination) * sinD(m.declination) +
+      cosD(s.declination) * cosD(m.declination) * cosD(s.rightAscension - m.rightAscension)
+  );
+  const phaseAngle = Math.atan2(sun.distance * Math.sin(psi), moon.distance - sun.distance * Math.cos(psi));
+
+  const phase = normalizeDegrees(moon.longitude - sun.longitude) / 360;
+
+  return {
+    fraction: (1 + Math.cos(phaseAngle)) / 2,
+    phase,
+    phaseName: PHASE_NAMES[Math.round(phase * 8) % 8],
+    waxing: phase < 0.5,
+  };
+};
+
+/**
+ * Find the next instant after `start` when the Moon-Sun elongation reaches `target` degrees
+ */
+const findNextElongation = (start: Date, target: number): Date => {
+  const offset = (date: Date) => normalizeSigned(moonElongation(date) - target);
+
+  let lo = start.getTime();
+  let prev = offset(start);
+
+  // Elongation advances ~12°/day, so daily steps never skip a crossing
+  for (let day = 1; day <= 31; day++) {
+    const hi = start.getTime() + day * MS_PER_DAY;
+    const current = offset(new Date(hi));
+
+    if (prev < 0 && current >= 0) {
+      let a = lo;
+      let b = hi;
+      for (let i = 0; i < 24; i++) {
+        const mid = (a + b) / 2;
+        if (offset(new Date(mid)) < 0) a = mid;
+        else b = mid;
+      }
+      return new Date((a + b) / 2);
+    }
+
+    lo = hi;
+    prev = current;
+  }
+
+  // Unreachable for a synodic month of 29.5 days
+  return new Date(start.getTime() + 29.53 * MS_PER_DAY);
+};
+
+/**
+ * Get the dates of the next new, first quarter, full and last quarter Moon
+ */
+export const getNextMoonPhases = (date: Date): MoonPhaseDates => ({
+  newMoon: findNextElongation(date, 0),
+  firstQuarter: findNextElongation(date, 90),
+  fullMoon: findNextElongation(date, 180),
+  lastQuarter: findNextElongation(date, 270),
+});
+
+// ============================================
+// RISE / SET / TRANSIT
+// ============================================
+
+const SEARCH_STEP_MS = 20 * 60 * 1000;
+
+/**
+ * Find the first rising and setting crossing of f(t) = 0 within a window
+ */
+const findCrossings = (
+  f: (time: number) => number,
+  start: number,
+  end: number
+): { rising: Date | null; setting: Date | null; anyAbove: boolean } => {
+  let rising: Date | null = null;
+  let setting: Date | null = null;
+  let prevT = start;
+  let prev = f(start);
+  let anyAbove = prev > 0;
+
+  for (let t = start + SEARCH_STEP_MS; t <= end && (!rising || !setting); t += SEARCH_STEP_MS) {
+    const current = f(t);
+    if (current > 0) anyAbove = true;
+
+    if (Math.sign(prev) !== Math.sign(current)) {
+      let a = prevT;
+      let b = t;
+      for (let i = 0; i < 12; i++) {
+        const mid = (a + b) / 2;
+        if (Math.sign(f(mid)) === Math.sign(prev)) a = mid;
+        else b = mid;
+      }
+      const crossing = new Date((a + b) / 2);
+
+      if (prev < 0 && !rising) rising = crossing;
+      if (prev > 0 && !setting) setting = crossing;
+    }
+
+    prevT = t;
+    prev = current;
+  }
+
+  return { rising, setting, anyAbove };
+};
+
+/**
+ * Find upper transit (hour angle crossing 0) within a window
+ */
+const findTransit = (hourAngleAt: (time: number) => number, start: number, end: number): Date | null => {
+  let prevT = start;
+  let prev = hourAngleAt(start);
+
+  for (let t = start + SEARCH_STEP_MS; t <= end; t += SEARCH_STEP_MS) {
+    const current = hourAngleAt(t);
+
+    // Ignore the ±180° wrap at lower transit
+    if (prev < 0 && current >= 0 && current - prev < 180) {
+      let a = prevT;
+      let b = t;
+      for (let i = 0; i < 12; i++) {
+        const mid = (a + b) / 2;
+        if (hourAngleAt(mid) < 0) a = mid;
+        else b = mid;
+      }
+      return new Date((a + b) / 2);
+    }
+
+    prevT = t;
+    prev = current;
+  }
+
+  return null;
+};
+
+/**
+ * Get Moon rise, set and transit within the 24 hours following `start`
+ *
+ * Pass the start of the local day to get that day's events.
+ */
+export const getMoonTimes = (start: Date, lat: number, lng: number): RiseSetTimes => {
+  const from = start.getTime();
+  const to = from + MS_PER_DAY;
+
+  // Geocentric altitude of the Moon's upper limb on the horizon (Meeus 15.1)
+  const altitudeAboveHorizon = (time: number) => {
+    const moon = moonGeocentric(new Date(time), lat, lng);
+    return moon.altitude - (0.7275 * moon.parallax - 0.5667);
+  };
+
+  const { rising, setting, anyAbove } = findCrossings(altitudeAboveHorizon, from, to);
+  const transit = findTransit((time) => moonGeocentric(new Date(time), lat, lng).hourAngle, from, to);
+
+  return {
+    rise: rising,
+    set: setting,
+    transit,
+    alwaysUp: !rising && !setting && anyAbove,
+    alwaysDown: !rising && !setting && !anyAbove,
+  };
+};
+
+/**
+ * Get sunrise, sunset, solar noon and twilight times within the 24 hours following `start`
+ *
+ * Events that do not occur (e.g. polar day or summer nights without astronomical
+ * darkness) are returned as null.
+ */
+export const getSunTimes = (start: Date, lat: number, lng: number): SunTimes => {
+  const from = start.getTime();
+  const to = from + MS_PER_DAY;
+  const crossingsAt = (threshold: number) =>
+    findCrossings((time) => getSunPosition(new Date(time), lat, lng).altitude - threshold, from, to);
+
+  const horizon = crossingsAt(SUN_RISE_ALTITUDE);
+  const civil = crossingsAt(TWILIGHT_ALTITUDES.civil);
+  const nautical = crossingsAt(TWILIGHT_ALTITUDES.nautical);
+  const astronomical = crossingsAt(TWILIGHT_ALTITUDES.astronomical);
+
+  const solarNoon = findTransit((time) => {
+    const d = toDays(new Date(time));
+    const sun = sunEcliptic(d);
+    return hourAngle(d, lng, eclipticToEquatorial(sun.longitude, sun.latitude).rightAscension);
+  }, from, to);
+
+  return {
+    sunrise: horizon.rising,
+    sunset: horizon.setting,
+    solarNoon,
+    civilDawn: civil.rising,
+    civilDusk: civil.setting,
+    nauticalDawn: nautical.rising,
+    nauticalDusk: nautical.setting,
+    astronomicalDawn: astronomical.rising,
+    astronomicalDusk: astronomical.setting,
+  };
+};
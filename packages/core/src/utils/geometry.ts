@@ -0,0 +1,293 @@
+/**
+ * Geometry Utilities
+ *
+ * Planar geometry on lat/lon coordinates for navigation checks:
+ * - Point-in-polygon and segment intersection tests
+ * - Land masks built from land/coastline GeoJSON polygons
+ *
+ * Coordinates follow GeoJSON ordering ([lon, lat]) inside rings. Distances are
+ * small enough for route legs that a plate carrée treatment is adequate for
+ * intersection tests.
+ */
+
+import type { GeoJSONCollection } from '../services/geojsonService';
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+/** GeoJSON ring: array of [lon, lat] positions */
+export type Ring = number[][];
+
+/**
+ * Orientation of the triplet (a, b, c): >0 counter-clockwise, <0 clockwise, 0 collinear
+ */
+const orientation = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number): number =>
+  (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+
+/**
+ * Check whether segments p1-p2 and q1-q2 intersect (x = lon, y = lat)
+ */
+export const segmentsIntersect = (p1: LatLon, p2: LatLon, q1: LatLon, q2: LatLon): boolean => {
+  const d1 = orientation(q1.lon, q1.lat, q2.lon, q2.lat, p1.lon, p1.lat);
+  const d2 = orientation(q1.lon, q1.lat, q2.lon, q2.lat, p2.lon, p2.lat);
+  const d3 = orientation(p1.lon, p1.lat, p2.lon, p2.lat, q1.lon, q1.lat);
+  const d4 = orientation(p1.lon, p1.lat, p2.lon, p2.lat, q2.lon, q2.lat);
+
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+/**
+ * Intersection point of segments p1-p2 and q1-q2, with the fraction along p1-p2
+ */
+export const segmentIntersection = (
+  p1: LatLon,
+  p2: LatLon,
+  q1: LatLon,
+  q2: LatLon
+): { point: LatLon; t: number } | null => {
+  const rx = p2.lon - p1.lon;
+  const ry = p2.lat - p1.lat;
+  const sx = q2.lon - q1.lon;
+  const sy = q2.lat - q1.lat;
+  const denominator = rx * sy - ry * sx;
+
+  if (denominator === 0) return null;
+
+  const t = ((q1.lon - p1.lon) * sy - (q1.lat - p1.lat) * sx) / denominator;
+  const u = ((q1.lon - p1.lon) * ry - (q1.lat - p1.lat) * rx) / denominator;
+
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+
+  return { point: { lat: p1.lat + t * ry, lon: p1.lon + t * rx }, t };
+};
+
+/**
+ * Ray-casting point-in-ring test (even-odd rule)
+ */
+export const pointInRing = (point: LatLon, ring: Ring): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if (yi > point.lat !== yj > point.lat) {
+      const crossingLon = ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi;
+      if (point.lon < crossingLon) inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+/**
+ * Point-in-polygon test for a GeoJSON polygon (outer ring plus holes)
+ */
+export const pointInPolygon = (point: LatLon, rings: Ring[]): boolean => {
+  if (rings.length === 0 || !pointInRing(point, rings[0])) return false;
+  return !rings.slice(1).some((hole) => pointInRing(point, hole));
+};
+
+/**
+ * Check whether a segment crosses or touches the interior of a polygon
+ */
+export const segmentIntersectsPolygon = (a: LatLon, b: LatLon, rings: Ring[]): boolean => {
+  if (pointInPolygon(a, rings) || pointInPolygon(b, rings)) return true;
+
+  return rings.some((ring) => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const q1 = { lon: ring[i][0], lat: ring[i][1] };
+      const q2 = { lon: ring[i + 1][0], lat: ring[i + 1][1] };
+      if (segmentsIntersect(a, b, q1, q2)) return true;
+    }
+    return false;
+  });
+};
+
+/**
+ * Stretches of segment a-b inside a polygon, as fractions along the segment.
+ * A stretch starting at 0 or ending at 1 means that end lies inside.
+ */
+export const clipSegmentToPolygon = (a: LatLon, b: LatLon, rings: Ring[]): Array<{ from: number; to: number }> => {
+  const cuts = [0, 1];
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const q1 = { lon: ring[i][0], lat: ring[i][1] };
+      const q2 = { lon: ring[i + 1][0], lat: ring[i + 1][1] };
+      const hit = segmentIntersection(a, b, q1, q2);
+      if (hit) cuts.push(hit.t);
+    }
+  }
+  cuts.sort((x, y) => x - y);
+
+  // Each piece between crossings is wholly inside or outside; test its middle
+  const stretches: Array<{ from: number; to: number }> = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const from = cuts[i];
+    const to = cuts[i + 1];
+    if (to - from < 1e-9) continue;
+
+    const t = (from + to) / 2;
+    const middle = { lat: a.lat + (b.lat - a.lat) * t, lon: a.lon + (b.lon - a.lon) * t };
+    if (!pointInPolygon(middle, rings)) continue;
+
+    const last = stretches[stretches.length - 1];
+    if (last && from - last.to < 1e-9) {
+      last.to = to;
+    } else {
+      stretches.push({ from, to });
+    }
+  }
+
+  return stretches;
+};
+
+/**
+ * Extract polygons (as ring arrays) from a GeoJSON collection
+ */
+export const extractPolygons = (collection: GeoJSONCollection): Ring[][] => {
+  const polygons: Ring[][] = [];
+
+  for (const feature of collection.features) {
+    if (feature.geometry.type === 'Polygon') {
+      polygons.push(feature.geometry.coordinates as Ring[]);
+    } else if (feature.geometry.type === 'MultiPolygon') {
+      for (const polygon of feature.geometry.coordinates as Ring[][]) {
+        polygons.push(polygon);
+      }
+    }
+  }
+
+  return polygons;
+};
+
+// ============================================
+// LAND MASK
+// ============================================
+
+export interface LandMask {
+  /** True if the point lies on land */
+  isLand: (lat: number, lon: number) => boolean;
+  /** True if the straight segment between two points touches land */
+  segmentCrossesLand: (a: LatLon, b: LatLon) => boolean;
+  /** Number of polygons in the mask */
+  polygonCount: number;
+}
+
+interface IndexedEdge {
+  polygon: number;
+  ax: number;
+  ay: number;
+  bx: number;
+  by: number;
+}
+
+/** Size of the spatial index cells (degrees) */
+const CELL_SIZE_DEG = 1;
+
+const cellKey = (col: number, row: number): string => `${col}:${row}`;
+
+/**
+ * Build a land mask from one or more land polygon collections
+ *
+ * Edges are bucketed into a 1° grid so point and segment queries only test
+ * nearby edges, which keeps checks fast against continent-sized polygons.
+ */
+export const createLandMask = (...collections: GeoJSONCollection[]): LandMask => {
+  const cells = new Map<string, IndexedEdge[]>();
+  let polygonCount = 0;
+
+  const addEdge = (edge: IndexedEdge) => {
+    const minCol = Math.floor(Math.min(edge.ax, edge.bx) / CELL_SIZE_DEG);
+    const maxCol = Math.floor(Math.max(edge.ax, edge.bx) / CELL_SIZE_DEG);
+    const minRow = Math.floor(Math.min(edge.ay, edge.by) / CELL_SIZE_DEG);
+    const maxRow = Math.floor(Math.max(edge.ay, edge.by) / CELL_SIZE_DEG);
+
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const key = cellKey(col, row);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(edge);
+        else cells.set(key, [edge]);
+      }
+    }
+  };
+
+  for (const collection of collections) {
+    for (const rings of extractPolygons(collection)) {
+      const polygon = polygonCount++;
+      for (const ring of rings) {
+        for (let i = 0; i < ring.length - 1; i++) {
+          addEdge({ polygon, ax: ring[i][0], ay: ring[i][1], bx: ring[i + 1][0], by: ring[i + 1][1] });
+        }
+      }
+    }
+  }
+
+  // Longitude extent of indexed edges bounds the eastward ray
+  let maxCol = -Infinity;
+  cells.forEach((_, key) => {
+    maxCol = Math.max(maxCol, Number(key.split(':')[0]));
+  });
+
+  const isLand = (lat: number, lon: number): boolean => {
+    const row = Math.floor(lat / CELL_SIZE_DEG);
+    const seen = new Set<IndexedEdge>();
+    const parity = new Map<number, boolean>();
+
+    // Cast a ray east along the latitude; every crossing lies in this row of cells
+    for (let col = Math.floor(lon / CELL_SIZE_DEG); col <= maxCol; col++) {
+      const bucket = cells.get(cellKey(col, row));
+      if (!bucket) continue;
+
+      for (const edge of bucket) {
+        if (seen.has(edge)) continue;
+        seen.add(edge);
+
+        if (edge.ay > lat !== edge.by > lat) {
+          const crossingLon = ((edge.bx - edge.ax) * (lat - edge.ay)) / (edge.by - edge.ay) + edge.ax;
+          if (lon < crossingLon) {
+            parity.set(edge.polygon, !parity.get(edge.polygon));
+          }
+        }
+      }
+    }
+
+    for (const inside of parity.values()) {
+      if (inside) return true;
+    }
+    return false;
+  };
+
+  const segmentCrossesLand = (a: LatLon, b: LatLon): boolean => {
+    if (isLand(a.lat, a.lon) || isLand(b.lat, b.lon)) return true;
+
+    const minCol = Math.floor(Math.min(a.lon, b.lon) / CELL_SIZE_DEG);
+    const maxSegCol = Math.floor(Math.max(a.lon, b.lon) / CELL_SIZE_DEG);
+    const minRow = Math.floor(Math.min(a.lat, b.lat) / CELL_SIZE_DEG);
+    const maxRow = Math.floor(Math.max(a.lat, b.lat) / CELL_SIZE_DEG);
+    const seen = new Set<IndexedEdge>();
+
+    for (let col = minCol; col <= maxSegCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const bucket = cells.get(cellKey(col, row));
+        if (!bucket) continue;
+
+        for (const edge of bucket) {
+          if (seen.has(edge)) continue;
+          seen.add(edge);
+
+          if (segmentsIntersect(a, b, { lon: edge.ax, lat: edge.ay }, { lon: edge.bx, lat: edge.by })) {
+            return true;
+          }
+        }
+      }
+    }
+
+    return false;
+  };
+
+  return { isLand, segmentCrossesLand, polygonCount };
+};
@@ -0,0 +1,587 @@
+/**
+ * GRIB2 Decoder
+ *
+ * Reads the WMO GRIB edition 2 files weather routers download over satellite:
+ * - Grids: regular latitude/longitude (template 3.0)
+ * - Products: analysis/forecast at a point in time or over an interval (templates 4.0, 4.1, 4.8, 4.11)
+ * - Packing: simple (5.0), complex (5.2) and complex with spatial differencing (5.3)
+ * - Bitmaps (section 6), including "previously defined" bitmaps
+ *
+ * Decoded values are returned in the units of the WMO parameter tables
+ * (m/s, Pa, K, meters, seconds, degrees), ordered north to south then
+ * west to east - the layout leaflet-velocity and the marine grid use.
+ * Missing points are NaN.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Regular lat/lon grid, normalised to north-to-south, west-to-east order */
+export interface Grib2Grid {
+  /** Points along a parallel (columns) */
+  nx: number;
+  /** Points along a meridian (rows) */
+  ny: number;
+  /** Northernmost latitude */
+  la1: number;
+  /** Westernmost longitude (-180..180) */
+  lo1: number;
+  /** Southernmost latitude */
+  la2: number;
+  /** Easternmost longitude (may exceed 180 when the grid crosses the antimeridian) */
+  lo2: number;
+  /** Longitude increment, degrees */
+  dx: number;
+  /** Latitude increment, degrees */
+  dy: number;
+}
+
+export interface Grib2Message {
+  /** Table 0.0: 0 = meteorological, 10 = oceanographic */
+  discipline: number;
+  category: number;
+  parameterNumber: number;
+  /** Short name from the WMO tables, e.g. "UGRD"; undefined when not recognised */
+  parameter?: string;
+  unit?: string;
+  referenceTime: Date;
+  /** Valid time (reference time + forecast offset) */
+  validTime: Date;
+  forecastHours: number;
+  /** First fixed surface (table 4.5), e.g. type 103 value 10 = 10 m above ground */
+  surface: { type: number; value: number };
+  grid: Grib2Grid;
+  /** nx * ny values, row by row from the north-west corner; NaN where missing */
+  values: number[];
+}
+
+// ============================================
+// PARAMETER TABLES
+// ============================================
+
+/** WMO code table 4.2 entries relevant to marine forecasts, keyed by discipline:category:number */
+const PARAMETERS: Record<string, { name: string; unit: string }> = {
+  '0:0:0': { name: 'TMP', unit: 'K' },
+  '0:2:0': { name: 'WDIR', unit: 'deg' },
+  '0:2:1': { name: 'WIND', unit: 'm/s' },
+  '0:2:2': { name: 'UGRD', unit: 'm/s' },
+  '0:2:3': { name: 'VGRD', unit: 'm/s' },
+  '0:2:22': { name: 'GUST', unit: 'm/s' },
+  '0:3:0': { name: 'PRES', unit: 'Pa' },
+  '0:3:1': { name: 'PRMSL', unit: 'Pa' },
+  '10:0:3': { name: 'HTSGW', unit: 'm' },
+  '10:0:4': { name: 'WVDIR', unit: 'deg' },
+  '10:0:5': { name: 'WVHGT', unit: 'm' },
+  '10:0:6': { name: 'WVPER', unit: 's' },
+  '10:0:7': { name: 'SWDIR', unit: 'deg' },
+  '10:0:8': { name: 'SWELL', unit: 'm' },
+  '10:0:9': { name: 'SWPER', unit: 's' },
+  '10:0:10': { name: 'DIRPW', unit: 'deg' },
+  '10:0:11': { name: 'PERPW', unit: 's' },
+  '10:1:0': { name: 'DIRC', unit: 'deg' },
+  '10:1:1': { name: 'SPC', unit: 'm/s' },
+  '10:1:2': { name: 'UOGRD', unit: 'm/s' },
+  '10:1:3': { name: 'VOGRD', unit: 'm/s' },
+  '10:3:0': { name: 'WTMP', unit: 'K' },
+};
+
+/** Code table 4.4: indicator of unit of time range, in hours */
+const TIME_UNIT_HOURS: Record<number, number> = {
+  0: 1 / 60,
+  1: 1,
+  2: 24,
+  10: 3,
+  11: 6,
+  12: 12,
+  13: 1 / 3600,
+};
+
+/** Product templates whose first 34 octets follow template 4.0 */
+const SUPPORTED_PRODUCT_TEMPLATES = [0, 1, 8, 11];
+
+// ============================================
+// BINARY HELPERS
+// ============================================
+
+const MISSING_UINT32 = 0xffffffff;
+
+/** GRIB2 signed integers are sign-and-magnitude, not two's complement */
+const readSigned = (bytes: Uint8Array, offset: number, length: number): number => {
+  let value = bytes[offset] & 0x7f;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return bytes[offset] & 0x80 ? -value : value;
+};
+
+const readUnsigned = (bytes: Uint8Array, offset: number, length: number): number => {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+};
+
+const createBitReader = (bytes: Uint8Array, startOffset: number) => {
+  let position = startOffset * 8;
+
+  return {
+    read(bits: number): number {
+      let value = 0;
+      for (let i = 0; i < bits; i++) {
+        const bit = (bytes[position >> 3] >> (7 - (position & 7))) & 1;
+        value = value * 2 + bit;
+        position++;
+      }
+      return value;
+    },
+    /** Skip to the next octet boundary */
+    align(): void {
+      position = Math.ceil(position / 8) * 8;
+    },
+    get offset(): number {
+      return position / 8;
+    },
+  };
+};
+
+// ============================================
+// SECTION DECODERS
+// ============================================
+
+interface RawGrid {
+  ni: number;
+  nj: number;
+  la1: number;
+  lo1: number;
+  la2: number;
+  lo2: number;
+  di?: number;
+  dj?: number;
+  scanMode: number;
+}
+
+interface Product {
+  category: number;
+  parameterNumber: number;
+  forecastHours: number;
+  surface: { type: number; value: number };
+}
+
+interface Packing {
+  template: number;
+  count: number;
+  reference: number;
+  binaryScale: number;
+  decimalScale: number;
+  bits: number;
+  /** Template 5.2/5.3 octets 22 onwards */
+  complex?: {
+    missingManagement: number;
+    groups: number;
+    groupWidthReference: number;
+    groupWidthBits: number;
+    groupLengthReference: number;
+    groupLengthIncrement: number;
+    lastGroupLength: number;
+    groupLengthBits: number;
+    spatialOrder: number;
+    extraOctets: number;
+  };
+}
+
+const decodeGridSection = (bytes: Uint8Array, start: number): RawGrid => {
+  const template = readUnsigned(bytes, start + 12, 2);
+  if (template !== 0) {
+    throw new Error(`Unsupported GRIB2 grid template 3.${template} (only regular lat/lon grids are supported)`);
+  }
+
+  // Template 3.0 - angles are in micro-degrees unless a basic angle is given
+  const basicAngle = readUnsigned(bytes, start + 38, 4);
+  const subdivisions = readUnsigned(bytes, start + 42, 4);
+  const unit = basicAngle === 0 || basicAngle === MISSING_UINT32 || subdivisions === MISSING_UINT32
+    ? 1e-6
+    : basicAngle / subdivisions;
+
+  const di = readUnsigned(bytes, start + 63, 4);
+  const dj = readUnsigned(bytes, start + 67, 4);
+
+  return {
+    ni: readUnsigned(bytes, start + 30, 4),
+    nj: readUnsigned(bytes, start + 34, 4),
+    la1: readSigned(bytes, start + 46, 4) * unit,
+    lo1: readSigned(bytes, start + 50, 4) * unit,
+    la2: readSigned(bytes, start + 55, 4) * unit,
+    lo2: readSigned(bytes, start + 59, 4) * unit,
+    di: di === MISSING_UINT32 ? undefined : di * unit,
+    dj: dj === MISSING_UINT32 ? undefined : dj * unit,
+    scanMode: bytes[start + 71],
+  };
+};
+
+const decodeProductSection = (bytes: Uint8Array, start: number): Product => {
+  const template = readUnsigned(bytes, start + 7, 2);
+  if (!SUPPORTED_PRODUCT_TEMPLATES.includes(template)) {
+    throw new Error(`Unsupported GRIB2 product template 4.${template}`);
+  }
+
+  const timeUnit = bytes[start + 17];
+  const unitHours = TIME_UNIT_HOURS[timeUnit];
+  if (unitHours === undefined) {
+    throw new Error(`Unsupported GRIB2 time unit ${timeUnit}`);
+  }
+
+  const surfaceScale = readSigned(bytes, start + 23, 1);
+  const surfaceValue = readSigned(bytes, start + 24, 4);
+
+  return {
+    category: bytes[start + 9],
+    parameterNumber: bytes[start + 10],
+    forecastHours: readSigned(bytes, start + 18, 4) * unitHours,
+    surface: {
+      type: bytes[start + 22],
+      value: surfaceValue / Math.pow(10, surfaceScale),
+    },
+  };
+};
+
+const decodePackingSection = (bytes: Uint8Array, start: number): Packing => {
+  const template = readUnsigned(bytes, start + 9, 2);
+  if (template !== 0 && template !== 2 && template !== 3) {
+    throw new Error(`Unsupported GRIB2 data representation template 5.${template}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start + 11, 4);
+  const packing: Packing = {
+    template,
+    count: readUnsigned(bytes, start + 5, 4),
+    reference: view.getFloat32(0, false),
+    binaryScale: readSigned(bytes, start + 15, 2),
+    decimalScale: readSigned(bytes, start + 17, 2),
+    bits: bytes[start + 19],
+  };
+
+  if (template === 2 || template === 3) {
+    packing.complex = {
+      missingManagement: bytes[start + 22],
+      groups: readUnsigned(bytes, start + 31, 4),
+      groupWidthReference: bytes[start + 35],
+      groupWidthBits: bytes[start + 36],
+      groupLengthReference: readUnsigned(bytes, start + 37, 4),
+      groupLengthIncrement: bytes[start + 41],
+      lastGroupLength: readUnsigned(bytes, start + 42, 4),
+      groupLengthBits: bytes[start + 46],
+      spatialOrder: template === 3 ? bytes[start + 47] : 0,
+      extraOctets: template === 3 ? bytes[start + 48] : 0,
+    };
+  }
+
+  return packing;
+};
+
+// ============================================
+// UNPACKING
+// ============================================
+
+/** Y = (R + X * 2^E) / 10^D */
+const scaler = (packing: Packing) => {
+  const binary = Math.pow(2, packing.binaryScale);
+  const decimal = Math.pow(10, packing.decimalScale);
+  return (x: number) => (packing.reference + x * binary) / decimal;
+};
+
+/** Template 5.0 - every value packed with the same bit width */
+const unpackSimple = (bytes: Uint8Array, dataStart: number, packing: Packing): number[] => {
+  const scale = scaler(packing);
+  const values: number[] = new Array(packing.count);
+
+  if (packing.bits === 0) {
+    return values.fill(scale(0));
+  }
+
+  const reader = createBitReader(bytes, dataStart);
+  for (let i = 0; i < packing.count; i++) {
+    values[i] = scale(reader.read(packing.bits));
+  }
+  return values;
+};
+
+/**
+ * Templates 5.2 / 5.3 - values split into groups, each with its own reference
+ * and bit width, optionally storing 1st or 2nd order spatial differences
+ */
+const unpackComplex = (bytes: Uint8Array, dataStart: number, packing: Packing): number[] => {
+  const complex = packing.complex!;
+  const reader = createBitReader(bytes, dataStart);
+
+  // Spatial differencing: first value(s) and the minimum of the differences
+  const firstValues: number[] = [];
+  let minimum = 0;
+  if (complex.spatialOrder > 0) {
+    for (let i = 0; i < complex.spatialOrder; i++) {
+      firstValues.push(readSigned(bytes, reader.offset, complex.extraOctets));
+      reader.read(complex.extraOctets * 8);
+    }
+    minimum = readSigned(bytes, reader.offset, complex.extraOctets);
+    reader.read(complex.extraOctets * 8);
+  }
+
+  const groupCount = complex.groups;
+  const references: number[] = [];
+  for (let g = 0; g < groupCount; g++) references.push(reader.read(packing.bits));
+  reader.align();
+
+  const widths: number[] = [];
+  for (let g = 0; g < groupCount; g++) widths.push(complex.groupWidthReference + reader.read(complex.groupWidthBits));
+  reader.align();
+
+  const lengths: number[] = [];
+  for (let g = 0; g < groupCount; g++) {
+    lengths.push(complex.groupLengthReference + reader.read(complex.groupLengthBits) * complex.groupLengthIncrement);
+  }
+  reader.align();
+  if (groupCount > 0) lengths[groupCount - 1] = complex.lastGroupLength;
+
+  // Raw integers; null marks a missing point (missing value management 1 or 2)
+  const raw: Array<number | null> = [];
+  for (let g = 0; g < groupCount; g++) {
+    const width = widths[g];
+    const referenceMissing = complex.missingManagement > 0 && (
+      references[g] === Math.pow(2, packing.bits) - 1 ||
+      (complex.missingManagement === 2 && references[g] === Math.pow(2, packing.bits) - 2)
+    );
+
+    for (let i = 0; i < lengths[g]; i++) {
+      if (width === 0) {
+        raw.push(referenceMissing ? null : references[g]);
+        continue;
+      }
+      const value = reader.read(width);
+      const missing = complex.missingManagement > 0 && (
+        value === Math.pow(2, width) - 1 ||
+        (complex.missingManagement === 2 && value === Math.pow(2, width) - 2)
+      );
+      raw.push(missing ? null : references[g] + value);
+    }
+  }
+
+  if (complex.spatialOrder > 0) {
+    // Differences run over the non-missing values only
+    const present = raw.flatMap((value, index) => (value === null ? [] : [index]));
+    const order = complex.spatialOrder;
+    const restored: number[] = [];
+
+    present.forEach((index, n) => {
+      if (n < order) {
+        restored.push(firstValues[n]);
+      } else if (order === 1) {
+        restored.push(raw[index]! + minimum + restored[n - 1]);
+      } else {
+        restored.push(raw[index]! + minimum + 2 * restored[n - 1] - restored[n - 2]);
+      }
+    });
+    present.forEach((index, n) => {
+      raw[index] = restored[n];
+    });
+  }
+
+  const scale = scaler(packing);
+  return raw.map((value) => (value === null ? NaN : scale(value)));
+};
+
+// ============================================
+// GRID NORMALISATION
+// ============================================
+
+const normaliseLongitude = (lon: number): number => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Reorder values from the file's scanning mode (table 3.4) to north-to-south,
+ * west-to-east rows, and describe the grid in that order
+ */
+const normaliseGrid = (raw: RawGrid, values: number[]): { grid: Grib2Grid; values: number[] } => {
+  const { ni, nj, scanMode } = raw;
+  if (scanMode & 0x10) {
+    throw new Error('Unsupported GRIB2 scanning mode (alternating row direction)');
+  }
+
+  const westward = (scanMode & 0x80) !== 0;
+  const northward = (scanMode & 0x40) !== 0;
+  const columnMajor = (scanMode & 0x20) !== 0;
+
+  const ordered: number[] = new Array(ni * nj);
+  for (let k = 0; k < values.length; k++) {
+    const i = columnMajor ? Math.floor(k / nj) : k % ni;
+    const j = columnMajor ? k % nj : Math.floor(k / ni);
+    const column = westward ? ni - 1 - i : i;
+    const row = northward ? nj - 1 - j : j;
+    ordered[row * ni + column] = values[k];
+  }
+
+  const lonSpan = ((((westward ? raw.lo1 - raw.lo2 : raw.lo2 - raw.lo1) % 360) + 360) % 360);
+  const dx = raw.di ?? (ni > 1 ? lonSpan / (ni - 1) : 0);
+  const dy = raw.dj ?? (nj > 1 ? Math.abs(raw.la1 - raw.la2) / (nj - 1) : 0);
+  const west = normaliseLongitude(westward ? raw.lo2 : raw.lo1);
+
+  return {
+    grid: {
+      nx: ni,
+      ny: nj,
+      la1: Math.max(raw.la1, raw.la2),
+      lo1: west,
+      la2: Math.min(raw.la1, raw.la2),
+      lo2: west + dx * (ni - 1),
+      dx,
+      dy,
+    },
+    values: ordered,
+  };
+};
+
+// ============================================
+// MAIN DECODER
+// ============================================
+
+const GRIB_MAGIC = [0x47, 0x52, 0x49, 0x42]; // "GRIB"
+
+const findMessageStart = (bytes: Uint8Array, from: number): number => {
+  for (let i = from; i <= bytes.length - 16; i++) {
+    if (GRIB_MAGIC.every((byte, k) => bytes[i + k] === byte)) return i;
+  }
+  return -1;
+};
+
+/**
+ * Decode every field of a GRIB2 file
+ *
+ * A file may hold many messages, and a message may repeat sections 3-7 to
+ * carry several fields; each field becomes one Grib2Message.
+ *
+ * @param data - Raw file contents
+ * @returns Decoded fields in file order
+ */
+export function decodeGrib2(data: ArrayBuffer | Uint8Array): Grib2Message[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const messages: Grib2Message[] = [];
+
+  let start = findMessageStart(bytes, 0);
+  if (start < 0) {
+    throw new Error('Not a GRIB file');
+  }
+
+  while (start >= 0) {
+    const edition = bytes[start + 7];
+    if (edition !== 2) {
+      throw new Error(`Unsupported GRIB edition ${edition} (only GRIB2 is supported)`);
+    }
+
+    const discipline = bytes[start + 6];
+    const length = readUnsigned(bytes, start + 8, 8);
+    const end = start + length;
+    if (end > bytes.length) {
+      throw new Error('Truncated GRIB2 message');
+    }
+
+    let referenceTime: Date | null = null;
+    let grid: RawGrid | null = null;
+    let product: Product | null = null;
+    let packing: Packing | null = null;
+    // Offset of the last bitmap defined in this message, and whether it applies to the current field
+    let definedBitmap: number | null = null;
+    let bitmapStart: number | null = null;
+
+    let offset = start + 16;
+    while (offset < end - 4) {
+      const sectionLength = readUnsigned(bytes, offset, 4);
+      const section = bytes[offset + 4];
+
+      switch (section) {
+        case 1:
+          referenceTime = new Date(Date.UTC(
+            readUnsigned(bytes, offset + 12, 2),
+            bytes[offset + 14] - 1,
+            bytes[offset + 15],
+            bytes[offset + 16],
+            bytes[offset + 17],
+            bytes[offset + 18]
+          ));
+          break;
+        case 3:
+          grid = decodeGridSection(bytes, offset);
+          break;
+        case 4:
+          product = decodeProductSection(bytes, offset);
+          break;
+        case 5:
+          packing = decodePackingSection(bytes, offset);
+          break;
+        case 6: {
+          const indicator = bytes[offset + 5];
+          if (indicator === 0) {
+            definedBitmap = offset + 6;
+            bitmapStart = definedBitmap;
+          } else if (indicator === 255) {
+            bitmapStart = null;
+          } else if (indicator === 254 && definedBitmap !== null) {
+            bitmapStart = definedBitmap;
+          } else {
+            throw new Error(`Unsupported GRIB2 predefined bitmap ${indicator}`);
+          }
+          break;
+        }
+        case 7: {
+          if (!referenceTime || !grid || !product || !packing) {
+            throw new Error('GRIB2 data section without grid, product or packing definition');
+          }
+
+          const packed = packing.template === 0
+            ? unpackSimple(bytes, offset + 5, packing)
+            : unpackComplex(bytes, offset + 5, packing);
+
+          // Expand to every grid point, filling points the bitmap marks absent
+          const total = grid.ni * grid.nj;
+          let values = packed;
+          if (bitmapStart !== null) {
+            values = new Array(total);
+            let next = 0;
+            for (let p = 0; p < total; p++) {
+              const present = (bytes[bitmapStart + (p >> 3)] >> (7 - (p & 7))) & 1;
+              values[p] = present ? packed[next++] : NaN;
+            }
+          }
+          if (values.length !== total) {
+            throw new Error(`GRIB2 field has ${values.length} values for ${total} grid points`);
+          }
+
+          const normalised = normaliseGrid(grid, values);
+          const key = `${discipline}:${product.category}:${product.parameterNumber}`;
+
+          messages.push({
+            discipline,
+            category: product.category,
+            parameterNumber: product.parameterNumber,
+            parameter: PARAMETERS[key]?.name,
+            unit: PARAMETERS[key]?.unit,
+            referenceTime,
+            validTime: new Date(referenceTime.getTime() + product.forecastHours * 3600 * 1000),
+            forecastHours: product.forecastHours,
+            surface: product.surface,
+            grid: normalised.grid,
+            values: normalised.values,
+          });
+          break;
+        }
+      }
+
+      if (sectionLength === 0) {
+        throw new Error('Corrupt GRIB2 section length');
+      }
+      offset += sectionLength;
+    }
+
+    start = findMessageStart(bytes, end);
+  }
+
+  return messages;
+}
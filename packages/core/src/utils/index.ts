@@ -3,3 +3,14 @@ export * from './calculations';
 export * from './fetchWithRetry';
 export * from './requestDeduplication';
 export * from './openMeteoConfig';
+export * from './tidePrediction';
+export * from './tideStations';
+export * from './ephemeris';
+export * from './polar';
+export * from './geometry';
+export * from './xml';
+export * from './routeFormats';
+export * from './nmea';
+export * from './ais';
+export * from './grib2';
+export * from './units';
@@ -0,0 +1,432 @@
+/**
+ * NMEA 0183 Parser
+ *
+ * Decodes the instrument sentences a typical yacht network carries:
+ * - Position & motion: RMC, GGA, VTG
+ * - Heading: HDG (magnetic + deviation/variation), HDT (true)
+ * - Wind: MWV (apparent or true, relative to the bow), MWD (true, relative to north)
+ * - Depth: DBT, DPT
+ * - Water: VHW (speed through water), MTW (temperature)
+ * - Transducers: XDR (pressure, air temperature, attitude, ...)
+ *
+ * Speeds are returned in knots, depths in meters and angles in degrees.
+ */
+
+// ============================================
+// SENTENCE TYPES
+// ============================================
+
+interface NmeaBase {
+  /** Talker ID, e.g. "GP", "II", "WI" */
+  talker: string;
+  raw: string;
+}
+
+export interface RMCSentence extends NmeaBase {
+  type: 'RMC';
+  time?: string; // hhmmss.ss UTC
+  timestamp?: Date;
+  valid: boolean;
+  lat?: number;
+  lon?: number;
+  speedOverGround?: number; // knots
+  courseOverGround?: number; // degrees true
+  variation?: number; // degrees, east positive
+}
+
+export interface GGASentence extends NmeaBase {
+  type: 'GGA';
+  time?: string; // hhmmss.ss UTC
+  lat?: number;
+  lon?: number;
+  fixQuality: number; // 0 = no fix
+  satellites?: number;
+  hdop?: number;
+  altitude?: number; // meters
+}
+
+export interface VTGSentence extends NmeaBase {
+  type: 'VTG';
+  courseOverGround?: number; // degrees true
+  courseOverGroundMagnetic?: number;
+  speedOverGround?: number; // knots
+}
+
+export interface HDGSentence extends NmeaBase {
+  type: 'HDG';
+  magneticHeading?: number;
+  deviation?: number; // degrees, east positive
+  variation?: number; // degrees, east positive
+}
+
+export interface HDTSentence extends NmeaBase {
+  type: 'HDT';
+  heading?: number; // degrees true
+}
+
+export interface MWVSentence extends NmeaBase {
+  type: 'MWV';
+  angle?: number; // degrees relative to the bow (0-360)
+  reference: 'apparent' | 'true';
+  speed?: number; // knots
+  valid: boolean;
+}
+
+export interface MWDSentence extends NmeaBase {
+  type: 'MWD';
+  direction?: number; // degrees true the wind blows from
+  directionMagnetic?: number;
+  speed?: number; // knots
+}
+
+export interface DBTSentence extends NmeaBase {
+  type: 'DBT';
+  depth?: number; // meters below transducer
+}
+
+export interface DPTSentence extends NmeaBase {
+  type: 'DPT';
+  depth?: number; // meters below transducer
+  /** Transducer offset: positive = distance to waterline, negative = distance to keel */
+  offset?: number;
+}
+
+export interface VHWSentence extends NmeaBase {
+  type: 'VHW';
+  heading?: number; // degrees true
+  magneticHeading?: number;
+  speedThroughWater?: number; // knots
+}
+
+export interface MTWSentence extends NmeaBase {
+  type: 'MTW';
+  temperature?: number; // °C
+}
+
+export interface XDRMeasurement {
+  /** Transducer type: C temperature, P pressure, A angle, H humidity, ... */
+  transducerType: string;
+  value?: number;
+  unit: string;
+  name: string;
+}
+
+export interface XDRSentence extends NmeaBase {
+  type: 'XDR';
+  measurements: XDRMeasurement[];
+}
+
+export type NmeaSentence =
+  | RMCSentence
+  | GGASentence
+  | VTGSentence
+  | HDGSentence
+  | HDTSentence
+  | MWVSentence
+  | MWDSentence
+  | DBTSentence
+  | DPTSentence
+  | VHWSentence
+  | MTWSentence
+  | XDRSentence;
+
+export type NmeaSentenceType = NmeaSentence['type'];
+
+// ============================================
+// FIELD HELPERS
+// ============================================
+
+const KMH_TO_KNOTS = 1 / 1.852;
+const MS_TO_KNOTS = 1 / 0.514444;
+const FEET_TO_METERS = 0.3048;
+const FATHOMS_TO_METERS = 1.8288;
+
+const num = (field: string | undefined): number | undefined => {
+  if (field === undefined || field.trim() === '') return undefined;
+  const value = parseFloat(field);
+  return isNaN(value) ? undefined : value;
+};
+
+/**
+ * Convert NMEA ddmm.mmmm / dddmm.mmmm plus hemisphere to decimal degrees
+ */
+const coordinate = (field: string | undefined, hemisphere: string | undefined): number | undefined => {
+  const value = num(field);
+  if (value === undefined) return undefined;
+  const degrees = Math.floor(value / 100);
+  const decimal = degrees + (value - degrees * 100) / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+};
+
+/** Signed angle: east (E) positive, west (W) negative */
+const signedAngle = (field: string | undefined, direction: string | undefined): number | undefined => {
+  const value = num(field);
+  if (value === undefined) return undefined;
+  return direction === 'W' ? -value : value;
+};
+
+const speedToKnots = (value: number | undefined, unit: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  switch (unit) {
+    case 'K':
+      return value * KMH_TO_KNOTS;
+    case 'M':
+      return value * MS_TO_KNOTS;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Combine RMC ddmmyy and hhmmss.ss fields into a UTC date
+ */
+const utcTimestamp = (date: string | undefined, time: string | undefined): Date | undefined => {
+  if (!date || date.length < 6 || !time || time.length < 6) return undefined;
+  const day = parseInt(date.slice(0, 2), 10);
+  const month = parseInt(date.slice(2, 4), 10);
+  const shortYear = parseInt(date.slice(4, 6), 10);
+  const year = shortYear < 80 ? 2000 + shortYear : 1900 + shortYear; // two-digit year pivot
+  const hours = parseInt(time.slice(0, 2), 10);
+  const minutes = parseInt(time.slice(2, 4), 10);
+  const seconds = parseFloat(time.slice(4));
+  if ([day, month, year, hours, minutes, seconds].some(isNaN)) return undefined;
+
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, 0, Math.round(seconds * 1000)));
+};
+
+// ============================================
+// CHECKSUM
+// ============================================
+
+/**
+ * XOR checksum of the characters between the start delimiter and '*', as two hex digits
+ */
+export const nmeaChecksum = (body: string): string => {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum.toString(16).toUpperCase().padStart(2, '0');
+};
+
+/**
+ * Build a complete sentence ("$" + body + "*" + checksum) from its body
+ */
+export const formatNmeaSentence = (body: string): string => `$${body}*${nmeaChecksum(body)}`;
+
+// ============================================
+// PARSING
+// ============================================
+
+type SentenceParser = (fields: string[], base: NmeaBase) => NmeaSentence;
+
+const PARSERS: Record<NmeaSentenceType, SentenceParser> = {
+  RMC: (f, base) => ({
+    ...base,
+    type: 'RMC',
+    time: f[0] || undefined,
+    timestamp: utcTimestamp(f[8], f[0]),
+    valid: f[1] === 'A',
+    lat: coordinate(f[2], f[3]),
+    lon: coordinate(f[4], f[5]),
+    speedOverGround: num(f[6]),
+    courseOverGround: num(f[7]),
+    variation: signedAngle(f[9], f[10]),
+  }),
+
+  GGA: (f, base) => ({
+    ...base,
+    type: 'GGA',
+    time: f[0] || undefined,
+    lat: coordinate(f[1], f[2]),
+    lon: coordinate(f[3], f[4]),
+    fixQuality: num(f[5]) ?? 0,
+    satellites: num(f[6]),
+    hdop: num(f[7]),
+    altitude: num(f[8]),
+  }),
+
+  VTG: (f, base) => ({
+    ...base,
+    type: 'VTG',
+    courseOverGround: num(f[0]),
+    courseOverGroundMagnetic: num(f[2]),
+    speedOverGround: num(f[4]) ?? speedToKnots(num(f[6]), 'K'),
+  }),
+
+  HDG: (f, base) => ({
+    ...base,
+    type: 'HDG',
+    magneticHeading: num(f[0]),
+    deviation: signedAngle(f[1], f[2]),
+    variation: signedAngle(f[3], f[4]),
+  }),
+
+  HDT: (f, base) => ({
+    ...base,
+    type: 'HDT',
+    heading: num(f[0]),
+  }),
+
+  MWV: (f, base) => ({
+    ...base,
+    type: 'MWV',
+    angle: num(f[0]),
+    reference: f[1] === 'T' ? 'true' : 'apparent',
+    speed: speedToKnots(num(f[2]), f[3]),
+    valid: f[4] !== 'V',
+  }),
+
+  MWD: (f, base) => ({
+    ...base,
+    type: 'MWD',
+    direction: num(f[0]),
+    directionMagnetic: num(f[2]),
+    speed: num(f[4]) ?? speedToKnots(num(f[6]), 'M'),
+  }),
+
+  DBT: (f, base) => {
+    const meters = num(f[2]);
+    const feet = num(f[0]);
+    const fathoms = num(f[4]);
+    return {
+      ...base,
+      type: 'DBT',
+      depth:
+        meters ??
+        (feet !== undefined ? feet * FEET_TO_METERS : fathoms !== undefined ? fathoms * FATHOMS_TO_METERS : undefined),
+    };
+  },
+
+  DPT: (f, base) => ({
+    ...base,
+    type: 'DPT',
+    depth: num(f[0]),
+    offset: num(f[1]),
+  }),
+
+  VHW: (f, base) => ({
+    ...base,
+    type: 'VHW',
+    heading: num(f[0]),
+    magneticHeading: num(f[2]),
+    speedThroughWater: num(f[4]) ?? speedToKnots(num(f[6]), 'K'),
+  }),
+
+  MTW: (f, base) => ({
+    ...base,
+    type: 'MTW',
+    temperature: num(f[0]),
+  }),
+
+  XDR: (f, base) => {
+    const measurements: XDRMeasurement[] = [];
+    for (let i = 0; i < f.length; i += 4) {
+      if (!f[i]) continue;
+      measurements.push({
+        transducerType: f[i],
+        value: num(f[i + 1]),
+        unit: f[i + 2] ?? '',
+        name: f[i + 3] ?? '',
+      });
+    }
+    return { ...base, type: 'XDR', measurements };
+  },
+};
+
+/**
+ * Parse one NMEA 0183 sentence
+ *
+ * Returns null for blank lines and sentence types this parser doesn't handle.
+ * A checksum, when present, must match; pass requireChecksum to reject
+ * sentences without one.
+ *
+ * @throws Error if the sentence is malformed or its checksum doesn't match
+ */
+export const parseNmeaSentence = (
+  line: string,
+  options: { requireChecksum?: boolean } = {}
+): NmeaSentence | null => {
+  const raw = line.trim();
+  if (!raw) return null;
+
+  const start = raw.search(/[$!]/);
+  if (start < 0) {
+    throw new Error(`Invalid NMEA sentence (missing '$'): ${raw}`);
+  }
+
+  const sentence = raw.slice(start);
+  const star = sentence.indexOf('*');
+  const body = star >= 0 ? sentence.slice(1, star) : sentence.slice(1);
+
+  if (star >= 0) {
+    const expected = nmeaChecksum(body);
+    const actual = sentence.slice(star + 1, star + 3).toUpperCase();
+    if (actual !== expected) {
+      throw new Error(`NMEA checksum mismatch: expected ${expected}, got ${actual || 'none'}`);
+    }
+  } else if (options.requireChecksum) {
+    throw new Error(`NMEA sentence has no checksum: ${sentence}`);
+  }
+
+  const [address, ...fields] = body.split(',');
+  if (!/^[A-Z0-9]{5}$/.test(address)) {
+    // Proprietary ($P...) and encapsulated (!AIVDM) sentences are handled elsewhere
+    if (address.startsWith('P') || sentence.startsWith('!')) return null;
+    throw new Error(`Invalid NMEA address field: ${address}`);
+  }
+
+  const type = address.slice(2) as NmeaSentenceType;
+  const parser = PARSERS[type];
+  if (!parser) return null;
+
+  return parser(fields, { talker: address.slice(0, 2), raw: sentence });
+};
+
+/**
+ * Split a chunk of NMEA text into sentences, skipping lines that fail to parse
+ */
+export const parseNmeaLog = (
+  log: string,
+  onError?: (error: Error, line: string) => void
+): NmeaSentence[] => {
+  const sentences: NmeaSentence[] = [];
+  for (const line of log.split(/\r?\n/)) {
+    try {
+      const sentence = parseNmeaSentence(line);
+      if (sentence) sentences.push(sentence);
+    } catch (error) {
+      onError?.(error as Error, line);
+    }
+  }
+  return sentences;
+};
+
+// ============================================
+// WIND
+// ============================================
+
+/**
+ * Derive true wind from apparent wind and boat motion
+ *
+ * @param apparentAngle Apparent wind angle relative to the bow (0-360, clockwise)
+ * @param apparentSpeed Apparent wind speed (knots)
+ * @param boatSpeed Boat speed (knots)
+ * @param heading Boat heading (degrees true)
+ * @returns True wind angle relative to the bow (0-360), speed (knots) and direction (degrees true, from)
+ */
+export const calculateTrueWind = (
+  apparentAngle: number,
+  apparentSpeed: number,
+  boatSpeed: number,
+  heading: number
+): { angle: number; speed: number; direction: number } => {
+  const rad = (apparentAngle * Math.PI) / 180;
+  const ahead = apparentSpeed * Math.cos(rad) - boatSpeed;
+  const abeam = apparentSpeed * Math.sin(rad);
+
+  const speed = Math.sqrt(ahead * ahead + abeam * abeam);
+  const angle = speed < 1e-6 ? 0 : ((Math.atan2(abeam, ahead) * 180) / Math.PI + 360) % 360;
+
+  return { angle, speed, direction: (heading + angle) % 360 };
+};
@@ -667,3 +667,29 @@ export default {
   WEATHER_MODELS,
   MARINE_MODELS
 };
+
+/**
+ * Get the models worth comparing at a location
+ *
+ * Includes every regional model covering the location plus the global
+ * models, so the spread between independent forecasts can be assessed.
+ * 'best_match' is left out as it duplicates one of the others.
+ *
+ * @param lat - Latitude
+ * @param lng - Longitude
+ * @returns Weather and marine model names, highest resolution first
+ */
+export function getComparisonModels(lat: number, lng: number): { weatherModels: string[]; marineModels: string[] } {
+  const region = getGeoRegion(lat, lng);
+
+  const weatherModels = Object.entries(WEATHER_MODELS)
+    .filter(([id, model]) => id !== 'best_match' && (model.coverage === region || model.coverage === 'global'))
+    .sort(([, a], [, b]) => a.resolutionKm - b.resolutionKm)
+    .map(([id]) => id);
+
+  const marineModels = [...new Set([...getOptimalModels(lat, lng).marineModels, 'ecmwf_wam', 'mfwam'])]
+    .filter((id) => id !== 'best_match')
+    .sort((a, b) => MARINE_MODELS[a].resolutionKm - MARINE_MODELS[b].resolutionKm);
+
+  return { weatherModels, marineModels };
+}
@@ -0,0 +1,212 @@
+/**
+ * Vessel Polar Utilities
+ *
+ * Vessel performance model built on polar tables (true wind angle × true wind speed):
+ * - Polar import from CSV / ORC-style text tables
+ * - Boat speed interpolation for any TWA/TWS
+ * - VMG targets upwind and downwind
+ * - Course speed including tacking/gybing and motoring in light air
+ */
+
+import type { SailingConditions, VesselPerformance, VesselPolar, VMGTarget } from '../types/navigation';
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Fold any relative wind angle into 0-180° (polars are symmetric port/starboard)
+ */
+export const normalizeTrueWindAngle = (angle: number): number => {
+  const wrapped = ((angle % 360) + 360) % 360;
+  return wrapped > 180 ? 360 - wrapped : wrapped;
+};
+
+/**
+ * Find the bracketing indices and interpolation fraction for a value in an ascending axis
+ */
+const bracket = (axis: number[], value: number): { i0: number; i1: number; fraction: number } => {
+  if (value <= axis[0]) return { i0: 0, i1: 0, fraction: 0 };
+  const last = axis.length - 1;
+  if (value >= axis[last]) return { i0: last, i1: last, fraction: 0 };
+
+  let i = 0;
+  while (axis[i + 1] < value) i++;
+
+  return { i0: i, i1: i + 1, fraction: (value - axis[i]) / (axis[i + 1] - axis[i]) };
+};
+
+/**
+ * Boat speed from a polar table using bilinear interpolation
+ *
+ * - Angles tighter than the first TWA row are in the no-go zone (0 kn)
+ * - Wind below the first TWS column scales linearly down to 0 kn at 0 kn TWS
+ * - Wind above the last TWS column uses the last column
+ *
+ * @param polar - Vessel polar table
+ * @param twa - True wind angle in degrees (any sign/range)
+ * @param tws - True wind speed in knots
+ * @returns Boat speed in knots
+ */
+export const getPolarBoatSpeed = (polar: VesselPolar, twa: number, tws: number): number => {
+  const angle = normalizeTrueWindAngle(twa);
+  if (tws <= 0 || polar.twa.length === 0 || polar.tws.length === 0) return 0;
+  if (angle < polar.twa[0]) return 0;
+
+  const a = bracket(polar.twa, angle);
+  const w = bracket(polar.tws, tws);
+
+  const speedAt = (ai: number, wi: number) => polar.boatSpeed[ai]?.[wi] ?? 0;
+  const interpolateRow = (ai: number) =>
+    speedAt(ai, w.i0) + (speedAt(ai, w.i1) - speedAt(ai, w.i0)) * w.fraction;
+
+  let speed = interpolateRow(a.i0) + (interpolateRow(a.i1) - interpolateRow(a.i0)) * a.fraction;
+
+  // Light air below the table: scale towards zero
+  if (tws < polar.tws[0]) {
+    speed *= tws / polar.tws[0];
+  }
+
+  return Math.max(0, speed);
+};
+
+// ============================================
+// POLAR IMPORT
+// ============================================
+
+/**
+ * Parse a polar table from text
+ *
+ * Accepts the common CSV/ORC-style layout: a header row of true wind speeds
+ * (first cell is a label such as "TWA\TWS"), then one row per true wind angle
+ * with boat speeds. Cells may be separated by semicolons, commas, tabs or spaces.
+ * Empty cells are read as 0 kn.
+ *
+ * @param text - Polar table contents
+ * @param name - Display name for the polar
+ * @throws Error if the table has no usable wind speeds or angles
+ */
+export const parsePolar = (text: string, name: string): VesselPolar => {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'))
+    .map((line) => {
+      const separator = line.includes(';') ? ';' : line.includes(',') ? ',' : line.includes('\t') ? '\t' : /\s+/;
+      return line.split(separator).map((cell) => cell.trim());
+    });
+
+  if (rows.length < 2) {
+    throw new Error('Polar table must have a header row and at least one angle row');
+  }
+
+  const tws = rows[0].slice(1).map(Number);
+  if (tws.length === 0 || tws.some((value) => isNaN(value))) {
+    throw new Error('Polar header must list numeric true wind speeds');
+  }
+
+  const entries = rows
+    .slice(1)
+    .map((cells) => ({
+      twa: Number(cells[0]),
+      speeds: tws.map((_, i) => {
+        const value = Number(cells[i + 1] || 0);
+        return isNaN(value) ? 0 : value;
+      }),
+    }))
+    .filter((entry) => !isNaN(entry.twa) && entry.twa >= 0 && entry.twa <= 180)
+    .sort((a, b) => a.twa - b.twa);
+
+  if (entries.length === 0) {
+    throw new Error('Polar table has no valid true wind angle rows');
+  }
+
+  return {
+    name,
+    twa: entries.map((entry) => entry.twa),
+    tws,
+    boatSpeed: entries.map((entry) => entry.speeds),
+  };
+};
+
+// ============================================
+// VMG & COURSE SPEED
+// ============================================
+
+/**
+ * Best VMG angle and speed for a true wind speed
+ *
+ * @param polar - Vessel polar table
+ * @param tws - True wind speed in knots
+ * @param mode - 'upwind' (towards the wind) or 'downwind' (away from it)
+ */
+export const getVMGTarget = (
+  polar: VesselPolar,
+  tws: number,
+  mode: 'upwind' | 'downwind'
+): VMGTarget => {
+  let best: VMGTarget = { twa: mode === 'upwind' ? 0 : 180, boatSpeed: 0, vmg: 0 };
+
+  for (let twa = 0; twa <= 180; twa += 0.5) {
+    const boatSpeed = getPolarBoatSpeed(polar, twa, tws);
+    const component = boatSpeed * Math.cos(toRadians(twa));
+    const vmg = mode === 'upwind' ? component : -component;
+
+    if (vmg > best.vmg) {
+      best = { twa, boatSpeed, vmg };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Speed made good along a course under sail
+ *
+ * Inside the upwind target angle the vessel tacks, and beyond the downwind
+ * target it gybes; the speed made good along the course is then the VMG
+ * divided by the cosine of the course's angle to the wind.
+ *
+ * @param polar - Vessel polar table
+ * @param courseTwa - Angle between the course and the true wind (degrees)
+ * @param tws - True wind speed in knots
+ */
+export const getCourseSpeed = (polar: VesselPolar, courseTwa: number, tws: number): number => {
+  const angle = normalizeTrueWindAngle(courseTwa);
+
+  const upwind = getVMGTarget(polar, tws, 'upwind');
+  if (upwind.vmg > 0 && angle < upwind.twa) {
+    return upwind.vmg / Math.cos(toRadians(angle));
+  }
+
+  const downwind = getVMGTarget(polar, tws, 'downwind');
+  if (downwind.vmg > 0 && angle > downwind.twa) {
+    return downwind.vmg / Math.cos(toRadians(180 - angle));
+  }
+
+  return getPolarBoatSpeed(polar, angle, tws);
+};
+
+/**
+ * Expected speed along a course for a vessel performance model
+ *
+ * Motors when there is no polar, when the true wind is below the motoring
+ * threshold, or when the polar gives no speed for the course.
+ *
+ * @returns Speed in knots and whether the engine is used
+ */
+export const getVesselSpeed = (
+  performance: VesselPerformance,
+  conditions: SailingConditions
+): { speed: number; motoring: boolean } => {
+  if (!performance.polar || conditions.windSpeed < performance.motoringThreshold) {
+    return { speed: performance.motoringSpeed, motoring: true };
+  }
+
+  const courseTwa = conditions.course - conditions.windDirection;
+  const speed = getCourseSpeed(performance.polar, courseTwa, conditions.windSpeed);
+
+  if (speed <= 0) {
+    return { speed: performance.motoringSpeed, motoring: true };
+  }
+
+  return { speed, motoring: false };
+};
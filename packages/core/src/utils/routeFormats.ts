@@ -0,0 +1,495 @@
+/**
+ * Route Exchange Formats
+ *
+ * Converts routes and recorded tracks to and from the formats chartplotters
+ * and planning tools share:
+ * - GPX 1.1 (<rte> for routes, <trk> for tracks)
+ * - KML 2.2 (LineString + Point placemarks, gx:Track for tracks)
+ * - GeoJSON (LineString/Point features tagged with a "kind" property)
+ */
+
+import type { Route, TrackPoint, Waypoint } from '../types/navigation';
+import { calculateRouteDistance } from '../services/routePlanningService';
+import { childText, escapeXml, findChild, findChildren, findDescendants, parseXml } from './xml';
+import type { XmlElement } from './xml';
+
+export type RouteFileFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ParsedRouteFile {
+  route: Route | null;
+  track: TrackPoint[];
+}
+
+export const ROUTE_FILE_MIME_TYPES: Record<RouteFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+/** Average speed assumed for imported routes (knots) */
+const IMPORTED_ROUTE_SPEED = 5;
+
+/** Most waypoints kept when a track is turned into a route */
+const MAX_TRACK_WAYPOINTS = 50;
+
+const CREATOR = 'SeaYou';
+
+// ============================================
+// HELPERS
+// ============================================
+
+interface RawPoint {
+  lat: number;
+  lon: number;
+  name?: string;
+  timestamp?: Date;
+  speed?: number;
+}
+
+const isValidCoordinate = (lat: number, lon: number): boolean =>
+  isFinite(lat) && isFinite(lon) && lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
+
+/**
+ * Validate parsed points, naming the first bad one in the error
+ */
+const validatePoints = (points: RawPoint[], label: string): void => {
+  points.forEach((point, index) => {
+    if (!isValidCoordinate(point.lat, point.lon)) {
+      throw new Error(`Invalid coordinates in ${label} point ${index + 1}: ${point.lat}, ${point.lon}`);
+    }
+  });
+};
+
+const parseTime = (value: string | undefined): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Build a Route from imported points (first = start, last = destination)
+ */
+const buildRoute = (name: string, points: RawPoint[]): Route => {
+  const waypoints: Waypoint[] = points.map((point, index) => {
+    const type: Waypoint['type'] =
+      index === 0 ? 'start' : index === points.length - 1 ? 'destination' : 'waypoint';
+
+    return {
+      id: type === 'waypoint' ? `wp-${index}` : type,
+      lat: point.lat,
+      lon: point.lon,
+      name: point.name || (type === 'start' ? 'Start' : type === 'destination' ? 'Destination' : `WP ${index}`),
+      type,
+      ...(point.timestamp && { timestamp: point.timestamp }),
+    };
+  });
+
+  const totalDistance = calculateRouteDistance(waypoints);
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+    name,
+    waypoints,
+    totalDistance,
+    estimatedTime: totalDistance / IMPORTED_ROUTE_SPEED,
+    createdAt: new Date(),
+    averageSpeed: IMPORTED_ROUTE_SPEED,
+  };
+};
+
+/**
+ * Keep at most maxWaypoints evenly spaced points, always including both ends
+ */
+const thinPoints = (points: RawPoint[], maxWaypoints: number): RawPoint[] => {
+  const step = Math.max(1, Math.ceil((points.length - 1) / (maxWaypoints - 1)));
+  const kept = points.filter((_, i) => i % step === 0);
+  if (kept[kept.length - 1] !== points[points.length - 1]) {
+    kept.push(points[points.length - 1]);
+  }
+  return kept;
+};
+
+const toTrack = (points: RawPoint[]): TrackPoint[] =>
+  points
+    .filter((point) => point.timestamp)
+    .map((point) => ({
+      lat: point.lat,
+      lon: point.lon,
+      timestamp: point.timestamp!,
+      ...(point.speed !== undefined && { speed: point.speed }),
+    }));
+
+/**
+ * Finish parsing: validate, require at least a route or a track
+ */
+const finishParse = (
+  name: string,
+  routePoints: RawPoint[],
+  trackPoints: RawPoint[]
+): ParsedRouteFile => {
+  validatePoints(routePoints, 'route');
+  validatePoints(trackPoints, 'track');
+
+  if (routePoints.length === 1) {
+    throw new Error('Route must contain at least 2 points');
+  }
+  if (routePoints.length === 0 && trackPoints.length === 0) {
+    throw new Error('No route or track found in file');
+  }
+
+  const track = toTrack(trackPoints);
+  if (routePoints.length === 0 && track.length < 2 && trackPoints.length >= 2) {
+    // A track logged without times can't be replayed, but still traces the route sailed
+    return { route: buildRoute(name, thinPoints(trackPoints, MAX_TRACK_WAYPOINTS)), track };
+  }
+
+  return {
+    route: routePoints.length > 0 ? buildRoute(name, routePoints) : null,
+    track,
+  };
+};
+
+const readXml = (content: string, rootName: string, formatName: string): XmlElement => {
+  const root = parseXml(content);
+  if (root.name !== rootName) {
+    throw new Error(`Not a ${formatName} file: root element is <${root.name}>`);
+  }
+  return root;
+};
+
+// ============================================
+// GPX 1.1
+// ============================================
+
+/**
+ * Serialise a route (and optional track) as GPX 1.1
+ */
+export const routeToGPX = (route: Route, track: TrackPoint[] = []): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    `    <time>${new Date(route.createdAt).toISOString()}</time>`,
+    '  </metadata>',
+    '  <rte>',
+    `    <name>${escapeXml(route.name)}</name>`,
+  ];
+
+  for (const waypoint of route.waypoints) {
+    lines.push(`    <rtept lat="${waypoint.lat}" lon="${waypoint.lon}">`);
+    if (waypoint.timestamp) lines.push(`      <time>${new Date(waypoint.timestamp).toISOString()}</time>`);
+    lines.push(`      <name>${escapeXml(waypoint.name)}</name>`);
+    lines.push('    </rtept>');
+  }
+  lines.push('  </rte>');
+
+  if (track.length > 0) {
+    lines.push('  <trk>', `    <name>${escapeXml(route.name)} track</name>`, '    <trkseg>');
+    for (const point of track) {
+      lines.push(`      <trkpt lat="${point.lat}" lon="${point.lon}">`);
+      lines.push(`        <time>${new Date(point.timestamp).toISOString()}</time>`);
+      lines.push('      </trkpt>');
+    }
+    lines.push('    </trkseg>', '  </trk>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n');
+};
+
+const readGpxPoint = (element: XmlElement): RawPoint => ({
+  lat: parseFloat(element.attributes.lat),
+  lon: parseFloat(element.attributes.lon),
+  name: childText(element, 'name'),
+  timestamp: parseTime(childText(element, 'time')),
+});
+
+/**
+ * Parse a GPX file: first <rte> (or the <wpt> list) as the route, all <trkpt> as the track
+ */
+export const parseGPX = (content: string): ParsedRouteFile => {
+  const gpx = readXml(content, 'gpx', 'GPX');
+  const rte = findChild(gpx, 'rte');
+  const metadata = findChild(gpx, 'metadata');
+
+  const routePoints = rte
+    ? findChildren(rte, 'rtept').map(readGpxPoint)
+    : findChildren(gpx, 'wpt').map(readGpxPoint);
+  const trackPoints = findDescendants(gpx, 'trkpt').map(readGpxPoint);
+
+  const name =
+    (rte && childText(rte, 'name')) || (metadata && childText(metadata, 'name')) || 'Imported Route';
+
+  return finishParse(name, routePoints, trackPoints);
+};
+
+// ============================================
+// KML 2.2
+// ============================================
+
+const kmlCoordinate = (lat: number, lon: number): string => `${lon},${lat},0`;
+
+/**
+ * Serialise a route (and optional track) as KML
+ */
+export const routeToKML = (route: Route, track: TrackPoint[] = []): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    '    <Placemark>',
+    `      <name>${escapeXml(route.name)}</name>`,
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${route.waypoints.map((wp) => kmlCoordinate(wp.lat, wp.lon)).join(' ')}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    '    <Folder>',
+    '      <name>Waypoints</name>',
+  ];
+
+  for (const waypoint of route.waypoints) {
+    lines.push('      <Placemark>', `        <name>${escapeXml(waypoint.name)}</name>`);
+    if (waypoint.timestamp) {
+      lines.push(`        <TimeStamp><when>${new Date(waypoint.timestamp).toISOString()}</when></TimeStamp>`);
+    }
+    lines.push(`        <Point><coordinates>${kmlCoordinate(waypoint.lat, waypoint.lon)}</coordinates></Point>`);
+    lines.push('      </Placemark>');
+  }
+  lines.push('    </Folder>');
+
+  if (track.length > 0) {
+    lines.push('    <Placemark>', `      <name>${escapeXml(route.name)} track</name>`, '      <gx:Track>');
+    for (const point of track) {
+      lines.push(`        <when>${new Date(point.timestamp).toISOString()}</when>`);
+    }
+    for (const point of track) {
+      lines.push(`        <gx:coord>${point.lon} ${point.lat} 0</gx:coord>`);
+    }
+    lines.push('      </gx:Track>', '    </Placemark>');
+  }
+
+  lines.push('  </Document>', '</kml>');
+  return lines.join('\n');
+};
+
+const parseKmlCoordinates = (text: string): RawPoint[] =>
+  text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [lon, lat] = tuple.split(',').map(Number);
+      return { lat, lon };
+    });
+
+/**
+ * Parse a KML file: Point placemarks (or the first LineString) as the route, gx:Track as the track
+ */
+export const parseKML = (content: string): ParsedRouteFile => {
+  const kml = readXml(content, 'kml', 'KML');
+  const document = findChild(kml, 'Document') ?? kml;
+  const placemarks = findDescendants(kml, 'Placemark');
+
+  const pointPlacemarks = placemarks.filter((p) => findChild(p, 'Point'));
+  let routePoints: RawPoint[] = pointPlacemarks.map((placemark) => {
+    const [point] = parseKmlCoordinates(childText(findChild(placemark, 'Point')!, 'coordinates') ?? '');
+    const timeStamp = findChild(placemark, 'TimeStamp');
+    return {
+      ...(point ?? { lat: NaN, lon: NaN }),
+      name: childText(placemark, 'name'),
+      timestamp: parseTime(timeStamp && childText(timeStamp, 'when')),
+    };
+  });
+
+  if (routePoints.length < 2) {
+    const lineString = findDescendants(kml, 'LineString')[0];
+    routePoints = lineString ? parseKmlCoordinates(childText(lineString, 'coordinates') ?? '') : [];
+  }
+
+  const trackPoints: RawPoint[] = [];
+  for (const gxTrack of findDescendants(kml, 'Track')) {
+    const whens = findChildren(gxTrack, 'when').map((w) => parseTime(w.text.trim()));
+    findChildren(gxTrack, 'coord').forEach((coord, i) => {
+      const [lon, lat] = coord.text.trim().split(/\s+/).map(Number);
+      trackPoints.push({ lat, lon, timestamp: whens[i] });
+    });
+  }
+
+  return finishParse(childText(document, 'name') || 'Imported Route', routePoints, trackPoints);
+};
+
+// ============================================
+// GEOJSON
+// ============================================
+
+/**
+ * Serialise a route (and optional track) as a GeoJSON FeatureCollection
+ */
+export const routeToGeoJSON = (route: Route, track: TrackPoint[] = []): string => {
+  const features: object[] = [
+    {
+      type: 'Feature',
+      properties: {
+        kind: 'route',
+        name: route.name,
+        totalDistance: route.totalDistance,
+        estimatedTime: route.estimatedTime,
+        averageSpeed: route.averageSpeed,
+      },
+      geometry: {
+        type: 'LineString',
+        coordinates: route.waypoints.map((wp) => [wp.lon, wp.lat]),
+      },
+    },
+    ...route.waypoints.map((waypoint, index) => ({
+      type: 'Feature',
+      properties: {
+        kind: 'waypoint',
+        index,
+        name: waypoint.name,
+        waypointType: waypoint.type,
+        ...(waypoint.timestamp && { timestamp: new Date(waypoint.timestamp).toISOString() }),
+      },
+      geometry: { type: 'Point', coordinates: [waypoint.lon, waypoint.lat] },
+    })),
+  ];
+
+  if (track.length > 0) {
+    features.push({
+      type: 'Feature',
+      properties: {
+        kind: 'track',
+        name: `${route.name} track`,
+        timestamps: track.map((p) => new Date(p.timestamp).toISOString()),
+        speeds: track.map((p) => p.speed ?? null),
+      },
+      geometry: { type: 'LineString', coordinates: track.map((p) => [p.lon, p.lat]) },
+    });
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+/**
+ * Parse GeoJSON: waypoint Points (or the first non-track LineString) as the route,
+ * a LineString with kind "track" as the track
+ */
+export const parseGeoJSON = (content: string): ParsedRouteFile => {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Malformed GeoJSON: ${(error as Error).message}`);
+  }
+
+  const features: any[] =
+    data?.type === 'FeatureCollection' && Array.isArray(data.features)
+      ? data.features
+      : data?.type === 'Feature'
+        ? [data]
+        : [];
+  if (features.length === 0) {
+    throw new Error('Not a GeoJSON Feature or FeatureCollection');
+  }
+
+  const readPosition = (position: unknown): RawPoint => {
+    if (!Array.isArray(position) || position.length < 2) return { lat: NaN, lon: NaN };
+    return { lat: Number(position[1]), lon: Number(position[0]) };
+  };
+
+  const lineStrings = features.filter((f) => f?.geometry?.type === 'LineString');
+  const trackFeature = lineStrings.find((f) => f.properties?.kind === 'track');
+  const routeFeature = lineStrings.find((f) => f.properties?.kind !== 'track');
+
+  let routePoints: RawPoint[] = features
+    .filter((f) => f?.geometry?.type === 'Point' && f.properties?.kind === 'waypoint')
+    .sort((a, b) => (a.properties.index ?? 0) - (b.properties.index ?? 0))
+    .map((f) => ({
+      ...readPosition(f.geometry.coordinates),
+      name: f.properties.name,
+      timestamp: parseTime(f.properties.timestamp),
+    }));
+
+  if (routePoints.length < 2) {
+    routePoints = routeFeature ? (routeFeature.geometry.coordinates ?? []).map(readPosition) : [];
+  }
+
+  const trackPoints: RawPoint[] = trackFeature
+    ? (trackFeature.geometry.coordinates ?? []).map((position: unknown, i: number) => ({
+        ...readPosition(position),
+        timestamp: parseTime(trackFeature.properties.timestamps?.[i]),
+        speed: trackFeature.properties.speeds?.[i] ?? undefined,
+      }))
+    : [];
+
+  const name = routeFeature?.properties?.name || 'Imported Route';
+  return finishParse(name, routePoints, trackPoints);
+};
+
+// ============================================
+// FORMAT DETECTION & DISPATCH
+// ============================================
+
+/**
+ * Detect the format of a route file from its name or contents
+ *
+ * @throws Error if the format can't be recognised
+ */
+export const detectRouteFileFormat = (content: string, fileName?: string): RouteFileFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml') return extension;
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const head = content.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/<kml[\s>]/.test(head)) return 'kml';
+
+  throw new Error('Unrecognised file format. Supported formats: GPX, KML, GeoJSON');
+};
+
+/**
+ * Serialise a route (and optional track) in the requested format
+ */
+export const serializeRoute = (route: Route, format: RouteFileFormat, track: TrackPoint[] = []): string => {
+  switch (format) {
+    case 'gpx':
+      return routeToGPX(route, track);
+    case 'kml':
+      return routeToKML(route, track);
+    case 'geojson':
+      return routeToGeoJSON(route, track);
+  }
+};
+
+/**
+ * Parse a route file, detecting the format from the name or contents
+ */
+export const parseRouteFile = (content: string, fileName?: string): ParsedRouteFile => {
+  switch (detectRouteFileFormat(content, fileName)) {
+    case 'gpx':
+      return parseGPX(content);
+    case 'kml':
+      return parseKML(content);
+    case 'geojson':
+      return parseGeoJSON(content);
+  }
+};
+
+/**
+ * Turn a recorded track into a route, keeping at most maxWaypoints evenly spaced points
+ */
+export const trackToRoute = (
+  track: TrackPoint[],
+  name: string,
+  maxWaypoints: number = MAX_TRACK_WAYPOINTS
+): Route => {
+  if (track.length < 2) {
+    throw new Error('Track must contain at least 2 points');
+  }
+
+  return buildRoute(name, thinPoints(track, maxWaypoints));
+};
@@ -0,0 +1,264 @@
+/**
+ * Harmonic Tide Prediction
+ *
+ * Predicts tide heights from harmonic constants:
+ *   h(t) = Z0 + Σ f·A·cos(V0 + u + ω·t − G)
+ *
+ * - Astronomical arguments (V0) are derived from the Doodson numbers of each
+ *   constituent and the mean lunar/solar longitudes at the prediction epoch.
+ * - Nodal corrections (f, u) follow the simplified Schureman formulas driven
+ *   by the longitude of the Moon's ascending node (18.6-year cycle).
+ * - High/low waters are located where the analytic derivative changes sign and
+ *   refined by bisection, so event times are accurate to well under a minute.
+ *
+ * ⚠️ Predictions from a bundled station table are approximate and do NOT replace
+ * official tide tables.
+ */
+
+import type { TideConstituentName, TideEvent, TideStation } from '../types';
+import { calculateDistance } from '../services/routePlanningService';
+import { TIDE_STATIONS } from './tideStations';
+
+/**
+ * Maximum distance at which a bundled station is considered representative
+ * of the requested location (nautical miles)
+ */
+export const TIDE_STATION_MAX_DISTANCE_NM = 60;
+
+/**
+ * Doodson numbers [τ, s, h, p, N', p1] plus phase offset (degrees)
+ */
+const CONSTITUENTS: Record<TideConstituentName, { doodson: number[]; offset: number }> = {
+  M2: { doodson: [2, 0, 0, 0, 0, 0], offset: 0 },
+  S2: { doodson: [2, 2, -2, 0, 0, 0], offset: 0 },
+  N2: { doodson: [2, -1, 0, 1, 0, 0], offset: 0 },
+  K2: { doodson: [2, 2, 0, 0, 0, 0], offset: 0 },
+  K1: { doodson: [1, 1, 0, 0, 0, 0], offset: 90 },
+  O1: { doodson: [1, -1, 0, 0, 0, 0], offset: 270 },
+  P1: { doodson: [1, 1, -2, 0, 0, 0], offset: 270 },
+  Q1: { doodson: [1, -2, 0, 1, 0, 0], offset: 270 },
+  M4: { doodson: [4, 0, 0, 0, 0, 0], offset: 0 },
+  MS4: { doodson: [4, 2, -2, 0, 0, 0], offset: 0 },
+  M6: { doodson: [6, 0, 0, 0, 0, 0], offset: 0 },
+};
+
+/**
+ * Rates of change of the fundamental arguments [τ, s, h, p, N', p1] (degrees/hour)
+ */
+const ARGUMENT_SPEEDS = [14.4920521, 0.5490165, 0.0410686, 0.0046418, 0.0022064, 0.0000020];
+
+/**
+ * High/low pairs closer than this are treated as a stand rather than a tide (meters)
+ */
+const MIN_TIDE_RANGE_M = 0.02;
+
+const DEG = Math.PI / 180;
+
+/**
+ * Constituent speed in degrees per hour
+ */
+export const getConstituentSpeed = (name: TideConstituentName): number =>
+  CONSTITUENTS[name].doodson.reduce((sum, d, i) => sum + d * ARGUMENT_SPEEDS[i], 0);
+
+/**
+ * Fundamental astronomical arguments (degrees) at a given instant
+ */
+const getAstronomicalArguments = (date: Date) => {
+  const jd = date.getTime() / 86400000 + 2440587.5;
+  const T = (jd - 2451545.0) / 36525;
+
+  const s = 218.3165 + 481267.8813 * T; // Moon mean longitude
+  const h = 280.4661 + 36000.7698 * T; // Sun mean longitude
+  const p = 83.3535 + 4069.0137 * T; // Lunar perigee
+  const N = 125.0445 - 1934.1363 * T; // Moon ascending node
+  const p1 = 282.9384 + 1.7195 * T; // Solar perigee
+
+  const utHours =
+    date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600;
+  const tau = 180 + 15 * utHours + h - s; // Mean lunar time
+
+  return { tau, s, h, p, N, p1 };
+};
+
+/**
+ * Nodal amplitude factor (f) and phase correction (u, degrees) for a constituent
+ */
+export const getNodalCorrection = (
+  name: TideConstituentName,
+  date: Date
+): { f: number; u: number } => {
+  const N = getAstronomicalArguments(date).N * DEG;
+  const cosN = Math.cos(N), cos2N = Math.cos(2 * N), cos3N = Math.cos(3 * N);
+  const sinN = Math.sin(N), sin2N = Math.sin(2 * N), sin3N = Math.sin(3 * N);
+
+  const m2 = { f: 1.0004 - 0.0373 * cosN + 0.0002 * cos2N, u: -2.14 * sinN };
+  const o1 = {
+    f: 1.0089 + 0.1871 * cosN - 0.0147 * cos2N + 0.0014 * cos3N,
+    u: 10.8 * sinN - 1.34 * sin2N + 0.19 * sin3N,
+  };
+
+  switch (name) {
+    case 'M2':
+    case 'N2':
+      return m2;
+    case 'K2':
+      return {
+        f: 1.0241 + 0.2863 * cosN + 0.0083 * cos2N - 0.0015 * cos3N,
+        u: -17.74 * sinN + 0.68 * sin2N - 0.04 * sin3N,
+      };
+    case 'K1':
+      return {
+        f: 1.006 + 0.115 * cosN - 0.0088 * cos2N + 0.0006 * cos3N,
+        u: -8.86 * sinN + 0.68 * sin2N - 0.07 * sin3N,
+      };
+    case 'O1':
+    case 'Q1':
+      return o1;
+    case 'M4':
+      return { f: m2.f * m2.f, u: 2 * m2.u };
+    case 'MS4':
+      return m2;
+    case 'M6':
+      return { f: m2.f * m2.f * m2.f, u: 3 * m2.u };
+    default:
+      // S2, P1: solar constituents have no nodal modulation
+      return { f: 1, u: 0 };
+  }
+};
+
+/**
+ * Constituent terms resolved against a fixed epoch, so predictions only need
+ * amplitude · cos(speed · t + phase) with t in hours since the epoch
+ */
+interface PreparedConstituent {
+  amplitude: number; // f · A (meters)
+  speed: number; // radians/hour
+  phase: number; // V0 + u − G (radians)
+}
+
+const prepareStation = (station: TideStation, epoch: Date): PreparedConstituent[] => {
+  const args = getAstronomicalArguments(epoch);
+  const fundamentals = [args.tau, args.s, args.h, args.p, -args.N, args.p1];
+
+  return (Object.keys(station.constituents) as TideConstituentName[]).map((name) => {
+    const { amplitude, phase } = station.constituents[name]!;
+    const { doodson, offset } = CONSTITUENTS[name];
+    const { f, u } = getNodalCorrection(name, epoch);
+    const v0 = doodson.reduce((sum, d, i) => sum + d * fundamentals[i], offset);
+
+    return {
+      amplitude: f * amplitude,
+      speed: getConstituentSpeed(name) * DEG,
+      phase: (v0 + u - phase) * DEG,
+    };
+  });
+};
+
+const heightAt = (datumOffset: number, terms: PreparedConstituent[], hours: number): number =>
+  terms.reduce((sum, c) => sum + c.amplitude * Math.cos(c.speed * hours + c.phase), datumOffset);
+
+const slopeAt = (terms: PreparedConstituent[], hours: number): number =>
+  terms.reduce((sum, c) => sum - c.amplitude * c.speed * Math.sin(c.speed * hours + c.phase), 0);
+
+/**
+ * Predict the tide height (meters above chart datum) at a station
+ */
+export const predictTideHeight = (station: TideStation, date: Date): number =>
+  heightAt(station.datumOffset, prepareStation(station, date), 0);
+
+/**
+ * Predict a regular series of tide heights starting at `start`
+ */
+export const predictTideSeries = (
+  station: TideStation,
+  start: Date,
+  hours: number,
+  stepMinutes: number = 60
+): { time: string; height: number }[] => {
+  const terms = prepareStation(station, start);
+  const steps = Math.floor((hours * 60) / stepMinutes);
+  const series: { time: string; height: number }[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const offsetHours = (i * stepMinutes) / 60;
+    series.push({
+      time: new Date(start.getTime() + offsetHours * 3600000).toISOString(),
+      height: parseFloat(heightAt(station.datumOffset, terms, offsetHours).toFixed(2)),
+    });
+  }
+
+  return series;
+};
+
+/**
+ * Find high and low waters between `start` and `end`
+ *
+ * Scans the analytic rate of change in 30-minute steps and bisects each
+ * sign change down to a few seconds. Minor stands in mixed tides (a high and
+ * low of nearly equal height) are dropped.
+ */
+export const findTideExtrema = (station: TideStation, start: Date, end: Date): TideEvent[] => {
+  const terms = prepareStation(station, start);
+  const totalHours = (end.getTime() - start.getTime()) / 3600000;
+  const step = 0.5;
+  const extrema: { hours: number; height: number; type: TideEvent['type'] }[] = [];
+
+  let prevT = 0;
+  let prevSlope = slopeAt(terms, 0);
+
+  for (let t = step; t <= totalHours; t += step) {
+    const slope = slopeAt(terms, t);
+
+    if (prevSlope !== 0 && Math.sign(slope) !== Math.sign(prevSlope)) {
+      let lo = prevT;
+      let hi = t;
+      for (let i = 0; i < 12; i++) {
+        const mid = (lo + hi) / 2;
+        if (Math.sign(slopeAt(terms, mid)) === Math.sign(prevSlope)) {
+          lo = mid;
+        } else {
+          hi = mid;
+        }
+      }
+      const eventHours = (lo + hi) / 2;
+      const height = heightAt(station.datumOffset, terms, eventHours);
+      const last = extrema[extrema.length - 1];
+
+      if (last && Math.abs(last.height - height) < MIN_TIDE_RANGE_M) {
+        extrema.pop();
+      } else {
+        extrema.push({ hours: eventHours, height, type: prevSlope > 0 ? 'HIGH' : 'LOW' });
+      }
+    }
+
+    prevT = t;
+    prevSlope = slope;
+  }
+
+  return extrema.map((e) => ({
+    time: new Date(start.getTime() + e.hours * 3600000).toISOString(),
+    height: parseFloat(e.height.toFixed(2)),
+    type: e.type,
+  }));
+};
+
+/**
+ * Find the closest bundled tide station within range of a location
+ */
+export const findNearestTideStation = (
+  lat: number,
+  lng: number,
+  maxDistanceNM: number = TIDE_STATION_MAX_DISTANCE_NM,
+  stations: TideStation[] = TIDE_STATIONS
+): { station: TideStation; distance: number } | null => {
+  let nearest: { station: TideStation; distance: number } | null = null;
+
+  for (const station of stations) {
+    const distance = calculateDistance(lat, lng, station.lat, station.lng);
+    if (distance <= maxDistanceNM && (!nearest || distance < nearest.distance)) {
+      nearest = { station, distance };
+    }
+  }
+
+  return nearest;
+};
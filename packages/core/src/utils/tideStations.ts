@@ -0,0 +1,213 @@
+/**
+ * Bundled Tide Station Table
+ *
+ * Harmonic constants (amplitude in meters, Greenwich phase lag in degrees UTC)
+ * for reference ports. Values are rounded from published harmonic analyses and
+ * are intended for passage planning only.
+ */
+
+import type { TideStation } from '../types';
+
+export const TIDE_STATIONS: TideStation[] = [
+  // ==================== EASTERN MEDITERRANEAN ====================
+  {
+    id: 'haifa',
+    name: 'Haifa',
+    lat: 32.82,
+    lng: 35.0,
+    datumOffset: 0.45,
+    constituents: {
+      M2: { amplitude: 0.115, phase: 286 },
+      S2: { amplitude: 0.068, phase: 305 },
+      N2: { amplitude: 0.02, phase: 270 },
+      K2: { amplitude: 0.018, phase: 300 },
+      K1: { amplitude: 0.028, phase: 317 },
+      O1: { amplitude: 0.018, phase: 271 },
+      P1: { amplitude: 0.009, phase: 315 },
+    },
+  },
+  {
+    id: 'ashdod',
+    name: 'Ashdod',
+    lat: 31.83,
+    lng: 34.64,
+    datumOffset: 0.45,
+    constituents: {
+      M2: { amplitude: 0.118, phase: 284 },
+      S2: { amplitude: 0.07, phase: 303 },
+      N2: { amplitude: 0.021, phase: 268 },
+      K2: { amplitude: 0.019, phase: 298 },
+      K1: { amplitude: 0.027, phase: 316 },
+      O1: { amplitude: 0.017, phase: 270 },
+      P1: { amplitude: 0.009, phase: 314 },
+    },
+  },
+  {
+    id: 'limassol',
+    name: 'Limassol',
+    lat: 34.67,
+    lng: 33.04,
+    datumOffset: 0.4,
+    constituents: {
+      M2: { amplitude: 0.095, phase: 280 },
+      S2: { amplitude: 0.058, phase: 298 },
+      N2: { amplitude: 0.017, phase: 262 },
+      K1: { amplitude: 0.025, phase: 312 },
+      O1: { amplitude: 0.016, phase: 268 },
+    },
+  },
+  {
+    id: 'piraeus',
+    name: 'Piraeus',
+    lat: 37.94,
+    lng: 23.62,
+    datumOffset: 0.3,
+    constituents: {
+      M2: { amplitude: 0.04, phase: 290 },
+      S2: { amplitude: 0.025, phase: 300 },
+      K1: { amplitude: 0.03, phase: 338 },
+      O1: { amplitude: 0.02, phase: 300 },
+    },
+  },
+
+  // ==================== WESTERN MEDITERRANEAN ====================
+  {
+    id: 'marseille',
+    name: 'Marseille',
+    lat: 43.28,
+    lng: 5.35,
+    datumOffset: 0.35,
+    constituents: {
+      M2: { amplitude: 0.07, phase: 225 },
+      S2: { amplitude: 0.025, phase: 250 },
+      N2: { amplitude: 0.014, phase: 210 },
+      K1: { amplitude: 0.033, phase: 185 },
+      O1: { amplitude: 0.026, phase: 115 },
+    },
+  },
+  {
+    id: 'gibraltar',
+    name: 'Gibraltar',
+    lat: 36.13,
+    lng: -5.35,
+    datumOffset: 0.5,
+    constituents: {
+      M2: { amplitude: 0.3, phase: 46 },
+      S2: { amplitude: 0.11, phase: 72 },
+      N2: { amplitude: 0.065, phase: 28 },
+      K2: { amplitude: 0.03, phase: 70 },
+      K1: { amplitude: 0.025, phase: 130 },
+      O1: { amplitude: 0.02, phase: 110 },
+    },
+  },
+
+  // ==================== EUROPEAN ATLANTIC ====================
+  {
+    id: 'lisbon',
+    name: 'Lisbon (Cascais)',
+    lat: 38.69,
+    lng: -9.42,
+    datumOffset: 2.0,
+    constituents: {
+      M2: { amplitude: 1.0, phase: 63 },
+      S2: { amplitude: 0.35, phase: 91 },
+      N2: { amplitude: 0.21, phase: 46 },
+      K2: { amplitude: 0.1, phase: 88 },
+      K1: { amplitude: 0.07, phase: 50 },
+      O1: { amplitude: 0.06, phase: 310 },
+      P1: { amplitude: 0.02, phase: 45 },
+      M4: { amplitude: 0.02, phase: 100 },
+    },
+  },
+  {
+    id: 'brest',
+    name: 'Brest',
+    lat: 48.38,
+    lng: -4.5,
+    datumOffset: 4.2,
+    constituents: {
+      M2: { amplitude: 2.05, phase: 141 },
+      S2: { amplitude: 0.75, phase: 180 },
+      N2: { amplitude: 0.41, phase: 122 },
+      K2: { amplitude: 0.21, phase: 177 },
+      K1: { amplitude: 0.065, phase: 74 },
+      O1: { amplitude: 0.067, phase: 327 },
+      P1: { amplitude: 0.022, phase: 68 },
+      Q1: { amplitude: 0.02, phase: 280 },
+      M4: { amplitude: 0.055, phase: 110 },
+      MS4: { amplitude: 0.04, phase: 160 },
+    },
+  },
+  {
+    id: 'dover',
+    name: 'Dover',
+    lat: 51.11,
+    lng: 1.32,
+    datumOffset: 3.7,
+    constituents: {
+      M2: { amplitude: 2.23, phase: 330 },
+      S2: { amplitude: 0.7, phase: 20 },
+      N2: { amplitude: 0.4, phase: 310 },
+      K2: { amplitude: 0.2, phase: 15 },
+      K1: { amplitude: 0.08, phase: 5 },
+      O1: { amplitude: 0.08, phase: 200 },
+      M4: { amplitude: 0.1, phase: 240 },
+      MS4: { amplitude: 0.07, phase: 290 },
+      M6: { amplitude: 0.04, phase: 40 },
+    },
+  },
+
+  // ==================== NORTH AMERICA ====================
+  {
+    id: 'new-york',
+    name: 'New York (The Battery)',
+    lat: 40.7,
+    lng: -74.01,
+    datumOffset: 0.8,
+    constituents: {
+      M2: { amplitude: 0.666, phase: 232 },
+      S2: { amplitude: 0.13, phase: 262 },
+      N2: { amplitude: 0.15, phase: 214 },
+      K2: { amplitude: 0.035, phase: 262 },
+      K1: { amplitude: 0.1, phase: 103 },
+      O1: { amplitude: 0.05, phase: 100 },
+      P1: { amplitude: 0.032, phase: 106 },
+      M4: { amplitude: 0.03, phase: 60 },
+    },
+  },
+  {
+    id: 'san-francisco',
+    name: 'San Francisco',
+    lat: 37.81,
+    lng: -122.47,
+    datumOffset: 0.97,
+    constituents: {
+      M2: { amplitude: 0.58, phase: 331 },
+      S2: { amplitude: 0.13, phase: 333 },
+      N2: { amplitude: 0.12, phase: 305 },
+      K2: { amplitude: 0.04, phase: 326 },
+      K1: { amplitude: 0.37, phase: 106 },
+      O1: { amplitude: 0.23, phase: 89 },
+      P1: { amplitude: 0.115, phase: 104 },
+      Q1: { amplitude: 0.04, phase: 83 },
+    },
+  },
+
+  // ==================== ASIA-PACIFIC ====================
+  {
+    id: 'sydney',
+    name: 'Sydney (Fort Denison)',
+    lat: -33.85,
+    lng: 151.23,
+    datumOffset: 0.92,
+    constituents: {
+      M2: { amplitude: 0.5, phase: 245 },
+      S2: { amplitude: 0.12, phase: 270 },
+      N2: { amplitude: 0.11, phase: 225 },
+      K2: { amplitude: 0.035, phase: 265 },
+      K1: { amplitude: 0.17, phase: 30 },
+      O1: { amplitude: 0.1, phase: 20 },
+      P1: { amplitude: 0.05, phase: 28 },
+    },
+  },
+];
@@ -0,0 +1,267 @@
+/**
+ * Display units
+ *
+ * All data inside the app stays in one canonical unit per quantity, the units
+ * the forecast APIs deliver: wind km/h, heights m, distances NM, temperatures
+ * °C, pressure hPa and depths m. Values are converted only when shown to the
+ * user, and user input (alert thresholds, manual observations) is converted
+ * back to canonical before it is stored or compared.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type WindUnit = 'kt' | 'kmh' | 'ms' | 'mph' | 'bft';
+export type HeightUnit = 'm' | 'ft';
+export type DistanceUnit = 'nm' | 'km' | 'mi';
+export type TemperatureUnit = 'c' | 'f';
+export type PressureUnit = 'hpa' | 'inhg';
+export type DepthUnit = 'm' | 'ft' | 'fathom';
+
+export interface UnitPreferences {
+  wind: WindUnit;
+  height: HeightUnit;
+  distance: DistanceUnit;
+  temperature: TemperatureUnit;
+  pressure: PressureUnit;
+  depth: DepthUnit;
+}
+
+export type UnitQuantity = keyof UnitPreferences;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  wind: 'kmh',
+  height: 'm',
+  distance: 'nm',
+  temperature: 'c',
+  pressure: 'hpa',
+  depth: 'm',
+};
+
+/** Selectable units per quantity, with their display labels */
+export const UNIT_OPTIONS: { [Q in UnitQuantity]: Array<{ value: UnitPreferences[Q]; label: string }> } = {
+  wind: [
+    { value: 'kt', label: 'kts' },
+    { value: 'kmh', label: 'km/h' },
+    { value: 'ms', label: 'm/s' },
+    { value: 'mph', label: 'mph' },
+    { value: 'bft', label: 'Bft' },
+  ],
+  height: [
+    { value: 'm', label: 'm' },
+    { value: 'ft', label: 'ft' },
+  ],
+  distance: [
+    { value: 'nm', label: 'NM' },
+    { value: 'km', label: 'km' },
+    { value: 'mi', label: 'mi' },
+  ],
+  temperature: [
+    { value: 'c', label: '°C' },
+    { value: 'f', label: '°F' },
+  ],
+  pressure: [
+    { value: 'hpa', label: 'hPa' },
+    { value: 'inhg', label: 'inHg' },
+  ],
+  depth: [
+    { value: 'm', label: 'm' },
+    { value: 'ft', label: 'ft' },
+    { value: 'fathom', label: 'fm' },
+  ],
+};
+
+/** Decimals that suit each display unit */
+const DECIMALS: Record<string, number> = {
+  'wind:kt': 0, 'wind:kmh': 0, 'wind:ms': 1, 'wind:mph': 0, 'wind:bft': 0,
+  'height:m': 1, 'height:ft': 1,
+  'distance:nm': 1, 'distance:km': 1, 'distance:mi': 1,
+  'temperature:c': 0, 'temperature:f': 0,
+  'pressure:hpa': 0, 'pressure:inhg': 2,
+  'depth:m': 1, 'depth:ft': 0, 'depth:fathom': 1,
+};
+
+/** Slider and input steps that suit each display unit */
+const STEPS: Record<string, number> = {
+  'wind:kt': 1, 'wind:kmh': 5, 'wind:ms': 1, 'wind:mph': 1, 'wind:bft': 1,
+  'height:m': 0.5, 'height:ft': 1,
+  'distance:nm': 0.1, 'distance:km': 0.1, 'distance:mi': 0.1,
+  'temperature:c': 1, 'temperature:f': 1,
+  'pressure:hpa': 1, 'pressure:inhg': 0.01,
+  'depth:m': 0.5, 'depth:ft': 1, 'depth:fathom': 0.5,
+};
+
+const KMH_PER_KNOT = 1.852;
+const KMH_PER_MS = 3.6;
+const KMH_PER_MPH = 1.609344;
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_FATHOM = 1.8288;
+const KM_PER_NM = 1.852;
+const NM_PER_MILE = 1.609344 / 1.852;
+const HPA_PER_INHG = 33.8639;
+
+/** Lower bound of each Beaufort force in knots (force 0-12) */
+const BEAUFORT_KNOTS = [0, 1, 4, 7, 11, 17, 22, 28, 34, 41, 48, 56, 64];
+
+// ============================================
+// BEAUFORT
+// ============================================
+
+/**
+ * Beaufort force for a wind speed in km/h
+ */
+export function kmhToBeaufort(kmh: number): number {
+  const knots = kmh / KMH_PER_KNOT;
+  let force = 0;
+  while (force < 12 && knots >= BEAUFORT_KNOTS[force + 1]) force++;
+  return force;
+}
+
+/**
+ * Lowest wind speed in km/h that counts as the given Beaufort force
+ */
+export function beaufortToKmh(force: number): number {
+  const clamped = Math.min(12, Math.max(0, Math.round(force)));
+  return BEAUFORT_KNOTS[clamped] * KMH_PER_KNOT;
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Convert a canonical value to the given display unit
+ */
+export function toDisplayUnit(quantity: UnitQuantity, value: number, unit: string): number {
+  switch (`${quantity}:${unit}`) {
+    case 'wind:kt': return value / KMH_PER_KNOT;
+    case 'wind:ms': return value / KMH_PER_MS;
+    case 'wind:mph': return value / KMH_PER_MPH;
+    case 'wind:bft': return kmhToBeaufort(value);
+    case 'height:ft':
+    case 'depth:ft': return value / METERS_PER_FOOT;
+    case 'depth:fathom': return value / METERS_PER_FATHOM;
+    case 'distance:km': return value * KM_PER_NM;
+    case 'distance:mi': return value / NM_PER_MILE;
+    case 'temperature:f': return (value * 9) / 5 + 32;
+    case 'pressure:inhg': return value / HPA_PER_INHG;
+    default: return value;
+  }
+}
+
+/**
+ * Convert a value entered in a display unit back to the canonical unit
+ */
+export function fromDisplayUnit(quantity: UnitQuantity, value: number, unit: string): number {
+  switch (`${quantity}:${unit}`) {
+    case 'wind:kt': return value * KMH_PER_KNOT;
+    case 'wind:ms': return value * KMH_PER_MS;
+    case 'wind:mph': return value * KMH_PER_MPH;
+    case 'wind:bft': return beaufortToKmh(value);
+    case 'height:ft':
+    case 'depth:ft': return value * METERS_PER_FOOT;
+    case 'depth:fathom': return value * METERS_PER_FATHOM;
+    case 'distance:km': return value / KM_PER_NM;
+    case 'distance:mi': return value * NM_PER_MILE;
+    case 'temperature:f': return ((value - 32) * 5) / 9;
+    case 'pressure:inhg': return value * HPA_PER_INHG;
+    default: return value;
+  }
+}
+
+/**
+ * Convert a difference between two canonical values (an error or a bias)
+ * Beaufort is not linear, so wind differences are given in knots instead;
+ * differenceUnit() names the unit the result is in.
+ */
+export function toDisplayDifference(quantity: UnitQuantity, value: number, unit: string): number {
+  const target = differenceUnit(quantity, unit);
+  return toDisplayUnit(quantity, value, target) - toDisplayUnit(quantity, 0, target);
+}
+
+/**
+ * Unit that toDisplayDifference() converts to
+ */
+export const differenceUnit = (quantity: UnitQuantity, unit: string): string =>
+  quantity === 'wind' && unit === 'bft' ? 'kt' : unit;
+
+/**
+ * Convert a wind speed in knots (instrument data) to canonical km/h
+ */
+export const knotsToKmh = (knots: number): number => knots * KMH_PER_KNOT;
+
+// ============================================
+// FORMATTING
+// ============================================
+
+/**
+ * Display label of a unit, e.g. "kts" or "°F"
+ */
+export function unitLabel(quantity: UnitQuantity, unit: string): string {
+  const options = UNIT_OPTIONS[quantity] as Array<{ value: string; label: string }>;
+  return options.find((option) => option.value === unit)?.label ?? unit;
+}
+
+/**
+ * Number of decimals suitable for a display unit
+ */
+export function unitDecimals(quantity: UnitQuantity, unit: string): number {
+  return DECIMALS[`${quantity}:${unit}`] ?? 1;
+}
+
+/**
+ * Input step suitable for a display unit
+ */
+export function unitStep(quantity: UnitQuantity, unit: string): number {
+  return STEPS[`${quantity}:${unit}`] ?? 1;
+}
+
+/**
+ * Convert a canonical value to the number shown for it, without the label
+ *
+ * @param decimals - Overrides the unit's default precision (ignored for Beaufort)
+ * @returns "--" when the value is missing
+ */
+export function formatUnitNumber(
+  quantity: UnitQuantity,
+  value: number | null | undefined,
+  unit: string,
+  decimals?: number
+): string {
+  if (value === null || value === undefined || !isFinite(value)) return '--';
+  const digits = unit === 'bft' ? 0 : decimals ?? unitDecimals(quantity, unit);
+  return toDisplayUnit(quantity, value, unit).toFixed(digits);
+}
+
+/**
+ * Convert a canonical value and format it with its unit label
+ * Beaufort reads as "Bft 5", everything else as "12 kts".
+ */
+export function formatUnitValue(
+  quantity: UnitQuantity,
+  value: number | null | undefined,
+  unit: string,
+  decimals?: number
+): string {
+  const number = formatUnitNumber(quantity, value, unit, decimals);
+  if (number === '--') return number;
+  const label = unitLabel(quantity, unit);
+  return unit === 'bft' ? `${label} ${number}` : `${number} ${label}`;
+}
+
+/**
+ * Format a distance in nautical miles in the given unit
+ * Very short distances are shown in meters (feet for statute miles).
+ */
+export function formatDistanceIn(nauticalMiles: number, unit: DistanceUnit = 'nm'): string {
+  if (nauticalMiles < 0.1) {
+    const meters = nauticalMiles * 1852;
+    return unit === 'mi' ? `${Math.round(meters / METERS_PER_FOOT)} ft` : `${Math.round(meters)} m`;
+  }
+  return `${toDisplayUnit('distance', nauticalMiles, unit).toFixed(2)} ${unitLabel('distance', unit)}`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Minimal XML Utilities
+ *
+ * A small, dependency-free XML reader/writer for exchange formats (GPX, KML).
+ * DOMParser isn't available in React Native or Node, so core parses XML itself.
+ * Supports elements, attributes, text, CDATA, comments and the standard entities;
+ * DTDs and processing instructions are skipped.
+ */
+
+export interface XmlElement {
+  /** Tag name without namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode XML entities in text and attribute values
+ */
+export const decodeXmlEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+
+/**
+ * Escape text for use in XML content or attribute values
+ */
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const stripPrefix = (name: string): string => {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.slice(colon + 1) : name;
+};
+
+/**
+ * Parse an XML document into an element tree
+ *
+ * @throws Error with the offending position when the document is malformed
+ */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: { element: XmlElement; rawName: string }[] = [{ element: root, rawName: '' }];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Malformed XML at position ${position}: ${message}`);
+  };
+
+  while (position < source.length) {
+    const current = stack[stack.length - 1].element;
+    const tagStart = source.indexOf('<', position);
+
+    if (tagStart < 0) {
+      current.text += decodeXmlEntities(source.slice(position));
+      break;
+    }
+
+    if (tagStart > position) {
+      current.text += decodeXmlEntities(source.slice(position, tagStart));
+    }
+    position = tagStart;
+
+    if (source.startsWith('<!--', position)) {
+      const end = source.indexOf('-->', position);
+      if (end < 0) fail('unterminated comment');
+      position = end + 3;
+    } else if (source.startsWith('<![CDATA[', position)) {
+      const end = source.indexOf(']]>', position);
+      if (end < 0) fail('unterminated CDATA section');
+      current.text += source.slice(position + 9, end);
+      position = end + 3;
+    } else if (source.startsWith('<?', position)) {
+      const end = source.indexOf('?>', position);
+      if (end < 0) fail('unterminated processing instruction');
+      position = end + 2;
+    } else if (source.startsWith('<!', position)) {
+      const end = source.indexOf('>', position);
+      if (end < 0) fail('unterminated declaration');
+      position = end + 1;
+    } else if (source.startsWith('</', position)) {
+      const end = source.indexOf('>', position);
+      if (end < 0) fail('unterminated closing tag');
+      const rawName = source.slice(position + 2, end).trim();
+      const open = stack.pop();
+      if (!open || stack.length === 0 || open.rawName !== rawName) {
+        fail(`unexpected closing tag </${rawName}>`);
+      }
+      position = end + 1;
+    } else {
+      const match = /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(
+        source.slice(position)
+      );
+      if (!match) fail('invalid tag');
+
+      const [whole, rawName, rawAttributes, selfClosing] = match!;
+      const attributes: Record<string, string> = {};
+      const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(rawAttributes)) !== null) {
+        attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+
+      const element: XmlElement = { name: stripPrefix(rawName), attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) stack.push({ element, rawName });
+      position += whole.length;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: unclosed tag <${stack[stack.length - 1].rawName}>`);
+  }
+  if (root.children.length === 0) {
+    throw new Error('Malformed XML: no root element');
+  }
+
+  return root.children[0];
+};
+
+/**
+ * First direct child with the given name (namespace prefix ignored)
+ */
+export const findChild = (element: XmlElement, name: string): XmlElement | undefined =>
+  element.children.find((child) => child.name === name);
+
+/**
+ * All direct children with the given name
+ */
+export const findChildren = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter((child) => child.name === name);
+
+/**
+ * All descendants with the given name, in document order
+ */
+export const findDescendants = (element: XmlElement, name: string): XmlElement[] => {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (child.name === name) found.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return found;
+};
+
+/**
+ * Trimmed text of a direct child, if present
+ */
+export const childText = (element: XmlElement, name: string): string | undefined => {
+  const child = findChild(element, name);
+  return child ? child.text.trim() : undefined;
+};
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { StyleSheet, Text, View } from 'react-native';
-import { fetchMarineWeather } from '@seame/core';
+import { fetchMarineWeather, formatUnitNumber } from '@seame/core';
 
 export default function App() {
   const [windSpeed, setWindSpeed] = useState<number | null>(null);
@@ -29,7 +29,7 @@ export default function App() {
         <View style={styles.dataContainer}>
           <View style={styles.metric}>
             <Text style={styles.label}>Wind</Text>
-            <Text style={styles.value}>{windSpeed?.toFixed(0)}</Text>
+            <Text style={styles.value}>{formatUnitNumber('wind', windSpeed, 'kt')}</Text>
             <Text style={styles.unit}>kts</Text>
           </View>
           
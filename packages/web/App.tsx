@@ -5,13 +5,17 @@ import MapComponent from './components/MapComponent';
 import Atmosphere from './components/Atmosphere';
 import { RoutePlanningView } from './components/RoutePlanningView';
 import { CoastsMarinasView } from './components/CoastsMarinasView';
+import { OfflinePacksView } from './components/OfflinePacksView';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { LanguageSelector } from './src/components/LanguageSelector';
-import { LayoutDashboard, Map as MapIcon, Cloud, Navigation, Anchor, MapPin, Plus, Search, X, Check, Moon, Sun } from 'lucide-react';
-import { searchLocations, reverseGeocode } from '@seame/core';
+import { UnitsSelector } from './src/components/UnitsSelector';
+import { AlertNotificationsMenu } from './src/components/AlertNotificationsMenu';
+import { LayoutDashboard, Map as MapIcon, Cloud, Navigation, Anchor, MapPin, Plus, Search, X, Check, Moon, Sun, CloudDownload } from 'lucide-react';
+import { searchLocations, reverseGeocode, getSavedLocations, setSavedLocations, alertLocationKey, anchorWatch, manOverboard } from '@seame/core';
 import { useCachedWeather } from './src/hooks/useCachedWeather';
 import { useTheme } from './src/hooks/useTheme';
 import { useTranslation } from 'react-i18next';
+import { parseAlertDeepLink } from './src/alertNotifications';
 import './src/pwa'; // Register PWA service worker
 
 // Default to a coastal location (Tel Aviv) if geo fails
@@ -23,13 +27,18 @@ const DEFAULT_LOC: Location = {
   country: NAVIGATION_CONSTANTS.DEFAULT_LOCATION.country
 };
 
+// Notification deep link the app was opened with (?view=map&lat=..&lng=..&name=..)
+const DEEP_LINK = typeof window !== 'undefined' ? parseAlertDeepLink(window.location.search) : null;
+const DEEP_LINK_LOC: Location | null = DEEP_LINK && { id: Date.now(), ...DEEP_LINK.location };
+
 const App: React.FC = () => {
   const { resolvedTheme, toggleTheme, setAutoThemeData } = useTheme();
   const { t } = useTranslation();
 
-  const [view, setView] = useState<ViewState>(ViewState.DASHBOARD);
-  const [locations, setLocations] = useState<Location[]>([DEFAULT_LOC]);
-  const [currentLocation, setCurrentLocation] = useState<Location>(DEFAULT_LOC);
+  const [view, setView] = useState<ViewState>(DEEP_LINK?.view === 'map' ? ViewState.MAP : ViewState.DASHBOARD);
+  const [locations, setLocations] = useState<Location[]>(DEEP_LINK_LOC ? [DEEP_LINK_LOC] : [DEFAULT_LOC]);
+  const [currentLocation, setCurrentLocation] = useState<Location>(DEEP_LINK_LOC ?? DEFAULT_LOC);
+  const [savedLoaded, setSavedLoaded] = useState(false);
 
   // Search State
   const [showLocationModal, setShowLocationModal] = useState(false);
@@ -51,6 +60,33 @@ const App: React.FC = () => {
     refetchInterval: UI_CONSTANTS.AUTO_REFRESH_INTERVAL_MS
   });
 
+  // Restore saved locations (the service worker keeps their forecasts fresh)
+  useEffect(() => {
+    getSavedLocations()
+      .then((saved) => {
+        setLocations((prev: Location[]) => [
+          ...prev,
+          ...saved.filter((loc) => !prev.some((l) => l.id === loc.id || alertLocationKey(l) === alertLocationKey(loc))),
+        ]);
+      })
+      .catch((e) => console.error('Failed to load saved locations', e))
+      .finally(() => setSavedLoaded(true));
+
+    // Drop the deep link from the address bar so a reload starts normally
+    if (DEEP_LINK) window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  // A watch or MOB set before a reload keeps running whichever view opens first
+  useEffect(() => {
+    anchorWatch.resume();
+    manOverboard.resume();
+  }, []);
+
+  useEffect(() => {
+    if (!savedLoaded) return;
+    setSavedLocations(locations).catch((e) => console.error('Failed to save locations', e));
+  }, [locations, savedLoaded]);
+
   // Update auto theme data when weather data changes
   useEffect(() => {
     if (weatherData?.general?.sunrise && weatherData?.general?.sunset) {
@@ -87,8 +123,9 @@ const App: React.FC = () => {
             console.error("Failed to reverse geocode", e);
           }
 
-          setLocations([newLoc]);
-          setCurrentLocation(newLoc);
+          setLocations((prev: Location[]) => [newLoc, ...prev.filter(l => l.id !== -1 && l.id !== DEFAULT_LOC.id)]);
+          // A notification deep link chose the location already
+          if (!DEEP_LINK) setCurrentLocation(newLoc);
         },
         (err) => {
           // If geolocation fails or is denied, fall back to default location
@@ -197,6 +234,23 @@ const App: React.FC = () => {
             {/* Language Selector */}
             <LanguageSelector />
 
+            {/* Units Selector */}
+            <UnitsSelector />
+
+            {/* Alert Rule Matches */}
+            <AlertNotificationsMenu />
+
+            {/* Offline Packs */}
+            <button
+              onClick={() => setView(ViewState.OFFLINE_PACKS)}
+              className={`p-2 rounded-lg transition-colors border border-subtle ${
+                view === ViewState.OFFLINE_PACKS ? 'bg-selected' : 'bg-elevated hover:bg-button-secondary'
+              }`}
+              aria-label="Offline packs"
+            >
+              <CloudDownload size={20} className="text-accent" />
+            </button>
+
             {/* Theme Toggle Button */}
             <button
               onClick={toggleTheme}
@@ -353,6 +407,16 @@ const App: React.FC = () => {
               <CoastsMarinasView />
             </ErrorBoundary>
           )}
+          {view === ViewState.OFFLINE_PACKS && (
+            <ErrorBoundary
+              resetKeys={['offline-packs']}
+              onError={(error, errorInfo) => {
+                console.error('Offline packs error:', error, errorInfo);
+              }}
+            >
+              <OfflinePacksView center={{ lat: currentLocation.lat, lng: currentLocation.lng }} />
+            </ErrorBoundary>
+          )}
         </main>
 
       {/* Bottom Navigation */}
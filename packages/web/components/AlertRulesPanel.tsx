@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { BellPlus, Moon, Plus, Trash2, X } from 'lucide-react';
+import { alertEngine, DEFAULT_ALERT_SETTINGS } from '@seame/core';
+import type { AlertCondition, AlertLocation, AlertMetric, AlertRule, AlertSettings, UnitQuantity } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+interface AlertRulesPanelProps {
+  /** Location new rules are created for */
+  location: AlertLocation;
+}
+
+const METRICS: Array<{ metric: AlertMetric; label: string; quantity?: UnitQuantity; unit?: string }> = [
+  { metric: 'windSpeed', label: 'Wind', quantity: 'wind' },
+  { metric: 'windGusts', label: 'Gusts', quantity: 'wind' },
+  { metric: 'windDirection', label: 'Wind from', unit: '°' },
+  { metric: 'waveHeight', label: 'Waves', quantity: 'height' },
+  { metric: 'wavePeriod', label: 'Wave period', unit: 's' },
+  { metric: 'swellHeight', label: 'Swell', quantity: 'height' },
+  { metric: 'swellPeriod', label: 'Swell period', unit: 's' },
+  { metric: 'swellDirection', label: 'Swell from', unit: '°' },
+  { metric: 'pressure', label: 'Pressure', quantity: 'pressure' },
+  { metric: 'seaTemperature', label: 'Water temp', quantity: 'temperature' },
+  { metric: 'daylight', label: 'Daylight' },
+];
+
+const metricInfo = (metric: AlertMetric) => METRICS.find((m) => m.metric === metric)!;
+
+interface DraftCondition {
+  metric: AlertMetric;
+  /** Bounds as typed, in the display unit */
+  min: string;
+  max: string;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+export const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ location }) => {
+  const units = useUnits();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [settings, setSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [minDuration, setMinDuration] = useState('2');
+  const [conditions, setConditions] = useState<DraftCondition[]>([{ metric: 'windSpeed', min: '', max: '' }]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    alertEngine.getRules().then(setRules);
+    alertEngine.getSettings().then(setSettings);
+    alertEngine.on('rules', setRules);
+    return () => alertEngine.off('rules', setRules);
+  }, []);
+
+  const unitOf = (metric: AlertMetric) => {
+    const info = metricInfo(metric);
+    return info.quantity ? units.label(info.quantity) : info.unit ?? '';
+  };
+
+  // Display value -> canonical, undefined when left empty
+  const toCanonical = (metric: AlertMetric, value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const number = parseFloat(value);
+    if (!isFinite(number)) return undefined;
+    const quantity = metricInfo(metric).quantity;
+    return quantity ? units.toCanonical(quantity, number) : number;
+  };
+
+  const describe = (condition: AlertCondition): string => {
+    const info = metricInfo(condition.metric);
+    if (condition.metric === 'daylight') return info.label;
+    const show = (value: number) => (info.quantity ? units.number(info.quantity, value) : String(value));
+    const unit = unitOf(condition.metric);
+    if (condition.min !== undefined && condition.max !== undefined) {
+      return `${info.label} ${show(condition.min)}–${show(condition.max)} ${unit}`;
+    }
+    if (condition.min !== undefined) return `${info.label} ≥ ${show(condition.min)} ${unit}`;
+    if (condition.max !== undefined) return `${info.label} ≤ ${show(condition.max)} ${unit}`;
+    return info.label;
+  };
+
+  const updateCondition = (index: number, update: Partial<DraftCondition>) => {
+    setConditions(conditions.map((c: DraftCondition, i: number) => (i === index ? { ...c, ...update } : c)));
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setName('');
+    setMinDuration('2');
+    setConditions([{ metric: 'windSpeed', min: '', max: '' }]);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const parsed: AlertCondition[] = conditions.map((c: DraftCondition) =>
+      c.metric === 'daylight'
+        ? { metric: 'daylight' }
+        : { metric: c.metric, min: toCanonical(c.metric, c.min), max: toCanonical(c.metric, c.max) }
+    );
+    const incomplete = parsed.find((c) => {
+      if (c.metric === 'daylight') return false;
+      const isDirection = c.metric === 'windDirection' || c.metric === 'swellDirection';
+      return isDirection ? c.min === undefined || c.max === undefined : c.min === undefined && c.max === undefined;
+    });
+    if (incomplete) {
+      setError(`Set a limit for ${metricInfo(incomplete.metric).label.toLowerCase()}`);
+      return;
+    }
+
+    try {
+      await alertEngine.addRule({
+        name: name.trim() || `Alert at ${location.name}`,
+        enabled: true,
+        location,
+        conditions: parsed,
+        minDurationHours: Math.max(1, parseInt(minDuration, 10) || 1),
+      });
+      resetForm();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const updateQuietHours = (update: Partial<AlertSettings['quietHours']>) => {
+    const next = { ...settings, quietHours: { ...settings.quietHours, ...update } };
+    setSettings(next);
+    alertEngine.updateSettings(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-secondary uppercase flex items-center gap-2">
+          <BellPlus size={14} className="text-accent" /> Alert rules
+        </h4>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="px-2 py-1 rounded bg-accent text-white text-xs font-bold flex items-center gap-1"
+          >
+            <Plus size={12} /> New rule
+          </button>
+        )}
+      </div>
+
+      {rules.length === 0 && !isAdding && (
+        <p className="text-xs text-muted">
+          Get notified when the forecast matches your conditions, e.g. wind 12–20 kts from the south-west with waves under 1 m.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {rules.map((rule) => (
+          <div key={rule.id} className="p-2 bg-elevated rounded-lg border border-subtle flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => alertEngine.setRuleEnabled(rule.id, e.target.checked)}
+              className="mt-1 w-4 h-4 accent-blue-500"
+              aria-label={`Enable ${rule.name}`}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-bold text-primary truncate">{rule.name}</div>
+              <div className="text-[10px] text-muted">
+                {rule.location.name} · {rule.minDurationHours} h min
+              </div>
+              <div className="text-xs text-secondary">{rule.conditions.map(describe).join(' · ')}</div>
+            </div>
+            <button
+              onClick={() => alertEngine.deleteRule(rule.id)}
+              className="text-muted hover:text-red-400"
+              aria-label={`Delete ${rule.name}`}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {isAdding && (
+        <div className="p-3 bg-elevated rounded-lg border border-subtle space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={`Alert at ${location.name}`}
+            className="w-full px-2 py-1 rounded bg-card border border-subtle text-sm text-primary"
+          />
+
+          {conditions.map((condition: DraftCondition, index: number) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={condition.metric}
+                onChange={(e) => updateCondition(index, { metric: e.target.value as AlertMetric, min: '', max: '' })}
+                className="px-2 py-1 rounded bg-card border border-subtle text-xs text-primary"
+              >
+                {METRICS.map((m) => (
+                  <option key={m.metric} value={m.metric}>{m.label}</option>
+                ))}
+              </select>
+              {condition.metric !== 'daylight' && (
+                <>
+                  <input
+                    type="number"
+                    value={condition.min}
+                    onChange={(e) => updateCondition(index, { min: e.target.value })}
+                    placeholder={metricInfo(condition.metric).unit === '°' ? 'from' : 'min'}
+                    className="w-16 px-2 py-1 rounded bg-card border border-subtle text-xs text-primary"
+                  />
+                  <input
+                    type="number"
+                    value={condition.max}
+                    onChange={(e) => updateCondition(index, { max: e.target.value })}
+                    placeholder={metricInfo(condition.metric).unit === '°' ? 'to' : 'max'}
+                    className="w-16 px-2 py-1 rounded bg-card border border-subtle text-xs text-primary"
+                  />
+                  <span className="text-xs text-muted">{unitOf(condition.metric)}</span>
+                </>
+              )}
+              {conditions.length > 1 && (
+                <button
+                  onClick={() => setConditions(conditions.filter((_: DraftCondition, i: number) => i !== index))}
+                  className="ml-auto text-muted hover:text-secondary"
+                  aria-label="Remove condition"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+
+          <button
+            onClick={() => setConditions([...conditions, { metric: 'waveHeight', min: '', max: '' }])}
+            className="text-xs font-bold text-accent hover:underline"
+          >
+            + And condition
+          </button>
+
+          <label className="text-xs text-secondary flex items-center gap-2">
+            For at least
+            <input
+              type="number"
+              min={1}
+              value={minDuration}
+              onChange={(e) => setMinDuration(e.target.value)}
+              className="w-14 px-2 py-1 rounded bg-card border border-subtle text-xs text-primary"
+            />
+            hours
+          </label>
+
+          {error && <div className="text-xs text-red-400">{error}</div>}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={resetForm} className="px-3 py-1 rounded text-xs text-secondary hover:text-primary">
+              Cancel
+            </button>
+            <button onClick={handleSave} className="px-3 py-1 rounded bg-accent text-white text-xs font-bold">
+              Save rule
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-secondary pt-2 border-t border-subtle">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.quietHours.enabled}
+            onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+            className="w-4 h-4 accent-blue-500"
+          />
+          <Moon size={12} /> Quiet hours
+        </label>
+        <select
+          value={settings.quietHours.start}
+          onChange={(e) => updateQuietHours({ start: parseInt(e.target.value, 10) })}
+          disabled={!settings.quietHours.enabled}
+          className="px-1 py-0.5 rounded bg-card border border-subtle text-primary disabled:opacity-50"
+        >
+          {HOURS.map((h) => <option key={h} value={h}>{`${h}:00`}</option>)}
+        </select>
+        –
+        <select
+          value={settings.quietHours.end}
+          onChange={(e) => updateQuietHours({ end: parseInt(e.target.value, 10) })}
+          disabled={!settings.quietHours.enabled}
+          className="px-1 py-0.5 rounded bg-card border border-subtle text-primary disabled:opacity-50"
+        >
+          {HOURS.map((h) => <option key={h} value={h}>{`${h}:00`}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Anchor, Crosshair, MapPin, BellOff, X } from 'lucide-react';
+import { anchorWatch, instrumentFeed, calculateSwingRadius } from '@seame/core';
+import type { AnchorWatchState, NavigationAlert } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+const SETTINGS_KEY = 'anchorWatchSettings';
+
+interface AnchorWatchPanelProps {
+  /** Arm (or cancel with null) a one-shot map click that picks the anchor position */
+  onPickPosition: (handler: ((position: { lat: number; lon: number }) => void) | null) => void;
+  onClose: () => void;
+}
+
+const LEVEL_STYLES: Record<AnchorWatchState['level'], string> = {
+  ok: 'text-green-400',
+  caution: 'text-amber-400',
+  alarm: 'text-red-400 animate-pulse',
+};
+
+const LEVEL_LABELS: Record<AnchorWatchState['level'], string> = {
+  ok: 'Holding',
+  caution: 'Near limit',
+  alarm: 'DRAGGING',
+};
+
+const loadSettings = (): { rodeLength: number; depth: number; radius: number } => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {
+    // Fall through to defaults
+  }
+  return { rodeLength: 30, depth: 5, radius: 40 };
+};
+
+/**
+ * Anchor watch controls: rode and swing radius, drop/raise, alarm acknowledgement
+ */
+export const AnchorWatchPanel: React.FC<AnchorWatchPanelProps> = ({ onPickPosition, onClose }) => {
+  const units = useUnits();
+  const [state, setState] = useState<AnchorWatchState | null>(anchorWatch.getState());
+  const [settings, setSettings] = useState(loadSettings);
+  const [alert, setAlert] = useState<NavigationAlert | null>(null);
+  const [picking, setPicking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleUpdate = (next: AnchorWatchState | null) => setState(next);
+    const handleAlert = (next: NavigationAlert) => setAlert(next);
+    anchorWatch.on('update', handleUpdate);
+    anchorWatch.on('alert', handleAlert);
+    return () => {
+      anchorWatch.off('update', handleUpdate);
+      anchorWatch.off('alert', handleAlert);
+      onPickPosition(null);
+    };
+  }, [onPickPosition]);
+
+  const updateSetting = (key: keyof typeof settings, value: number) => {
+    const next = { ...settings, [key]: value };
+    setSettings(next);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+    if (key === 'radius' || key === 'rodeLength') {
+      anchorWatch.updateSettings({ [key]: value });
+    }
+  };
+
+  const suggestRadius = () => {
+    const depth = instrumentFeed.getData().depth ?? settings.depth;
+    updateSetting('radius', Math.round(calculateSwingRadius(settings.rodeLength, depth)));
+  };
+
+  const dropHere = async () => {
+    setError(null);
+    try {
+      await anchorWatch.dropAnchorHere({ rodeLength: settings.rodeLength, radius: settings.radius });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get position');
+    }
+  };
+
+  const pickOnMap = () => {
+    setError(null);
+    setPicking(true);
+    onPickPosition((position) => {
+      setPicking(false);
+      onPickPosition(null);
+      anchorWatch.dropAnchor(position, { rodeLength: settings.rodeLength, radius: settings.radius });
+    });
+  };
+
+  const raise = () => {
+    anchorWatch.raiseAnchor();
+    setAlert(null);
+  };
+
+  // Depth follows the depth unit setting; settings are stored in meters
+  const numberInput = (label: string, key: keyof typeof settings, quantity?: 'depth') => (
+    <label className="flex-1">
+      <span className="block text-[10px] uppercase text-slate-500 mb-1">{label}</span>
+      <input
+        type="number"
+        min={0}
+        value={quantity ? Number(units.convert(quantity, settings[key]).toFixed(1)) : settings[key]}
+        onChange={(e) => updateSetting(key, quantity ? units.toCanonical(quantity, Number(e.target.value)) : Number(e.target.value))}
+        className="w-full p-1.5 border border-slate-700 rounded bg-slate-950 text-white text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="absolute bottom-4 right-4 z-[450] w-72 bg-slate-900/95 backdrop-blur border border-slate-700 rounded-lg shadow-xl p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <Anchor className="w-4 h-4 text-blue-400" />
+          Anchor Watch
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        {numberInput('Rode (m)', 'rodeLength')}
+        {numberInput(`Depth (${units.label('depth')})`, 'depth', 'depth')}
+        {numberInput('Radius (m)', 'radius')}
+      </div>
+      <button onClick={suggestRadius} className="text-xs text-blue-400 hover:text-blue-300 mb-3">
+        Suggest radius from rode and depth
+      </button>
+
+      {state ? (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            <div className="bg-slate-950 p-2 rounded">
+              <p className="text-[10px] uppercase text-slate-500">Status</p>
+              <p className={`font-bold ${LEVEL_STYLES[state.level]}`}>{LEVEL_LABELS[state.level]}</p>
+            </div>
+            <div className="bg-slate-950 p-2 rounded">
+              <p className="text-[10px] uppercase text-slate-500">Distance</p>
+              <p className="font-bold text-white">
+                {state.distance !== undefined ? `${Math.round(state.distance)} m` : '--'}
+                <span className="text-xs text-slate-500"> / max {Math.round(state.maxDistance)} m</span>
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {state.level === 'alarm' && !state.acknowledged && (
+              <button
+                onClick={() => anchorWatch.acknowledge()}
+                className="flex-1 px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-500 flex items-center justify-center gap-2"
+              >
+                <BellOff className="w-4 h-4" />
+                Acknowledge
+              </button>
+            )}
+            <button
+              onClick={raise}
+              className="flex-1 px-3 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700 border border-slate-700"
+            >
+              Raise Anchor
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={dropHere}
+            className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 flex items-center justify-center gap-2"
+          >
+            <Crosshair className="w-4 h-4" />
+            Drop Here
+          </button>
+          <button
+            onClick={pickOnMap}
+            className={`flex-1 px-3 py-2 text-white rounded-lg border border-slate-700 flex items-center justify-center gap-2 ${picking ? 'bg-blue-700' : 'bg-slate-800 hover:bg-slate-700'}`}
+          >
+            <MapPin className="w-4 h-4" />
+            {picking ? 'Tap the map…' : 'Pick on Map'}
+          </button>
+        </div>
+      )}
+
+      {alert && state && <p className="text-xs text-slate-300 mt-2">{alert.message}</p>}
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -9,6 +9,8 @@ import {
 } from 'lucide-react';
 import { format, parseISO, differenceInMinutes, addDays, isToday, isTomorrow } from 'date-fns';
 import { useTranslation } from 'react-i18next';
+import { ModelComparisonChart } from './ModelComparisonChart';
+import { useUnits } from '../src/hooks/useUnits';
 
 interface AtmosphereProps {
   weatherData: MarineWeatherData | null;
@@ -63,7 +65,13 @@ const getWeatherIcon = (code: number, isDay: boolean, size: number = 24) => {
 };
 
 // Get weather summary text based on conditions
-const getWeatherSummary = (code: number, windGusts: number, feelsLike: number, t: (key: string, options?: Record<string, unknown>) => string): string => {
+const getWeatherSummary = (
+  code: number,
+  windGusts: number,
+  feelsLike: number,
+  t: (key: string, options?: Record<string, unknown>) => string,
+  units: ReturnType<typeof useUnits>
+): string => {
   let summary = '';
 
   // Weather condition part
@@ -79,7 +87,7 @@ const getWeatherSummary = (code: number, windGusts: number, feelsLike: number, t
 
   // Wind gusts part
   if (windGusts > 20) {
-    summary += ' ' + t('atmosphere.windGustsInfo', { speed: Math.round(windGusts), temp: Math.round(feelsLike) });
+    summary += ' ' + t('atmosphere.windGustsInfo', { speed: units.format('wind', windGusts), temp: units.number('temperature', feelsLike) });
   }
 
   return summary;
@@ -87,6 +95,7 @@ const getWeatherSummary = (code: number, windGusts: number, feelsLike: number, t
 
 const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
   const { t } = useTranslation();
+  const units = useUnits();
 
   if (!weatherData || !weatherData.general || !weatherData.current) return null;
   const { general, current } = weatherData;
@@ -207,23 +216,23 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
         <div className="text-center">
           {/* Large Temperature */}
           <div className="text-7xl font-thin text-primary mb-1">
-            {Math.round(general.temperature)}°
+            {units.number('temperature', general.temperature)}°
           </div>
 
           {/* Feels Like */}
           <div className="text-secondary text-lg mb-2">
-            {t('weather.feelsLike')}: {Math.round(general.feelsLike)}°
+            {t('weather.feelsLike')}: {units.number('temperature', general.feelsLike)}°
           </div>
 
           {/* High / Low */}
           <div className="text-secondary text-base flex items-center justify-center gap-3">
             <span className="flex items-center gap-1">
               <ArrowUp size={14} className="text-red-400" />
-              <span className="font-semibold">{Math.round(general.dailyForecast[0]?.tempMax || 0)}°</span>
+              <span className="font-semibold">{units.number('temperature', general.dailyForecast[0]?.tempMax || 0)}°</span>
             </span>
             <span className="flex items-center gap-1">
               <ArrowDown size={14} className="text-blue-400" />
-              <span className="font-semibold">{Math.round(general.dailyForecast[0]?.tempMin || 0)}°</span>
+              <span className="font-semibold">{units.number('temperature', general.dailyForecast[0]?.tempMin || 0)}°</span>
             </span>
           </div>
         </div>
@@ -231,7 +240,7 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
         {/* Weather Summary */}
         <div className="mt-4 pt-4 border-t border-app/50">
           <p className="text-secondary text-sm text-center">
-            {getWeatherSummary(general.weatherCode, current.windGusts, general.feelsLike, t)}
+            {getWeatherSummary(general.weatherCode, current.windGusts, general.feelsLike, t, units)}
           </p>
         </div>
       </div>
@@ -274,7 +283,7 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
 
                   {/* Temperature or Sunrise/Sunset time */}
                   <span className="text-sm font-semibold text-primary">
-                    {isSunrise ? sunriseTime : isSunset ? sunsetTime : `${Math.round(hour.temperature)}°`}
+                    {isSunrise ? sunriseTime : isSunset ? sunsetTime : `${units.number('temperature', hour.temperature)}°`}
                   </span>
 
                   {/* Precipitation probability if > 0 */}
@@ -341,7 +350,7 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
 
                 {/* Low Temp */}
                 <div className="w-8 text-right text-sm text-muted">
-                  {Math.round(day.tempMin)}°
+                  {units.number('temperature', day.tempMin)}°
                 </div>
 
                 {/* Temperature Bar */}
@@ -367,7 +376,7 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
 
                 {/* High Temp */}
                 <div className="w-8 text-left text-sm text-primary font-medium">
-                  {Math.round(day.tempMax)}°
+                  {units.number('temperature', day.tempMax)}°
                 </div>
               </div>
             );
@@ -412,6 +421,14 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
               </div>
            </div>
 
+           {/* Nautical Twilight */}
+           {general.twilight?.nauticalDawn && general.twilight?.nauticalDusk && (
+              <div className="flex justify-between text-[10px] text-muted uppercase mb-2">
+                 <span>{t('atmosphere.nauticalDawn')}: <span className="font-mono text-secondary">{format(parseISO(general.twilight.nauticalDawn), 'HH:mm')}</span></span>
+                 <span>{t('atmosphere.nauticalDusk')}: <span className="font-mono text-secondary">{format(parseISO(general.twilight.nauticalDusk), 'HH:mm')}</span></span>
+              </div>
+           )}
+
            {/* Moon Arc Animation */}
            <div className="border-t border-app pt-6 mt-4">
                <h2 className="text-sm font-bold text-secondary uppercase mb-4 flex items-center gap-2">
@@ -503,11 +520,11 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
                <div className="space-y-4">
                   <div className="bg-elevated/50 p-3 rounded-lg border border-subtle w-36">
                       <div className="text-xs text-secondary mb-1">{t('weather.windSpeed')}</div>
-                      <div className="text-3xl font-bold text-primary">{current.windSpeed.toFixed(1)} <span className="text-sm text-muted">{t('units.kmh')}</span></div>
+                      <div className="text-3xl font-bold text-primary">{units.number('wind', current.windSpeed, 1)} <span className="text-sm text-muted">{units.label('wind')}</span></div>
                   </div>
                   <div className="bg-elevated/50 p-3 rounded-lg border border-subtle w-36">
                       <div className="text-xs text-secondary mb-1">{t('atmosphere.gusts')}</div>
-                      <div className="text-3xl font-bold text-purple-400">{current.windGusts.toFixed(1)} <span className="text-sm text-muted">{t('units.kmh')}</span></div>
+                      <div className="text-3xl font-bold text-purple-400">{units.number('wind', current.windGusts, 1)} <span className="text-sm text-muted">{units.label('wind')}</span></div>
                   </div>
                </div>
            </div>
@@ -528,7 +545,7 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
                <div className="flex flex-col items-center p-4 bg-app-base rounded-xl border border-app">
                    <Eye size={24} className="text-accent mb-2" />
                    <div className="text-xs text-muted uppercase">{t('atmosphere.visibility')}</div>
-                   <div className="text-2xl font-bold text-primary mt-1">{(general.visibility / 1000).toFixed(1)} <span className="text-sm">{t('units.kilometers')}</span></div>
+                   <div className="text-2xl font-bold text-primary mt-1">{units.number('distance', general.visibility / 1852, 1)} <span className="text-sm">{units.label('distance')}</span></div>
                    <div className="text-[10px] text-green-400 mt-1">
                       {general.visibility > 9000 ? t('atmosphere.clearView') : t('atmosphere.reducedHaze')}
                    </div>
@@ -548,7 +565,7 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
                <div className="flex flex-col items-center p-4 bg-app-base rounded-xl border border-app col-span-2 md:col-span-1">
                    <Gauge size={24} className="text-orange-400 mb-2" />
                    <div className="text-xs text-muted uppercase">{t('table.pressure')}</div>
-                   <div className="text-2xl font-bold text-primary mt-1">{Math.round(general.pressure)} <span className="text-sm">{t('units.hpa')}</span></div>
+                   <div className="text-2xl font-bold text-primary mt-1">{units.number('pressure', general.pressure)} <span className="text-sm">{units.label('pressure')}</span></div>
                    <div className="text-[10px] text-orange-300 mt-1">{pressureLabel}</div>
                    {/* Bar Indicator */}
                    <div className="w-full h-1.5 bg-elevated rounded-full mt-2 relative">
@@ -579,6 +596,13 @@ const Atmosphere: React.FC<AtmosphereProps> = ({ weatherData }) => {
         </div>
 
       </div>
+
+      <ModelComparisonChart
+        latitude={weatherData.latitude}
+        longitude={weatherData.longitude}
+        utcOffsetSeconds={weatherData.utc_offset_seconds}
+        variables={['windSpeed', 'windGusts', 'windDirection', 'pressure']}
+      />
     </div>
   );
 };
@@ -26,8 +26,10 @@ import {
   Info,
   X,
   Loader,
+  Ship,
+  AlertTriangle,
 } from 'lucide-react';
-import type { Marina } from '@seame/core';
+import type { Marina, NavigationState, Route, RouteAnalysis, VesselPerformance } from '@seame/core';
 import {
   searchNearbyCoasts,
   navigateToMarina,
@@ -38,11 +40,28 @@ import {
   calculateETAToMarina,
   searchMarinasByName,
   formatDistance, 
-  formatTime 
+  formatTime,
+  fetchPointForecast,
+  NAVIGATION_CONSTANTS,
+  planSeaRoute,
+  analyzeRouteHazards,
+  offlineNavigation,
 } from '@seame/core';
 import { ErrorState } from './ErrorState';
+import { HazardAlert } from './HazardAlert';
+import { loadVesselSettings, getVesselPerformance } from './VesselSettingsModal';
+import { useUnits } from '../src/hooks/useUnits';
+
+interface SeaRoute {
+  route: Route;
+  /** Null when the hazard check failed */
+  analysis: RouteAnalysis | null;
+  /** False while the route waits for the user to review its hazards */
+  navigating: boolean;
+}
 
 export const CoastsMarinasView: React.FC = () => {
+  const units = useUnits();
   const [marinas, setMarinas] = useState<Marina[]>([]);
   const [favorites, setFavorites] = useState<Marina[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -55,8 +74,18 @@ export const CoastsMarinasView: React.FC = () => {
   const [selectedMarina, setSelectedMarina] = useState<Marina | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [currentSpeed] = useState(5); // knots
+  const [vesselPerformance] = useState<VesselPerformance | undefined>(() => {
+    const settings = loadVesselSettings();
+    return settings ? getVesselPerformance(settings) : undefined;
+  });
+  const [wind, setWind] = useState<{ speed: number; direction: number } | undefined>();
   const [activeTab, setActiveTab] = useState<'nearby' | 'favorites' | 'search'>('nearby');
 
+  // Sea navigation state
+  const [planningMarinaId, setPlanningMarinaId] = useState<string | null>(null);
+  const [seaRoute, setSeaRoute] = useState<SeaRoute | null>(null);
+  const [navigationState, setNavigationState] = useState<NavigationState | null>(null);
+
   // Filter states
   const [radius, setRadius] = useState(25); // nautical miles
   const [sortBy, setSortBy] = useState<'distance' | 'rating' | 'name'>('distance');
@@ -64,8 +93,45 @@ export const CoastsMarinasView: React.FC = () => {
   useEffect(() => {
     loadFavorites();
     getCurrentLocation();
+
+    // Navigation keeps running while the view is unmounted: pick its route back up
+    const status = offlineNavigation.getStatus();
+    if (status.isNavigating && !status.isMob && status.route) {
+      const route = status.route;
+      setSeaRoute({ route, analysis: null, navigating: true });
+      analyzeSeaRoute(route).then((analysis) =>
+        setSeaRoute((current: SeaRoute | null) => (current?.route === route ? { ...current, analysis } : current))
+      );
+    }
+
+    offlineNavigation.on('navigationUpdate', (state: NavigationState) => {
+      setNavigationState(state);
+    });
+    offlineNavigation.on('destinationReached', () => {
+      setSeaRoute(null);
+      setNavigationState(null);
+    });
+
+    return () => {
+      offlineNavigation.off('navigationUpdate');
+      offlineNavigation.off('destinationReached');
+    };
   }, []);
 
+  // Local wind lets ETAs use the vessel's polar instead of a fixed speed
+  useEffect(() => {
+    if (!currentLocation || !vesselPerformance) return;
+
+    fetchPointForecast(currentLocation.lat, currentLocation.lon)
+      .then((forecast) => {
+        setWind({
+          speed: forecast.windSpeed * NAVIGATION_CONSTANTS.KMH_TO_KNOTS,
+          direction: forecast.windDirection,
+        });
+      })
+      .catch((error) => console.error('Wind forecast error:', error));
+  }, [currentLocation, vesselPerformance]);
+
   const getCurrentLocation = () => {
     if ('geolocation' in navigator) {
       navigator.geolocation.getCurrentPosition(
@@ -148,6 +214,62 @@ export const CoastsMarinasView: React.FC = () => {
     navigateToMarina(marina, app);
   };
 
+  const analyzeSeaRoute = (route: Route): Promise<RouteAnalysis | null> =>
+    analyzeRouteHazards(
+      route.waypoints,
+      loadVesselSettings()?.draft ?? 2.0,
+      500 // 500m safety margin
+    ).catch((error) => {
+      console.error('Error analyzing route:', error);
+      return null;
+    });
+
+  // Plan a water-only route to the marina and check it for hazards before navigating it
+  const handleNavigateBySea = async (marina: Marina) => {
+    if (!currentLocation) {
+      alert('Location not available');
+      return;
+    }
+
+    setPlanningMarinaId(marina.id);
+    try {
+      const route = await planSeaRoute(
+        { ...currentLocation, name: 'Current position' },
+        { lat: marina.lat, lon: marina.lon, name: marina.name },
+        { averageSpeed: currentSpeed }
+      );
+
+      const analysis = await analyzeSeaRoute(route);
+
+      setSeaRoute({ route, analysis, navigating: false });
+      setNavigationState(null);
+      setSelectedMarina(null);
+    } catch (error) {
+      alert('Failed to plan a route by sea: ' + (error as Error).message);
+    } finally {
+      setPlanningMarinaId(null);
+    }
+  };
+
+  const handleStartNavigation = async () => {
+    if (!seaRoute) return;
+
+    try {
+      await offlineNavigation.startNavigation(seaRoute.route);
+      setSeaRoute({ ...seaRoute, navigating: true });
+    } catch (error) {
+      alert('Failed to start navigation: ' + (error as Error).message);
+    }
+  };
+
+  const handleStopNavigation = () => {
+    if (seaRoute?.navigating) {
+      offlineNavigation.stopNavigation();
+    }
+    setSeaRoute(null);
+    setNavigationState(null);
+  };
+
   const handleRefresh = () => {
     handleSearch();
   };
@@ -267,7 +389,7 @@ export const CoastsMarinasView: React.FC = () => {
           <div className="mt-4 p-4 bg-slate-800/50 rounded-lg space-y-4 border border-slate-700">
             <div>
               <label className="block text-sm font-semibold mb-2 text-slate-300">
-                Search Radius: {radius} NM
+                Search Radius: {units.format('distance', radius, 0)}
               </label>
               <input
                 type="range"
@@ -293,6 +415,18 @@ export const CoastsMarinasView: React.FC = () => {
         )}
       </div>
 
+      {/* Sea Navigation */}
+      {seaRoute && (
+        <SeaNavigationPanel
+          route={seaRoute.route}
+          analysis={seaRoute.analysis}
+          navigating={seaRoute.navigating}
+          navigationState={navigationState}
+          onStart={handleStartNavigation}
+          onStop={handleStopNavigation}
+        />
+      )}
+
       {/* Marina List */}
       <div className="space-y-4">
         {error ? (
@@ -318,8 +452,12 @@ export const CoastsMarinasView: React.FC = () => {
               marina={marina}
               isFavorited={isMarinaFavorited(marina.id)}
               currentSpeed={currentSpeed}
+              performance={vesselPerformance}
+              wind={wind}
               onToggleFavorite={() => handleToggleFavorite(marina)}
               onNavigate={(app) => handleNavigate(marina, app)}
+              onNavigateBySea={() => handleNavigateBySea(marina)}
+              isPlanning={planningMarinaId === marina.id}
               onViewDetails={() => setSelectedMarina(marina)}
             />
           ))
@@ -332,9 +470,13 @@ export const CoastsMarinasView: React.FC = () => {
           marina={selectedMarina}
           onClose={() => setSelectedMarina(null)}
           onNavigate={(app) => handleNavigate(selectedMarina, app)}
+          onNavigateBySea={() => handleNavigateBySea(selectedMarina)}
+          isPlanning={planningMarinaId === selectedMarina.id}
           isFavorited={isMarinaFavorited(selectedMarina.id)}
           onToggleFavorite={() => handleToggleFavorite(selectedMarina)}
           currentSpeed={currentSpeed}
+          performance={vesselPerformance}
+          wind={wind}
         />
       )}
     </div>
@@ -346,18 +488,27 @@ const MarinaCard: React.FC<{
   marina: Marina;
   isFavorited: boolean;
   currentSpeed: number;
+  performance?: VesselPerformance;
+  wind?: { speed: number; direction: number };
   onToggleFavorite: () => void;
   onNavigate: (app: 'google' | 'waze' | 'apple') => void;
+  onNavigateBySea: () => void;
+  isPlanning: boolean;
   onViewDetails: () => void;
 }> = ({
   marina,
   isFavorited,
   currentSpeed,
+  performance,
+  wind,
   onToggleFavorite,
   onNavigate,
+  onNavigateBySea,
+  isPlanning,
   onViewDetails,
 }) => {
-  const eta = calculateETAToMarina(marina, currentSpeed);
+  const { units } = useUnits();
+  const eta = calculateETAToMarina(marina, currentSpeed, performance, wind);
 
   return (
     <div className="bg-slate-900 rounded-lg shadow-lg p-6 hover:shadow-xl transition-shadow border border-slate-800">
@@ -417,7 +568,7 @@ const MarinaCard: React.FC<{
             <MapPin className="w-4 h-4 text-blue-400" />
             <p className="text-xs text-slate-300">Distance</p>
           </div>
-          <p className="text-lg font-bold text-white">{formatDistance(marina.distance)}</p>
+          <p className="text-lg font-bold text-white">{formatDistance(marina.distance, units.distance)}</p>
         </div>
         <div className="bg-green-900/30 p-3 rounded-lg border border-green-700/50">
           <div className="flex items-center gap-2 mb-1">
@@ -471,6 +622,14 @@ const MarinaCard: React.FC<{
       </div>
 
       <div className="flex gap-2">
+        <button
+          onClick={onNavigateBySea}
+          disabled={isPlanning}
+          className="flex-1 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-500 disabled:bg-slate-700 flex items-center justify-center gap-2"
+        >
+          {isPlanning ? <Loader className="w-4 h-4 animate-spin" /> : <Ship className="w-4 h-4" />}
+          By Sea
+        </button>
         <button
           onClick={() => onNavigate('google')}
           className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 flex items-center justify-center gap-2"
@@ -501,18 +660,27 @@ const MarinaDetailsModal: React.FC<{
   marina: Marina;
   onClose: () => void;
   onNavigate: (app: 'google' | 'waze' | 'apple') => void;
+  onNavigateBySea: () => void;
+  isPlanning: boolean;
   isFavorited: boolean;
   onToggleFavorite: () => void;
   currentSpeed: number;
+  performance?: VesselPerformance;
+  wind?: { speed: number; direction: number };
 }> = ({
   marina,
   onClose,
   onNavigate,
+  onNavigateBySea,
+  isPlanning,
   isFavorited,
   onToggleFavorite,
   currentSpeed,
+  performance,
+  wind,
 }) => {
-  const eta = calculateETAToMarina(marina, currentSpeed);
+  const { units } = useUnits();
+  const eta = calculateETAToMarina(marina, currentSpeed, performance, wind);
 
   return (
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -536,7 +704,7 @@ const MarinaDetailsModal: React.FC<{
           <div className="grid grid-cols-3 gap-4 mb-6">
             <div className="text-center p-4 bg-blue-900/30 rounded-lg border border-blue-700/50">
               <MapPin className="w-6 h-6 text-blue-400 mx-auto mb-2" />
-              <p className="text-2xl font-bold text-white">{formatDistance(marina.distance)}</p>
+              <p className="text-2xl font-bold text-white">{formatDistance(marina.distance, units.distance)}</p>
               <p className="text-sm text-slate-400">Distance</p>
             </div>
             <div className="text-center p-4 bg-green-900/30 rounded-lg border border-green-700/50">
@@ -593,6 +761,14 @@ const MarinaDetailsModal: React.FC<{
           </div>
 
           <div className="space-y-3">
+            <button
+              onClick={onNavigateBySea}
+              disabled={isPlanning}
+              className="w-full py-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-500 disabled:bg-slate-700 flex items-center justify-center gap-2"
+            >
+              {isPlanning ? <Loader className="w-5 h-5 animate-spin" /> : <Ship className="w-5 h-5" />}
+              {isPlanning ? 'Planning Sea Route...' : 'Navigate by Sea'}
+            </button>
             <button
               onClick={() => onNavigate('google')}
               className="w-full py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-500 flex items-center justify-center gap-2"
@@ -625,4 +801,93 @@ const MarinaDetailsModal: React.FC<{
   );
 };
 
+// Sea Navigation Panel Component
+const SeaNavigationPanel: React.FC<{
+  route: Route;
+  analysis: RouteAnalysis | null;
+  navigating: boolean;
+  navigationState: NavigationState | null;
+  onStart: () => void;
+  onStop: () => void;
+}> = ({ route, analysis, navigating, navigationState, onStart, onStop }) => {
+  const { units } = useUnits();
+  const destination = route.waypoints[route.waypoints.length - 1];
+  const checked = analysis?.isSafe === true;
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-lg p-6 mb-4 border border-emerald-700/50">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold flex items-center gap-2 text-white">
+            <Ship className="w-6 h-6 text-emerald-400" />
+            {navigating ? 'Navigating' : 'Route'} to {destination.name} by sea
+          </h2>
+          <p className="text-sm text-slate-400">
+            {route.waypoints.length - 2} turning point{route.waypoints.length === 3 ? '' : 's'} around land
+          </p>
+        </div>
+        {navigating ? (
+          <button
+            onClick={onStop}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-500"
+          >
+            Stop
+          </button>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              onClick={onStart}
+              className={`px-4 py-2 text-white rounded-lg ${
+                checked ? 'bg-green-600 hover:bg-green-500' : 'bg-orange-600 hover:bg-orange-500'
+              }`}
+            >
+              {checked ? 'Start Navigation' : 'Start Anyway'}
+            </button>
+            <button
+              onClick={onStop}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div className="bg-blue-900/30 p-3 rounded-lg border border-blue-700/50">
+          <p className="text-xs text-slate-300">Sea distance</p>
+          <p className="text-lg font-bold text-white">{formatDistance(route.totalDistance, units.distance)}</p>
+        </div>
+        <div className="bg-green-900/30 p-3 rounded-lg border border-green-700/50">
+          <p className="text-xs text-slate-300">ETA</p>
+          <p className="text-lg font-bold text-white">{formatTime(route.estimatedTime * 60)}</p>
+        </div>
+        <div className="bg-emerald-900/30 p-3 rounded-lg border border-emerald-700/50">
+          <p className="text-xs text-slate-300">
+            {navigationState?.nextWaypoint ? `To ${navigationState.nextWaypoint.name}` : 'Next waypoint'}
+          </p>
+          <p className="text-lg font-bold text-white">
+            {navigationState
+              ? `${formatDistance(navigationState.distanceToNext, units.distance)} · ${Math.round(navigationState.bearingToNext)}°`
+              : 'Acquiring GPS...'}
+          </p>
+        </div>
+      </div>
+
+      {analysis ? (
+        <HazardAlert analysis={analysis} />
+      ) : (
+        !navigating && (
+          <div className="bg-orange-900/30 border border-orange-700/50 p-4 rounded-lg flex items-start">
+            <AlertTriangle className="w-6 h-6 text-orange-500 mr-2 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-orange-300">
+              The route could not be checked for hazards. Verify it against official charts before navigating.
+            </p>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
 export default CoastsMarinasView;
@@ -1,5 +1,5 @@
-import React, { useMemo, useState } from 'react';
-import { MarineWeatherData, AlertConfig } from '@seame/core';
+import React, { useEffect, useMemo, useState } from 'react';
+import { MarineWeatherData, AlertConfig, DEFAULT_ALERT_CONFIG } from '@seame/core';
 import {
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, ComposedChart, Line, Legend
 } from 'recharts';
@@ -12,7 +12,11 @@ import { format, parseISO } from 'date-fns';
 import { getWeatherDescription } from '@seame/core';
 import { DashboardSkeleton } from './LoadingSkeleton';
 import { ErrorState } from './ErrorState';
+import { ModelComparisonChart } from './ModelComparisonChart';
+import { ForecastVerificationPanel } from './ForecastVerificationPanel';
+import { AlertRulesPanel } from './AlertRulesPanel';
 import { useTranslation } from 'react-i18next';
+import { useUnits } from '../src/hooks/useUnits';
 
 interface DashboardProps {
   weatherData: MarineWeatherData | null | undefined;
@@ -22,13 +26,6 @@ interface DashboardProps {
   onRetry?: () => void;
 }
 
-const DEFAULT_ALERT_CONFIG: AlertConfig = {
-  waveHeightThreshold: 2.0,
-  windSpeedThreshold: 40,
-  swellHeightThreshold: 2.5,
-  simulateTsunami: false
-};
-
 // --- Weather Animation Component ---
 const WeatherAnimation: React.FC<{ code: number }> = ({ code }) => {
   // Clear
@@ -87,11 +84,25 @@ const getWeatherConditionKey = (code: number): string => {
 
 const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, locationName, onRetry }) => {
   const { t } = useTranslation();
+  const units = useUnits();
   const [showSettings, setShowSettings] = useState(false);
-  const [alertConfig, setAlertConfig] = useState<AlertConfig>(DEFAULT_ALERT_CONFIG);
+  const [alertConfig, setAlertConfig] = useState<AlertConfig>(() => {
+    try {
+      const saved = localStorage.getItem('alertConfig');
+      if (saved) return { ...DEFAULT_ALERT_CONFIG, ...JSON.parse(saved) };
+    } catch {
+      // Fall through to defaults
+    }
+    return DEFAULT_ALERT_CONFIG;
+  });
   const [forecastTab, setForecastTab] = useState<'mariner' | 'surfer' | 'kite' | 'beach'>('mariner');
   const [dismissedAlert, setDismissedAlert] = useState(false);
 
+  // Limits are shared with the departure planner
+  useEffect(() => {
+    localStorage.setItem('alertConfig', JSON.stringify(alertConfig));
+  }, [alertConfig]);
+
   // Graph Tab State
   const [activeGraph, setActiveGraph] = useState<'tide' | 'wave' | 'swell'>('wave');
 
@@ -116,7 +127,9 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
   const getSeaStateFull = (minM: number, maxM: number): string => {
     const minTerm = getSeaStateTerm(minM);
     const maxTerm = getSeaStateTerm(maxM);
-    const rangeText = `${(minM * 100).toFixed(0)}-${(maxM * 100).toFixed(0)} cm`;
+    const rangeText = units.units.height === 'm'
+      ? `${(minM * 100).toFixed(0)}-${(maxM * 100).toFixed(0)} cm`
+      : `${units.number('height', minM)}-${units.number('height', maxM)} ${units.label('height')}`;
     if (minTerm === maxTerm) return `${minTerm} (${rangeText})`;
     return `${minTerm} ${t('seaState.to')} ${maxTerm} (${rangeText})`;
   };
@@ -157,25 +170,25 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
       return {
         time: time,
         displayTime: format(parseISO(time), 'HH:mm'),
-        waveHeight: weatherData.hourly.wave_height?.[globalIndex] || 0,
-        windSpeed: weatherData.hourly.wind_speed_10m?.[globalIndex] || 0,
-        swellHeight: weatherData.hourly.swell_wave_height?.[globalIndex] || 0,
+        waveHeight: units.convert('height', weatherData.hourly.wave_height?.[globalIndex] || 0),
+        windSpeed: units.convert('wind', weatherData.hourly.wind_speed_10m?.[globalIndex] || 0),
+        swellHeight: units.convert('height', weatherData.hourly.swell_wave_height?.[globalIndex] || 0),
         wavePeriod: weatherData.hourly.wave_period?.[globalIndex] || 0,
         swellPeriod: weatherData.hourly.swell_wave_period?.[globalIndex] || 0,
       };
     });
 
     return data;
-  }, [weatherData, currentHourIndex]);
+  }, [weatherData, currentHourIndex, units]);
 
   const tideChartData = useMemo(() => {
     if (!weatherData?.tides) return [];
     return weatherData.tides.hourly.slice(0, 24).map(t => ({
       time: t.time,
       displayTime: format(parseISO(t.time), 'HH:mm'),
-      height: t.height
+      height: units.convert('height', t.height)
     }));
-  }, [weatherData]);
+  }, [weatherData, units]);
 
   // Use the coherent 'current' object from API directly
   const currentConditions = useMemo(() => {
@@ -339,17 +352,18 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
         const swellDirs = sliceIndexes.map(idx => weatherData.hourly.swell_wave_direction[idx]);
         const uvs = sliceIndexes.map(idx => weatherData.hourly.uv_index?.[idx] || 0);
 
-        const minPress = Math.min(...pressures).toFixed(0);
-        const maxPress = Math.max(...pressures).toFixed(0);
+        const minPress = units.number('pressure', Math.min(...pressures));
+        const maxPress = units.number('pressure', Math.max(...pressures));
         
         const minWave = Math.min(...waveHeights);
         const maxWave = Math.max(...waveHeights);
         
-        const minWind = Math.min(...windSpeeds).toFixed(0);
-        const maxWind = Math.max(...windSpeeds).toFixed(0);
+        const minWindKmh = Math.min(...windSpeeds);
+        const maxWindKmh = Math.max(...windSpeeds);
+        const windRange = `${units.number('wind', minWindKmh)}-${units.number('wind', maxWindKmh)} ${units.label('wind')}`;
         
         const avgVisMeters = visibilities.reduce((a, b) => a + b, 0) / visibilities.length;
-        const avgVisNM = (avgVisMeters / 1852).toFixed(0);
+        const avgVisNM = avgVisMeters / 1852;
 
         const startDirVal = windDirs[0];
         const endDirVal = windDirs[windDirs.length - 1];
@@ -362,7 +376,7 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
 
         const swellDirAvg = swellDirs.reduce((a,b)=>a+b,0) / swellDirs.length;
         const swellDirText = getMarinerWindDir(swellDirAvg);
-        const swellHeightAvg = (swellHeights.reduce((a,b)=>a+b,0) / swellHeights.length).toFixed(1);
+        const swellHeightAvg = swellHeights.reduce((a,b)=>a+b,0) / swellHeights.length;
         const swellPeriodAvg = (swellPeriods.reduce((a,b)=>a+b,0) / swellPeriods.length).toFixed(1);
         const wavePeriodAvg = (wavePeriods.reduce((a,b)=>a+b,0) / wavePeriods.length).toFixed(1);
         
@@ -374,22 +388,28 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
         blocks.push({
             period: `${startTime} - ${endTime}`,
             date: nextDay,
-            pressure: `${minPress}-${maxPress} hPa`,
+            pressure: `${minPress}-${maxPress} ${units.label('pressure')}`,
             seaStatus: getSeaStateFull(minWave, maxWave),
-            wind: `${windDirText} (${minWind}-${maxWind} km/h)`,
-            visibility: `${avgVisNM} nm`,
+            wind: `${windDirText} (${windRange})`,
+            windDir: windDirText,
+            windRange,
+            minWindKmh,
+            maxWindKmh,
+            visibility: units.format('distance', avgVisNM, 0),
             weatherCode: hourlyCode, 
             swell: swellDirText,
-            swellHeight: swellHeightAvg,
+            swellHeight: units.format('height', swellHeightAvg),
+            swellHeightM: swellHeightAvg,
             swellPeriod: swellPeriodAvg,
-            waveHeight: `${minWave.toFixed(1)}-${maxWave.toFixed(1)}m`,
+            waveHeight: `${units.number('height', minWave)}-${units.number('height', maxWave)} ${units.label('height')}`,
             wavePeriod: wavePeriodAvg,
-            temp: weatherData.general?.temperature.toFixed(0) || "20",
+            temp: units.format('temperature', weatherData.general?.temperature ?? 20),
+            tempC: weatherData.general?.temperature ?? 20,
             uv: maxUVBlock
         });
     }
     return blocks;
-  }, [weatherData, currentHourIndex]);
+  }, [weatherData, currentHourIndex, units]);
 
   const handleNextTab = () => {
     const tabs: ('mariner' | 'surfer' | 'kite' | 'beach')[] = ['mariner', 'surfer', 'kite', 'beach'];
@@ -470,12 +490,12 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
              <div className="space-y-4">
                  <div>
-                    <label className="text-xs text-secondary flex justify-between mb-1">{t('dashboard.waveThreshold')} (m) <span className="text-primary">{alertConfig.waveHeightThreshold}</span></label>
-                    <input type="range" min="0.5" max="10" step="0.5" value={alertConfig.waveHeightThreshold} onChange={(e)=>setAlertConfig({...alertConfig, waveHeightThreshold: parseFloat(e.target.value)})} className="w-full h-2 bg-elevated rounded-lg cursor-pointer accent-blue-500"/>
+                    <label className="text-xs text-secondary flex justify-between mb-1">{t('settings.waveThreshold')} ({units.label('height')}) <span className="text-primary">{units.number('height', alertConfig.waveHeightThreshold)}</span></label>
+                    <input type="range" {...units.range('height', 0.5, 10)} value={units.convert('height', alertConfig.waveHeightThreshold)} onChange={(e)=>setAlertConfig({...alertConfig, waveHeightThreshold: units.toCanonical('height', parseFloat(e.target.value))})} className="w-full h-2 bg-elevated rounded-lg cursor-pointer accent-blue-500"/>
                  </div>
                  <div>
-                    <label className="text-xs text-secondary flex justify-between mb-1">{t('dashboard.windThreshold')} (km/h) <span className="text-primary">{alertConfig.windSpeedThreshold}</span></label>
-                    <input type="range" min="10" max="100" step="5" value={alertConfig.windSpeedThreshold} onChange={(e)=>setAlertConfig({...alertConfig, windSpeedThreshold: parseFloat(e.target.value)})} className="w-full h-2 bg-elevated rounded-lg cursor-pointer accent-cyan-500"/>
+                    <label className="text-xs text-secondary flex justify-between mb-1">{t('settings.windThreshold')} ({units.label('wind')}) <span className="text-primary">{units.number('wind', alertConfig.windSpeedThreshold)}</span></label>
+                    <input type="range" {...units.range('wind', 10, 100)} value={units.convert('wind', alertConfig.windSpeedThreshold)} onChange={(e)=>setAlertConfig({...alertConfig, windSpeedThreshold: units.toCanonical('wind', parseFloat(e.target.value))})} className="w-full h-2 bg-elevated rounded-lg cursor-pointer accent-cyan-500"/>
                  </div>
                  <div className="flex items-center justify-between p-3 bg-red-950/30 border border-red-900/50 rounded-lg">
                     <div className="flex items-center gap-2">
@@ -490,6 +510,7 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                     />
                  </div>
              </div>
+             <AlertRulesPanel location={{ name: locationName, lat: weatherData.latitude, lng: weatherData.longitude }} />
           </div>
         </div>
       )}
@@ -521,7 +542,7 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                        {/* Updated Kite Card to show only wind data */}
                        <div className="flex flex-col items-center">
                           <div className="font-bold text-lg text-primary font-mono flex items-center gap-1">
-                             {(currentConditions?.wind || 0).toFixed(0)} <span className="text-xs text-secondary font-sans">km/h</span>
+                             {units.number('wind', currentConditions?.wind || 0)} <span className="text-xs text-secondary font-sans">{units.label('wind')}</span>
                           </div>
                           <div className="flex items-center gap-1 text-[10px] text-secondary mt-1">
                              <Navigation size={10} style={{ transform: `rotate(${currentConditions?.windDirection || 0}deg)` }} className="text-cyan-400" />
@@ -559,8 +580,8 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
               <span className="text-xs font-bold uppercase">{t('weather.waveHeight')}</span>
            </div>
            <div className="flex items-baseline gap-1">
-             <span className="text-3xl font-bold text-primary">{currentConditions.wave.toFixed(1)}</span>
-             <span className="text-sm text-muted">m</span>
+             <span className="text-3xl font-bold text-primary">{units.number('height', currentConditions.wave)}</span>
+             <span className="text-sm text-muted">{units.label('height')}</span>
            </div>
            <p className="text-xs text-muted mt-1">{t('weather.period')}: {currentConditions.wavePeriod.toFixed(1)}s</p>
         </div>
@@ -573,8 +594,8 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
               <span className="text-xs font-bold uppercase">{t('weather.windSpeed')}</span>
            </div>
            <div className="flex items-baseline gap-1">
-             <span className="text-3xl font-bold text-primary">{currentConditions.wind.toFixed(0)}</span>
-             <span className="text-sm text-muted">km/h</span>
+             <span className="text-3xl font-bold text-primary">{units.number('wind', currentConditions.wind)}</span>
+             <span className="text-sm text-muted">{units.label('wind')}</span>
            </div>
            <div className="flex items-center gap-1 mt-1 text-muted text-xs">
               <Navigation size={12} style={{ transform: `rotate(${currentConditions.windDirection}deg)` }} />
@@ -590,8 +611,8 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
               <span className="text-xs font-bold uppercase">{t('weather.swell')}</span>
            </div>
            <div className="flex items-baseline gap-1">
-             <span className="text-3xl font-bold text-primary">{currentConditions.swell.toFixed(1)}</span>
-             <span className="text-sm text-muted">m</span>
+             <span className="text-3xl font-bold text-primary">{units.number('height', currentConditions.swell)}</span>
+             <span className="text-sm text-muted">{units.label('height')}</span>
            </div>
            <div className="mt-1 text-muted text-xs">
               <div className="flex items-center gap-1 mb-1">
@@ -613,8 +634,8 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                       <span className="text-xs font-bold uppercase">{t('weather.air')}</span>
                    </div>
                    <div className="flex items-baseline gap-1">
-                     <span className="text-3xl font-bold text-primary">{weatherData.general?.temperature.toFixed(0)}</span>
-                     <span className="text-sm text-muted">°C</span>
+                     <span className="text-3xl font-bold text-primary">{units.number('temperature', weatherData.general?.temperature)}</span>
+                     <span className="text-sm text-muted">{units.label('temperature')}</span>
                    </div>
                </div>
 
@@ -627,12 +648,12 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                       <span className="text-xs font-bold uppercase">{t('weather.sea')}</span>
                    </div>
                    <div className="flex items-baseline gap-1">
-                     <span className="text-3xl font-bold text-primary">{currentConditions.seaTemp?.toFixed(0)}</span>
-                     <span className="text-sm text-muted">°C</span>
+                     <span className="text-3xl font-bold text-primary">{units.number('temperature', currentConditions.seaTemp)}</span>
+                     <span className="text-sm text-muted">{units.label('temperature')}</span>
                    </div>
                </div>
            </div>
-           <p className="text-xs text-muted mt-2 absolute bottom-2 left-4">{t('weather.feelsLike')} {weatherData.general?.feelsLike.toFixed(0)}°</p>
+           <p className="text-xs text-muted mt-2 absolute bottom-2 left-4">{t('weather.feelsLike')} {units.number('temperature', weatherData.general?.feelsLike)}°</p>
         </div>
       </div>
 
@@ -682,11 +703,16 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                   <div className="flex gap-4">
                      <div className="flex items-center gap-1"><ArrowUp size={12} className="text-accent" /><span className="text-secondary">{t('forecast.high')}: {format(parseISO(weatherData.tides.nextHigh.time), 'HH:mm')}</span></div>
                      <div className="flex items-center gap-1"><ArrowDown size={12} className="text-accent" /><span className="text-secondary">{t('forecast.low')}: {format(parseISO(weatherData.tides.nextLow.time), 'HH:mm')}</span></div>
+                     {weatherData.tides.station && (
+                        <div className="hidden md:flex gap-1 items-center text-muted">
+                            <span>{t('forecast.tideStation')}: {weatherData.tides.station.name} ({units.format('distance', weatherData.tides.station.distance)})</span>
+                        </div>
+                     )}
                      {currentConditions.seaLevel !== undefined && (
                         <div className="hidden md:flex gap-1 items-center bg-elevated/50 px-2 py-0.5 rounded">
                             <Ruler size={10} className="text-teal-400" />
                             <span className="text-secondary">MSL:</span>
-                            <span className="text-primary font-bold">{currentConditions.seaLevel.toFixed(2)}m</span>
+                            <span className="text-primary font-bold">{units.format('height', currentConditions.seaLevel, 2)}</span>
                         </div>
                      )}
                   </div>
@@ -695,7 +721,7 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                  <>
                    <div className="flex items-center gap-2">
                       <div className={`w-3 h-3 rounded-full opacity-50 ${activeGraph === 'wave' ? 'bg-blue-500' : 'bg-teal-500'}`}></div>
-                      <span className="text-secondary">{t('weather.height')} (m)</span>
+                      <span className="text-secondary">{t('weather.height')} ({units.label('height')})</span>
                    </div>
                    <div className="flex items-center gap-2">
                       <div className="w-3 h-1 bg-yellow-400 rounded-full"></div>
@@ -733,7 +759,7 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                           fontSize={10}
                           tickLine={false}
                           axisLine={false}
-                          label={{ value: 'm', angle: -90, position: 'insideLeft', fill: 'var(--chart-text)' }}
+                          label={{ value: units.label('height'), angle: -90, position: 'insideLeft', fill: 'var(--chart-text)' }}
                       />
 
                       {/* Right Axis: Period (Seconds) */}
@@ -767,6 +793,15 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
           </div>
       </div>
 
+      <ModelComparisonChart
+        latitude={weatherData.latitude}
+        longitude={weatherData.longitude}
+        utcOffsetSeconds={weatherData.utc_offset_seconds}
+        variables={['waveHeight', 'swellHeight', 'wavePeriod', 'windSpeed', 'windGusts']}
+      />
+
+      <ForecastVerificationPanel latitude={weatherData.latitude} longitude={weatherData.longitude} />
+
       <div className="bg-card border border-app rounded-xl overflow-hidden relative">
         <div className="p-4 border-b border-subtle flex justify-between items-center bg-card/50">
             <h3 className="text-sm font-bold text-secondary uppercase flex items-center gap-2">
@@ -845,7 +880,7 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                                         <WeatherAnimation code={row.weatherCode} />
                                         {getWeatherConditionTranslated(row.weatherCode)}
                                     </td>
-                                    <td className="p-3 text-teal-400">{row.swell} ({row.swellHeight}m)</td>
+                                    <td className="p-3 text-teal-400">{row.swell} ({row.swellHeight})</td>
                                 </>
                             )}
 
@@ -853,12 +888,12 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
                                 <>
                                     <td className="p-3 border-r border-subtle font-bold text-blue-300">{row.waveHeight}</td>
                                     <td className="p-3 border-r border-subtle">{row.wavePeriod}s</td>
-                                    <td className="p-3 border-r border-subtle font-medium text-teal-300">{row.swellHeight}m</td>
+                                    <td className="p-3 border-r border-subtle font-medium text-teal-300">{row.swellHeight}</td>
                                     <td className="p-3 border-r border-subtle">{row.swellPeriod}s</td>
                                     <td className="p-3 border-r border-subtle">{row.swell}</td>
                                     <td className="p-3">
                                         {(() => {
-                                            const swellH = parseFloat(row.swellHeight);
+                                            const swellH = row.swellHeightM;
                                             const swellP = parseFloat(row.swellPeriod);
                                             if (swellH >= 1.5 && swellP >= 8) return <span className="text-purple-400 font-bold">{t('activity.surf.epic')}</span>;
                                             if (swellH >= 1.0 && swellP >= 6) return <span className="text-green-400 font-bold">{t('activity.surf.good')}</span>;
@@ -871,29 +906,29 @@ const Dashboard: React.FC<DashboardProps> = ({ weatherData, loading, error, loca
 
                             {forecastTab === 'kite' && (
                                 <>
-                                    <td className="p-3 border-r border-subtle font-bold text-cyan-300">{row.wind.split('(')[1]?.replace(')', '') || row.wind}</td>
-                                    <td className="p-3 border-r border-subtle">{row.wind.split('(')[0]}</td>
+                                    <td className="p-3 border-r border-subtle font-bold text-cyan-300">{row.windRange}</td>
+                                    <td className="p-3 border-r border-subtle">{row.windDir}</td>
                                     <td className="p-3 border-r border-subtle">{row.waveHeight}</td>
                                     <td className="p-3 border-r border-subtle flex items-center gap-1.5">
                                          <WeatherAnimation code={row.weatherCode} />
                                          {getWeatherConditionTranslated(row.weatherCode)}
                                     </td>
                                     <td className="p-3">
-                                        {row.wind.includes("20-") || row.wind.includes("25-") ? <span className="text-green-400 font-bold">{t('activity.kite.optimal')}</span> : <span className="text-muted">{t('activity.kite.light')}</span>}
+                                        {row.minWindKmh >= 20 && row.minWindKmh < 30 ? <span className="text-green-400 font-bold">{t('activity.kite.optimal')}</span> : <span className="text-muted">{t('activity.kite.light')}</span>}
                                     </td>
                                 </>
                             )}
                              {forecastTab === 'beach' && (
                                 <>
-                                    <td className="p-3 border-r border-subtle font-bold text-yellow-300">{row.temp}°C</td>
+                                    <td className="p-3 border-r border-subtle font-bold text-yellow-300">{row.temp}</td>
                                     <td className="p-3 border-r border-subtle">{row.uv}</td>
                                     <td className="p-3 border-r border-subtle">{row.wind}</td>
                                     <td className="p-3 border-r border-subtle">{row.seaStatus.split('(')[0]}</td>
                                     <td className="p-3">
                                         {(() => {
                                             const code = row.weatherCode;
-                                            const temp = parseFloat(row.temp);
-                                            const wind = parseFloat(row.wind.split('-')[1] || row.wind);
+                                            const temp = row.tempC;
+                                            const wind = row.maxWindKmh;
 
                                             if (code >= 51 || code >= 80) return <span className="text-red-400 font-bold">{t('activity.beach.poorRain')}</span>;
                                             if (code === 3 && temp <= 20) return <span className="text-secondary">{t('activity.beach.coolCloudy')}</span>;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { CalendarClock, Loader, Wind, Waves, Clock } from 'lucide-react';
+import { addHours, format, startOfHour } from 'date-fns';
+import {
+  fetchRouteForecast,
+  createRouteForecastSampler,
+  planDepartureWindows,
+  rankDepartureWindows,
+  formatTime,
+  DEFAULT_ALERT_CONFIG,
+} from '@seame/core';
+import type { AlertConfig, DepartureRating, DepartureWindow, Route, VesselPerformance } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+interface DepartureWindowPlannerProps {
+  route: Route;
+  performance?: VesselPerformance;
+}
+
+const RATING_COLORS: Record<DepartureRating, string> = {
+  good: 'bg-green-500',
+  marginal: 'bg-yellow-500',
+  bad: 'bg-red-600',
+  unavailable: 'bg-slate-700',
+};
+
+const RATING_LABELS: Record<DepartureRating, string> = {
+  good: 'Good',
+  marginal: 'Marginal',
+  bad: 'Exceeds limits',
+  unavailable: 'Beyond forecast',
+};
+
+/**
+ * Limits set in the dashboard alert configuration
+ */
+const loadAlertLimits = (): AlertConfig => {
+  try {
+    const saved = localStorage.getItem('alertConfig');
+    if (saved) return { ...DEFAULT_ALERT_CONFIG, ...JSON.parse(saved) };
+  } catch {
+    // Fall through to defaults
+  }
+  return DEFAULT_ALERT_CONFIG;
+};
+
+const describeWindow = (window: DepartureWindow, units: ReturnType<typeof useUnits>): string =>
+  `${format(window.departure, 'EEE HH:mm')} – ${RATING_LABELS[window.rating]}\n` +
+  `Passage: ${formatTime(window.durationHours * 60)}\n` +
+  `Max wind: ${units.format('wind', window.maxWindSpeed)}, waves: ${units.format('height', window.maxWaveHeight)}, ` +
+  `swell: ${units.format('height', window.maxSwellHeight)}\n` +
+  `Upwind: ${Math.round(window.upwindPercent)}%`;
+
+export const DepartureWindowPlanner: React.FC<DepartureWindowPlannerProps> = ({ route, performance }) => {
+  const units = useUnits();
+  const [windows, setWindows] = useState<DepartureWindow[]>([]);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePlan = async () => {
+    setIsPlanning(true);
+    setError(null);
+    try {
+      const forecast = await fetchRouteForecast(route);
+      const sampler = createRouteForecastSampler(forecast);
+      setWindows(
+        planDepartureWindows(route, sampler, {
+          from: startOfHour(addHours(new Date(), 1)),
+          limits: loadAlertLimits(),
+          performance,
+        })
+      );
+    } catch (err) {
+      console.error('Departure planning error:', err);
+      setError('Could not load the forecast for this route. Please try again.');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // Group windows into one row per calendar day, indexed by departure hour
+  const days = windows.reduce<{ label: string; hours: (DepartureWindow | undefined)[] }[]>((rows, window) => {
+    const label = format(window.departure, 'EEE d MMM');
+    let row = rows.find((r) => r.label === label);
+    if (!row) {
+      row = { label, hours: new Array(24).fill(undefined) };
+      rows.push(row);
+    }
+    row.hours[window.departure.getHours()] = window;
+    return rows;
+  }, []);
+
+  const best = rankDepartureWindows(windows)
+    .filter((w) => w.rating === 'good' || w.rating === 'marginal')
+    .slice(0, 3);
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-blue-400" />
+          Departure Windows
+        </h3>
+        <button
+          onClick={handlePlan}
+          disabled={isPlanning}
+          className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded hover:bg-blue-500 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isPlanning && <Loader className="w-4 h-4 animate-spin" />}
+          {windows.length > 0 ? 'Refresh' : 'Find Best Departure'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+      {windows.length === 0 && !isPlanning && !error && (
+        <p className="text-sm text-slate-400">
+          Simulates the passage for every departure hour over the next 7 days against your alert limits.
+        </p>
+      )}
+
+      {days.length > 0 && (
+        <>
+          {/* Heatmap: one row per day, one cell per departure hour */}
+          <div className="overflow-x-auto">
+            <div className="min-w-[480px] space-y-1">
+              <div className="flex items-center gap-px pl-20 text-[10px] text-slate-500">
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="flex-1 text-center">
+                    {hour % 6 === 0 ? hour.toString().padStart(2, '0') : ''}
+                  </div>
+                ))}
+              </div>
+              {days.map((day) => (
+                <div key={day.label} className="flex items-center gap-px">
+                  <div className="w-20 text-xs text-slate-400 flex-shrink-0">{day.label}</div>
+                  {day.hours.map((window, hour) => (
+                    <div
+                      key={hour}
+                      title={window ? describeWindow(window, units) : undefined}
+                      className={`flex-1 h-5 rounded-sm ${window ? RATING_COLORS[window.rating] : 'bg-transparent'}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-3 mt-3 text-xs text-slate-400">
+            {(Object.keys(RATING_LABELS) as DepartureRating[]).map((rating) => (
+              <span key={rating} className="flex items-center gap-1">
+                <span className={`w-3 h-3 rounded-sm ${RATING_COLORS[rating]}`} />
+                {RATING_LABELS[rating]}
+              </span>
+            ))}
+          </div>
+
+          {/* Best windows */}
+          <div className="mt-4 space-y-2">
+            {best.length === 0 ? (
+              <p className="text-sm text-yellow-400">No departure within your limits in the forecast period.</p>
+            ) : (
+              best.map((window) => (
+                <div
+                  key={window.departure.toISOString()}
+                  className="flex items-center justify-between p-3 bg-slate-900 rounded border border-slate-700"
+                >
+                  <div>
+                    <p className="font-semibold text-white">{format(window.departure, 'EEE d MMM, HH:mm')}</p>
+                    <p className="text-xs text-slate-400">
+                      Arrive {format(window.arrival, 'EEE HH:mm')} • {RATING_LABELS[window.rating]} • Score{' '}
+                      {window.score}
+                    </p>
+                  </div>
+                  <div className="text-xs text-slate-300 text-right space-y-0.5">
+                    <p className="flex items-center gap-1 justify-end">
+                      <Clock className="w-3 h-3" /> {formatTime(window.durationHours * 60)}
+                    </p>
+                    <p className="flex items-center gap-1 justify-end">
+                      <Wind className="w-3 h-3" /> {units.format('wind', window.maxWindSpeed)}
+                    </p>
+                    <p className="flex items-center gap-1 justify-end">
+                      <Waves className="w-3 h-3" /> {units.format('height', window.maxWaveHeight)}
+                    </p>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertTriangle, Anchor, Loader, Trash2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { depthGrids } from '@seame/core';
+import type { DepthGridSummary, DepthProfile } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+interface DepthProfilePanelProps {
+  profile?: DepthProfile;
+  draft: number; // meters
+  underKeelClearance: number; // meters
+  departureTime: Date;
+  onDepartureTimeChange: (time: Date) => void;
+  /** Re-analyze the route after depth grids change */
+  onGridsChanged: () => void;
+  /** Reroute the shallow legs; omitted while navigating */
+  onReroute?: () => void;
+  isRerouting?: boolean;
+}
+
+/** Value for a datetime-local input, in local time */
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export const DepthProfilePanel: React.FC<DepthProfilePanelProps> = ({
+  profile,
+  draft,
+  underKeelClearance,
+  departureTime,
+  onDepartureTimeChange,
+  onGridsChanged,
+  onReroute,
+  isRerouting = false,
+}) => {
+  const units = useUnits();
+  const [grids, setGrids] = useState<DepthGridSummary[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    depthGrids.list().then(setGrids);
+  }, []);
+
+  const handleGridFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await depthGrids.importFile(await file.text(), file.name);
+      setGrids(await depthGrids.list());
+      setImportError(null);
+      onGridsChanged();
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read depth grid');
+    }
+  };
+
+  const handleRemoveGrid = async (id: string) => {
+    await depthGrids.remove(id);
+    setGrids(await depthGrids.list());
+    onGridsChanged();
+  };
+
+  // Water at the time each point is passed, and how deep the contours guarantee it to be (display units)
+  const toDepth = (meters: number) => parseFloat(units.convert('depth', meters).toFixed(1));
+  const chartData = (profile?.points ?? []).map((point) => ({
+    distance: parseFloat(units.convert('distance', point.distance).toFixed(2)),
+    time: format(new Date(point.time), 'EEE HH:mm'),
+    water: point.depth === null ? null : toDepth(point.depth + point.tide),
+    atLeast: point.depth === null && point.minDepth !== undefined ? toDepth(point.minDepth) : null,
+  }));
+  const hasDepths = chartData.some((point) => point.water !== null || point.atLeast !== null);
+
+  // Shade each shallow leg along the distance axis
+  const shallowRanges = (profile?.shallowLegs ?? []).map((leg) => {
+    const points = profile!.points.filter((point) => point.leg === leg);
+    return [points[0].distance, points[points.length - 1].distance].map((distance) =>
+      parseFloat(units.convert('distance', distance).toFixed(2))
+    );
+  });
+
+  const required = draft + underKeelClearance;
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg mb-4">
+      <div className="flex items-center justify-between mb-3 gap-2 flex-wrap">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <Anchor className="w-5 h-5 text-blue-400" />
+          Depth Profile
+        </h3>
+        <label className="text-xs text-slate-400 flex items-center gap-2">
+          Departure
+          <input
+            type="datetime-local"
+            value={toInputValue(departureTime)}
+            onChange={(e) => e.target.value && onDepartureTimeChange(new Date(e.target.value))}
+            className="p-1 bg-slate-900 border border-slate-700 rounded text-white text-xs"
+          />
+        </label>
+      </div>
+
+      {profile && profile.warnings.length > 0 && (
+        <div className="bg-red-900/30 border border-red-700/50 p-3 mb-3 rounded">
+          <ul className="text-sm text-red-300 space-y-1">
+            {profile.warnings.map((warning, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+          {onReroute && (
+            <button
+              onClick={onReroute}
+              disabled={isRerouting}
+              className="mt-3 px-4 py-2 bg-red-600 text-white text-sm rounded hover:bg-red-500 disabled:bg-slate-700 font-semibold flex items-center gap-2"
+            >
+              {isRerouting && <Loader className="w-4 h-4 animate-spin" />}
+              {isRerouting ? 'Rerouting...' : 'Reroute Shallow Legs'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {hasDepths ? (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--chart-grid)" vertical={false} />
+              <XAxis
+                dataKey="distance"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke="var(--chart-text)"
+                fontSize={10}
+                tickLine={false}
+                axisLine={false}
+                unit={` ${units.label('distance')}`}
+              />
+              <YAxis
+                reversed
+                stroke="var(--chart-text)"
+                fontSize={10}
+                tickLine={false}
+                axisLine={false}
+                unit={` ${units.label('depth')}`}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: 'var(--app-bg-card)', borderColor: 'var(--app-border)' }}
+                itemStyle={{ color: 'var(--text-primary)' }}
+                labelStyle={{ color: 'var(--text-secondary)' }}
+                labelFormatter={(distance: number, payload: any[]) => `${distance} ${units.label('distance')} · ${payload[0]?.payload.time ?? ''}`}
+              />
+
+              {shallowRanges.map(([x1, x2]) => (
+                <ReferenceArea key={x1} x1={x1} x2={x2} fill="#ef4444" fillOpacity={0.15} ifOverflow="extendDomain" />
+              ))}
+              <ReferenceLine
+                y={units.convert('depth', required)}
+                stroke="#ef4444"
+                strokeDasharray="4 4"
+                label={{ value: `Draft + UKC ${units.format('depth', required, 1)}`, fill: '#ef4444', fontSize: 10, position: 'insideTopRight' }}
+              />
+
+              <Area type="monotone" dataKey="water" stroke="var(--chart-primary)" fill="var(--chart-primary)" fillOpacity={0.2} name={`Water (${units.label('depth')})`} connectNulls={false} />
+              <Line type="stepAfter" dataKey="atLeast" stroke="#94a3b8" strokeDasharray="2 2" dot={false} name={`Deeper than (${units.label('depth')})`} connectNulls={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">
+          No depth data along this route. Import a depth grid (Esri ASCII .asc from GEBCO or EMODnet) or download an
+          offline pack with bathymetry.
+        </p>
+      )}
+
+      {profile?.tideStation && (
+        <p className="text-xs text-slate-500 mt-2">
+          Tide from {profile.tideStation.name} ({units.format('distance', profile.tideStation.distance)} away)
+          {profile.minClearance !== null &&
+            ` · least water under the keel ${units.format('depth', profile.minClearance, 1)}`}
+        </p>
+      )}
+
+      <div className="mt-3 border-t border-slate-700 pt-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-400">Depth grids</span>
+          <label className="text-xs text-blue-400 hover:text-blue-300 cursor-pointer flex items-center gap-1">
+            <Upload className="w-3 h-3" />
+            Import .asc
+            <input type="file" accept=".asc,.txt" onChange={handleGridFile} className="hidden" />
+          </label>
+        </div>
+        {importError && <p className="text-xs text-red-400 mt-1">{importError}</p>}
+        {grids.map((grid) => (
+          <div key={grid.id} className="flex items-center justify-between text-xs text-slate-300 mt-1">
+            <span>
+              {grid.name} · {grid.cols} × {grid.rows} cells
+            </span>
+            <button onClick={() => handleRemoveGrid(grid.id)} className="text-slate-500 hover:text-red-400" title="Remove grid">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Target, ClipboardEdit } from 'lucide-react';
+import {
+  forecastVerification, MARINE_MODELS, WEATHER_MODELS, WEATHER_CONSTANTS, differenceUnit, toDisplayDifference, unitLabel,
+} from '@seame/core';
+import type { Observation, UnitQuantity, VerificationScore, VerificationSummary, VerificationVariable } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+interface ForecastVerificationPanelProps {
+  latitude: number;
+  longitude: number;
+}
+
+/** Variables with a quantity are shown in the user's units, the others in `unit` */
+const VARIABLES: Array<{ key: VerificationVariable; label: string; quantity?: UnitQuantity; unit?: string }> = [
+  { key: 'windSpeed', label: 'Wind', quantity: 'wind' },
+  { key: 'windGusts', label: 'Gusts', quantity: 'wind' },
+  { key: 'windDirection', label: 'Wind Dir', unit: '°' },
+  { key: 'pressure', label: 'Pressure', quantity: 'pressure' },
+  { key: 'waveHeight', label: 'Waves', quantity: 'height' },
+  { key: 'wavePeriod', label: 'Wave Period', unit: 's' },
+  { key: 'swellHeight', label: 'Swell', quantity: 'height' },
+  { key: 'seaTemperature', label: 'Sea Temp', quantity: 'temperature' },
+];
+
+/** Fields of the manual observation form */
+const MANUAL_FIELDS: Array<{ key: VerificationVariable; label: string; quantity?: UnitQuantity }> = [
+  { key: 'windSpeed', label: 'Wind', quantity: 'wind' },
+  { key: 'windDirection', label: 'Wind from' },
+  { key: 'waveHeight', label: 'Waves', quantity: 'height' },
+  { key: 'pressure', label: 'Pressure', quantity: 'pressure' },
+];
+
+const LEAD_BUCKETS = WEATHER_CONSTANTS.VERIFICATION.LEAD_BUCKETS_HOURS;
+
+const modelName = (id: string) => WEATHER_MODELS[id]?.name ?? MARINE_MODELS[id]?.name ?? id;
+
+const leadLabel = (index: number) =>
+  index + 1 < LEAD_BUCKETS.length ? `${LEAD_BUCKETS[index]}–${LEAD_BUCKETS[index + 1]} h` : `${LEAD_BUCKETS[index]} h+`;
+
+/**
+ * How well each model has forecast this location, with a manual log entry form
+ */
+export const ForecastVerificationPanel: React.FC<ForecastVerificationPanelProps> = ({ latitude, longitude }) => {
+  const units = useUnits();
+  const [summary, setSummary] = useState<VerificationSummary | null>(null);
+  const [variable, setVariable] = useState<VerificationVariable>('windSpeed');
+  const [manual, setManual] = useState<Partial<Record<VerificationVariable, string>>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setSummary(await forecastVerification.getSummary(latitude, longitude));
+  }, [latitude, longitude]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleLog = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const values: Observation['values'] = {};
+    for (const { key, quantity } of MANUAL_FIELDS) {
+      const value = parseFloat(manual[key] ?? '');
+      if (!isNaN(value)) values[key] = quantity ? units.toCanonical(quantity, value) : value;
+    }
+
+    const recorded = await forecastVerification.recordObservation(latitude, longitude, {
+      time: new Date().toISOString(),
+      source: 'manual',
+      values,
+    });
+    setMessage(recorded ? 'Observation logged' : 'Nothing to log - enter at least one value once the forecast has loaded');
+    if (recorded) {
+      setManual({});
+      refresh();
+    }
+  };
+
+  const rows: VerificationScore[] = summary?.scores.filter((score: VerificationScore) => score.variable === variable) ?? [];
+  const models = Array.from(new Set(rows.map((score) => score.model)));
+  // Errors are differences, so they scale without the unit offset
+  const { quantity, unit } = VARIABLES.find((v) => v.key === variable)!;
+  const errorUnit = quantity ? unitLabel(quantity, differenceUnit(quantity, units.units[quantity])) : unit;
+  const error = (value: number) => (quantity ? toDisplayDifference(quantity, value, units.units[quantity]) : value).toFixed(1);
+
+  return (
+    <div className="bg-card border border-app rounded-xl p-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h2 className="text-sm font-bold text-secondary uppercase flex items-center gap-2">
+          <Target size={16} className="text-accent" /> Forecast Accuracy
+        </h2>
+        <div className="flex flex-wrap gap-1">
+          {VARIABLES.map((v) => (
+            <button
+              key={v.key}
+              onClick={() => setVariable(v.key)}
+              className={`px-2 py-1 rounded text-xs font-bold transition-colors ${
+                variable === v.key ? 'bg-accent text-white' : 'bg-elevated text-secondary hover:text-primary'
+              }`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {summary && (summary.preferred.weather || summary.preferred.marine) && (
+        <div className="text-xs text-secondary mb-3">
+          Best here:{' '}
+          {summary.preferred.weather && <span className="text-primary font-bold">{modelName(summary.preferred.weather)}</span>}
+          {summary.preferred.weather && summary.preferred.marine && ' / '}
+          {summary.preferred.marine && <span className="text-primary font-bold">{modelName(summary.preferred.marine)}</span>}
+          {' '}(used for this location's forecasts)
+        </div>
+      )}
+
+      {models.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs text-secondary">
+            <thead className="bg-app-base text-secondary uppercase font-bold text-[10px] tracking-wider">
+              <tr>
+                <th className="p-2">Model</th>
+                {LEAD_BUCKETS.map((_, i) => (
+                  <th key={i} className="p-2">{leadLabel(i)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {models.map((model) => (
+                <tr key={model} className="border-t border-subtle">
+                  <td className="p-2 font-bold text-primary">{modelName(model)}</td>
+                  {LEAD_BUCKETS.map((from, i) => {
+                    const score = rows.find((s) => s.model === model && s.leadFrom === from);
+                    return (
+                      <td key={i} className="p-2" title={score ? `${score.count} samples` : undefined}>
+                        {score ? (
+                          <>
+                            <span className="text-primary">{error(score.rmse)}</span>
+                            <span className="text-muted"> ({score.bias >= 0 ? '+' : ''}{error(score.bias)})</span>
+                          </>
+                        ) : (
+                          <span className="text-muted">--</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-muted mt-2">RMSE (bias) in {errorUnit} by forecast lead time</p>
+        </div>
+      ) : (
+        <p className="text-xs text-muted">
+          {summary
+            ? `No verified forecasts yet (${summary.snapshotCount} forecasts, ${summary.observationCount} observations stored).`
+            : 'Forecasts for this location are stored as they load and scored against later observations.'}
+        </p>
+      )}
+
+      <form onSubmit={handleLog} className="mt-4 pt-4 border-t border-subtle">
+        <div className="text-xs font-bold text-secondary uppercase mb-2 flex items-center gap-2">
+          <ClipboardEdit size={14} className="text-accent" /> Log observation
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {MANUAL_FIELDS.map(({ key, label, quantity: fieldQuantity }) => (
+            <label key={key} className="text-[10px] text-muted uppercase">
+              {label} ({fieldQuantity ? units.label(fieldQuantity) : '°'})
+              <input
+                type="number"
+                step="any"
+                value={manual[key] ?? ''}
+                onChange={(e) => setManual({ ...manual, [key]: e.target.value })}
+                className="w-full mt-1 bg-app-base border border-app rounded px-2 py-1 text-sm text-primary"
+              />
+            </label>
+          ))}
+          <button type="submit" className="self-end px-3 py-1.5 rounded bg-accent text-white text-xs font-bold">
+            Log
+          </button>
+        </div>
+        {message && <div className="text-xs text-secondary mt-2">{message}</div>}
+      </form>
+    </div>
+  );
+};
@@ -1,13 +1,46 @@
 import React from 'react';
-import { AlertTriangle, Shield, Info, Check } from 'lucide-react';
+import { AlertTriangle, Shield, Info, Check, Route as RouteIcon } from 'lucide-react';
 import { RouteAnalysis } from '@seame/core';
+import type { TrafficSeparationIssue } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
 
 interface HazardAlertProps {
   analysis: RouteAnalysis;
-  onFixRoute: () => void;
+  onFixRoute?: () => void;
 }
 
+const describeTrafficSeparation = (issue: TrafficSeparationIssue): string => {
+  switch (issue.issue) {
+    case 'wrong_direction':
+      return `against the traffic flow (course ${Math.round(issue.course)}°, lane ${Math.round(issue.laneDirection ?? 0)}°)`;
+    case 'crossing_angle':
+      return `crosses at ${Math.round(issue.crossingAngle ?? 0)}° to the traffic flow, not at right angles`;
+    case 'separation_zone':
+      return 'enters the separation zone';
+  }
+};
+
+const TrafficSeparationIssues: React.FC<{ issues: TrafficSeparationIssue[] }> = ({ issues }) => (
+  <div className="bg-orange-900/30 border border-orange-700/50 p-4 rounded-lg">
+    <div className="flex items-start">
+      <AlertTriangle className="w-6 h-6 text-orange-500 mr-2 flex-shrink-0 mt-0.5" />
+      <div>
+        <h3 className="font-bold text-orange-500 mb-2">Traffic Separation Scheme (COLREGS Rule 10)</h3>
+        <ul className="list-disc list-inside space-y-1 text-sm text-orange-300">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              {issue.hazard.description || 'Traffic separation scheme'}: {describeTrafficSeparation(issue)} (Segment{' '}
+              {issue.waypointSegment + 1}-{issue.waypointSegment + 2})
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  </div>
+);
+
 export const HazardAlert: React.FC<HazardAlertProps> = ({ analysis, onFixRoute }) => {
+  const units = useUnits();
   const criticalHazards = analysis.hazards.filter(
     (h) => h.hazard.severity === 'critical'
   );
@@ -15,18 +48,34 @@ export const HazardAlert: React.FC<HazardAlertProps> = ({ analysis, onFixRoute }
     (h) => h.hazard.severity === 'danger'
   );
 
+  // Where a segment enters an area rather than passing near it
+  const insideArea = (hazardId: string, segment: number) =>
+    analysis.areaCrossings
+      .filter((c) => c.hazard.id === hazardId && c.waypointSegment === segment)
+      .reduce((sum, c) => sum + c.lengthInside, 0);
+
+  const describeDistance = (hazard: RouteAnalysis['hazards'][number]) => {
+    const inside = insideArea(hazard.hazard.id, hazard.waypointSegment);
+    return inside > 0
+      ? `enters for ${units.format('distance', inside, 1)}`
+      : `${units.format('height', hazard.distanceFromRoute, 0)} from route`;
+  };
+
   if (analysis.isSafe) {
     return (
-      <div className="bg-green-900/30 border border-green-700/50 p-4 mb-4 rounded-lg">
-        <div className="flex items-center">
-          <Shield className="w-6 h-6 text-green-400 mr-2" />
-          <div>
-            <h3 className="font-bold text-green-400">Route appears safe</h3>
-            <p className="text-sm text-green-300">
-              No critical hazards detected. Always verify with official charts.
-            </p>
+      <div className="space-y-4 mb-4">
+        <div className="bg-green-900/30 border border-green-700/50 p-4 rounded-lg">
+          <div className="flex items-center">
+            <Shield className="w-6 h-6 text-green-400 mr-2" />
+            <div>
+              <h3 className="font-bold text-green-400">Route appears safe</h3>
+              <p className="text-sm text-green-300">
+                No critical hazards detected. Always verify with official charts.
+              </p>
+            </div>
           </div>
         </div>
+        {analysis.trafficSeparation.length > 0 && <TrafficSeparationIssues issues={analysis.trafficSeparation} />}
       </div>
     );
   }
@@ -42,21 +91,15 @@ export const HazardAlert: React.FC<HazardAlertProps> = ({ analysis, onFixRoute }
               <h3 className="font-bold text-red-500 mb-2">
                 🚨 CRITICAL HAZARDS DETECTED - ROUTE UNSAFE
               </h3>
-              <ul className="list-disc list-inside space-y-1 text-sm text-red-300 mb-3">
+              <ul className="list-disc list-inside space-y-1 text-sm text-red-300">
                 {criticalHazards.map((hazard, i) => (
                   <li key={i}>
                     <strong>{hazard.hazard.description || hazard.hazard.type}</strong> -{' '}
-                    {Math.round(hazard.distanceFromRoute)}m from route (Segment{' '}
+                    {describeDistance(hazard)} (Segment{' '}
                     {hazard.waypointSegment + 1}-{hazard.waypointSegment + 2})
                   </li>
                 ))}
               </ul>
-              <button
-                onClick={onFixRoute}
-                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-500 font-semibold"
-              >
-                Suggest Route Fix
-              </button>
             </div>
           </div>
         </div>
@@ -75,7 +118,7 @@ export const HazardAlert: React.FC<HazardAlertProps> = ({ analysis, onFixRoute }
                 {dangerHazards.map((hazard, i) => (
                   <li key={i}>
                     {hazard.hazard.description || hazard.hazard.type} -{' '}
-                    {Math.round(hazard.distanceFromRoute)}m from route
+                    {describeDistance(hazard)}
                   </li>
                 ))}
               </ul>
@@ -84,6 +127,18 @@ export const HazardAlert: React.FC<HazardAlertProps> = ({ analysis, onFixRoute }
         </div>
       )}
 
+      {analysis.trafficSeparation.length > 0 && <TrafficSeparationIssues issues={analysis.trafficSeparation} />}
+
+      {onFixRoute && (
+        <button
+          onClick={onFixRoute}
+          className="w-full py-2 bg-red-600 text-white rounded hover:bg-red-500 font-semibold flex items-center justify-center gap-2"
+        >
+          <RouteIcon className="w-4 h-4" />
+          Find Safe Route
+        </button>
+      )}
+
       {/* Recommendations */}
       <div className="bg-blue-900/30 border border-blue-700/50 p-4 rounded-lg">
         <div className="flex items-start">
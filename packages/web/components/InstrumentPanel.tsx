@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Gauge, Plug, Unplug, FileText } from 'lucide-react';
+import {
+  instrumentFeed,
+  aisTracker,
+  anchorWatch,
+  offlineNavigation,
+  forecastVerification,
+  createWebSocketSource,
+  createReplaySource,
+  formatBearing,
+  knotsToKmh,
+} from '@seame/core';
+import type { InstrumentData, InstrumentSourceStatus } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+const SOURCE_URL_KEY = 'instrumentSourceUrl';
+
+const STATUS_LABELS: Record<InstrumentSourceStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  disconnected: 'Disconnected',
+  ended: 'Replay finished',
+};
+
+const Reading: React.FC<{ label: string; value?: string }> = ({ label, value }) => (
+  <div className="bg-slate-900 p-2 rounded">
+    <p className="text-[10px] uppercase text-slate-500">{label}</p>
+    <p className="text-lg font-bold text-white">{value ?? '--'}</p>
+  </div>
+);
+
+const knots = (value?: number) => (value !== undefined ? `${value.toFixed(1)} kts` : undefined);
+
+/**
+ * Connects onboard NMEA instruments (network bridge or recorded log) to navigation
+ */
+export const InstrumentPanel: React.FC = () => {
+  const units = useUnits();
+  const [url, setUrl] = useState(() => localStorage.getItem(SOURCE_URL_KEY) || 'ws://192.168.1.1:10110');
+  const [status, setStatus] = useState<InstrumentSourceStatus>(instrumentFeed.getStatus().status);
+  const [data, setData] = useState<InstrumentData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [connected, setConnected] = useState(instrumentFeed.isConnected());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleStatus = (next: InstrumentSourceStatus) => setStatus(next);
+    const handleError = (err: Error) => setError(err.message);
+    // Sentences arrive many times a second; refresh the readout at most once a second
+    let lastRender = 0;
+    const handleData = (next: InstrumentData) => {
+      if (Date.now() - lastRender >= 1000) {
+        lastRender = Date.now();
+        setData(next);
+      }
+    };
+
+    instrumentFeed.on('status', handleStatus);
+    instrumentFeed.on('error', handleError);
+    instrumentFeed.on('data', handleData);
+    return () => {
+      instrumentFeed.off('status', handleStatus);
+      instrumentFeed.off('error', handleError);
+      instrumentFeed.off('data', handleData);
+    };
+  }, []);
+
+  const attach = () => {
+    setError(null);
+    instrumentFeed.reset();
+    offlineNavigation.setInstrumentFeed(instrumentFeed);
+    anchorWatch.setInstrumentFeed(instrumentFeed);
+    // AIS sentences share the instrument stream
+    aisTracker.clear();
+    aisTracker.attach(instrumentFeed);
+    offlineNavigation.setAisTracker(aisTracker);
+    // Instrument wind and pressure verify the forecasts for where we are
+    forecastVerification.attach(instrumentFeed);
+    setConnected(true);
+  };
+
+  const handleConnect = () => {
+    localStorage.setItem(SOURCE_URL_KEY, url);
+    attach();
+    instrumentFeed.connect(createWebSocketSource(url));
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    attach();
+    instrumentFeed.connect(createReplaySource(await file.text(), { name: file.name }));
+  };
+
+  const handleDisconnect = () => {
+    instrumentFeed.disconnect();
+    aisTracker.detach();
+    forecastVerification.detach();
+    offlineNavigation.setInstrumentFeed(null);
+    anchorWatch.setInstrumentFeed(null);
+    setConnected(false);
+    setData(null);
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-lg p-6 mb-4 border border-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-blue-400" />
+          Instruments
+        </h2>
+        <span className="text-xs text-slate-400">
+          {connected ? `${instrumentFeed.getStatus().source} • ${STATUS_LABELS[status]}` : 'Using device GPS'}
+        </span>
+      </div>
+
+      {!connected ? (
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="ws://host:port"
+            className="flex-1 min-w-[200px] p-2 border border-slate-700 rounded-lg bg-slate-950 text-white text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button
+            onClick={handleConnect}
+            className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-500 flex items-center gap-2"
+          >
+            <Plug className="w-4 h-4" />
+            Connect NMEA
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 bg-slate-800 text-white text-sm rounded-lg hover:bg-slate-700 border border-slate-700 flex items-center gap-2"
+          >
+            <FileText className="w-4 h-4" />
+            Replay Log
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".nmea,.txt,.log"
+            onChange={handleReplayFile}
+            className="hidden"
+          />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+            <Reading label="SOG" value={knots(data?.speedOverGround)} />
+            <Reading
+              label="COG"
+              value={data?.courseOverGround !== undefined ? formatBearing(data.courseOverGround) : undefined}
+            />
+            <Reading label="Heading" value={data?.heading !== undefined ? formatBearing(data.heading) : undefined} />
+            <Reading label="STW" value={knots(data?.speedThroughWater)} />
+            <Reading
+              label="Apparent Wind"
+              value={data?.apparentWind && `${units.format('wind', knotsToKmh(data.apparentWind.speed), 1)} @ ${Math.round(data.apparentWind.angle)}°`}
+            />
+            <Reading
+              label="True Wind"
+              value={data?.trueWind && `${units.format('wind', knotsToKmh(data.trueWind.speed), 1)} ${formatBearing(data.trueWind.direction)}`}
+            />
+            <Reading label="Depth" value={data?.depth !== undefined ? units.format('depth', data.depth, 1) : undefined} />
+            <Reading
+              label="Water Temp"
+              value={data?.waterTemperature !== undefined ? units.format('temperature', data.waterTemperature, 1) : undefined}
+            />
+          </div>
+          <button
+            onClick={handleDisconnect}
+            className="px-3 py-2 bg-slate-800 text-white text-sm rounded-lg hover:bg-slate-700 border border-slate-700 flex items-center gap-2"
+          >
+            <Unplug className="w-4 h-4" />
+            Disconnect
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { LifeBuoy, Check } from 'lucide-react';
+import { manOverboard, formatBearing, formatDistance } from '@seame/core';
+import type { MobStatus, NavigationAlert, NavigationState, SearchPatternType } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+/** How often the cached drift forecast is refreshed while online */
+const FORECAST_REFRESH_MS = 30 * 60 * 1000;
+
+interface ManOverboardPanelProps {
+  navigationState: NavigationState | null;
+  /** MOB raised (or restored after a reload): navigation now targets the MOB */
+  onActivated: () => void;
+  onCleared: () => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  live: 'live forecast',
+  cached: 'cached forecast',
+  none: 'no forecast - drift unknown',
+};
+
+const formatElapsed = (minutes: number): string => {
+  const totalSeconds = Math.floor(minutes * 60);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+/**
+ * One-tap man overboard button and MOB return guidance
+ */
+export const ManOverboardPanel: React.FC<ManOverboardPanelProps> = ({ navigationState, onActivated, onCleared }) => {
+  const { units } = useUnits();
+  const [status, setStatus] = useState<MobStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    // A MOB restored after a reload first shows up as an update
+    let active = manOverboard.isActive();
+    const handleUpdate = (next: MobStatus | null) => {
+      if (next && !active) onActivated();
+      active = next !== null;
+      setStatus(next);
+    };
+    // Raised as soon as the position is recorded, before the forecast loads
+    const handleAlert = (alert: NavigationAlert) => {
+      if (alert.type === 'man-overboard') {
+        active = true;
+        setStatus(manOverboard.getStatus());
+        onActivated();
+      }
+    };
+    manOverboard.on('update', handleUpdate);
+    manOverboard.on('alert', handleAlert);
+
+    if (manOverboard.isActive()) {
+      setStatus(manOverboard.getStatus());
+      onActivated();
+    }
+
+    // Keep a forecast for the sailing area on the device so drift works offline
+    const prime = () => {
+      if (!navigator.onLine || !('geolocation' in navigator)) return;
+      navigator.geolocation.getCurrentPosition(
+        (position) => manOverboard.primeForecast(position.coords.latitude, position.coords.longitude),
+        () => undefined,
+        { maximumAge: 5 * 60 * 1000 }
+      );
+    };
+    prime();
+    const primeTimer = setInterval(prime, FORECAST_REFRESH_MS);
+
+    return () => {
+      manOverboard.off('update', handleUpdate);
+      manOverboard.off('alert', handleAlert);
+      clearInterval(primeTimer);
+    };
+  }, []);
+
+  // Live bearing/distance from the latest own position
+  useEffect(() => {
+    if (!navigationState) return;
+    manOverboard.updateOwnPosition(navigationState.currentPosition);
+    if (manOverboard.isActive()) {
+      setStatus(manOverboard.getStatus());
+    }
+  }, [navigationState]);
+
+  // Elapsed time ticks every second
+  useEffect(() => {
+    if (!status) return;
+    const timer = setInterval(() => setTick((t) => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [status !== null]);
+
+  const handleActivate = async () => {
+    setError(null);
+    try {
+      await manOverboard.activate(navigationState?.currentPosition);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record MOB position');
+    }
+  };
+
+  const handleRecovered = async () => {
+    if (!confirm('Person recovered? This ends MOB mode.')) return;
+    await manOverboard.clear();
+    setStatus(null);
+    onCleared();
+  };
+
+  if (!status) {
+    return (
+      <div className="mb-4">
+        <button
+          onClick={handleActivate}
+          className="w-full py-4 bg-red-600 text-white text-xl font-bold rounded-lg hover:bg-red-500 flex items-center justify-center gap-3 shadow-lg"
+        >
+          <LifeBuoy className="w-7 h-7" />
+          MAN OVERBOARD
+        </button>
+        {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+      </div>
+    );
+  }
+
+  const elapsedMinutes = (Date.now() - status.event.timestamp.getTime()) / 60000;
+  const drift = status.event.drift;
+
+  return (
+    <div className="bg-red-950/60 rounded-lg shadow-lg p-6 mb-4 border-2 border-red-600">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-red-300 flex items-center gap-2 animate-pulse">
+          <LifeBuoy className="w-7 h-7" />
+          MAN OVERBOARD
+        </h2>
+        <span className="text-sm text-slate-300">
+          {status.event.timestamp.toLocaleTimeString()} • {status.event.position.lat.toFixed(4)},{' '}
+          {status.event.position.lon.toFixed(4)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div className="bg-slate-900 p-4 rounded-lg">
+          <p className="text-sm text-slate-400">Bearing</p>
+          <p className="text-3xl font-bold text-white">
+            {status.bearing !== undefined ? formatBearing(status.bearing) : '--'}
+          </p>
+        </div>
+        <div className="bg-slate-900 p-4 rounded-lg">
+          <p className="text-sm text-slate-400">Distance</p>
+          <p className="text-3xl font-bold text-white">
+            {status.distance !== undefined ? formatDistance(status.distance, units.distance) : '--'}
+          </p>
+        </div>
+        <div className="bg-slate-900 p-4 rounded-lg">
+          <p className="text-sm text-slate-400">Elapsed</p>
+          <p className="text-3xl font-bold text-white">{formatElapsed(elapsedMinutes)}</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-slate-300 mb-4">
+        {drift
+          ? `Estimated drift ${drift.speed.toFixed(1)} kts towards ${formatBearing(drift.direction)} (${SOURCE_LABELS[drift.forecastSource]}${
+              drift.forecastTime ? `, ${drift.forecastTime.toLocaleString()}` : ''
+            })`
+          : 'Loading drift forecast…'}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-slate-400">Search pattern:</span>
+        {(['expanding-square', 'sector'] as SearchPatternType[]).map((pattern) => (
+          <button
+            key={pattern}
+            onClick={() => manOverboard.setSearchPattern(pattern)}
+            className={`px-3 py-2 text-sm rounded-lg border ${
+              status.event.searchPattern === pattern
+                ? 'bg-red-600 border-red-500 text-white'
+                : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+            }`}
+          >
+            {pattern === 'sector' ? 'Sector' : 'Expanding Square'}
+          </button>
+        ))}
+        <button
+          onClick={handleRecovered}
+          className="ml-auto px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-500 flex items-center gap-2"
+        >
+          <Check className="w-4 h-4" />
+          Recovered
+        </button>
+      </div>
+    </div>
+  );
+};
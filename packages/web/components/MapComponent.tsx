@@ -1,11 +1,12 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import * as L from 'leaflet';
-import { Coordinate, PointForecast, DetailedPointForecast, fetchPointForecast, fetchHourlyPointForecast, fetchBulkPointForecast, fetchMarineGridData, convertToVelocityFormat, generateWaveGridCells } from '@seame/core';
-import { Trash2, Navigation, MapPin, Wind, Layers, Waves, X, Clock, Activity, Droplets, ChevronDown, ChevronUp } from 'lucide-react';
+import { Coordinate, PointForecast, DetailedPointForecast, fetchPointForecast, fetchHourlyPointForecast, fetchMarineGridForecast, getMarineGridFrame, sampleMarineGridForecast, convertToVelocityFormat, generateWaveGridCells, calculateETA, getVesselSpeed, NAVIGATION_CONSTANTS, anchorWatch, gribImports, findLandCrossings, routeAroundLand, analyzeRouteHazards } from '@seame/core';
+import { Trash2, Navigation, MapPin, Wind, Layers, Waves, X, Clock, Activity, Droplets, ChevronDown, ChevronUp, Anchor, Upload, Lightbulb, Mountain, AlertTriangle } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { format, parseISO } from 'date-fns';
 import { useTranslation } from 'react-i18next';
+import { useUnits } from '../src/hooks/useUnits';
 import { MaskedVelocityLayerV2 } from './map/MaskedVelocityLayerV2';
 import { WaveHeatmapLayer } from './map/WaveHeatmapLayer';
 import { SmoothWaveHeatmapV2 } from './map/SmoothWaveHeatmapV2';
@@ -15,12 +16,22 @@ import { SmoothWaveHeatmapV2 } from './map/SmoothWaveHeatmapV2';
 import { RainRadarLayer } from './map/RainRadarLayer';
 // import { CrispLandMask, CrispLandMaskStyles } from './map/CrispLandMask'; // Removed: SmoothWaveHeatmap now handles land clipping internally
 import { ColorScaleLegend } from './map/ColorScaleLegend';
+import type { ColorScaleItem } from './map/ColorScaleLegend';
+import { loadVesselSettings, getVesselPerformance } from './VesselSettingsModal';
 import { GeoJSONLayers } from './map/GeoJSONLayers';
 import { BathymetryLayer } from './map/BathymetryLayer';
 import { PortsLayer } from './map/PortsLayer';
 import { ReefLayer } from './map/ReefLayer';
+import { cachedTileLayer } from './map/CachedTileLayer';
+import { AisTargetsLayer } from './map/AisTargetsLayer';
+import { AnchorWatchLayer } from './map/AnchorWatchLayer';
+import { MobLayer } from './map/MobLayer';
+import { SeamarkAidsLayer } from './map/SeamarkAidsLayer';
+import TimeSlider from './map/TimeSlider';
+import type { AnchorWatchState, GribFileSummary, MarineGridData, MarineGridForecast, MarineGridPoint, RouteAnalysis, TrafficSeparationIssue, UnitQuantity } from '@seame/core';
+import { AnchorWatchPanel } from './AnchorWatchPanel';
 import { COLOR_SCALES } from '../utils/colorScales';
-import { UNIFIED_PARTICLE_CONFIG, DARK_MAP_CONFIG, LAND_MASK_CONFIG } from '../utils/particleConfig';
+import { UNIFIED_PARTICLE_CONFIG, DARK_MAP_CONFIG, LAND_MASK_CONFIG, SEAMARK_MAP_CONFIG } from '../utils/particleConfig';
 
 const DefaultIcon = L.icon({
   iconUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png',
@@ -88,19 +99,87 @@ const getCurrentColor = (speed: number) => {
   return '#ef4444';
 };
 
+// Marker layers show one reading per cell of a 4x4 grid over the viewport
+const MARKER_GRID_SIZE = 4;
+
+// Quiet time after the last route edit before the route's hazards are analysed
+const HAZARD_CHECK_DELAY_MS = 600;
+
+const toPointForecast = (point: MarineGridPoint): PointForecast => ({
+  lat: point.lat,
+  lng: point.lng,
+  waveHeight: point.waveHeight || 0,
+  wavePeriod: point.wavePeriod,
+  windSpeed: point.windSpeed || 0,
+  windDirection: point.windDirection || 0,
+  swellHeight: point.swellHeight || 0,
+  swellDirection: point.swellDirection || 0,
+  swellPeriod: point.swellPeriod,
+  windWaveHeight: point.windWaveHeight,
+  windWaveDirection: point.windWaveDirection,
+  windWavePeriod: point.windWavePeriod,
+  temp: point.seaTemperature || 0,
+  weatherCode: 0,
+  weatherDesc: '',
+  currentSpeed: point.currentSpeed || 0,
+  currentDirection: point.currentDirection || 0
+});
+
+const forecastHourTime = (forecast: MarineGridForecast, hour: number): Date =>
+  new Date(new Date(forecast.times[0]).getTime() + hour * 3600 * 1000);
+
+// Hours covered by a forecast (GRIB files are often 3- or 6-hourly)
+const forecastHourCount = (forecast: MarineGridForecast): number =>
+  Math.round((new Date(forecast.times[forecast.times.length - 1]).getTime() - new Date(forecast.times[0]).getTime()) / (3600 * 1000)) + 1;
+
+const OPEN_METEO_SOURCE = 'open-meteo';
+
+/**
+ * Keep only sea cells of a wave grid
+ * A cell counts as ocean if it has wave activity or ocean current data.
+ */
+const filterMarineCells = (cells: Array<{lat: number; lng: number; value: number; color: string}>, gridData: MarineGridData) =>
+  cells.filter((cell, index) => {
+      const point = gridData.points[index];
+      const hasWaveActivity = cell.value > 0.1;
+      const hasCurrentData = (point?.currentSpeed || 0) > 0.01;
+      return hasWaveActivity || hasCurrentData;
+  });
+
+const isTrafficScheme = (type: string) => type === 'traffic_separation' || type === 'traffic_lane';
+
+const hazardColor = (severity: string) => (severity === 'critical' || severity === 'danger' ? '#ef4444' : '#f97316');
+
 const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
   const { t } = useTranslation();
+  const units = useUnits();
   const mapContainer = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<L.Map | null>(null);
   const markersRef = useRef<L.Marker[]>([]);
   const routeLineRef = useRef<L.Polyline | null>(null);
+  const routeHazardsRef = useRef<L.LayerGroup | null>(null);
   const layerGroupRef = useRef<L.LayerGroup | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // While set, a map click picks the anchor position instead of adding a route point
+  const anchorPickRef = useRef<((position: { lat: number; lon: number }) => void) | null>(null);
 
   const [routeStats, setRouteStats] = useState({ count: 0, distance: 0 });
   const [legs, setLegs] = useState<RouteLeg[]>([]);
   const [speed, setSpeed] = useState<number>(15);
+  const [vesselPerformance] = useState(() => {
+    const settings = loadVesselSettings();
+    return settings ? getVesselPerformance(settings) : undefined;
+  });
   const [waypointForecasts, setWaypointForecasts] = useState<Record<number, PointForecast>>({});
+  // Legs that cross land, by index; only the latest check counts
+  const [landLegs, setLandLegs] = useState<number[]>([]);
+  const landCheckRef = useRef(0);
+  const [isRoutingAroundLand, setIsRoutingAroundLand] = useState(false);
+  // Areas entered and traffic separation rules broken, per leg; only the latest analysis counts
+  const [routeAnalysis, setRouteAnalysis] = useState<RouteAnalysis | null>(null);
+  const hazardCheckRef = useRef(0);
+  const hazardTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [landRouteError, setLandRouteError] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [activeLayer, setActiveLayer] = useState<MapLayer>('NONE');
   const [loadingGrid, setLoadingGrid] = useState(false);
@@ -118,6 +197,19 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
   const [waveHeatmapData, setWaveHeatmapData] = useState<Array<{lat: number; lng: number; value: number; color: string}>>([]);
   const [loadingAdvancedLayer, setLoadingAdvancedLayer] = useState(false);
 
+  // Hourly forecast behind the weather layers; the time slider picks the hour shown
+  const [forecastHour, setForecastHour] = useState(0);
+  const forecastHourRef = useRef(0);
+  forecastHourRef.current = forecastHour;
+  const [markerForecast, setMarkerForecast] = useState<MarineGridForecast | null>(null);
+  const [gridForecast, setGridForecast] = useState<MarineGridForecast | null>(null);
+
+  // Forecast source: Open-Meteo, or an imported GRIB file (by id)
+  const [forecastSource, setForecastSource] = useState(OPEN_METEO_SOURCE);
+  const [gribFiles, setGribFiles] = useState<GribFileSummary[]>([]);
+  const [gribError, setGribError] = useState<string | null>(null);
+  const gribForecastRef = useRef<MarineGridForecast | null>(null);
+
   // GeoJSON Overlay Layers State
   const [geoJSONLayers, setGeoJSONLayers] = useState({
     coastline: false,
@@ -126,8 +218,26 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
     ports: false,
     marineAreas: false,
     radar: false,
+    ais: false,
+    seamarks: false,
+    aids: false,
   });
 
+  // Anchor watch survives reloads: open the panel while a watch runs, or once App restores one
+  const [showAnchorWatch, setShowAnchorWatch] = useState(() => anchorWatch.isActive());
+  useEffect(() => {
+    let watching = anchorWatch.isActive();
+    const handleUpdate = (state: AnchorWatchState | null) => {
+      if (state && !watching) setShowAnchorWatch(true);
+      watching = state !== null;
+    };
+    anchorWatch.on('update', handleUpdate);
+    return () => anchorWatch.off('update', handleUpdate);
+  }, []);
+  const setAnchorPick = useCallback((handler: ((position: { lat: number; lon: number }) => void) | null) => {
+    anchorPickRef.current = handler;
+  }, []);
+
   useEffect(() => {
     if (mapContainer.current && !mapInstance.current) {
       // Initialize map with zoom 8 for a "Country/Region" view
@@ -151,8 +261,8 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
         canvasProto._patchedClear = true;
       }
 
-      // Use CartoDB Dark Matter tiles for Windy-style dark map
-      L.tileLayer(DARK_MAP_CONFIG.tileUrl, {
+      // Use CartoDB Dark Matter tiles for Windy-style dark map (cached, from offline packs when offline)
+      cachedTileLayer(DARK_MAP_CONFIG.style, DARK_MAP_CONFIG.tileUrl, {
         attribution: DARK_MAP_CONFIG.attribution,
         className: 'map-tiles',
         opacity: DARK_MAP_CONFIG.opacity,
@@ -165,7 +275,13 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
       mapInstance.current = map;
       layerGroupRef.current = L.layerGroup().addTo(map);
 
-      map.on('click', (e: L.LeafletMouseEvent) => addRoutePoint(e.latlng));
+      map.on('click', (e: L.LeafletMouseEvent) => {
+        if (anchorPickRef.current) {
+          anchorPickRef.current({ lat: e.latlng.lat, lon: e.latlng.lng });
+          return;
+        }
+        addRoutePoint(e.latlng);
+      });
       
       // Listen for move end to refresh grid if layer is active
       map.on('moveend', () => {
@@ -199,6 +315,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
       document.head.appendChild(style);
     }
     return () => {
+      if (hazardTimerRef.current) clearTimeout(hazardTimerRef.current);
       if (mapInstance.current) {
         mapInstance.current.remove();
         mapInstance.current = null;
@@ -214,6 +331,21 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
     }
   }, [currentLocation.lat, currentLocation.lng]);
 
+  // OpenSeaMap seamark overlay, cached like the base map
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !geoJSONLayers.seamarks) return;
+
+    const layer = cachedTileLayer(SEAMARK_MAP_CONFIG.style, SEAMARK_MAP_CONFIG.tileUrl, {
+      attribution: SEAMARK_MAP_CONFIG.attribution,
+      minZoom: SEAMARK_MAP_CONFIG.minZoom,
+      zIndex: 2,
+    }).addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [geoJSONLayers.seamarks]);
+
   // Effect to trigger grid update when layer changes
   useEffect(() => {
       updateWeatherGrid();
@@ -241,6 +373,28 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [advancedLayer]);
 
+  // Move the weather layers to the selected forecast hour without refetching
+  useEffect(() => {
+      if (markerForecast && activeLayer !== 'NONE') {
+          renderMarkerForecast(markerForecast, forecastHour);
+      }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [forecastHour, markerForecast, units]);
+
+  useEffect(() => {
+      if (!gridForecast || advancedLayer === 'NONE') return;
+      const gridData = getMarineGridFrame(gridForecast, forecastHourTime(gridForecast, forecastHour));
+
+      if (advancedLayer === 'WIND_PARTICLES') {
+          setVelocityData(convertToVelocityFormat(gridData, 'wind').wind ?? null);
+      } else if (advancedLayer === 'CURRENT_PARTICLES') {
+          setVelocityData(convertToVelocityFormat(gridData, 'current').current ?? null);
+      } else if (advancedLayer === 'WAVE_HEATMAP') {
+          setWaveHeatmapData(filterMarineCells(generateWaveGridCells(gridData, 'wave').cells, gridData));
+      }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [forecastHour]);
+
   // Debug logging for velocityData changes
   useEffect(() => {
       console.log('[MapComponent] velocityData state changed:', velocityData);
@@ -251,13 +405,64 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
       }
   }, [velocityData]);
 
+  // Imported GRIB files cover a fixed area, so the viewport only matters for Open-Meteo
+  const loadGridForecast = (bounds: MarineGridForecast['bounds'], resolution: MarineGridForecast['resolution']) =>
+      gribForecastRef.current ? Promise.resolve(gribForecastRef.current) : fetchMarineGridForecast(bounds, resolution);
+
+  useEffect(() => {
+      gribImports.list().then(setGribFiles);
+  }, []);
+
+  const selectForecastSource = async (source: string) => {
+      setGribError(null);
+      if (source === OPEN_METEO_SOURCE) {
+          gribForecastRef.current = null;
+      } else {
+          const forecast = await gribImports.load(source);
+          if (!forecast) {
+              setGribError('This GRIB file has expired');
+              setGribFiles(await gribImports.list());
+              return;
+          }
+          gribForecastRef.current = forecast;
+      }
+      setForecastHour(0);
+      setForecastSource(source);
+  };
+
+  const handleGribImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      setGribError(null);
+      try {
+          const summary = await gribImports.importFile(await file.arrayBuffer(), file.name);
+          const files = await gribImports.list();
+          setGribFiles(files.some(f => f.id === summary.id) ? files : [...files, summary]);
+          await selectForecastSource(summary.id);
+      } catch (err) {
+          setGribError(err instanceof Error ? err.message : 'Failed to import GRIB file');
+      }
+  };
+
+  // Reload every weather layer from the newly selected source
+  useEffect(() => {
+      updateWeatherGrid();
+      updateAdvancedLayer();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [forecastSource]);
+
   const updateWeatherGrid = async () => {
       if (!mapInstance.current || !layerGroupRef.current) return;
 
       // Clear existing grid markers
       layerGroupRef.current.clearLayers();
 
-      if (activeLayer === 'NONE') return;
+      if (activeLayer === 'NONE') {
+          setMarkerForecast(null);
+          return;
+      }
 
       setLoadingGrid(true);
       const bounds = mapInstance.current.getBounds();
@@ -266,31 +471,14 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
       const north = bounds.getNorth();
       const south = bounds.getSouth();
 
-      // Generate a grid focused on the visible marine area
-      const gridPoints: Coordinate[] = [];
-      const cols = 4;
-      const rows = 4;
-
-      const lngStep = (east - west) / cols;
-      const latStep = (north - south) / rows;
-
-      for (let c = 0; c < cols; c++) {
-          for (let r = 0; r < rows; r++) {
-              gridPoints.push({
-                  lat: north - latStep * (r + 0.5),
-                  lng: west + lngStep * (c + 0.5)
-              });
-          }
-      }
-
       try {
-          // Use Bulk Fetch API
-          const forecasts = await fetchBulkPointForecast(gridPoints);
-
-          // Filter out points with effectively 0 wave height (land)
-          const marineForecasts = forecasts.filter(f => f.waveHeight > 0.05);
-
-          renderGridMarkers(marineForecasts);
+          // One request covers every forecast hour, so scrubbing needs no refetch
+          const forecast = await loadGridForecast(
+              { north, south, east, west },
+              { latPoints: MARKER_GRID_SIZE + 1, lngPoints: MARKER_GRID_SIZE + 1 }
+          );
+          setMarkerForecast(forecast);
+          renderMarkerForecast(forecast, forecastHourRef.current);
       } catch (e) {
           console.error("Failed to fetch grid", e);
       } finally {
@@ -298,6 +486,30 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
       }
   };
 
+  const renderMarkerForecast = (forecast: MarineGridForecast, hour: number) => {
+      if (!layerGroupRef.current) return;
+      layerGroupRef.current.clearLayers();
+
+      const { north, south, east, west } = forecast.bounds;
+      const lngStep = (east - west) / MARKER_GRID_SIZE;
+      const latStep = (north - south) / MARKER_GRID_SIZE;
+      const time = forecastHourTime(forecast, hour);
+
+      // Sample the centre of each cell of the visible marine area
+      const forecasts: PointForecast[] = [];
+      for (let c = 0; c < MARKER_GRID_SIZE; c++) {
+          for (let r = 0; r < MARKER_GRID_SIZE; r++) {
+              const point = sampleMarineGridForecast(forecast, north - latStep * (r + 0.5), west + lngStep * (c + 0.5), time);
+              if (point) forecasts.push(toPointForecast(point));
+          }
+      }
+
+      // Filter out points with effectively 0 wave height (land)
+      const marineForecasts = forecasts.filter(f => f.waveHeight > 0.05);
+
+      renderGridMarkers(marineForecasts);
+  };
+
   // Ref to track if an advanced layer update is in progress
   const advancedLayerUpdateInProgress = useRef(false);
 
@@ -313,6 +525,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
           console.log('[MapComponent] Setting layers to null');
           setVelocityData(null);
           setWaveHeatmapData([]);
+          setGridForecast(null);
           return;
       }
 
@@ -351,7 +564,9 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
               : { latPoints: 12, lngPoints: 12 }; // 144 points for particles
 
           console.log('[MapComponent] Fetching grid data with resolution:', resolution);
-          const gridData = await fetchMarineGridData(boundingBox, resolution);
+          const forecast = await loadGridForecast(boundingBox, resolution);
+          setGridForecast(forecast);
+          const gridData = getMarineGridFrame(forecast, forecastHourTime(forecast, forecastHourRef.current));
           console.log('[MapComponent] Grid data received:', gridData);
           console.log('[MapComponent] Grid data points count:', gridData?.points?.length);
 
@@ -460,16 +675,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
               console.log('[MapComponent] Wave grid:', waveGrid);
               console.log('[MapComponent] Wave grid cells count:', waveGrid?.cells?.length);
 
-              // Filter out land points with balanced ocean detection
-              // A point is considered ocean if:
-              // 1. Wave height > 0.15m (balanced threshold for good coverage)
-              // 2. OR it has ocean current data (currentSpeed > 0)
-              const marineCells = waveGrid.cells.filter((cell, index) => {
-                  const point = gridData.points[index];
-                  const hasWaveActivity = cell.value > 0.1;
-                  const hasCurrentData = (point?.currentSpeed || 0) > 0.01;
-                  return hasWaveActivity || hasCurrentData;
-              });
+              const marineCells = filterMarineCells(waveGrid.cells, gridData);
               console.log('[MapComponent] Marine cells after filtering:', marineCells.length);
               console.log('[MapComponent] Filtered out land cells:', waveGrid.cells.length - marineCells.length);
               setWaveHeatmapData(marineCells);
@@ -509,7 +715,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                       <polyline points="5 12 12 5 19 12"></polyline>
                    </svg>
                    <div style="transform: rotate(-${pt.windDirection}deg); text-align: center; font-size: 10px; font-weight: 800; color: white; text-shadow: 0 1px 3px black; margin-top: -6px;">
-                      ${Math.round(pt.windSpeed)}
+                      ${units.number('wind', pt.windSpeed)}
                    </div>
                 </div>
               `;
@@ -528,7 +734,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                         animation: wavePulse 2s infinite;
                     ">
                        <div style="background:white; width: 24px; height: 24px; border-radius:50%; display:flex; align-items:center; justify-content:center;">
-                          ${pt.waveHeight.toFixed(1)}
+                          ${units.number('height', pt.waveHeight)}
                        </div>
                     </div>
                     ${period ? `<div style="margin-top:2px; font-size:9px; color:#cbd5e1; font-weight:bold; background:rgba(15,23,42,0.7); padding:0 3px; rounded:4px;">${period}</div>` : ''}
@@ -557,7 +763,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                       <polygon points="12 2 22 22 12 18 2 22 12 2"></polygon>
                    </svg>
                    <div style="transform: rotate(-${direction}deg); text-align: center; font-size: 9px; font-weight: 800; color: ${color}; text-shadow: 0 1px 3px black; display: flex; flex-direction: column; align-items: center;">
-                      <span>${height.toFixed(1)}m</span>
+                      <span>${units.number('height', height)}${units.label('height')}</span>
                       <span style="font-size: 8px; color: #cbd5e1;">${period.toFixed(0)}s</span>
                    </div>
                 </div>
@@ -655,6 +861,129 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
       distance: parseFloat(dist.toFixed(1))
     });
     setLegs(newLegs);
+    checkLandCrossings(latlngs);
+    checkRouteHazards(latlngs);
+  };
+
+  const checkLandCrossings = (latlngs: L.LatLng[]) => {
+    const check = ++landCheckRef.current;
+    findLandCrossings(latlngs.map(ll => ({ lat: ll.lat, lon: ll.lng })))
+      .then((crossings: number[]) => {
+        if (check === landCheckRef.current) setLandLegs(crossings);
+      })
+      .catch((error: unknown) => console.error('Land crossing check failed:', error));
+  };
+
+  // Debounced: placing several points in a row analyses the route once
+  const checkRouteHazards = (latlngs: L.LatLng[]) => {
+    const check = ++hazardCheckRef.current;
+    if (hazardTimerRef.current) clearTimeout(hazardTimerRef.current);
+    const points = latlngs.map(ll => ({ lat: ll.lat, lon: ll.lng }));
+    if (points.length < 2) {
+      setRouteAnalysis(null);
+      routeHazardsRef.current?.clearLayers();
+      return;
+    }
+
+    hazardTimerRef.current = setTimeout(() => {
+      analyzeRouteHazards(points, loadVesselSettings()?.draft ?? 2.0, 500)
+        .then((analysis: RouteAnalysis) => {
+          if (check !== hazardCheckRef.current) return;
+          setRouteAnalysis(analysis);
+          drawRouteHazards(analysis, points);
+        })
+        .catch((error: unknown) => console.error('Route hazard analysis failed:', error));
+    }, HAZARD_CHECK_DELAY_MS);
+  };
+
+  // Highlight the stretches of each leg inside an area, and legs breaking traffic separation rules
+  const drawRouteHazards = (analysis: RouteAnalysis, points: { lat: number; lon: number }[]) => {
+    if (!mapInstance.current) return;
+    if (!routeHazardsRef.current) {
+      routeHazardsRef.current = L.layerGroup().addTo(mapInstance.current);
+    }
+    const group = routeHazardsRef.current;
+    group.clearLayers();
+
+    const drawnAreas = new Set<string>();
+    analysis.areaCrossings
+      .filter(crossing => !isTrafficScheme(crossing.hazard.type))
+      .forEach(crossing => {
+        const { hazard, waypointSegment, entry, exit, lengthInside } = crossing;
+        const color = hazardColor(hazard.severity);
+        if (hazard.polygon && !drawnAreas.has(hazard.id)) {
+          drawnAreas.add(hazard.id);
+          L.polygon(hazard.polygon.map(p => [p.lat, p.lon] as [number, number]), {
+            color, weight: 1, dashArray: '4, 4', fillOpacity: 0.08, interactive: false
+          }).addTo(group);
+        }
+        const from = entry ?? points[waypointSegment];
+        const to = exit ?? points[waypointSegment + 1];
+        L.polyline([[from.lat, from.lon], [to.lat, to.lon]], { color, weight: 6, opacity: 0.8 })
+          .bindTooltip(`${hazard.description || hazard.type} · ${units.format('distance', lengthInside)}`)
+          .addTo(group);
+      });
+
+    analysis.trafficSeparation.forEach(issue => {
+      const from = points[issue.waypointSegment];
+      const to = points[issue.waypointSegment + 1];
+      L.polyline([[from.lat, from.lon], [to.lat, to.lon]], {
+        color: issue.issue === 'wrong_direction' ? '#ef4444' : '#f97316', weight: 6, opacity: 0.6, dashArray: '2, 8'
+      })
+        .bindTooltip(describeTssIssue(issue))
+        .addTo(group);
+    });
+  };
+
+  const describeTssIssue = (issue: TrafficSeparationIssue): string => {
+    switch (issue.issue) {
+      case 'wrong_direction':
+        return t('map.tssWrongDirection') || 'Against traffic flow';
+      case 'crossing_angle':
+        return `${t('map.tssCrossingAngle') || 'Crosses lane at'} ${Math.round(issue.crossingAngle ?? 0)}°`;
+      case 'separation_zone':
+        return t('map.tssSeparationZone') || 'Enters separation zone';
+    }
+  };
+
+  // Swap the drawn route for new points, e.g. once rerouted around land
+  const replaceRoutePoints = (latlngs: L.LatLng[]) => {
+    if (!mapInstance.current) return;
+
+    markersRef.current.forEach(m => m.remove());
+    markersRef.current = latlngs.map((latlng, i) =>
+      L.marker(latlng, { draggable: true }).bindPopup(t('map.waypoint') + ` ${i + 1}`).addTo(mapInstance.current!)
+    );
+    routeLineRef.current?.setLatLngs(latlngs);
+    calculateRouteStats(latlngs);
+
+    setWaypointForecasts({});
+    latlngs.forEach((latlng, i) => {
+      fetchPointForecast(latlng.lat, latlng.lng)
+        .then(forecast => setWaypointForecasts(prev => ({ ...prev, [i]: forecast })))
+        .catch(error => console.error('Waypoint forecast error:', error));
+    });
+  };
+
+  const handleRouteAroundLand = async () => {
+    const waypoints = markersRef.current.map((m, i) => ({
+      id: String(i),
+      lat: m.getLatLng().lat,
+      lon: m.getLatLng().lng,
+      name: `${t('map.waypoint')} ${i + 1}`,
+      type: 'waypoint' as const,
+    }));
+
+    setIsRoutingAroundLand(true);
+    setLandRouteError(null);
+    try {
+      const rerouted = await routeAroundLand(waypoints);
+      replaceRoutePoints(rerouted.map(wp => L.latLng(wp.lat, wp.lon)));
+    } catch (error) {
+      setLandRouteError((error as Error).message);
+    } finally {
+      setIsRoutingAroundLand(false);
+    }
   };
 
   const clearRoute = () => {
@@ -670,6 +999,13 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
     
     setRouteStats({ count: 0, distance: 0 });
     setLegs([]);
+    landCheckRef.current++;
+    setLandLegs([]);
+    hazardCheckRef.current++;
+    if (hazardTimerRef.current) clearTimeout(hazardTimerRef.current);
+    setRouteAnalysis(null);
+    routeHazardsRef.current?.clearLayers();
+    setLandRouteError(null);
     setWaypointForecasts({});
     setIsSidebarOpen(false);
   };
@@ -677,12 +1013,24 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
   // Prepare chart data for Detail Sidebar
   const detailChartData = selectedPointDetail ? selectedPointDetail.hourly.time.map((t, i) => ({
       time: format(parseISO(t), 'HH:mm'),
-      windSpeed: selectedPointDetail.hourly.windSpeed[i],
-      waveHeight: selectedPointDetail.hourly.waveHeight[i],
-      swellHeight: selectedPointDetail.hourly.swellHeight[i],
+      windSpeed: units.convert('wind', selectedPointDetail.hourly.windSpeed[i]),
+      waveHeight: units.convert('height', selectedPointDetail.hourly.waveHeight[i]),
+      swellHeight: units.convert('height', selectedPointDetail.hourly.swellHeight[i]),
       currentSpeed: selectedPointDetail.hourly.currentSpeed?.[i] || 0
   })) : [];
 
+  // Legend stops relabelled in the user's units, keeping an open-ended "+" on the last one
+  const legendScale = (scale: readonly ColorScaleItem[], quantity: UnitQuantity): ColorScaleItem[] =>
+      scale.map((item) => ({
+          ...item,
+          label: `${units.number(quantity, item.value, 0)}${item.label?.endsWith('+') ? '+' : ''}`,
+      }));
+
+  // Forecast behind the visible weather layers, if it spans more than one hour
+  const sliderForecast = (advancedLayer !== 'NONE' && gridForecast) || (activeLayer !== 'NONE' && markerForecast) || null;
+  const sliderHours = sliderForecast ? forecastHourCount(sliderForecast) : 0;
+  const showTimeSlider = sliderForecast !== null && sliderHours > 1;
+
   return (
     <div className="relative h-full w-full bg-card overflow-hidden">
       {/* Map Container with dark background */}
@@ -772,6 +1120,29 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                   <Waves size={12} /> Wave Heatmap
                </button>
 
+               {/* Forecast Source - Open-Meteo or an imported GRIB file */}
+               <div className="border-t border-subtle my-2 pt-2">
+                  <div className="text-[10px] text-muted uppercase font-bold mb-1 px-2">Forecast Source</div>
+               </div>
+
+               <select
+                 value={forecastSource}
+                 onChange={(e) => selectForecastSource(e.target.value)}
+                 className="w-full bg-card text-primary text-xs rounded px-2 py-1.5 border border-subtle"
+               >
+                  <option value={OPEN_METEO_SOURCE}>Open-Meteo (online)</option>
+                  {gribFiles.map(file => (
+                    <option key={file.id} value={file.id}>
+                      {file.name} ({format(parseISO(file.referenceTime), 'dd MMM HH:mm')} run)
+                    </option>
+                  ))}
+               </select>
+               <label className="w-full text-left px-2 py-1.5 rounded flex items-center gap-2 transition-colors text-muted hover:bg-hover cursor-pointer">
+                  <Upload size={12} /> Import GRIB file
+                  <input type="file" accept=".grb,.grb2,.grib,.grib2" className="hidden" onChange={handleGribImport} />
+               </label>
+               {gribError && <div className="px-2 text-[10px] text-red-400">{gribError}</div>}
+
                {/* Divider for GeoJSON Overlay Layers */}
                <div className="border-t border-subtle my-2 pt-2">
                   <div className="text-[10px] text-muted uppercase font-bold mb-1 px-2">{t('map.geoJSONLayers') || 'Map Overlays'}</div>
@@ -824,6 +1195,38 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                >
                   <Droplets size={12} /> {t('map.rainRadar') || 'Rain Radar'}
                </button>
+
+               {/* AIS Targets Toggle */}
+               <button
+                 onClick={() => setGeoJSONLayers(prev => ({ ...prev, ais: !prev.ais }))}
+                 className={`w-full text-left px-2 py-1.5 rounded flex items-center gap-2 transition-colors ${geoJSONLayers.ais ? 'bg-red-600 text-primary' : 'text-muted hover:bg-hover'}`}
+               >
+                  <Navigation size={12} /> {t('map.aisTargets') || 'AIS Targets'}
+               </button>
+
+               {/* OpenSeaMap Seamarks Toggle */}
+               <button
+                 onClick={() => setGeoJSONLayers(prev => ({ ...prev, seamarks: !prev.seamarks }))}
+                 className={`w-full text-left px-2 py-1.5 rounded flex items-center gap-2 transition-colors ${geoJSONLayers.seamarks ? 'bg-teal-600 text-primary' : 'text-muted hover:bg-hover'}`}
+               >
+                  <Anchor size={12} /> {t('map.seamarks') || 'Seamarks'}
+               </button>
+
+               {/* Buoys, Beacons & Lights Toggle */}
+               <button
+                 onClick={() => setGeoJSONLayers(prev => ({ ...prev, aids: !prev.aids }))}
+                 className={`w-full text-left px-2 py-1.5 rounded flex items-center gap-2 transition-colors ${geoJSONLayers.aids ? 'bg-yellow-600 text-primary' : 'text-muted hover:bg-hover'}`}
+               >
+                  <Lightbulb size={12} /> {t('map.aidsToNavigation') || 'Buoys & Lights'}
+               </button>
+
+               {/* Anchor Watch Toggle */}
+               <button
+                 onClick={() => setShowAnchorWatch(prev => !prev)}
+                 className={`w-full text-left px-2 py-1.5 rounded flex items-center gap-2 transition-colors ${showAnchorWatch ? 'bg-green-600 text-primary' : 'text-muted hover:bg-hover'}`}
+               >
+                  <Anchor size={12} /> {t('map.anchorWatch') || 'Anchor Watch'}
+               </button>
             </div>
             {(loadingGrid || loadingAdvancedLayer) && (
                <div className="pb-2 px-2 text-[10px] text-center text-blue-300 animate-pulse">{t('map.updatingForecast')}</div>
@@ -848,7 +1251,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
            <div className="p-4 border-b border-app flex justify-between items-center bg-card">
               <div>
                  <h2 className="font-bold text-primary flex items-center gap-2"><Navigation size={18} className="text-accent"/> {t('map.routePlan')}</h2>
-                 <p className="text-[10px] text-muted uppercase tracking-wider">{routeStats.count} {t('map.waypoints')} • {routeStats.distance} {t('units.nm')}</p>
+                 <p className="text-[10px] text-muted uppercase tracking-wider">{routeStats.count} {t('map.waypoints')} • {units.format('distance', routeStats.distance)}</p>
               </div>
               <button onClick={() => setIsSidebarOpen(false)} className="p-1 hover:bg-hover rounded text-muted transition-colors"><X size={20}/></button>
            </div>
@@ -869,15 +1272,44 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
               {legs.map((leg, idx) => {
                  // Forecast at start of leg
                  const forecast = waypointForecasts[leg.startIdx];
-                 const time = (leg.distance / speed) * 60; // minutes
+                 // Vessel performance uses the forecast wind on the leg's course (forecast wind is km/h)
+                 const conditions = forecast ? {
+                   course: leg.bearing,
+                   windSpeed: forecast.windSpeed * NAVIGATION_CONSTANTS.KMH_TO_KNOTS,
+                   windDirection: forecast.windDirection
+                 } : undefined;
+                 const legSpeed = vesselPerformance && conditions ? getVesselSpeed(vesselPerformance, conditions) : null;
+                 const time = calculateETA(leg.distance, speed, vesselPerformance, conditions); // minutes
 
                  return (
                    <div key={leg.id} className="bg-elevated border border-app rounded-lg p-3 relative group">
                       <div className="flex justify-between items-start mb-2">
                          <div className="text-xs font-bold text-primary">{t('map.leg')} {idx + 1}</div>
-                         <div className="text-[10px] text-muted">{leg.distance} {t('units.nm')} @ {leg.bearing}°</div>
+                         <div className="text-[10px] text-muted">{units.format('distance', leg.distance)} @ {leg.bearing}°</div>
                       </div>
 
+                      {landLegs.includes(leg.id) && (
+                         <div className="text-[10px] text-red-500 font-bold mb-2 flex items-center gap-1">
+                            <Mountain size={10} /> {t('map.crossesLand') || 'Crosses land'}
+                         </div>
+                      )}
+
+                      {routeAnalysis?.areaCrossings
+                         .filter(crossing => crossing.waypointSegment === leg.id && !isTrafficScheme(crossing.hazard.type))
+                         .map((crossing, i) => (
+                            <div key={`area-${i}`} className="text-[10px] font-bold mb-2 flex items-center gap-1" style={{ color: hazardColor(crossing.hazard.severity) }}>
+                               <AlertTriangle size={10} /> {t('map.entersArea') || 'Enters'} {crossing.hazard.description || crossing.hazard.type} ({units.format('distance', crossing.lengthInside)})
+                            </div>
+                         ))}
+
+                      {routeAnalysis?.trafficSeparation
+                         .filter(issue => issue.waypointSegment === leg.id)
+                         .map((issue, i) => (
+                            <div key={`tss-${i}`} className={`text-[10px] font-bold mb-2 flex items-center gap-1 ${issue.issue === 'wrong_direction' ? 'text-red-500' : 'text-orange-500'}`}>
+                               <AlertTriangle size={10} /> {describeTssIssue(issue)}
+                            </div>
+                         ))}
+
                       <div className="flex items-center gap-2 mb-2">
                          <div className="flex-1 h-1 bg-button-secondary rounded-full overflow-hidden">
                             <div className="h-full bg-accent w-1/2"></div>
@@ -885,13 +1317,19 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                          <div className="text-[10px] text-accent font-mono">~{Math.round(time)}{t('units.minutes')}</div>
                       </div>
 
+                      {legSpeed && (
+                         <div className="text-[10px] text-muted mb-2">
+                            {legSpeed.speed.toFixed(1)} {t('units.knots')}{legSpeed.motoring && ` • ${t('map.motoring')}`}
+                         </div>
+                      )}
+
                       {forecast && (
                          <div className="grid grid-cols-2 gap-2 text-[10px] bg-card p-2 rounded border border-subtle">
                              <div className="flex items-center gap-1 text-secondary">
-                                <Waves size={10} className="text-accent"/> {forecast.waveHeight.toFixed(1)}{t('units.meters')}
+                                <Waves size={10} className="text-accent"/> {units.format('height', forecast.waveHeight)}
                              </div>
                              <div className="flex items-center gap-1 text-secondary">
-                                <Wind size={10} className="text-accent"/> {forecast.windSpeed.toFixed(0)} {t('units.knots')}
+                                <Wind size={10} className="text-accent"/> {units.format('wind', forecast.windSpeed)}
                              </div>
                          </div>
                       )}
@@ -906,7 +1344,13 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
            </div>
 
            {/* Footer */}
-           <div className="p-4 border-t border-app bg-card">
+           <div className="p-4 border-t border-app bg-card space-y-2">
+              {landLegs.length > 0 && (
+                 <button onClick={handleRouteAroundLand} disabled={isRoutingAroundLand} className="w-full py-2 bg-orange-500/10 hover:bg-orange-500/20 text-orange-500 border border-orange-500/20 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50">
+                    <Mountain size={14} /> {isRoutingAroundLand ? (t('map.routingAroundLand') || 'Routing...') : (t('map.routeAroundLand') || 'Route around land')}
+                 </button>
+              )}
+              {landRouteError && <div className="text-[10px] text-red-500">{landRouteError}</div>}
               <button onClick={clearRoute} className="w-full py-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 border border-red-500/20 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-colors">
                   <Trash2 size={14} /> {t('map.clearRoute')}
               </button>
@@ -937,7 +1381,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                        {/* Wave & Swell Chart - Show for Wave/Swell layers or by default if no specific layer */}
                        {(activeLayer === 'WAVE' || activeLayer === 'SWELL' || activeLayer === 'SIGNIFICANT_WAVE' || activeLayer === 'WIND_WAVE' || activeLayer === 'NONE') && (
                            <div className="bg-elevated/50 rounded-xl p-4 border border-app animate-in fade-in slide-in-from-right-8">
-                               <h3 className="text-xs font-bold text-secondary uppercase mb-4 flex items-center gap-2"><Waves size={14}/> {t('map.waveSwellHeight')}</h3>
+                               <h3 className="text-xs font-bold text-secondary uppercase mb-4 flex items-center gap-2"><Waves size={14}/> {t('map.waveSwellHeight', { unit: units.label('height') })}</h3>
                                <div className="h-40 w-full min-h-[160px]">
                                    <ResponsiveContainer width="100%" height="100%">
                                        <AreaChart data={detailChartData}>
@@ -970,7 +1414,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
                        {/* Wind Chart - Show for Wind layer or None */}
                        {(activeLayer === 'WIND' || activeLayer === 'NONE') && (
                            <div className="bg-elevated/50 rounded-xl p-4 border border-app animate-in fade-in slide-in-from-right-10">
-                               <h3 className="text-xs font-bold text-secondary uppercase mb-4 flex items-center gap-2"><Wind size={14}/> {t('map.windSpeedChart')}</h3>
+                               <h3 className="text-xs font-bold text-secondary uppercase mb-4 flex items-center gap-2"><Wind size={14}/> {t('map.windSpeedChart', { unit: units.label('wind') })}</h3>
                                <div className="h-40 w-full min-h-[160px]">
                                    <ResponsiveContainer width="100%" height="100%">
                                        <AreaChart data={detailChartData}>
@@ -1055,6 +1499,25 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
         opacity={0.7}
       />
 
+      {/* AIS Targets Layer */}
+      <AisTargetsLayer
+        map={mapInstance.current}
+        visible={geoJSONLayers.ais}
+      />
+
+      {/* Anchor Watch Layer - drawn whenever a watch is active */}
+      <AnchorWatchLayer map={mapInstance.current} />
+
+      {/* Man Overboard Layer - drawn whenever a MOB is active */}
+      <MobLayer map={mapInstance.current} />
+
+      {/* Buoys, beacons and lights (OpenSeaMap data) */}
+      <SeamarkAidsLayer map={mapInstance.current} visible={geoJSONLayers.aids} />
+
+      {showAnchorWatch && (
+        <AnchorWatchPanel onPickPosition={setAnchorPick} onClose={() => setShowAnchorWatch(false)} />
+      )}
+
       {/* Rain Radar Layer */}
       <RainRadarLayer
         map={mapInstance.current}
@@ -1111,14 +1574,24 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
         />
       )}
 
+      {/* Forecast Time Slider - moves every forecast-backed layer to the same hour */}
+      {showTimeSlider && (
+        <TimeSlider
+          currentHour={Math.min(forecastHour, sliderHours - 1)}
+          onHourChange={setForecastHour}
+          maxHours={sliderHours}
+          startTime={new Date(sliderForecast.times[0])}
+        />
+      )}
+
       {/* Crisp Land Mask - REMOVED: SmoothWaveHeatmap now handles invisible land clipping internally using GeoJSON mask */}
       {/* This eliminates the gray overlay while preventing waves from climbing over land */}
 
       {/* Color Scale Legend - Show when advanced layer is active */}
       {advancedLayer === 'WIND_PARTICLES' && (
         <ColorScaleLegend
-          scale={COLOR_SCALES.wind}
-          unit="km/h"
+          scale={legendScale(COLOR_SCALES.wind, 'wind')}
+          unit={units.label('wind')}
           title={t('map.legend.windSpeed')}
           position="bottomright"
         />
@@ -1135,8 +1608,8 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
 
       {advancedLayer === 'WAVE_HEATMAP' && (
         <ColorScaleLegend
-          scale={COLOR_SCALES.windyWave}
-          unit="m"
+          scale={legendScale(COLOR_SCALES.windyWave, 'height')}
+          unit={units.label('height')}
           title={t('map.legend.waveHeight')}
           position="bottomright"
         />
@@ -1145,8 +1618,8 @@ const MapComponent: React.FC<MapComponentProps> = ({ currentLocation }) => {
       {/* Bathymetry Legend - Show when bathymetry layer is active */}
       {geoJSONLayers.bathymetry && (
         <ColorScaleLegend
-          scale={COLOR_SCALES.bathymetry}
-          unit="m"
+          scale={legendScale(COLOR_SCALES.bathymetry, 'depth')}
+          unit={units.label('depth')}
           title={t('map.legend.bathymetry')}
           position="bottomleft"
         />
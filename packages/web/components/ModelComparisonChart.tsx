@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Area, Line, Legend, ReferenceArea
+} from 'recharts';
+import { AlertTriangle, GitCompare, Loader } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { fetchModelComparison } from '@seame/core';
+import type { ComparisonVariable, ModelComparison, UnitQuantity } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+interface ModelComparisonChartProps {
+  latitude: number;
+  longitude: number;
+  /** Variables offered in the selector, first one shown initially */
+  variables: ComparisonVariable[];
+  /** Offset of the location's time from UTC, as delivered with its forecast */
+  utcOffsetSeconds?: number;
+}
+
+/** Variables shown in the user's units; the rest keep the API unit */
+const VARIABLE_QUANTITIES: Partial<Record<ComparisonVariable, UnitQuantity>> = {
+  windSpeed: 'wind',
+  windGusts: 'wind',
+  pressure: 'pressure',
+  waveHeight: 'height',
+  swellHeight: 'height',
+};
+
+const MODEL_COLORS = ['#38bdf8', '#facc15', '#f472b6', '#4ade80', '#fb923c', '#a78bfa', '#f87171'];
+
+/**
+ * Runs of consecutive flagged hours, as [first, last] chart labels
+ */
+const disagreementRuns = (labels: string[], flags: boolean[]): Array<[string, string]> => {
+  const runs: Array<[string, string]> = [];
+  flags.forEach((flagged, i) => {
+    if (!flagged) return;
+    if (i > 0 && flags[i - 1]) {
+      runs[runs.length - 1][1] = labels[i];
+    } else {
+      runs.push([labels[i], labels[i]]);
+    }
+  });
+  // Widen single hours so they remain visible
+  return runs.map(([start, end]) => {
+    const next = labels[labels.indexOf(end) + 1];
+    return [start, start === end && next ? next : end];
+  });
+};
+
+export const ModelComparisonChart: React.FC<ModelComparisonChartProps> = ({
+  latitude,
+  longitude,
+  variables,
+  utcOffsetSeconds = 0,
+}) => {
+  const { t } = useTranslation();
+  const units = useUnits();
+  const [comparison, setComparison] = useState<ModelComparison | null>(null);
+  const [variable, setVariable] = useState<ComparisonVariable>(variables[0]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A comparison only applies to the location it was fetched for
+  useEffect(() => {
+    setComparison(null);
+    setError(null);
+  }, [latitude, longitude]);
+
+  const handleCompare = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setComparison(await fetchModelComparison(latitude, longitude));
+    } catch (err) {
+      console.error('Model comparison error:', err);
+      setError(t('dashboard.modelComparison.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selected = comparison?.variables[variable];
+  const modelIds = selected ? Object.keys(selected.values) : [];
+  const modelName = (id: string) => comparison?.models.find((m) => m.id === id)?.name ?? id;
+  const quantity = VARIABLE_QUANTITIES[variable];
+  const variableLabel = (v: ComparisonVariable) => t(`dashboard.modelComparison.${v}`);
+
+  const chartData = useMemo(() => {
+    if (!comparison || !selected) return [];
+    const convert = (value: number | null) => (value !== null && quantity ? units.convert(quantity, value) : value);
+    // Comparison times are UTC; label them in the location's time like the other forecast charts
+    const localTime = (time: string) =>
+      parseISO(new Date(Date.parse(time) + utcOffsetSeconds * 1000).toISOString().slice(0, 16));
+    return comparison.times.map((time, t) => {
+      const stats = selected.stats[t];
+      const row: Record<string, unknown> = {
+        displayTime: format(localTime(time), 'EEE HH:mm'),
+        // Direction ranges can wrap through north, so no band for them
+        range: stats && variable !== 'windDirection' ? [convert(stats.min), convert(stats.max)] : null,
+      };
+      for (const id of Object.keys(selected.values)) {
+        row[id] = convert(selected.values[id][t]);
+      }
+      return row;
+    });
+  }, [comparison, selected, variable, quantity, units, utcOffsetSeconds]);
+
+  const runs = useMemo(
+    () => disagreementRuns(
+      chartData.map((row) => row.displayTime as string),
+      selected?.stats.map((stats) => Boolean(stats?.disagreement)) ?? []
+    ),
+    [chartData, selected]
+  );
+
+  const flaggedHours = selected?.stats.filter((stats) => stats?.disagreement).length ?? 0;
+
+  return (
+    <div className="bg-card border border-app rounded-xl p-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h2 className="text-sm font-bold text-secondary uppercase flex items-center gap-2">
+          <GitCompare size={16} className="text-accent" /> {t('dashboard.modelComparison.title')}
+        </h2>
+        {comparison ? (
+          <div className="flex flex-wrap gap-1">
+            {variables.map((v) => (
+              <button
+                key={v}
+                onClick={() => setVariable(v)}
+                disabled={!comparison.variables[v]}
+                className={`px-2 py-1 rounded text-xs font-bold transition-colors disabled:opacity-40 ${
+                  variable === v ? 'bg-accent text-white' : 'bg-elevated text-secondary hover:text-primary'
+                }`}
+              >
+                {variableLabel(v)}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <button
+            onClick={handleCompare}
+            disabled={isLoading}
+            className="px-3 py-1.5 rounded bg-accent text-white text-xs font-bold flex items-center gap-2 disabled:opacity-60"
+          >
+            {isLoading && <Loader size={12} className="animate-spin" />}
+            {t('dashboard.modelComparison.compare')}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-400 mb-2">{error}</div>}
+
+      {!comparison && !error && (
+        <p className="text-xs text-muted">{t('dashboard.modelComparison.intro')}</p>
+      )}
+
+      {comparison && !selected && (
+        <p className="text-xs text-muted">
+          {t('dashboard.modelComparison.noVariable', { variable: variableLabel(variable) })}
+        </p>
+      )}
+
+      {selected && (
+        <>
+          <div className="flex items-center gap-2 text-xs mb-2">
+            {flaggedHours > 0 ? (
+              <>
+                <AlertTriangle size={12} className="text-orange-400" />
+                <span className="text-orange-300">
+                  {t('dashboard.modelComparison.disagree', { hours: flaggedHours })}
+                </span>
+              </>
+            ) : (
+              <span className="text-green-400">{t('dashboard.modelComparison.agree')}</span>
+            )}
+          </div>
+
+          <div className="w-full" style={{ height: '256px', minHeight: '256px' }}>
+            <ResponsiveContainer width="100%" height={256}>
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--chart-grid)" vertical={false} />
+                <XAxis dataKey="displayTime" stroke="var(--chart-text)" fontSize={10} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis
+                  stroke="var(--chart-text)"
+                  fontSize={10}
+                  tickLine={false}
+                  axisLine={false}
+                  domain={variable === 'windDirection' ? [0, 360] : ['auto', 'auto']}
+                  label={{ value: quantity ? units.label(quantity) : selected.unit, angle: -90, position: 'insideLeft', fill: 'var(--chart-text)' }}
+                />
+                <Tooltip contentStyle={{ backgroundColor: 'var(--app-bg-card)', borderColor: 'var(--app-border)' }} itemStyle={{ color: 'var(--text-primary)' }} labelStyle={{ color: 'var(--text-secondary)' }} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+
+                {runs.map(([x1, x2]) => (
+                  <ReferenceArea key={x1} x1={x1} x2={x2} fill="#f97316" fillOpacity={0.12} ifOverflow="extendDomain" />
+                ))}
+
+                <Area type="monotone" dataKey="range" stroke="none" fill="var(--chart-primary)" fillOpacity={0.15} name={t('dashboard.modelComparison.spread')} legendType="none" />
+                {modelIds.map((id, i) => (
+                  <Line
+                    key={id}
+                    type="monotone"
+                    dataKey={id}
+                    stroke={MODEL_COLORS[i % MODEL_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls={false}
+                    name={modelName(id)}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,378 @@
+/**
+ * OFFLINE PACKS VIEW
+ * Draw a sailing area and download it for use without a connection; manage
+ * the downloaded packs (progress, resume, updates, expiry)
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import { CloudDownload, Pause, Play, RefreshCw, Square, Trash2, Maximize, AlertTriangle } from 'lucide-react';
+import { offlinePacks, estimateOfflinePack, OFFLINE_PACK_CONFIG } from '@seame/core';
+import type { BoundingBox, OfflinePack, OfflinePackOptions } from '@seame/core';
+import { DARK_MAP_CONFIG } from '../utils/particleConfig';
+import { cachedTileLayer } from './map/CachedTileLayer';
+import { CacheStatusIndicator } from '../src/components/CacheStatusIndicator';
+
+interface OfflinePacksViewProps {
+  /** Where the map starts */
+  center: { lat: number; lng: number };
+}
+
+const ZOOMS = Array.from({ length: OFFLINE_PACK_CONFIG.MAX_ZOOM + 1 }, (_, z) => z);
+const FORECAST_DAYS = Array.from({ length: OFFLINE_PACK_CONFIG.MAX_FORECAST_DAYS }, (_, d) => d + 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const toLatLngBounds = (bounds: BoundingBox): L.LatLngBoundsExpression => [
+  [bounds.south, bounds.west],
+  [bounds.north, bounds.east],
+];
+
+const STATUS_LABELS: Record<OfflinePack['status'], string> = {
+  downloading: 'Downloading',
+  paused: 'Paused',
+  complete: 'Ready offline',
+  failed: 'Incomplete',
+};
+
+export const OfflinePacksView: React.FC<OfflinePacksViewProps> = ({ center }) => {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const areaLayerRef = useRef<L.Rectangle | null>(null);
+  const packsLayerRef = useRef<L.LayerGroup | null>(null);
+  const firstCornerRef = useRef<L.LatLng | null>(null);
+
+  const [packs, setPacks] = useState<OfflinePack[]>([]);
+  const [bounds, setBounds] = useState<BoundingBox | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [name, setName] = useState('');
+  const [minZoom, setMinZoom] = useState(6);
+  const [maxZoom, setMaxZoom] = useState(12);
+  const [forecastDays, setForecastDays] = useState<number>(OFFLINE_PACK_CONFIG.FORECAST_DAYS);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  // Map to draw the area on
+  useEffect(() => {
+    if (!mapContainer.current || mapRef.current) return;
+
+    const map = L.map(mapContainer.current).setView([center.lat, center.lng], 7);
+    cachedTileLayer(DARK_MAP_CONFIG.style, DARK_MAP_CONFIG.tileUrl, {
+      attribution: DARK_MAP_CONFIG.attribution,
+      opacity: DARK_MAP_CONFIG.opacity,
+    }).addTo(map);
+    packsLayerRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  // Two taps on opposite corners draw the area
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !isDrawing) return;
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      const first = firstCornerRef.current;
+      if (!first) {
+        firstCornerRef.current = e.latlng;
+        return;
+      }
+      firstCornerRef.current = null;
+      setIsDrawing(false);
+      setBounds({
+        north: Math.max(first.lat, e.latlng.lat),
+        south: Math.min(first.lat, e.latlng.lat),
+        east: Math.max(first.lng, e.latlng.lng),
+        west: Math.min(first.lng, e.latlng.lng),
+      });
+    };
+    const handleMove = (e: L.LeafletMouseEvent) => {
+      const first = firstCornerRef.current;
+      if (first) setBounds({
+        north: Math.max(first.lat, e.latlng.lat),
+        south: Math.min(first.lat, e.latlng.lat),
+        east: Math.max(first.lng, e.latlng.lng),
+        west: Math.min(first.lng, e.latlng.lng),
+      });
+    };
+
+    map.getContainer().style.cursor = 'crosshair';
+    map.on('click', handleClick);
+    map.on('mousemove', handleMove);
+    return () => {
+      map.getContainer().style.cursor = '';
+      map.off('click', handleClick);
+      map.off('mousemove', handleMove);
+    };
+  }, [isDrawing]);
+
+  // Selected area
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    areaLayerRef.current?.remove();
+    areaLayerRef.current = bounds
+      ? L.rectangle(toLatLngBounds(bounds), { color: '#3b82f6', weight: 2, fillOpacity: 0.1, interactive: false }).addTo(map)
+      : null;
+  }, [bounds]);
+
+  // Downloaded packs
+  useEffect(() => {
+    const group = packsLayerRef.current;
+    if (!group) return;
+    group.clearLayers();
+    packs.forEach((pack: OfflinePack) => {
+      L.rectangle(toLatLngBounds(pack.bounds), {
+        color: pack.status === 'complete' ? '#22c55e' : '#f59e0b',
+        weight: 1,
+        dashArray: '4 4',
+        fillOpacity: 0.05,
+      })
+        .bindTooltip(pack.name)
+        .addTo(group);
+    });
+  }, [packs]);
+
+  useEffect(() => {
+    const handlePacks = (list: OfflinePack[]) => setPacks(list);
+    const handleProgress = (pack: OfflinePack) =>
+      setPacks((list: OfflinePack[]) => list.map((p) => (p.id === pack.id ? pack : p)));
+    const handleConnection = () => setIsOnline(navigator.onLine);
+
+    offlinePacks.list().then(setPacks);
+    offlinePacks.on('packs', handlePacks);
+    offlinePacks.on('progress', handleProgress);
+    window.addEventListener('online', handleConnection);
+    window.addEventListener('offline', handleConnection);
+    return () => {
+      offlinePacks.off('packs', handlePacks);
+      offlinePacks.off('progress', handleProgress);
+      window.removeEventListener('online', handleConnection);
+      window.removeEventListener('offline', handleConnection);
+    };
+  }, []);
+
+  const options: OfflinePackOptions | null = bounds && {
+    name: name.trim() || `Area ${bounds.north.toFixed(1)}, ${bounds.west.toFixed(1)}`,
+    bounds,
+    minZoom,
+    maxZoom,
+    tileUrl: DARK_MAP_CONFIG.tileUrl,
+    forecastDays,
+  };
+  const estimate = useMemo(() => (options ? estimateOfflinePack(options) : null), [bounds, minZoom, maxZoom, forecastDays]);
+
+  const selectVisibleArea = () => {
+    const map = mapRef.current;
+    if (!map) return;
+    const view = map.getBounds();
+    setBounds({ north: view.getNorth(), south: view.getSouth(), east: view.getEast(), west: view.getWest() });
+  };
+
+  const handleDownload = async () => {
+    if (!options) return;
+    setError(null);
+    try {
+      await offlinePacks.create(options);
+      setBounds(null);
+      setName('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const describeExpiry = (pack: OfflinePack): string => {
+    const now = Date.now();
+    const forecast = pack.forecastUntil
+      ? new Date(pack.forecastUntil) > new Date(now)
+        ? `forecast until ${new Date(pack.forecastUntil).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}`
+        : 'forecast expired'
+      : 'no forecast yet';
+    if (pack.status !== 'complete') return forecast;
+    const days = Math.ceil((pack.expiresAt - now) / DAY_MS);
+    return offlinePacks.isExpired(pack, now) ? `Update due · ${forecast}` : `Update in ${days} d · ${forecast}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-4 space-y-4">
+      <div className="bg-slate-900 rounded-lg shadow-lg p-4 border border-slate-800 space-y-3">
+        <h1 className="text-2xl font-bold flex items-center gap-2 text-white">
+          <CloudDownload className="w-7 h-7 text-blue-400" />
+          Offline Packs
+        </h1>
+        <p className="text-sm text-slate-400">
+          Download the charts, hazards, marinas and forecast for a sailing area. The map and the route planner use
+          them automatically when there is no connection.
+        </p>
+
+        {!isOnline && (
+          <div className="text-sm text-amber-300 flex items-center gap-2">
+            <AlertTriangle size={16} /> Offline: downloads resume when the connection is back
+          </div>
+        )}
+
+        <div ref={mapContainer} className="h-72 rounded-lg overflow-hidden border border-slate-800" />
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => {
+              firstCornerRef.current = null;
+              setIsDrawing(!isDrawing);
+            }}
+            className={`px-3 py-2 rounded-lg text-sm font-semibold flex items-center gap-2 ${
+              isDrawing ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-200 hover:bg-slate-700'
+            }`}
+          >
+            <Square size={14} /> {isDrawing ? 'Tap two opposite corners' : 'Draw area'}
+          </button>
+          <button
+            onClick={selectVisibleArea}
+            className="px-3 py-2 rounded-lg text-sm font-semibold bg-slate-800 text-slate-200 hover:bg-slate-700 flex items-center gap-2"
+          >
+            <Maximize size={14} /> Use visible area
+          </button>
+        </div>
+
+        {options && estimate && (
+          <div className="p-3 bg-slate-800/60 rounded-lg border border-slate-700 space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={options.name}
+              className="w-full px-3 py-2 rounded bg-slate-900 border border-slate-700 text-sm text-white"
+            />
+            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+              <label className="flex items-center gap-2">
+                Map zoom
+                <select
+                  value={minZoom}
+                  onChange={(e) => setMinZoom(parseInt(e.target.value, 10))}
+                  className="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-white"
+                >
+                  {ZOOMS.map((z) => <option key={z} value={z}>{z}</option>)}
+                </select>
+                –
+                <select
+                  value={maxZoom}
+                  onChange={(e) => setMaxZoom(parseInt(e.target.value, 10))}
+                  className="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-white"
+                >
+                  {ZOOMS.map((z) => <option key={z} value={z}>{z}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Forecast
+                <select
+                  value={forecastDays}
+                  onChange={(e) => setForecastDays(parseInt(e.target.value, 10))}
+                  className="px-2 py-1 rounded bg-slate-900 border border-slate-700 text-white"
+                >
+                  {FORECAST_DAYS.map((d) => <option key={d} value={d}>{d} days</option>)}
+                </select>
+              </label>
+            </div>
+            <div className={`text-sm ${estimate.tooLarge ? 'text-red-400' : 'text-slate-400'}`}>
+              About {formatBytes(estimate.bytes)} · {estimate.tiles.toLocaleString()} map tiles
+              {estimate.tooLarge && ` (at most ${OFFLINE_PACK_CONFIG.MAX_TILES.toLocaleString()})`}
+            </div>
+            {error && <div className="text-sm text-red-400">{error}</div>}
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setBounds(null)} className="px-3 py-2 rounded text-sm text-slate-400 hover:text-white">
+                Cancel
+              </button>
+              <button
+                onClick={handleDownload}
+                disabled={estimate.tooLarge || !isOnline}
+                className="px-3 py-2 rounded bg-blue-600 text-white text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+              >
+                <CloudDownload size={14} /> Download
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {packs.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-6">No offline packs yet. Draw an area to download one.</p>
+        )}
+        {packs.map((pack: OfflinePack) => {
+          const progress = pack.totalItems > 0 ? Math.min(100, (pack.cursor / pack.totalItems) * 100) : 0;
+          const isRunning = offlinePacks.isDownloading(pack.id);
+          const expired = offlinePacks.isExpired(pack);
+
+          return (
+            <div key={pack.id} className="bg-slate-900 rounded-lg p-4 border border-slate-800 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <button
+                  onClick={() => mapRef.current?.fitBounds(toLatLngBounds(pack.bounds))}
+                  className="text-left"
+                >
+                  <div className="font-bold text-white">{pack.name}</div>
+                  <div className="text-xs text-slate-400">
+                    {STATUS_LABELS[pack.status]} · {formatBytes(pack.bytes)} · zoom {pack.minZoom}–{pack.maxZoom}
+                  </div>
+                </button>
+                <div className="flex items-center gap-1">
+                  {isRunning ? (
+                    <button onClick={() => offlinePacks.pause(pack.id)} className="p-2 text-slate-300 hover:text-white" aria-label="Pause">
+                      <Pause size={16} />
+                    </button>
+                  ) : pack.status !== 'complete' ? (
+                    <button
+                      onClick={() => offlinePacks.resume(pack.id)}
+                      disabled={!isOnline}
+                      className="p-2 text-slate-300 hover:text-white disabled:opacity-50"
+                      aria-label="Resume"
+                    >
+                      <Play size={16} />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => (expired ? offlinePacks.update(pack.id) : offlinePacks.refreshForecast(pack.id))}
+                      disabled={!isOnline}
+                      className="p-2 text-slate-300 hover:text-white disabled:opacity-50"
+                      aria-label={expired ? 'Update pack' : 'Update forecast'}
+                      title={expired ? 'Download the pack again' : 'Download a fresh forecast'}
+                    >
+                      <RefreshCw size={16} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => confirm(`Delete the offline pack "${pack.name}"?`) && offlinePacks.remove(pack.id)}
+                    className="p-2 text-slate-400 hover:text-red-400"
+                    aria-label="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+
+              {pack.status !== 'complete' && (
+                <div className="w-full bg-slate-800 rounded-full h-2">
+                  <div className="bg-blue-500 h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+                </div>
+              )}
+              <div className={`text-xs ${expired ? 'text-amber-300' : 'text-slate-500'}`}>{describeExpiry(pack)}</div>
+              {pack.error && <div className="text-xs text-red-400">{pack.error}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Map tiles and weather data cached while browsing */}
+      <CacheStatusIndicator inline />
+    </div>
+  );
+};
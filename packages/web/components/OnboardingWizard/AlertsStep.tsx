@@ -6,6 +6,7 @@ import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { ArrowLeft, Bell, Waves, Wind, Check, Sparkles } from 'lucide-react';
 import { OnboardingStepProps } from '../../src/types/onboarding';
+import { useUnits } from '../../src/hooks/useUnits';
 
 export const AlertsStep: React.FC<OnboardingStepProps> = ({
   onSkip,
@@ -14,6 +15,7 @@ export const AlertsStep: React.FC<OnboardingStepProps> = ({
   updatePreferences,
 }) => {
   const { t } = useTranslation();
+  const units = useUnits();
   const { alerts } = preferences;
 
   const handleWaveHeightChange = (value: number) => {
@@ -29,6 +31,10 @@ export const AlertsStep: React.FC<OnboardingStepProps> = ({
   };
 
   const handleNotifyToggle = () => {
+    // Ask while the user is interacting; browsers ignore later requests
+    if (!alerts.notifyWhenPerfect && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
     updatePreferences({
       alerts: { ...alerts, notifyWhenPerfect: !alerts.notifyWhenPerfect },
     });
@@ -61,21 +67,19 @@ export const AlertsStep: React.FC<OnboardingStepProps> = ({
               <span className="font-bold text-white">{t('ui.wave_height_threshold')}</span>
             </div>
             <div className="text-2xl font-bold text-blue-400">
-              {alerts.waveHeight.toFixed(1)}m
+              {units.format('height', alerts.waveHeight)}
             </div>
           </div>
           <input
             type="range"
-            min="0.5"
-            max="5"
-            step="0.1"
-            value={alerts.waveHeight}
-            onChange={(e) => handleWaveHeightChange(parseFloat(e.target.value))}
+            {...units.range('height', 0.5, 5)}
+            value={units.convert('height', alerts.waveHeight)}
+            onChange={(e) => handleWaveHeightChange(units.toCanonical('height', parseFloat(e.target.value)))}
             className="w-full h-2 bg-slate-700 rounded-lg cursor-pointer accent-blue-500"
           />
             <div className="flex justify-between text-xs text-slate-500 mt-2">
-            <span>{t('ui.threshold_calm', { val: '0.5m' })}</span>
-            <span>{t('ui.threshold_extreme', { val: '5m' })}</span>
+            <span>{t('ui.threshold_calm', { val: units.format('height', 0.5) })}</span>
+            <span>{t('ui.threshold_extreme', { val: units.format('height', 5) })}</span>
           </div>
           <p className="text-xs text-slate-400 mt-3">
             {t('ui.alert_when_waves_exceed')}
@@ -90,21 +94,19 @@ export const AlertsStep: React.FC<OnboardingStepProps> = ({
               <span className="font-bold text-white">{t('ui.wind_speed_threshold')}</span>
             </div>
             <div className="text-2xl font-bold text-cyan-400">
-              {alerts.windSpeed} km/h
+              {units.format('wind', alerts.windSpeed)}
             </div>
           </div>
           <input
             type="range"
-            min="0"
-            max="80"
-            step="5"
-            value={alerts.windSpeed}
-            onChange={(e) => handleWindSpeedChange(parseInt(e.target.value))}
+            {...units.range('wind', 0, 80)}
+            value={units.convert('wind', alerts.windSpeed)}
+            onChange={(e) => handleWindSpeedChange(units.toCanonical('wind', parseFloat(e.target.value)))}
             className="w-full h-2 bg-slate-700 rounded-lg cursor-pointer accent-cyan-500"
           />
           <div className="flex justify-between text-xs text-slate-500 mt-2">
-            <span>{t('ui.threshold_min', { val: '0 km/h' })}</span>
-            <span>{t('ui.threshold_max', { val: '80 km/h' })}</span>
+            <span>{t('ui.threshold_min', { val: units.format('wind', 0) })}</span>
+            <span>{t('ui.threshold_max', { val: units.format('wind', 80) })}</span>
           </div>
           <p className="text-xs text-slate-400 mt-3">
             Alert me when wind speed exceeds this value
@@ -0,0 +1,160 @@
+import React from 'react';
+import { ArrowRight, Check, Route as RouteIcon, ShieldAlert, ShieldCheck, X } from 'lucide-react';
+import { calculateRouteDistance, formatDistance, formatTime } from '@seame/core';
+import type { HazardAvoidanceResult, RouteAnalysis, Waypoint } from '@seame/core';
+import { useUnits } from '../src/hooks/useUnits';
+
+interface RouteAvoidancePreviewProps {
+  result: HazardAvoidanceResult;
+  /** Analysis of the route before rerouting */
+  before: RouteAnalysis | null;
+  beforeLandCrossings: number;
+  averageSpeed: number; // knots
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const conflictCount = (analysis: RouteAnalysis | null, landCrossings: number) =>
+  (analysis?.hazards.filter((h) => h.hazard.severity === 'critical' || h.hazard.severity === 'danger').length ?? 0) +
+  (analysis?.trafficSeparation.filter((issue) => issue.issue === 'wrong_direction').length ?? 0) +
+  (analysis?.depthProfile?.shallowLegs.length ?? 0) +
+  landCrossings;
+
+/**
+ * The legs of the original route, each with the turning points the reroute put into it
+ */
+const diffLegs = (original: Waypoint[], rerouted: Waypoint[]) => {
+  const legs: { from: Waypoint; to: Waypoint; added: Waypoint[] }[] = [];
+  let index = 1;
+  for (let i = 0; i < original.length - 1; i++) {
+    const added: Waypoint[] = [];
+    while (index < rerouted.length && rerouted[index] !== original[i + 1]) {
+      added.push(rerouted[index++]);
+    }
+    index++;
+    legs.push({ from: original[i], to: original[i + 1], added });
+  }
+  return legs;
+};
+
+export const RouteAvoidancePreview: React.FC<RouteAvoidancePreviewProps> = ({
+  result,
+  before,
+  beforeLandCrossings,
+  averageSpeed,
+  onAccept,
+  onDiscard,
+}) => {
+  const { units } = useUnits();
+  const distanceBefore = calculateRouteDistance(result.original);
+  const distanceAfter = calculateRouteDistance(result.waypoints);
+
+  const legs = diffLegs(result.original, result.waypoints);
+  const changed = legs.filter((leg) => leg.added.length > 0);
+
+  const rows = [
+    {
+      label: 'Distance',
+      before: formatDistance(distanceBefore, units.distance),
+      after: formatDistance(distanceAfter, units.distance),
+    },
+    {
+      label: 'ETA',
+      before: formatTime((distanceBefore / averageSpeed) * 60),
+      after: formatTime((distanceAfter / averageSpeed) * 60),
+    },
+    { label: 'Waypoints', before: String(result.original.length), after: String(result.waypoints.length) },
+    {
+      label: 'Conflicts',
+      before: String(conflictCount(before, beforeLandCrossings)),
+      after: String(conflictCount(result.analysis, result.landCrossings.length)),
+    },
+  ];
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 p-4 mb-4 rounded-lg">
+      <div className="flex items-center gap-2 mb-3">
+        {result.resolved ? (
+          <ShieldCheck className="w-6 h-6 text-green-400" />
+        ) : (
+          <ShieldAlert className="w-6 h-6 text-orange-400" />
+        )}
+        <h3 className={`font-bold ${result.resolved ? 'text-green-400' : 'text-orange-400'}`}>
+          {result.resolved ? 'Clear route found' : 'Route could not be fully cleared'}
+        </h3>
+      </div>
+
+      <table className="w-full text-sm mb-3">
+        <thead>
+          <tr className="text-slate-400 text-xs">
+            <th className="text-left font-normal"></th>
+            <th className="text-right font-normal">Before</th>
+            <th className="text-right font-normal">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="text-white">
+              <td className="text-slate-400 py-0.5">{row.label}</td>
+              <td className="text-right">{row.before}</td>
+              <td className="text-right font-semibold">{row.after}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {result.addedDistance > 0 && (
+        <p className="text-xs text-slate-400 mb-3">
+          Adds {formatDistance(result.addedDistance, units.distance)} after {result.iterations} reroute
+          {result.iterations === 1 ? '' : 's'}.
+        </p>
+      )}
+
+      {changed.length > 0 && (
+        <div className="mb-3 space-y-2">
+          {changed.map((leg) => (
+            <div key={leg.from.id} className="text-sm bg-slate-900/60 rounded p-2">
+              <div className="flex items-center gap-1 text-slate-300">
+                <RouteIcon className="w-4 h-4 text-blue-400" />
+                {leg.from.name} <ArrowRight className="w-3 h-3" /> {leg.to.name}
+              </div>
+              <ul className="mt-1 text-xs text-green-400 font-mono">
+                {leg.added.map((point) => (
+                  <li key={point.id}>
+                    + {point.name} {point.lat.toFixed(4)}, {point.lon.toFixed(4)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result.unresolved.length > 0 && (
+        <ul className="list-disc list-inside space-y-1 text-sm text-orange-300 mb-3">
+          {result.unresolved.map((reason, i) => (
+            <li key={i}>{reason}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onAccept}
+          disabled={changed.length === 0}
+          className="flex-1 py-2 bg-green-600 text-white rounded hover:bg-green-500 disabled:bg-slate-700 font-semibold flex items-center justify-center gap-2"
+        >
+          <Check className="w-4 h-4" />
+          Use New Route
+        </button>
+        <button
+          onClick={onDiscard}
+          className="flex-1 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 font-semibold flex items-center justify-center gap-2"
+        >
+          <X className="w-4 h-4" />
+          Keep Current Route
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -3,7 +3,7 @@
  * Main interface for route planning and navigation
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Navigation,
   MapPin,
@@ -20,11 +20,13 @@ import {
   Check,
   X,
   ChevronRight,
+  Upload,
+  Download,
+  Mountain,
 } from 'lucide-react';
-import type { Route, NavigationState, NavigationAlert } from '@seame/core';
+import type { Route, NavigationState, NavigationAlert, RouteFileFormat, HazardAvoidanceResult } from '@seame/core';
 import {
   generateRoute,
-  addWaypoint,
   saveRoute,
   getSavedRoutes,
   deleteRoute,
@@ -33,13 +35,32 @@ import {
   formatBearing,
   offlineNavigation,
   analyzeRouteHazards,
-  suggestHazardAvoidance,
+  solveHazardAvoidance,
   RouteAnalysis,
+  parseRouteFile,
+  serializeRoute,
+  trackToRoute,
+  ROUTE_FILE_MIME_TYPES,
+  planSeaRoute,
+  findLandCrossings,
+  routeAroundLand,
+  rerouteLegs,
+  calculateRouteDistance,
+  getAvailableBathymetryDepths,
+  SEA_ROUTE_CONFIG,
+  DEPTH_CONFIG,
 } from '@seame/core';
-import { VesselSettingsModal, VesselSettings } from './VesselSettingsModal';
+import { VesselSettingsModal, VesselSettings, loadVesselSettings, getVesselPerformance } from './VesselSettingsModal';
 import { HazardAlert } from './HazardAlert';
+import { DepthProfilePanel } from './DepthProfilePanel';
+import { RouteAvoidancePreview } from './RouteAvoidancePreview';
+import { DepartureWindowPlanner } from './DepartureWindowPlanner';
+import { InstrumentPanel } from './InstrumentPanel';
+import { useUnits } from '../src/hooks/useUnits';
+import { ManOverboardPanel } from './ManOverboardPanel';
 
 export const RoutePlanningView: React.FC = () => {
+  const { units } = useUnits();
   const [route, setRoute] = useState<Route | null>(null);
   const [isNavigating, setIsNavigating] = useState(false);
   const [navigationState, setNavigationState] = useState<NavigationState | null>(null);
@@ -57,9 +78,25 @@ export const RoutePlanningView: React.FC = () => {
   const [destLon, setDestLon] = useState('');
   const [averageSpeed, setAverageSpeed] = useState(5);
 
+  // Land avoidance
+  const [autoRoute, setAutoRoute] = useState(true);
+  const [shoreClearance, setShoreClearance] = useState<number>(SEA_ROUTE_CONFIG.SHORE_CLEARANCE_M);
+  const [depthContour, setDepthContour] = useState(0); // 0 = no depth limit
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [landCrossings, setLandCrossings] = useState<number[]>([]);
+
+  // Depth and tide along the route
+  const [departureTime, setDepartureTime] = useState(() => new Date());
+
+  // Route file import
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
   // Hazard analysis state
   const [hazardAnalysis, setHazardAnalysis] = useState<RouteAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [avoidance, setAvoidance] = useState<HazardAvoidanceResult | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
   const [showVesselSettings, setShowVesselSettings] = useState(false);
   const [vesselSettings, setVesselSettings] = useState<VesselSettings>({
     draft: 2.0,
@@ -68,9 +105,9 @@ export const RoutePlanningView: React.FC = () => {
   });
 
   useEffect(() => {
-    const savedSettings = localStorage.getItem('vesselSettings');
+    const savedSettings = loadVesselSettings();
     if (savedSettings) {
-      setVesselSettings(JSON.parse(savedSettings));
+      setVesselSettings(savedSettings);
     }
     loadSavedRoutes();
     setupNavigationListeners();
@@ -119,19 +156,31 @@ export const RoutePlanningView: React.FC = () => {
     
     // Re-analyze route if exists
     if (route) {
-      analyzeRoute(route);
+      analyzeRoute(route, { settings });
     }
   };
 
-  const analyzeRoute = async (routeToAnalyze: Route) => {
-    if (!vesselSettings) return;
+  const analyzeRoute = async (
+    routeToAnalyze: Route,
+    { settings = vesselSettings, departure = departureTime }: { settings?: VesselSettings; departure?: Date } = {}
+  ) => {
+    if (!settings) return;
     
     setIsAnalyzing(true);
+    setAvoidance(null);
+    findLandCrossings(routeToAnalyze.waypoints)
+      .then(setLandCrossings)
+      .catch((error) => console.error('Error checking route for land:', error));
     try {
       const analysis = await analyzeRouteHazards(
         routeToAnalyze.waypoints,
-        vesselSettings.draft,
-        500 // 500m safety margin
+        settings.draft,
+        500, // 500m safety margin
+        {
+          underKeelClearance: settings.underKeelClearance,
+          departureTime: departure,
+          averageSpeed: routeToAnalyze.averageSpeed,
+        }
       );
       
       setHazardAnalysis(analysis);
@@ -143,45 +192,43 @@ export const RoutePlanningView: React.FC = () => {
     }
   };
 
-  const handleFixRoute = () => {
-    if (!route || !hazardAnalysis) return;
-    
-    const criticalHazards = hazardAnalysis.hazards.filter(
-      (h) => h.hazard.severity === 'critical'
-    );
-    
-    if (criticalHazards.length === 0) return;
-    
-    let updatedRoute = { ...route };
-    let hasUpdates = false;
-    
-    criticalHazards.forEach((hazardInfo) => {
-      const segmentIndex = hazardInfo.waypointSegment;
-      const start = route.waypoints[segmentIndex];
-      const end = route.waypoints[segmentIndex + 1];
-      
-      const avoidanceWaypoint = suggestHazardAvoidance(
-        hazardInfo.hazard,
-        start,
-        end,
-        500
-      );
-      
-      if (avoidanceWaypoint) {
-        updatedRoute = addWaypoint(updatedRoute, avoidanceWaypoint, segmentIndex + 1);
-        hasUpdates = true;
-      }
-    });
-    
-    if (hasUpdates) {
-      setRoute(updatedRoute);
-      analyzeRoute(updatedRoute);
-      alert('Route updated with avoidance waypoints. Please verify with official charts.');
-    } else {
-      alert('Could not automatically find safe avoidance path. Manual rerouting required.');
+  const handleFixRoute = async () => {
+    if (!route) return;
+
+    setIsSolving(true);
+    try {
+      const result = await solveHazardAvoidance(route.waypoints, {
+        draft: vesselSettings.draft,
+        safetyMargin: 500,
+        shoreClearance,
+        depthContour: depthContour || undefined,
+        underKeelClearance: vesselSettings.underKeelClearance,
+        departureTime,
+        averageSpeed: route.averageSpeed,
+      });
+      setAvoidance(result);
+    } catch (error) {
+      alert('Could not find a safe route: ' + (error as Error).message);
+    } finally {
+      setIsSolving(false);
     }
   };
 
+  const handleAcceptAvoidance = () => {
+    if (!route || !avoidance) return;
+
+    const totalDistance = calculateRouteDistance(avoidance.waypoints);
+    setRoute({
+      ...route,
+      waypoints: avoidance.waypoints,
+      totalDistance,
+      estimatedTime: totalDistance / route.averageSpeed,
+    });
+    setHazardAnalysis(avoidance.analysis);
+    setLandCrossings(avoidance.landCrossings);
+    setAvoidance(null);
+  };
+
   const handleCreateRoute = async () => {
     const sLat = parseFloat(startLat);
     const sLon = parseFloat(startLon);
@@ -193,11 +240,27 @@ export const RoutePlanningView: React.FC = () => {
       return;
     }
 
-    const newRoute = generateRoute(
-      { lat: sLat, lon: sLon, name: startLocation || 'Start' },
-      { lat: dLat, lon: dLon, name: destLocation || 'Destination' },
-      averageSpeed
-    );
+    const start = { lat: sLat, lon: sLon, name: startLocation || 'Start' };
+    const destination = { lat: dLat, lon: dLon, name: destLocation || 'Destination' };
+    let newRoute: Route;
+
+    if (autoRoute) {
+      setIsPlanning(true);
+      try {
+        newRoute = await planSeaRoute(start, destination, {
+          averageSpeed,
+          shoreClearance,
+          depthContour: depthContour || undefined,
+        });
+      } catch (error) {
+        alert('Could not find a route around land: ' + (error as Error).message);
+        return;
+      } finally {
+        setIsPlanning(false);
+      }
+    } else {
+      newRoute = generateRoute(start, destination, averageSpeed);
+    }
 
     if (routeName) {
       newRoute.name = routeName;
@@ -207,6 +270,67 @@ export const RoutePlanningView: React.FC = () => {
     await analyzeRoute(newRoute);
   };
 
+  const handleRouteAroundLand = async () => {
+    if (!route) return;
+
+    setIsPlanning(true);
+    try {
+      const waypoints = await routeAroundLand(route.waypoints, {
+        shoreClearance,
+        depthContour: depthContour || undefined,
+      });
+      const totalDistance = calculateRouteDistance(waypoints);
+      const updatedRoute = {
+        ...route,
+        waypoints,
+        totalDistance,
+        estimatedTime: totalDistance / route.averageSpeed,
+      };
+
+      setRoute(updatedRoute);
+      await analyzeRoute(updatedRoute);
+    } catch (error) {
+      alert('Could not find a route around land: ' + (error as Error).message);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleDepartureTimeChange = (time: Date) => {
+    setDepartureTime(time);
+    if (route) {
+      analyzeRoute(route, { departure: time });
+    }
+  };
+
+  const handleRerouteShallowLegs = async () => {
+    const profile = hazardAnalysis?.depthProfile;
+    if (!route || !profile) return;
+
+    setIsPlanning(true);
+    try {
+      const waypoints = await rerouteLegs(route.waypoints, profile.shallowLegs, {
+        shoreClearance,
+        depthContour: depthContour || undefined,
+        minDepth: profile.requiredDepth,
+      });
+      const totalDistance = calculateRouteDistance(waypoints);
+      const updatedRoute = {
+        ...route,
+        waypoints,
+        totalDistance,
+        estimatedTime: totalDistance / route.averageSpeed,
+      };
+
+      setRoute(updatedRoute);
+      await analyzeRoute(updatedRoute);
+    } catch (error) {
+      alert('Could not find a deep enough route: ' + (error as Error).message);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
   const handleSaveRoute = () => {
     if (!route) return;
     
@@ -222,6 +346,9 @@ export const RoutePlanningView: React.FC = () => {
   const handleLoadRoute = (savedRoute: Route) => {
     setRoute(savedRoute);
     setShowSavedRoutes(false);
+    findLandCrossings(savedRoute.waypoints)
+      .then(setLandCrossings)
+      .catch((error) => console.error('Error checking route for land:', error));
   };
 
   const handleDeleteRoute = (routeId: string) => {
@@ -231,6 +358,50 @@ export const RoutePlanningView: React.FC = () => {
     }
   };
 
+  const handleImportFile = async (file: File) => {
+    try {
+      const { route: importedRoute, track } = parseRouteFile(await file.text(), file.name);
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      const newRoute = importedRoute ?? trackToRoute(track, baseName);
+
+      setRoute(newRoute);
+      setRouteName(newRoute.name);
+      await analyzeRoute(newRoute);
+    } catch (error) {
+      alert('Failed to import route: ' + (error as Error).message);
+    }
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleImportFile(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      handleImportFile(file);
+    }
+  };
+
+  const handleExportRoute = (format: RouteFileFormat) => {
+    if (!route) return;
+
+    const content = serializeRoute(route, format, offlineNavigation.getNavigationHistory());
+    const url = URL.createObjectURL(new Blob([content], { type: ROUTE_FILE_MIME_TYPES[format] }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${route.name.replace(/[^\w-]+/g, '_')}.${format}`;
+    link.click();
+    // Revoking right away can cancel the download before the browser reads the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   const handleStartNavigation = async () => {
     if (!route) return;
 
@@ -304,6 +475,18 @@ export const RoutePlanningView: React.FC = () => {
           </button>
         </div>
 
+        {/* Man Overboard */}
+        <ManOverboardPanel
+          navigationState={navigationState}
+          onActivated={() => setIsNavigating(true)}
+          onCleared={() => {
+            // Back to the previous route, if one was being navigated
+            const status = offlineNavigation.getStatus();
+            setIsNavigating(status.isNavigating);
+            if (!status.isNavigating) setNavigationState(null);
+          }}
+        />
+
         {/* Alerts */}
         {alerts.length > 0 && (
           <div className="mb-4 space-y-2">
@@ -357,7 +540,7 @@ export const RoutePlanningView: React.FC = () => {
                   <div className="flex-1">
                     <h3 className="font-semibold text-white">{savedRoute.name}</h3>
                     <p className="text-sm text-slate-400">
-                      {formatDistance(savedRoute.totalDistance)} • ETA:{' '}
+                      {formatDistance(savedRoute.totalDistance, units.distance)} • ETA:{' '}
                       {formatTime(savedRoute.estimatedTime * 60)}
                     </p>
                   </div>
@@ -384,8 +567,35 @@ export const RoutePlanningView: React.FC = () => {
 
       {/* Route Creation Form */}
       {!isNavigating && (
-        <div className="bg-slate-900 rounded-lg shadow-lg p-6 mb-4 border border-slate-800">
-          <h2 className="text-xl font-bold mb-4 text-white">Create New Route</h2>
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDraggingFile(true);
+          }}
+          onDragLeave={() => setIsDraggingFile(false)}
+          onDrop={handleFileDrop}
+          className={`bg-slate-900 rounded-lg shadow-lg p-6 mb-4 border ${
+            isDraggingFile ? 'border-blue-500 border-dashed' : 'border-slate-800'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-white">Create New Route</h2>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              title="Import a GPX, KML or GeoJSON file (or drop it here)"
+              className="px-3 py-2 bg-slate-800 text-white text-sm rounded-lg hover:bg-slate-700 border border-slate-700 flex items-center gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gpx,.kml,.geojson,.json"
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+          </div>
           
           <div className="space-y-4">
             <div>
@@ -490,12 +700,54 @@ export const RoutePlanningView: React.FC = () => {
               />
             </div>
 
+            <div className="p-4 bg-slate-800/50 rounded-lg border border-slate-700 space-y-3">
+              <label className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={autoRoute}
+                  onChange={(e) => setAutoRoute(e.target.checked)}
+                />
+                Auto-route around land
+              </label>
+              {autoRoute && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs mb-1 text-slate-400">Shore clearance (m)</label>
+                    <input
+                      type="number"
+                      value={shoreClearance}
+                      onChange={(e) => setShoreClearance(Math.max(0, parseFloat(e.target.value) || 0))}
+                      min="0"
+                      step="50"
+                      className="w-full p-2 border border-slate-700 rounded-lg bg-slate-950 text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs mb-1 text-slate-400">Stay deeper than</label>
+                    <select
+                      value={depthContour}
+                      onChange={(e) => setDepthContour(parseInt(e.target.value))}
+                      className="w-full p-2 border border-slate-700 rounded-lg bg-slate-950 text-white"
+                    >
+                      <option value={0}>No depth limit</option>
+                      {getAvailableBathymetryDepths().map((depth) => (
+                        <option key={depth} value={depth}>
+                          {depth} m contour
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+            </div>
+
             <button
               onClick={handleCreateRoute}
-              className="w-full py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-500 font-semibold flex items-center justify-center gap-2"
+              disabled={isPlanning}
+              className="w-full py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-500 disabled:bg-slate-700 font-semibold flex items-center justify-center gap-2"
             >
               <Navigation className="w-5 h-5" />
-              Create Route
+              {isPlanning ? 'Finding a route around land...' : 'Create Route'}
             </button>
           </div>
         </div>
@@ -511,28 +763,83 @@ export const RoutePlanningView: React.FC = () => {
               <div className="animate-spin inline-block w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full mb-2"></div>
               <p>Analyzing route hazards...</p>
             </div>
+          ) : isSolving ? (
+            <div className="p-4 mb-4 text-center text-slate-400">
+              <div className="animate-spin inline-block w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+              <p>Searching for a route clear of hazards...</p>
+            </div>
+          ) : avoidance ? (
+            <RouteAvoidancePreview
+              result={avoidance}
+              before={hazardAnalysis}
+              beforeLandCrossings={landCrossings.length}
+              averageSpeed={route.averageSpeed}
+              onAccept={handleAcceptAvoidance}
+              onDiscard={() => setAvoidance(null)}
+            />
           ) : hazardAnalysis && (
-            <HazardAlert analysis={hazardAnalysis} onFixRoute={handleFixRoute} />
+            <HazardAlert analysis={hazardAnalysis} onFixRoute={isNavigating ? undefined : handleFixRoute} />
+          )}
+
+          {/* Land Crossings */}
+          {landCrossings.length > 0 && (
+            <div className="bg-orange-900/30 border border-orange-700/50 p-4 mb-4 rounded-lg">
+              <div className="flex items-start">
+                <Mountain className="w-6 h-6 text-orange-400 mr-2 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <h3 className="font-bold text-orange-400">Route crosses land</h3>
+                  <ul className="text-sm text-orange-300 mb-3">
+                    {landCrossings.map((leg) => (
+                      <li key={leg}>
+                        Leg {leg + 1}: {route.waypoints[leg]?.name} → {route.waypoints[leg + 1]?.name}
+                      </li>
+                    ))}
+                  </ul>
+                  {!isNavigating && (
+                    <button
+                      onClick={handleRouteAroundLand}
+                      disabled={isPlanning}
+                      className="px-4 py-2 bg-orange-600 text-white rounded hover:bg-orange-500 disabled:bg-slate-700 font-semibold"
+                    >
+                      {isPlanning ? 'Routing...' : 'Route Around Land'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
           )}
 
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-bold text-white">{route.name}</h2>
-            {!isNavigating && (
-              <button
-                onClick={handleSaveRoute}
-                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-500 flex items-center gap-2"
-              >
-                <Save className="w-4 h-4" />
-                Save
-              </button>
-            )}
+            <div className="flex items-center gap-2">
+              {(['gpx', 'kml', 'geojson'] as RouteFileFormat[]).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExportRoute(format)}
+                  title={`Export route and track as ${format.toUpperCase()}`}
+                  className="px-3 py-2 bg-slate-800 text-white text-sm rounded-lg hover:bg-slate-700 border border-slate-700 flex items-center gap-1"
+                >
+                  <Download className="w-4 h-4" />
+                  {format === 'geojson' ? 'GeoJSON' : format.toUpperCase()}
+                </button>
+              ))}
+              {!isNavigating && (
+                <button
+                  onClick={handleSaveRoute}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-500 flex items-center gap-2"
+                >
+                  <Save className="w-4 h-4" />
+                  Save
+                </button>
+              )}
+            </div>
           </div>
 
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
             <div className="bg-slate-800/50 p-4 rounded-lg">
               <p className="text-sm text-slate-400 mb-1">Distance</p>
               <p className="text-2xl font-bold text-white">
-                {formatDistance(route.totalDistance)}
+                {formatDistance(route.totalDistance, units.distance)}
               </p>
             </div>
             <div className="bg-slate-800/50 p-4 rounded-lg">
@@ -551,6 +858,24 @@ export const RoutePlanningView: React.FC = () => {
             </div>
           </div>
 
+          <DepthProfilePanel
+            profile={hazardAnalysis?.depthProfile}
+            draft={vesselSettings.draft}
+            underKeelClearance={vesselSettings.underKeelClearance ?? DEPTH_CONFIG.UNDER_KEEL_CLEARANCE_M}
+            departureTime={departureTime}
+            onDepartureTimeChange={handleDepartureTimeChange}
+            onGridsChanged={() => analyzeRoute(route)}
+            onReroute={isNavigating ? undefined : handleRerouteShallowLegs}
+            isRerouting={isPlanning}
+          />
+
+          {!isNavigating && (
+            <DepartureWindowPlanner
+              route={route}
+              performance={vesselSettings.polar ? getVesselPerformance(vesselSettings) : undefined}
+            />
+          )}
+
           <div className="flex gap-3">
             {!isNavigating ? (
               <button
@@ -581,6 +906,9 @@ export const RoutePlanningView: React.FC = () => {
         />
       )}
 
+      {/* Onboard Instruments (NMEA) */}
+      <InstrumentPanel />
+
       {/* Navigation Display */}
       {isNavigating && navigationState && (
         <div className="bg-slate-900 rounded-lg shadow-lg p-6 border border-slate-800">
@@ -613,7 +941,7 @@ export const RoutePlanningView: React.FC = () => {
                 <p className="text-sm text-slate-300">Distance</p>
               </div>
               <p className="text-2xl font-bold text-white">
-                {formatDistance(navigationState.distanceToNext)}
+                {formatDistance(navigationState.distanceToNext, units.distance)}
               </p>
             </div>
 
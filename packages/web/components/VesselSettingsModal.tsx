@@ -1,11 +1,43 @@
 import React, { useState } from 'react';
+import { DEPTH_CONFIG, NAVIGATION_CONSTANTS, parsePolar } from '@seame/core';
+import type { VesselPerformance, VesselPolar } from '@seame/core';
 
 export interface VesselSettings {
   draft: number; // meters
   name: string;
   type: 'sail' | 'power' | 'fishing' | 'commercial';
+  polar?: VesselPolar;
+  motoringSpeed?: number; // knots
+  motoringThreshold?: number; // knots true wind
+  underKeelClearance?: number; // meters of water wanted under the keel
 }
 
+const VESSEL_SETTINGS_KEY = 'vesselSettings';
+
+/**
+ * Load saved vessel settings from localStorage
+ */
+export const loadVesselSettings = (): VesselSettings | null => {
+  const saved = localStorage.getItem(VESSEL_SETTINGS_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Performance model for ETA calculations
+ * Only sailboats use the polar; other vessel types always motor
+ */
+export const getVesselPerformance = (settings: VesselSettings): VesselPerformance => ({
+  polar: settings.type === 'sail' ? settings.polar : undefined,
+  motoringSpeed: settings.motoringSpeed ?? NAVIGATION_CONSTANTS.VESSEL_PERFORMANCE.MOTORING_SPEED,
+  motoringThreshold:
+    settings.motoringThreshold ?? NAVIGATION_CONSTANTS.VESSEL_PERFORMANCE.MOTORING_THRESHOLD,
+});
+
 interface VesselSettingsModalProps {
   settings: VesselSettings;
   onSave: (settings: VesselSettings) => void;
@@ -20,6 +52,30 @@ export const VesselSettingsModal: React.FC<VesselSettingsModalProps> = ({
   const [draft, setDraft] = useState(settings.draft);
   const [name, setName] = useState(settings.name);
   const [type, setType] = useState<VesselSettings['type']>(settings.type);
+  const [polar, setPolar] = useState<VesselPolar | undefined>(settings.polar);
+  const [polarError, setPolarError] = useState<string | null>(null);
+  const [underKeelClearance, setUnderKeelClearance] = useState(
+    settings.underKeelClearance ?? DEPTH_CONFIG.UNDER_KEEL_CLEARANCE_M
+  );
+  const [motoringSpeed, setMotoringSpeed] = useState(
+    settings.motoringSpeed ?? NAVIGATION_CONSTANTS.VESSEL_PERFORMANCE.MOTORING_SPEED
+  );
+  const [motoringThreshold, setMotoringThreshold] = useState(
+    settings.motoringThreshold ?? NAVIGATION_CONSTANTS.VESSEL_PERFORMANCE.MOTORING_THRESHOLD
+  );
+
+  const handlePolarFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setPolar(parsePolar(text, file.name.replace(/\.[^.]+$/, '')));
+      setPolarError(null);
+    } catch (error) {
+      setPolarError(error instanceof Error ? error.message : 'Could not read polar file');
+    }
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -55,6 +111,22 @@ export const VesselSettingsModal: React.FC<VesselSettingsModalProps> = ({
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-slate-700">Under-Keel Clearance (meters)</label>
+            <input
+              type="number"
+              value={underKeelClearance}
+              onChange={(e) => setUnderKeelClearance(parseFloat(e.target.value))}
+              step="0.1"
+              min="0"
+              max="10"
+              className="w-full p-2 border border-slate-300 rounded text-slate-900 focus:outline-none focus:border-blue-500"
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              Water to keep under the keel; legs with less are flagged for rerouting
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-semibold mb-2 text-slate-700">Vessel Type</label>
             <select
@@ -68,11 +140,66 @@ export const VesselSettingsModal: React.FC<VesselSettingsModalProps> = ({
               <option value="commercial">Commercial Vessel</option>
             </select>
           </div>
+
+          {type === 'sail' && (
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-slate-700">
+                Polar Diagram (CSV / ORC table)
+              </label>
+              <input
+                type="file"
+                accept=".csv,.pol,.txt"
+                onChange={handlePolarFile}
+                className="w-full text-sm text-slate-700"
+              />
+              {polar && (
+                <div className="flex items-center justify-between mt-1">
+                  <p className="text-xs text-slate-500">
+                    {polar.name}: {polar.twa.length} angles × {polar.tws.length} wind speeds
+                  </p>
+                  <button
+                    onClick={() => setPolar(undefined)}
+                    className="text-xs text-red-600 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+              {polarError && <p className="text-xs text-red-600 mt-1">{polarError}</p>}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-slate-700">Motoring Speed (kn)</label>
+              <input
+                type="number"
+                value={motoringSpeed}
+                onChange={(e) => setMotoringSpeed(parseFloat(e.target.value))}
+                step="0.5"
+                min="0"
+                max="50"
+                className="w-full p-2 border border-slate-300 rounded text-slate-900 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-slate-700">Motor Below (kn wind)</label>
+              <input
+                type="number"
+                value={motoringThreshold}
+                onChange={(e) => setMotoringThreshold(parseFloat(e.target.value))}
+                step="1"
+                min="0"
+                max="30"
+                className="w-full p-2 border border-slate-300 rounded text-slate-900 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
         </div>
 
         <div className="mt-6 flex gap-2">
           <button
-            onClick={() => onSave({ draft, name, type })}
+            onClick={() => onSave({ draft, name, type, polar, motoringSpeed, motoringThreshold, underKeelClearance })}
             className="flex-1 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
           >
             Save
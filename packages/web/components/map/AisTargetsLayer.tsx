@@ -0,0 +1,200 @@
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import { aisTracker, getAisShipTypeName, formatUnitValue } from '@seame/core';
+import type { AisTarget, DistanceUnit } from '@seame/core';
+import { useUnits } from '../../src/hooks/useUnits';
+
+// ------------------------------------------------------------------
+// Types & Interfaces
+// ------------------------------------------------------------------
+
+export interface AisTargetsLayerProps {
+  map: L.Map | null;
+  visible: boolean;
+}
+
+// ------------------------------------------------------------------
+// Constants & Configuration
+// ------------------------------------------------------------------
+
+const AIS_PANE = 'aisPane';
+const PANE_Z_INDEX = '460';
+
+/** Length of the course vector: distance covered in this many minutes */
+const VECTOR_MINUTES = 6;
+
+const TARGET_COLORS = {
+  dangerous: '#ef4444',
+  active: '#22c55e',
+  lost: '#64748b',
+};
+
+// ------------------------------------------------------------------
+// Helper Functions
+// ------------------------------------------------------------------
+
+function targetColor(target: AisTarget): string {
+  if (target.status === 'lost') return TARGET_COLORS.lost;
+  return target.dangerous ? TARGET_COLORS.dangerous : TARGET_COLORS.active;
+}
+
+/**
+ * Triangle pointing along the target's heading (or course)
+ */
+function createTargetIcon(target: AisTarget): L.DivIcon {
+  const rotation = target.heading ?? target.courseOverGround ?? 0;
+  const color = targetColor(target);
+
+  return L.divIcon({
+    className: 'ais-target-marker',
+    html: `
+      <svg viewBox="0 0 20 20" width="20" height="20" style="transform: rotate(${rotation}deg);">
+        <polygon points="10,1 16,18 10,14 4,18" fill="${color}" fill-opacity="0.85" stroke="#ffffff" stroke-width="1.2" />
+      </svg>
+    `,
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+    popupAnchor: [0, -10],
+  });
+}
+
+/**
+ * Point reached after VECTOR_MINUTES on the current course and speed
+ */
+function projectCourse(target: AisTarget): [number, number] | null {
+  if (
+    target.lat === undefined ||
+    target.lon === undefined ||
+    !target.speedOverGround ||
+    target.courseOverGround === undefined
+  ) {
+    return null;
+  }
+
+  const distanceNM = (target.speedOverGround * VECTOR_MINUTES) / 60;
+  const courseRad = (target.courseOverGround * Math.PI) / 180;
+  const lat = target.lat + (distanceNM * Math.cos(courseRad)) / 60;
+  const lon = target.lon + (distanceNM * Math.sin(courseRad)) / (60 * Math.cos((target.lat * Math.PI) / 180));
+  return [lat, lon];
+}
+
+function formatValue(value: number | undefined, digits: number, unit: string): string {
+  return value !== undefined ? `${value.toFixed(digits)}${unit}` : '--';
+}
+
+/**
+ * Create popup content for a target
+ */
+function createTargetPopup(target: AisTarget, distanceUnit: DistanceUnit): string {
+  const row = (label: string, value: string) => `
+    <div style="margin-bottom: 2px;">
+      <span style="color: #718096;">${label}:</span> ${value}
+    </div>
+  `;
+
+  return `
+    <div class="ais-popup" style="
+      min-width: 190px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    ">
+      <h3 style="margin: 0 0 6px; color: #1a365d; font-size: 15px; font-weight: 600;">
+        ${target.name || `MMSI ${target.mmsi}`}
+      </h3>
+      <div style="color: #4a5568; font-size: 12px;">
+        ${row('MMSI', String(target.mmsi))}
+        ${target.callsign ? row('Call sign', target.callsign) : ''}
+        ${row('Type', `${getAisShipTypeName(target.shipType)} (Class ${target.class})`)}
+        ${target.length ? row('Size', `${target.length} × ${target.beam ?? '--'} m`) : ''}
+        ${target.destination ? row('Destination', target.destination) : ''}
+        ${row('SOG', formatValue(target.speedOverGround, 1, ' kts'))}
+        ${row('COG', formatValue(target.courseOverGround, 0, '°'))}
+        ${row('CPA', formatUnitValue('distance', target.cpa, distanceUnit, 2))}
+        ${row('TCPA', formatValue(target.tcpa, 0, ' min'))}
+        ${row('Last seen', target.lastSeen.toLocaleTimeString())}
+        ${target.dangerous ? '<div style="margin-top: 6px; color: #dc2626; font-weight: 600;">⚠ Collision risk</div>' : ''}
+        ${target.status === 'lost' ? '<div style="margin-top: 6px; color: #64748b;">Signal lost</div>' : ''}
+      </div>
+    </div>
+  `;
+}
+
+// ------------------------------------------------------------------
+// Main Component
+// ------------------------------------------------------------------
+
+export const AisTargetsLayer = ({ map, visible }: AisTargetsLayerProps) => {
+  const distanceUnit = useUnits().units.distance;
+  const layerGroupRef = useRef<L.LayerGroup | null>(null);
+  const markersRef = useRef<Map<number, { marker: L.Marker; vector: L.Polyline }>>(new Map());
+
+  useEffect(() => {
+    if (!map || !visible) return;
+
+    if (!map.getPane(AIS_PANE)) {
+      map.createPane(AIS_PANE);
+      const pane = map.getPane(AIS_PANE);
+      if (pane) {
+        pane.style.zIndex = PANE_Z_INDEX;
+      }
+    }
+
+    const group = L.layerGroup().addTo(map);
+    layerGroupRef.current = group;
+    const markers = markersRef.current;
+
+    const render = (targets: AisTarget[]) => {
+      const seen = new Set<number>();
+
+      targets.forEach((target) => {
+        if (target.lat === undefined || target.lon === undefined) return;
+        seen.add(target.mmsi);
+
+        const position: L.LatLngExpression = [target.lat, target.lon];
+        const end = projectCourse(target);
+        const vectorPoints: L.LatLngExpression[] = end ? [position, end] : [];
+        const color = targetColor(target);
+
+        const existing = markers.get(target.mmsi);
+        if (existing) {
+          existing.marker.setLatLng(position);
+          existing.marker.setIcon(createTargetIcon(target));
+          existing.marker.setPopupContent(createTargetPopup(target, distanceUnit));
+          existing.vector.setLatLngs(vectorPoints);
+          existing.vector.setStyle({ color });
+        } else {
+          const marker = L.marker(position, { icon: createTargetIcon(target), pane: AIS_PANE })
+            .bindPopup(createTargetPopup(target, distanceUnit))
+            .addTo(group);
+          const vector = L.polyline(vectorPoints, { color, weight: 2, pane: AIS_PANE }).addTo(group);
+          markers.set(target.mmsi, { marker, vector });
+        }
+      });
+
+      // Remove targets that have been dropped from the table
+      markers.forEach(({ marker, vector }, mmsi) => {
+        if (!seen.has(mmsi)) {
+          group.removeLayer(marker);
+          group.removeLayer(vector);
+          markers.delete(mmsi);
+        }
+      });
+    };
+
+    const handleChange = () => render(aisTracker.getTargets());
+    aisTracker.on('targetUpdate', handleChange);
+    aisTracker.on('targetsChanged', render);
+    render(aisTracker.getTargets());
+
+    return () => {
+      aisTracker.off('targetUpdate', handleChange);
+      aisTracker.off('targetsChanged', render);
+      map.removeLayer(group);
+      markers.clear();
+      layerGroupRef.current = null;
+    };
+  }, [map, visible, distanceUnit]);
+
+  return null;
+};
+
+export default AisTargetsLayer;
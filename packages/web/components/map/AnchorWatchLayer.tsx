@@ -0,0 +1,130 @@
+import { useEffect } from 'react';
+import L from 'leaflet';
+import { anchorWatch } from '@seame/core';
+import type { AnchorAlarmLevel, AnchorWatchState } from '@seame/core';
+
+// ------------------------------------------------------------------
+// Types & Interfaces
+// ------------------------------------------------------------------
+
+export interface AnchorWatchLayerProps {
+  map: L.Map | null;
+}
+
+// ------------------------------------------------------------------
+// Constants & Configuration
+// ------------------------------------------------------------------
+
+const ANCHOR_PANE = 'anchorWatchPane';
+const PANE_Z_INDEX = '455';
+
+const LEVEL_COLORS: Record<AnchorAlarmLevel, string> = {
+  ok: '#22c55e',
+  caution: '#f59e0b',
+  alarm: '#ef4444',
+};
+
+// ------------------------------------------------------------------
+// Helper Functions
+// ------------------------------------------------------------------
+
+function createAnchorIcon(): L.DivIcon {
+  return L.divIcon({
+    className: 'anchor-watch-marker',
+    html: `
+      <div style="
+        width: 24px; height: 24px; border-radius: 50%;
+        background: #0f172a; border: 2px solid #ffffff;
+        display: flex; align-items: center; justify-content: center;
+        font-size: 14px; line-height: 1;
+      ">⚓</div>
+    `,
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+  });
+}
+
+function createAnchorPopup(state: AnchorWatchState): string {
+  return `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 12px; color: #4a5568;">
+      <h3 style="margin: 0 0 6px; color: #1a365d; font-size: 14px; font-weight: 600;">Anchor</h3>
+      <div>Dropped: ${state.droppedAt.toLocaleTimeString()}</div>
+      <div>Rode: ${state.rodeLength} m • Radius: ${Math.round(state.radius)} m</div>
+      <div>Max distance: ${Math.round(state.maxDistance)} m</div>
+    </div>
+  `;
+}
+
+// ------------------------------------------------------------------
+// Main Component
+// ------------------------------------------------------------------
+
+/**
+ * Anchor position, swing circle (coloured by alarm level) and the boat's track
+ */
+export const AnchorWatchLayer = ({ map }: AnchorWatchLayerProps) => {
+  useEffect(() => {
+    if (!map) return;
+
+    if (!map.getPane(ANCHOR_PANE)) {
+      map.createPane(ANCHOR_PANE);
+      const pane = map.getPane(ANCHOR_PANE);
+      if (pane) {
+        pane.style.zIndex = PANE_Z_INDEX;
+      }
+    }
+
+    const group = L.layerGroup().addTo(map);
+    let circle: L.Circle | null = null;
+    let track: L.Polyline | null = null;
+    let marker: L.Marker | null = null;
+
+    const render = (state: AnchorWatchState | null) => {
+      if (!state) {
+        group.clearLayers();
+        circle = track = marker = null;
+        return;
+      }
+
+      const anchor: L.LatLngExpression = [state.anchor.lat, state.anchor.lon];
+      const color = LEVEL_COLORS[state.level];
+      const trackPoints = state.track.map((p) => [p.lat, p.lon] as L.LatLngTuple);
+
+      if (!circle || !track || !marker) {
+        circle = L.circle(anchor, {
+          radius: state.radius,
+          color,
+          weight: 2,
+          dashArray: '6 4',
+          fillOpacity: 0.08,
+          pane: ANCHOR_PANE,
+        }).addTo(group);
+        track = L.polyline(trackPoints, { color: '#38bdf8', weight: 2, opacity: 0.8, pane: ANCHOR_PANE }).addTo(group);
+        marker = L.marker(anchor, { icon: createAnchorIcon(), pane: ANCHOR_PANE })
+          .bindPopup(createAnchorPopup(state))
+          .addTo(group);
+        map.fitBounds(circle.getBounds(), { maxZoom: 17 });
+        return;
+      }
+
+      circle.setLatLng(anchor);
+      circle.setRadius(state.radius);
+      circle.setStyle({ color });
+      track.setLatLngs(trackPoints);
+      marker.setLatLng(anchor);
+      marker.setPopupContent(createAnchorPopup(state));
+    };
+
+    anchorWatch.on('update', render);
+    render(anchorWatch.getState());
+
+    return () => {
+      anchorWatch.off('update', render);
+      map.removeLayer(group);
+    };
+  }, [map]);
+
+  return null;
+};
+
+export default AnchorWatchLayer;
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import L from 'leaflet';
+import { getOfflineGeoJSON } from '@seame/core';
 
 // ------------------------------------------------------------------
 // Types & Interfaces
@@ -164,7 +165,8 @@ async function fetchBathymetryData(localUrl: string | null, fallbackUrl: string
     }
   }
 
-  return null;
+  // Offline: what the downloaded offline packs hold
+  return localUrl ? getOfflineGeoJSON(localUrl) : null;
 }
 
 // ------------------------------------------------------------------
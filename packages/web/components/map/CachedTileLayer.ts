@@ -0,0 +1,78 @@
+import L from 'leaflet';
+import { CACHE_CONFIG, cacheService, getOfflineTile } from '@seame/core';
+
+/**
+ * Tile layer that keeps its tiles in the app cache (IndexedDB, within the
+ * user's storage quota). Cached tiles are shown right away and refreshed in
+ * the background once old; tiles that can't be loaded come from downloaded
+ * offline packs.
+ *
+ * @param style - Cache key prefix, one per tile source (e.g. 'dark', 'seamark')
+ * @param urlTemplate - Tile URL template; packs store tiles under the same template
+ */
+export function cachedTileLayer(style: string, urlTemplate: string, options?: L.TileLayerOptions): L.TileLayer {
+  const CachedTileLayer = L.TileLayer.extend({
+    createTile: function (this: L.TileLayer, coords: L.Coords, done: L.DoneCallback): HTMLElement {
+      const tile = document.createElement('img');
+      tile.alt = '';
+      tile.setAttribute('role', 'presentation');
+
+      const url = this.getTileUrl(coords);
+      const key = cacheService.getTileKey(style, coords.z, coords.x, coords.y);
+
+      const show = (blob: Blob) => {
+        const objectUrl = URL.createObjectURL(blob);
+        tile.onload = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(undefined, tile);
+        };
+        tile.onerror = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(new Error(`Tile ${key} could not be decoded`), tile);
+        };
+        tile.src = objectUrl;
+      };
+
+      const download = async (): Promise<Blob | null> => {
+        try {
+          const response = await fetch(url);
+          if (!response.ok) return null;
+          const blob = await response.blob();
+          cacheService.setTile(key, blob);
+          return blob;
+        } catch {
+          return null;
+        }
+      };
+
+      const load = async () => {
+        const cached = await cacheService.getTile(key);
+        if (cached) {
+          show(cached.blob);
+          if (navigator.onLine !== false && Date.now() - cached.fetchedAt > CACHE_CONFIG.TILES.REVALIDATE_AFTER_MS) {
+            download();
+          }
+          return;
+        }
+
+        const blob =
+          (navigator.onLine === false ? null : await download()) ??
+          (await getOfflineTile(urlTemplate, coords.z, coords.x, coords.y).catch(() => null));
+        if (blob) {
+          show(blob);
+          return;
+        }
+
+        // Last resort: let the browser load it (servers without CORS headers can't be read by fetch)
+        tile.onload = () => done(undefined, tile);
+        tile.onerror = () => done(new Error(`Tile ${key} unavailable`), tile);
+        tile.src = url;
+      };
+
+      load();
+      return tile;
+    },
+  }) as unknown as typeof L.TileLayer;
+
+  return new CachedTileLayer(urlTemplate, options);
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import L from 'leaflet';
+import { getOfflineGeoJSON } from '@seame/core';
 
 // ------------------------------------------------------------------
 // Types & Interfaces
@@ -210,10 +211,11 @@ function createPortIcon(scaleRank: number = 1): L.DivIcon {
 
 /**
  * Fetch GeoJSON data with caching
+ * Offline packs hold the high resolution files: offlineUrl is the one to read offline.
  */
 const geoJsonCache: Map<string, any> = new Map();
 
-async function fetchGeoJSON(url: string, fallbackUrl?: string): Promise<any> {
+async function fetchGeoJSON(url: string, fallbackUrl?: string, offlineUrl: string = url): Promise<any> {
   if (geoJsonCache.has(url)) {
     return geoJsonCache.get(url);
   }
@@ -246,6 +248,10 @@ async function fetchGeoJSON(url: string, fallbackUrl?: string): Promise<any> {
     }
   }
 
+  // Offline: what the downloaded offline packs hold
+  const offline = await getOfflineGeoJSON(offlineUrl);
+  if (offline) return offline;
+
   console.warn(`[GeoJSONLayers] Failed to load: ${url}`);
   return null;
 }
@@ -326,7 +332,7 @@ export const GeoJSONLayers = ({ map, visibleLayers, opacity = 1 }: GeoJSONLayers
           const cacheKey = `${layerType}-${currentResolution}`;
 
           if (!loadedData[cacheKey]) {
-            const data = await fetchGeoJSON(url, fallbackUrl);
+            const data = await fetchGeoJSON(url, fallbackUrl, GEOJSON_URLS[layerType].high);
             if (data) {
               setLoadedData(prev => ({ ...prev, [cacheKey]: data }));
             }
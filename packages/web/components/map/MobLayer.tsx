@@ -0,0 +1,113 @@
+import { useEffect } from 'react';
+import L from 'leaflet';
+import { manOverboard } from '@seame/core';
+import type { MobStatus } from '@seame/core';
+
+// ------------------------------------------------------------------
+// Types & Interfaces
+// ------------------------------------------------------------------
+
+export interface MobLayerProps {
+  map: L.Map | null;
+}
+
+// ------------------------------------------------------------------
+// Constants & Configuration
+// ------------------------------------------------------------------
+
+const MOB_PANE = 'mobPane';
+const PANE_Z_INDEX = '470';
+
+// ------------------------------------------------------------------
+// Helper Functions
+// ------------------------------------------------------------------
+
+function createMobIcon(): L.DivIcon {
+  return L.divIcon({
+    className: 'mob-marker',
+    html: `
+      <div style="
+        width: 28px; height: 28px; border-radius: 50%;
+        background: #dc2626; border: 3px solid #ffffff;
+        color: #ffffff; font-size: 10px; font-weight: 700;
+        display: flex; align-items: center; justify-content: center;
+        box-shadow: 0 0 0 4px rgba(220, 38, 38, 0.4);
+      ">MOB</div>
+    `,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  });
+}
+
+// ------------------------------------------------------------------
+// Main Component
+// ------------------------------------------------------------------
+
+/**
+ * MOB position, drift-corrected datum and the search pattern around it
+ */
+export const MobLayer = ({ map }: MobLayerProps) => {
+  useEffect(() => {
+    if (!map) return;
+
+    if (!map.getPane(MOB_PANE)) {
+      map.createPane(MOB_PANE);
+      const pane = map.getPane(MOB_PANE);
+      if (pane) {
+        pane.style.zIndex = PANE_Z_INDEX;
+      }
+    }
+
+    const group = L.layerGroup().addTo(map);
+    let centred = false;
+
+    const render = (status: MobStatus | null) => {
+      group.clearLayers();
+      if (!status) {
+        centred = false;
+        return;
+      }
+
+      const mob: L.LatLngTuple = [status.event.position.lat, status.event.position.lon];
+      const datum: L.LatLngTuple = [status.datum.lat, status.datum.lon];
+
+      L.polyline(
+        status.searchPattern.map((p) => [p.lat, p.lon] as L.LatLngTuple),
+        { color: '#f97316', weight: 2, dashArray: '8 6', pane: MOB_PANE }
+      ).addTo(group);
+      L.polyline([mob, datum], { color: '#dc2626', weight: 2, pane: MOB_PANE }).addTo(group);
+      L.circleMarker(datum, {
+        radius: 6,
+        color: '#ffffff',
+        weight: 2,
+        fillColor: '#f97316',
+        fillOpacity: 1,
+        pane: MOB_PANE,
+      })
+        .bindTooltip('Estimated position (drift)')
+        .addTo(group);
+      L.marker(mob, { icon: createMobIcon(), pane: MOB_PANE })
+        .bindTooltip(`MOB ${status.event.timestamp.toLocaleTimeString()}`)
+        .addTo(group);
+
+      if (!centred) {
+        centred = true;
+        map.setView(datum, Math.max(map.getZoom(), 14));
+      }
+    };
+
+    manOverboard.on('update', render);
+    if (manOverboard.isActive()) {
+      render(manOverboard.getStatus());
+    }
+
+    return () => {
+      manOverboard.off('update', render);
+      map.removeLayer(group);
+    };
+  }, [map]);
+
+  return null;
+};
+
+export default MobLayer;
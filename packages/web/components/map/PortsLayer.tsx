@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import L from 'leaflet';
+import { getOfflineGeoJSON } from '@seame/core';
 
 // ------------------------------------------------------------------
 // Types & Interfaces
@@ -174,7 +175,8 @@ async function fetchPortsData(): Promise<any> {
     console.error('[PortsLayer] Fetch error:', error);
   }
 
-  return null;
+  // Offline: what the downloaded offline packs hold
+  return getOfflineGeoJSON(PORTS_LOCAL_URL);
 }
 
 /**
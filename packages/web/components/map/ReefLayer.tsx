@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import L from 'leaflet';
+import { getOfflineGeoJSON } from '@seame/core';
 
 // ------------------------------------------------------------------
 // Types & Interfaces
@@ -139,7 +140,8 @@ async function fetchReefsData(): Promise<any> {
     console.error('[ReefLayer] Fetch error:', error);
   }
 
-  return null;
+  // Offline: what the downloaded offline packs hold
+  return getOfflineGeoJSON(REEFS_LOCAL_URL);
 }
 
 // ------------------------------------------------------------------
@@ -0,0 +1,324 @@
+import { useEffect } from 'react';
+import L from 'leaflet';
+import {
+  SEAMARK_CONFIG,
+  aidAppearance,
+  describeAid,
+  describeLight,
+  fetchSeamarkAids,
+  formatLightLabel,
+} from '@seame/core';
+import type { AidToNavigation, SeamarkLight, Topmark } from '@seame/core';
+
+// ------------------------------------------------------------------
+// Types & Interfaces
+// ------------------------------------------------------------------
+
+export interface SeamarkAidsLayerProps {
+  map: L.Map | null;
+  visible: boolean;
+}
+
+// ------------------------------------------------------------------
+// Constants & Configuration
+// ------------------------------------------------------------------
+
+const SEAMARK_PANE = 'seamarkAidsPane';
+const PANE_Z_INDEX = '455';
+
+/** Chart colours for seamark colour names */
+const MARK_COLORS: Record<string, string> = {
+  red: '#dc2626',
+  green: '#16a34a',
+  yellow: '#facc15',
+  black: '#111827',
+  white: '#f8fafc',
+  orange: '#f97316',
+  blue: '#2563eb',
+  grey: '#9ca3af',
+  brown: '#92400e',
+};
+
+/** Light colours: white lights are charted yellow */
+const LIGHT_COLORS: Record<string, string> = {
+  white: '#fde047',
+  yellow: '#fde047',
+  red: '#ef4444',
+  green: '#22c55e',
+  blue: '#3b82f6',
+};
+
+/** Sector arcs are drawn this far from the light (NM), or at the light's range when shorter */
+const SECTOR_ARC_NM = 0.6;
+const METERS_PER_NM = 1852;
+
+// ------------------------------------------------------------------
+// Helper Functions
+// ------------------------------------------------------------------
+
+const markColor = (colour?: string): string => MARK_COLORS[colour ?? ''] ?? '#9ca3af';
+const lightColor = (light?: SeamarkLight): string => LIGHT_COLORS[light?.colours[0] ?? ''] ?? '#d946ef';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+/**
+ * Gradient with hard stops: horizontal bands (top to bottom) or vertical stripes
+ */
+function bandsGradient(id: string, colours: string[], pattern?: string): string {
+  const vertical = pattern === 'vertical';
+  const stops = colours
+    .map((colour, i) => {
+      const from = (i / colours.length) * 100;
+      const to = ((i + 1) / colours.length) * 100;
+      const color = markColor(colour);
+      return `<stop offset="${from}%" stop-color="${color}"/><stop offset="${to}%" stop-color="${color}"/>`;
+    })
+    .join('');
+  return `<linearGradient id="${id}" x1="0" y1="0" x2="${vertical ? 1 : 0}" y2="${vertical ? 0 : 1}">${stops}</linearGradient>`;
+}
+
+/**
+ * Body of the mark, standing on y = 34
+ */
+function bodyPath(aid: AidToNavigation, shape?: string): string {
+  if (aid.structure === 'beacon') {
+    return shape === 'tower' || shape === 'lattice'
+      ? '<polygon points="10,16 18,16 20,34 8,34" />'
+      : '<rect x="12" y="14" width="4" height="20" />';
+  }
+  switch (shape) {
+    case 'can':
+      return '<polygon points="8,22 20,22 21,34 7,34" />';
+    case 'conical':
+      return '<polygon points="14,19 21,34 7,34" />';
+    case 'spherical':
+      return '<circle cx="14" cy="27" r="7" />';
+    case 'spar':
+      return '<polygon points="12,14 16,14 17,34 11,34" />';
+    case 'barrel':
+      return '<rect x="7" y="25" width="14" height="9" rx="4" />';
+    case 'super-buoy':
+      return '<rect x="5" y="24" width="18" height="10" rx="2" />';
+    default:
+      // pillar
+      return '<polygon points="11,14 17,14 20,34 8,34" />';
+  }
+}
+
+/**
+ * Topmark above the body (y 2–13)
+ */
+function topmarkPath(topmark: Topmark): string {
+  const fill = markColor(topmark.colours[0]);
+  const up = (y: number) => `<polygon points="14,${y} 18,${y + 5} 10,${y + 5}" fill="${fill}" />`;
+  const down = (y: number) => `<polygon points="10,${y} 18,${y} 14,${y + 5}" fill="${fill}" />`;
+
+  switch (topmark.shape) {
+    case 'cylinder':
+      return `<rect x="11" y="6" width="6" height="6" fill="${fill}" />`;
+    case 'cone, point up':
+      return up(6);
+    case 'cone, point down':
+      return down(6);
+    case '2 cones up':
+      return up(1) + up(7);
+    case '2 cones down':
+      return down(1) + down(7);
+    case '2 cones base together':
+      return up(1) + down(6);
+    case '2 cones point together':
+      return down(1) + up(6);
+    case 'sphere':
+      return `<circle cx="14" cy="9" r="3" fill="${fill}" />`;
+    case '2 spheres':
+      return `<circle cx="14" cy="4" r="2.5" fill="${fill}" /><circle cx="14" cy="10" r="2.5" fill="${fill}" />`;
+    case 'x-shape':
+      return `<path d="M10,4 L18,12 M18,4 L10,12" stroke="${fill}" stroke-width="2" />`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * IALA symbol: body in the mark's colours, its topmark, and a light flare
+ */
+function createAidIcon(aid: AidToNavigation): L.DivIcon {
+  const appearance = aidAppearance(aid);
+  const gradientId = `seamark-${aid.id}`;
+  const colours = appearance.colours.length > 0 ? appearance.colours : ['grey'];
+  const fill = colours.length > 1 ? `url(#${gradientId})` : markColor(colours[0]);
+  const isLight = aid.category === 'light';
+
+  const body = isLight
+    ? '<circle cx="14" cy="31" r="3" fill="#111827" stroke="#ffffff" stroke-width="1" />'
+    : `<g fill="${fill}" stroke="#ffffff" stroke-width="1">${bodyPath(aid, appearance.shape)}</g>`;
+  const topmark = !isLight && appearance.topmark ? topmarkPath(appearance.topmark) : '';
+  const flare =
+    aid.lights.length > 0
+      ? `<path d="M14,31 L26,16 Q28,20 24,22 Z" fill="${lightColor(aid.lights[0])}" fill-opacity="0.9" stroke="#111827" stroke-width="0.5" />`
+      : '';
+
+  return L.divIcon({
+    className: 'seamark-aid-marker',
+    html: `
+      <svg viewBox="0 0 28 36" width="28" height="36" style="overflow: visible; filter: drop-shadow(0 1px 2px rgba(0,0,0,0.6));">
+        <defs>${colours.length > 1 ? bandsGradient(gradientId, colours, appearance.colourPattern) : ''}</defs>
+        ${flare}
+        ${body}
+        ${topmark}
+      </svg>
+    `,
+    iconSize: [28, 36],
+    iconAnchor: [14, 34],
+    popupAnchor: [0, -30],
+  });
+}
+
+/**
+ * Point at a distance (meters) and true bearing from a position
+ */
+function destination(lat: number, lon: number, bearing: number, meters: number): [number, number] {
+  const rad = (bearing * Math.PI) / 180;
+  const dLat = (meters * Math.cos(rad)) / 111320;
+  const dLon = (meters * Math.sin(rad)) / (111320 * Math.cos((lat * Math.PI) / 180));
+  return [lat + dLat, lon + dLon];
+}
+
+/**
+ * Sector arcs of a sectored light, with dashed limit lines. Sector limits are
+ * charted from seaward, so the arc around the light runs 180° from them.
+ */
+function createSectorLayers(aid: AidToNavigation): L.Layer[] {
+  const layers: L.Layer[] = [];
+
+  for (const light of aid.lights) {
+    if (light.sectorStart === undefined || light.sectorEnd === undefined) continue;
+
+    const radius = Math.min(SECTOR_ARC_NM, light.range ?? SECTOR_ARC_NM) * METERS_PER_NM;
+    const from = (light.sectorStart + 180) % 360;
+    let sweep = (light.sectorEnd - light.sectorStart + 360) % 360;
+    if (sweep === 0) sweep = 360;
+
+    const arc: [number, number][] = [];
+    const steps = Math.max(8, Math.round(sweep / 5));
+    for (let i = 0; i <= steps; i++) {
+      arc.push(destination(aid.lat, aid.lon, from + (sweep * i) / steps, radius));
+    }
+
+    const color = lightColor(light);
+    layers.push(
+      L.polyline(arc, { color, weight: 4, opacity: 0.85, pane: SEAMARK_PANE, interactive: false }),
+      L.polyline([[aid.lat, aid.lon], arc[0]], { color: '#94a3b8', weight: 1, dashArray: '4, 4', pane: SEAMARK_PANE, interactive: false }),
+      L.polyline([[aid.lat, aid.lon], arc[arc.length - 1]], { color: '#94a3b8', weight: 1, dashArray: '4, 4', pane: SEAMARK_PANE, interactive: false })
+    );
+  }
+
+  return layers;
+}
+
+/**
+ * Create popup content for a mark
+ */
+function createAidPopup(aid: AidToNavigation): string {
+  const { title, meaning } = describeAid(aid);
+  const appearance = aidAppearance(aid);
+  const row = (label: string, value: string) => `
+    <div style="margin-bottom: 2px;">
+      <span style="color: #718096;">${label}:</span> ${escapeHtml(value)}
+    </div>
+  `;
+
+  const lights = aid.lights.length
+    ? `
+      <div style="margin-top: 6px; padding: 6px; background: #fefce8; border-radius: 4px;">
+        <div style="font-weight: 600; font-family: monospace;">${escapeHtml(formatLightLabel(aid.lights))}</div>
+        ${aid.lights.map((light) => `<div>${escapeHtml(describeLight(light))}</div>`).join('')}
+      </div>
+    `
+    : '';
+
+  return `
+    <div class="seamark-popup" style="
+      min-width: 200px;
+      max-width: 260px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    ">
+      <h3 style="margin: 0 0 2px; color: #1a365d; font-size: 15px; font-weight: 600;">
+        ${escapeHtml(aid.name ?? title)}
+      </h3>
+      ${aid.name ? `<div style="color: #4a5568; font-size: 12px; margin-bottom: 6px;">${escapeHtml(title)}</div>` : ''}
+      <div style="color: #4a5568; font-size: 12px;">
+        ${meaning ? `<div style="margin-bottom: 6px;">${escapeHtml(meaning)}</div>` : ''}
+        ${appearance.shape ? row('Shape', appearance.shape) : ''}
+        ${appearance.colours.length ? row('Colours', appearance.colours.join(', ') + (appearance.colourPattern ? ` (${appearance.colourPattern})` : '')) : ''}
+        ${appearance.topmark ? row('Topmark', appearance.topmark.shape) : ''}
+        ${aid.category === 'lateral' ? row('Buoyage', `IALA region ${aid.region}`) : ''}
+        ${row('Position', `${aid.lat.toFixed(4)}, ${aid.lon.toFixed(4)}`)}
+        ${lights}
+        <div style="margin-top: 6px; font-size: 11px; color: #94a3b8;">OpenSeaMap data – verify with official charts</div>
+      </div>
+    </div>
+  `;
+}
+
+// ------------------------------------------------------------------
+// Main Component
+// ------------------------------------------------------------------
+
+/**
+ * Buoys, beacons and lights of the visible area, from zoom SEAMARK_CONFIG.MIN_ZOOM
+ */
+export const SeamarkAidsLayer = ({ map, visible }: SeamarkAidsLayerProps) => {
+  useEffect(() => {
+    if (!map || !visible) return;
+
+    if (!map.getPane(SEAMARK_PANE)) {
+      map.createPane(SEAMARK_PANE);
+      const pane = map.getPane(SEAMARK_PANE);
+      if (pane) pane.style.zIndex = PANE_Z_INDEX;
+    }
+
+    const group = L.layerGroup().addTo(map);
+    let request = 0;
+
+    const load = async () => {
+      const current = ++request;
+      if (map.getZoom() < SEAMARK_CONFIG.MIN_ZOOM) {
+        group.clearLayers();
+        return;
+      }
+
+      const bounds = map.getBounds();
+      const aids = await fetchSeamarkAids({
+        north: bounds.getNorth(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        west: bounds.getWest(),
+      });
+      // A later move superseded this one
+      if (current !== request) return;
+
+      group.clearLayers();
+      aids.forEach((aid: AidToNavigation) => {
+        createSectorLayers(aid).forEach((layer) => group.addLayer(layer));
+        L.marker([aid.lat, aid.lon], { icon: createAidIcon(aid), pane: SEAMARK_PANE })
+          .bindPopup(createAidPopup(aid), { maxWidth: 280, className: 'seamark-popup-container' })
+          .addTo(group);
+      });
+    };
+
+    load();
+    map.on('moveend', load);
+
+    return () => {
+      request++;
+      map.off('moveend', load);
+      map.removeLayer(group);
+    };
+  }, [map, visible]);
+
+  return null;
+};
+
+export default SeamarkAidsLayer;
@@ -5,8 +5,10 @@ import { useTranslation } from 'react-i18next';
 
 interface TimeSliderProps {
   currentHour: number;
-  onHourChange: (hour: number) => void;
+  onHourChange: React.Dispatch<React.SetStateAction<number>>;
   maxHours?: number;
+  /** Time of hour 0 (first forecast frame); defaults to now */
+  startTime?: Date;
 }
 
 type PlaybackSpeed = 1 | 2 | 4;
@@ -14,7 +16,8 @@ type PlaybackSpeed = 1 | 2 | 4;
 const TimeSlider: React.FC<TimeSliderProps> = ({
   currentHour,
   onHourChange,
-  maxHours = 48
+  maxHours = 48,
+  startTime
 }) => {
   const { t, i18n } = useTranslation();
   const [isPlaying, setIsPlaying] = useState(false);
@@ -89,13 +92,16 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
   }, [currentHour, maxHours, onHourChange, isPlaying]);
 
   // Calculate current timestamp
-  const currentTimestamp = addHours(new Date(), currentHour);
+  const currentTimestamp = addHours(startTime ?? new Date(), currentHour);
   const formattedDate = format(currentTimestamp, 'EEE, MMM d');
   const formattedTime = format(currentTimestamp, 'HH:mm');
 
   // Calculate progress percentage
   const progressPercent = (currentHour / (maxHours - 1)) * 100;
 
+  // Five evenly spaced hour markers across the forecast horizon
+  const markerHours = [1, 2, 3, 4].map((i) => Math.round(((maxHours - 1) * i) / 4));
+
   return (
     <div className="fixed bottom-20 left-0 right-0 z-30 pointer-events-none">
       <div className="max-w-4xl mx-auto px-4 pointer-events-auto">
@@ -153,10 +159,9 @@ const TimeSlider: React.FC<TimeSliderProps> = ({
           {/* Time markers */}
           <div className="flex justify-between text-xs text-muted mb-4 px-1">
             <span>{t('common.now', { defaultValue: 'Now' })}</span>
-            <span>12h</span>
-            <span>24h</span>
-            <span>36h</span>
-            <span>48h</span>
+            {markerHours.map((hour) => (
+              <span key={hour}>{hour}h</span>
+            ))}
           </div>
 
           {/* Controls */}
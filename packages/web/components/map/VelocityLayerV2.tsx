@@ -203,6 +203,12 @@ export function VelocityLayerV2({
   const maskCanvasRef = useRef<HTMLCanvasElement | null | undefined>(maskCanvas);
   const proxyAppliedRef = useRef(false);
 
+  // New data for an existing layer goes through setData (see Data Updates) so
+  // time-slider animation doesn't rebuild the layer and reset its particles
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const hasData = !!data;
+
   // Keep maskCanvas ref updated
   useEffect(() => {
     maskCanvasRef.current = maskCanvas;
@@ -373,6 +379,7 @@ export function VelocityLayerV2({
     isCleaningUpRef.current = false;
     proxyAppliedRef.current = false;
 
+    const data = dataRef.current;
     if (!map || !data) {
       return;
     }
@@ -647,7 +654,7 @@ export function VelocityLayerV2({
     };
   }, [
     map,
-    data,
+    hasData,
     type,
     maxVelocity,
     minVelocity,
@@ -19,6 +19,13 @@ export { GeoJSONLayers, type GeoJSONLayersProps } from './GeoJSONLayers';
 export { BathymetryLayer, type BathymetryLayerProps } from './BathymetryLayer';
 export { PortsLayer, type PortsLayerProps, type PortFeature } from './PortsLayer';
 export { ReefLayer, type ReefLayerProps, type ReefFeature } from './ReefLayer';
+export { AisTargetsLayer, type AisTargetsLayerProps } from './AisTargetsLayer';
+export { AnchorWatchLayer, type AnchorWatchLayerProps } from './AnchorWatchLayer';
+export { MobLayer, type MobLayerProps } from './MobLayer';
+export { SeamarkAidsLayer, type SeamarkAidsLayerProps } from './SeamarkAidsLayer';
+
+// Base Map
+export { cachedTileLayer } from './CachedTileLayer';
 
 // Weather Radar Layer
 export { RainRadarLayer, useRainRadarFrames, type RainRadarLayerProps, type RainRadarControls } from './RainRadarLayer';
@@ -6,6 +6,7 @@ import { I18nextProvider } from 'react-i18next';
 import App from './App';
 import { ErrorState } from './components/ErrorState';
 import { ThemeProvider } from './src/contexts/ThemeContext';
+import { UnitsProvider } from './src/contexts/UnitsContext';
 import i18n from './src/i18n/config';
 import './src/index.css'; // Import Tailwind CSS and theme variables
 
@@ -36,9 +37,11 @@ root.render(
     >
       <I18nextProvider i18n={i18n}>
         <ThemeProvider defaultTheme="light">
-          <QueryClientProvider client={queryClient}>
-            <App />
-          </QueryClientProvider>
+          <UnitsProvider>
+            <QueryClientProvider client={queryClient}>
+              <App />
+            </QueryClientProvider>
+          </UnitsProvider>
         </ThemeProvider>
       </I18nextProvider>
     </ErrorBoundary>
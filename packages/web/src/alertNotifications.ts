@@ -0,0 +1,89 @@
+/**
+ * Alert Notification Helpers
+ *
+ * Shared by the page and the service worker so system notifications read the
+ * same and carry the same deep links wherever they are raised.
+ */
+
+import type { AlertNotification, Location } from '@seame/core';
+
+/** App base path, as configured in vite.config.ts */
+const APP_BASE = '/SeaYou/';
+
+export type DeepLinkView = 'dashboard' | 'map';
+
+export interface AlertDeepLink {
+  view: DeepLinkView;
+  location: Pick<Location, 'name' | 'lat' | 'lng'>;
+}
+
+export const notificationTitle = (notification: AlertNotification): string =>
+  `${notification.ruleName} – ${notification.locationName}`;
+
+/**
+ * Forecast times are the location's wall clock, without an offset: read them
+ * as UTC and format them in UTC so the device's own zone never shifts them
+ */
+const wallClock = (value: string): Date => new Date(`${value.slice(0, 16)}Z`);
+
+export const notificationWindow = (notification: AlertNotification): string => {
+  const day = wallClock(notification.start).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+  const time = (value: string) =>
+    wallClock(value).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' });
+  return `${day} ${time(notification.start)}–${time(notification.end)} (${notification.hours} h)`;
+};
+
+/**
+ * App URL opening a view on the location of a notification
+ */
+export function alertDeepLink(notification: AlertNotification, view: DeepLinkView = 'dashboard'): string {
+  const params = new URLSearchParams({
+    view,
+    lat: notification.location.lat.toFixed(4),
+    lng: notification.location.lng.toFixed(4),
+    name: notification.location.name,
+  });
+  return `${APP_BASE}?${params}`;
+}
+
+/**
+ * Read a deep link from the page query string, or null when there is none
+ */
+export function parseAlertDeepLink(search: string): AlertDeepLink | null {
+  const params = new URLSearchParams(search);
+  const view = params.get('view');
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lng = parseFloat(params.get('lng') ?? '');
+  if ((view !== 'dashboard' && view !== 'map') || !isFinite(lat) || !isFinite(lng)) return null;
+  return { view, location: { name: params.get('name') || `${lat.toFixed(2)}, ${lng.toFixed(2)}`, lat, lng } };
+}
+
+/**
+ * Title and options of the system notification for a match
+ *
+ * @param persistent - Shown through the service worker; only those notifications support actions
+ */
+export function systemNotification(
+  notification: AlertNotification,
+  persistent = true
+): { title: string; options: NotificationOptions } {
+  return {
+    title: notificationTitle(notification),
+    options: {
+      body: `Conditions match ${notificationWindow(notification)}`,
+      tag: notification.id,
+      icon: `${APP_BASE}pwa-192x192.svg`,
+      data: {
+        url: alertDeepLink(notification, 'dashboard'),
+        mapUrl: alertDeepLink(notification, 'map'),
+      },
+      // Not in the DOM typings yet
+      ...(persistent ? ({ actions: [{ action: 'map', title: 'Open map' }] } as object) : {}),
+    },
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Alert Notifications Menu
+ *
+ * Bell in the top bar listing the matches raised by the alert rules,
+ * with a prompt to enable system notifications.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Bell, BellRing, Moon } from 'lucide-react';
+import { useAlertEngine } from '../hooks/useAlertEngine';
+import { notificationTitle, notificationWindow } from '../alertNotifications';
+
+export const AlertNotificationsMenu: React.FC = () => {
+  const { notifications, unreadCount, markAllRead, clear } = useAlertEngine();
+  const [isOpen, setIsOpen] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    // Opening the list counts as reading it
+    if (isOpen && unreadCount > 0) markAllRead();
+    setIsOpen(!isOpen);
+  };
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={handleToggle}
+        className="relative p-2 rounded-lg bg-elevated hover:bg-button-secondary transition-colors border border-subtle"
+        aria-label="Alert notifications"
+        aria-expanded={isOpen}
+      >
+        {unreadCount > 0 ? <BellRing size={20} className="text-accent" /> : <Bell size={20} className="text-accent" />}
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-card rounded-lg border border-subtle shadow-2xl overflow-hidden z-50 animate-in fade-in slide-in-from-top-2">
+          <div className="px-4 py-3 border-b border-app bg-elevated flex items-center justify-between gap-2">
+            <span className="text-sm font-bold text-white flex items-center gap-2">
+              <Bell size={16} className="text-accent" /> Alerts
+            </span>
+            {notifications.length > 0 && (
+              <button onClick={clear} className="text-xs text-muted hover:text-primary">
+                Clear
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-xs text-muted text-center">
+                No matches yet. Add alert rules from the dashboard settings.
+              </p>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`px-4 py-3 border-b border-app last:border-b-0 ${notification.read ? '' : 'bg-accent/10'}`}
+                >
+                  <div className="text-sm font-bold text-primary flex items-center gap-2">
+                    {notificationTitle(notification)}
+                    {notification.quiet && <Moon size={12} className="text-muted" aria-label="Quiet hours" />}
+                  </div>
+                  <div className="text-xs text-secondary">{notificationWindow(notification)}</div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {permission === 'default' && (
+            <div className="px-4 py-2 border-t border-app bg-elevated">
+              <button onClick={requestPermission} className="text-xs font-bold text-accent hover:underline">
+                Enable system notifications
+              </button>
+            </div>
+          )}
+          {permission === 'denied' && (
+            <div className="px-4 py-2 border-t border-app bg-elevated">
+              <p className="text-xs text-muted">System notifications are blocked in the browser settings</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
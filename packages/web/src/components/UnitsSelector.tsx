@@ -0,0 +1,107 @@
+/**
+ * Units Selector Component
+ *
+ * A dropdown for choosing the display unit of each quantity
+ * (wind, heights, distances, temperature, pressure, depth).
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Ruler, ChevronDown } from 'lucide-react';
+import { UNIT_OPTIONS } from '@seame/core';
+import type { UnitPreferences, UnitQuantity } from '@seame/core';
+import { useUnits } from '../hooks/useUnits';
+
+const QUANTITIES: Array<{ key: UnitQuantity; name: string }> = [
+  { key: 'wind', name: 'Wind' },
+  { key: 'height', name: 'Waves' },
+  { key: 'distance', name: 'Distance' },
+  { key: 'temperature', name: 'Temperature' },
+  { key: 'pressure', name: 'Pressure' },
+  { key: 'depth', name: 'Depth' },
+];
+
+export const UnitsSelector: React.FC = () => {
+  const { units, setUnit, label } = useUnits();
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      {/* Trigger Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-elevated hover:bg-button-secondary transition-colors border border-subtle"
+        aria-label="Select units"
+        aria-expanded={isOpen}
+      >
+        <Ruler size={16} className="text-accent" />
+        <span className="text-sm font-medium hidden sm:inline">{label('wind')}</span>
+        <ChevronDown
+          size={14}
+          className={`text-muted transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      {/* Dropdown Menu */}
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-72 max-w-[calc(100vw-2rem)] bg-card rounded-lg border border-subtle shadow-2xl overflow-hidden z-50 animate-in fade-in slide-in-from-top-2">
+          {/* Header */}
+          <div className="px-4 py-3 border-b border-app bg-elevated flex items-center gap-2">
+            <Ruler size={16} className="text-accent" />
+            <span className="text-sm font-bold text-white">Units</span>
+          </div>
+
+          {/* Quantity Options */}
+          <div className="p-3 space-y-3">
+            {QUANTITIES.map(({ key, name }) => (
+              <div key={key}>
+                <div className="text-[10px] text-muted uppercase font-bold mb-1">{name}</div>
+                <div className="flex flex-wrap gap-1">
+                  {(UNIT_OPTIONS[key] as Array<{ value: string; label: string }>).map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setUnit(key, option.value as UnitPreferences[typeof key])}
+                      className={`px-2 py-1 rounded text-xs font-bold transition-colors ${
+                        units[key] === option.value ? 'bg-accent text-white' : 'bg-elevated text-secondary hover:text-primary'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Footer Info */}
+          <div className="px-4 py-2 border-t border-app bg-elevated">
+            <p className="text-xs text-muted">
+              Units preference is saved automatically
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { createContext, useCallback, useMemo, useState, ReactNode } from 'react';
+import {
+  DEFAULT_UNITS,
+  UNIT_OPTIONS,
+  formatUnitNumber,
+  formatUnitValue,
+  fromDisplayUnit,
+  toDisplayUnit,
+  unitLabel,
+  unitStep,
+} from '@seame/core';
+import type { UnitPreferences, UnitQuantity } from '@seame/core';
+
+interface UnitsContextType {
+  units: UnitPreferences;
+  setUnit: <Q extends UnitQuantity>(quantity: Q, unit: UnitPreferences[Q]) => void;
+  /** Canonical value -> number in the selected unit */
+  convert: (quantity: UnitQuantity, value: number) => number;
+  /** Number entered in the selected unit -> canonical value */
+  toCanonical: (quantity: UnitQuantity, value: number) => number;
+  /** Canonical value -> "12" in the selected unit, for values shown next to their label */
+  number: (quantity: UnitQuantity, value: number | null | undefined, decimals?: number) => string;
+  /** Canonical value -> "12 kts" in the selected unit */
+  format: (quantity: UnitQuantity, value: number | null | undefined, decimals?: number) => string;
+  /** Label of the selected unit, e.g. "kts" */
+  label: (quantity: UnitQuantity) => string;
+  /** Slider bounds in the selected unit for a canonical range */
+  range: (quantity: UnitQuantity, min: number, max: number) => { min: number; max: number; step: number };
+}
+
+/**
+ * Display units chosen by the user
+ *
+ * Data stays in canonical units (km/h, m, NM, °C, hPa); components convert
+ * through this context when rendering values and when reading threshold
+ * inputs. Outside a provider the default units apply, so isolated components
+ * and tests render as before.
+ */
+
+const UNITS_STORAGE_KEY = 'seayou-units';
+
+function getStoredUnits(): UnitPreferences {
+  if (typeof window === 'undefined') return DEFAULT_UNITS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(UNITS_STORAGE_KEY) ?? '{}') as Partial<UnitPreferences>;
+    const units = { ...DEFAULT_UNITS };
+    for (const quantity of Object.keys(DEFAULT_UNITS) as UnitQuantity[]) {
+      const options = UNIT_OPTIONS[quantity] as Array<{ value: string }>;
+      if (options.some((option) => option.value === stored[quantity])) {
+        (units as Record<UnitQuantity, string>)[quantity] = stored[quantity]!;
+      }
+    }
+    return units;
+  } catch (e) {
+    console.warn('Failed to read units from localStorage', e);
+  }
+  return DEFAULT_UNITS;
+}
+
+function storeUnits(units: UnitPreferences): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(UNITS_STORAGE_KEY, JSON.stringify(units));
+  } catch (e) {
+    console.warn('Failed to save units to localStorage', e);
+  }
+}
+
+function createUnitsValue(
+  units: UnitPreferences,
+  setUnit: UnitsContextType['setUnit']
+): UnitsContextType {
+  return {
+    units,
+    setUnit,
+    convert: (quantity, value) => toDisplayUnit(quantity, value, units[quantity]),
+    toCanonical: (quantity, value) => fromDisplayUnit(quantity, value, units[quantity]),
+    number: (quantity, value, decimals) => formatUnitNumber(quantity, value, units[quantity], decimals),
+    format: (quantity, value, decimals) => formatUnitValue(quantity, value, units[quantity], decimals),
+    label: (quantity) => unitLabel(quantity, units[quantity]),
+    range: (quantity, min, max) => {
+      const step = unitStep(quantity, units[quantity]);
+      const snap = (value: number) => Math.round(toDisplayUnit(quantity, value, units[quantity]) / step) * step;
+      return { min: snap(min), max: snap(max), step };
+    },
+  };
+}
+
+export const UnitsContext = createContext<UnitsContextType>(createUnitsValue(DEFAULT_UNITS, () => {}));
+
+interface UnitsProviderProps {
+  children: ReactNode;
+}
+
+export const UnitsProvider: React.FC<UnitsProviderProps> = ({ children }) => {
+  const [units, setUnits] = useState<UnitPreferences>(getStoredUnits);
+
+  const setUnit: UnitsContextType['setUnit'] = useCallback((quantity, unit) => {
+    setUnits((current: UnitPreferences) => {
+      const next = { ...current, [quantity]: unit };
+      storeUnits(next);
+      return next;
+    });
+  }, []);
+
+  // Stable between unit changes so consumers can memoize on it
+  const value = useMemo(() => createUnitsValue(units, setUnit), [units, setUnit]);
+
+  return (
+    <UnitsContext.Provider value={value}>
+      {children}
+    </UnitsContext.Provider>
+  );
+};
@@ -0,0 +1,89 @@
+/**
+ * Hook running the forecast refresh and alert rules while the app is open
+ *
+ * The service worker does the same in the background where Periodic
+ * Background Sync is available; elsewhere this is the only refresh. Forecasts
+ * still fresh in the cache are not refetched, so both can run side by side.
+ * Keeps the in-app notification list in sync and shows a system notification
+ * for each new match outside quiet hours (when the user granted permission).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { alertEngine, refreshForecasts, UI_CONSTANTS } from '@seame/core';
+import type { AlertNotification } from '@seame/core';
+import { systemNotification } from '../alertNotifications';
+
+/**
+ * Show a Web Notification, through the service worker when one is active
+ * (required on mobile browsers)
+ */
+async function showSystemNotification(notification: AlertNotification): Promise<void> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      const { title, options } = systemNotification(notification);
+      await registration.showNotification(title, options);
+    } else {
+      const { title, options } = systemNotification(notification, false);
+      new Notification(title, options);
+    }
+  } catch (error) {
+    console.error('Failed to show notification:', error);
+  }
+}
+
+export function useAlertEngine() {
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+
+  const checkNow = useCallback(async () => {
+    try {
+      await refreshForecasts();
+    } catch (error) {
+      console.error('Forecast refresh failed:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleNotifications = (list: AlertNotification[]) => setNotifications(list);
+    const handleNotification = (notification: AlertNotification) => {
+      if (!notification.quiet) showSystemNotification(notification);
+    };
+    // Pick up matches the service worker raised while the app was closed
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      alertEngine.getNotifications().then(setNotifications);
+      checkNow();
+    };
+
+    alertEngine.on('notifications', handleNotifications);
+    alertEngine.on('notification', handleNotification);
+    // Rules changed: check them straight away
+    alertEngine.on('rules', checkNow);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    alertEngine.getNotifications().then(setNotifications);
+    checkNow();
+    const interval = setInterval(checkNow, UI_CONSTANTS.AUTO_REFRESH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      alertEngine.off('notifications', handleNotifications);
+      alertEngine.off('notification', handleNotification);
+      alertEngine.off('rules', checkNow);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [checkNow]);
+
+  const markAllRead = useCallback(() => alertEngine.markAllRead(), []);
+  const clear = useCallback(() => alertEngine.clearNotifications(), []);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n: AlertNotification) => !n.read).length,
+    markAllRead,
+    clear,
+    checkNow,
+  };
+}
@@ -8,7 +8,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { fetchMarineWeather, cacheService } from '@seame/core';
+import { fetchMarineWeather, cacheService, CACHE_CONFIG } from '@seame/core';
 import type { MarineWeatherData } from '@seame/core';
 
 interface UseCachedWeatherOptions {
@@ -135,21 +135,24 @@ export function useCacheStats() {
     itemCount: 0,
     hitRate: 0,
     oldestItem: 0,
+    tileSize: 0,
+    tileCount: 0,
+    quota: CACHE_CONFIG.MAX_SIZE_BYTES,
   });
 
-  useEffect(() => {
-    const updateStats = async () => {
-      const cacheStats = await cacheService.getStats();
-      setStats(cacheStats);
-    };
+  const updateStats = useCallback(async () => {
+    const cacheStats = await cacheService.getStats();
+    setStats(cacheStats);
+  }, []);
 
+  useEffect(() => {
     updateStats();
     const interval = setInterval(updateStats, 10000); // Update every 10s
 
     return () => clearInterval(interval);
-  }, []);
+  }, [updateStats]);
 
-  return stats;
+  return { ...stats, refresh: updateStats };
 }
 
 /**
@@ -169,9 +172,14 @@ export function useCacheManagement() {
     await cacheService.invalidate(pattern);
   }, []);
 
+  const setQuota = useCallback(async (bytes: number) => {
+    await cacheService.setQuota(bytes);
+  }, []);
+
   return {
     clearCache,
     deleteExpired,
     invalidatePattern,
+    setQuota,
   };
 }
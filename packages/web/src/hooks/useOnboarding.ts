@@ -3,6 +3,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import { alertEngine, createStarterRule } from '@seame/core';
 import { OnboardingPreferences, DEFAULT_PREFERENCES } from '../types/onboarding';
 
 const STORAGE_KEY = 'seayou_onboarding_complete';
@@ -58,6 +59,15 @@ export function useOnboarding() {
       completedAt: new Date().toISOString(),
     };
     savePreferences(completed);
+
+    // "Notify when perfect" starts the user off with an alert rule for their activity
+    const { primaryActivity, location, alerts } = completed;
+    if (alerts.notifyWhenPerfect && primaryActivity && location) {
+      alertEngine
+        .saveRule(createStarterRule(primaryActivity, location, alerts))
+        .catch((error) => console.error('Failed to create starter alert rule:', error));
+    }
+
     setIsOpen(false);
   }, [preferences, savePreferences]);
 
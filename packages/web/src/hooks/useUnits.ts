@@ -0,0 +1,6 @@
+import { useContext } from 'react';
+import { UnitsContext } from '../contexts/UnitsContext';
+
+export function useUnits() {
+  return useContext(UnitsContext);
+}
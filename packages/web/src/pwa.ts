@@ -1,12 +1,38 @@
 /**
  * PWA Registration
  *
- * Registers the service worker and handles updates.
+ * Registers the service worker, handles updates and schedules the background
+ * forecast refresh.
  */
 
 import { registerSW } from 'virtual:pwa-register';
 import { UI_CONSTANTS } from '@seame/core';
 
+/** Periodic Background Sync, not in the TypeScript DOM lib yet */
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+  };
+}
+
+/**
+ * Ask the browser to wake the service worker periodically to refresh saved
+ * forecasts and check alert rules. Only installed PWAs on Chromium browsers
+ * are granted this; everywhere else the page refreshes while it is open.
+ */
+async function registerBackgroundRefresh(registration: ServiceWorkerRegistration): Promise<void> {
+  if (!('periodicSync' in registration)) return;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return;
+    await (registration as PeriodicSyncRegistration).periodicSync.register(UI_CONSTANTS.BACKGROUND_REFRESH.TAG, {
+      minInterval: UI_CONSTANTS.BACKGROUND_REFRESH.MIN_INTERVAL_MS,
+    });
+  } catch (error) {
+    console.warn('Periodic background sync unavailable, refreshing while the app is open:', error);
+  }
+}
+
 // Register service worker
 const updateSW = registerSW({
   onNeedRefresh() {
@@ -20,6 +46,7 @@ const updateSW = registerSW({
   },
   onRegistered(registration) {
     console.log('Service Worker registered:', registration);
+    if (registration) registerBackgroundRefresh(registration);
   },
   onRegisterError(error) {
     console.error('Service Worker registration error:', error);
@@ -0,0 +1,139 @@
+/// <reference lib="webworker" />
+/**
+ * Service Worker
+ *
+ * Precaches the app shell and caches API responses at runtime, and refreshes
+ * the forecasts of saved locations in the background with Periodic Background
+ * Sync: fresh forecasts go into the IndexedDB cache the app reads on start,
+ * alert rules are evaluated against them and matches raise system
+ * notifications that deep link into the Dashboard or the map.
+ *
+ * Browsers without Periodic Background Sync (or without permission for it)
+ * refresh from the page while it is open instead (see useAlertEngine).
+ */
+
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { CacheFirst, NetworkFirst } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { clientsClaim } from 'workbox-core';
+import { CACHE_CONFIG, UI_CONSTANTS, refreshForecasts } from '@seame/core';
+import { systemNotification } from './alertNotifications';
+
+declare let self: ServiceWorkerGlobalScope;
+
+/** Periodic sync event, not in the TypeScript lib yet */
+interface PeriodicSyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+// ============================================
+// APP SHELL & RUNTIME CACHING
+// ============================================
+
+// Update straight away (registerType: 'autoUpdate')
+self.skipWaiting();
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
+
+const { WORKBOX } = CACHE_CONFIG;
+
+// Open-Meteo API calls
+registerRoute(
+  /^https:\/\/.*api\.open-meteo\.com\/.*/,
+  new NetworkFirst({
+    cacheName: 'api-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: WORKBOX.API_MAX_ENTRIES, maxAgeSeconds: WORKBOX.API_MAX_AGE_SECONDS }),
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  })
+);
+
+// Marine API calls
+registerRoute(
+  /^https:\/\/marine-api\.open-meteo\.com\/.*/,
+  new NetworkFirst({
+    cacheName: 'marine-api-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: WORKBOX.MARINE_MAX_ENTRIES, maxAgeSeconds: WORKBOX.MARINE_MAX_AGE_SECONDS }),
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  })
+);
+
+// Geocoding API
+registerRoute(
+  /^https:\/\/geocoding-api\.open-meteo\.com\/.*/,
+  new CacheFirst({
+    cacheName: 'geocoding-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: WORKBOX.GEOCODING_MAX_ENTRIES, maxAgeSeconds: WORKBOX.GEOCODING_MAX_AGE_SECONDS }),
+    ],
+  })
+);
+
+// Static images
+registerRoute(
+  /\.(?:png|jpg|jpeg|svg|gif|webp)$/,
+  new CacheFirst({
+    cacheName: 'images-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: WORKBOX.IMAGES_MAX_ENTRIES, maxAgeSeconds: WORKBOX.IMAGES_MAX_AGE_SECONDS }),
+    ],
+  })
+);
+
+// ============================================
+// BACKGROUND FORECAST REFRESH
+// ============================================
+
+async function refreshInBackground(): Promise<void> {
+  const result = await refreshForecasts({ force: true });
+  console.log(
+    `[SW] Refreshed ${result.refreshed} forecasts, ${result.failed.length} failed, ${result.notifications.length} alerts`
+  );
+
+  const canNotify = typeof Notification !== 'undefined' && Notification.permission === 'granted';
+  for (const notification of result.notifications) {
+    if (notification.quiet || !canNotify) continue;
+    const { title, options } = systemNotification(notification);
+    await self.registration.showNotification(title, options);
+  }
+}
+
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as PeriodicSyncEvent;
+  if (syncEvent.tag === UI_CONSTANTS.BACKGROUND_REFRESH.TAG) {
+    syncEvent.waitUntil(refreshInBackground());
+  }
+});
+
+// ============================================
+// NOTIFICATION DEEP LINKS
+// ============================================
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = (event.notification.data ?? {}) as { url?: string; mapUrl?: string };
+  const url = event.action === 'map' ? data.mapUrl : data.url;
+  if (!url) return;
+
+  event.waitUntil(
+    (async () => {
+      // Reuse an open app window rather than stacking new ones
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const client = windows.find((c) => c.url.startsWith(self.registration.scope));
+      if (client) {
+        const navigated = await client.navigate(url);
+        await (navigated ?? client).focus();
+      } else {
+        await self.clients.openWindow(url);
+      }
+    })()
+  );
+});
@@ -70,6 +70,9 @@ export const WINDY_COLOR_GRADIENTS = {
  * Dark map configuration (Windy-style)
  */
 export const DARK_MAP_CONFIG = {
+  /** Tile cache key prefix */
+  style: 'dark',
+
   /** CartoDB Dark Matter tile URL with labels for better visibility */
   tileUrl: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
 
@@ -83,6 +86,21 @@ export const DARK_MAP_CONFIG = {
   backgroundColor: '#2a2a2c',
 } as const;
 
+/**
+ * OpenSeaMap seamark overlay (buoys, beacons, lights) drawn over the base map
+ */
+export const SEAMARK_MAP_CONFIG = {
+  /** Tile cache key prefix */
+  style: 'seamark',
+
+  tileUrl: 'https://tiles.openseamap.org/seamark/{z}/{x}/{y}.png',
+
+  attribution: 'Seamarks &copy; <a href="https://www.openseamap.org">OpenSeaMap</a> contributors',
+
+  /** OpenSeaMap only renders seamarks from zoom 9 */
+  minZoom: 9,
+} as const;
+
 /**
  * Land mask styling (Windy-style)
  */
@@ -65,64 +65,12 @@ export default defineConfig({
           }
         ]
       },
-      workbox: {
+      // Custom service worker (src/sw.ts) for background forecast refresh and alert notifications
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
+      injectManifest: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
-        runtimeCaching: [
-          {
-            // Cache Open-Meteo API calls
-            urlPattern: /^https:\/\/.*api\.open-meteo\.com\/.*/,
-            handler: 'NetworkFirst',
-            options: {
-              cacheName: 'api-cache',
-              expiration: {
-                maxEntries: 100,
-                maxAgeSeconds: 60 * 60 // 1 hour
-              },
-              cacheableResponse: {
-                statuses: [0, 200]
-              }
-            }
-          },
-          {
-            // Cache Marine API calls
-            urlPattern: /^https:\/\/marine-api\.open-meteo\.com\/.*/,
-            handler: 'NetworkFirst',
-            options: {
-              cacheName: 'marine-api-cache',
-              expiration: {
-                maxEntries: 50,
-                maxAgeSeconds: 30 * 60 // 30 minutes
-              },
-              cacheableResponse: {
-                statuses: [0, 200]
-              }
-            }
-          },
-          {
-            // Cache geocoding API
-            urlPattern: /^https:\/\/geocoding-api\.open-meteo\.com\/.*/,
-            handler: 'CacheFirst',
-            options: {
-              cacheName: 'geocoding-cache',
-              expiration: {
-                maxEntries: 100,
-                maxAgeSeconds: 7 * 24 * 60 * 60 // 1 week
-              }
-            }
-          },
-          {
-            // Cache static assets
-            urlPattern: /\.(?:png|jpg|jpeg|svg|gif|webp)$/,
-            handler: 'CacheFirst',
-            options: {
-              cacheName: 'images-cache',
-              expiration: {
-                maxEntries: 60,
-                maxAgeSeconds: 30 * 24 * 60 * 60 // 30 days
-              }
-            }
-          }
-        ]
       },
       devOptions: {
         enabled: false, // Disabled in development to avoid base path issues